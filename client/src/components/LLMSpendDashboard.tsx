@@ -0,0 +1,252 @@
+/**
+ * LLM Spend Dashboard Component
+ * Shows an instance's LLM spend over time by day, pipeline step and model,
+ * and its daily/monthly budget usage
+ *
+ * @created 2026-10-19
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertCircle, DollarSign, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { adminApiRequest } from '@/lib/queryClient';
+
+interface SpendTotal {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface LLMSpendResponse {
+  days: number;
+  since: string;
+  totalCostUsd: number;
+  byDay: SpendTotal[];
+  byStep: SpendTotal[];
+  byModel: SpendTotal[];
+  budget: {
+    dailyUSD?: number;
+    monthlyUSD?: number;
+    onExceeded?: 'pause' | 'fallback';
+    fallback?: { provider?: string; model: string };
+    dailySpendUSD: number;
+    monthlySpendUSD: number;
+    exceeded: 'daily' | 'monthly' | null;
+  } | null;
+}
+
+const PERIODS = [7, 30, 90];
+
+const formatUSD = (value: number): string =>
+  value < 0.01 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+
+const formatTokens = (value: number): string =>
+  value >= 1_000_000
+    ? `${(value / 1_000_000).toFixed(1)}M`
+    : value >= 1000
+      ? `${(value / 1000).toFixed(1)}K`
+      : String(value);
+
+function BudgetBar({ label, spent, limit }: { label: string; spent: number; limit?: number }) {
+  if (limit === undefined) {
+    return (
+      <div className="text-sm text-gray-600">
+        {label}: {formatUSD(spent)} (no limit)
+      </div>
+    );
+  }
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600">{label}</span>
+        <span className={spent >= limit ? 'text-red-600 font-medium' : 'text-gray-900'}>
+          {formatUSD(spent)} / {formatUSD(limit)}
+        </span>
+      </div>
+      <Progress value={Math.min((spent / limit) * 100, 100)} />
+    </div>
+  );
+}
+
+function SpendTable({ title, totals }: { title: string; totals: SpendTotal[] }) {
+  const sorted = [...totals].sort((a, b) => b.costUsd - a.costUsd);
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {sorted.length === 0 ? (
+          <p className="text-sm text-gray-500">No LLM calls in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Calls</TableHead>
+                <TableHead className="text-right">Input</TableHead>
+                <TableHead className="text-right">Output</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sorted.map((total) => (
+                <TableRow key={total.key}>
+                  <TableCell className="font-mono text-xs">{total.key}</TableCell>
+                  <TableCell className="text-right">{total.calls}</TableCell>
+                  <TableCell className="text-right">{formatTokens(total.inputTokens)}</TableCell>
+                  <TableCell className="text-right">{formatTokens(total.outputTokens)}</TableCell>
+                  <TableCell className="text-right">{formatUSD(total.costUsd)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function LLMSpendDashboard({ apiPrefix }: { apiPrefix: string }) {
+  const [days, setDays] = useState(30);
+
+  const { data, isLoading, error, refetch } = useQuery<LLMSpendResponse>({
+    queryKey: [`${apiPrefix}/api/admin/quality/pipeline/llm-spend`, days],
+    queryFn: async () => {
+      const response = await adminApiRequest(
+        'GET',
+        `${apiPrefix}/api/admin/quality/pipeline/llm-spend?days=${days}`
+      );
+      return response.json();
+    },
+  });
+
+  if (error) {
+    return (
+      <div className="flex items-center gap-2 text-red-600">
+        <AlertCircle className="w-4 h-4" />
+        Failed to load LLM spend: {error instanceof Error ? error.message : 'Unknown error'}
+      </div>
+    );
+  }
+
+  const maxDayCost = Math.max(...(data?.byDay.map((day) => day.costUsd) ?? []), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          {PERIODS.map((period) => (
+            <Button
+              key={period}
+              size="sm"
+              variant={period === days ? 'default' : 'outline'}
+              onClick={() => setDays(period)}
+            >
+              {period} days
+            </Button>
+          ))}
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => refetch()}>
+          <RefreshCw className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <DollarSign className="w-5 h-5" />
+              Total Spend
+            </CardTitle>
+            <CardDescription>Last {days} days</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold">
+              {isLoading || !data ? '-' : formatUSD(data.totalCostUsd)}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              Budget
+              {data?.budget?.exceeded && (
+                <Badge className="bg-red-100 text-red-800">
+                  {data.budget.exceeded} budget exceeded
+                  {data.budget.onExceeded === 'fallback' && data.budget.fallback
+                    ? ` - using ${data.budget.fallback.model}`
+                    : ' - processing paused'}
+                </Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {data?.budget ? (
+              <>
+                <BudgetBar
+                  label="Today (UTC)"
+                  spent={data.budget.dailySpendUSD}
+                  limit={data.budget.dailyUSD}
+                />
+                <BudgetBar
+                  label="This month (UTC)"
+                  spent={data.budget.monthlySpendUSD}
+                  limit={data.budget.monthlyUSD}
+                />
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">
+                No budget configured (set llm.budget in the instance configuration)
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Spend by Day</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {data?.byDay.length ? (
+            data.byDay.map((day) => (
+              <div key={day.key} className="flex items-center gap-3 text-xs">
+                <span className="w-20 font-mono text-gray-600">{day.key}</span>
+                <div className="flex-1 h-3 bg-gray-100 rounded">
+                  <div
+                    className="h-3 bg-blue-500 rounded"
+                    style={{ width: `${maxDayCost ? (day.costUsd / maxDayCost) * 100 : 0}%` }}
+                  />
+                </div>
+                <span className="w-20 text-right">{formatUSD(day.costUsd)}</span>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-gray-500">No LLM calls in this period</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <SpendTable title="By Pipeline Step" totals={data?.byStep ?? []} />
+        <SpendTable title="By Model" totals={data?.byModel ?? []} />
+      </div>
+    </div>
+  );
+}
@@ -32,11 +32,18 @@ import {
 import { Alert, AlertDescription } from './ui/alert';
 import { useConfig } from '@/hooks/useConfig';
 
+const HOST_NAMES = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  gitea: 'Gitea',
+  bitbucket: 'Bitbucket',
+} as const;
+
 interface PRPreviewModalProps {
   isOpen: boolean;
   onClose: () => void;
   approvedProposals: any[];
-  onSubmit: (prData: PRSubmitData) => Promise<void>;
+  onSubmit: (prData: PRSubmitData) => Promise<PRSubmitResult | void>;
 }
 
 export interface PRSubmitData {
@@ -48,6 +55,33 @@ export interface PRSubmitData {
   submittedBy: string;
 }
 
+export interface PRFailedProposal {
+  proposalId: number;
+  error: string;
+  errorType: string;
+  diff?: string; // Conflicting hunks when errorType is "conflict"
+}
+
+export interface PRSubmitResult {
+  pr?: { url: string; number: number };
+  prs?: Array<{ url: string; number: number }>; // One per documentation repository
+  appliedProposals?: number[];
+  failedProposals?: PRFailedProposal[];
+}
+
+/**
+ * Extract the server error and per-proposal failures from an API error ("500: {json}")
+ */
+function parseSubmitError(error: unknown): { error: string; failedProposals?: PRFailedProposal[] } {
+  const message = error instanceof Error ? error.message : 'Failed to generate PR';
+  try {
+    const body = JSON.parse(message.replace(/^\d{3}: /, ''));
+    return { error: body.error || message, failedProposals: body.failedProposals };
+  } catch {
+    return { error: message };
+  }
+}
+
 export function PRPreviewModal({
   isOpen,
   onClose,
@@ -61,9 +95,10 @@ export function PRPreviewModal({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitResult, setSubmitResult] = useState<{
     success: boolean;
-    pr?: { url: string; number: number };
+    prs?: Array<{ url: string; number: number }>;
     appliedCount?: number;
     failedCount?: number;
+    failedProposals?: PRFailedProposal[];
     error?: string;
   } | null>(null);
 
@@ -71,6 +106,7 @@ export function PRPreviewModal({
   const targetRepo = config?.repository?.targetRepo || '';
   const sourceRepo = config?.repository?.sourceRepo || ''; // Same as targetRepo, kept for API compatibility
   const baseBranch = config?.repository?.baseBranch || 'main';
+  const hostName = HOST_NAMES[config?.repository?.host || 'github'];
 
   // Group proposals by file
   const proposalsByFile = approvedProposals.reduce(
@@ -103,7 +139,7 @@ export function PRPreviewModal({
     setSubmitResult(null);
 
     try {
-      await onSubmit({
+      const result = await onSubmit({
         targetRepo,
         sourceRepo,
         baseBranch,
@@ -114,13 +150,15 @@ export function PRPreviewModal({
 
       setSubmitResult({
         success: true,
-        appliedCount: totalProposals,
-        failedCount: 0,
+        prs: result?.prs ?? (result?.pr ? [result.pr] : undefined),
+        appliedCount: result?.appliedProposals?.length ?? totalProposals,
+        failedCount: result?.failedProposals?.length ?? 0,
+        failedProposals: result?.failedProposals,
       });
     } catch (error) {
       setSubmitResult({
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to generate PR',
+        ...parseSubmitError(error),
       });
     } finally {
       setIsSubmitting(false);
@@ -158,19 +196,19 @@ export function PRPreviewModal({
                 <AlertDescription className="text-green-900">
                   <div className="space-y-2">
                     <p className="font-semibold">Pull request created successfully!</p>
-                    {submitResult.pr && (
-                      <p>
-                        PR #{submitResult.pr.number}:{' '}
+                    {submitResult.prs?.map((pr) => (
+                      <p key={pr.url}>
+                        PR #{pr.number}:{' '}
                         <a
-                          href={submitResult.pr.url}
+                          href={pr.url}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="underline"
                         >
-                          {submitResult.pr.url}
+                          {pr.url}
                         </a>
                       </p>
-                    )}
+                    ))}
                     <p className="text-sm">
                       Applied {submitResult.appliedCount} proposals successfully
                       {submitResult.failedCount! > 0 && ` (${submitResult.failedCount} failed)`}
@@ -189,6 +227,34 @@ export function PRPreviewModal({
                 </AlertDescription>
               </Alert>
             )}
+
+            {/* Failed proposals, with merge conflict diffs */}
+            {submitResult.failedProposals && submitResult.failedProposals.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold text-gray-900">
+                  Failed Proposals ({submitResult.failedProposals.length})
+                </h3>
+                {submitResult.failedProposals.map((failure) => (
+                  <div
+                    key={failure.proposalId}
+                    className="p-3 border border-gray-200 rounded-md bg-white space-y-2"
+                  >
+                    <p className="text-sm text-gray-900">
+                      <span className="font-medium">Proposal #{failure.proposalId}</span>
+                      <span className="ml-2 px-1.5 py-0.5 rounded bg-red-100 text-red-800 text-xs font-mono">
+                        {failure.errorType}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-600">{failure.error}</p>
+                    {failure.diff && (
+                      <pre className="max-h-64 overflow-auto p-2 rounded bg-gray-50 border border-gray-200 text-xs font-mono text-gray-900 whitespace-pre">
+                        {failure.diff}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         ) : (
           <div className="space-y-6">
@@ -328,7 +394,7 @@ export function PRPreviewModal({
             <Alert className="bg-blue-50 border-blue-200">
               <AlertCircle className="h-4 w-4 text-blue-600" />
               <AlertDescription className="text-gray-900">
-                The PR will be created as a <strong>draft</strong>. Review it on GitHub before
+                The PR will be created as a <strong>draft</strong>. Review it on {hostName} before
                 publishing.
               </AlertDescription>
             </Alert>
@@ -21,6 +21,7 @@ import {
   AlertCircle,
   ArrowRight,
   Database,
+  MessagesSquare,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -55,6 +56,11 @@ interface PipelineStep {
   llmResponse?: string;
   // Multi-entry prompt/query log (new format)
   promptEntries?: PromptLogEntry[];
+  // Models that served the step's LLM calls (steps with a fallback chain)
+  llmRouting?: {
+    models: Array<{ provider: string; model: string; calls: number }>;
+    fallbacks: Array<{ provider: string; model: string; reason: string; count: number }>;
+  };
 }
 
 interface PipelineProgressProps {
@@ -86,6 +92,15 @@ const PIPELINE_STAGES = [
     promptId: null,
     color: 'blue',
   },
+  {
+    id: 'thread',
+    name: 'Thread',
+    stepType: 'thread',
+    icon: MessagesSquare,
+    description: 'Group messages into conversations by reply links',
+    promptId: null,
+    color: 'indigo',
+  },
   {
     id: 'classify',
     name: 'Classify',
@@ -500,6 +515,29 @@ export default function PipelineProgress({
                             </div>
                           )}
 
+                        {/* LLM routing (fallback chains) */}
+                        {stepData?.llmRouting && (
+                          <div className="text-sm space-y-1">
+                            {stepData.llmRouting.models.map((m) => (
+                              <div key={`${m.provider}/${m.model}`}>
+                                <span className="text-gray-500">Model:</span>
+                                <span className="ml-2 font-medium">
+                                  {m.provider}/{m.model}
+                                </span>
+                                <span className="ml-2 text-gray-500">({m.calls} calls)</span>
+                              </div>
+                            ))}
+                            {stepData.llmRouting.fallbacks.map((f) => (
+                              <div
+                                key={`${f.provider}/${f.model}/${f.reason}`}
+                                className="text-amber-700"
+                              >
+                                Skipped {f.provider}/{f.model} ({f.count}x): {f.reason}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
                         {/* Error */}
                         {stepData?.error && (
                           <div className="bg-red-50 border border-red-200 rounded-md p-3">
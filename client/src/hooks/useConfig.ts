@@ -38,6 +38,8 @@ export interface RepositoryConfig {
   targetRepo: string;
   sourceRepo: string;
   baseBranch: string;
+  host?: 'github' | 'gitlab' | 'gitea' | 'bitbucket';
+  hostUrl?: string; // Self-hosted instances only
 }
 
 export interface AppConfig {
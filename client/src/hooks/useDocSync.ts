@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { adminApiRequest } from '@/lib/queryClient';
+
+export interface DocSyncJob {
+  jobId: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+  totalFiles: number;
+  processedFiles: number;
+  currentFile: string | null;
+  summary: {
+    added: number;
+    modified: number;
+    deleted: number;
+    renamed?: number;
+    failed?: number;
+    filesProcessed: string[];
+  } | null;
+  failures: Array<{ path: string; error: string }> | null;
+  result: {
+    hadUpdates: boolean;
+    currentHash: string;
+    previousHash: string | null;
+    totalDocuments: number;
+    duration: number;
+  } | null;
+  errorMessage: string | null;
+}
+
+interface UseDocSyncOptions {
+  onFinished: (job: DocSyncJob) => void;
+  onError: (error: Error) => void;
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+/**
+ * Start a background documentation sync job and poll its progress until it finishes
+ * If a sync is already running, its progress is followed instead.
+ */
+export function useDocSync({ onFinished, onError }: UseDocSyncOptions) {
+  const [jobId, setJobId] = useState<string | null>(null);
+  const finishedRef = useRef(onFinished);
+  finishedRef.current = onFinished;
+
+  const startMutation = useMutation({
+    mutationFn: async (force: boolean = false): Promise<DocSyncJob> => {
+      try {
+        const response = await adminApiRequest('POST', '/api/docs/sync', { force });
+        return await response.json();
+      } catch (error) {
+        // 409: a sync is already running - follow that job
+        const conflict = error instanceof Error && error.message.match(/^409: (.*)$/s);
+        if (conflict) {
+          const body = JSON.parse(conflict[1]);
+          if (body.job) return body.job;
+        }
+        throw error;
+      }
+    },
+    onSuccess: (job) => setJobId(job.jobId),
+    onError,
+  });
+
+  const jobQuery = useQuery<DocSyncJob>({
+    queryKey: ['/api/docs/sync/jobs', jobId],
+    queryFn: async () => {
+      const response = await adminApiRequest('GET', `/api/docs/sync/jobs/${jobId}`);
+      return await response.json();
+    },
+    enabled: !!jobId,
+    refetchInterval: (query) =>
+      query.state.data && query.state.data.status !== 'running' ? false : POLL_INTERVAL_MS,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await adminApiRequest('POST', `/api/docs/sync/jobs/${jobId}/cancel`);
+      return await response.json();
+    },
+    onError,
+  });
+
+  const job = jobQuery.data?.jobId === jobId ? jobQuery.data : undefined;
+
+  useEffect(() => {
+    if (job && job.status !== 'running') {
+      finishedRef.current(job);
+      setJobId(null);
+    }
+  }, [job]);
+
+  return {
+    job,
+    isSyncing: startMutation.isPending || jobId !== null,
+    start: (force: boolean = false) => startMutation.mutate(force),
+    cancel: () => cancelMutation.mutate(),
+    isCancelling: cancelMutation.isPending,
+  };
+}
+
+/**
+ * Short progress label, e.g. "Syncing 12/40..."
+ */
+export function formatDocSyncProgress(job: DocSyncJob | undefined): string {
+  if (!job || job.totalFiles === 0) return 'Syncing...';
+  return `Syncing ${job.processedFiles}/${job.totalFiles}...`;
+}
+
+/**
+ * Toast message for a finished sync job
+ */
+export function formatDocSyncResult(job: DocSyncJob): string {
+  const summary = job.summary;
+  const result = job.result;
+  const shortPrevHash = result?.previousHash ? result.previousHash.substring(0, 8) : 'none';
+  const shortCurrentHash = result?.currentHash ? result.currentHash.substring(0, 8) : 'unknown';
+  const durationSeconds = ((result?.duration || 0) / 1000).toFixed(1);
+
+  let message = '';
+  if (result?.hadUpdates) {
+    message = `Synced ${summary?.filesProcessed?.length || 0} files. Added: ${summary?.added || 0}, Modified: ${summary?.modified || 0}${summary?.deleted ? `, Deleted: ${summary.deleted}` : ''}${summary?.renamed ? `, Renamed: ${summary.renamed}` : ''}`;
+  } else {
+    message = `No updates found - already up to date`;
+  }
+
+  if (job.failures && job.failures.length > 0) {
+    message += `\n\nFailed (${job.failures.length}): ${job.failures
+      .slice(0, 5)
+      .map((f) => f.path)
+      .join(', ')}${job.failures.length > 5 ? ', ...' : ''}`;
+  }
+
+  message += `\n\nTotal documents: ${result?.totalDocuments || 'unknown'}`;
+  message += `\nDuration: ${durationSeconds}s`;
+  message += `\n\nFrom: ${shortPrevHash}\nTo: ${shortCurrentHash}`;
+  return message;
+}
@@ -36,9 +36,14 @@ import {
   DialogDescription,
 } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
+import { useDocSync, formatDocSyncProgress, formatDocSyncResult } from '@/hooks/useDocSync';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { queryClient, adminApiRequest, getQueryFn } from '@/lib/queryClient';
-import { PRPreviewModal, type PRSubmitData } from '@/components/PRPreviewModal';
+import {
+  PRPreviewModal,
+  type PRSubmitData,
+  type PRSubmitResult,
+} from '@/components/PRPreviewModal';
 
 // Get instance prefix from URL (e.g., /myinstance/admin -> /myinstance)
 function getInstancePrefix(): string {
@@ -404,32 +409,26 @@ export default function Admin() {
     },
   });
 
-  const syncDocsMutation = useMutation({
-    mutationFn: async (force: boolean = false) => {
-      const response = await adminApiRequest('POST', '/api/docs/sync', { force });
-      return await response.json();
-    },
-    onSuccess: (data: any) => {
-      const shortPrevHash = data.previousHash ? data.previousHash.substring(0, 8) : 'none';
-      const shortCurrentHash = data.currentHash ? data.currentHash.substring(0, 8) : 'unknown';
-      const durationSeconds = ((data.duration || 0) / 1000).toFixed(1);
-
-      let message = '';
-      if (data.hadUpdates) {
-        message = `Synced ${data.summary?.filesProcessed?.length || 0} files. Added: ${data.summary?.added || 0}, Modified: ${data.summary?.modified || 0}${data.summary?.deleted ? `, Deleted: ${data.summary.deleted}` : ''}`;
+  const docSync = useDocSync({
+    onFinished: (job) => {
+      if (job.status === 'completed') {
+        toast({
+          title: 'Documentation Sync Complete',
+          description: formatDocSyncResult(job),
+          duration: Infinity, // Don't auto-close
+        });
+      } else if (job.status === 'cancelled') {
+        toast({
+          title: 'Sync Cancelled',
+          description: `Stopped after ${job.processedFiles} of ${job.totalFiles} files. The next sync continues from there.`,
+        });
       } else {
-        message = `No updates found - already up to date`;
+        toast({
+          title: 'Sync Failed',
+          description: job.errorMessage || 'Failed to sync documentation.',
+          variant: 'destructive',
+        });
       }
-
-      message += `\n\nTotal documents: ${data.totalDocuments || 'unknown'}`;
-      message += `\nDuration: ${durationSeconds}s`;
-      message += `\n\nFrom: ${shortPrevHash}\nTo: ${shortCurrentHash}`;
-
-      toast({
-        title: 'Documentation Sync Complete',
-        description: message,
-        duration: Infinity, // Don't auto-close
-      });
       queryClient.invalidateQueries({ queryKey: ['/api/docs/git-stats'] });
     },
     onError: (error: Error) => {
@@ -616,7 +615,7 @@ export default function Admin() {
   });
 
   const handleSyncDocs = () => {
-    syncDocsMutation.mutate(false);
+    docSync.start(false);
   };
 
   const handleApprove = (id: string) => approveMutation.mutate(id);
@@ -660,31 +659,46 @@ export default function Admin() {
       return;
     }
 
-    // Step 1: Create a draft batch
+    // Step 1: Create draft batches (one per documentation repository)
     const batchResponse = await adminApiRequest('POST', `${apiPrefix}/api/admin/stream/batches`, {
       proposalIds,
     });
-    const batchData = (await batchResponse.json()) as { batch: { id: number } };
-
-    // Step 2: Generate PR from the batch
-    await adminApiRequest(
-      'POST',
-      `${apiPrefix}/api/admin/stream/batches/${batchData.batch.id}/generate-pr`,
-      {
-        ...prData,
-        proposalIds,
-      }
-    );
+    const batchData = (await batchResponse.json()) as {
+      batch: { id: number };
+      batches?: Array<{ id: number }>;
+    };
+
+    // Step 2: Generate a PR from each batch
+    const result: PRSubmitResult = { prs: [], appliedProposals: [], failedProposals: [] };
+    for (const batch of batchData.batches ?? [batchData.batch]) {
+      const prResponse = await adminApiRequest(
+        'POST',
+        `${apiPrefix}/api/admin/stream/batches/${batch.id}/generate-pr`,
+        {
+          ...prData,
+          proposalIds,
+        }
+      );
+      const batchResult = (await prResponse.json()) as PRSubmitResult;
+      if (batchResult.pr) result.prs!.push(batchResult.pr);
+      result.appliedProposals!.push(...(batchResult.appliedProposals ?? []));
+      result.failedProposals!.push(...(batchResult.failedProposals ?? []));
+    }
 
     queryClient.invalidateQueries({ queryKey: [pendingQueryKey] });
     queryClient.invalidateQueries({ queryKey: [changesetQueryKey] });
     queryClient.invalidateQueries({ queryKey: [discardedQueryKey] });
     queryClient.invalidateQueries({ queryKey: [allQueryKey] });
-    setPrModalOpen(false);
     toast({
       title: 'Pull Request Created',
       description: 'Your PR has been created successfully as a draft.',
     });
+
+    // Keep the modal open so failed proposals (e.g. merge conflicts) can be reviewed
+    if (!result.failedProposals?.length) {
+      setPrModalOpen(false);
+    }
+    return result;
   };
 
   const formatTimestamp = (timestamp: Date | string) => {
@@ -847,17 +861,25 @@ export default function Admin() {
                 size="sm"
                 onClick={handleSyncDocs}
                 disabled={
-                  syncDocsMutation.isPending ||
-                  processingOverlay.visible ||
-                  streamStats?.is_processing
+                  docSync.isSyncing || processingOverlay.visible || streamStats?.is_processing
                 }
                 className="bg-green-600 hover:bg-green-700 text-white"
+                title={docSync.job?.currentFile || undefined}
               >
-                <RefreshCw
-                  className={`h-4 w-4 mr-2 ${syncDocsMutation.isPending ? 'animate-spin' : ''}`}
-                />
-                {syncDocsMutation.isPending ? 'Syncing...' : 'Sync Docs'}
+                <RefreshCw className={`h-4 w-4 mr-2 ${docSync.isSyncing ? 'animate-spin' : ''}`} />
+                {docSync.isSyncing ? formatDocSyncProgress(docSync.job) : 'Sync Docs'}
               </Button>
+              {docSync.job && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={docSync.cancel}
+                  disabled={docSync.isCancelling}
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Cancel Sync
+                </Button>
+              )}
 
               <div className="h-6 w-px bg-gray-300" />
 
@@ -1412,6 +1434,19 @@ export default function Admin() {
                             >
                               {batch.status.toUpperCase()}
                             </span>
+                            {batch.reviewState && (
+                              <span
+                                className={`inline-flex items-center rounded-md px-2 py-1 text-xs font-medium ${
+                                  batch.reviewState === 'approved'
+                                    ? 'bg-green-50 border border-green-200 text-green-700'
+                                    : 'bg-orange-50 border border-orange-200 text-orange-700'
+                                }`}
+                              >
+                                {batch.reviewState === 'approved'
+                                  ? 'Approved'
+                                  : 'Changes requested'}
+                              </span>
+                            )}
                           </div>
                           {batch.prUrl && (
                             <a
@@ -5,7 +5,11 @@ import remarkGfm from 'remark-gfm';
 import { StatsCard } from '@/components/StatsCard';
 import { ProposalActionButtons } from '@/components/ProposalActionButtons';
 import { EditProposalModal } from '@/components/EditProposalModal';
-import { PRPreviewModal, type PRSubmitData } from '@/components/PRPreviewModal';
+import {
+  PRPreviewModal,
+  type PRSubmitData,
+  type PRSubmitResult,
+} from '@/components/PRPreviewModal';
 import {
   FileText,
   CheckCircle2,
@@ -38,6 +42,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
+import { useDocSync, formatDocSyncProgress, formatDocSyncResult } from '@/hooks/useDocSync';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { queryClient, adminApiRequest, getQueryFn } from '@/lib/queryClient';
 import type { PendingUpdate, DocumentationSection, SectionVersion } from '@shared/schema';
@@ -322,32 +327,26 @@ export default function AdminAdvanced() {
     },
   });
 
-  const syncDocsMutation = useMutation({
-    mutationFn: async (force: boolean = false) => {
-      const response = await adminApiRequest('POST', '/api/docs/sync', { force });
-      return await response.json();
-    },
-    onSuccess: (data: any) => {
-      const shortPrevHash = data.previousHash ? data.previousHash.substring(0, 8) : 'none';
-      const shortCurrentHash = data.currentHash ? data.currentHash.substring(0, 8) : 'unknown';
-      const durationSeconds = ((data.duration || 0) / 1000).toFixed(1);
-
-      let message = '';
-      if (data.hadUpdates) {
-        message = `Synced ${data.summary?.filesProcessed?.length || 0} files. Added: ${data.summary?.added || 0}, Modified: ${data.summary?.modified || 0}${data.summary?.deleted ? `, Deleted: ${data.summary.deleted}` : ''}`;
+  const docSync = useDocSync({
+    onFinished: (job) => {
+      if (job.status === 'completed') {
+        toast({
+          title: 'Documentation Sync Complete',
+          description: formatDocSyncResult(job),
+          duration: Infinity, // Don't auto-close
+        });
+      } else if (job.status === 'cancelled') {
+        toast({
+          title: 'Sync Cancelled',
+          description: `Stopped after ${job.processedFiles} of ${job.totalFiles} files. The next sync continues from there.`,
+        });
       } else {
-        message = `No updates found - already up to date`;
+        toast({
+          title: 'Sync Failed',
+          description: job.errorMessage || 'Failed to sync documentation.',
+          variant: 'destructive',
+        });
       }
-
-      message += `\n\nTotal documents: ${data.totalDocuments || 'unknown'}`;
-      message += `\nDuration: ${durationSeconds}s`;
-      message += `\n\nFrom: ${shortPrevHash}\nTo: ${shortCurrentHash}`;
-
-      toast({
-        title: 'Documentation Sync Complete',
-        description: message,
-        duration: Infinity, // Don't auto-close
-      });
     },
     onError: (error: Error) => {
       if (error.message.includes('401') || error.message.includes('403')) {
@@ -364,7 +363,7 @@ export default function AdminAdvanced() {
   });
 
   const handleSyncDocs = () => {
-    syncDocsMutation.mutate(false);
+    docSync.start(false);
   };
 
   const processStreamsMutation = useMutation({
@@ -629,19 +628,26 @@ export default function AdminAdvanced() {
   // PR Generation mutation
   const generatePRMutation = useMutation({
     mutationFn: async (prData: PRSubmitData & { proposalIds: number[] }) => {
-      // First create a batch
+      // First create batches (one per documentation repository)
       const batchResponse = await adminApiRequest('POST', '/api/admin/stream/batches', {
         proposalIds: prData.proposalIds,
       });
       const batchData = await batchResponse.json();
 
-      // Then generate PR from the batch
-      const prResponse = await adminApiRequest(
-        'POST',
-        `/api/admin/stream/batches/${batchData.batch.id}/generate-pr`,
-        prData
-      );
-      return await prResponse.json();
+      // Then generate a PR from each batch
+      const result: PRSubmitResult = { prs: [], appliedProposals: [], failedProposals: [] };
+      for (const batch of batchData.batches ?? [batchData.batch]) {
+        const prResponse = await adminApiRequest(
+          'POST',
+          `/api/admin/stream/batches/${batch.id}/generate-pr`,
+          prData
+        );
+        const batchResult = (await prResponse.json()) as PRSubmitResult;
+        if (batchResult.pr) result.prs!.push(batchResult.pr);
+        result.appliedProposals!.push(...(batchResult.appliedProposals ?? []));
+        result.failedProposals!.push(...(batchResult.failedProposals ?? []));
+      }
+      return result;
     },
     onSuccess: () => {
       toast({
@@ -719,7 +725,7 @@ export default function AdminAdvanced() {
 
     const proposalIds = allApprovedProposals.map((p) => p.id);
 
-    await generatePRMutation.mutateAsync({
+    return await generatePRMutation.mutateAsync({
       ...prData,
       proposalIds,
     });
@@ -784,11 +790,21 @@ export default function AdminAdvanced() {
           </button>
           <button
             onClick={handleSyncDocs}
-            disabled={syncDocsMutation.isPending}
+            disabled={docSync.isSyncing}
+            title={docSync.job?.currentFile || undefined}
             className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
-            {syncDocsMutation.isPending ? 'Syncing...' : 'Sync Docs'}
+            {docSync.isSyncing ? formatDocSyncProgress(docSync.job) : 'Sync Docs'}
           </button>
+          {docSync.job && (
+            <button
+              onClick={docSync.cancel}
+              disabled={docSync.isCancelling}
+              className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md text-sm font-medium hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Cancel Sync
+            </button>
+          )}
           <button
             onClick={handleClearProcessed}
             disabled={clearProcessedMutation.isPending}
@@ -2194,6 +2210,17 @@ export default function AdminAdvanced() {
                           >
                             {batch.status.toUpperCase()}
                           </span>
+                          {batch.reviewState && (
+                            <span
+                              className={`inline-flex items-center rounded-md px-2 py-1 text-xs font-medium ${
+                                batch.reviewState === 'approved'
+                                  ? 'bg-green-50 border border-green-200 text-green-700'
+                                  : 'bg-orange-50 border border-orange-200 text-orange-700'
+                              }`}
+                            >
+                              {batch.reviewState === 'approved' ? 'Approved' : 'Changes requested'}
+                            </span>
+                          )}
                         </div>
                         {batch.prUrl && (
                           <a
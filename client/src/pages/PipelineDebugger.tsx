@@ -3,6 +3,8 @@
  * Debug pipeline runs, view step execution details, manage prompt overrides
  *
  * @created 2026-01-19
+ * @updated 2026-10-19 - LLM spend tab
+ * @updated 2026-10-19 - Re-run a single thread from a run's checkpoint
  */
 
 import { useState, useEffect } from 'react';
@@ -24,6 +26,8 @@ import {
   Zap,
   MessageSquare,
   Database,
+  DollarSign,
+  RotateCcw,
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -34,6 +38,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { adminApiRequest } from '@/lib/queryClient';
 import PipelineProgress from '@/components/PipelineProgress';
+import LLMSpendDashboard from '@/components/LLMSpendDashboard';
 
 // Get instance prefix from URL (e.g., /myinstance/admin -> /myinstance)
 function getInstancePrefix(): string {
@@ -74,7 +79,15 @@ interface PipelineRun {
   totalDurationMs?: number;
   llmCalls?: number;
   llmTokensUsed?: number;
+  llmCostUsd?: number;
   errorMessage?: string;
+  resumedFromRunId?: number | null;
+  // Pipeline state after the last completed step (run details only)
+  checkpoint?: {
+    stepId: string;
+    threads: Array<{ id: string; category: string; summary: string }>;
+    proposals: Record<string, unknown[]>;
+  } | null;
   createdAt: string;
   completedAt?: string;
 }
@@ -300,6 +313,30 @@ export default function PipelineDebugger() {
     },
   });
 
+  // Re-run one thread of the selected run from its checkpoint
+  const rerunThreadMutation = useMutation({
+    mutationFn: async (threadId: string) => {
+      const response = await adminApiRequest(
+        'POST',
+        `${apiPrefix}/api/admin/quality/pipeline/runs/${selectedRunId}/threads/${encodeURIComponent(threadId)}/rerun`
+      );
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(error.error || 'Failed to re-run thread');
+      }
+      return response.json();
+    },
+    onSuccess: (data: { success: boolean; proposalCount: number }) => {
+      refetchRuns();
+      alert(
+        `Thread re-run ${data.success ? 'completed' : 'had errors'}: ${data.proposalCount} proposals stored`
+      );
+    },
+    onError: (error) => {
+      alert(`Error: ${error.message}`);
+    },
+  });
+
   // Simulate messages mutation
   const simulateMutation = useMutation({
     mutationFn: async (messages: Array<{ content: string; author?: string }>) => {
@@ -460,6 +497,10 @@ export default function PipelineDebugger() {
               <FileText className="w-4 h-4" />
               Prompt Overrides
             </TabsTrigger>
+            <TabsTrigger value="spend" className="flex items-center gap-2">
+              <DollarSign className="w-4 h-4" />
+              LLM Spend
+            </TabsTrigger>
           </TabsList>
 
           {/* Pipeline Runs Tab */}
@@ -536,6 +577,9 @@ export default function PipelineDebugger() {
                           </CardTitle>
                           <CardDescription className="mt-1">
                             Batch: {selectedRun.batchId}
+                            {selectedRun.resumedFromRunId != null && (
+                              <> · Resumed from run #{selectedRun.resumedFromRunId}</>
+                            )}
                           </CardDescription>
                         </div>
                       </div>
@@ -569,6 +613,12 @@ export default function PipelineDebugger() {
                           <span className="text-lg font-semibold">
                             {selectedRun.llmCalls ?? '-'}
                           </span>
+                          {selectedRun.llmCostUsd != null && (
+                            <div className="text-xs text-gray-500">
+                              {selectedRun.llmTokensUsed ?? 0} tokens, $
+                              {selectedRun.llmCostUsd.toFixed(4)}
+                            </div>
+                          )}
                         </div>
                         <div className="bg-gray-50 rounded-lg p-3">
                           <div className="flex items-center gap-2 text-gray-600 mb-1">
@@ -605,6 +655,48 @@ export default function PipelineDebugger() {
                           }))}
                         />
                       </div>
+
+                      {/* Threads of the checkpoint, each re-runnable on its own */}
+                      {selectedRun.status !== 'running' &&
+                        selectedRun.checkpoint &&
+                        selectedRun.checkpoint.threads.length > 0 && (
+                          <div>
+                            <h4 className="font-semibold text-gray-900 mb-3">Threads</h4>
+                            <div className="space-y-2">
+                              {selectedRun.checkpoint.threads.map((thread) => (
+                                <div
+                                  key={thread.id}
+                                  className="flex items-center justify-between gap-3 p-2 border rounded"
+                                >
+                                  <div className="min-w-0">
+                                    <div className="flex items-center gap-2">
+                                      <span className="font-mono text-xs truncate">
+                                        {thread.id}
+                                      </span>
+                                      <Badge variant="outline">{thread.category}</Badge>
+                                      <span className="text-xs text-gray-500">
+                                        {selectedRun.checkpoint?.proposals[thread.id]?.length ?? 0}{' '}
+                                        proposals
+                                      </span>
+                                    </div>
+                                    <p className="text-sm text-gray-600 truncate">
+                                      {thread.summary}
+                                    </p>
+                                  </div>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={rerunThreadMutation.isPending}
+                                    onClick={() => rerunThreadMutation.mutate(thread.id)}
+                                  >
+                                    <RotateCcw className="w-4 h-4 mr-1" />
+                                    Re-run
+                                  </Button>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                     </CardContent>
                   </Card>
                 ) : (
@@ -963,6 +1055,11 @@ I figured out how to configure the validator node. You need to set min_peers=5 i
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* LLM Spend Tab */}
+          <TabsContent value="spend" className="space-y-6">
+            <LLMSpendDashboard apiPrefix={apiPrefix} />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
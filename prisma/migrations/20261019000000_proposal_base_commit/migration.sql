@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "doc_proposals" ADD COLUMN "base_commit_hash" TEXT;
+
+-- AlterTable
+ALTER TABLE "proposal_failures" ADD COLUMN "diff" TEXT;
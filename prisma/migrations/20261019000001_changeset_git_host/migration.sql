@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "changeset_batches" ADD COLUMN "git_host" TEXT NOT NULL DEFAULT 'github',
+ADD COLUMN "git_host_url" TEXT;
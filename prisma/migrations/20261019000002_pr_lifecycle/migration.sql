@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "changeset_batches" ADD COLUMN "merged_at" TIMESTAMP(3),
+ADD COLUMN "closed_at" TIMESTAMP(3),
+ADD COLUMN "review_state" TEXT,
+ADD COLUMN "status_checked_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "changeset_reviews" (
+    "id" SERIAL NOT NULL,
+    "batch_id" INTEGER NOT NULL,
+    "external_id" TEXT NOT NULL,
+    "author" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "file_path" TEXT,
+    "url" TEXT,
+    "submitted_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "changeset_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "changeset_reviews_batch_id_idx" ON "changeset_reviews"("batch_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "changeset_reviews_batch_id_external_id_key" ON "changeset_reviews"("batch_id", "external_id");
+
+-- AddForeignKey
+ALTER TABLE "changeset_reviews" ADD CONSTRAINT "changeset_reviews_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "changeset_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "document_chunks" (
+    "id" SERIAL NOT NULL,
+    "page_id" INTEGER NOT NULL,
+    "chunk_index" INTEGER NOT NULL,
+    "heading_path" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "start_line" INTEGER NOT NULL,
+    "end_line" INTEGER NOT NULL,
+    "embedding" vector(768),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_chunks_page_id_chunk_index_key" ON "document_chunks"("page_id", "chunk_index");
+
+-- AddForeignKey
+ALTER TABLE "document_chunks" ADD CONSTRAINT "document_chunks_page_id_fkey" FOREIGN KEY ("page_id") REFERENCES "document_pages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- Full-text search vectors for hybrid (lexical + vector) documentation retrieval
+ALTER TABLE "document_pages" ADD COLUMN "search_vector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce("title", '') || ' ' || coalesce("content", ''))) STORED;
+
+ALTER TABLE "document_chunks" ADD COLUMN "search_vector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce("heading_path", '') || ' ' || coalesce("content", ''))) STORED;
+
+-- CreateIndex
+CREATE INDEX "document_pages_search_vector_idx" ON "document_pages" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "document_chunks_search_vector_idx" ON "document_chunks" USING GIN ("search_vector");
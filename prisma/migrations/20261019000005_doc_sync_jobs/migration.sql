@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "doc_sync_jobs" (
+    "id" SERIAL NOT NULL,
+    "job_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "force" BOOLEAN NOT NULL DEFAULT false,
+    "from_commit" TEXT,
+    "to_commit" TEXT,
+    "total_files" INTEGER NOT NULL DEFAULT 0,
+    "processed_files" INTEGER NOT NULL DEFAULT 0,
+    "current_file" TEXT,
+    "summary" JSONB,
+    "failures" JSONB,
+    "result" JSONB,
+    "error_message" TEXT,
+    "cancel_requested" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "doc_sync_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "doc_sync_jobs_job_id_key" ON "doc_sync_jobs"("job_id");
+
+-- CreateIndex
+CREATE INDEX "doc_sync_jobs_status_idx" ON "doc_sync_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "doc_sync_jobs_created_at_idx" ON "doc_sync_jobs"("created_at");
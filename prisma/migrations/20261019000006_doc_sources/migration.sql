@@ -0,0 +1,21 @@
+-- AlterTable: sync state per documentation source
+ALTER TABLE "git_sync_state" ADD COLUMN "source_id" TEXT NOT NULL DEFAULT 'default';
+
+-- DropIndex
+DROP INDEX "git_sync_state_git_url_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "git_sync_state_source_id_git_url_key" ON "git_sync_state"("source_id", "git_url");
+
+-- AlterTable: documentation source a changeset batch targets
+ALTER TABLE "changeset_batches" ADD COLUMN "doc_source_id" TEXT;
+
+-- AlterTable: pinned commits of a sync job per documentation source
+ALTER TABLE "doc_sync_jobs" ADD COLUMN "commits" JSONB;
+
+UPDATE "doc_sync_jobs"
+SET "commits" = jsonb_build_object('default', jsonb_build_object('fromHash', "from_commit", 'toHash', "to_commit"))
+WHERE "to_commit" IS NOT NULL;
+
+ALTER TABLE "doc_sync_jobs" DROP COLUMN "from_commit",
+DROP COLUMN "to_commit";
@@ -0,0 +1,7 @@
+-- AlterTable: embedding columns take the dimension of the instance's embedding provider
+-- (existing 768-dimensional vectors are kept; see scripts/permanent/reembed.ts to change it)
+ALTER TABLE "document_pages" ALTER COLUMN "embedding" TYPE vector;
+
+ALTER TABLE "document_chunks" ALTER COLUMN "embedding" TYPE vector;
+
+ALTER TABLE "unified_messages" ALTER COLUMN "embedding" TYPE vector;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "pipeline_run_logs" ADD COLUMN "llm_cost_usd" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "llm_usage" (
+    "id" SERIAL NOT NULL,
+    "instance_id" TEXT NOT NULL,
+    "batch_id" TEXT,
+    "step_id" TEXT,
+    "purpose" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "input_tokens" INTEGER NOT NULL DEFAULT 0,
+    "output_tokens" INTEGER NOT NULL DEFAULT 0,
+    "cost_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "llm_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "llm_usage_instance_id_created_at_idx" ON "llm_usage"("instance_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "llm_usage_batch_id_idx" ON "llm_usage"("batch_id");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "pipeline_run_logs" ADD COLUMN "checkpoint" JSONB,
+ADD COLUMN "resumed_from_run_id" INTEGER;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "widget_sessions" (
+    "id" UUID NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "widget_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "widget_messages" (
+    "id" SERIAL NOT NULL,
+    "session_id" UUID NOT NULL,
+    "role" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "standalone_query" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "widget_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "widget_sessions_expires_at_idx" ON "widget_sessions"("expires_at");
+
+-- CreateIndex
+CREATE INDEX "widget_messages_session_id_created_at_idx" ON "widget_messages"("session_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "widget_messages" ADD CONSTRAINT "widget_messages_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "widget_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "widget_messages" ADD COLUMN "sources" JSONB;
+
+-- CreateTable
+CREATE TABLE "widget_feedback" (
+    "id" SERIAL NOT NULL,
+    "session_id" UUID NOT NULL,
+    "answer_id" INTEGER NOT NULL,
+    "question" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "sources" JSONB NOT NULL,
+    "rating" TEXT NOT NULL,
+    "comment" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "widget_feedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "widget_feedback_answer_id_key" ON "widget_feedback"("answer_id");
+
+-- CreateIndex
+CREATE INDEX "widget_feedback_rating_created_at_idx" ON "widget_feedback"("rating", "created_at");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "changeset_batches" ADD COLUMN "resync_pending" BOOLEAN NOT NULL DEFAULT false;
+
+-- Release running jobs left behind by a crash so the lock below can be created
+UPDATE "doc_sync_jobs"
+SET "status" = 'interrupted'
+WHERE "status" = 'running';
+
+-- CreateIndex (one running sync job per instance database)
+CREATE UNIQUE INDEX "doc_sync_jobs_running_key" ON "doc_sync_jobs"("status") WHERE "status" = 'running';
@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+/**
+ * Re-embed Tool
+ * Usage: npx tsx scripts/permanent/reembed.ts <instance-id> [--all]
+ *
+ * Recomputes an instance's documentation and message embeddings with its configured embedding
+ * provider (instance.json "embeddings", else EMBEDDING_* env vars). Run it after changing the
+ * provider, model or dimensions. Without --all only vectors of another dimension are recomputed,
+ * so the command can be re-run after an interruption.
+ */
+
+import './../../server/env.js';
+import { InstanceConfigLoader } from '../../server/config/instance-loader.js';
+import { getInstanceDb } from '../../server/db/instance-db.js';
+import { reembedInstance } from '../../server/embeddings/reembed.js';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const instanceId = args.find((arg) => !arg.startsWith('--'));
+  if (!instanceId) {
+    console.error('Usage: npx tsx scripts/permanent/reembed.ts <instance-id> [--all]');
+    process.exit(1);
+  }
+
+  await InstanceConfigLoader.loadAsync(instanceId);
+  const result = await reembedInstance(instanceId, getInstanceDb(instanceId), {
+    all: args.includes('--all'),
+    onProgress: (message) => console.log(message),
+  });
+
+  process.exit(result.failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('❌ Re-embedding failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
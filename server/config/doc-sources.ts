@@ -0,0 +1,99 @@
+/**
+ * Documentation Sources
+ * An instance syncs its primary documentation repository (documentation.gitUrl) plus any
+ * additional repositories listed in documentation.sources. Each additional repository's files
+ * are stored under its path prefix, so a page path identifies the repository it belongs to.
+
+ * Date: 2026-10-19
+ * Reference: /docs/specs/rag-documentation-retrieval.md
+ */
+
+import type { DocumentationConfig } from './types.js';
+
+/** Source id of the primary documentation repository */
+export const PRIMARY_DOC_SOURCE_ID = 'default';
+
+export interface DocSource {
+  id: string;
+  gitUrl: string;
+  branch: string;
+  pathPrefix: string; // Empty for the primary repository
+  gitUsername?: string;
+  gitToken?: string;
+  gitHost?: 'github' | 'gitlab' | 'gitea' | 'bitbucket';
+  webhookSecret?: string;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  prTargetRepo?: string;
+  prBaseBranch?: string;
+}
+
+/**
+ * All documentation sources of an instance, primary repository first
+ */
+export function getDocSources(documentation: DocumentationConfig): DocSource[] {
+  const primary: DocSource = {
+    id: PRIMARY_DOC_SOURCE_ID,
+    gitUrl: documentation.gitUrl,
+    branch: documentation.branch,
+    pathPrefix: '',
+    gitUsername: documentation.gitUsername,
+    gitToken: documentation.gitToken,
+    gitHost: documentation.gitHost,
+    webhookSecret: documentation.webhookSecret,
+    includePatterns: documentation.includePatterns,
+    excludePatterns: documentation.excludePatterns,
+  };
+
+  const additional = (documentation.sources || []).map(
+    (source): DocSource => ({
+      ...source,
+      branch: source.branch || 'main',
+      pathPrefix: normalizePrefix(source.pathPrefix),
+      gitUsername: source.gitUsername ?? documentation.gitUsername,
+      gitToken: source.gitToken ?? documentation.gitToken,
+      webhookSecret: source.webhookSecret ?? documentation.webhookSecret,
+    })
+  );
+
+  return [primary, ...additional];
+}
+
+/**
+ * Look up a source by id; null ids resolve to the primary repository
+ */
+export function getDocSource(sources: DocSource[], sourceId: string | null): DocSource | null {
+  return sources.find((source) => source.id === (sourceId ?? PRIMARY_DOC_SOURCE_ID)) ?? null;
+}
+
+/**
+ * Find the source a page belongs to (longest matching path prefix) and the file's path
+ * within that repository. Pages outside every prefix belong to the primary repository.
+ */
+export function resolveDocSource(
+  sources: DocSource[],
+  pagePath: string
+): { source: DocSource; repoPath: string } {
+  let match: DocSource | null = null;
+  for (const source of sources) {
+    if (!source.pathPrefix || !pagePath.startsWith(`${source.pathPrefix}/`)) continue;
+    if (!match || source.pathPrefix.length > match.pathPrefix.length) match = source;
+  }
+
+  if (match) {
+    return { source: match, repoPath: pagePath.slice(match.pathPrefix.length + 1) };
+  }
+  const primary = sources.find((source) => !source.pathPrefix) ?? sources[0];
+  return { source: primary, repoPath: pagePath };
+}
+
+/**
+ * Page path of a file in a source's repository
+ */
+export function toPagePath(source: DocSource, repoPath: string): string {
+  return source.pathPrefix ? `${source.pathPrefix}/${repoPath}` : repoPath;
+}
+
+function normalizePrefix(prefix: string): string {
+  return prefix.replace(/^\/+|\/+$/g, '');
+}
@@ -163,6 +163,14 @@ export class ConfigLoader {
         ...(env.GIT_USERNAME && { gitUsername: env.GIT_USERNAME }),
         ...(env.GIT_TOKEN && { gitToken: env.GIT_TOKEN }),
         ...(env.DOCS_PATH && { docsPath: env.DOCS_PATH }),
+        ...(env.DOCS_GIT_HOST && { gitHost: env.DOCS_GIT_HOST }),
+        ...(env.DOCS_WEBHOOK_SECRET && { webhookSecret: env.DOCS_WEBHOOK_SECRET }),
+        ...(env.DOCS_INCLUDE && {
+          includePatterns: env.DOCS_INCLUDE.split(',').map((p) => p.trim()),
+        }),
+        ...(env.DOCS_EXCLUDE && {
+          excludePatterns: env.DOCS_EXCLUDE.split(',').map((p) => p.trim()),
+        }),
       } as any;
     }
 
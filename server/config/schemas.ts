@@ -33,12 +33,60 @@ export const BrandingConfigSchema = z.object({
   projectUrl: z.string().min(1, 'Project URL is required'), // Can be full URL or path
 });
 
+export const DocSourceConfigSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9-]+$/, 'Source id must be lowercase alphanumeric with hyphens')
+    .refine((id) => id !== 'default', 'Source id "default" is reserved for the primary repository'),
+  gitUrl: z.string().url('Git URL must be valid'),
+  branch: z.string().min(1).optional(),
+  pathPrefix: z
+    .string()
+    .transform((prefix) => prefix.replace(/^\/+|\/+$/g, ''))
+    .refine((prefix) => prefix.length > 0, 'Path prefix is required'),
+  gitUsername: z.string().optional(),
+  gitToken: z.string().optional(),
+  gitHost: z.enum(['github', 'gitlab', 'gitea', 'bitbucket']).optional(),
+  webhookSecret: z.string().optional(),
+  includePatterns: z.array(z.string().min(1)).optional(),
+  excludePatterns: z.array(z.string().min(1)).optional(),
+  prTargetRepo: z.string().min(1).optional(),
+  prBaseBranch: z.string().min(1).optional(),
+});
+
 export const DocumentationConfigSchema = z.object({
   gitUrl: z.string().url('Git URL must be valid'),
   branch: z.string().min(1, 'Branch is required'),
   gitUsername: z.string().optional(),
   gitToken: z.string().optional(),
   docsPath: z.string().optional(),
+  gitHost: z.enum(['github', 'gitlab', 'gitea', 'bitbucket']).optional(),
+  webhookSecret: z.string().optional(),
+  includePatterns: z.array(z.string().min(1)).optional(),
+  excludePatterns: z.array(z.string().min(1)).optional(),
+  sources: z
+    .array(DocSourceConfigSchema)
+    .optional()
+    .superRefine((sources, ctx) => {
+      const ids = new Set<string>();
+      const prefixes = new Set<string>();
+      for (const source of sources ?? []) {
+        if (ids.has(source.id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Duplicate source id "${source.id}"`,
+          });
+        }
+        if (prefixes.has(source.pathPrefix)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Duplicate source path prefix "${source.pathPrefix}"`,
+          });
+        }
+        ids.add(source.id);
+        prefixes.add(source.pathPrefix);
+      }
+    }),
 });
 
 export const ZulipConfigSchema = z.object({
@@ -85,6 +133,10 @@ export const WidgetConfigSchema = z.object({
     .string()
     .regex(/^#[0-9A-Fa-f]{6}$/)
     .optional(),
+  allowedOrigins: z.array(z.string().url()).optional(),
+  strictMode: z.boolean().optional(),
+  minConfidence: z.number().min(0).max(1).optional(),
+  checkClaims: z.boolean().optional(),
 });
 
 export const FeatureFlagsSchema = z.object({
@@ -108,6 +160,38 @@ export const AdminConfigSchema = z.object({
   allowedOrigins: z.array(z.string()).optional(),
 });
 
+export const EmbeddingsConfigSchema = z.object({
+  provider: z.enum(['gemini', 'openai', 'ollama', 'local']).optional(),
+  model: z.string().min(1).optional(),
+  dimensions: z.number().int().positive().max(16000).optional(),
+  baseUrl: z.string().url().optional(),
+});
+
+export const LLMBudgetConfigSchema = z
+  .object({
+    dailyUSD: z.number().positive().optional(),
+    monthlyUSD: z.number().positive().optional(),
+    onExceeded: z.enum(['pause', 'fallback']).optional(),
+    fallback: z
+      .object({
+        provider: z.enum(['gemini', 'openai', 'anthropic', 'ollama']).optional(),
+        model: z.string().min(1),
+        baseUrl: z.string().url().optional(),
+      })
+      .optional(),
+  })
+  .refine((budget) => budget.onExceeded !== 'fallback' || budget.fallback, {
+    message: 'A fallback model is required when onExceeded is "fallback"',
+    path: ['fallback'],
+  });
+
+export const LLMConfigSchema = z.object({
+  provider: z.enum(['gemini', 'openai', 'anthropic', 'ollama']).optional(),
+  model: z.string().min(1).optional(),
+  baseUrl: z.string().url().optional(),
+  budget: LLMBudgetConfigSchema.optional(),
+});
+
 export const InstanceConfigSchema = z.object({
   project: ProjectConfigSchema,
   branding: BrandingConfigSchema,
@@ -117,5 +201,7 @@ export const InstanceConfigSchema = z.object({
   widget: WidgetConfigSchema,
   features: FeatureFlagsSchema,
   admin: AdminConfigSchema,
+  embeddings: EmbeddingsConfigSchema.optional(),
+  llm: LLMConfigSchema.optional(),
   streams: z.array(z.any()).optional(), // Stream configurations (validated separately by StreamManager)
 });
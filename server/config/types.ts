@@ -10,6 +10,8 @@ export interface InstanceConfig {
   widget: WidgetConfig;
   features: FeatureFlags;
   admin: AdminConfig;
+  embeddings?: EmbeddingsConfig; // Default: EMBEDDING_* environment variables
+  llm?: LLMConfig;
   streams?: any[]; // Stream configurations
 }
 
@@ -45,6 +47,27 @@ export interface DocumentationConfig {
   gitUsername?: string;
   gitToken?: string;
   docsPath?: string; // Path within repo, e.g., "docs/" or ""
+  gitHost?: 'github' | 'gitlab' | 'gitea' | 'bitbucket'; // Detected from gitUrl when omitted
+  webhookSecret?: string; // Secret of the PR webhook configured on the repository host
+  includePatterns?: string[]; // Globs of files to sync, default: md, mdx, rst, adoc, ipynb
+  excludePatterns?: string[]; // Globs of files to skip, e.g. "**/node_modules/**"
+  sources?: DocSourceConfig[]; // Additional documentation repositories, each under its own path prefix
+}
+
+// Additional documentation repository; credentials and webhook secret default to the primary repository's
+export interface DocSourceConfig {
+  id: string; // e.g. "sdk"
+  gitUrl: string;
+  branch?: string; // Default: main
+  pathPrefix: string; // Page path prefix of this repository's files, e.g. "sdk"
+  gitUsername?: string;
+  gitToken?: string;
+  gitHost?: 'github' | 'gitlab' | 'gitea' | 'bitbucket';
+  webhookSecret?: string;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  prTargetRepo?: string; // Repository pull requests are opened against, default: the gitUrl repository
+  prBaseBranch?: string; // Base branch of pull requests, default: branch
 }
 
 export interface CommunityConfig {
@@ -82,6 +105,10 @@ export interface WidgetConfig {
   position: 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
   theme: 'light' | 'dark' | 'auto';
   primaryColor?: string;
+  allowedOrigins?: string[]; // Sites that may embed the widget; default: same origin only
+  strictMode?: boolean; // Refuse to answer below minConfidence; default: WIDGET_STRICT_MODE
+  minConfidence?: number; // Best documentation match needed in strict mode (0-1); default: WIDGET_MIN_CONFIDENCE
+  checkClaims?: boolean; // Flag answer claims the documentation does not support; default: WIDGET_CLAIM_CHECK
 }
 
 export interface FeatureFlags {
@@ -92,6 +119,33 @@ export interface FeatureFlags {
   versionHistoryEnabled: boolean;
 }
 
+export interface EmbeddingsConfig {
+  provider?: 'gemini' | 'openai' | 'ollama' | 'local';
+  model?: string; // e.g. "text-embedding-3-small", "nomic-embed-text", "Xenova/bge-base-en-v1.5"
+  dimensions?: number; // Must match the stored vectors; re-embed after changing (npm run embeddings:reembed)
+  baseUrl?: string; // OpenAI-compatible or Ollama server
+}
+
+export interface LLMConfig {
+  // Model that answers widget questions; default: LLM_PROVIDER / LLM_MODEL (pipeline steps configure their own)
+  provider?: 'gemini' | 'openai' | 'anthropic' | 'ollama';
+  model?: string;
+  baseUrl?: string; // OpenAI-compatible, Anthropic-compatible or Ollama server
+  budget?: LLMBudgetConfig;
+}
+
+export interface LLMBudgetConfig {
+  dailyUSD?: number; // UTC day
+  monthlyUSD?: number; // UTC calendar month
+  onExceeded?: 'pause' | 'fallback'; // Default: pause batch processing until the period ends
+  fallback?: {
+    // Cheaper model that serves every pipeline step once the budget is exceeded
+    provider?: 'gemini' | 'openai' | 'anthropic' | 'ollama';
+    model: string;
+    baseUrl?: string;
+  };
+}
+
 export interface AdminConfig {
   passwordHash: string;
   allowedOrigins?: string[];
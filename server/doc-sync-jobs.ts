@@ -0,0 +1,328 @@
+/**
+ * Documentation Sync Jobs
+ * Runs documentation sync in the background as a persisted job (DocSyncJob) with per-file
+ * progress, a failure list and cancellation, so the admin endpoint returns immediately.
+ * A job interrupted by a restart is resumed from its last handled file by the next sync.
+ * A partial unique index on running jobs keeps two server processes from syncing at once;
+ * re-syncs requested meanwhile (merged changesets) start when the running job finishes.
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Atomic job lock, pending re-syncs and head re-check after resuming
+ * Reference: /docs/specs/rag-documentation-retrieval.md
+ */
+
+import crypto from 'crypto';
+import { Prisma, PrismaClient, DocSyncJob } from '@prisma/client';
+import {
+  syncDocumentation,
+  DocSyncCancelledError,
+  type DocSyncCommits,
+  type DocSyncFailure,
+  type DocSyncProgress,
+  type DocSyncSummary,
+} from './doc-sync.js';
+import { createLogger, getErrorMessage } from './utils/logger.js';
+
+const logger = createLogger('DocSyncJobs');
+
+export type DocSyncJobStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+/** A running job without a progress update for this long is considered interrupted */
+export const STALE_JOB_MS = 10 * 60 * 1000;
+
+// Jobs running in this process (others may run in another server process)
+const runningJobs = new Map<string, AbortController>();
+
+export class DocSyncJobService {
+  private prisma: PrismaClient;
+  private instanceId: string;
+
+  constructor(prisma: PrismaClient, instanceId: string) {
+    this.prisma = prisma;
+    this.instanceId = instanceId;
+  }
+
+  /**
+   * Start a sync job, or resume the latest interrupted one
+   * Returns null if a job is already running.
+   */
+  async startJob(
+    options: { force?: boolean } = {}
+  ): Promise<{ job: DocSyncJob; resumed: boolean } | null> {
+    await this.releaseStaleJobs();
+    if (await this.getActiveJob()) {
+      return null;
+    }
+
+    const interrupted = await this.findInterruptedJob();
+    if (interrupted && !options.force) {
+      const resumed = await this.launch(interrupted, true);
+      return resumed && { job: resumed, resumed: true };
+    }
+    if (interrupted) {
+      // Superseded by a forced sync
+      await this.prisma.docSyncJob.update({
+        where: { jobId: interrupted.jobId },
+        data: { status: 'interrupted', completedAt: new Date() },
+      });
+    }
+
+    let job: DocSyncJob;
+    try {
+      job = await this.prisma.docSyncJob.create({
+        data: { jobId: crypto.randomUUID(), status: 'running', force: options.force ?? false },
+      });
+    } catch (error) {
+      if (isRunningJobConflict(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    // A fresh sync runs up to the current source heads, covering every pending re-sync
+    await this.prisma.changesetBatch.updateMany({
+      where: { resyncPending: true },
+      data: { resyncPending: false },
+    });
+    const started = await this.launch(job, false);
+    return started && { job: started, resumed: false };
+  }
+
+  /**
+   * Resume a cancelled, failed or interrupted job from its last handled file
+   * Returns null if the job cannot be resumed (unknown, finished, or another job is running).
+   */
+  async resumeJob(jobId: string): Promise<DocSyncJob | null> {
+    await this.releaseStaleJobs();
+    const job = await this.getJob(jobId);
+    if (!job || job.status === 'completed' || (await this.getActiveJob())) {
+      return null;
+    }
+    return this.launch(job, true);
+  }
+
+  /**
+   * Request cancellation; the job stops before its next file
+   */
+  async cancelJob(jobId: string): Promise<DocSyncJob | null> {
+    const job = await this.getJob(jobId);
+    if (!job || job.status !== 'running') {
+      return null;
+    }
+
+    runningJobs.get(jobId)?.abort();
+    return this.prisma.docSyncJob.update({
+      where: { jobId },
+      data: { cancelRequested: true },
+    });
+  }
+
+  async getJob(jobId: string): Promise<DocSyncJob | null> {
+    const job = await this.prisma.docSyncJob.findUnique({ where: { jobId } });
+    return job && this.withStaleStatus(job);
+  }
+
+  async listJobs(limit: number = 20): Promise<DocSyncJob[]> {
+    const jobs = await this.prisma.docSyncJob.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return jobs.map((job) => this.withStaleStatus(job));
+  }
+
+  /**
+   * The job currently running for this instance, if any
+   */
+  async getActiveJob(): Promise<DocSyncJob | null> {
+    const job = await this.prisma.docSyncJob.findFirst({
+      where: { status: 'running' },
+      orderBy: { createdAt: 'desc' },
+    });
+    return job && this.withStaleStatus(job).status === 'running' ? job : null;
+  }
+
+  /**
+   * Latest job, if it was interrupted (server restart or crash)
+   */
+  private async findInterruptedJob(): Promise<DocSyncJob | null> {
+    const latest = await this.prisma.docSyncJob.findFirst({ orderBy: { createdAt: 'desc' } });
+    return latest && this.withStaleStatus(latest).status === 'interrupted' ? latest : null;
+  }
+
+  /**
+   * Mark running jobs without a recent heartbeat as interrupted, releasing the job lock
+   */
+  private async releaseStaleJobs(): Promise<void> {
+    await this.prisma.docSyncJob.updateMany({
+      where: {
+        status: 'running',
+        updatedAt: { lt: new Date(Date.now() - STALE_JOB_MS) },
+        jobId: { notIn: [...runningJobs.keys()] },
+      },
+      data: { status: 'interrupted' },
+    });
+  }
+
+  /**
+   * Report running jobs without a recent heartbeat (not running in this process) as interrupted
+   */
+  private withStaleStatus(job: DocSyncJob): DocSyncJob {
+    const stale =
+      job.status === 'running' &&
+      !runningJobs.has(job.jobId) &&
+      Date.now() - job.updatedAt.getTime() > STALE_JOB_MS;
+    return stale ? { ...job, status: 'interrupted' } : job;
+  }
+
+  /**
+   * Mark the job running and execute it in the background
+   * Returns null if another job took the job lock first.
+   */
+  private async launch(job: DocSyncJob, resume: boolean): Promise<DocSyncJob | null> {
+    let running: DocSyncJob;
+    try {
+      running = await this.prisma.docSyncJob.update({
+        where: { jobId: job.jobId },
+        data: {
+          status: 'running',
+          cancelRequested: false,
+          errorMessage: null,
+          currentFile: null,
+          completedAt: null,
+        },
+      });
+    } catch (error) {
+      if (isRunningJobConflict(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    const controller = new AbortController();
+    runningJobs.set(job.jobId, controller);
+
+    this.run(running, resume, controller)
+      .finally(() => runningJobs.delete(job.jobId))
+      .then((status) => this.startFollowUp(status, resume))
+      .catch((error) => {
+        logger.error(`[${this.instanceId}] Sync job ${job.jobId} crashed:`, error);
+      });
+
+    return running;
+  }
+
+  /**
+   * After a job finishes, start the re-syncs requested while it ran. A resumed job synced its
+   * pinned commits, so the source heads are checked again by a fresh sync.
+   * A cancelled job leaves pending re-syncs to the next sync.
+   */
+  private async startFollowUp(status: DocSyncJobStatus, resumed: boolean): Promise<void> {
+    if (status === 'cancelled') {
+      return;
+    }
+    const pending = await this.prisma.changesetBatch.count({ where: { resyncPending: true } });
+    if (!resumed && pending === 0) {
+      return;
+    }
+
+    const started = await this.startJob();
+    if (started) {
+      logger.info(
+        `[${this.instanceId}] Started follow-up sync job ${started.job.jobId}` +
+          (pending > 0 ? ` for ${pending} merged batch(es)` : ' to re-check source heads')
+      );
+    }
+  }
+
+  private async run(
+    job: DocSyncJob,
+    resume: boolean,
+    controller: AbortController
+  ): Promise<DocSyncJobStatus> {
+    logger.info(`[${this.instanceId}] ${resume ? 'Resuming' : 'Starting'} sync job ${job.jobId}`);
+
+    // Resuming needs the diff of the interrupted run; without it the sync simply starts over
+    const canResume = resume && job.commits !== null;
+
+    const onProgress = async (progress: DocSyncProgress) => {
+      const updated = await this.prisma.docSyncJob.update({
+        where: { jobId: job.jobId },
+        data: {
+          commits: toJson(progress.commits),
+          totalFiles: progress.totalFiles,
+          processedFiles: progress.processedFiles,
+          currentFile: progress.currentFile,
+          summary: toJson(progress.summary),
+          failures: toJson(progress.failures),
+        },
+      });
+      // Cancellation requested through another server process
+      if (updated.cancelRequested) {
+        controller.abort();
+      }
+    };
+
+    try {
+      const result = await syncDocumentation(this.instanceId, {
+        force: job.force,
+        signal: controller.signal,
+        onProgress,
+        ...(canResume && {
+          resume: {
+            commits: job.commits as unknown as DocSyncCommits,
+            processedFiles: job.processedFiles,
+            summary: (job.summary as unknown as DocSyncSummary | null) ?? undefined,
+            failures: (job.failures as unknown as DocSyncFailure[] | null) ?? undefined,
+          },
+        }),
+      });
+
+      await this.prisma.docSyncJob.update({
+        where: { jobId: job.jobId },
+        data: {
+          status: result.success ? 'completed' : 'failed',
+          currentFile: null,
+          summary: toJson(result.summary),
+          failures: toJson(result.failures),
+          result: toJson({
+            hadUpdates: result.hadUpdates,
+            currentHash: result.currentHash,
+            previousHash: result.previousHash,
+            totalDocuments: result.totalDocuments,
+            duration: result.duration,
+          }),
+          errorMessage: result.success ? null : 'All document imports failed',
+          completedAt: new Date(),
+        },
+      });
+      logger.info(`[${this.instanceId}] Sync job ${job.jobId} finished`);
+      return result.success ? 'completed' : 'failed';
+    } catch (error) {
+      const cancelled = error instanceof DocSyncCancelledError;
+      await this.prisma.docSyncJob.update({
+        where: { jobId: job.jobId },
+        data: {
+          status: cancelled ? 'cancelled' : 'failed',
+          currentFile: null,
+          errorMessage: cancelled ? null : getErrorMessage(error),
+          completedAt: new Date(),
+        },
+      });
+      if (!cancelled) {
+        logger.error(`[${this.instanceId}] Sync job ${job.jobId} failed:`, getErrorMessage(error));
+      }
+      return cancelled ? 'cancelled' : 'failed';
+    }
+  }
+}
+
+/**
+ * Whether a write failed on the one-running-job index (another job holds the lock)
+ */
+function isRunningJobConflict(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue {
+  return value as Prisma.InputJsonValue;
+}
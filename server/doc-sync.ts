@@ -0,0 +1,341 @@
+/**
+ * Documentation Sync
+ * Pulls an instance's documentation repositories and re-embeds changed files, section by section,
+ * into the vector store. Files of additional repositories (documentation.sources) are stored under
+ * their source's path prefix. Renamed files keep their embeddings and pending proposals; reStructuredText,
+ * AsciiDoc and notebooks are converted to markdown first.
+ * Shared by the admin sync endpoint and the PR status poller (re-sync after a merged changeset).
+
+ * Date: 2026-10-19
+ * Reference: /docs/specs/rag-documentation-retrieval.md
+ */
+
+import { GitFetcher, type DocFile } from './git-fetcher.js';
+import { PgVectorStore } from './vector-store.js';
+import { getInstanceDb } from './db/instance-db.js';
+import { InstanceConfigLoader } from './config/instance-loader.js';
+import { getDocSources, toPagePath, PRIMARY_DOC_SOURCE_ID } from './config/doc-sources.js';
+import { docIndexGenerator } from './stream/doc-index-generator.js';
+import { GeminiEmbedder } from './embeddings/gemini-embedder.js';
+import {
+  getInstanceEmbeddingProvider,
+  assertEmbeddingDimensions,
+  embedDocumentChunks,
+} from './embeddings/instance-embeddings.js';
+import { extractDocContent } from './embeddings/doc-extractors.js';
+import { createLogger, getErrorMessage } from './utils/logger.js';
+
+const logger = createLogger('DocSync');
+
+export interface DocSyncSummary {
+  added: number;
+  modified: number;
+  deleted: number;
+  renamed?: number;
+  failed?: number;
+  filesProcessed: string[];
+}
+
+export interface DocSyncFailure {
+  path: string;
+  error: string;
+}
+
+/** Diff synced per documentation source */
+export type DocSyncCommits = Record<string, { fromHash: string | null; toHash: string }>;
+
+export interface DocSyncResult {
+  success: boolean;
+  hadUpdates: boolean;
+  currentHash: string; // Primary repository
+  previousHash: string | null;
+  commits: DocSyncCommits;
+  summary: DocSyncSummary;
+  failures: DocSyncFailure[];
+  totalDocuments: number;
+  duration: number;
+}
+
+export interface DocSyncProgress {
+  commits: DocSyncCommits;
+  totalFiles: number;
+  processedFiles: number; // Files handled so far, in fetch order (resume point)
+  currentFile: string | null;
+  summary: DocSyncSummary;
+  failures: DocSyncFailure[];
+}
+
+export interface DocSyncOptions {
+  force?: boolean;
+  signal?: AbortSignal; // Checked between files
+  onProgress?: (progress: DocSyncProgress) => void | Promise<void>;
+  // Continue an interrupted run of the same diff, skipping files it already handled
+  resume?: {
+    commits: DocSyncCommits;
+    processedFiles: number;
+    summary?: DocSyncSummary; // Counts of the interrupted run, continued from
+    failures?: DocSyncFailure[];
+  };
+}
+
+/**
+ * Sync was cancelled through its AbortSignal; files handled before stay embedded
+ */
+export class DocSyncCancelledError extends Error {
+  constructor(readonly progress: DocSyncProgress | null) {
+    super('Documentation sync cancelled');
+    this.name = 'DocSyncCancelledError';
+  }
+}
+
+/**
+ * Sync documentation for an instance
+ * Records progress in GitSyncState (per source); throws if a repository cannot be synced.
+ * Commit hashes are only advanced once all files were handled, so an interrupted
+ * or cancelled run is picked up again by the next sync.
+ */
+export async function syncDocumentation(
+  instanceId: string,
+  options: DocSyncOptions = {}
+): Promise<DocSyncResult> {
+  const force = options.force ?? false;
+  const startTime = Date.now();
+  let progress: DocSyncProgress | null = null;
+
+  logger.info(`[${instanceId}] Starting documentation sync (force: ${force})...`);
+
+  // Create a gitFetcher per documentation source and an instance-specific vectorStore
+  const instanceDb = getInstanceDb(instanceId);
+  const sources = getDocSources(InstanceConfigLoader.get(instanceId).documentation);
+  const fetchers = sources.map((source) => ({
+    source,
+    gitFetcher: new GitFetcher(instanceId, instanceDb, source),
+  }));
+  const instanceVectorStore = new PgVectorStore(instanceId, instanceDb);
+
+  const updateSyncStatus = async (
+    status: 'idle' | 'syncing' | 'success' | 'error',
+    errorMessage?: string
+  ) => {
+    for (const { gitFetcher } of fetchers) {
+      await gitFetcher.updateSyncStatus(status, errorMessage);
+    }
+  };
+
+  // Update sync status to 'syncing'
+  await updateSyncStatus('syncing');
+
+  try {
+    // Check each source for updates; a resumed run keeps the commits it pinned
+    const commits: DocSyncCommits = {};
+    let hasUpdates = false;
+    for (const { source, gitFetcher } of fetchers) {
+      const updateInfo = await gitFetcher.checkForUpdates();
+      commits[source.id] = options.resume?.commits[source.id] ?? {
+        fromHash: updateInfo.storedHash,
+        toHash: updateInfo.currentHash,
+      };
+      hasUpdates = hasUpdates || updateInfo.hasUpdates;
+    }
+    const primaryCommits = commits[PRIMARY_DOC_SOURCE_ID];
+
+    if (!options.resume && !hasUpdates && !force) {
+      // Even if no updates, mark sync as completed and update hash
+      for (const { source, gitFetcher } of fetchers) {
+        await gitFetcher.updateCommitHash(commits[source.id].toHash);
+      }
+      await updateSyncStatus('success');
+
+      // Invalidate doc-index cache to regenerate with current filter config
+      await docIndexGenerator.invalidateCache();
+
+      // Get total document count
+      const stats = await instanceVectorStore.getStats();
+
+      return {
+        success: true,
+        hadUpdates: false,
+        currentHash: primaryCommits.toHash,
+        previousHash: primaryCommits.fromHash,
+        commits,
+        summary: { added: 0, modified: 0, deleted: 0, filesProcessed: [] },
+        failures: [],
+        totalDocuments: stats.totalDocuments,
+        duration: Date.now() - startTime,
+      };
+    }
+
+    // Fetch changed files of every source, under the source's path prefix
+    const changedFiles: Array<DocFile & { gitUrl: string }> = [];
+    for (const { source, gitFetcher } of fetchers) {
+      const { fromHash, toHash } = commits[source.id];
+      if (fromHash === toHash) continue;
+
+      for (const file of await gitFetcher.fetchChangedFiles(fromHash || 'HEAD~1', toHash)) {
+        changedFiles.push({
+          ...file,
+          path: toPagePath(source, file.path),
+          ...(file.previousPath && { previousPath: toPagePath(source, file.previousPath) }),
+          gitUrl: source.gitUrl,
+        });
+      }
+    }
+
+    // Deletions first, so renamed-over paths are free
+    const orderedFiles = [
+      ...changedFiles.filter((f) => f.changeType === 'deleted'),
+      ...changedFiles.filter((f) => f.changeType !== 'deleted'),
+    ];
+
+    // New vectors must match the stored ones
+    const embedder = getInstanceEmbeddingProvider(instanceId);
+    await assertEmbeddingDimensions(instanceId, instanceVectorStore, embedder);
+
+    const previous = options.resume?.summary;
+    const summary = {
+      added: previous?.added ?? 0,
+      modified: previous?.modified ?? 0,
+      deleted: previous?.deleted ?? 0,
+      renamed: previous?.renamed ?? 0,
+      failed: previous?.failed ?? 0,
+      filesProcessed: [...(previous?.filesProcessed ?? [])],
+    };
+    const failures: DocSyncFailure[] = [...(options.resume?.failures ?? [])];
+    const skipFiles = Math.min(options.resume?.processedFiles ?? 0, orderedFiles.length);
+
+    progress = {
+      commits,
+      totalFiles: orderedFiles.length,
+      processedFiles: skipFiles,
+      currentFile: null,
+      summary,
+      failures,
+    };
+    if (skipFiles > 0) {
+      logger.info(`Resuming sync at file ${skipFiles + 1} of ${orderedFiles.length}`);
+    }
+    await options.onProgress?.(progress);
+
+    for (const file of orderedFiles.slice(skipFiles)) {
+      if (options.signal?.aborted) {
+        throw new DocSyncCancelledError(progress);
+      }
+      progress.currentFile = file.path;
+
+      try {
+        if (file.changeType === 'deleted') {
+          await instanceVectorStore.deleteDocument(file.path);
+          summary.deleted++;
+          summary.filesProcessed.push(file.path);
+          continue;
+        }
+
+        if (file.changeType === 'renamed' && file.previousPath) {
+          // Keep embeddings and pending proposals attached to the page under its new path
+          const unchanged = file.similarity === 100;
+          const moved = await instanceVectorStore.renameDocument(
+            file.previousPath,
+            file.path,
+            unchanged ? file.commitHash : undefined
+          );
+          const proposals = await instanceDb.docProposal.updateMany({
+            where: { page: file.previousPath, prBatchId: null, status: { not: 'ignored' } },
+            data: { page: file.path },
+          });
+          logger.info(
+            `Renamed ${file.previousPath} -> ${file.path} (${proposals.count} pending proposals moved)`
+          );
+
+          if (moved && unchanged) {
+            summary.renamed++;
+            summary.filesProcessed.push(file.path);
+            continue;
+          }
+        }
+
+        // Check if file already has chunk embeddings for this commit (resume logic)
+        if (!force && (await instanceVectorStore.hasChunks(file.path, file.commitHash))) {
+          logger.debug(`Skipping ${file.path} - already embedded for this commit`);
+          summary.filesProcessed.push(file.path);
+          continue;
+        }
+
+        // Embed each heading section separately so long pages stay fully retrievable
+        const content = extractDocContent(file.path, file.content);
+        const title = GeminiEmbedder.extractTitle(content);
+        const chunks = await embedDocumentChunks(embedder, title, content);
+
+        await instanceVectorStore.upsertDocument({
+          filePath: file.path,
+          title,
+          content,
+          gitHash: file.commitHash,
+          gitUrl: file.gitUrl,
+          embedding: [],
+          chunks,
+        });
+
+        if (file.changeType === 'added') summary.added++;
+        else if (file.changeType === 'renamed') summary.renamed++;
+        else summary.modified++;
+        summary.filesProcessed.push(file.path);
+      } catch (fileError: any) {
+        logger.error(`Failed to process file ${file.path}:`, fileError.message);
+        summary.failed++;
+        summary.filesProcessed.push(`${file.path} (FAILED: ${fileError.message})`);
+        failures.push({ path: file.path, error: getErrorMessage(fileError) });
+      } finally {
+        progress.processedFiles++;
+        progress.currentFile = null;
+        await options.onProgress?.(progress);
+      }
+    }
+
+    const successfulImports = summary.added + summary.modified + summary.deleted + summary.renamed;
+    const totalFiles = orderedFiles.length;
+
+    // Only update commit hash if at least one document was successfully processed
+    // This prevents poisoning the state when all imports fail (e.g. SSL/connection errors)
+    if (successfulImports > 0 || totalFiles === 0) {
+      for (const { source, gitFetcher } of fetchers) {
+        await gitFetcher.updateCommitHash(commits[source.id].toHash);
+      }
+      await updateSyncStatus('success');
+    } else {
+      logger.error(
+        `All ${summary.failed} document imports failed — commit hash NOT updated to allow retry`
+      );
+      await updateSyncStatus('error', `All ${summary.failed} document imports failed`);
+    }
+
+    // Invalidate doc-index cache to regenerate with current filter config
+    await docIndexGenerator.invalidateCache();
+
+    // Get total document count
+    const stats = await instanceVectorStore.getStats();
+
+    logger.info(
+      `Documentation sync completed in ${Date.now() - startTime}ms: ${successfulImports} succeeded, ${summary.failed} failed`
+    );
+
+    return {
+      success: successfulImports > 0 || summary.failed === 0,
+      hadUpdates: true,
+      currentHash: primaryCommits.toHash,
+      previousHash: primaryCommits.fromHash,
+      commits,
+      summary,
+      failures,
+      totalDocuments: stats.totalDocuments,
+      duration: Date.now() - startTime,
+    };
+  } catch (syncError) {
+    if (syncError instanceof DocSyncCancelledError) {
+      logger.info(`[${instanceId}] Documentation sync cancelled`);
+      await updateSyncStatus('idle', 'Sync cancelled');
+    } else {
+      await updateSyncStatus('error', getErrorMessage(syncError));
+    }
+    throw syncError;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Documentation Chunker
+ * Splits documentation pages into heading-aware chunks for section-level embeddings.
+ * Each chunk covers one heading's own text (up to the next heading of any level); long
+ * sections are split further at blank lines outside code fences.
+
+ * Date: 2026-10-19
+ * Reference: /docs/specs/rag-documentation-retrieval.md
+ */
+
+import { parseMarkdownSections } from '../stream/services/markdown-sections.js';
+
+export interface DocChunk {
+  index: number; // Position within the page
+  headingPath: string[]; // e.g. ["Setup", "Linux"]; empty for text before the first heading
+  content: string;
+  startLine: number; // 1-based, inclusive
+  endLine: number; // 1-based, inclusive
+}
+
+export interface ChunkOptions {
+  maxChars?: number; // Default: 4000 (~1000 tokens)
+}
+
+const DEFAULT_MAX_CHARS = 4000;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Split a page into heading-aware chunks
+ * Sections without any text besides their heading are skipped.
+ */
+export function chunkDocument(content: string, options: ChunkOptions = {}): DocChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const lines = content.split('\n');
+  const sections = parseMarkdownSections(lines);
+
+  // Segments between consecutive headings (sections nest, segments do not)
+  const segments: Array<{
+    headingPath: string[];
+    start: number;
+    contentStart: number;
+    end: number;
+  }> = [];
+  const firstHeading = sections.length > 0 ? sections[0].headingStart : lines.length;
+  const bodyStart = frontMatterEnd(lines);
+  segments.push({ headingPath: [], start: bodyStart, contentStart: bodyStart, end: firstHeading });
+  sections.forEach((section, i) => {
+    segments.push({
+      headingPath: section.path,
+      start: section.headingStart,
+      contentStart: section.contentStart,
+      end: i + 1 < sections.length ? sections[i + 1].headingStart : lines.length,
+    });
+  });
+
+  const chunks: DocChunk[] = [];
+  for (const segment of segments) {
+    const hasText = lines
+      .slice(segment.contentStart, segment.end)
+      .some((line) => line.trim().length > 0);
+    if (!hasText) continue;
+
+    for (const [start, end] of splitRange(lines, segment.start, segment.end, maxChars)) {
+      const range = trimBlankLines(lines, start, end);
+      if (!range) continue;
+      chunks.push({
+        index: chunks.length,
+        headingPath: segment.headingPath,
+        content: lines.slice(range[0], range[1]).join('\n'),
+        startLine: range[0] + 1,
+        endLine: range[1],
+      });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Text embedded for a chunk: page title and heading path give the chunk its context
+ */
+export function formatChunkForEmbedding(title: string, chunk: DocChunk): string {
+  const breadcrumb = [title, ...chunk.headingPath].filter(Boolean).join(' > ');
+  return breadcrumb ? `${breadcrumb}\n\n${chunk.content}` : chunk.content;
+}
+
+/**
+ * Split [start, end) into ranges of at most maxChars, preferring blank lines outside fences
+ * A single line longer than maxChars becomes its own range.
+ */
+function splitRange(
+  lines: string[],
+  start: number,
+  end: number,
+  maxChars: number
+): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let rangeStart = start;
+  let size = 0;
+  let lastBreak = -1; // Line index after which the range may be split
+  let fence: string | null = null;
+
+  for (let i = start; i < end; i++) {
+    const line = lines[i];
+    const lineSize = line.length + 1;
+
+    if (size + lineSize > maxChars && i > rangeStart) {
+      const splitAt = lastBreak > rangeStart ? lastBreak : i;
+      ranges.push([rangeStart, splitAt]);
+      size = lines.slice(splitAt, i).reduce((sum, l) => sum + l.length + 1, 0);
+      rangeStart = splitAt;
+      lastBreak = -1;
+    }
+
+    size += lineSize;
+
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1][0];
+      else if (fenceMatch[1][0] === fence) fence = null;
+    } else if (!fence && line.trim() === '') {
+      lastBreak = i + 1;
+    }
+  }
+
+  if (rangeStart < end) {
+    ranges.push([rangeStart, end]);
+  }
+  return ranges;
+}
+
+/**
+ * First line after YAML (---) or TOML (+++) front matter, 0 if there is none
+ */
+function frontMatterEnd(lines: string[]): number {
+  const marker = lines[0]?.trim();
+  if (marker !== '---' && marker !== '+++') return 0;
+  const close = lines.findIndex((line, idx) => idx > 0 && line.trim() === marker);
+  return close === -1 ? 0 : close + 1;
+}
+
+function trimBlankLines(lines: string[], start: number, end: number): [number, number] | null {
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return start < end ? [start, end] : null;
+}
@@ -0,0 +1,204 @@
+/**
+ * Documentation Content Extractors
+ * Converts non-markdown documentation sources into markdown before chunking and embedding:
+ * reStructuredText, AsciiDoc and Jupyter notebooks. Markdown/MDX and unknown text formats
+ * are returned unchanged.
+ * The reStructuredText and AsciiDoc conversions keep one output line per source line, so
+ * chunk line ranges still point at the source file.
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - reStructuredText code fences no longer add a line at the end of the file
+ * Reference: /docs/specs/rag-documentation-retrieval.md
+ */
+
+import * as path from 'path';
+
+export type DocFormat = 'markdown' | 'rst' | 'asciidoc' | 'notebook' | 'text';
+
+const FORMAT_BY_EXTENSION: Record<string, DocFormat> = {
+  '.md': 'markdown',
+  '.mdx': 'markdown',
+  '.rst': 'rst',
+  '.adoc': 'asciidoc',
+  '.asciidoc': 'asciidoc',
+  '.ipynb': 'notebook',
+};
+
+/** Files synced when an instance does not configure include patterns */
+export const DEFAULT_DOC_INCLUDE_PATTERNS = Object.keys(FORMAT_BY_EXTENSION).map(
+  (ext) => `**/*${ext}`
+);
+
+export function detectDocFormat(filePath: string): DocFormat {
+  return FORMAT_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? 'text';
+}
+
+/**
+ * Convert a documentation file to markdown
+ * Throws if a notebook is not valid JSON.
+ */
+export function extractDocContent(filePath: string, raw: string): string {
+  const content = raw.replace(/\r\n/g, '\n');
+  switch (detectDocFormat(filePath)) {
+    case 'rst':
+      return rstToMarkdown(content);
+    case 'asciidoc':
+      return asciidocToMarkdown(content);
+    case 'notebook':
+      return notebookToMarkdown(content);
+    default:
+      return content;
+  }
+}
+
+// Punctuation characters reStructuredText allows for section adornments
+const RST_ADORNMENT = /^([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])\1+\s*$/;
+const RST_CODE_DIRECTIVE = /^\.\.\s+(?:code-block|code|sourcecode)::\s*(\S*)/;
+
+/**
+ * reStructuredText: section titles become ATX headings, code directives become fences
+ * Heading levels follow the order in which adornment styles first appear, as in docutils.
+ */
+export function rstToMarkdown(content: string): string {
+  const lines = content.split('\n');
+  const out = [...lines];
+  const styles: string[] = [];
+
+  const levelOf = (style: string) => {
+    if (!styles.includes(style)) styles.push(style);
+    return Math.min(styles.indexOf(style) + 1, 6);
+  };
+  const isTitle = (line: string | undefined) =>
+    line !== undefined && line.trim() !== '' && !/^\s/.test(line) && !RST_ADORNMENT.test(line);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Indented code block after a code directive: fence it so it is never split
+    const directive = line.match(RST_CODE_DIRECTIVE);
+    if (directive) {
+      let end = i + 1;
+      while (end < lines.length && (lines[end].trim() === '' || /^\s/.test(lines[end]))) end++;
+      let last = end - 1;
+      while (last > i && lines[last].trim() === '') last--;
+      const closable = last + 1 < end; // A blank line follows the block
+      // A block ending the file may stay open: markdown closes it at the end of the document.
+      // One running straight into text is left unfenced, closing it would need an extra line
+      if (last > i && (closable || last === lines.length - 1)) {
+        out[i] = '```' + directive[1];
+        if (closable) out[last + 1] = '```';
+      }
+      if (last > i) i = last;
+      continue;
+    }
+
+    const next = lines[i + 1];
+    if (!isTitle(line) || next === undefined || !RST_ADORNMENT.test(next)) continue;
+    if (next.trim().length < line.trim().length) continue;
+
+    const char = next.trim()[0];
+    const prev = lines[i - 1];
+    const overlined = prev !== undefined && RST_ADORNMENT.test(prev) && prev.trim()[0] === char;
+
+    out[i] = `${'#'.repeat(levelOf(overlined ? `${char}${char}` : char))} ${line.trim()}`;
+    out[i + 1] = '';
+    if (overlined) out[i - 1] = '';
+    i++;
+  }
+
+  return out.join('\n');
+}
+
+const ADOC_HEADING = /^(={1,6})\s+(\S.*)$/;
+const ADOC_DELIMITER = /^(-{4,}|\.{4,})\s*$/; // Listing and literal blocks
+const ADOC_BLOCK_DELIMITER = /^(={4,}|\*{4,}|_{4,})\s*$/; // Example, sidebar and quote blocks
+const ADOC_COMMENT_BLOCK = /^\/{4,}\s*$/;
+const ADOC_SOURCE_ATTRIBUTE = /^\[source(?:,\s*([^,\]]+))?/;
+
+/**
+ * AsciiDoc: `=` headings become ATX headings, listing/literal blocks become fences
+ */
+export function asciidocToMarkdown(content: string): string {
+  const lines = content.split('\n');
+  const out: string[] = [];
+  let block: string | null = null; // Open listing/literal delimiter
+  let inComment = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (ADOC_COMMENT_BLOCK.test(line)) {
+      out.push(inComment ? '-->' : '<!--');
+      inComment = !inComment;
+      continue;
+    }
+    if (inComment) {
+      out.push(line);
+      continue;
+    }
+
+    const delimiter = line.match(ADOC_DELIMITER);
+    if (delimiter && (block === null || delimiter[1] === block)) {
+      if (block === null) {
+        const language = lines[i - 1]?.match(ADOC_SOURCE_ATTRIBUTE)?.[1]?.trim() ?? '';
+        out.push('```' + language);
+        block = delimiter[1];
+      } else {
+        out.push('```');
+        block = null;
+      }
+      continue;
+    }
+    if (block !== null) {
+      out.push(line);
+      continue;
+    }
+
+    if (ADOC_BLOCK_DELIMITER.test(line)) {
+      // Would otherwise read as a setext heading underline
+      out.push('');
+      continue;
+    }
+
+    const heading = line.match(ADOC_HEADING);
+    out.push(heading ? `${'#'.repeat(heading[1].length)} ${heading[2].trim()}` : line);
+  }
+
+  return out.join('\n');
+}
+
+interface NotebookCell {
+  cell_type: string;
+  source?: string | string[];
+}
+
+/**
+ * Jupyter notebook: markdown cells as-is, code cells fenced, outputs dropped
+ */
+export function notebookToMarkdown(content: string): string {
+  let notebook: {
+    cells?: NotebookCell[];
+    metadata?: { kernelspec?: { language?: string }; language_info?: { name?: string } };
+  };
+  try {
+    notebook = JSON.parse(content);
+  } catch {
+    throw new Error('Invalid notebook: not valid JSON');
+  }
+
+  const language =
+    notebook.metadata?.kernelspec?.language || notebook.metadata?.language_info?.name || '';
+
+  return (notebook.cells || [])
+    .map((cell) => {
+      const source = (Array.isArray(cell.source) ? cell.source.join('') : cell.source || '')
+        .replace(/\r\n/g, '\n')
+        .trim();
+      if (!source) return null;
+      if (cell.cell_type === 'markdown') return source;
+      if (cell.cell_type === 'code') return '```' + language + '\n' + source + '\n```';
+      return null; // Raw cells
+    })
+    .filter((block): block is string => block !== null)
+    .join('\n\n');
+}
@@ -4,6 +4,8 @@
 
  * Date: 2025-10-29
  * Updated: 2026-02-09 - Switched to gemini-embedding-001 (text-embedding-004 deprecated)
+ * Updated: 2026-10-19 - Removed the shared instance; embed through the provider factory
+ *   (getInstanceEmbeddingProvider) so instances can use other providers and dimensions
  * Reference: /docs/specs/rag-documentation-retrieval.md
  */
 
@@ -227,6 +229,3 @@ export class GeminiEmbedder implements EmbeddingService {
     return prepared;
   }
 }
-
-// Export singleton instance
-export const geminiEmbedder = new GeminiEmbedder();
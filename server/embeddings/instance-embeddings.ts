@@ -0,0 +1,94 @@
+/**
+ * Instance Embeddings
+ * Resolves an instance's embedding provider (its `embeddings` config over the EMBEDDING_*
+ * environment defaults) and embeds documentation pages section by section with it.
+ * All vectors of an instance share one dimension; changing provider, model or dimensions
+ * requires re-embedding (see server/embeddings/reembed.ts).
+
+ * Date: 2026-10-19
+ * Reference: /docs/specs/rag-documentation-retrieval.md
+ */
+
+import { InstanceConfigLoader } from '../config/instance-loader.js';
+import {
+  createEmbeddingProvider,
+  getDefaultEmbeddingProvider,
+  type IEmbeddingProvider,
+} from '../llm/providers/index.js';
+import type { DocumentChunk, PgVectorStore } from '../vector-store.js';
+import { chunkDocument, formatChunkForEmbedding } from './doc-chunker.js';
+import { GeminiEmbedder } from './gemini-embedder.js';
+
+const providers = new Map<string, IEmbeddingProvider>();
+
+export class EmbeddingDimensionMismatchError extends Error {
+  constructor(instanceId: string, expected: number, stored: number[]) {
+    super(
+      `Instance "${instanceId}" has ${stored.join('/')}-dimensional embeddings stored, but its embedding provider produces ${expected} dimensions. Run "npm run embeddings:reembed -- ${instanceId}" first.`
+    );
+    this.name = 'EmbeddingDimensionMismatchError';
+  }
+}
+
+/**
+ * Embedding provider of an instance; instances without an embeddings config share the default provider
+ */
+export function getInstanceEmbeddingProvider(instanceId: string): IEmbeddingProvider {
+  const embeddings = InstanceConfigLoader.has(instanceId)
+    ? InstanceConfigLoader.get(instanceId).embeddings
+    : undefined;
+  if (!embeddings) {
+    return getDefaultEmbeddingProvider();
+  }
+
+  let provider = providers.get(instanceId);
+  if (!provider) {
+    provider = createEmbeddingProvider({
+      ...(embeddings.provider && { provider: embeddings.provider }),
+      ...(embeddings.model && { embeddingModel: embeddings.model }),
+      ...(embeddings.dimensions && { dimensions: embeddings.dimensions }),
+      ...(embeddings.baseUrl && { baseUrl: embeddings.baseUrl }),
+    });
+    providers.set(instanceId, provider);
+  }
+  return provider;
+}
+
+/**
+ * Forget cached instance providers, e.g. after changing instance configs
+ */
+export function resetInstanceEmbeddingProviders(): void {
+  providers.clear();
+}
+
+/**
+ * Refuse to mix vector dimensions: pgvector cannot compare vectors of different sizes
+ */
+export async function assertEmbeddingDimensions(
+  instanceId: string,
+  vectorStore: PgVectorStore,
+  provider: IEmbeddingProvider
+): Promise<void> {
+  const mismatched = (await vectorStore.getEmbeddingDimensions()).filter(
+    (dims) => dims !== provider.dimensions
+  );
+  if (mismatched.length > 0) {
+    throw new EmbeddingDimensionMismatchError(instanceId, provider.dimensions, mismatched);
+  }
+}
+
+/**
+ * Split a page into heading sections and embed each one
+ */
+export async function embedDocumentChunks(
+  provider: IEmbeddingProvider,
+  title: string,
+  content: string
+): Promise<DocumentChunk[]> {
+  const chunks: DocumentChunk[] = [];
+  for (const chunk of chunkDocument(content)) {
+    const preparedContent = GeminiEmbedder.prepareText(formatChunkForEmbedding(title, chunk), 2000);
+    chunks.push({ ...chunk, embedding: await provider.embedText(preparedContent) });
+  }
+  return chunks;
+}
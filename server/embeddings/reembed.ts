@@ -0,0 +1,95 @@
+/**
+ * Re-embedding
+ * Recomputes an instance's documentation and message embeddings with its current embedding
+ * provider, after switching provider, model or dimensions. By default only vectors of another
+ * dimension are recomputed, so an interrupted run picks up where it stopped.
+
+ * Date: 2026-10-19
+ * Reference: /docs/specs/rag-documentation-retrieval.md
+ */
+
+import { Prisma, type PrismaClient } from '@prisma/client';
+import { PgVectorStore } from '../vector-store.js';
+import { MessageVectorSearch } from '../stream/message-vector-search.js';
+import { getInstanceEmbeddingProvider, embedDocumentChunks } from './instance-embeddings.js';
+import { createLogger, getErrorMessage } from '../utils/logger.js';
+
+const logger = createLogger('Reembed');
+
+export interface ReembedOptions {
+  all?: boolean; // Also recompute vectors that already have the right dimension (model change)
+  onProgress?: (message: string) => void;
+}
+
+export interface ReembedResult {
+  dimensions: number;
+  pages: number;
+  messages: number;
+  failed: number;
+}
+
+export async function reembedInstance(
+  instanceId: string,
+  db: PrismaClient,
+  options: ReembedOptions = {}
+): Promise<ReembedResult> {
+  const provider = getInstanceEmbeddingProvider(instanceId);
+  const vectorStore = new PgVectorStore(instanceId, db);
+  const messageSearch = new MessageVectorSearch(instanceId, db);
+  const report = (message: string) => {
+    logger.info(`[${instanceId}] ${message}`);
+    options.onProgress?.(message);
+  };
+  const result: ReembedResult = {
+    dimensions: provider.dimensions,
+    pages: 0,
+    messages: 0,
+    failed: 0,
+  };
+
+  try {
+    const pages = await vectorStore.getPagesToReembed(
+      options.all ? undefined : provider.dimensions
+    );
+    report(
+      `Re-embedding ${pages.length} pages with ${provider.name} (${provider.dimensions} dimensions)`
+    );
+    for (const page of pages) {
+      try {
+        const chunks = await embedDocumentChunks(provider, page.title, page.content);
+        await vectorStore.upsertDocument({ ...page, chunks });
+        result.pages++;
+      } catch (error) {
+        result.failed++;
+        report(`Failed to re-embed page ${page.filePath}: ${getErrorMessage(error)}`);
+      }
+    }
+
+    const messages = await db.$queryRaw<Array<{ id: number; content: string }>>`
+      SELECT id, content FROM unified_messages
+      WHERE embedding IS NOT NULL
+      ${options.all ? Prisma.empty : Prisma.sql`AND vector_dims(embedding) <> ${provider.dimensions}`}
+      ORDER BY id
+    `;
+    report(`Re-embedding ${messages.length} messages`);
+    for (const message of messages) {
+      try {
+        await messageSearch.storeEmbedding(
+          message.id,
+          await messageSearch.generateEmbedding(message.content)
+        );
+        result.messages++;
+      } catch (error) {
+        result.failed++;
+        report(`Failed to re-embed message ${message.id}: ${getErrorMessage(error)}`);
+      }
+    }
+  } finally {
+    await vectorStore.cleanup();
+  }
+
+  report(
+    `Re-embedded ${result.pages} pages and ${result.messages} messages (${result.failed} failed)`
+  );
+  return result;
+}
@@ -5,6 +5,8 @@
 
  * Date: 2025-10-29
  * Updated: 2025-11-14 - Multi-instance support
+ * Updated: 2026-10-19 - Rename/copy detection and configurable doc file patterns
+ * Updated: 2026-10-19 - One fetcher per documentation source (documentation.sources)
  * Reference: /docs/specs/rag-documentation-retrieval.md
  */
 
@@ -14,6 +16,8 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { existsSync } from 'fs';
 import { InstanceConfigLoader } from './config/instance-loader';
+import { getDocSources, type DocSource } from './config/doc-sources.js';
+import { DEFAULT_DOC_INCLUDE_PATTERNS } from './embeddings/doc-extractors.js';
 
 export interface UpdateInfo {
   hasUpdates: boolean;
@@ -27,7 +31,79 @@ export interface DocFile {
   content: string;
   lastModified: Date;
   commitHash: string;
-  changeType: 'added' | 'modified' | 'deleted';
+  changeType: 'added' | 'modified' | 'deleted' | 'renamed';
+  previousPath?: string; // Renamed files: path before the rename
+  similarity?: number; // Renamed files: git similarity index (100 = content unchanged)
+}
+
+export interface DocFilePatterns {
+  include: string[];
+  exclude: string[];
+}
+
+/**
+ * Convert a glob to a regex: `**` spans directories, `*` and `?` stay within one, `{a,b}` alternates
+ */
+function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches zero directories
+      if (pattern[i + 2] === '/') {
+        regex += '(?:.*/)?';
+        i += 2;
+      } else {
+        regex += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      const close = pattern.indexOf('}', i);
+      if (close === -1) {
+        regex += '\\{';
+        continue;
+      }
+      const options = pattern.slice(i + 1, close).split(',');
+      regex += `(?:${options.map((o) => o.replace(/[.+^$()|[\]\\]/g, '\\$&')).join('|')})`;
+      i = close;
+    } else {
+      regex += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`, 'i');
+}
+
+/**
+ * Whether a repository path is a documentation file: matches an include pattern and no exclude pattern
+ */
+export function isDocFile(filePath: string, patterns: DocFilePatterns): boolean {
+  if (patterns.exclude.some((pattern) => globToRegExp(pattern).test(filePath))) {
+    return false;
+  }
+  return patterns.include.some((pattern) => globToRegExp(pattern).test(filePath));
+}
+
+/**
+ * Parse `git diff --name-status` output (tab separated, with rename/copy scores)
+ */
+export function parseNameStatus(
+  diff: string
+): Array<{ status: string; score?: number; path: string; previousPath?: string }> {
+  return diff
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [status, ...paths] = line.split('\t');
+      const score = status.length > 1 ? parseInt(status.slice(1), 10) : undefined;
+      if (paths.length > 1) {
+        return { status: status[0], score, previousPath: paths[0], path: paths[1] };
+      }
+      return { status: status[0], score, path: paths[0] };
+    });
 }
 
 export class GitFetcher {
@@ -38,18 +114,33 @@ export class GitFetcher {
   private repoPath: string;
   private instanceId: string;
   private db: PrismaClient;
+  private patterns: DocFilePatterns;
+  private sourceId: string;
 
-  constructor(instanceId: string, db: PrismaClient) {
+  /**
+   * @param source - Documentation source to fetch, default: the instance's primary repository
+   */
+  constructor(instanceId: string, db: PrismaClient, source?: DocSource) {
     this.instanceId = instanceId;
     this.db = db;
 
     // Load instance-specific configuration
     const config = InstanceConfigLoader.get(instanceId);
-    this.gitUrl = config.documentation.gitUrl;
-    this.branch = config.documentation.branch;
+    const docSource = source ?? getDocSources(config.documentation)[0];
+    this.sourceId = docSource.id;
+    this.gitUrl = docSource.gitUrl;
+    this.branch = docSource.branch;
+    this.patterns = {
+      include: docSource.includePatterns?.length
+        ? docSource.includePatterns
+        : DEFAULT_DOC_INCLUDE_PATTERNS,
+      exclude: docSource.excludePatterns || [],
+    };
 
-    // Each instance gets its own cache directory
-    this.cacheDir = `/var/cache/${config.project.shortName}-docs`;
+    // Each instance (and each additional source) gets its own cache directory
+    this.cacheDir = docSource.pathPrefix
+      ? `/var/cache/${config.project.shortName}-docs-${docSource.id}`
+      : `/var/cache/${config.project.shortName}-docs`;
     this.repoPath = path.join(this.cacheDir, 'repo');
     this.git = simpleGit({ binary: 'git' });
 
@@ -112,6 +203,29 @@ export class GitFetcher {
     console.log('Repository cloned successfully');
   }
 
+  /**
+   * List all documentation files in the working tree
+   */
+  private async listDocFiles(): Promise<string[]> {
+    const files = await this.git.raw(['ls-files']);
+    return files.split('\n').filter((file) => file.length > 0 && isDocFile(file, this.patterns));
+  }
+
+  /**
+   * Read a file from the working tree, null if it does not exist
+   */
+  private async readDocFile(
+    filePath: string
+  ): Promise<{ content: string; lastModified: Date } | null> {
+    const fullPath = path.join(this.repoPath, filePath);
+    if (!existsSync(fullPath)) {
+      return null;
+    }
+    const content = await fs.readFile(fullPath, 'utf-8');
+    const stat = await fs.stat(fullPath);
+    return { content, lastModified: stat.mtime };
+  }
+
   /**
    * Get the current commit hash from the repository
    */
@@ -126,7 +240,7 @@ export class GitFetcher {
    */
   async getStoredCommitHash(): Promise<string | null> {
     const syncState = await this.db.gitSyncState.findUnique({
-      where: { gitUrl: this.gitUrl },
+      where: { sourceId_gitUrl: { sourceId: this.sourceId, gitUrl: this.gitUrl } },
     });
     return syncState?.lastCommitHash || null;
   }
@@ -136,13 +250,14 @@ export class GitFetcher {
    */
   async updateCommitHash(hash: string): Promise<void> {
     await this.db.gitSyncState.upsert({
-      where: { gitUrl: this.gitUrl },
+      where: { sourceId_gitUrl: { sourceId: this.sourceId, gitUrl: this.gitUrl } },
       update: {
         lastCommitHash: hash,
         lastSyncAt: new Date(),
         syncStatus: 'success',
       },
       create: {
+        sourceId: this.sourceId,
         gitUrl: this.gitUrl,
         branch: this.branch,
         lastCommitHash: hash,
@@ -169,12 +284,10 @@ export class GitFetcher {
       const diff = await this.git.diff([storedHash, currentHash, '--name-only']);
       changedFiles = diff
         .split('\n')
-        .filter((file) => file.endsWith('.md') || file.endsWith('.mdx'))
-        .filter((file) => file.length > 0);
+        .filter((file) => file.length > 0 && isDocFile(file, this.patterns));
     } else if (!storedHash) {
-      // First sync, get all markdown files
-      const files = await this.git.raw(['ls-files', '*.md', '*.mdx']);
-      changedFiles = files.split('\n').filter((file) => file.length > 0);
+      // First sync, get all documentation files
+      changedFiles = await this.listDocFiles();
     }
 
     return {
@@ -187,6 +300,8 @@ export class GitFetcher {
 
   /**
    * Fetch changed files between two commit hashes
+   * Renames are reported with their previous path so stored embeddings can be moved;
+   * copies are reported as added files.
    */
   async fetchChangedFiles(fromHash: string, toHash: string): Promise<DocFile[]> {
     await this.syncRepository();
@@ -195,41 +310,32 @@ export class GitFetcher {
 
     if (fromHash === 'HEAD~1' || !fromHash) {
       // First sync or single commit back
-      const files = await this.git.raw(['ls-files', '*.md', '*.mdx']);
-      const fileList = files.split('\n').filter((file) => file.length > 0);
-
-      for (const filePath of fileList) {
-        const fullPath = path.join(this.repoPath, filePath);
-        if (existsSync(fullPath)) {
-          const content = await fs.readFile(fullPath, 'utf-8');
-          const stat = await fs.stat(fullPath);
-
-          changedFiles.push({
-            path: filePath,
-            content,
-            lastModified: stat.mtime,
-            commitHash: toHash,
-            changeType: 'added',
-          });
+      for (const filePath of await this.listDocFiles()) {
+        const file = await this.readDocFile(filePath);
+        if (file) {
+          changedFiles.push({ path: filePath, ...file, commitHash: toHash, changeType: 'added' });
         }
       }
     } else {
       // Get diff with name and status
-      const diff = await this.git.raw(['diff', '--name-status', fromHash, toHash]);
-      const lines = diff.split('\n').filter((line) => line.length > 0);
-
-      for (const line of lines) {
-        const [status, ...pathParts] = line.split(/\s+/);
-        const filePath = pathParts.join(' ');
-
-        // Only process markdown files
-        if (!filePath.endsWith('.md') && !filePath.endsWith('.mdx')) {
-          continue;
-        }
-
-        let changeType: 'added' | 'modified' | 'deleted';
-
-        switch (status) {
+      const diff = await this.git.raw([
+        'diff',
+        '--name-status',
+        '--find-renames',
+        '--find-copies',
+        fromHash,
+        toHash,
+      ]);
+
+      for (const entry of parseNameStatus(diff)) {
+        const isDoc = isDocFile(entry.path, this.patterns);
+        const wasDoc =
+          entry.previousPath !== undefined && isDocFile(entry.previousPath, this.patterns);
+
+        let changeType: DocFile['changeType'];
+        let previousPath: string | undefined;
+
+        switch (entry.status) {
           case 'A':
             changeType = 'added';
             break;
@@ -239,30 +345,49 @@ export class GitFetcher {
           case 'D':
             changeType = 'deleted';
             break;
+          case 'R':
+            if (wasDoc && !isDoc) {
+              // Moved out of the documentation set
+              changedFiles.push({
+                path: entry.previousPath!,
+                content: '',
+                lastModified: new Date(),
+                commitHash: toHash,
+                changeType: 'deleted',
+              });
+              continue;
+            }
+            changeType = wasDoc ? 'renamed' : 'added';
+            previousPath = wasDoc ? entry.previousPath : undefined;
+            break;
+          case 'C':
+            changeType = 'added';
+            break;
           default:
-            continue; // Skip other statuses (like rename, copy, etc.)
+            continue; // Skip other statuses (type changes, unmerged, etc.)
+        }
+
+        if (!isDoc) {
+          continue;
         }
 
         if (changeType === 'deleted') {
           changedFiles.push({
-            path: filePath,
+            path: entry.path,
             content: '',
             lastModified: new Date(),
             commitHash: toHash,
             changeType,
           });
         } else {
-          const fullPath = path.join(this.repoPath, filePath);
-          if (existsSync(fullPath)) {
-            const content = await fs.readFile(fullPath, 'utf-8');
-            const stat = await fs.stat(fullPath);
-
+          const file = await this.readDocFile(entry.path);
+          if (file) {
             changedFiles.push({
-              path: filePath,
-              content,
-              lastModified: stat.mtime,
+              path: entry.path,
+              ...file,
               commitHash: toHash,
               changeType,
+              ...(previousPath && { previousPath, similarity: entry.score }),
             });
           }
         }
@@ -281,13 +406,14 @@ export class GitFetcher {
     errorMessage?: string
   ): Promise<void> {
     await this.db.gitSyncState.upsert({
-      where: { gitUrl: this.gitUrl },
+      where: { sourceId_gitUrl: { sourceId: this.sourceId, gitUrl: this.gitUrl } },
       update: {
         syncStatus: status,
         errorMessage: errorMessage || null,
         lastSyncAt: new Date(),
       },
       create: {
+        sourceId: this.sourceId,
         gitUrl: this.gitUrl,
         branch: this.branch,
         syncStatus: status,
@@ -9,7 +9,14 @@ import { startScheduler } from './scheduler';
 import { initializeDatabase } from './migrate';
 
 const app = express();
-app.use(express.json());
+app.use(
+  express.json({
+    // Keep the raw body for webhook signature verification
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf;
+    },
+  })
+);
 app.use(express.urlencoded({ extended: false }));
 app.use(cookieParser());
 
@@ -86,6 +93,14 @@ app.use((req, res, next) => {
       // Start the scheduler for automated scraping and analysis
       startScheduler();
 
+      // Poll submitted changeset PRs for merges, closes and reviews
+      const { startPRStatusPoller } = await import('./stream/pr-status-poller.js');
+      startPRStatusPoller();
+
+      // Delete expired widget chat sessions
+      const { startWidgetSessionCleanup } = await import('./widget/widget-session-cleanup.js');
+      startWidgetSessionCleanup();
+
       // Initialize Multi-Stream Scanner (Phase 1)
       if (process.env.STREAM_MANAGER_ENABLED !== 'false') {
         try {
@@ -0,0 +1,58 @@
+/**
+ * Instance LLM
+ * Resolves the LLM provider that answers an instance's widget questions (its `llm` config
+ * over the LLM_PROVIDER / LLM_MODEL environment defaults) and the model catalog to cost its calls.
+
+ * Date: 2026-10-19
+ */
+
+import { InstanceConfigLoader } from '../config/instance-loader.js';
+import type { LLMConfig } from '../config/types.js';
+import { createLLMProvider, getDefaultLLMProvider, type ILLMProvider } from './providers/index.js';
+import { getModelCatalog } from '../pipeline/handlers/LLMHandlerFactory.js';
+import type { ModelCatalog } from '../pipeline/handlers/ProviderHandler.js';
+
+const providers = new Map<string, ILLMProvider>();
+
+function getLLMConfig(instanceId: string): LLMConfig | undefined {
+  return InstanceConfigLoader.has(instanceId)
+    ? InstanceConfigLoader.get(instanceId).llm
+    : undefined;
+}
+
+/**
+ * LLM provider of an instance; instances that don't choose a provider, model or server
+ * share the default provider
+ */
+export function getInstanceLLMProvider(instanceId: string): ILLMProvider {
+  const llm = getLLMConfig(instanceId);
+  if (!llm?.provider && !llm?.model && !llm?.baseUrl) {
+    return getDefaultLLMProvider();
+  }
+
+  let provider = providers.get(instanceId);
+  if (!provider) {
+    provider = createLLMProvider({
+      ...(llm.provider && { provider: llm.provider }),
+      ...(llm.model && { defaultModel: llm.model }),
+      ...(llm.baseUrl && { baseUrl: llm.baseUrl }),
+    });
+    providers.set(instanceId, provider);
+  }
+  return provider;
+}
+
+/**
+ * Pricing of the instance provider's models
+ */
+export function getInstanceModelCatalog(instanceId: string): ModelCatalog {
+  const llm = getLLMConfig(instanceId);
+  return getModelCatalog(llm?.provider, { baseUrl: llm?.baseUrl });
+}
+
+/**
+ * Forget cached instance providers, e.g. after changing instance configs
+ */
+export function resetInstanceLLMProviders(): void {
+  providers.clear();
+}
@@ -0,0 +1,206 @@
+/**
+ * LLM Usage Accounting
+ * Records every LLM call (instance, step, model, tokens and cost), checks per-instance
+ * daily/monthly budgets and reports spend over time for the admin dashboard.
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Usage recorder for LLM calls outside the pipeline
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { LLMBudgetConfig } from '../config/types.js';
+import type { LLMUsageListener } from '../pipeline/handlers/MeteredLLMHandler.js';
+import { createLogger, getErrorMessage } from '../utils/logger.js';
+
+const logger = createLogger('LLMUsage');
+
+/**
+ * One LLM call to record
+ */
+export interface LLMUsageEntry {
+  batchId?: string;
+  stepId?: string;
+  purpose: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface LLMBudgetStatus {
+  dailySpendUSD: number;
+  monthlySpendUSD: number;
+  // The period whose budget is used up, if any (daily is checked first)
+  exceeded: 'daily' | 'monthly' | null;
+}
+
+export interface LLMSpendRow {
+  day: string; // YYYY-MM-DD (UTC)
+  stepId: string | null;
+  provider: string;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface LLMSpendTotal {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface LLMSpendReport {
+  since: string;
+  totalCostUsd: number;
+  byDay: LLMSpendTotal[];
+  byStep: LLMSpendTotal[];
+  byModel: LLMSpendTotal[];
+  rows: LLMSpendRow[];
+}
+
+export function startOfUTCDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export function startOfUTCMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export class LLMUsageService {
+  private prisma: PrismaClient;
+  private instanceId: string;
+
+  constructor(prisma: PrismaClient, instanceId: string) {
+    this.prisma = prisma;
+    this.instanceId = instanceId;
+  }
+
+  async record(entry: LLMUsageEntry): Promise<void> {
+    await this.prisma.llmUsage.create({
+      data: { instanceId: this.instanceId, ...entry },
+    });
+  }
+
+  /**
+   * Total cost in USD of the calls made since a point in time
+   */
+  async getSpendSince(since: Date): Promise<number> {
+    const result = await this.prisma.llmUsage.aggregate({
+      where: { instanceId: this.instanceId, createdAt: { gte: since } },
+      _sum: { costUsd: true },
+    });
+    return result._sum.costUsd ?? 0;
+  }
+
+  /**
+   * Spend of the current UTC day and month against the instance's budget
+   */
+  async getBudgetStatus(budget: LLMBudgetConfig, now: Date = new Date()): Promise<LLMBudgetStatus> {
+    const [dailySpendUSD, monthlySpendUSD] = await Promise.all([
+      this.getSpendSince(startOfUTCDay(now)),
+      this.getSpendSince(startOfUTCMonth(now)),
+    ]);
+
+    let exceeded: LLMBudgetStatus['exceeded'] = null;
+    if (budget.dailyUSD !== undefined && dailySpendUSD >= budget.dailyUSD) {
+      exceeded = 'daily';
+    } else if (budget.monthlyUSD !== undefined && monthlySpendUSD >= budget.monthlyUSD) {
+      exceeded = 'monthly';
+    }
+
+    return { dailySpendUSD, monthlySpendUSD, exceeded };
+  }
+
+  /**
+   * Spend per UTC day, pipeline step and model over the last `days` days
+   */
+  async getSpendReport(days: number, now: Date = new Date()): Promise<LLMSpendReport> {
+    const since = startOfUTCDay(new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000));
+
+    const results = await this.prisma.$queryRaw<
+      Array<{
+        day: Date;
+        step_id: string | null;
+        provider: string;
+        model: string;
+        calls: number;
+        input_tokens: number;
+        output_tokens: number;
+        cost_usd: number;
+      }>
+    >`
+      SELECT date_trunc('day', created_at) AS day, step_id, provider, model,
+             COUNT(*)::int AS calls,
+             COALESCE(SUM(input_tokens), 0)::int AS input_tokens,
+             COALESCE(SUM(output_tokens), 0)::int AS output_tokens,
+             COALESCE(SUM(cost_usd), 0)::float8 AS cost_usd
+      FROM llm_usage
+      WHERE instance_id = ${this.instanceId} AND created_at >= ${since}
+      GROUP BY 1, 2, 3, 4
+      ORDER BY 1, 2, 3, 4
+    `;
+
+    const rows: LLMSpendRow[] = results.map((row) => ({
+      day: new Date(row.day).toISOString().slice(0, 10),
+      stepId: row.step_id,
+      provider: row.provider,
+      model: row.model,
+      calls: row.calls,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      costUsd: row.cost_usd,
+    }));
+
+    return {
+      since: since.toISOString(),
+      totalCostUsd: rows.reduce((sum, row) => sum + row.costUsd, 0),
+      byDay: totalBy(rows, (row) => row.day),
+      byStep: totalBy(rows, (row) => row.stepId ?? 'other'),
+      byModel: totalBy(rows, (row) => `${row.provider}/${row.model}`),
+      rows,
+    };
+  }
+}
+
+/**
+ * Usage listener for metered LLM calls outside the pipeline (PR consolidation, ruleset
+ * suggestions, widget answers). A failed write is logged, not thrown, so accounting
+ * never fails the call it records.
+ */
+export function createLLMUsageRecorder(prisma: PrismaClient, instanceId: string): LLMUsageListener {
+  const usage = new LLMUsageService(prisma, instanceId);
+  return async (response, context) => {
+    try {
+      await usage.record({
+        batchId: context.batchId,
+        purpose: context.purpose,
+        provider: response.provider ?? 'unknown',
+        model: response.model,
+        inputTokens: response.inputTokens ?? 0,
+        outputTokens: response.outputTokens ?? 0,
+        costUsd: response.costUSD ?? 0,
+      });
+    } catch (error) {
+      logger.warn(`Failed to record LLM usage: ${getErrorMessage(error)}`);
+    }
+  };
+}
+
+function totalBy(rows: LLMSpendRow[], keyOf: (row: LLMSpendRow) => string): LLMSpendTotal[] {
+  const totals = new Map<string, LLMSpendTotal>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const total = totals.get(key) ?? { key, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    total.calls += row.calls;
+    total.inputTokens += row.inputTokens;
+    total.outputTokens += row.outputTokens;
+    total.costUsd += row.costUsd;
+    totals.set(key, total);
+  }
+  return [...totals.values()];
+}
@@ -0,0 +1,197 @@
+/**
+ * Anthropic Provider Implementation
+ *
+ * Implements the unified LLM provider interface for the Anthropic Messages API.
+ * Anthropic has no embedding API; use another provider for embeddings.
+ */
+
+import type { z } from 'zod';
+import type {
+  ILLMProvider,
+  GenerationResult,
+  GenerateOptions,
+  StreamGenerateOptions,
+  ConversationMessage,
+  LLMProviderType,
+} from './types.js';
+import {
+  buildChatMessages,
+  parseJSONResponse,
+  readStreamLines,
+  JSON_ONLY_INSTRUCTION,
+} from './chat-utils.js';
+import { createLogger, getErrorMessage } from '../../utils/logger.js';
+
+const logger = createLogger('AnthropicProvider');
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096; // The Messages API requires max_tokens
+
+interface AnthropicMessagesResponse {
+  model?: string;
+  content?: Array<{ type: string; text?: string }>;
+  stop_reason?: string;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+// Server-sent events of a streamed Messages API response (the fields used here)
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { model?: string; usage?: { input_tokens?: number } };
+  delta?: { type?: string; text?: string; stop_reason?: string };
+  usage?: { output_tokens?: number };
+}
+
+/**
+ * Anthropic LLM Provider (Messages API)
+ */
+export class AnthropicLLMProvider implements ILLMProvider {
+  readonly name: LLMProviderType = 'anthropic';
+  private apiKey: string;
+  private baseUrl: string;
+  private defaultModel: string;
+
+  constructor(
+    apiKey: string,
+    defaultModel: string = 'claude-3-sonnet-20240229',
+    baseUrl: string = 'https://api.anthropic.com'
+  ) {
+    if (!apiKey) {
+      throw new Error('Anthropic API key is required');
+    }
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.defaultModel = defaultModel;
+  }
+
+  async generateText(prompt: string, options?: GenerateOptions): Promise<GenerationResult> {
+    return this.chat(buildChatMessages(prompt, [], options?.systemPrompt), options);
+  }
+
+  async generateWithHistory(
+    prompt: string,
+    history: ConversationMessage[],
+    options?: GenerateOptions
+  ): Promise<GenerationResult> {
+    return this.chat(buildChatMessages(prompt, history, options?.systemPrompt), options);
+  }
+
+  async streamWithHistory(
+    prompt: string,
+    history: ConversationMessage[],
+    options: StreamGenerateOptions
+  ): Promise<GenerationResult> {
+    const model = options.model || this.defaultModel;
+
+    try {
+      const response = await this.request(
+        buildChatMessages(prompt, history, options.systemPrompt),
+        options,
+        true
+      );
+      if (!response.body) {
+        throw new Error('response has no body');
+      }
+
+      const result: GenerationResult = { text: '', model };
+      for await (const line of readStreamLines(response.body)) {
+        if (!line.startsWith('data:')) continue;
+        const event = JSON.parse(line.slice('data:'.length)) as AnthropicStreamEvent;
+        if (event.type === 'message_start') {
+          result.model = event.message?.model || model;
+          result.inputTokens = event.message?.usage?.input_tokens;
+        } else if (event.type === 'content_block_delta' && event.delta?.text) {
+          result.text += event.delta.text;
+          options.onToken(event.delta.text);
+        } else if (event.type === 'message_delta') {
+          result.finishReason = event.delta?.stop_reason;
+          result.outputTokens = event.usage?.output_tokens;
+        } else if (event.type === 'error') {
+          throw new Error(`stream error: ${line}`);
+        }
+      }
+      const tokensUsed = (result.inputTokens ?? 0) + (result.outputTokens ?? 0);
+      return { ...result, tokensUsed: tokensUsed || undefined };
+    } catch (error) {
+      logger.error('Streamed generation failed:', getErrorMessage(error));
+      throw new Error(`Anthropic generation failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  async generateStructured<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    options?: GenerateOptions
+  ): Promise<T> {
+    const result = await this.chat(
+      buildChatMessages(`${prompt}\n\n${JSON_ONLY_INSTRUCTION}`, [], options?.systemPrompt),
+      { temperature: 0.1, ...options }
+    );
+    options?.onResult?.(result);
+    return parseJSONResponse(result.text, schema);
+  }
+
+  private async chat(
+    messages: ConversationMessage[],
+    options?: GenerateOptions
+  ): Promise<GenerationResult> {
+    const model = options?.model || this.defaultModel;
+
+    try {
+      const response = await this.request(messages, options);
+      const data = (await response.json()) as AnthropicMessagesResponse;
+      const text = (data.content ?? [])
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text ?? '')
+        .join('');
+      const tokensUsed = (data.usage?.input_tokens ?? 0) + (data.usage?.output_tokens ?? 0);
+
+      return {
+        text,
+        tokensUsed: tokensUsed || undefined,
+        inputTokens: data.usage?.input_tokens,
+        outputTokens: data.usage?.output_tokens,
+        finishReason: data.stop_reason,
+        model: data.model || model,
+      };
+    } catch (error) {
+      logger.error('Generation failed:', getErrorMessage(error));
+      throw new Error(`Anthropic generation failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  private async request(
+    messages: ConversationMessage[],
+    options?: GenerateOptions & { signal?: AbortSignal },
+    stream = false
+  ): Promise<Response> {
+    // The system prompt is a top-level field, not a message
+    const system = messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: options?.model || this.defaultModel,
+        max_tokens: options?.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: options?.temperature,
+        ...(system && { system }),
+        messages: messages.filter((message) => message.role !== 'system'),
+        ...(stream && { stream: true }),
+      }),
+      signal: options?.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`request failed (${response.status}): ${await response.text()}`);
+    }
+    return response;
+  }
+}
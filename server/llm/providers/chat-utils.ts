@@ -0,0 +1,62 @@
+/**
+ * Chat Provider Utilities
+ *
+ * Message building, JSON response parsing and streamed response reading shared by the
+ * chat-style providers (OpenAI-compatible, Anthropic, Ollama).
+ */
+
+import type { z } from 'zod';
+import type { ConversationMessage } from './types.js';
+
+/**
+ * Instruction appended to prompts that must be answered with JSON
+ */
+export const JSON_ONLY_INSTRUCTION =
+  'Respond with valid JSON only. No markdown code blocks, just the raw JSON object.';
+
+/**
+ * Build a chat transcript: system prompt, history, then the prompt as the last user turn
+ */
+export function buildChatMessages(
+  prompt: string,
+  history: ConversationMessage[] = [],
+  systemPrompt?: string
+): ConversationMessage[] {
+  return [
+    ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+    ...history,
+    { role: 'user', content: prompt },
+  ];
+}
+
+/**
+ * Parse a JSON response (tolerating a markdown code fence) and validate it against the schema
+ */
+export function parseJSONResponse<T>(text: string, schema: z.ZodSchema<T>): T {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  const parsed = JSON.parse(fenced ? fenced[1] : text);
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Response did not match expected schema: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Read a streamed response body line by line (SSE and NDJSON), skipping blank lines
+ */
+export async function* readStreamLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield line.trim();
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) yield buffer.trim();
+}
@@ -11,8 +11,10 @@ import type {
   IEmbeddingProvider,
   GenerationResult,
   GenerateOptions,
+  StreamGenerateOptions,
   ConversationMessage,
   LLMProviderType,
+  EmbeddingProviderType,
 } from './types.js';
 import { createLogger, getErrorMessage } from '../../utils/logger.js';
 import { llmCache } from '../llm-cache.js';
@@ -68,6 +70,8 @@ export class GeminiLLMProvider implements ILLMProvider {
       return {
         text,
         tokensUsed: result.response.usageMetadata?.totalTokenCount,
+        inputTokens: result.response.usageMetadata?.promptTokenCount,
+        outputTokens: result.response.usageMetadata?.candidatesTokenCount,
         finishReason: result.response.candidates?.[0]?.finishReason,
         model: modelName,
       };
@@ -86,25 +90,15 @@ export class GeminiLLMProvider implements ILLMProvider {
     const model = this.getModel(modelName, options);
 
     try {
-      const contents = [
-        ...(options?.systemPrompt
-          ? [
-              { role: 'user' as const, parts: [{ text: options.systemPrompt }] },
-              { role: 'model' as const, parts: [{ text: 'Understood.' }] },
-            ]
-          : []),
-        ...history.map((msg) => ({
-          role: msg.role === 'assistant' ? ('model' as const) : ('user' as const),
-          parts: [{ text: msg.content }],
-        })),
-        { role: 'user' as const, parts: [{ text: prompt }] },
-      ];
-
-      const result = await model.generateContent({ contents });
+      const result = await model.generateContent({
+        contents: this.buildContents(prompt, history, options?.systemPrompt),
+      });
 
       return {
         text: result.response.text(),
         tokensUsed: result.response.usageMetadata?.totalTokenCount,
+        inputTokens: result.response.usageMetadata?.promptTokenCount,
+        outputTokens: result.response.usageMetadata?.candidatesTokenCount,
         finishReason: result.response.candidates?.[0]?.finishReason,
         model: modelName,
       };
@@ -114,6 +108,43 @@ export class GeminiLLMProvider implements ILLMProvider {
     }
   }
 
+  async streamWithHistory(
+    prompt: string,
+    history: ConversationMessage[],
+    options: StreamGenerateOptions
+  ): Promise<GenerationResult> {
+    const modelName = options.model || this.defaultModel;
+    const model = this.getModel(modelName, options);
+
+    try {
+      const result = await model.generateContentStream(
+        { contents: this.buildContents(prompt, history, options.systemPrompt) },
+        { signal: options.signal }
+      );
+      let text = '';
+      for await (const chunk of result.stream) {
+        const chunkText = chunk.text();
+        if (chunkText) {
+          text += chunkText;
+          options.onToken(chunkText);
+        }
+      }
+      const response = await result.response;
+
+      return {
+        text,
+        tokensUsed: response.usageMetadata?.totalTokenCount,
+        inputTokens: response.usageMetadata?.promptTokenCount,
+        outputTokens: response.usageMetadata?.candidatesTokenCount,
+        finishReason: response.candidates?.[0]?.finishReason,
+        model: modelName,
+      };
+    } catch (error) {
+      logger.error('Streamed generation failed:', getErrorMessage(error));
+      throw new Error(`Gemini generation failed: ${getErrorMessage(error)}`);
+    }
+  }
+
   async generateStructured<T>(
     prompt: string,
     schema: z.ZodSchema<T>,
@@ -146,6 +177,14 @@ Respond with valid JSON only. No markdown code blocks, just the raw JSON object.
           })
         : await model.generateContent(structuredPrompt);
       const text = result.response.text();
+      options?.onResult?.({
+        text,
+        tokensUsed: result.response.usageMetadata?.totalTokenCount,
+        inputTokens: result.response.usageMetadata?.promptTokenCount,
+        outputTokens: result.response.usageMetadata?.candidatesTokenCount,
+        finishReason: result.response.candidates?.[0]?.finishReason,
+        model: modelName,
+      });
 
       // Parse and validate with Zod
       const parsed = JSON.parse(text);
@@ -160,6 +199,22 @@ Respond with valid JSON only. No markdown code blocks, just the raw JSON object.
     }
   }
 
+  private buildContents(prompt: string, history: ConversationMessage[], systemPrompt?: string) {
+    return [
+      ...(systemPrompt
+        ? [
+            { role: 'user' as const, parts: [{ text: systemPrompt }] },
+            { role: 'model' as const, parts: [{ text: 'Understood.' }] },
+          ]
+        : []),
+      ...history.map((msg) => ({
+        role: msg.role === 'assistant' ? ('model' as const) : ('user' as const),
+        parts: [{ text: msg.content }],
+      })),
+      { role: 'user' as const, parts: [{ text: prompt }] },
+    ];
+  }
+
   private getModel(modelName: string, options?: GenerateOptions): GenerativeModel {
     const generationConfig: GenerationConfig = {
       temperature: options?.temperature ?? 0.2,
@@ -177,19 +232,20 @@ Respond with valid JSON only. No markdown code blocks, just the raw JSON object.
  * Gemini Embedding Provider
  */
 export class GeminiEmbeddingProvider implements IEmbeddingProvider {
-  readonly name: LLMProviderType = 'gemini';
-  readonly dimensions = 768;
+  readonly name: EmbeddingProviderType = 'gemini';
+  readonly dimensions: number;
   private genAI: GoogleGenerativeAI;
   private embedModel: string;
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY = 1000;
 
-  constructor(apiKey: string, embedModel: string = 'text-embedding-004') {
+  constructor(apiKey: string, embedModel: string = 'gemini-embedding-001', dimensions = 768) {
     if (!apiKey) {
       throw new Error('Gemini API key is required');
     }
     this.genAI = new GoogleGenerativeAI(apiKey);
     this.embedModel = embedModel;
+    this.dimensions = dimensions;
   }
 
   async embedText(text: string): Promise<number[]> {
@@ -202,8 +258,11 @@ export class GeminiEmbeddingProvider implements IEmbeddingProvider {
     if (cached) {
       try {
         const embedding = JSON.parse(cached.response) as number[];
-        logger.debug(`Using cached embedding (${embedding.length} dimensions)`);
-        return embedding;
+        // Embeddings cached at another dimension are regenerated
+        if (embedding.length === this.dimensions) {
+          logger.debug(`Using cached embedding (${embedding.length} dimensions)`);
+          return embedding;
+        }
       } catch {
         logger.warn('Failed to parse cached embedding, will regenerate');
       }
@@ -214,7 +273,11 @@ export class GeminiEmbeddingProvider implements IEmbeddingProvider {
     for (let attempt = 0; attempt < this.MAX_RETRIES; attempt++) {
       try {
         const model = this.genAI.getGenerativeModel({ model: this.embedModel });
-        const result = await model.embedContent(text);
+        // outputDimensionality is supported by the API but not yet in the SDK types
+        const result = await model.embedContent({
+          content: { role: 'user', parts: [{ text }] },
+          outputDimensionality: this.dimensions,
+        } as Parameters<typeof model.embedContent>[0]);
         const embedding = result.embedding.values;
 
         if (!embedding) {
@@ -12,6 +12,8 @@
  *
  * // Or specify a provider
  * const llm = createLLMProvider({ provider: 'gemini', apiKey: '...' });
+ * const localLLM = createLLMProvider({ provider: 'ollama', defaultModel: 'qwen2.5' });
+ * const localEmbedder = createEmbeddingProvider({ provider: 'local', dimensions: 384 });
  * ```
  */
 
@@ -20,9 +22,18 @@ import type {
   IEmbeddingProvider,
   LLMProviderConfig,
   LLMProviderType,
+  EmbeddingProviderConfig,
+} from './types.js';
+import {
+  LLM_PROVIDER_TYPES,
+  getProviderConfigFromEnv,
+  getEmbeddingConfigFromEnv,
 } from './types.js';
-import { getProviderConfigFromEnv } from './types.js';
 import { GeminiLLMProvider, GeminiEmbeddingProvider } from './gemini-provider.js';
+import { OpenAILLMProvider, OpenAIEmbeddingProvider } from './openai-provider.js';
+import { AnthropicLLMProvider } from './anthropic-provider.js';
+import { OllamaLLMProvider, OllamaEmbeddingProvider } from './ollama-provider.js';
+import { LocalEmbeddingProvider } from './local-provider.js';
 import { createLogger } from '../../utils/logger.js';
 
 const logger = createLogger('LLMProviderFactory');
@@ -30,13 +41,18 @@ const logger = createLogger('LLMProviderFactory');
 // Re-export types
 export * from './types.js';
 export { GeminiLLMProvider, GeminiEmbeddingProvider } from './gemini-provider.js';
+export { OpenAILLMProvider, OpenAIEmbeddingProvider } from './openai-provider.js';
+export { AnthropicLLMProvider } from './anthropic-provider.js';
+export { OllamaLLMProvider, OllamaEmbeddingProvider } from './ollama-provider.js';
+export { LocalEmbeddingProvider } from './local-provider.js';
 
 /**
  * Create an LLM provider based on configuration
+ * Settings not given fall back to the environment defaults of the selected provider.
  */
 export function createLLMProvider(config?: Partial<LLMProviderConfig>): ILLMProvider {
   const finalConfig = {
-    ...getProviderConfigFromEnv(),
+    ...getProviderConfigFromEnv(config?.provider),
     ...config,
   };
 
@@ -50,16 +66,30 @@ export function createLLMProvider(config?: Partial<LLMProviderConfig>): ILLMProv
       return new GeminiLLMProvider(finalConfig.apiKey, finalConfig.defaultModel);
 
     case 'openai':
-      // OpenAI provider can be implemented when needed
-      throw new Error('OpenAI provider not yet implemented. Contributions welcome!');
+      // OpenAI-compatible servers (vLLM, llama.cpp, ...) set a base URL and may not need a key
+      if (!finalConfig.apiKey && !finalConfig.baseUrl) {
+        throw new Error('OpenAI API key is required. Set OPENAI_API_KEY environment variable.');
+      }
+      return new OpenAILLMProvider(
+        finalConfig.apiKey,
+        finalConfig.defaultModel,
+        finalConfig.baseUrl
+      );
 
     case 'anthropic':
-      // Anthropic provider can be implemented when needed
-      throw new Error('Anthropic provider not yet implemented. Contributions welcome!');
+      if (!finalConfig.apiKey) {
+        throw new Error(
+          'Anthropic API key is required. Set ANTHROPIC_API_KEY environment variable.'
+        );
+      }
+      return new AnthropicLLMProvider(
+        finalConfig.apiKey,
+        finalConfig.defaultModel,
+        finalConfig.baseUrl
+      );
 
     case 'ollama':
-      // Ollama provider can be implemented when needed
-      throw new Error('Ollama provider not yet implemented. Contributions welcome!');
+      return new OllamaLLMProvider(finalConfig.baseUrl, finalConfig.defaultModel);
 
     default:
       throw new Error(`Unknown LLM provider: ${finalConfig.provider}`);
@@ -68,24 +98,41 @@ export function createLLMProvider(config?: Partial<LLMProviderConfig>): ILLMProv
 
 /**
  * Create an embedding provider based on configuration
+ * Settings not given fall back to the environment defaults of the selected provider.
  */
-export function createEmbeddingProvider(config?: Partial<LLMProviderConfig>): IEmbeddingProvider {
+export function createEmbeddingProvider(
+  config?: Partial<EmbeddingProviderConfig>
+): IEmbeddingProvider {
   const finalConfig = {
-    ...getProviderConfigFromEnv(),
+    ...getEmbeddingConfigFromEnv(config?.provider),
     ...config,
   };
 
-  logger.info(`Creating embedding provider: ${finalConfig.provider}`);
+  logger.info(
+    `Creating embedding provider: ${finalConfig.provider} (${finalConfig.dimensions} dimensions)`
+  );
 
   switch (finalConfig.provider) {
     case 'gemini':
       if (!finalConfig.apiKey) {
         throw new Error('Gemini API key is required. Set GEMINI_API_KEY environment variable.');
       }
-      return new GeminiEmbeddingProvider(finalConfig.apiKey, finalConfig.embeddingModel);
+      return new GeminiEmbeddingProvider(
+        finalConfig.apiKey,
+        finalConfig.embeddingModel,
+        finalConfig.dimensions
+      );
 
     case 'openai':
-      throw new Error('OpenAI embedding provider not yet implemented. Contributions welcome!');
+      if (!finalConfig.apiKey) {
+        throw new Error('OpenAI API key is required. Set OPENAI_API_KEY environment variable.');
+      }
+      return new OpenAIEmbeddingProvider(
+        finalConfig.apiKey,
+        finalConfig.embeddingModel,
+        finalConfig.dimensions,
+        finalConfig.baseUrl
+      );
 
     case 'anthropic':
       throw new Error(
@@ -93,7 +140,18 @@ export function createEmbeddingProvider(config?: Partial<LLMProviderConfig>): IE
       );
 
     case 'ollama':
-      throw new Error('Ollama embedding provider not yet implemented. Contributions welcome!');
+      return new OllamaEmbeddingProvider(
+        finalConfig.baseUrl,
+        finalConfig.embeddingModel,
+        finalConfig.dimensions
+      );
+
+    case 'local':
+      return new LocalEmbeddingProvider(
+        finalConfig.embeddingModel,
+        finalConfig.dimensions,
+        finalConfig.modelDir
+      );
 
     default:
       throw new Error(`Unknown embedding provider: ${finalConfig.provider}`);
@@ -104,7 +162,7 @@ export function createEmbeddingProvider(config?: Partial<LLMProviderConfig>): IE
  * Get a list of available providers
  */
 export function getAvailableProviders(): LLMProviderType[] {
-  return ['gemini']; // Only Gemini is currently implemented
+  return [...LLM_PROVIDER_TYPES];
 }
 
 /**
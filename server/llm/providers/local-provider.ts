@@ -0,0 +1,106 @@
+/**
+ * Local Embedding Provider Implementation
+ *
+ * Runs a sentence-embedding ONNX model in-process with @huggingface/transformers (optional
+ * dependency), so embeddings work without any cloud API. Models are downloaded from the
+ * Hugging Face hub on first use, or read from LOCAL_EMBED_MODEL_DIR for fully offline setups.
+ */
+
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import type { IEmbeddingProvider, EmbeddingProviderType } from './types.js';
+import { createLogger, getErrorMessage } from '../../utils/logger.js';
+
+const logger = createLogger('LocalEmbeddingProvider');
+
+/**
+ * Local (ONNX) Embedding Provider
+ */
+export class LocalEmbeddingProvider implements IEmbeddingProvider {
+  readonly name: EmbeddingProviderType = 'local';
+  readonly dimensions: number;
+  private embedModel: string;
+  private modelDir?: string;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+  private readonly BATCH_SIZE = 16;
+
+  constructor(embedModel: string = 'Xenova/bge-base-en-v1.5', dimensions = 768, modelDir?: string) {
+    this.embedModel = embedModel;
+    this.dimensions = dimensions;
+    this.modelDir = modelDir;
+  }
+
+  async embedText(text: string): Promise<number[]> {
+    if (!text || text.trim().length === 0) {
+      throw new Error('Cannot embed empty text');
+    }
+
+    const [embedding] = await this.embed([text]);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (!texts || texts.length === 0) {
+      return [];
+    }
+
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.BATCH_SIZE) {
+      embeddings.push(...(await this.embed(texts.slice(i, i + this.BATCH_SIZE))));
+    }
+    return embeddings;
+  }
+
+  private async embed(texts: string[]): Promise<number[][]> {
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    const embeddings = output.tolist() as number[][];
+
+    for (const embedding of embeddings) {
+      if (embedding.length !== this.dimensions) {
+        throw new Error(
+          `Embedding model ${this.embedModel} returned ${embedding.length} dimensions, expected ${this.dimensions}`
+        );
+      }
+    }
+    return embeddings;
+  }
+
+  /**
+   * Load the model once; a failed load is retried on the next call
+   */
+  private getExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      this.extractor = this.loadExtractor().catch((error) => {
+        this.extractor = null;
+        throw error;
+      });
+    }
+    return this.extractor;
+  }
+
+  private async loadExtractor(): Promise<FeatureExtractionPipeline> {
+    let transformers: typeof import('@huggingface/transformers');
+    try {
+      transformers = await import('@huggingface/transformers');
+    } catch (error) {
+      throw new Error(
+        `Local embeddings require the optional @huggingface/transformers package: ${getErrorMessage(error)}`
+      );
+    }
+
+    if (this.modelDir) {
+      transformers.env.localModelPath = this.modelDir;
+      transformers.env.allowRemoteModels = false;
+    }
+
+    // Narrowed to the one task we use: the full pipeline() union is too complex for tsc
+    const createPipeline = transformers.pipeline as (
+      task: 'feature-extraction',
+      model: string,
+      options: { dtype: 'fp32' }
+    ) => Promise<FeatureExtractionPipeline>;
+
+    logger.info(`Loading local embedding model ${this.embedModel}`);
+    return createPipeline('feature-extraction', this.embedModel, { dtype: 'fp32' });
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Ollama Provider Implementation
+ *
+ * Implements the unified LLM and embedding provider interfaces for a local or remote Ollama server.
+ */
+
+import type { z } from 'zod';
+import type {
+  ILLMProvider,
+  IEmbeddingProvider,
+  GenerationResult,
+  GenerateOptions,
+  StreamGenerateOptions,
+  ConversationMessage,
+  LLMProviderType,
+  EmbeddingProviderType,
+} from './types.js';
+import {
+  buildChatMessages,
+  parseJSONResponse,
+  readStreamLines,
+  JSON_ONLY_INSTRUCTION,
+} from './chat-utils.js';
+import { createLogger, getErrorMessage } from '../../utils/logger.js';
+
+const logger = createLogger('OllamaProvider');
+
+interface OllamaChatResponse {
+  model?: string;
+  message?: { content?: string };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Ollama LLM Provider (/api/chat)
+ */
+export class OllamaLLMProvider implements ILLMProvider {
+  readonly name: LLMProviderType = 'ollama';
+  private baseUrl: string;
+  private defaultModel: string;
+
+  constructor(baseUrl: string = 'http://localhost:11434', defaultModel: string = 'llama3') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.defaultModel = defaultModel;
+  }
+
+  async generateText(prompt: string, options?: GenerateOptions): Promise<GenerationResult> {
+    return this.chat(buildChatMessages(prompt, [], options?.systemPrompt), options);
+  }
+
+  async generateWithHistory(
+    prompt: string,
+    history: ConversationMessage[],
+    options?: GenerateOptions
+  ): Promise<GenerationResult> {
+    return this.chat(buildChatMessages(prompt, history, options?.systemPrompt), options);
+  }
+
+  async streamWithHistory(
+    prompt: string,
+    history: ConversationMessage[],
+    options: StreamGenerateOptions
+  ): Promise<GenerationResult> {
+    const model = options.model || this.defaultModel;
+
+    try {
+      const response = await this.request(
+        buildChatMessages(prompt, history, options.systemPrompt),
+        options,
+        { stream: true }
+      );
+      if (!response.body) {
+        throw new Error('response has no body');
+      }
+
+      // Newline-delimited JSON; the last object (done: true) carries the token counts
+      let text = '';
+      let final: OllamaChatResponse = {};
+      for await (const line of readStreamLines(response.body)) {
+        const data = JSON.parse(line) as OllamaChatResponse;
+        const chunk = data.message?.content;
+        if (chunk) {
+          text += chunk;
+          options.onToken(chunk);
+        }
+        if (data.done) final = data;
+      }
+      const tokensUsed = (final.prompt_eval_count ?? 0) + (final.eval_count ?? 0);
+
+      return {
+        text,
+        tokensUsed: tokensUsed || undefined,
+        inputTokens: final.prompt_eval_count,
+        outputTokens: final.eval_count,
+        finishReason: final.done_reason,
+        model: final.model || model,
+      };
+    } catch (error) {
+      logger.error('Streamed generation failed:', getErrorMessage(error));
+      throw new Error(`Ollama generation failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  async generateStructured<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    options?: GenerateOptions
+  ): Promise<T> {
+    const result = await this.chat(
+      buildChatMessages(`${prompt}\n\n${JSON_ONLY_INSTRUCTION}`, [], options?.systemPrompt),
+      { temperature: 0.1, maxTokens: 4096, ...options },
+      true
+    );
+    options?.onResult?.(result);
+    return parseJSONResponse(result.text, schema);
+  }
+
+  private async chat(
+    messages: ConversationMessage[],
+    options?: GenerateOptions,
+    json = false
+  ): Promise<GenerationResult> {
+    const model = options?.model || this.defaultModel;
+
+    try {
+      const response = await this.request(messages, options, { json });
+      const data = (await response.json()) as OllamaChatResponse;
+      const tokensUsed = (data.prompt_eval_count ?? 0) + (data.eval_count ?? 0);
+
+      return {
+        text: data.message?.content ?? '',
+        tokensUsed: tokensUsed || undefined,
+        inputTokens: data.prompt_eval_count,
+        outputTokens: data.eval_count,
+        finishReason: data.done_reason,
+        model: data.model || model,
+      };
+    } catch (error) {
+      logger.error('Generation failed:', getErrorMessage(error));
+      throw new Error(`Ollama generation failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  private async request(
+    messages: ConversationMessage[],
+    options: (GenerateOptions & { signal?: AbortSignal }) | undefined,
+    { json = false, stream = false }: { json?: boolean; stream?: boolean }
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: options?.model || this.defaultModel,
+        messages,
+        stream,
+        ...(json && { format: 'json' }),
+        options: { temperature: options?.temperature, num_predict: options?.maxTokens },
+      }),
+      signal: options?.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`request failed (${response.status}): ${await response.text()}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * Ollama Embedding Provider
+ */
+export class OllamaEmbeddingProvider implements IEmbeddingProvider {
+  readonly name: EmbeddingProviderType = 'ollama';
+  readonly dimensions: number;
+  private baseUrl: string;
+  private embedModel: string;
+
+  constructor(
+    baseUrl: string = 'http://localhost:11434',
+    embedModel: string = 'nomic-embed-text',
+    dimensions = 768
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.embedModel = embedModel;
+    this.dimensions = dimensions;
+  }
+
+  async embedText(text: string): Promise<number[]> {
+    if (!text || text.trim().length === 0) {
+      throw new Error('Cannot embed empty text');
+    }
+
+    const [embedding] = await this.embed([text]);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (!texts || texts.length === 0) {
+      return [];
+    }
+
+    return this.embed(texts);
+  }
+
+  private async embed(input: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.embedModel, input }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Ollama embedding request failed (${response.status}): ${await response.text()}`
+      );
+    }
+
+    const { embeddings } = (await response.json()) as { embeddings?: number[][] };
+    if (!embeddings || embeddings.length !== input.length) {
+      throw new Error('Invalid embedding response from Ollama');
+    }
+    for (const embedding of embeddings) {
+      if (embedding.length !== this.dimensions) {
+        throw new Error(
+          `Embedding model ${this.embedModel} returned ${embedding.length} dimensions, expected ${this.dimensions}`
+        );
+      }
+    }
+
+    logger.debug(`Generated ${embeddings.length} embeddings with ${this.embedModel}`);
+    return embeddings;
+  }
+}
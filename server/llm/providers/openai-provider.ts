@@ -0,0 +1,216 @@
+/**
+ * OpenAI Provider Implementation
+ *
+ * Implements the unified LLM and embedding provider interfaces for the OpenAI API and
+ * OpenAI-compatible servers (vLLM, llama.cpp server, LocalAI, LM Studio, ...) via OPENAI_API_BASE.
+ */
+
+import OpenAI from 'openai';
+import type { z } from 'zod';
+import type {
+  ILLMProvider,
+  IEmbeddingProvider,
+  GenerationResult,
+  GenerateOptions,
+  StreamGenerateOptions,
+  ConversationMessage,
+  LLMProviderType,
+  EmbeddingProviderType,
+} from './types.js';
+import { buildChatMessages, parseJSONResponse, JSON_ONLY_INSTRUCTION } from './chat-utils.js';
+import { createLogger, getErrorMessage } from '../../utils/logger.js';
+
+const logger = createLogger('OpenAIProvider');
+
+/**
+ * OpenAI LLM Provider (chat completions)
+ */
+export class OpenAILLMProvider implements ILLMProvider {
+  readonly name: LLMProviderType = 'openai';
+  private client: OpenAI;
+  private defaultModel: string;
+
+  constructor(
+    apiKey: string | undefined,
+    defaultModel: string = 'gpt-4-turbo-preview',
+    baseUrl?: string
+  ) {
+    // Self-hosted OpenAI-compatible servers usually don't check the key
+    if (!apiKey && !baseUrl) {
+      throw new Error('OpenAI API key is required');
+    }
+    this.client = new OpenAI({ apiKey: apiKey || 'unused', baseURL: baseUrl, maxRetries: 3 });
+    this.defaultModel = defaultModel;
+  }
+
+  async generateText(prompt: string, options?: GenerateOptions): Promise<GenerationResult> {
+    return this.chat(buildChatMessages(prompt, [], options?.systemPrompt), options);
+  }
+
+  async generateWithHistory(
+    prompt: string,
+    history: ConversationMessage[],
+    options?: GenerateOptions
+  ): Promise<GenerationResult> {
+    return this.chat(buildChatMessages(prompt, history, options?.systemPrompt), options);
+  }
+
+  async streamWithHistory(
+    prompt: string,
+    history: ConversationMessage[],
+    options: StreamGenerateOptions
+  ): Promise<GenerationResult> {
+    const model = options.model || this.defaultModel;
+
+    try {
+      const stream = await this.client.chat.completions.create(
+        {
+          model,
+          messages: buildChatMessages(prompt, history, options.systemPrompt),
+          temperature: options.temperature,
+          max_tokens: options.maxTokens,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: options.signal }
+      );
+
+      const result: GenerationResult = { text: '', model };
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          result.text += delta;
+          options.onToken(delta);
+        }
+        if (choice?.finish_reason) result.finishReason = choice.finish_reason;
+        if (chunk.model) result.model = chunk.model;
+        // Usage arrives in a final chunk without choices
+        if (chunk.usage) {
+          result.tokensUsed = chunk.usage.total_tokens;
+          result.inputTokens = chunk.usage.prompt_tokens;
+          result.outputTokens = chunk.usage.completion_tokens;
+        }
+      }
+      return result;
+    } catch (error) {
+      logger.error('Streamed generation failed:', getErrorMessage(error));
+      throw new Error(`OpenAI generation failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  async generateStructured<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    options?: GenerateOptions
+  ): Promise<T> {
+    const result = await this.chat(
+      buildChatMessages(`${prompt}\n\n${JSON_ONLY_INSTRUCTION}`, [], options?.systemPrompt),
+      { temperature: 0.1, maxTokens: 4096, ...options },
+      true
+    );
+    options?.onResult?.(result);
+    return parseJSONResponse(result.text, schema);
+  }
+
+  private async chat(
+    messages: ConversationMessage[],
+    options?: GenerateOptions,
+    json = false
+  ): Promise<GenerationResult> {
+    const model = options?.model || this.defaultModel;
+
+    try {
+      const completion = await this.client.chat.completions.create({
+        model,
+        messages,
+        temperature: options?.temperature,
+        max_tokens: options?.maxTokens,
+        ...(json && { response_format: { type: 'json_object' as const } }),
+      });
+      const choice = completion.choices[0];
+
+      return {
+        text: choice?.message?.content ?? '',
+        tokensUsed: completion.usage?.total_tokens,
+        inputTokens: completion.usage?.prompt_tokens,
+        outputTokens: completion.usage?.completion_tokens,
+        finishReason: choice?.finish_reason,
+        model: completion.model || model,
+      };
+    } catch (error) {
+      logger.error('Generation failed:', getErrorMessage(error));
+      throw new Error(`OpenAI generation failed: ${getErrorMessage(error)}`);
+    }
+  }
+}
+
+/**
+ * OpenAI Embedding Provider
+ */
+export class OpenAIEmbeddingProvider implements IEmbeddingProvider {
+  readonly name: EmbeddingProviderType = 'openai';
+  readonly dimensions: number;
+  private client: OpenAI;
+  private embedModel: string;
+  private readonly BATCH_SIZE = 100;
+
+  constructor(
+    apiKey: string,
+    embedModel: string = 'text-embedding-3-small',
+    dimensions = 768,
+    baseUrl?: string
+  ) {
+    if (!apiKey) {
+      throw new Error('OpenAI API key is required');
+    }
+    this.client = new OpenAI({ apiKey, baseURL: baseUrl, maxRetries: 3 });
+    this.embedModel = embedModel;
+    this.dimensions = dimensions;
+  }
+
+  async embedText(text: string): Promise<number[]> {
+    if (!text || text.trim().length === 0) {
+      throw new Error('Cannot embed empty text');
+    }
+
+    const [embedding] = await this.embed([text]);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (!texts || texts.length === 0) {
+      return [];
+    }
+
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.BATCH_SIZE) {
+      embeddings.push(...(await this.embed(texts.slice(i, i + this.BATCH_SIZE))));
+    }
+    return embeddings;
+  }
+
+  private async embed(input: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.embedModel,
+      input,
+      encoding_format: 'float',
+      // Only the text-embedding-3 models can shorten their vectors
+      ...(this.embedModel.startsWith('text-embedding-3') && { dimensions: this.dimensions }),
+    });
+
+    const embeddings = [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+    for (const embedding of embeddings) {
+      if (embedding.length !== this.dimensions) {
+        throw new Error(
+          `Embedding model ${this.embedModel} returned ${embedding.length} dimensions, expected ${this.dimensions}`
+        );
+      }
+    }
+
+    logger.debug(`Generated ${embeddings.length} embeddings with ${this.embedModel}`);
+    return embeddings;
+  }
+}
@@ -10,7 +10,13 @@ import type { z } from 'zod';
 /**
  * Supported LLM providers
  */
-export type LLMProviderType = 'gemini' | 'openai' | 'anthropic' | 'ollama';
+export const LLM_PROVIDER_TYPES = ['gemini', 'openai', 'anthropic', 'ollama'] as const;
+export type LLMProviderType = (typeof LLM_PROVIDER_TYPES)[number];
+
+/**
+ * Supported embedding providers ('local' runs an ONNX model in-process, without any API)
+ */
+export type EmbeddingProviderType = 'gemini' | 'openai' | 'ollama' | 'local';
 
 /**
  * Result from text generation
@@ -18,6 +24,8 @@ export type LLMProviderType = 'gemini' | 'openai' | 'anthropic' | 'ollama';
 export interface GenerationResult {
   text: string;
   tokensUsed?: number;
+  inputTokens?: number;
+  outputTokens?: number;
   finishReason?: string;
   model?: string;
 }
@@ -30,6 +38,17 @@ export interface GenerateOptions {
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  // Receives the raw result of generateStructured, which only returns the parsed value
+  onResult?: (result: GenerationResult) => void;
+}
+
+/**
+ * Options for streamed generation
+ */
+export interface StreamGenerateOptions extends GenerateOptions {
+  // Called with each chunk of text as it arrives
+  onToken: (text: string) => void;
+  signal?: AbortSignal;
 }
 
 /**
@@ -72,6 +91,16 @@ export interface ILLMProvider {
     options?: GenerateOptions
   ): Promise<GenerationResult>;
 
+  /**
+   * Generate text with conversation history, streaming chunks to options.onToken.
+   * Resolves with the full result once the response is complete
+   */
+  streamWithHistory(
+    prompt: string,
+    history: ConversationMessage[],
+    options: StreamGenerateOptions
+  ): Promise<GenerationResult>;
+
   /**
    * Generate structured output with schema validation
    * Falls back to generateText + JSON parsing if not natively supported
@@ -90,7 +119,7 @@ export interface IEmbeddingProvider {
   /**
    * Provider identifier
    */
-  readonly name: LLMProviderType;
+  readonly name: EmbeddingProviderType;
 
   /**
    * Embedding model dimensions
@@ -119,18 +148,35 @@ export interface LLMProviderConfig {
   embeddingModel?: string;
 }
 
+/**
+ * Configuration for embedding providers
+ */
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderType | LLMProviderType; // 'anthropic' has no embedding API
+  apiKey?: string;
+  baseUrl?: string;
+  embeddingModel?: string;
+  dimensions: number; // Must match the instance's stored vectors
+  modelDir?: string; // Local provider: directory of pre-downloaded models (no network access)
+}
+
 /**
  * Get provider configuration from environment variables
+ * LLM_PROVIDER selects the provider; pass a provider to get its defaults instead. LLM_MODEL
+ * only applies to the LLM_PROVIDER provider.
  */
-export function getProviderConfigFromEnv(): LLMProviderConfig {
-  const provider = (process.env.LLM_PROVIDER || 'gemini') as LLMProviderType;
+export function getProviderConfigFromEnv(
+  provider: LLMProviderType = (process.env.LLM_PROVIDER || 'gemini') as LLMProviderType
+): LLMProviderConfig {
+  const llmModel =
+    provider === (process.env.LLM_PROVIDER || 'gemini') ? process.env.LLM_MODEL : undefined;
 
   switch (provider) {
     case 'gemini':
       return {
         provider: 'gemini',
         apiKey: process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_API_KEY,
-        defaultModel: process.env.LLM_MODEL || 'gemini-2.5-flash',
+        defaultModel: llmModel || 'gemini-2.5-flash',
         embeddingModel: process.env.GEMINI_EMBED_MODEL || 'text-embedding-004',
       };
 
@@ -139,7 +185,7 @@ export function getProviderConfigFromEnv(): LLMProviderConfig {
         provider: 'openai',
         apiKey: process.env.OPENAI_API_KEY,
         baseUrl: process.env.OPENAI_API_BASE,
-        defaultModel: process.env.LLM_MODEL || 'gpt-4-turbo-preview',
+        defaultModel: llmModel || 'gpt-4-turbo-preview',
         embeddingModel: process.env.OPENAI_EMBED_MODEL || 'text-embedding-3-small',
       };
 
@@ -147,14 +193,15 @@ export function getProviderConfigFromEnv(): LLMProviderConfig {
       return {
         provider: 'anthropic',
         apiKey: process.env.ANTHROPIC_API_KEY,
-        defaultModel: process.env.LLM_MODEL || 'claude-3-sonnet-20240229',
+        baseUrl: process.env.ANTHROPIC_API_BASE,
+        defaultModel: llmModel || 'claude-3-sonnet-20240229',
       };
 
     case 'ollama':
       return {
         provider: 'ollama',
         baseUrl: process.env.OLLAMA_API_BASE || 'http://localhost:11434',
-        defaultModel: process.env.LLM_MODEL || 'llama3',
+        defaultModel: llmModel || 'llama3',
         embeddingModel: process.env.OLLAMA_EMBED_MODEL || 'nomic-embed-text',
       };
 
@@ -162,3 +209,57 @@ export function getProviderConfigFromEnv(): LLMProviderConfig {
       throw new Error(`Unknown LLM provider: ${provider}`);
   }
 }
+
+/**
+ * Get embedding provider configuration from environment variables
+ * EMBEDDING_PROVIDER selects the provider (default: LLM_PROVIDER); pass a provider to get its defaults.
+ */
+export function getEmbeddingConfigFromEnv(
+  provider: EmbeddingProviderConfig['provider'] = (process.env.EMBEDDING_PROVIDER ||
+    process.env.LLM_PROVIDER ||
+    'gemini') as EmbeddingProviderConfig['provider']
+): EmbeddingProviderConfig {
+  const dimensions = parseInt(process.env.EMBEDDING_DIMENSIONS || '768', 10);
+
+  switch (provider) {
+    case 'gemini':
+      return {
+        provider: 'gemini',
+        apiKey: process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_API_KEY,
+        embeddingModel: process.env.GEMINI_EMBED_MODEL || 'gemini-embedding-001',
+        dimensions: parseInt(
+          process.env.EMBEDDING_DIMENSIONS || process.env.GEMINI_EMBED_DIMENSIONS || '768',
+          10
+        ),
+      };
+
+    case 'openai':
+      return {
+        provider: 'openai',
+        apiKey: process.env.OPENAI_API_KEY,
+        baseUrl: process.env.OPENAI_API_BASE,
+        embeddingModel: process.env.OPENAI_EMBED_MODEL || 'text-embedding-3-small',
+        dimensions,
+      };
+
+    case 'ollama':
+      return {
+        provider: 'ollama',
+        baseUrl: process.env.OLLAMA_API_BASE || 'http://localhost:11434',
+        embeddingModel: process.env.OLLAMA_EMBED_MODEL || 'nomic-embed-text',
+        dimensions,
+      };
+
+    case 'local':
+      return {
+        provider: 'local',
+        embeddingModel: process.env.LOCAL_EMBED_MODEL || 'Xenova/bge-base-en-v1.5',
+        modelDir: process.env.LOCAL_EMBED_MODEL_DIR,
+        dimensions,
+      };
+
+    default:
+      // Rejected by createEmbeddingProvider
+      return { provider, dimensions };
+  }
+}
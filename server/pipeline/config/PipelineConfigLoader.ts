@@ -8,17 +8,29 @@
 
  * @created 2025-12-30
  * @updated 2026-01-07 - Added S3 storage support
+ * @updated 2026-10-19 - Validate per-step LLM provider settings
+ * @updated 2026-10-19 - Validate LLM fallback chains and circuit breaker settings
  */
 
 import fs from 'fs/promises';
 import path from 'path';
 import { z } from 'zod';
 import { StepType, type PipelineConfig } from '../core/interfaces.js';
+import { LLM_PROVIDER_TYPES } from '../../llm/providers/types.js';
 import { createLogger } from '../../utils/logger.js';
 import { s3Storage } from '../../storage/s3-client.js';
 
 const logger = createLogger('PipelineConfigLoader');
 
+/**
+ * Zod schema for a fallback model of a step
+ */
+const LLMFallbackTargetSchema = z.object({
+  provider: z.enum(LLM_PROVIDER_TYPES).optional(),
+  model: z.string().min(1),
+  baseUrl: z.string().url().optional(),
+});
+
 /**
  * Zod schema for step configuration
  */
@@ -26,7 +38,14 @@ const StepConfigSchema = z.object({
   stepId: z.string().min(1),
   stepType: z.nativeEnum(StepType),
   enabled: z.boolean(),
-  config: z.record(z.unknown()),
+  // Step-specific settings; `provider`/`baseUrl` pick the LLM for this step, `fallback` lists alternatives
+  config: z
+    .object({
+      provider: z.enum(LLM_PROVIDER_TYPES).optional(),
+      baseUrl: z.string().url().optional(),
+      fallback: z.array(LLMFallbackTargetSchema).optional(),
+    })
+    .catchall(z.unknown()),
 });
 
 /**
@@ -36,6 +55,12 @@ const ErrorHandlingConfigSchema = z.object({
   stopOnError: z.boolean(),
   retryAttempts: z.number().min(0).max(10),
   retryDelayMs: z.number().min(0),
+  circuitBreaker: z
+    .object({
+      failureThreshold: z.number().int().min(1),
+      cooldownMs: z.number().min(0),
+    })
+    .optional(),
 });
 
 /**
@@ -115,6 +140,16 @@ const DEFAULT_PIPELINE_CONFIG: PipelineConfig = {
         caseSensitive: false,
       },
     },
+    {
+      stepId: 'conversation-threading',
+      stepType: StepType.THREAD,
+      enabled: true,
+      config: {
+        conversationTimeWindowMinutes: 15,
+        minConversationGapMinutes: 5,
+        maxConversationSize: 20,
+      },
+    },
     {
       stepId: 'batch-classify',
       stepType: StepType.CLASSIFY,
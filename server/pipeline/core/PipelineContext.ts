@@ -5,11 +5,13 @@
  *
 
  * @created 2025-12-30
+ * @updated 2026-10-19 - Step checkpoints for resumable runs
  */
 
 import type { PrismaClient } from '@prisma/client';
 import type {
   PipelineContext,
+  PipelineCheckpoint,
   PipelineMetrics,
   IDomainConfig,
   IPromptRegistry,
@@ -104,6 +106,54 @@ export function clonePipelineContext(context: PipelineContext): PipelineContext
   };
 }
 
+/**
+ * Captures the context's intermediate state after a step
+ */
+export function createCheckpoint(stepId: string, context: PipelineContext): PipelineCheckpoint {
+  return {
+    stepId,
+    messageIds: context.messages.map((m) => m.id),
+    filteredMessages: context.filteredMessages.map((m) => ({
+      id: m.id,
+      conversationId: m.conversationId,
+    })),
+    threads: context.threads,
+    ragResults: Object.fromEntries(context.ragResults),
+    proposals: Object.fromEntries(context.proposals),
+  };
+}
+
+/**
+ * Whether a checkpoint was taken for the same input messages as the context
+ */
+export function checkpointMatches(
+  checkpoint: PipelineCheckpoint,
+  messages: UnifiedMessage[]
+): boolean {
+  return (
+    checkpoint.messageIds.length === messages.length &&
+    checkpoint.messageIds.every((id, index) => messages[index].id === id)
+  );
+}
+
+/**
+ * Restores a checkpoint's intermediate state into a context built for the same messages
+ */
+export function restoreCheckpoint(checkpoint: PipelineCheckpoint, context: PipelineContext): void {
+  const messagesById = new Map(context.messages.map((m) => [m.id, m]));
+
+  context.filteredMessages = checkpoint.filteredMessages
+    .filter((entry) => messagesById.has(entry.id))
+    .map((entry) => {
+      const message = messagesById.get(entry.id)!;
+      message.conversationId = entry.conversationId;
+      return message;
+    });
+  context.threads = checkpoint.threads;
+  context.ragResults = new Map(Object.entries(checkpoint.ragResults));
+  context.proposals = new Map(Object.entries(checkpoint.proposals));
+}
+
 /**
  * Serializes metrics for logging/storage
  */
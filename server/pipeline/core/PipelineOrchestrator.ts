@@ -8,6 +8,12 @@
 
  * @created 2025-12-30
  * @updated 2026-01-19 - Added PipelineRunLog integration
+ * @updated 2026-10-19 - Per-step LLM provider selection (config.provider / config.baseUrl)
+ * @updated 2026-10-19 - Per-step LLM fallback chains (config.fallback) with circuit breaking
+ * @updated 2026-10-19 - LLM usage accounting per step and budget model override
+ * @updated 2026-10-19 - Step checkpoints: resume failed runs and re-run single threads
+ * @updated 2026-10-19 - Keep the checkpoint at the last step before the first failure
+ * @updated 2026-10-19 - Meter each fallback candidate, so billed failures are recorded
  */
 
 import type {
@@ -15,19 +21,54 @@ import type {
   PipelineContext,
   PipelineConfig,
   PipelineResult,
+  PipelineCheckpoint,
+  PipelineExecuteOptions,
   PipelineMetrics,
   PipelineError,
   IPipelineStep,
   ILLMHandler,
+  StepConfig,
   StepPromptLogEntry,
+  StepLLMRouting,
+  LLMFallbackTarget,
+  LLMContext,
+  LLMResponse,
 } from './interfaces.js';
 import type { Prisma } from '@prisma/client';
 import { createLogger, getErrorMessage } from '../../utils/logger.js';
-import { createInitialMetrics, serializeMetrics } from './PipelineContext.js';
+import {
+  createInitialMetrics,
+  serializeMetrics,
+  createCheckpoint,
+  checkpointMatches,
+  restoreCheckpoint,
+} from './PipelineContext.js';
 import { StepFactory, getStepFactory } from './StepFactory.js';
+import { getLLMHandler, type LLMHandlerOptions } from '../handlers/LLMHandlerFactory.js';
+import { FallbackLLMHandler } from '../handlers/FallbackLLMHandler.js';
+import { MeteredLLMHandler } from '../handlers/MeteredLLMHandler.js';
+import { LLMUsageService } from '../../llm/llm-usage.js';
+import type { LLMProviderType } from '../../llm/providers/types.js';
 
 const logger = createLogger('PipelineOrchestrator');
 
+// Steps that work thread by thread, and so can re-run for a single thread
+const THREAD_STEP_TYPES = new Set([
+  'enrich',
+  'context-enrich',
+  'generate',
+  'ruleset-review',
+  'validate',
+  'condense',
+]);
+
+export class PipelineResumeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipelineResumeError';
+  }
+}
+
 /**
  * Step execution log entry for PipelineRunLog
  */
@@ -48,6 +89,8 @@ interface StepLogEntry {
   llmResponse?: string;
   // Multi-entry prompt/query log (new format)
   promptEntries?: StepPromptLogEntry[];
+  // Models that served the step's LLM calls, for steps with a fallback chain
+  llmRouting?: StepLLMRouting;
 }
 
 /**
@@ -58,23 +101,44 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
   private stepFactory: StepFactory;
   private llmHandler: ILLMHandler;
   private enableRunLogging: boolean;
+  private stepRouters = new Map<string, FallbackLLMHandler>();
+  private resolveLLMHandler: (
+    provider: LLMProviderType | undefined,
+    options: LLMHandlerOptions
+  ) => ILLMHandler;
+  private llmOverride?: LLMFallbackTarget;
 
   constructor(
     config: PipelineConfig,
     llmHandler: ILLMHandler,
     stepFactory?: StepFactory,
-    options?: { enableRunLogging?: boolean }
+    options?: {
+      enableRunLogging?: boolean;
+      // Resolves handlers for steps that pick their own provider (default: shared handlers from env)
+      resolveLLMHandler?: (
+        provider: LLMProviderType | undefined,
+        options: LLMHandlerOptions
+      ) => ILLMHandler;
+      // Serve every step's LLM calls with this model instead (e.g. once the LLM budget is used up)
+      llmOverride?: LLMFallbackTarget;
+    }
   ) {
     this.config = config;
     this.llmHandler = llmHandler;
     this.stepFactory = stepFactory || getStepFactory();
     this.enableRunLogging = options?.enableRunLogging ?? true;
+    this.resolveLLMHandler = options?.resolveLLMHandler ?? getLLMHandler;
+    this.llmOverride = options?.llmOverride;
   }
 
   /**
-   * Execute pipeline with given context
+   * Execute pipeline with given context, optionally continuing from an earlier run's checkpoint
+   * (all remaining steps, or only one thread's steps when options.threadId is set)
    */
-  async execute(context: PipelineContext): Promise<PipelineResult> {
+  async execute(
+    context: PipelineContext,
+    options?: PipelineExecuteOptions
+  ): Promise<PipelineResult> {
     const startTime = Date.now();
     const errors: PipelineError[] = [];
     const stepLogs: StepLogEntry[] = [];
@@ -85,8 +149,64 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
       batchId: context.batchId,
       pipelineId: this.config.pipelineId,
       messageCount: context.messages.length,
+      resumeRunId: options?.resumeRunId,
+      threadId: options?.threadId,
     });
 
+    // Load the checkpoint to continue from before starting a new run
+    const resumeFrom =
+      options?.resumeRunId !== undefined
+        ? await this.loadCheckpoint(context, options.resumeRunId)
+        : null;
+
+    // Create steps from configuration
+    const allSteps = this.createSteps(context);
+    let steps = allSteps;
+
+    // State of the last completed step, saved to the run log so the run can be resumed. It stops
+    // advancing at the first failed step, so resuming re-runs that step.
+    let checkpoint: PipelineCheckpoint | null = null;
+    // Rest of the batch while a single thread re-runs
+    let threadRerun: { threadId: string; base: PipelineCheckpoint } | null = null;
+
+    if (resumeFrom && options?.threadId) {
+      const thread = resumeFrom.threads.find((t) => t.id === options.threadId);
+      if (!thread) {
+        throw new PipelineResumeError(
+          `Thread ${options.threadId} not found in pipeline run ${options.resumeRunId}`
+        );
+      }
+      restoreCheckpoint(resumeFrom, context);
+      context.threads = [thread];
+      context.ragResults = new Map();
+      context.proposals = new Map();
+      threadRerun = { threadId: thread.id, base: resumeFrom };
+      steps = steps.filter((step) => THREAD_STEP_TYPES.has(step.stepType));
+      logger.info(`Re-running thread ${thread.id} from pipeline run ${options.resumeRunId}`);
+    } else if (resumeFrom) {
+      const resumeIndex = steps.findIndex((step) => step.stepId === resumeFrom.stepId);
+      if (resumeIndex === -1) {
+        throw new PipelineResumeError(
+          `Checkpointed step ${resumeFrom.stepId} is not an enabled step of pipeline ${this.config.pipelineId}`
+        );
+      }
+      restoreCheckpoint(resumeFrom, context);
+      checkpoint = resumeFrom;
+      for (const step of steps.slice(0, resumeIndex + 1)) {
+        stepLogs.push({
+          stepName: step.stepId,
+          stepType: step.stepType,
+          status: 'skipped',
+          durationMs: 0,
+          outputSummary: JSON.stringify({
+            note: `Restored from checkpoint of run ${options?.resumeRunId}`,
+          }),
+        });
+      }
+      steps = steps.slice(resumeIndex + 1);
+      logger.info(`Resuming pipeline run ${options?.resumeRunId} after step ${resumeFrom.stepId}`);
+    }
+
     // Create initial PipelineRunLog entry
     if (this.enableRunLogging && context.db) {
       try {
@@ -98,6 +218,7 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
             status: 'running',
             inputMessages: context.messages.length,
             steps: [],
+            resumedFromRunId: options?.resumeRunId,
           },
         });
         runLogId = runLog.id;
@@ -107,12 +228,9 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
       }
     }
 
-    // Create steps from configuration
-    const steps = this.createSteps();
-
-    if (steps.length === 0) {
+    if (allSteps.length === 0) {
       logger.warn('No enabled steps in pipeline configuration');
-      await this.updateRunLog(context, runLogId, 'completed', stepLogs, errors, startTime);
+      await this.updateRunLog(context, runLogId, 'completed', stepLogs, errors, startTime, null);
       return this.buildResult(context, errors, startTime);
     }
 
@@ -141,9 +259,20 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
           stepLog.durationMs = 0;
           stepLog.outputCount = 0;
           stepLogs.push(stepLog);
+          if (!threadRerun && errors.length === 0) {
+            checkpoint = createCheckpoint(step.stepId, context);
+          }
 
           // Update run log progressively so frontend can show step-by-step progress
-          await this.updateRunLog(context, runLogId, 'running', stepLogs, [], startTime);
+          await this.updateRunLog(
+            context,
+            runLogId,
+            'running',
+            stepLogs,
+            [],
+            startTime,
+            checkpoint
+          );
 
           logger.info(`Skipping step ${step.stepId}: no input to process`);
           continue;
@@ -159,6 +288,7 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
         stepLog.durationMs = stepDuration;
         stepLog.outputCount = this.getOutputCount(step.stepType, context);
         stepLog.status = 'completed';
+        this.recordLLMRouting(step.stepId, stepLog);
         stepLog.outputSummary = this.getOutputSummary(step.stepType, context);
 
         // Capture prompt/query logs from context (populated by LLM and RAG steps)
@@ -184,9 +314,12 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
         }
 
         stepLogs.push(stepLog);
+        if (!threadRerun && errors.length === 0) {
+          checkpoint = createCheckpoint(step.stepId, context);
+        }
 
         // Update run log progressively so frontend can show step-by-step progress
-        await this.updateRunLog(context, runLogId, 'running', stepLogs, [], startTime);
+        await this.updateRunLog(context, runLogId, 'running', stepLogs, [], startTime, checkpoint);
 
         logger.debug(`Step completed: ${step.stepId}`, {
           durationMs: stepDuration,
@@ -200,6 +333,7 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
         stepLog.durationMs = stepDuration;
         stepLog.status = 'failed';
         stepLog.error = getErrorMessage(error);
+        this.recordLLMRouting(step.stepId, stepLog);
 
         // Capture prompt/query logs even on failure (may have partial data)
         const promptEntries = context.stepPromptLogs.get(step.stepId);
@@ -218,7 +352,7 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
         stepLogs.push(stepLog);
 
         // Update run log progressively so frontend can show step-by-step progress
-        await this.updateRunLog(context, runLogId, 'running', stepLogs, [], startTime);
+        await this.updateRunLog(context, runLogId, 'running', stepLogs, [], startTime, checkpoint);
 
         const pipelineError: PipelineError = {
           stepId: step.stepId,
@@ -247,6 +381,13 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
       }
     }
 
+    // Put the re-run thread's results back together with the rest of the batch
+    if (threadRerun) {
+      this.mergeThreadResults(context, threadRerun.threadId, threadRerun.base);
+      checkpoint =
+        errors.length === 0 ? createCheckpoint(threadRerun.base.stepId, context) : threadRerun.base;
+    }
+
     // Calculate final metrics
     context.metrics.totalDurationMs = Date.now() - startTime;
 
@@ -259,7 +400,8 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
       result.success ? 'completed' : 'failed',
       stepLogs,
       errors,
-      startTime
+      startTime,
+      checkpoint
     );
 
     logger.info('Pipeline execution complete', {
@@ -283,7 +425,8 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
     status: string,
     stepLogs: StepLogEntry[],
     errors: PipelineError[],
-    startTime: number
+    startTime: number,
+    checkpoint: PipelineCheckpoint | null
   ): Promise<void> {
     if (!this.enableRunLogging || !context.db || !runLogId) {
       return;
@@ -305,7 +448,9 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
           totalDurationMs: Date.now() - startTime,
           llmCalls: context.metrics.llmCalls,
           llmTokensUsed: context.metrics.llmTokensUsed,
+          llmCostUsd: context.metrics.llmCostUSD,
           errorMessage: errors.length > 0 ? errors.map((e) => e.message).join('; ') : null,
+          checkpoint: checkpoint ? (checkpoint as unknown as Prisma.InputJsonValue) : undefined,
           completedAt: new Date(),
         },
       });
@@ -315,6 +460,60 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
     }
   }
 
+  /**
+   * Load the checkpoint of a run to continue from; it must come from this pipeline
+   * and cover the same input messages as the context
+   */
+  private async loadCheckpoint(
+    context: PipelineContext,
+    runLogId: number
+  ): Promise<PipelineCheckpoint> {
+    const run = await context.db.pipelineRunLog.findUnique({
+      where: { id: runLogId },
+      select: { pipelineId: true, checkpoint: true },
+    });
+    if (!run) {
+      throw new PipelineResumeError(`Pipeline run ${runLogId} not found`);
+    }
+    if (run.pipelineId !== this.config.pipelineId) {
+      throw new PipelineResumeError(
+        `Pipeline run ${runLogId} belongs to pipeline ${run.pipelineId}, not ${this.config.pipelineId}`
+      );
+    }
+
+    const checkpoint = run.checkpoint as unknown as PipelineCheckpoint | null;
+    if (!checkpoint) {
+      throw new PipelineResumeError(`Pipeline run ${runLogId} has no checkpoint`);
+    }
+    if (!checkpointMatches(checkpoint, context.messages)) {
+      throw new PipelineResumeError(
+        `Messages do not match the checkpoint of pipeline run ${runLogId}`
+      );
+    }
+    return checkpoint;
+  }
+
+  /**
+   * Replace a thread's RAG results and proposals in the checkpointed batch state
+   * with those of its re-run, leaving the result in the context
+   */
+  private mergeThreadResults(
+    context: PipelineContext,
+    threadId: string,
+    base: PipelineCheckpoint
+  ): void {
+    const ragResults = new Map(Object.entries(base.ragResults));
+    const proposals = new Map(Object.entries(base.proposals));
+    ragResults.delete(threadId);
+    proposals.delete(threadId);
+    context.ragResults.forEach((results, id) => ragResults.set(id, results));
+    context.proposals.forEach((threadProposals, id) => proposals.set(id, threadProposals));
+
+    context.threads = base.threads;
+    context.ragResults = ragResults;
+    context.proposals = proposals;
+  }
+
   /**
    * Get input count for a step type
    */
@@ -322,6 +521,7 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
     switch (stepType) {
       case 'filter':
         return context.messages.length;
+      case 'thread':
       case 'classify':
         return context.filteredMessages.length;
       case 'enrich':
@@ -345,6 +545,8 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
     switch (stepType) {
       case 'filter':
         return context.filteredMessages.length;
+      case 'thread':
+        return new Set(context.filteredMessages.map((m) => m.conversationId)).size;
       case 'classify':
         return context.threads.length;
       case 'enrich':
@@ -391,6 +593,24 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
           );
         }
 
+        case 'thread': {
+          const conversations: Record<string, number> = {};
+          for (const m of context.filteredMessages) {
+            const key = m.conversationId || '(none)';
+            conversations[key] = (conversations[key] || 0) + 1;
+          }
+          return truncate(
+            JSON.stringify(
+              {
+                totalConversations: Object.keys(conversations).length,
+                messagesPerConversation: conversations,
+              },
+              null,
+              2
+            )
+          );
+        }
+
         case 'classify': {
           const threads = context.threads.slice(0, 10).map((t) => ({
             id: t.id,
@@ -536,8 +756,9 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
   /**
    * Create pipeline steps from configuration
    */
-  private createSteps(): IPipelineStep[] {
+  private createSteps(context: PipelineContext): IPipelineStep[] {
     const steps: IPipelineStep[] = [];
+    this.stepRouters.clear();
 
     for (const stepConfig of this.config.steps) {
       if (!stepConfig.enabled) {
@@ -550,13 +771,136 @@ export class PipelineOrchestrator implements IPipelineOrchestrator {
         continue;
       }
 
-      const step = this.stepFactory.create(stepConfig, this.llmHandler);
+      const meter = (handler: ILLMHandler) =>
+        new MeteredLLMHandler(handler, (response, llmContext) =>
+          this.recordLLMUsage(context, stepConfig.stepId, handler.name, response, llmContext)
+        );
+      const step = this.stepFactory.create(stepConfig, this.getStepLLMHandler(stepConfig, meter));
       steps.push(step);
     }
 
     return steps;
   }
 
+  /**
+   * LLM handler for a step: its own provider when configured, else the pipeline's handler,
+   * wrapped in a fallback chain when the step lists fallback models. Each candidate is metered,
+   * so calls billed by a candidate that then failed are recorded too
+   */
+  private getStepLLMHandler(
+    stepConfig: StepConfig,
+    meter: (handler: ILLMHandler) => ILLMHandler
+  ): ILLMHandler {
+    if (this.llmOverride) {
+      return this.getOverrideLLMHandler(stepConfig.stepId, this.llmOverride, meter);
+    }
+
+    const { provider, baseUrl, fallback } = stepConfig.config as {
+      provider?: LLMProviderType;
+      baseUrl?: string;
+      fallback?: LLMFallbackTarget[];
+    };
+
+    let handler = this.llmHandler;
+    if (provider || baseUrl) {
+      logger.debug(`Step ${stepConfig.stepId} uses LLM provider ${provider || 'default'}`, {
+        baseUrl,
+      });
+      handler = this.resolveLLMHandler(provider, { baseUrl });
+    }
+    const metered = meter(handler);
+    if (!fallback || fallback.length === 0) {
+      return metered;
+    }
+
+    const router = new FallbackLLMHandler(
+      [
+        { handler: metered, baseUrl },
+        ...fallback.map((target) =>
+          // Without a provider the fallback is another model of the step's own provider
+          target.provider || target.baseUrl
+            ? {
+                handler: meter(
+                  this.resolveLLMHandler(target.provider ?? provider, {
+                    baseUrl: target.baseUrl,
+                  })
+                ),
+                model: target.model,
+                baseUrl: target.baseUrl,
+              }
+            : { handler: metered, model: target.model, baseUrl }
+        ),
+      ],
+      this.config.errorHandling.circuitBreaker
+    );
+    this.stepRouters.set(stepConfig.stepId, router);
+    return router;
+  }
+
+  /**
+   * LLM handler that serves a step's calls with the override model, whatever the step configures
+   */
+  private getOverrideLLMHandler(
+    stepId: string,
+    target: LLMFallbackTarget,
+    meter: (handler: ILLMHandler) => ILLMHandler
+  ): ILLMHandler {
+    const handler =
+      target.provider || target.baseUrl
+        ? this.resolveLLMHandler(target.provider, { baseUrl: target.baseUrl })
+        : this.llmHandler;
+    const router = new FallbackLLMHandler(
+      [{ handler: meter(handler), model: target.model, baseUrl: target.baseUrl }],
+      this.config.errorHandling.circuitBreaker
+    );
+    this.stepRouters.set(stepId, router);
+    return router;
+  }
+
+  /**
+   * Account for a billed LLM call: add its cost to the run metrics and record it
+   * for spend reports and budgets
+   */
+  private async recordLLMUsage(
+    context: PipelineContext,
+    stepId: string,
+    handlerName: string,
+    response: LLMResponse,
+    llmContext: LLMContext
+  ): Promise<void> {
+    const costUsd = response.costUSD ?? 0;
+    context.metrics.llmCostUSD += costUsd;
+
+    if (!context.db) {
+      return;
+    }
+
+    try {
+      await new LLMUsageService(context.db, context.instanceId).record({
+        batchId: context.batchId,
+        stepId,
+        purpose: llmContext.purpose,
+        provider: response.provider ?? handlerName,
+        model: response.model,
+        inputTokens: response.inputTokens ?? 0,
+        outputTokens: response.outputTokens ?? 0,
+        costUsd,
+      });
+    } catch (error) {
+      logger.warn('Failed to record LLM usage:', getErrorMessage(error));
+    }
+  }
+
+  /**
+   * Add the models that served a step's LLM calls to its run log entry
+   */
+  private recordLLMRouting(stepId: string, stepLog: StepLogEntry): void {
+    const router = this.stepRouters.get(stepId);
+    if (router) {
+      stepLog.llmRouting = router.getRouting();
+    }
+  }
+
   /**
    * Build pipeline result
    */
@@ -10,6 +10,7 @@
 
 import { StepType, type StepConfig, type IPipelineStep, type ILLMHandler } from './interfaces.js';
 import { KeywordFilterStep } from '../steps/filter/KeywordFilterStep.js';
+import { ConversationThreadingStep } from '../steps/thread/ConversationThreadingStep.js';
 import { BatchClassifyStep } from '../steps/classify/BatchClassifyStep.js';
 import { RagEnrichStep } from '../steps/enrich/RagEnrichStep.js';
 import { ContextEnrichmentStep } from '../steps/enrich/ContextEnrichmentStep.js';
@@ -43,6 +44,9 @@ export class StepFactory {
     // Filter steps
     this.register(StepType.FILTER, (config) => new KeywordFilterStep(config));
 
+    // Threading steps
+    this.register(StepType.THREAD, (config) => new ConversationThreadingStep(config));
+
     // Classify steps
     this.register(
       StepType.CLASSIFY,
@@ -10,6 +10,7 @@
 
 import type { z } from 'zod';
 import type { PrismaClient } from '@prisma/client';
+import type { LLMProviderType } from '../../llm/providers/types.js';
 
 // ============================================================================
 // Step Types
@@ -32,6 +33,8 @@ export enum StepType {
   CONTEXT_ENRICH = 'context-enrich',
   /** Applies tenant ruleset: rejection, modifications, quality gates */
   RULESET_REVIEW = 'ruleset-review',
+  /** Groups messages into conversations by reply links before classification */
+  THREAD = 'thread',
 }
 
 /**
@@ -131,8 +134,12 @@ export interface LLMContext {
 export interface LLMResponse {
   text: string;
   tokensUsed?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  costUSD?: number; // From the provider's reported usage and the model's pricing
   finishReason?: string;
   model: string;
+  provider?: string;
   cached?: boolean;
 }
 
@@ -365,9 +372,11 @@ export interface UnifiedMessage {
   author: string;
   authorId?: string;
   content: string;
-  conversationId?: string;
-  replyToId?: string;
+  channel?: string;
+  conversationId?: string; // Adapter conversation key (thread, topic); set for all messages by the threading step
+  replyToId?: string; // messageId of the message this one replies to
   processingStatus: string;
+  metadata?: Record<string, any>; // Adapter-specific metadata (e.g. isAcceptedAnswer, isMaintainer)
 }
 
 /**
@@ -386,14 +395,18 @@ export interface ConversationThread {
 }
 
 /**
- * RAG document from vector search
+ * RAG document from hybrid (vector + full-text) search
  */
 export interface RagDocument {
   id: number;
   filePath: string;
   title: string;
-  content: string;
+  content: string; // Matching section of the page
   similarity: number;
+  headingPath?: string; // e.g. "Setup > Linux"
+  startLine?: number;
+  endLine?: number;
+  lexicalRank?: number; // Rank among full-text matches, when the text matched
 }
 
 /**
@@ -407,6 +420,7 @@ export interface Proposal {
   reasoning: string;
   sourceMessages?: number[];
   warnings?: string[];
+  modelUsed?: string; // Model that generated the proposal (may be a fallback)
 }
 
 /**
@@ -436,7 +450,7 @@ export interface PipelineError {
  * RAG service interface for message vector search
  */
 export interface IRagService {
-  searchSimilarDocs(query: string, topK: number): Promise<RagDocument[]>;
+  searchSimilarDocs(query: string, topK: number, keywords?: string[]): Promise<RagDocument[]>;
 }
 
 /**
@@ -503,6 +517,19 @@ export interface PipelineContext {
   stepPromptLogs: Map<string, StepPromptLogEntry[]>;
 }
 
+/**
+ * Pipeline state saved to the run log after each step, so a failed run can resume
+ * from the failed step and a single thread can be re-run against the rest of the batch
+ */
+export interface PipelineCheckpoint {
+  stepId: string; // Last step that completed (or was skipped)
+  messageIds: number[]; // Input messages, in order (thread messageIds index into them)
+  filteredMessages: Array<{ id: number; conversationId?: string }>;
+  threads: ConversationThread[];
+  ragResults: Record<string, RagDocument[]>;
+  proposals: Record<string, Proposal[]>;
+}
+
 // ============================================================================
 // Pipeline Orchestrator Interface
 // ============================================================================
@@ -514,6 +541,35 @@ export interface ErrorHandlingConfig {
   stopOnError: boolean;
   retryAttempts: number;
   retryDelayMs: number;
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+/**
+ * Per-model circuit breaker: after `failureThreshold` consecutive failures a model is
+ * skipped for `cooldownMs`, then a single trial request decides whether it recovers
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+/**
+ * Alternative model for a step (`config.fallback`), tried in order when the
+ * step's own model fails or its circuit is open
+ */
+export interface LLMFallbackTarget {
+  provider?: LLMProviderType; // Default: the step's provider
+  model: string;
+  baseUrl?: string;
+}
+
+/**
+ * Which models served a step's LLM calls, recorded in PipelineRunLog.steps
+ */
+export interface StepLLMRouting {
+  models: Array<{ provider: string; model: string; calls: number }>;
+  // Candidates passed over, with the reason (circuit open or the error)
+  fallbacks: Array<{ provider: string; model: string; reason: string; count: number }>;
 }
 
 /**
@@ -549,6 +605,16 @@ export interface PipelineResult {
   metrics: PipelineMetrics;
 }
 
+/**
+ * Options for continuing from an earlier run's checkpoint
+ */
+export interface PipelineExecuteOptions {
+  // Run log whose checkpoint to restore; execution continues after the checkpointed step
+  resumeRunId?: number;
+  // With resumeRunId: re-run only this thread's steps, keeping the run's results for the others
+  threadId?: string;
+}
+
 /**
  * Factory for creating pipeline steps
  */
@@ -563,7 +629,7 @@ export interface IPipelineOrchestrator {
   /**
    * Execute pipeline with given context
    */
-  execute(context: PipelineContext): Promise<PipelineResult>;
+  execute(context: PipelineContext, options?: PipelineExecuteOptions): Promise<PipelineResult>;
 
   /**
    * Get pipeline configuration
@@ -0,0 +1,89 @@
+/**
+ * Anthropic LLM Handler
+ *
+ * Adapts the AnthropicLLMProvider to the pipeline's ILLMHandler interface.
+ *
+
+ * @created 2026-10-19
+ */
+
+import type { ModelInfo } from '../core/interfaces.js';
+import { AnthropicLLMProvider } from '../../llm/providers/anthropic-provider.js';
+import { ProviderHandler, type ModelCatalog, type ModelPricing } from './ProviderHandler.js';
+
+/**
+ * Model pricing (per 1K tokens)
+ */
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-3-haiku': { input: 0.00025, output: 0.00125 },
+  'claude-3-5-haiku': { input: 0.0008, output: 0.004 },
+  'claude-3-sonnet': { input: 0.003, output: 0.015 },
+  'claude-3-5-sonnet': { input: 0.003, output: 0.015 },
+  'claude-3-7-sonnet': { input: 0.003, output: 0.015 },
+  'claude-sonnet-4': { input: 0.003, output: 0.015 },
+  'claude-3-opus': { input: 0.015, output: 0.075 },
+  'claude-opus-4': { input: 0.015, output: 0.075 },
+};
+
+/**
+ * Output limits per model; all current models have a 200K context window
+ */
+const MAX_OUTPUT_TOKENS: Record<string, number> = {
+  'claude-3-haiku': 4096,
+  'claude-3-5-haiku': 8192,
+  'claude-3-sonnet': 4096,
+  'claude-3-5-sonnet': 8192,
+  'claude-3-7-sonnet': 64000,
+  'claude-sonnet-4': 64000,
+  'claude-3-opus': 4096,
+  'claude-opus-4': 32000,
+};
+
+const MODEL_INFO: Record<string, ModelInfo> = Object.fromEntries(
+  Object.entries(MAX_OUTPUT_TOKENS).map(([model, maxOutputTokens]) => [
+    model,
+    {
+      provider: 'anthropic',
+      maxInputTokens: 200000,
+      maxOutputTokens,
+      supportsFunctionCalling: true,
+      supportsStreaming: true,
+    },
+  ])
+);
+
+/**
+ * Default model info for unknown models
+ */
+const DEFAULT_MODEL_INFO: ModelInfo = {
+  provider: 'anthropic',
+  maxInputTokens: 200000,
+  maxOutputTokens: 4096,
+  supportsFunctionCalling: true,
+  supportsStreaming: true,
+};
+
+/**
+ * Pricing and capabilities of the Anthropic models
+ */
+export const ANTHROPIC_MODEL_CATALOG: ModelCatalog = {
+  pricing: MODEL_PRICING,
+  info: MODEL_INFO,
+  defaultPricing: { input: 0.003, output: 0.015 },
+  defaultInfo: DEFAULT_MODEL_INFO,
+};
+
+/**
+ * Anthropic LLM Handler implementation
+ */
+export class AnthropicHandler extends ProviderHandler {
+  readonly name = 'anthropic';
+
+  constructor(apiKey: string, defaultModel: string = 'claude-3-5-haiku-latest', baseUrl?: string) {
+    super(
+      new AnthropicLLMProvider(apiKey, defaultModel, baseUrl),
+      defaultModel,
+      ANTHROPIC_MODEL_CATALOG
+    );
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * LLM Circuit Breaker
+ *
+ * Tracks consecutive failures per model endpoint so fallback chains can skip
+ * unhealthy ones. Breakers are shared process-wide, so an outage seen by one
+ * batch or instance is respected by the next.
+ *
+
+ * @created 2026-10-19
+ */
+
+import type { CircuitBreakerConfig } from '../core/interfaces.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 3,
+  cooldownMs: 60000,
+};
+
+/**
+ * Circuit breaker for one model endpoint
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    readonly key: string,
+    private config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG,
+    private now: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return this.now() - this.openedAt >= this.config.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether a request may go through; a half-open circuit lets one trial request through
+   */
+  canRequest(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half-open':
+        if (this.trialInFlight) {
+          return false;
+        }
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    const failedTrial = this.state === 'half-open';
+    this.failures++;
+    this.trialInFlight = false;
+    if (failedTrial || this.failures >= this.config.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Shared breaker for a model endpoint (the config of its first use applies)
+ */
+export function getCircuitBreaker(key: string, config?: CircuitBreakerConfig): CircuitBreaker {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(key, config);
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Forget all breakers (useful for testing)
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
@@ -0,0 +1,165 @@
+/**
+ * Fallback LLM Handler
+ *
+ * Routes a step's LLM calls through an ordered list of provider/model candidates.
+ * Candidates whose circuit is open are skipped; a failing candidate hands the
+ * request to the next one, so a single provider outage degrades quality instead
+ * of halting the pipeline. Records which models served the calls.
+ *
+
+ * @created 2026-10-19
+ */
+
+import type { z } from 'zod';
+import type {
+  ILLMHandler,
+  LLMRequest,
+  LLMContext,
+  LLMResponse,
+  ModelInfo,
+  CostEstimate,
+  CircuitBreakerConfig,
+  StepLLMRouting,
+} from '../core/interfaces.js';
+import { getCircuitBreaker, DEFAULT_CIRCUIT_BREAKER_CONFIG } from './CircuitBreaker.js';
+import { createLogger, getErrorMessage } from '../../utils/logger.js';
+
+const logger = createLogger('FallbackLLMHandler');
+
+const MAX_REASON_LENGTH = 200;
+
+/**
+ * One entry of a fallback chain; without a model the request's model is used
+ */
+export interface FallbackCandidate {
+  handler: ILLMHandler;
+  model?: string;
+  baseUrl?: string;
+}
+
+export class AllLLMCandidatesFailedError extends Error {
+  constructor(attempts: string[]) {
+    super(`All LLM candidates failed or are unavailable: ${attempts.join('; ')}`);
+    this.name = 'AllLLMCandidatesFailedError';
+  }
+}
+
+/**
+ * LLM handler that falls back across candidates, guarded by per-model circuit breakers
+ */
+export class FallbackLLMHandler implements ILLMHandler {
+  private candidates: FallbackCandidate[];
+  private circuitBreaker: CircuitBreakerConfig;
+  private modelCalls = new Map<string, { provider: string; model: string; calls: number }>();
+  private fallbacks = new Map<
+    string,
+    { provider: string; model: string; reason: string; count: number }
+  >();
+
+  constructor(candidates: FallbackCandidate[], circuitBreaker?: CircuitBreakerConfig) {
+    if (candidates.length === 0) {
+      throw new Error('FallbackLLMHandler needs at least one candidate');
+    }
+    this.candidates = candidates;
+    this.circuitBreaker = circuitBreaker ?? DEFAULT_CIRCUIT_BREAKER_CONFIG;
+  }
+
+  get name(): string {
+    return this.candidates[0].handler.name;
+  }
+
+  async requestJSON<T>(
+    request: LLMRequest,
+    responseSchema: z.ZodSchema<T>,
+    context: LLMContext
+  ): Promise<{ data: T; response: LLMResponse }> {
+    return this.route(request, context, (handler, routed) =>
+      handler.requestJSON(routed, responseSchema, context)
+    );
+  }
+
+  async requestText(request: LLMRequest, context: LLMContext): Promise<LLMResponse> {
+    return this.route(request, context, (handler, routed) => handler.requestText(routed, context));
+  }
+
+  getModelInfo(model: string): ModelInfo {
+    return this.candidates[0].handler.getModelInfo(model);
+  }
+
+  estimateCost(request: LLMRequest): CostEstimate {
+    return this.candidates[0].handler.estimateCost(request);
+  }
+
+  /**
+   * Models that served calls so far and the candidates passed over
+   */
+  getRouting(): StepLLMRouting {
+    return {
+      models: [...this.modelCalls.values()],
+      fallbacks: [...this.fallbacks.values()],
+    };
+  }
+
+  private async route<R>(
+    request: LLMRequest,
+    context: LLMContext,
+    call: (handler: ILLMHandler, request: LLMRequest) => Promise<R>
+  ): Promise<R> {
+    const attempts: string[] = [];
+
+    for (const [index, candidate] of this.candidates.entries()) {
+      const provider = candidate.handler.name;
+      const model = candidate.model || request.model;
+      const label = `${provider}/${model}`;
+      const breaker = getCircuitBreaker(
+        `${provider}|${candidate.baseUrl || ''}|${model}`,
+        this.circuitBreaker
+      );
+
+      if (!breaker.canRequest()) {
+        this.recordFallback(provider, model, 'circuit open');
+        attempts.push(`${label} (circuit open)`);
+        continue;
+      }
+
+      try {
+        const result = await call(candidate.handler, { ...request, model });
+        breaker.recordSuccess();
+        this.recordCall(provider, model);
+        if (index > 0) {
+          logger.warn(`Served ${context.purpose} request with fallback ${label}`, {
+            batchId: context.batchId,
+            skipped: attempts,
+          });
+        }
+        return result;
+      } catch (error) {
+        breaker.recordFailure();
+        const reason = getErrorMessage(error).slice(0, MAX_REASON_LENGTH);
+        this.recordFallback(provider, model, reason);
+        attempts.push(`${label} (${reason})`);
+        logger.warn(`LLM candidate ${label} failed for ${context.purpose}`, {
+          batchId: context.batchId,
+          circuit: breaker.state,
+          error: reason,
+        });
+      }
+    }
+
+    throw new AllLLMCandidatesFailedError(attempts);
+  }
+
+  private recordCall(provider: string, model: string): void {
+    const key = `${provider}|${model}`;
+    const entry = this.modelCalls.get(key) ?? { provider, model, calls: 0 };
+    entry.calls++;
+    this.modelCalls.set(key, entry);
+  }
+
+  private recordFallback(provider: string, model: string, reason: string): void {
+    const key = `${provider}|${model}|${reason}`;
+    const entry = this.fallbacks.get(key) ?? { provider, model, reason, count: 0 };
+    entry.count++;
+    this.fallbacks.set(key, entry);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * LLM Handler Factory
+ *
+ * Creates pipeline LLM handlers for any supported provider from environment
+ * configuration (LLM_PROVIDER, <PROVIDER>_API_KEY, <PROVIDER>_API_BASE, LLM_MODEL).
+ * Pipeline steps may pick their own provider via `config.provider` / `config.baseUrl`.
+ *
+
+ * @created 2026-10-19
+ * @updated 2026-10-19 - Model catalog lookup per provider
+ */
+
+import type { ILLMHandler } from '../core/interfaces.js';
+import { getProviderConfigFromEnv, type LLMProviderType } from '../../llm/providers/types.js';
+import type { ModelCatalog } from './ProviderHandler.js';
+import { GeminiHandler, GEMINI_MODEL_CATALOG } from './GeminiHandler.js';
+import { OpenAIHandler, openAIModelCatalog } from './OpenAIHandler.js';
+import { AnthropicHandler, ANTHROPIC_MODEL_CATALOG } from './AnthropicHandler.js';
+import { OllamaHandler, OLLAMA_MODEL_CATALOG } from './OllamaHandler.js';
+
+export interface LLMHandlerOptions {
+  baseUrl?: string; // Overrides <PROVIDER>_API_BASE, e.g. a vLLM server for one step
+}
+
+const handlers = new Map<string, ILLMHandler>();
+
+/**
+ * Create an LLM handler (default provider: LLM_PROVIDER, else Gemini)
+ */
+export function createLLMHandler(
+  provider?: LLMProviderType,
+  options: LLMHandlerOptions = {}
+): ILLMHandler {
+  const config = getProviderConfigFromEnv(provider);
+  const baseUrl = options.baseUrl || config.baseUrl;
+
+  switch (config.provider) {
+    case 'gemini':
+      if (!config.apiKey) {
+        throw new Error('GEMINI_API_KEY or GOOGLE_AI_API_KEY environment variable required');
+      }
+      return new GeminiHandler(config.apiKey, config.defaultModel);
+
+    case 'openai':
+      if (!config.apiKey && !baseUrl) {
+        throw new Error('OPENAI_API_KEY (or OPENAI_API_BASE for a compatible server) required');
+      }
+      return new OpenAIHandler(config.apiKey, config.defaultModel, baseUrl);
+
+    case 'anthropic':
+      if (!config.apiKey) {
+        throw new Error('ANTHROPIC_API_KEY environment variable required');
+      }
+      return new AnthropicHandler(config.apiKey, config.defaultModel, baseUrl);
+
+    case 'ollama':
+      return new OllamaHandler(baseUrl, config.defaultModel);
+
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Shared handler per provider and base URL
+ */
+export function getLLMHandler(
+  provider?: LLMProviderType,
+  options: LLMHandlerOptions = {}
+): ILLMHandler {
+  const key = `${provider || ''}|${options.baseUrl || ''}`;
+  let handler = handlers.get(key);
+  if (!handler) {
+    handler = createLLMHandler(provider, options);
+    handlers.set(key, handler);
+  }
+  return handler;
+}
+
+/**
+ * Model pricing and capabilities of a provider, e.g. to cost calls made with the provider directly
+ */
+export function getModelCatalog(
+  provider?: LLMProviderType,
+  options: LLMHandlerOptions = {}
+): ModelCatalog {
+  const config = getProviderConfigFromEnv(provider);
+
+  switch (config.provider) {
+    case 'gemini':
+      return GEMINI_MODEL_CATALOG;
+    case 'openai':
+      return openAIModelCatalog(options.baseUrl || config.baseUrl);
+    case 'anthropic':
+      return ANTHROPIC_MODEL_CATALOG;
+    case 'ollama':
+      return OLLAMA_MODEL_CATALOG;
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Forget cached handlers (useful for testing)
+ */
+export function resetLLMHandlers(): void {
+  handlers.clear();
+}
@@ -0,0 +1,80 @@
+/**
+ * Metered LLM Handler
+ *
+ * Wraps a step's LLM handler and reports every billed call (served model,
+ * tokens and cost) so the orchestrator can account for spend per step. Calls that
+ * fail after the provider answered (BilledLLMCallError) are reported too.
+ *
+
+ * @created 2026-10-19
+ * @updated 2026-10-19 - Report billed calls that failed
+ */
+
+import type { z } from 'zod';
+import type {
+  ILLMHandler,
+  LLMRequest,
+  LLMContext,
+  LLMResponse,
+  ModelInfo,
+  CostEstimate,
+} from '../core/interfaces.js';
+import { BilledLLMCallError } from './ProviderHandler.js';
+
+export type LLMUsageListener = (response: LLMResponse, context: LLMContext) => Promise<void>;
+
+/**
+ * LLM handler that reports the usage of each call to a listener
+ */
+export class MeteredLLMHandler implements ILLMHandler {
+  constructor(
+    private inner: ILLMHandler,
+    private onUsage: LLMUsageListener
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  async requestJSON<T>(
+    request: LLMRequest,
+    responseSchema: z.ZodSchema<T>,
+    context: LLMContext
+  ): Promise<{ data: T; response: LLMResponse }> {
+    const result = await this.reportFailure(context, () =>
+      this.inner.requestJSON(request, responseSchema, context)
+    );
+    await this.onUsage(result.response, context);
+    return result;
+  }
+
+  async requestText(request: LLMRequest, context: LLMContext): Promise<LLMResponse> {
+    const response = await this.reportFailure(context, () =>
+      this.inner.requestText(request, context)
+    );
+    await this.onUsage(response, context);
+    return response;
+  }
+
+  getModelInfo(model: string): ModelInfo {
+    return this.inner.getModelInfo(model);
+  }
+
+  estimateCost(request: LLMRequest): CostEstimate {
+    return this.inner.estimateCost(request);
+  }
+
+  /**
+   * Run a call, reporting the usage of a billed failure before rethrowing it
+   */
+  private async reportFailure<R>(context: LLMContext, call: () => Promise<R>): Promise<R> {
+    try {
+      return await call();
+    } catch (error) {
+      if (error instanceof BilledLLMCallError) {
+        await this.onUsage(error.response, context);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Metered LLM Provider
+ *
+ * Wraps an LLM provider used outside the pipeline handlers (e.g. for streamed widget
+ * answers) and reports every billed call (served model, tokens and cost) like
+ * MeteredLLMHandler does, including structured calls whose response failed validation.
+ *
+
+ * @created 2026-10-19
+ * @updated 2026-10-19 - Report structured calls that failed after the response arrived
+ */
+
+import type { z } from 'zod';
+import type { LLMContext } from '../core/interfaces.js';
+import type {
+  ILLMProvider,
+  LLMProviderType,
+  GenerationResult,
+  GenerateOptions,
+  StreamGenerateOptions,
+  ConversationMessage,
+} from '../../llm/providers/types.js';
+import { describeUsage, type ModelCatalog } from './ProviderHandler.js';
+import type { LLMUsageListener } from './MeteredLLMHandler.js';
+
+/**
+ * LLM provider that reports the usage of each call to a listener
+ */
+export class MeteredLLMProvider implements ILLMProvider {
+  constructor(
+    private inner: ILLMProvider,
+    private catalog: ModelCatalog,
+    private context: LLMContext,
+    private onUsage: LLMUsageListener
+  ) {}
+
+  get name(): LLMProviderType {
+    return this.inner.name;
+  }
+
+  async generateText(prompt: string, options?: GenerateOptions): Promise<GenerationResult> {
+    const result = await this.inner.generateText(prompt, options);
+    await this.report(result, options?.model);
+    return result;
+  }
+
+  async generateWithHistory(
+    prompt: string,
+    history: ConversationMessage[],
+    options?: GenerateOptions
+  ): Promise<GenerationResult> {
+    const result = await this.inner.generateWithHistory(prompt, history, options);
+    await this.report(result, options?.model);
+    return result;
+  }
+
+  async streamWithHistory(
+    prompt: string,
+    history: ConversationMessage[],
+    options: StreamGenerateOptions
+  ): Promise<GenerationResult> {
+    const result = await this.inner.streamWithHistory(prompt, history, options);
+    await this.report(result, options.model);
+    return result;
+  }
+
+  async generateStructured<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    options?: GenerateOptions
+  ): Promise<T> {
+    let usage: GenerationResult | undefined;
+    let data: T;
+    try {
+      data = await this.inner.generateStructured(prompt, schema, {
+        ...options,
+        onResult: (raw) => {
+          usage = raw;
+          options?.onResult?.(raw);
+        },
+      });
+    } catch (error) {
+      // The response arrived but did not parse or match the schema: it was billed all the same
+      if (usage) {
+        await this.report(usage, options?.model);
+      }
+      throw error;
+    }
+    await this.report(usage, options?.model);
+    return data;
+  }
+
+  private async report(result: GenerationResult | undefined, model?: string): Promise<void> {
+    const usage = describeUsage(result, model || 'unknown', this.inner.name, this.catalog);
+    await this.onUsage({ ...usage, text: result?.text ?? '' }, this.context);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Ollama LLM Handler
+ *
+ * Adapts the OllamaLLMProvider to the pipeline's ILLMHandler interface.
+ * Local models have no per-token cost.
+ *
+
+ * @created 2026-10-19
+ */
+
+import type { ModelInfo } from '../core/interfaces.js';
+import { OllamaLLMProvider } from '../../llm/providers/ollama-provider.js';
+import { ProviderHandler, type ModelCatalog } from './ProviderHandler.js';
+
+/**
+ * Default model info; the usable context depends on the model and the server's num_ctx
+ */
+const DEFAULT_MODEL_INFO: ModelInfo = {
+  provider: 'ollama',
+  maxInputTokens: 32768,
+  maxOutputTokens: 4096,
+  supportsFunctionCalling: false,
+  supportsStreaming: true,
+};
+
+/**
+ * Local models: no per-token pricing
+ */
+export const OLLAMA_MODEL_CATALOG: ModelCatalog = {
+  pricing: {},
+  info: {},
+  defaultPricing: { input: 0, output: 0 },
+  defaultInfo: DEFAULT_MODEL_INFO,
+};
+
+/**
+ * Ollama LLM Handler implementation
+ */
+export class OllamaHandler extends ProviderHandler {
+  readonly name = 'ollama';
+
+  constructor(baseUrl?: string, defaultModel: string = 'llama3') {
+    super(new OllamaLLMProvider(baseUrl, defaultModel), defaultModel, OLLAMA_MODEL_CATALOG);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * OpenAI LLM Handler
+ *
+ * Adapts the OpenAILLMProvider to the pipeline's ILLMHandler interface. With a base URL
+ * it also serves OpenAI-compatible servers (vLLM, llama.cpp server, LM Studio, ...).
+ *
+
+ * @created 2026-10-19
+ */
+
+import type { ModelInfo } from '../core/interfaces.js';
+import { OpenAILLMProvider } from '../../llm/providers/openai-provider.js';
+import { ProviderHandler, type ModelCatalog, type ModelPricing } from './ProviderHandler.js';
+
+/**
+ * Model pricing (per 1K tokens)
+ */
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { input: 0.0025, output: 0.01 },
+  'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+  'gpt-4.1': { input: 0.002, output: 0.008 },
+  'gpt-4.1-mini': { input: 0.0004, output: 0.0016 },
+  'gpt-4.1-nano': { input: 0.0001, output: 0.0004 },
+  'gpt-4-turbo': { input: 0.01, output: 0.03 },
+  'o3-mini': { input: 0.0011, output: 0.0044 },
+};
+
+/**
+ * Model context window sizes
+ */
+const MODEL_INFO: Record<string, ModelInfo> = {
+  'gpt-4o': {
+    provider: 'openai',
+    maxInputTokens: 128000,
+    maxOutputTokens: 16384,
+    supportsFunctionCalling: true,
+    supportsStreaming: true,
+  },
+  'gpt-4.1': {
+    provider: 'openai',
+    maxInputTokens: 1047576,
+    maxOutputTokens: 32768,
+    supportsFunctionCalling: true,
+    supportsStreaming: true,
+  },
+  'gpt-4-turbo': {
+    provider: 'openai',
+    maxInputTokens: 128000,
+    maxOutputTokens: 4096,
+    supportsFunctionCalling: true,
+    supportsStreaming: true,
+  },
+  'o3-mini': {
+    provider: 'openai',
+    maxInputTokens: 200000,
+    maxOutputTokens: 100000,
+    supportsFunctionCalling: true,
+    supportsStreaming: true,
+  },
+};
+
+/**
+ * Default model info for unknown models (including self-hosted ones)
+ */
+const DEFAULT_MODEL_INFO: ModelInfo = {
+  provider: 'openai',
+  maxInputTokens: 32768,
+  maxOutputTokens: 4096,
+  supportsFunctionCalling: false,
+  supportsStreaming: true,
+};
+
+/**
+ * Pricing and capabilities of the OpenAI models, or of the models on a compatible server
+ */
+export function openAIModelCatalog(baseUrl?: string): ModelCatalog {
+  return {
+    pricing: MODEL_PRICING,
+    info: MODEL_INFO,
+    // Unknown models on a self-hosted server cost nothing per token
+    defaultPricing: baseUrl ? { input: 0, output: 0 } : { input: 0.0025, output: 0.01 },
+    defaultInfo: DEFAULT_MODEL_INFO,
+  };
+}
+
+/**
+ * OpenAI LLM Handler implementation
+ */
+export class OpenAIHandler extends ProviderHandler {
+  readonly name = 'openai';
+
+  constructor(apiKey: string | undefined, defaultModel: string = 'gpt-4o-mini', baseUrl?: string) {
+    super(
+      new OpenAILLMProvider(apiKey, defaultModel, baseUrl),
+      defaultModel,
+      openAIModelCatalog(baseUrl)
+    );
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Provider LLM Handler
+ *
+ * Adapts any unified ILLMProvider to the pipeline's ILLMHandler interface.
+ * Concrete handlers (Gemini, OpenAI, Anthropic, Ollama) supply the provider
+ * and their model catalog for cost estimation and model info.
+ *
+
+ * @created 2026-10-19
+ * @updated 2026-10-19 - Usage and cost helpers shared with metered providers
+ * @updated 2026-10-19 - Report the usage of JSON calls that fail after the response arrived
+ */
+
+import type { z } from 'zod';
+import type {
+  ILLMHandler,
+  LLMRequest,
+  LLMContext,
+  LLMResponse,
+  ModelInfo,
+  CostEstimate,
+} from '../core/interfaces.js';
+import type { ILLMProvider, LLMProviderType, GenerationResult } from '../../llm/providers/types.js';
+import { createLogger, getErrorMessage } from '../../utils/logger.js';
+
+const logger = createLogger('ProviderHandler');
+
+/**
+ * An LLM call that failed after the provider answered (and billed it), e.g. a response
+ * that did not match the schema. Carries the usage so metered handlers still record it
+ */
+export class BilledLLMCallError extends Error {
+  constructor(
+    error: unknown,
+    readonly response: LLMResponse
+  ) {
+    super(getErrorMessage(error), { cause: error });
+    this.name = 'BilledLLMCallError';
+  }
+}
+
+/**
+ * Pricing per 1K tokens (USD)
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Known models of a provider
+ * Lookups match the exact model name first, then the longest known prefix,
+ * so dated or tagged variants (e.g. 'gpt-4o-2024-08-06') share their family's entry.
+ */
+export interface ModelCatalog {
+  pricing: Record<string, ModelPricing>;
+  info: Record<string, ModelInfo>;
+  defaultPricing: ModelPricing;
+  defaultInfo: ModelInfo;
+}
+
+/**
+ * Find the catalog entry for a model: exact name, else the longest matching prefix
+ */
+export function lookupModel<T>(entries: Record<string, T>, model: string): T | undefined {
+  if (entries[model]) {
+    return entries[model];
+  }
+  const prefix = Object.keys(entries)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? entries[prefix] : undefined;
+}
+
+/**
+ * Cost of a call in USD from its token counts and the model's pricing in the catalog
+ */
+export function calculateCost(
+  catalog: ModelCatalog,
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  const pricing = lookupModel(catalog.pricing, model) || catalog.defaultPricing;
+  return (inputTokens / 1000) * pricing.input + (outputTokens / 1000) * pricing.output;
+}
+
+/**
+ * Response fields describing the served model and its token usage and cost
+ */
+export function describeUsage(
+  result: GenerationResult | undefined,
+  model: string,
+  provider: string,
+  catalog: ModelCatalog
+): Omit<LLMResponse, 'text'> {
+  const servedModel = result?.model || model;
+  const inputTokens = result?.inputTokens;
+  // Providers that only report a total count it all as output (the dearer rate)
+  const outputTokens =
+    result?.outputTokens ??
+    (result?.tokensUsed !== undefined ? result.tokensUsed - (inputTokens ?? 0) : undefined);
+
+  return {
+    tokensUsed: result?.tokensUsed,
+    inputTokens,
+    outputTokens,
+    costUSD:
+      inputTokens !== undefined || outputTokens !== undefined
+        ? calculateCost(catalog, servedModel, inputTokens ?? 0, outputTokens ?? 0)
+        : undefined,
+    finishReason: result?.finishReason,
+    model: servedModel,
+    provider,
+  };
+}
+
+/**
+ * Base LLM handler over a unified provider
+ */
+export abstract class ProviderHandler implements ILLMHandler {
+  abstract readonly name: LLMProviderType;
+  protected provider: ILLMProvider;
+  protected defaultModel: string;
+  protected catalog: ModelCatalog;
+
+  constructor(provider: ILLMProvider, defaultModel: string, catalog: ModelCatalog) {
+    this.provider = provider;
+    this.defaultModel = defaultModel;
+    this.catalog = catalog;
+  }
+
+  /**
+   * Generate structured JSON response with schema validation
+   */
+  async requestJSON<T>(
+    request: LLMRequest,
+    responseSchema: z.ZodSchema<T>,
+    context: LLMContext
+  ): Promise<{ data: T; response: LLMResponse }> {
+    const model = request.model || this.defaultModel;
+    const startTime = Date.now();
+
+    logger.debug(`Requesting JSON from ${this.name}`, {
+      model,
+      purpose: context.purpose,
+      batchId: context.batchId,
+    });
+
+    let usage: GenerationResult | undefined;
+    try {
+      const result = await this.provider.generateStructured(
+        `${request.systemPrompt}\n\n${request.userPrompt}`,
+        responseSchema,
+        {
+          model,
+          temperature: request.temperature,
+          maxTokens: request.maxTokens,
+          onResult: (raw) => {
+            usage = raw;
+          },
+        }
+      );
+
+      // Stringify result for response text - ensure non-empty
+      const responseText = JSON.stringify(result);
+
+      const response: LLMResponse = {
+        ...this.withUsage(usage, model),
+        text: responseText || '{}',
+        cached: false, // Could check cache status from provider
+      };
+
+      logger.debug('JSON request completed', {
+        model,
+        purpose: context.purpose,
+        durationMs: Date.now() - startTime,
+        responseTextLength: responseText?.length || 0,
+      });
+
+      return { data: result, response };
+    } catch (error) {
+      logger.error('JSON request failed', {
+        provider: this.name,
+        model,
+        purpose: context.purpose,
+        error: getErrorMessage(error),
+      });
+      if (usage) {
+        throw new BilledLLMCallError(error, { ...this.withUsage(usage, model), text: usage.text });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generate text response
+   */
+  async requestText(request: LLMRequest, context: LLMContext): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+    const startTime = Date.now();
+
+    logger.debug(`Requesting text from ${this.name}`, {
+      model,
+      purpose: context.purpose,
+      batchId: context.batchId,
+    });
+
+    try {
+      let result;
+
+      if (request.history && request.history.length > 0) {
+        result = await this.provider.generateWithHistory(request.userPrompt, request.history, {
+          model,
+          temperature: request.temperature,
+          maxTokens: request.maxTokens,
+          systemPrompt: request.systemPrompt,
+        });
+      } else {
+        result = await this.provider.generateText(
+          `${request.systemPrompt}\n\n${request.userPrompt}`,
+          {
+            model,
+            temperature: request.temperature,
+            maxTokens: request.maxTokens,
+          }
+        );
+      }
+
+      logger.debug('Text request completed', {
+        model,
+        purpose: context.purpose,
+        durationMs: Date.now() - startTime,
+        tokensUsed: result.tokensUsed,
+      });
+
+      return {
+        ...this.withUsage(result, model),
+        text: result.text,
+        cached: false,
+      };
+    } catch (error) {
+      logger.error('Text request failed', {
+        provider: this.name,
+        model,
+        purpose: context.purpose,
+        error: getErrorMessage(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Response fields describing the served model and its token usage and cost
+   */
+  private withUsage(
+    result: GenerationResult | undefined,
+    model: string
+  ): Omit<LLMResponse, 'text'> {
+    return describeUsage(result, model, this.name, this.catalog);
+  }
+
+  /**
+   * Cost of a call in USD from its token counts and the model's pricing
+   */
+  protected calculateCost(model: string, inputTokens: number, outputTokens: number): number {
+    return calculateCost(this.catalog, model, inputTokens, outputTokens);
+  }
+
+  /**
+   * Get model capabilities
+   */
+  getModelInfo(model: string): ModelInfo {
+    return lookupModel(this.catalog.info, model) || this.catalog.defaultInfo;
+  }
+
+  /**
+   * Estimate cost for request
+   */
+  estimateCost(request: LLMRequest): CostEstimate {
+    const model = request.model || this.defaultModel;
+
+    // Rough token estimation (4 chars per token)
+    const inputText = `${request.systemPrompt || ''} ${request.userPrompt}`;
+    const inputTokens = Math.ceil(inputText.length / 4);
+    const outputTokens = request.maxTokens || 2048;
+
+    const estimatedCostUSD = this.calculateCost(model, inputTokens, outputTokens);
+
+    return {
+      inputTokens,
+      outputTokens,
+      estimatedCostUSD,
+    };
+  }
+}
@@ -16,7 +16,30 @@ export { PipelineOrchestrator } from './core/PipelineOrchestrator.js';
 export { StepFactory, getStepFactory, createStepFactory } from './core/StepFactory.js';
 
 // LLM handlers
+export { ProviderHandler, BilledLLMCallError, lookupModel } from './handlers/ProviderHandler.js';
+export type { ModelCatalog, ModelPricing } from './handlers/ProviderHandler.js';
 export { GeminiHandler, createGeminiHandler } from './handlers/GeminiHandler.js';
+export { OpenAIHandler } from './handlers/OpenAIHandler.js';
+export { AnthropicHandler } from './handlers/AnthropicHandler.js';
+export { OllamaHandler } from './handlers/OllamaHandler.js';
+export {
+  createLLMHandler,
+  getLLMHandler,
+  getModelCatalog,
+  resetLLMHandlers,
+} from './handlers/LLMHandlerFactory.js';
+export type { LLMHandlerOptions } from './handlers/LLMHandlerFactory.js';
+export { FallbackLLMHandler, AllLLMCandidatesFailedError } from './handlers/FallbackLLMHandler.js';
+export type { FallbackCandidate } from './handlers/FallbackLLMHandler.js';
+export {
+  CircuitBreaker,
+  getCircuitBreaker,
+  resetCircuitBreakers,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from './handlers/CircuitBreaker.js';
+export { MeteredLLMHandler } from './handlers/MeteredLLMHandler.js';
+export type { LLMUsageListener } from './handlers/MeteredLLMHandler.js';
+export { MeteredLLMProvider } from './handlers/MeteredLLMProvider.js';
 
 // Prompt management
 export { PromptRegistry, createPromptRegistry } from './prompts/PromptRegistry.js';
@@ -42,6 +65,10 @@ export {
 // Pipeline steps
 export { BasePipelineStep } from './steps/base/BasePipelineStep.js';
 export { KeywordFilterStep, createKeywordFilterStep } from './steps/filter/KeywordFilterStep.js';
+export {
+  ConversationThreadingStep,
+  createConversationThreadingStep,
+} from './steps/thread/ConversationThreadingStep.js';
 export { BatchClassifyStep, createBatchClassifyStep } from './steps/classify/BatchClassifyStep.js';
 export { RagEnrichStep, createRagEnrichStep } from './steps/enrich/RagEnrichStep.js';
 export {
@@ -85,13 +85,19 @@ export class BatchClassifyStep extends BasePipelineStep {
 
     this.logger.info(`Classifying ${context.filteredMessages.length} messages`);
 
+    // Label conversations shared by batch and context messages alike
+    const conversationLabels = this.buildConversationLabels([
+      ...context.contextMessages,
+      ...context.filteredMessages,
+    ]);
+
     // Render the prompt template and log for debugging
     const rendered = this.renderAndLogPrompt(context, this.promptId, {
       projectName: context.domainConfig.context.projectName,
       domain: context.domainConfig.context.domain,
       categories: this.formatCategories(context.domainConfig.categories),
-      messagesToAnalyze: this.formatMessages(context.filteredMessages),
-      contextText: this.formatMessages(context.contextMessages),
+      messagesToAnalyze: this.formatMessages(context.filteredMessages, conversationLabels),
+      contextText: this.formatMessages(context.contextMessages, conversationLabels),
     });
 
     // Call LLM for classification
@@ -155,23 +161,76 @@ export class BatchClassifyStep extends BasePipelineStep {
       .join('\n');
   }
 
+  /**
+   * Assign short labels (c1, c2, ...) to conversations with more than one message
+   */
+  private buildConversationLabels(messages: UnifiedMessage[]): Map<string, string> {
+    const counts = new Map<string, number>();
+    for (const m of messages) {
+      if (m.conversationId) {
+        counts.set(m.conversationId, (counts.get(m.conversationId) || 0) + 1);
+      }
+    }
+
+    const labels = new Map<string, string>();
+    for (const [conversationId, count] of counts) {
+      if (count > 1) {
+        labels.set(conversationId, `c${labels.size + 1}`);
+      }
+    }
+    return labels;
+  }
+
   /**
    * Format messages for prompt injection
    */
-  private formatMessages(messages: UnifiedMessage[]): string {
+  private formatMessages(
+    messages: UnifiedMessage[],
+    conversationLabels: Map<string, string> = new Map()
+  ): string {
     if (messages.length === 0) {
       return '(No messages)';
     }
 
+    const indexByMessageId = new Map(messages.map((m, idx) => [m.messageId, idx]));
+
     return messages
       .map((m, idx) => {
         const timestamp = m.timestamp.toISOString();
-        const replyInfo = m.replyToId ? ` (reply to ${m.replyToId})` : '';
-        return `[${idx}] [${timestamp}] ${m.author}${replyInfo}: ${m.content}`;
+        const label = m.conversationId ? conversationLabels.get(m.conversationId) : undefined;
+        const conversation = label ? `{${label}} ` : '';
+        const replyInfo = this.formatReplyInfo(m, indexByMessageId);
+        const tags = this.formatTags(m);
+        return `[${idx}] [${timestamp}] ${conversation}${m.author}${replyInfo}${tags}: ${m.content}`;
       })
       .join('\n\n');
   }
 
+  /**
+   * Render reply links as indices within the same section, so the LLM never sees raw IDs
+   */
+  private formatReplyInfo(message: UnifiedMessage, indexByMessageId: Map<string, number>): string {
+    if (!message.replyToId) {
+      return '';
+    }
+    const parentIdx = indexByMessageId.get(message.replyToId);
+    return parentIdx !== undefined ? ` (reply to [${parentIdx}])` : ' (reply to earlier message)';
+  }
+
+  /**
+   * Render authority tags (accepted answer, maintainer reply) so the LLM can weight them
+   */
+  private formatTags(message: UnifiedMessage): string {
+    const tags: string[] = [];
+    if (message.metadata?.isAcceptedAnswer) {
+      tags.push('accepted answer');
+    }
+    if (message.metadata?.isMaintainer) {
+      tags.push('maintainer');
+    }
+    return tags.length > 0 ? ` [${tags.join(', ')}]` : '';
+  }
+
   validateConfig(config: StepConfig): boolean {
     if (!super.validateConfig(config)) {
       return false;
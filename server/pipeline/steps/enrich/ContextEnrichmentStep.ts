@@ -199,7 +199,7 @@ export class ContextEnrichmentStep extends BasePipelineStep {
 
         relatedDocs.push({
           page: doc.filePath,
-          section: doc.title,
+          section: doc.headingPath || doc.title,
           similarityScore: doc.similarity,
           matchType,
           snippet: doc.content.slice(0, 200) + (doc.content.length > 200 ? '...' : ''),
@@ -217,7 +217,7 @@ export class ContextEnrichmentStep extends BasePipelineStep {
       ) {
         relatedDocs.push({
           page: doc.filePath,
-          section: doc.title,
+          section: doc.headingPath || doc.title,
           similarityScore: doc.similarity,
           matchType: 'semantic',
           snippet: doc.content.slice(0, 200) + (doc.content.length > 200 ? '...' : ''),
@@ -2,7 +2,8 @@
  * RAG Enrich Step
  *
  * Enriches conversation threads with relevant documentation context.
- * Uses RAG (Retrieval Augmented Generation) to find related docs.
+ * Uses RAG (Retrieval Augmented Generation) to find related docs: hybrid search over the
+ * semantic query and the classifier's keywords.
  *
 
  * @created 2025-12-30
@@ -65,8 +66,8 @@ export class RagEnrichStep extends BasePipelineStep {
     for (const thread of valuableThreads) {
       try {
         // Build search query from RAG criteria
-        const searchQuery =
-          thread.ragSearchCriteria.semanticQuery || thread.ragSearchCriteria.keywords.join(' ');
+        const keywords = (thread.ragSearchCriteria.keywords || []).filter((k) => k.trim());
+        const searchQuery = thread.ragSearchCriteria.semanticQuery || keywords.join(' ');
 
         if (!searchQuery.trim()) {
           this.logger.debug(`Thread ${thread.id} has no search query, skipping`);
@@ -74,10 +75,19 @@ export class RagEnrichStep extends BasePipelineStep {
         }
 
         // Perform RAG search (fetch more for filtering)
-        const results = await context.ragService.searchSimilarDocs(searchQuery, this.topK * 2);
+        const results = await context.ragService.searchSimilarDocs(
+          searchQuery,
+          this.topK * 2,
+          keywords
+        );
 
-        // Apply similarity threshold
-        let filtered = results.filter((doc) => doc.similarity >= this.minSimilarity);
+        // Apply similarity threshold; top full-text matches (exact error strings, flags,
+        // config keys) are kept even when their embedding is less similar
+        let filtered = results.filter(
+          (doc) =>
+            doc.similarity >= this.minSimilarity ||
+            (doc.lexicalRank !== undefined && doc.lexicalRank <= this.topK)
+        );
 
         // Apply path filtering from domain config
         filtered = this.filterByPaths(filtered, context.domainConfig.ragPaths);
@@ -98,19 +108,20 @@ export class RagEnrichStep extends BasePipelineStep {
         this.appendRagQueryLog(
           context,
           `RAG: ${thread.summary?.substring(0, 60) || thread.id}`,
-          searchQuery,
+          keywords.length > 0 ? `${searchQuery}\nKeywords: ${keywords.join(', ')}` : searchQuery,
           finalDocs.map((d) => ({
             filePath: d.filePath,
-            title: d.title,
+            title: d.headingPath ? `${d.title} > ${d.headingPath}` : d.title,
             similarity: d.similarity,
           }))
         );
 
+        const similarities = finalDocs.map((d) => d.similarity);
         this.logger.debug(`Thread ${thread.id}: found ${finalDocs.length} relevant docs`, {
           query: searchQuery.slice(0, 100),
           similarityRange:
             finalDocs.length > 0
-              ? `${finalDocs[finalDocs.length - 1].similarity.toFixed(3)} - ${finalDocs[0].similarity.toFixed(3)}`
+              ? `${Math.min(...similarities).toFixed(3)} - ${Math.max(...similarities).toFixed(3)}`
               : 'N/A',
         });
       } catch (error) {
@@ -173,15 +184,15 @@ export class RagEnrichStep extends BasePipelineStep {
 
   /**
    * Remove duplicate i18n versions, keeping English
+   * Results are sections, so all hits from the preferred version of a page are kept,
+   * in their retrieval order.
    */
   private deduplicateI18n(results: RagDocument[]): RagDocument[] {
     const seen = new Map<string, RagDocument>();
 
     for (const doc of results) {
       // Extract base path without i18n prefix
-      const basePath = doc.filePath
-        .replace(/^i18n\/[a-z]{2}(-[A-Z]{2})?\//, '')
-        .replace(/^[a-z]{2}(-[A-Z]{2})?\//, '');
+      const basePath = this.i18nBasePath(doc.filePath);
 
       const existing = seen.get(basePath);
 
@@ -197,7 +208,15 @@ export class RagEnrichStep extends BasePipelineStep {
       }
     }
 
-    return Array.from(seen.values()).sort((a, b) => b.similarity - a.similarity);
+    return results.filter(
+      (doc) => seen.get(this.i18nBasePath(doc.filePath))?.filePath === doc.filePath
+    );
+  }
+
+  private i18nBasePath(filePath: string): string {
+    return filePath
+      .replace(/^i18n\/[a-z]{2}(-[A-Z]{2})?\//, '')
+      .replace(/^[a-z]{2}(-[A-Z]{2})?\//, '');
   }
 
   validateConfig(config: StepConfig): boolean {
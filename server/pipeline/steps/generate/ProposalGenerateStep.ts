@@ -6,6 +6,7 @@
  *
 
  * @created 2025-12-30
+ * @updated 2026-10-19 - Record the model that generated each proposal
  */
 
 import { z } from 'zod';
@@ -271,6 +272,7 @@ export class ProposalGenerateStep extends BasePipelineStep {
           reasoning: p.reasoning,
           sourceMessages: p.sourceMessages ?? undefined,
           warnings: postProcessed.warnings.length > 0 ? postProcessed.warnings : undefined,
+          modelUsed: response.model,
         };
       });
   }
@@ -286,7 +288,7 @@ export class ProposalGenerateStep extends BasePipelineStep {
     return docs
       .map(
         (doc, idx) =>
-          `[DOC ${idx + 1}] ${doc.title}\nPath: ${doc.filePath}\nSimilarity: ${doc.similarity.toFixed(3)}\n\n${doc.content}`
+          `[DOC ${idx + 1}] ${doc.title}\nPath: ${doc.filePath}${doc.headingPath ? `\nSection: ${doc.headingPath}` : ''}\nSimilarity: ${doc.similarity.toFixed(3)}\n\n${doc.content}`
       )
       .join('\n\n---\n\n');
   }
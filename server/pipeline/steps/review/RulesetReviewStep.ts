@@ -8,6 +8,7 @@
  *
 
  * @created 2026-01-19
+ * @updated 2026-10-19 - Count the modification call's tokens in the run metrics
  */
 
 import { z } from 'zod';
@@ -392,7 +393,7 @@ Return JSON with:
 - modificationsApplied: array of rule descriptions that were applied`;
 
     try {
-      const { data } = await llmHandler.requestJSON(
+      const { data, response } = await llmHandler.requestJSON(
         {
           model: this.modificationModel,
           systemPrompt,
@@ -409,6 +410,9 @@ Return JSON with:
       );
 
       context.metrics.llmCalls++;
+      if (response.tokensUsed) {
+        context.metrics.llmTokensUsed += response.tokensUsed;
+      }
 
       return {
         modified: data.modified,
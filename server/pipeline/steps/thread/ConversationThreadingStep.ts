@@ -0,0 +1,234 @@
+/**
+ * Conversation Threading Step
+ *
+ * Groups messages into conversations before classification.
+ * Reply links and adapter conversation keys (thread, topic) build reply trees;
+ * time heuristics are only used for messages without any link.
+ * No LLM calls.
+ *
+
+ * @created 2026-10-19
+ */
+
+import { BasePipelineStep } from '../base/BasePipelineStep.js';
+import {
+  StepType,
+  type StepConfig,
+  type StepMetadata,
+  type PipelineContext,
+  type UnifiedMessage,
+} from '../../core/interfaces.js';
+
+/**
+ * Configuration for ConversationThreadingStep
+ */
+interface ConversationThreadingConfig {
+  conversationTimeWindowMinutes?: number; // Maximum span of a time-based conversation
+  minConversationGapMinutes?: number; // Silence that starts a new time-based conversation
+  maxConversationSize?: number; // Maximum messages per time-based conversation
+}
+
+/**
+ * Builds reply trees and assigns a conversationId to every message
+ */
+export class ConversationThreadingStep extends BasePipelineStep {
+  readonly stepType = StepType.THREAD;
+
+  private timeWindowMs: number;
+  private minGapMs: number;
+  private maxConversationSize: number;
+
+  constructor(config: StepConfig) {
+    super(config);
+
+    const threadingConfig = config.config as ConversationThreadingConfig;
+    this.timeWindowMs = (threadingConfig.conversationTimeWindowMinutes ?? 15) * 60_000;
+    this.minGapMs = (threadingConfig.minConversationGapMinutes ?? 5) * 60_000;
+    this.maxConversationSize = threadingConfig.maxConversationSize ?? 20;
+  }
+
+  async execute(context: PipelineContext): Promise<PipelineContext> {
+    const startTime = Date.now();
+
+    if (context.filteredMessages.length === 0) {
+      this.logger.info('No messages to thread, skipping');
+      this.recordTiming(context, startTime);
+      return context;
+    }
+
+    // Context messages take part so replies to yesterday's messages join their conversation
+    const pool = new Map<string, UnifiedMessage>();
+    for (const message of [...context.contextMessages, ...context.filteredMessages]) {
+      pool.set(message.messageId, message);
+    }
+    const messages = [...pool.values()].sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+    );
+
+    const { conversationOf, linkedCount } = this.buildReplyTrees(messages);
+    const timeBasedCount = this.groupByTime(
+      messages.filter((m) => !conversationOf.has(m.messageId)),
+      conversationOf
+    );
+
+    for (const message of messages) {
+      message.conversationId = conversationOf.get(message.messageId);
+    }
+
+    this.recordTiming(context, startTime);
+
+    const conversations = new Set(context.filteredMessages.map((m) => m.conversationId));
+    this.logger.info(
+      `Threaded ${context.filteredMessages.length} messages into ${conversations.size} conversations`,
+      { replyLinked: linkedCount, timeBased: timeBasedCount }
+    );
+
+    return context;
+  }
+
+  /**
+   * Union messages connected by reply links or a shared adapter conversation key.
+   * Replies to messages outside the pool are grouped by the missing parent's ID.
+   */
+  private buildReplyTrees(messages: UnifiedMessage[]): {
+    conversationOf: Map<string, string>;
+    linkedCount: number;
+  } {
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.has(root) && parent.get(root) !== root) {
+        root = parent.get(root)!;
+      }
+      // Path compression
+      let node = id;
+      while (node !== root) {
+        const next = parent.get(node)!;
+        parent.set(node, root);
+        node = next;
+      }
+      return root;
+    };
+    const union = (a: string, b: string) => {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA !== rootB) parent.set(rootB, rootA);
+    };
+
+    const keyNode = (key: string) => `key:${key}`;
+    const linked = new Set<string>();
+
+    for (const message of messages) {
+      if (message.replyToId && message.replyToId !== message.messageId) {
+        union(message.replyToId, message.messageId);
+        linked.add(message.messageId).add(message.replyToId);
+      }
+      if (message.conversationId) {
+        union(keyNode(message.conversationId), message.messageId);
+        linked.add(message.messageId);
+      }
+    }
+
+    // Name each group after its earliest adapter key, else its oldest node (missing parents first)
+    const groupName = new Map<string, string>();
+    for (const message of messages) {
+      if (message.conversationId && linked.has(message.messageId)) {
+        const root = find(message.messageId);
+        if (!groupName.has(root)) groupName.set(root, message.conversationId);
+      }
+    }
+    const present = new Set(messages.map((m) => m.messageId));
+    for (const id of linked) {
+      const root = find(id);
+      if (!groupName.has(root) && !present.has(id)) {
+        groupName.set(root, `reply-${id}`);
+      }
+    }
+
+    const conversationOf = new Map<string, string>();
+    let linkedCount = 0;
+    for (const message of messages) {
+      if (!linked.has(message.messageId)) continue;
+      const root = find(message.messageId);
+      if (!groupName.has(root)) groupName.set(root, `reply-${message.messageId}`);
+      conversationOf.set(message.messageId, groupName.get(root)!);
+      linkedCount++;
+    }
+
+    return { conversationOf, linkedCount };
+  }
+
+  /**
+   * Group unlinked messages per channel by time gaps, window and size
+   * @returns Number of messages grouped
+   */
+  private groupByTime(unlinked: UnifiedMessage[], conversationOf: Map<string, string>): number {
+    const byChannel = new Map<string, UnifiedMessage[]>();
+    for (const message of unlinked) {
+      const channel = message.channel || '';
+      if (!byChannel.has(channel)) byChannel.set(channel, []);
+      byChannel.get(channel)!.push(message);
+    }
+
+    for (const channelMessages of byChannel.values()) {
+      let current: { id: string; start: number; last: number; size: number } | null = null;
+
+      for (const message of channelMessages) {
+        const time = message.timestamp.getTime();
+        const startsNew =
+          !current ||
+          time - current.last >= this.minGapMs ||
+          time - current.start > this.timeWindowMs ||
+          current.size >= this.maxConversationSize;
+
+        if (startsNew) {
+          current = { id: `time-${message.messageId}`, start: time, last: time, size: 0 };
+        }
+
+        current!.last = time;
+        current!.size++;
+        conversationOf.set(message.messageId, current!.id);
+      }
+    }
+
+    return unlinked.length;
+  }
+
+  validateConfig(config: StepConfig): boolean {
+    if (!super.validateConfig(config)) {
+      return false;
+    }
+
+    const threadingConfig = config.config as ConversationThreadingConfig;
+
+    for (const key of [
+      'conversationTimeWindowMinutes',
+      'minConversationGapMinutes',
+      'maxConversationSize',
+    ] as const) {
+      const value = threadingConfig[key];
+      if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+        this.logger.error(`${key} must be a positive number`);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  getMetadata(): StepMetadata {
+    return {
+      name: 'Conversation Threading',
+      description: 'Groups messages into conversations by reply links, falling back to time gaps',
+      version: '1.0.0',
+      author: 'system',
+    };
+  }
+}
+
+/**
+ * Factory function for ConversationThreadingStep
+ */
+export function createConversationThreadingStep(config: StepConfig): ConversationThreadingStep {
+  return new ConversationThreadingStep(config);
+}
@@ -2,43 +2,37 @@ import { Router, Request, Response } from 'express';
 import { getConfig } from '../config/loader';
 import { createLogger } from '../utils/logger.js';
 import type { ResolvedConfig } from '../config/types.js';
+import { parseRepositoryUrl } from '../stream/services/repository-host-factory.js';
 
 const logger = createLogger('ConfigRoutes');
 const router = Router();
 
 /**
- * Extract owner/repo from various git URL formats
- * Supports: https://github.com/owner/repo, https://github.com/owner/repo.git,
- *           git@github.com:owner/repo.git, owner/repo
+ * Resolve repository path and host from the documentation git URL
+ * Supports HTTPS and SSH URLs of GitHub, GitLab, Gitea and Bitbucket, and owner/repo
  */
-function extractRepoFromGitUrl(gitUrl: string | undefined): string {
-  if (!gitUrl) return '';
+function resolveRepository(documentation: ResolvedConfig['documentation']) {
+  const location = documentation.gitUrl
+    ? parseRepositoryUrl(documentation.gitUrl, documentation.gitHost)
+    : null;
 
-  // Already in owner/repo format
-  if (/^[a-zA-Z0-9_-]+\/[a-zA-Z0-9_.-]+$/.test(gitUrl)) {
-    return gitUrl;
+  if (!location && documentation.gitUrl) {
+    logger.warn(`Could not extract repository from git URL: ${documentation.gitUrl}`);
   }
 
-  // HTTPS format: https://github.com/owner/repo or https://github.com/owner/repo.git
-  const httpsMatch = gitUrl.match(/github\.com\/([^/]+\/[^/]+?)(?:\.git)?$/);
-  if (httpsMatch) {
-    return httpsMatch[1];
-  }
-
-  // SSH format: git@github.com:owner/repo.git
-  const sshMatch = gitUrl.match(/git@github\.com:([^/]+\/[^/]+?)(?:\.git)?$/);
-  if (sshMatch) {
-    return sshMatch[1];
-  }
-
-  logger.warn(`Could not extract owner/repo from git URL: ${gitUrl}`);
-  return '';
+  return {
+    repo: location?.repo || '',
+    host: location?.host || documentation.gitHost || 'github',
+    hostUrl: location?.baseUrl,
+  };
 }
 
 /**
  * Build config response from a ResolvedConfig object
  */
 function buildConfigResponse(config: ResolvedConfig) {
+  const repository = resolveRepository(config.documentation);
+
   return {
     project: config.project,
     branding: config.branding,
@@ -57,9 +51,11 @@ function buildConfigResponse(config: ResolvedConfig) {
     },
     repository: {
       // Extract owner/repo from gitUrl (e.g., "https://github.com/owner/repo" -> "owner/repo")
-      targetRepo: extractRepoFromGitUrl(config.documentation.gitUrl),
-      sourceRepo: extractRepoFromGitUrl(config.documentation.gitUrl),
+      targetRepo: repository.repo,
+      sourceRepo: repository.repo,
       baseBranch: config.documentation.branch || 'main',
+      host: repository.host,
+      hostUrl: repository.hostUrl,
     },
   };
 }
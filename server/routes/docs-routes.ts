@@ -2,13 +2,13 @@ import { Router, Request, Response, RequestHandler } from 'express';
 import { z } from 'zod';
 import { storage } from '../storage';
 import { db as prisma } from '../db';
-import { GitFetcher } from '../git-fetcher.js';
+import { DocSyncJobService } from '../doc-sync-jobs.js';
 import { PgVectorStore } from '../vector-store.js';
 import { getInstanceDb } from '../db/instance-db.js';
-import { docIndexGenerator } from '../stream/doc-index-generator.js';
-import { geminiEmbedder, GeminiEmbedder } from '../embeddings/gemini-embedder.js';
 import { createLogger, getErrorMessage } from '../utils/logger.js';
 import { InstanceConfigLoader } from '../config/instance-loader.js';
+import { getDocSources, type DocSource } from '../config/doc-sources.js';
+import type { PrismaClient } from '@prisma/client';
 
 const logger = createLogger('DocsRoutes');
 
@@ -30,6 +30,29 @@ try {
   logger.warn('Failed to initialize default vectorStore');
 }
 
+/**
+ * Sync state of each documentation source (repositories never synced report "idle")
+ */
+async function getSourceSyncStates(db: PrismaClient, sources: DocSource[]) {
+  const states = await db.gitSyncState.findMany({
+    where: { OR: sources.map((source) => ({ sourceId: source.id, gitUrl: source.gitUrl })) },
+  });
+
+  return sources.map((source) => {
+    const state = states.find((s) => s.sourceId === source.id && s.gitUrl === source.gitUrl);
+    return {
+      id: source.id,
+      pathPrefix: source.pathPrefix,
+      gitUrl: source.gitUrl,
+      branch: source.branch,
+      status: state?.syncStatus ?? 'idle',
+      lastSyncAt: state?.lastSyncAt ?? null,
+      lastCommitHash: state?.lastCommitHash ?? null,
+      errorMessage: state?.errorMessage ?? null,
+    };
+  });
+}
+
 export function createDocsRoutes(adminAuth: RequestHandler): Router {
   const router = Router();
 
@@ -77,11 +100,13 @@ export function createDocsRoutes(adminAuth: RequestHandler): Router {
       // Try to get config from instance config first, fallback to env var
       let gitUrl: string;
       let branch: string;
+      let sources: DocSource[] = [];
 
       try {
         const instanceConfig = InstanceConfigLoader.get(instanceId);
         gitUrl = instanceConfig.documentation.gitUrl;
         branch = instanceConfig.documentation.branch || 'main';
+        sources = getDocSources(instanceConfig.documentation);
         logger.debug(`Using instance config for ${instanceId}: ${gitUrl}`);
       } catch {
         // Fallback to env var if instance config not available
@@ -92,9 +117,12 @@ export function createDocsRoutes(adminAuth: RequestHandler): Router {
 
       const syncState = await db.gitSyncState.findFirst({
         where: {
+          sourceId: 'default',
           gitUrl: gitUrl,
         },
       });
+      // Additional documentation repositories, if configured
+      const sourceStates = sources.length > 1 ? await getSourceSyncStates(db, sources) : undefined;
 
       if (!syncState) {
         return res.json({
@@ -105,6 +133,7 @@ export function createDocsRoutes(adminAuth: RequestHandler): Router {
           status: 'idle',
           totalDocuments: 0,
           documentsWithEmbeddings: 0,
+          sources: sourceStates,
         });
       }
 
@@ -120,6 +149,7 @@ export function createDocsRoutes(adminAuth: RequestHandler): Router {
         status: syncState.syncStatus,
         totalDocuments: stats.totalDocuments,
         documentsWithEmbeddings: stats.documentsWithEmbeddings,
+        sources: sourceStates,
       });
     } catch (error) {
       logger.error('Error fetching git stats:', error);
@@ -166,6 +196,7 @@ export function createDocsRoutes(adminAuth: RequestHandler): Router {
   });
 
   // RAG Documentation Sync endpoint (admin only)
+  // Starts a background sync job (or resumes an interrupted one); poll /sync/jobs/:jobId
   router.post('/sync', adminAuth, async (req: Request, res: Response) => {
     try {
       const bodyValidation = z
@@ -181,7 +212,6 @@ export function createDocsRoutes(adminAuth: RequestHandler): Router {
       }
 
       const { force } = bodyValidation.data;
-      const startTime = Date.now();
 
       // Get instance from authenticated admin
       const adminInstance = (req as any).adminInstance;
@@ -189,150 +219,100 @@ export function createDocsRoutes(adminAuth: RequestHandler): Router {
         return res.status(401).json({ error: 'No instance associated with admin' });
       }
 
-      logger.info(`[${adminInstance}] Starting documentation sync (force: ${force})...`);
+      const jobs = new DocSyncJobService(getInstanceDb(adminInstance), adminInstance);
+      const started = await jobs.startJob({ force });
+      if (!started) {
+        return res.status(409).json({
+          error: 'A documentation sync is already running',
+          job: await jobs.getActiveJob(),
+        });
+      }
 
-      // Create instance-specific gitFetcher and vectorStore
-      const instanceDb = getInstanceDb(adminInstance);
-      const gitFetcher = new GitFetcher(adminInstance, instanceDb);
-      const instanceVectorStore = new PgVectorStore(adminInstance, instanceDb);
+      res.status(202).json({ ...started.job, resumed: started.resumed });
+    } catch (error) {
+      logger.error('Failed to start documentation sync:', error);
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error) || 'Unknown error during documentation sync',
+      });
+    }
+  });
 
-      // Get instance config for gitUrl
-      const { InstanceConfigLoader } = await import('../config/instance-loader.js');
-      const instanceConfig = InstanceConfigLoader.get(adminInstance);
-      const gitUrl = instanceConfig.documentation.gitUrl;
+  // List recent sync jobs
+  router.get('/sync/jobs', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const adminInstance = (req as any).adminInstance;
+      if (!adminInstance) {
+        return res.status(401).json({ error: 'No instance associated with admin' });
+      }
 
-      // Update sync status to 'syncing'
-      await gitFetcher.updateSyncStatus('syncing');
+      const jobs = new DocSyncJobService(getInstanceDb(adminInstance), adminInstance);
+      res.json({ jobs: await jobs.listJobs() });
+    } catch (error) {
+      logger.error('Error listing sync jobs:', error);
+      res.status(500).json({ error: 'Failed to list sync jobs' });
+    }
+  });
 
-      try {
-        // Check for updates
-        const updateInfo = await gitFetcher.checkForUpdates();
-
-        if (!updateInfo.hasUpdates && !force) {
-          // Even if no updates, mark sync as completed and update hash
-          await gitFetcher.updateCommitHash(updateInfo.currentHash);
-          await gitFetcher.updateSyncStatus('success');
-
-          // Invalidate doc-index cache to regenerate with current filter config
-          await docIndexGenerator.invalidateCache();
-
-          // Get total document count
-          const stats = await instanceVectorStore.getStats();
-
-          return res.json({
-            success: true,
-            hadUpdates: false,
-            currentHash: updateInfo.currentHash,
-            previousHash: updateInfo.storedHash,
-            summary: { added: 0, modified: 0, deleted: 0, filesProcessed: [] },
-            totalDocuments: stats.totalDocuments,
-            duration: Date.now() - startTime,
-          });
-        }
-
-        // Fetch changed files
-        const changedFiles = await gitFetcher.fetchChangedFiles(
-          updateInfo.storedHash || 'HEAD~1',
-          updateInfo.currentHash
-        );
-
-        const summary = {
-          added: 0,
-          modified: 0,
-          deleted: 0,
-          failed: 0,
-          filesProcessed: [] as string[],
-        };
-
-        // Process deletions
-        for (const file of changedFiles.filter((f) => f.changeType === 'deleted')) {
-          await instanceVectorStore.deleteDocument(file.path);
-          summary.deleted++;
-          summary.filesProcessed.push(file.path);
-        }
-
-        // Process additions and modifications
-        for (const file of changedFiles.filter((f) => f.changeType !== 'deleted')) {
-          try {
-            // Check if file already has embedding for this commit (resume logic)
-            const existing = await instanceVectorStore.getDocument(file.path, file.commitHash);
-            if (existing && !force) {
-              logger.debug(`Skipping ${file.path} - already embedded for this commit`);
-              summary.filesProcessed.push(file.path);
-              continue;
-            }
-
-            // Prepare content with more aggressive truncation for large files
-            const preparedContent = GeminiEmbedder.prepareText(file.content, 6000); // ~24KB to be safe
-            const embedding = await geminiEmbedder.embedText(preparedContent);
-            const title = GeminiEmbedder.extractTitle(file.content);
-
-            await instanceVectorStore.upsertDocument({
-              filePath: file.path,
-              title,
-              content: file.content,
-              gitHash: file.commitHash,
-              gitUrl,
-              embedding,
-            });
-
-            if (file.changeType === 'added') summary.added++;
-            else summary.modified++;
-            summary.filesProcessed.push(file.path);
-          } catch (fileError: any) {
-            logger.error(`Failed to process file ${file.path}:`, fileError.message);
-            summary.failed++;
-            summary.filesProcessed.push(`${file.path} (FAILED: ${fileError.message})`);
-          }
-        }
-
-        const successfulImports = summary.added + summary.modified + summary.deleted;
-        const totalFiles = changedFiles.length;
-
-        // Only update commit hash if at least one document was successfully processed
-        // This prevents poisoning the state when all imports fail (e.g. SSL/connection errors)
-        if (successfulImports > 0 || totalFiles === 0) {
-          await gitFetcher.updateCommitHash(updateInfo.currentHash);
-          await gitFetcher.updateSyncStatus('success');
-        } else {
-          logger.error(
-            `All ${summary.failed} document imports failed — commit hash NOT updated to allow retry`
-          );
-          await gitFetcher.updateSyncStatus(
-            'error',
-            `All ${summary.failed} document imports failed`
-          );
-        }
-
-        // Invalidate doc-index cache to regenerate with current filter config
-        await docIndexGenerator.invalidateCache();
-
-        // Get total document count
-        const stats = await instanceVectorStore.getStats();
-
-        logger.info(
-          `Documentation sync completed in ${Date.now() - startTime}ms: ${successfulImports} succeeded, ${summary.failed} failed`
-        );
+  // Sync job progress
+  router.get('/sync/jobs/:jobId', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const adminInstance = (req as any).adminInstance;
+      if (!adminInstance) {
+        return res.status(401).json({ error: 'No instance associated with admin' });
+      }
 
-        res.json({
-          success: successfulImports > 0 || summary.failed === 0,
-          hadUpdates: true,
-          currentHash: updateInfo.currentHash,
-          previousHash: updateInfo.storedHash,
-          summary,
-          totalDocuments: stats.totalDocuments,
-          duration: Date.now() - startTime,
+      const jobs = new DocSyncJobService(getInstanceDb(adminInstance), adminInstance);
+      const job = await jobs.getJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Sync job not found' });
+      }
+      res.json(job);
+    } catch (error) {
+      logger.error('Error fetching sync job:', error);
+      res.status(500).json({ error: 'Failed to fetch sync job' });
+    }
+  });
+
+  // Cancel a running sync job (stops before the next file)
+  router.post('/sync/jobs/:jobId/cancel', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const adminInstance = (req as any).adminInstance;
+      if (!adminInstance) {
+        return res.status(401).json({ error: 'No instance associated with admin' });
+      }
+
+      const jobs = new DocSyncJobService(getInstanceDb(adminInstance), adminInstance);
+      const job = await jobs.cancelJob(req.params.jobId);
+      if (!job) {
+        return res.status(409).json({ error: 'Sync job is not running' });
+      }
+      res.json(job);
+    } catch (error) {
+      logger.error('Error cancelling sync job:', error);
+      res.status(500).json({ error: 'Failed to cancel sync job' });
+    }
+  });
+
+  // Resume a cancelled, failed or interrupted sync job from its last handled file
+  router.post('/sync/jobs/:jobId/resume', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const adminInstance = (req as any).adminInstance;
+      if (!adminInstance) {
+        return res.status(401).json({ error: 'No instance associated with admin' });
+      }
+
+      const jobs = new DocSyncJobService(getInstanceDb(adminInstance), adminInstance);
+      const job = await jobs.resumeJob(req.params.jobId);
+      if (!job) {
+        return res.status(409).json({
+          error: 'Sync job cannot be resumed (completed, unknown or another job running)',
         });
-      } catch (syncError) {
-        await gitFetcher.updateSyncStatus('error', getErrorMessage(syncError));
-        throw syncError;
       }
+      res.status(202).json(job);
     } catch (error) {
-      logger.error('Documentation sync failed:', error);
-      res.status(500).json({
-        success: false,
-        error: getErrorMessage(error) || 'Unknown error during documentation sync',
-      });
+      logger.error('Error resuming sync job:', error);
+      res.status(500).json({ error: 'Failed to resume sync job' });
     }
   });
 
@@ -355,8 +335,12 @@ export function createDocsRoutes(adminAuth: RequestHandler): Router {
       const instanceVectorStore = new PgVectorStore(adminInstance, instanceDb);
 
       const syncState = await instanceDb.gitSyncState.findFirst({
-        where: { gitUrl },
+        where: { sourceId: 'default', gitUrl },
       });
+      const sources = await getSourceSyncStates(
+        instanceDb,
+        getDocSources(instanceConfig.documentation)
+      );
 
       if (!syncState) {
         return res.json({
@@ -365,11 +349,13 @@ export function createDocsRoutes(adminAuth: RequestHandler): Router {
           lastCommitHash: null,
           totalDocuments: 0,
           documentsWithEmbeddings: 0,
+          sources,
         });
       }
 
       // Get document counts
       const stats = await instanceVectorStore.getStats();
+      const activeJob = await new DocSyncJobService(instanceDb, adminInstance).getActiveJob();
 
       res.json({
         status: syncState.syncStatus,
@@ -380,6 +366,8 @@ export function createDocsRoutes(adminAuth: RequestHandler): Router {
         errorMessage: syncState.errorMessage,
         totalDocuments: stats.totalDocuments,
         documentsWithEmbeddings: stats.documentsWithEmbeddings,
+        activeJobId: activeJob?.jobId ?? null,
+        sources,
       });
     } catch (error) {
       logger.error('Error fetching sync status:', error);
@@ -70,6 +70,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Widget routes (includes both HTML and ask endpoint)
   app.use('/widget', widgetRoutes);
   app.use('/api/widget', widgetRoutes);
+  app.use('/:instance/widget', instanceMiddleware, widgetRoutes);
+  app.use('/:instance/api/widget', instanceMiddleware, widgetRoutes);
 
   // Documentation routes (public and admin)
   const docsRoutes = createDocsRoutes(adminAuth);
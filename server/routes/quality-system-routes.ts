@@ -6,6 +6,9 @@
  *
 
  * @created 2026-01-19
+ * @updated 2026-10-19 - LLM spend report and budget status
+ * @updated 2026-10-19 - Re-run a single thread of a pipeline run from its checkpoint
+ * @updated 2026-10-19 - Ruleset improvement suggestions recorded in the LLM usage
  */
 
 import { Router, Request, Response, RequestHandler } from 'express';
@@ -15,10 +18,14 @@ import { db } from '../db';
 import { getInstanceDb } from '../db/instance-db.js';
 import { createPromptRegistry } from '../pipeline/prompts/PromptRegistry.js';
 import { createLogger, getErrorMessage } from '../utils/logger.js';
-import { llmService } from '../stream/llm/llm-service.js';
 import { LLMModel } from '../stream/types.js';
+import { getLLMHandler } from '../pipeline/handlers/LLMHandlerFactory.js';
+import { MeteredLLMHandler } from '../pipeline/handlers/MeteredLLMHandler.js';
 import { getDefaultRulesetTemplate } from '../pipeline/types/ruleset.js';
 import { BatchMessageProcessor } from '../stream/processors/batch-message-processor.js';
+import { PipelineResumeError } from '../pipeline/core/PipelineOrchestrator.js';
+import { InstanceConfigLoader } from '../config/instance-loader.js';
+import { LLMUsageService, createLLMUsageRecorder } from '../llm/llm-usage.js';
 import path from 'path';
 
 const logger = createLogger('QualitySystemRoutes');
@@ -412,6 +419,8 @@ export function createQualitySystemRoutes(adminAuth: RequestHandler): Router {
           totalDurationMs: true,
           llmCalls: true,
           llmTokensUsed: true,
+          llmCostUsd: true,
+          resumedFromRunId: true,
           createdAt: true,
           completedAt: true,
           errorMessage: true,
@@ -462,6 +471,77 @@ export function createQualitySystemRoutes(adminAuth: RequestHandler): Router {
     }
   });
 
+  /**
+   * POST /pipeline/runs/:id/threads/:threadId/rerun
+   * Re-run one thread of a pipeline run, reusing the run's checkpointed results for the rest
+   * of the batch, and replace the thread's pending proposals
+   */
+  router.post(
+    '/pipeline/runs/:id/threads/:threadId/rerun',
+    adminAuth,
+    async (req: Request, res: Response) => {
+      try {
+        const instanceId = getInstanceId(req);
+        const runId = parseInt(req.params.id, 10);
+
+        if (!instanceId) {
+          return res.status(400).json({ error: 'Instance ID required' });
+        }
+        if (isNaN(runId)) {
+          return res.status(400).json({ error: 'Invalid run ID' });
+        }
+
+        const processor = new BatchMessageProcessor(instanceId, getDb(req));
+        const result = await processor.rerunThread(runId, req.params.threadId);
+
+        res.json(result);
+      } catch (error) {
+        if (error instanceof PipelineResumeError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error('Error re-running pipeline thread:', error);
+        res
+          .status(500)
+          .json({ error: 'Failed to re-run pipeline thread', details: getErrorMessage(error) });
+      }
+    }
+  );
+
+  /**
+   * GET /pipeline/llm-spend
+   * LLM spend over the last `days` days (default 30) by day, step and model,
+   * with the instance's budget and current daily/monthly spend
+   */
+  router.get('/pipeline/llm-spend', adminAuth, async (req: Request, res: Response) => {
+    try {
+      const instanceId = getInstanceId(req);
+      if (!instanceId) {
+        return res.status(400).json({ error: 'Instance ID required' });
+      }
+
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+      const usage = new LLMUsageService(getDb(req), instanceId);
+      const budget = InstanceConfigLoader.has(instanceId)
+        ? InstanceConfigLoader.get(instanceId).llm?.budget
+        : undefined;
+
+      const [report, budgetStatus] = await Promise.all([
+        usage.getSpendReport(days),
+        budget ? usage.getBudgetStatus(budget) : null,
+      ]);
+
+      res.json({
+        instanceId,
+        days,
+        ...report,
+        budget: budget && budgetStatus ? { ...budget, ...budgetStatus } : null,
+      });
+    } catch (error) {
+      logger.error('Error fetching LLM spend:', error);
+      res.status(500).json({ error: 'Failed to fetch LLM spend', details: getErrorMessage(error) });
+    }
+  });
+
   /**
    * GET /pipeline/prompts
    * Get all prompts with override status for debugging
@@ -720,7 +800,11 @@ Based on this feedback, suggest improvements to the ruleset. Look for patterns s
 Provide specific, actionable rule suggestions.`;
 
       try {
-        const { data } = await llmService.requestJSON(
+        const llm = new MeteredLLMHandler(
+          getLLMHandler('gemini'),
+          createLLMUsageRecorder(getDb(req), instanceId)
+        );
+        const { data } = await llm.requestJSON(
           {
             model: LLMModel.FLASH,
             systemPrompt,
@@ -728,7 +812,8 @@ Provide specific, actionable rule suggestions.`;
             temperature: 0.3,
             maxTokens: 4096,
           },
-          improvementResponseSchema
+          improvementResponseSchema,
+          { instanceId, purpose: 'ruleset-improvement' }
         );
 
         logger.info(
@@ -16,7 +16,8 @@ router.get('/widget.js', (req: Request, res: Response) => {
         init: function(options) {
             const config = {
                 expertId: options.expertId || 'default',
-                theme: options.theme || 'light',
+                instance: options.instance || '',
+                theme: options.theme || '',
                 position: options.position || 'bottom-right',
                 title: options.title || '${projectName} AI',
                 domain: '${domain}',
@@ -56,7 +57,10 @@ router.get('/widget.js', (req: Request, res: Response) => {
             // Create widget iframe
             const widgetFrame = document.createElement('iframe');
             widgetFrame.id = 'docpythia-widget-frame';
-            widgetFrame.src = \`\${config.domain}/widget/\${config.expertId}?theme=\${config.theme}&embedded=true\`;
+            // Instance widgets answer from that instance's docs; the theme defaults to its config
+            const basePath = config.instance ? '/' + config.instance : '';
+            const themeParam = config.theme ? '&theme=' + config.theme : '';
+            widgetFrame.src = \`\${config.domain}\${basePath}/widget/\${config.expertId}?embedded=true\${themeParam}\`;
             widgetFrame.style.cssText = \`
                 width: 350px;
                 height: 500px;
@@ -110,7 +114,8 @@ router.get('/widget.js', (req: Request, res: Response) => {
         if (autoInit) {
             const config = {
                 expertId: autoInit.getAttribute('data-expert-id') || 'default',
-                theme: autoInit.getAttribute('data-theme') || 'light',
+                instance: autoInit.getAttribute('data-instance') || '',
+                theme: autoInit.getAttribute('data-theme') || '',
                 position: autoInit.getAttribute('data-position') || 'bottom-right',
                 title: autoInit.getAttribute('data-title') || '${projectName} AI'
             };
@@ -227,7 +232,8 @@ router.get('/widget-demo', (req: Request, res: Response) => {
         <h2>⚙️ Configuration Options</h2>
         <ul>
             <li><code>expertId</code> - The expert/assistant ID (default: 'default')</li>
-            <li><code>theme</code> - 'light' or 'dark' (default: 'light')</li>
+            <li><code>instance</code> - Instance whose documentation answers questions (default: the default store)</li>
+            <li><code>theme</code> - 'light' or 'dark' (default: the instance's widget theme, otherwise 'light')</li>
             <li><code>position</code> - 'bottom-right', 'bottom-left', 'top-right', 'top-left'</li>
             <li><code>title</code> - Widget title (default: '${projectName} AI')</li>
         </ul>
@@ -1,10 +1,39 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { createAnalyzerFromEnv } from '../analyzer/gemini-analyzer';
-import { geminiEmbedder } from '../embeddings/gemini-embedder.js';
-import { PgVectorStore } from '../vector-store.js';
+import type { PrismaClient } from '@prisma/client';
+import { getInstanceEmbeddingProvider } from '../embeddings/instance-embeddings.js';
+import { PgVectorStore, type SearchResult } from '../vector-store.js';
 import { db as prisma } from '../db';
 import { createLogger, getErrorMessage } from '../utils/logger.js';
+import type { ILLMProvider } from '../llm/providers/index.js';
+import { getInstanceLLMProvider, getInstanceModelCatalog } from '../llm/instance-llm.js';
+import { PROMPT_TEMPLATES, fillTemplate } from '../stream/llm/prompt-templates.js';
+import {
+  WidgetSessionService,
+  type WidgetSessionState,
+  type WidgetSource,
+} from '../widget/widget-sessions.js';
+import {
+  WidgetFeedbackService,
+  WidgetFeedbackError,
+  isUnanswered,
+} from '../widget/widget-feedback.js';
+import { rewriteFollowUpQuestion } from '../widget/widget-chat.js';
+import {
+  buildGroundingSections,
+  defaultWidgetGroundingConfig,
+  findUnsupportedClaims,
+  formatGroundingContext,
+  refusalMessage,
+  retrievalConfidence,
+  sectionAnchor,
+  shouldRefuse,
+  type GroundingSection,
+  type WidgetGroundingConfig,
+} from '../widget/widget-grounding.js';
+import { getDocSources, resolveDocSource, type DocSource } from '../config/doc-sources.js';
+import { MeteredLLMProvider } from '../pipeline/handlers/MeteredLLMProvider.js';
+import { createLLMUsageRecorder } from '../llm/llm-usage.js';
 
 const logger = createLogger('WidgetRoutes');
 
@@ -16,34 +45,157 @@ try {
   logger.warn('Failed to initialize default vectorStore');
 }
 
+// One store per instance: each PgVectorStore opens its own connection pool
+const instanceVectorStores = new Map<string, PgVectorStore>();
+
+function getInstanceVectorStore(instanceId: string, db: PrismaClient): PgVectorStore {
+  let store = instanceVectorStores.get(instanceId);
+  if (!store) {
+    store = new PgVectorStore(instanceId, db);
+    instanceVectorStores.set(instanceId, store);
+  }
+  return store;
+}
+
+/**
+ * The instance's LLM provider; every call (rewrite, answer, claim check) is recorded
+ * in the instance's LLM usage
+ */
+function getWidgetLLM(context: WidgetContext): ILLMProvider {
+  return new MeteredLLMProvider(
+    getInstanceLLMProvider(context.instanceId),
+    getInstanceModelCatalog(context.instanceId),
+    { instanceId: context.instanceId, purpose: 'widget-answer' },
+    createLLMUsageRecorder(context.db, context.instanceId)
+  );
+}
+
 const router = Router();
 
+/**
+ * Where the widget's answers come from: the instance's database, docs and widget config
+ * when mounted under /:instance, otherwise the default store and WIDGET_* environment variables
+ */
+interface WidgetContext {
+  instanceId: string;
+  db: PrismaClient;
+  vectorStore: PgVectorStore;
+  projectName: string;
+  enabled: boolean;
+  title: string;
+  welcomeMessage: string;
+  placeholder: string;
+  suggestedQuestions: string[];
+  theme: 'light' | 'dark';
+  allowedOrigins?: string[];
+  docSources: DocSource[] | null; // null: links use DOCS_GIT_URL on main
+  grounding: WidgetGroundingConfig;
+}
+
+function getWidgetContext(req: Request): WidgetContext {
+  if (req.instance) {
+    const { id, config, db } = req.instance;
+    return {
+      instanceId: id,
+      db,
+      vectorStore: getInstanceVectorStore(id, db),
+      projectName: config.project.name,
+      enabled: config.widget.enabled,
+      title: config.widget.title,
+      welcomeMessage: config.widget.welcomeMessage,
+      placeholder: `Ask me anything about ${config.project.name}...`,
+      suggestedQuestions: config.widget.suggestedQuestions,
+      // "auto" renders light; the embedding page can still pass ?theme=dark
+      theme: config.widget.theme === 'dark' ? 'dark' : 'light',
+      allowedOrigins: config.widget.allowedOrigins,
+      docSources: getDocSources(config.documentation),
+      grounding: {
+        strictMode: config.widget.strictMode ?? defaultWidgetGroundingConfig.strictMode,
+        minConfidence: config.widget.minConfidence ?? defaultWidgetGroundingConfig.minConfidence,
+        checkClaims: config.widget.checkClaims ?? defaultWidgetGroundingConfig.checkClaims,
+      },
+    };
+  }
+
+  const projectName = process.env.PROJECT_NAME || 'DocPythia';
+  // Suggested questions from env (pipe-separated) or defaults
+  const suggestedQuestionsEnv = process.env.WIDGET_SUGGESTED_QUESTIONS || '';
+  return {
+    instanceId: 'default',
+    db: prisma,
+    vectorStore,
+    projectName,
+    enabled: true,
+    title: process.env.WIDGET_TITLE || `${projectName} Assistant`,
+    welcomeMessage:
+      process.env.WIDGET_WELCOME_MESSAGE ||
+      `Hello! I'm your ${projectName} documentation assistant. How can I help you today?`,
+    placeholder: process.env.WIDGET_PLACEHOLDER || `Ask me anything about ${projectName}...`,
+    suggestedQuestions: suggestedQuestionsEnv
+      ? suggestedQuestionsEnv
+          .split('|')
+          .map((q) => q.trim())
+          .filter((q) => q)
+      : [
+          'How do I get started?',
+          'What are the system requirements?',
+          'How do I configure the service?',
+        ],
+    theme: 'light',
+    docSources: null,
+    grounding: defaultWidgetGroundingConfig,
+  };
+}
+
+/**
+ * Reject disabled widgets and requests from origins the instance doesn't allow.
+ * Allowed origins may embed the widget and call the ask endpoints cross-origin (CORS).
+ */
+function widgetAccess(req: Request, res: Response, next: NextFunction) {
+  const context = getWidgetContext(req);
+  if (!context.enabled) {
+    return res.status(404).json({ error: 'Widget is disabled' });
+  }
+
+  const origin = req.get('origin');
+  if (origin && context.allowedOrigins) {
+    if (context.allowedOrigins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Vary', 'Origin');
+      if (req.method === 'OPTIONS') {
+        return res.sendStatus(204);
+      }
+    } else if (!isSameOrigin(req, origin)) {
+      return res.status(403).json({ error: 'Origin not allowed' });
+    }
+  }
+
+  next();
+}
+
+function isSameOrigin(req: Request, origin: string): boolean {
+  try {
+    return new URL(origin).host === req.get('host');
+  } catch {
+    return false;
+  }
+}
+
+router.use(widgetAccess);
+
 // Widget HTML endpoint
 router.get('/:expertId', (req: Request, res: Response) => {
   const { expertId } = req.params;
-  const { theme = 'light' } = req.query;
+  const context = getWidgetContext(req);
+  const theme = req.query.theme || context.theme;
 
-  // Configurable widget content
-  const projectName = process.env.PROJECT_NAME || 'DocPythia';
-  const widgetTitle = process.env.WIDGET_TITLE || `${projectName} Assistant`;
-  const welcomeMessage =
-    process.env.WIDGET_WELCOME_MESSAGE ||
-    `Hello! I'm your ${projectName} documentation assistant. How can I help you today?`;
-  const placeholderText =
-    process.env.WIDGET_PLACEHOLDER || `Ask me anything about ${projectName}...`;
-
-  // Suggested questions from env (comma-separated) or defaults
-  const suggestedQuestionsEnv = process.env.WIDGET_SUGGESTED_QUESTIONS || '';
-  const suggestedQuestions = suggestedQuestionsEnv
-    ? suggestedQuestionsEnv
-        .split('|')
-        .map((q) => q.trim())
-        .filter((q) => q)
-    : [
-        'How do I get started?',
-        'What are the system requirements?',
-        'How do I configure the service?',
-      ];
+  const projectName = context.projectName;
+  const widgetTitle = context.title;
+  const welcomeMessage = context.welcomeMessage;
+  const placeholderText = context.placeholder;
+  const suggestedQuestions = context.suggestedQuestions;
 
   const widgetHtml = `
 <!DOCTYPE html>
@@ -148,6 +300,60 @@ router.get('/:expertId', (req: Request, res: Response) => {
             background: #0056b3;
         }
 
+        .send-button.stop {
+            background: #dc3545;
+        }
+
+        .message-sources {
+            margin-top: 8px;
+            font-size: 12px;
+        }
+
+        .message-sources a {
+            display: block;
+            color: ${theme === 'dark' ? '#8ab4f8' : '#0056b3'};
+        }
+
+        .citation {
+            font-size: 11px;
+            vertical-align: super;
+            text-decoration: none;
+            color: ${theme === 'dark' ? '#8ab4f8' : '#0056b3'};
+        }
+
+        .message-warning {
+            margin-top: 8px;
+            padding: 6px 8px;
+            font-size: 12px;
+            border-radius: 6px;
+            background: ${theme === 'dark' ? '#4a3b12' : '#fff4d6'};
+        }
+
+        .message-feedback {
+            display: flex;
+            gap: 6px;
+            margin-top: 8px;
+            font-size: 12px;
+        }
+
+        .feedback-button {
+            padding: 2px 8px;
+            background: transparent;
+            border: 1px solid ${theme === 'dark' ? '#555' : '#ccc'};
+            border-radius: 6px;
+            color: inherit;
+            cursor: pointer;
+        }
+
+        .feedback-comment {
+            flex: 1;
+            padding: 4px 6px;
+            border: 1px solid ${theme === 'dark' ? '#555' : '#ccc'};
+            border-radius: 6px;
+            background: transparent;
+            color: inherit;
+        }
+
         .suggested-questions {
             display: flex;
             flex-direction: column;
@@ -205,7 +411,7 @@ router.get('/:expertId', (req: Request, res: Response) => {
                     id="chatInput"
                     onkeypress="handleKeyPress(event)"
                 />
-                <button class="send-button" onclick="sendMessage()">
+                <button class="send-button" id="sendButton" onclick="sendMessage()">
                     Send
                 </button>
             </div>
@@ -214,6 +420,9 @@ router.get('/:expertId', (req: Request, res: Response) => {
 
     <script>
         const projectName = '${projectName}';
+        const SESSION_KEY = 'docpythia-widget-session';
+        let sessionId = sessionStorage.getItem(SESSION_KEY) || undefined;
+        let activeRequest = null;
 
         function askQuestion(question) {
             const input = document.getElementById('chatInput');
@@ -228,6 +437,12 @@ router.get('/:expertId', (req: Request, res: Response) => {
         }
 
         function sendMessage() {
+            // While an answer is streaming the button stops it
+            if (activeRequest) {
+                activeRequest.abort();
+                return;
+            }
+
             const input = document.getElementById('chatInput');
             const message = input.value.trim();
 
@@ -237,10 +452,198 @@ router.get('/:expertId', (req: Request, res: Response) => {
             addMessage(message, 'user');
             input.value = '';
 
-            // Simulate AI response (replace with actual API call)
-            setTimeout(() => {
-                addMessage('I\\'m processing your question. This is a demo response.', 'assistant');
-            }, 1000);
+            const answerDiv = addMessage('', 'assistant');
+            const answerText = document.createElement('span');
+            answerText.textContent = '…';
+            answerDiv.appendChild(answerText);
+            let answer = '';
+
+            activeRequest = new AbortController();
+            setSendButton(true);
+
+            // The session carries the conversation, so follow-up questions can build on it
+            fetch('ask/stream', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ question: message, sessionId: sessionId }),
+                signal: activeRequest.signal
+            })
+                .then((response) => {
+                    if (!response.ok) {
+                        return response.json().then((data) => {
+                            throw new Error(data.error);
+                        });
+                    }
+                    return readEvents(response.body, (event, data) => {
+                        if (event === 'token') {
+                            answer += data.text;
+                            answerText.textContent = answer;
+                        } else if (event === 'sources') {
+                            sessionId = data.sessionId;
+                            sessionStorage.setItem(SESSION_KEY, sessionId);
+                            linkCitations(answerText, answer, data.sources);
+                            addSources(answerDiv, data.sources);
+                            addClaimWarning(answerDiv, data.unsupportedClaims);
+                            if (data.answerId) {
+                                addFeedback(answerDiv, data.answerId);
+                            }
+                        } else if (event === 'error') {
+                            throw new Error(data.error);
+                        }
+                        scrollToBottom();
+                    });
+                })
+                .catch((error) => {
+                    if (error.name === 'AbortError') {
+                        answerText.textContent = answer ? answer + ' [stopped]' : '[stopped]';
+                    } else {
+                        answerText.textContent = 'Sorry, something went wrong. Please try again.';
+                    }
+                })
+                .finally(() => {
+                    activeRequest = null;
+                    setSendButton(false);
+                });
+        }
+
+        // Parse server-sent events from a fetch response body
+        async function readEvents(body, onEvent) {
+            const reader = body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                const events = buffer.split('\\n\\n');
+                buffer = events.pop();
+                for (const raw of events) {
+                    let event = 'message';
+                    let data = '';
+                    for (const line of raw.split('\\n')) {
+                        if (line.startsWith('event: ')) event = line.slice(7);
+                        else if (line.startsWith('data: ')) data += line.slice(6);
+                    }
+                    onEvent(event, data ? JSON.parse(data) : {});
+                }
+            }
+        }
+
+        function addSources(answerDiv, sources) {
+            if (!sources || sources.length === 0) return;
+            const sourcesDiv = document.createElement('div');
+            sourcesDiv.className = 'message-sources';
+            for (const source of sources) {
+                const link = document.createElement('a');
+                link.href = source.url;
+                link.target = '_blank';
+                link.rel = 'noopener';
+                link.textContent = '[' + source.id + '] ' + sourceLabel(source);
+                sourcesDiv.appendChild(link);
+            }
+            answerDiv.appendChild(sourcesDiv);
+        }
+
+        function sourceLabel(source) {
+            return source.section ? source.title + ' › ' + source.section : source.title;
+        }
+
+        // Turn the [n] citations of the answer into links to the cited sections
+        function linkCitations(answerText, text, sources) {
+            const byId = {};
+            for (const source of sources || []) byId[source.id] = source;
+            answerText.textContent = '';
+            for (const part of text.split(/(\\[\\d+\\])/)) {
+                const match = part.match(/^\\[(\\d+)\\]$/);
+                const source = match && byId[match[1]];
+                if (!source) {
+                    answerText.appendChild(document.createTextNode(part));
+                    continue;
+                }
+                const link = document.createElement('a');
+                link.className = 'citation';
+                link.href = source.url;
+                link.target = '_blank';
+                link.rel = 'noopener';
+                link.title = sourceLabel(source);
+                link.textContent = part;
+                answerText.appendChild(link);
+            }
+        }
+
+        // Claims the post-check could not find in the cited documentation
+        function addClaimWarning(answerDiv, claims) {
+            if (!claims || claims.length === 0) return;
+            const warning = document.createElement('div');
+            warning.className = 'message-warning';
+            warning.textContent = 'Not confirmed by the documentation: ' + claims.join(' · ');
+            answerDiv.appendChild(warning);
+        }
+
+        // Thumbs up sends right away; thumbs down first asks what was missing or wrong
+        function addFeedback(answerDiv, answerId) {
+            const feedbackDiv = document.createElement('div');
+            feedbackDiv.className = 'message-feedback';
+
+            const up = createFeedbackButton('👍', 'Helpful');
+            up.onclick = () => sendFeedback(feedbackDiv, answerId, 'up');
+
+            const down = createFeedbackButton('👎', 'Not helpful');
+            down.onclick = () => {
+                feedbackDiv.innerHTML = '';
+                const comment = document.createElement('input');
+                comment.className = 'feedback-comment';
+                comment.placeholder = 'What was missing or wrong? (optional)';
+                const send = createFeedbackButton('Send', 'Send feedback');
+                send.onclick = () => sendFeedback(feedbackDiv, answerId, 'down', comment.value);
+                feedbackDiv.appendChild(comment);
+                feedbackDiv.appendChild(send);
+                comment.focus();
+            };
+
+            feedbackDiv.appendChild(up);
+            feedbackDiv.appendChild(down);
+            answerDiv.appendChild(feedbackDiv);
+        }
+
+        function createFeedbackButton(label, title) {
+            const button = document.createElement('button');
+            button.className = 'feedback-button';
+            button.textContent = label;
+            button.title = title;
+            return button;
+        }
+
+        function sendFeedback(feedbackDiv, answerId, rating, comment) {
+            fetch('feedback', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    sessionId: sessionId,
+                    answerId: answerId,
+                    rating: rating,
+                    comment: comment || undefined
+                })
+            })
+                .then((response) => {
+                    feedbackDiv.textContent = response.ok
+                        ? 'Thanks for your feedback!'
+                        : 'Sorry, the feedback could not be sent.';
+                })
+                .catch(() => {
+                    feedbackDiv.textContent = 'Sorry, the feedback could not be sent.';
+                });
+        }
+
+        function setSendButton(streaming) {
+            const button = document.getElementById('sendButton');
+            button.textContent = streaming ? 'Stop' : 'Send';
+            button.classList.toggle('stop', streaming);
+        }
+
+        function scrollToBottom() {
+            const messagesContainer = document.getElementById('messages');
+            messagesContainer.scrollTop = messagesContainer.scrollHeight;
         }
 
         function addMessage(text, sender) {
@@ -249,7 +652,7 @@ router.get('/:expertId', (req: Request, res: Response) => {
             messageDiv.className = \`message \${sender}\`;
             messageDiv.textContent = text;
             messagesContainer.appendChild(messageDiv);
-            messagesContainer.scrollTop = messagesContainer.scrollHeight;
+            scrollToBottom();
 
             // Remove suggested questions after first user message
             if (sender === 'user') {
@@ -258,6 +661,7 @@ router.get('/:expertId', (req: Request, res: Response) => {
                     suggestions.remove();
                 }
             }
+            return messageDiv;
         }
 
         // Notify parent window if embedded
@@ -272,84 +676,315 @@ router.get('/:expertId', (req: Request, res: Response) => {
 </html>`;
 
   res.setHeader('Content-Type', 'text/html');
-  res.setHeader('X-Frame-Options', 'SAMEORIGIN');
+  if (context.allowedOrigins) {
+    res.setHeader(
+      'Content-Security-Policy',
+      `frame-ancestors 'self' ${context.allowedOrigins.join(' ')}`
+    );
+  } else {
+    res.setHeader('X-Frame-Options', 'SAMEORIGIN');
+  }
   res.send(widgetHtml);
 });
 
+const askBodySchema = z.object({
+  question: z.string().min(1),
+  sessionId: z.string().optional(),
+});
+
+interface PreparedAnswer {
+  sessions: WidgetSessionService;
+  session: WidgetSessionState;
+  searchQuery: string;
+  prompt: string;
+  systemPrompt: string;
+  retrievedDocs: SearchResult[];
+  sections: GroundingSection[]; // Numbered as cited in the answer
+  usedRetrieval: boolean;
+  refusal?: string; // No (confident) documentation match: sent instead of generating an answer
+}
+
+/**
+ * Load the session, search the docs for the (rewritten) question and build the answer prompt
+ */
+async function prepareAnswer(
+  context: WidgetContext,
+  llm: ILLMProvider,
+  question: string,
+  sessionId?: string
+): Promise<PreparedAnswer> {
+  const { projectName } = context;
+  const sessions = new WidgetSessionService(context.db);
+  const session = await sessions.getOrCreate(sessionId);
+
+  // Follow-ups ("and on Windows?") are searched as standalone questions
+  const searchQuery = await rewriteFollowUpQuestion(llm, session.history, question, projectName);
+
+  // Get RAG context using hybrid (vector + full-text) search
+  const queryEmbedding = await getInstanceEmbeddingProvider(context.instanceId).embedText(
+    searchQuery
+  );
+  const similarDocs = await context.vectorStore.searchHybrid(queryEmbedding, searchQuery, {
+    topK: 5,
+  });
+  const sections = buildGroundingSections(similarDocs);
+
+  // Questions without any matching section are declined (see shouldRefuse), never answered
+  // from the model's general knowledge
+  const prompt = fillTemplate(PROMPT_TEMPLATES.groundedAnswer.user, {
+    context: formatGroundingContext(sections),
+    question,
+  });
+
+  return {
+    sessions,
+    session,
+    searchQuery,
+    prompt,
+    systemPrompt: fillTemplate(PROMPT_TEMPLATES.documentationAnswer.system, { projectName }),
+    retrievedDocs: similarDocs,
+    sections,
+    usedRetrieval: similarDocs.length > 0,
+    ...(shouldRefuse(sections, context.grounding) && { refusal: refusalMessage(projectName) }),
+  };
+}
+
+/**
+ * Store the answered turn and report it as a documentation gap when the docs had no good match.
+ * Returns the answer id for feedback; a failure only costs the follow-up context and feedback,
+ * not the answer
+ */
+async function recordAnswer(
+  context: WidgetContext,
+  prepared: PreparedAnswer,
+  question: string,
+  answer: string,
+  sources: WidgetSource[]
+): Promise<number | undefined> {
+  try {
+    const answerId = await prepared.sessions.appendTurn(prepared.session.sessionId, {
+      question,
+      standaloneQuery: prepared.searchQuery,
+      answer,
+      sources,
+    });
+
+    if (isUnanswered(prepared.retrievedDocs)) {
+      await new WidgetFeedbackService(context.db).reportGap({
+        sessionId: prepared.session.sessionId,
+        answerId,
+        question,
+        answer,
+        sources,
+        reason: 'unanswered',
+      });
+    }
+    return answerId;
+  } catch (error) {
+    logger.warn(`Failed to store widget session turn: ${getErrorMessage(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Sources, the claim check, store the turn: everything sent with the answer text
+ */
+async function completeAnswer(
+  context: WidgetContext,
+  llm: ILLMProvider,
+  prepared: PreparedAnswer,
+  question: string,
+  answer: string
+) {
+  const sources = buildSources(context, prepared.sections);
+  const unsupportedClaims =
+    context.grounding.checkClaims && !prepared.refusal
+      ? await findUnsupportedClaims(llm, answer, prepared.sections, context.projectName)
+      : undefined;
+  const answerId = await recordAnswer(context, prepared, question, answer, sources);
+
+  return {
+    sources,
+    usedRAG: prepared.usedRetrieval,
+    sessionId: prepared.session.sessionId,
+    answerId,
+    confidence: retrievalConfidence(prepared.sections),
+    refused: Boolean(prepared.refusal),
+    unsupportedClaims,
+  };
+}
+
+// One source per cited section, linked to its heading
+function buildSources(context: WidgetContext, sections: GroundingSection[]): WidgetSource[] {
+  return sections.map((section) => {
+    const anchor = sectionAnchor(section);
+    return {
+      id: section.id,
+      title: section.title,
+      ...(section.headingPath && { section: section.headingPath }),
+      filePath: section.filePath,
+      url: `${buildDocUrl(context, section.filePath)}${anchor ? `#${anchor}` : ''}`,
+      relevance: section.similarity,
+    };
+  });
+}
+
+// Link to the page in the repository and on the branch it was synced from
+function buildDocUrl(context: WidgetContext, filePath: string): string {
+  if (!context.docSources) {
+    const baseUrl = (process.env.DOCS_GIT_URL || '').replace(/\.git$/, '');
+    return `${baseUrl}/blob/main/${filePath}`;
+  }
+  const { source, repoPath } = resolveDocSource(context.docSources, filePath);
+  return `${source.gitUrl.replace(/\.git$/, '')}/blob/${source.branch}/${repoPath}`;
+}
+
 // Widget ask endpoint (public)
 router.post('/ask', async (req: Request, res: Response) => {
   try {
-    const bodyValidation = z
-      .object({
-        question: z.string().min(1),
-        sessionId: z.string().optional(),
-      })
-      .safeParse(req.body);
+    const bodyValidation = askBodySchema.safeParse(req.body);
 
     if (!bodyValidation.success) {
       return res.status(400).json({ error: 'Invalid request body', details: bodyValidation.error });
     }
 
-    const { question } = bodyValidation.data;
+    const { question, sessionId } = bodyValidation.data;
+    const context = getWidgetContext(req);
 
-    logger.debug(`Widget question received: "${question.substring(0, 100)}..."`);
+    logger.debug(
+      `[${context.instanceId}] Widget question received: "${question.substring(0, 100)}..."`
+    );
 
-    // Get RAG context using vector store directly
-    const queryEmbedding = await geminiEmbedder.embedText(question);
-    const similarDocs = await vectorStore.searchSimilar(queryEmbedding, 3);
+    let llm: ILLMProvider;
+    try {
+      llm = getWidgetLLM(context);
+    } catch (error) {
+      return res.status(500).json({
+        error: `AI service not configured: ${getErrorMessage(error)}`,
+      });
+    }
 
-    const context = {
-      retrievedDocs: similarDocs,
-      formattedContext:
-        similarDocs.length > 0
-          ? similarDocs
-              .map((doc, idx) => `[${idx + 1}] ${doc.title} (${doc.filePath})\n${doc.content}`)
-              .join('\n\n---\n\n')
-          : '',
-      usedRetrieval: similarDocs.length > 0,
-    };
+    const prepared = await prepareAnswer(context, llm, question, sessionId);
 
-    // Generate answer using Gemini with context
-    const analyzer = createAnalyzerFromEnv();
+    // Answer with the session's earlier questions and answers as conversation history
+    const answer =
+      prepared.refusal ??
+      (
+        await llm.generateWithHistory(prepared.prompt, prepared.session.history, {
+          systemPrompt: prepared.systemPrompt,
+          temperature: 0.7,
+          maxTokens: 1024,
+        })
+      ).text;
 
-    if (!analyzer) {
-      return res.status(500).json({
-        error: 'AI service not configured. Please set GEMINI_API_KEY environment variable.',
+    res.json({ answer, ...(await completeAnswer(context, llm, prepared, question, answer)) });
+  } catch (error) {
+    logger.error('Error processing widget question:', error);
+    res.status(500).json({
+      error: 'Failed to process question',
+      details: getErrorMessage(error),
+    });
+  }
+});
+
+// Streaming widget ask endpoint (public): `token` events with the answer text as it is
+// generated, then a final `sources` event (or an `error` event)
+router.post('/ask/stream', async (req: Request, res: Response) => {
+  const bodyValidation = askBodySchema.safeParse(req.body);
+
+  if (!bodyValidation.success) {
+    return res.status(400).json({ error: 'Invalid request body', details: bodyValidation.error });
+  }
+
+  const { question, sessionId } = bodyValidation.data;
+  const context = getWidgetContext(req);
+
+  logger.debug(
+    `[${context.instanceId}] Widget streaming question received: "${question.substring(0, 100)}..."`
+  );
+
+  let llm: ILLMProvider;
+  try {
+    llm = getWidgetLLM(context);
+  } catch (error) {
+    return res.status(500).json({
+      error: `AI service not configured: ${getErrorMessage(error)}`,
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // The widget cancels by closing the connection; stop generating the answer too
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abortController.abort();
+  });
+
+  try {
+    const prepared = await prepareAnswer(context, llm, question, sessionId);
+
+    let answer: string;
+    if (prepared.refusal) {
+      answer = prepared.refusal;
+      send('token', { text: answer });
+    } else {
+      const result = await llm.streamWithHistory(prepared.prompt, prepared.session.history, {
+        systemPrompt: prepared.systemPrompt,
+        temperature: 0.7,
+        maxTokens: 1024,
+        signal: abortController.signal,
+        onToken: (text) => send('token', { text }),
       });
+      answer = result.text;
     }
 
-    const projectName = process.env.PROJECT_NAME || 'the documentation';
-    let prompt = '';
-    if (context.usedRetrieval && context.formattedContext) {
-      prompt = `${context.formattedContext}\n\n---\n\nQuestion: ${question}\n\nProvide a helpful answer based on the documentation above. If the documentation doesn't contain relevant information, let the user know.`;
-    } else {
-      prompt = `Question: ${question}\n\nProvide a helpful answer about ${projectName} based on your general knowledge.`;
+    send('sources', await completeAnswer(context, llm, prepared, question, answer));
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      logger.debug('Widget answer cancelled by the client');
+      return;
     }
+    logger.error('Error streaming widget answer:', error);
+    send('error', { error: 'Failed to process question', details: getErrorMessage(error) });
+  }
+  res.end();
+});
 
-    // Use the analyzer's generateAnswer method if available, otherwise use a basic response
-    const answer = await analyzer.generateDocumentationAnswer(prompt);
+const feedbackBodySchema = z.object({
+  sessionId: z.string().uuid(),
+  answerId: z.number().int().positive(),
+  rating: z.enum(['up', 'down']),
+  comment: z.string().max(2000).optional(),
+});
 
-    // Build document URL helper
-    const buildDocUrl = (filePath: string): string => {
-      const baseUrl = process.env.DOCS_GIT_URL || '';
-      const cleanBaseUrl = baseUrl.replace(/\.git$/, '');
-      return `${cleanBaseUrl}/blob/main/${filePath}`;
-    };
+// Widget answer feedback endpoint (public): thumbs up/down with an optional comment
+router.post('/feedback', async (req: Request, res: Response) => {
+  try {
+    const bodyValidation = feedbackBodySchema.safeParse(req.body);
 
-    res.json({
-      answer,
-      sources: context.retrievedDocs.map((doc) => ({
-        title: doc.title,
-        filePath: doc.filePath,
-        url: buildDocUrl(doc.filePath),
-        relevance: doc.similarity,
-      })),
-      usedRAG: context.usedRetrieval,
-    });
+    if (!bodyValidation.success) {
+      return res.status(400).json({ error: 'Invalid request body', details: bodyValidation.error });
+    }
+
+    const context = getWidgetContext(req);
+    await new WidgetFeedbackService(context.db).submit(bodyValidation.data);
+
+    res.json({ success: true });
   } catch (error) {
-    logger.error('Error processing widget question:', error);
+    if (error instanceof WidgetFeedbackError) {
+      return res.status(404).json({ error: error.message });
+    }
+    logger.error('Error storing widget feedback:', error);
     res.status(500).json({
-      error: 'Failed to process question',
+      error: 'Failed to store feedback',
       details: getErrorMessage(error),
     });
   }
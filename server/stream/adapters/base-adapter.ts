@@ -113,6 +113,53 @@ export abstract class BaseStreamAdapter implements StreamAdapter {
     );
   }
 
+  /**
+   * Get watermark for a single resource (channel, thread, file) within this stream
+   */
+  protected async getResourceWatermark(resourceId: string): Promise<StreamWatermark> {
+    const watermark = await this.db.importWatermark.findFirst({
+      where: {
+        streamId: this.streamId,
+        resourceId,
+      },
+    });
+
+    return {
+      lastProcessedTime: watermark?.lastImportedTime || undefined,
+      lastProcessedId: watermark?.lastImportedId || undefined,
+      totalProcessed: 0,
+    };
+  }
+
+  /**
+   * Update (or create) the watermark for a single resource within this stream
+   */
+  protected async updateResourceWatermark(
+    resourceId: string,
+    lastProcessedTime: Date,
+    lastProcessedId: string
+  ): Promise<void> {
+    await this.db.importWatermark.upsert({
+      where: {
+        streamId_resourceId: {
+          streamId: this.streamId,
+          resourceId,
+        },
+      },
+      create: {
+        streamId: this.streamId,
+        streamType: this.adapterType,
+        resourceId,
+        lastImportedTime: lastProcessedTime,
+        lastImportedId: lastProcessedId,
+      },
+      update: {
+        lastImportedTime: lastProcessedTime,
+        lastImportedId: lastProcessedId,
+      },
+    });
+  }
+
   /**
    * Ensure stream config exists in database
    */
@@ -10,9 +10,11 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { parse } from 'csv-parse/sync';
 import { PrismaClient } from '@prisma/client';
-import { BaseStreamAdapter } from './base-adapter.js';
+import { FileInboxAdapter, FileProcessingResult, ProcessingReport } from './file-inbox-adapter.js';
 import { StreamMessage, StreamWatermark } from '../types.js';
 
+export type { ProcessingReport } from './file-inbox-adapter.js';
+
 export interface CsvFileConfig {
   inboxDir: string; // Directory to watch for CSV files
   processedDir: string; // Directory to move processed files
@@ -22,22 +24,15 @@ export interface CsvFileConfig {
     content: string; // Column name for message content (required)
     channel?: string; // Column name for channel (optional)
     messageId?: string; // Column name for message ID (optional, auto-generated if missing)
+    replyTo?: string; // Column name for the ID of the message being replied to (optional)
   };
   dateFormat?: string; // Date format string (default: ISO 8601)
   skipHeader?: boolean; // Whether to skip first row (default: true)
 }
 
-export interface ProcessingReport {
-  fileName: string;
-  totalRows: number;
-  successfulRows: number;
-  failedRows: number;
-  errors: Array<{ row: number; error: string }>;
-  processedAt: Date;
-}
-
-export class CsvFileAdapter extends BaseStreamAdapter {
+export class CsvFileAdapter extends FileInboxAdapter {
   private csvConfig!: CsvFileConfig;
+  protected readonly fileExtensions = ['.csv'];
 
   constructor(streamId: string, db: PrismaClient) {
     super(streamId, 'csv', db);
@@ -71,19 +66,8 @@ export class CsvFileAdapter extends BaseStreamAdapter {
     return true;
   }
 
-  /**
-   * Initialize adapter and ensure directories exist
-   */
-  async initialize(config: any): Promise<void> {
-    await super.initialize(config);
-
-    // Ensure inbox and processed directories exist
-    await fs.mkdir(this.csvConfig.inboxDir, { recursive: true });
-    await fs.mkdir(this.csvConfig.processedDir, { recursive: true });
-
-    console.log(
-      `CsvFileAdapter initialized: inbox=${this.csvConfig.inboxDir}, processed=${this.csvConfig.processedDir}`
-    );
+  protected getDirectories(): { inboxDir: string; processedDir: string } {
+    return { inboxDir: this.csvConfig.inboxDir, processedDir: this.csvConfig.processedDir };
   }
 
   /**
@@ -92,37 +76,7 @@ export class CsvFileAdapter extends BaseStreamAdapter {
   async fetchMessages(watermark?: StreamWatermark): Promise<StreamMessage[]> {
     this.ensureInitialized();
 
-    const files = await this.getInboxFiles();
-
-    if (files.length === 0) {
-      console.log('No CSV files found in inbox');
-      return [];
-    }
-
-    console.log(`Found ${files.length} CSV files to process`);
-
-    const allMessages: StreamMessage[] = [];
-
-    for (const file of files) {
-      try {
-        const { messages, report } = await this.processFile(file);
-
-        // Save processing report
-        await this.saveProcessingReport(file, report);
-
-        // Move file to processed directory
-        await this.moveToProcessed(file);
-
-        allMessages.push(...messages);
-
-        console.log(
-          `Processed ${file}: ${report.successfulRows}/${report.totalRows} rows successful`
-        );
-      } catch (error) {
-        console.error(`Error processing file ${file}:`, error);
-        // Continue with next file
-      }
-    }
+    const allMessages = await this.processInbox();
 
     // Filter messages based on watermark
     let messagesToProcess = allMessages;
@@ -141,24 +95,10 @@ export class CsvFileAdapter extends BaseStreamAdapter {
     return messagesToProcess;
   }
 
-  /**
-   * Get list of CSV files in inbox
-   */
-  private async getInboxFiles(): Promise<string[]> {
-    const entries = await fs.readdir(this.csvConfig.inboxDir, { withFileTypes: true });
-
-    return entries
-      .filter((entry) => entry.isFile() && entry.name.endsWith('.csv'))
-      .map((entry) => path.join(this.csvConfig.inboxDir, entry.name));
-  }
-
   /**
    * Process a single CSV file
    */
-  private async processFile(filePath: string): Promise<{
-    messages: StreamMessage[];
-    report: ProcessingReport;
-  }> {
+  protected async processFile(filePath: string): Promise<FileProcessingResult> {
     const fileName = path.basename(filePath);
     const fileContent = await fs.readFile(filePath, 'utf-8');
 
@@ -238,6 +178,9 @@ export class CsvFileAdapter extends BaseStreamAdapter {
         ? row[mapping.messageId]
         : `${fileName}-row-${rowNumber}`;
 
+    // Extract reply link (refers to another row's message ID)
+    const replyTo = mapping.replyTo && row[mapping.replyTo] ? row[mapping.replyTo] : undefined;
+
     return {
       messageId,
       timestamp,
@@ -249,35 +192,8 @@ export class CsvFileAdapter extends BaseStreamAdapter {
         source: 'csv',
         fileName,
         rowNumber,
+        replyToMessageId: replyTo,
       },
     };
   }
-
-  /**
-   * Move processed file to processed directory
-   */
-  private async moveToProcessed(filePath: string): Promise<void> {
-    const fileName = path.basename(filePath);
-    const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
-    const newFileName = `${timestamp}_${fileName}`;
-    const newPath = path.join(this.csvConfig.processedDir, newFileName);
-
-    await fs.rename(filePath, newPath);
-    console.log(`Moved ${fileName} to ${newPath}`);
-  }
-
-  /**
-   * Save processing report as JSON
-   */
-  private async saveProcessingReport(filePath: string, report: ProcessingReport): Promise<void> {
-    const fileName = path.basename(filePath, '.csv');
-    const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
-    const reportPath = path.join(
-      this.csvConfig.processedDir,
-      `${timestamp}_${fileName}_report.json`
-    );
-
-    await fs.writeFile(reportPath, JSON.stringify(report, null, 2));
-    console.log(`Saved processing report to ${reportPath}`);
-  }
 }
@@ -0,0 +1,428 @@
+/**
+ * Discord Stream Adapter
+ * Pull-based polling adapter for Discord guild channels and their threads
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Watermark past skipped messages; page through archived threads
+ * Reference: /docs/STREAM-CONFIGURATION.md
+ */
+
+import { BaseStreamAdapter } from './base-adapter.js';
+import { StreamMessage, StreamWatermark } from '../types.js';
+import { PrismaClient } from '@prisma/client';
+
+const DISCORD_API_BASE = 'https://discord.com/api/v10';
+const DISCORD_EPOCH = 1420070400000n;
+const MAX_PAGE_SIZE = 100;
+
+// Message types that carry user-authored content (DEFAULT, REPLY, THREAD_STARTER_MESSAGE)
+const CONTENT_MESSAGE_TYPES = new Set([0, 19, 21]);
+
+// Thread channel types (ANNOUNCEMENT_THREAD, PUBLIC_THREAD, PRIVATE_THREAD)
+const THREAD_CHANNEL_TYPES = new Set([10, 11, 12]);
+
+export interface DiscordBotConfig {
+  botToken: string; // Bot token from the Discord developer portal
+  guildId: string; // Guild (server) that owns the channels
+  channelIds: string[]; // Channels to monitor (threads under them are included)
+  includeThreads?: boolean; // Import messages from threads under the channels (default: true)
+  ignoreBots?: boolean; // Skip messages authored by bots (default: true)
+  batchSize?: number; // Max messages per channel per fetch (default: 100)
+  startDate?: string; // ISO date to start fetching from (e.g., "2024-09-01")
+  apiBaseUrl?: string; // Override API base URL (default: https://discord.com/api/v10)
+}
+
+export interface DiscordUser {
+  id: string;
+  username: string;
+  global_name?: string | null;
+  bot?: boolean;
+}
+
+export interface DiscordChannel {
+  id: string;
+  type: number;
+  name?: string;
+  guild_id?: string;
+  parent_id?: string | null;
+  thread_metadata?: {
+    archived?: boolean;
+    archive_timestamp?: string; // ISO timestamp, pages archived thread lists
+  };
+}
+
+export interface DiscordMessage {
+  id: string;
+  channel_id: string;
+  author: DiscordUser;
+  content: string;
+  timestamp: string;
+  edited_timestamp?: string | null;
+  type: number;
+  message_reference?: {
+    message_id?: string;
+    channel_id?: string;
+    guild_id?: string;
+  };
+  thread?: DiscordChannel;
+}
+
+interface DiscordThreadListResponse {
+  threads: DiscordChannel[];
+  has_more?: boolean;
+}
+
+export class DiscordAdapter extends BaseStreamAdapter {
+  private botConfig!: DiscordBotConfig;
+  private channels: Map<string, DiscordChannel> = new Map();
+
+  constructor(streamId: string, db: PrismaClient) {
+    super(streamId, 'discord', db);
+  }
+
+  /**
+   * Validate Discord bot configuration
+   */
+  validateConfig(config: any): boolean {
+    if (!config.botToken || typeof config.botToken !== 'string') {
+      console.error('DiscordAdapter: botToken is required');
+      return false;
+    }
+
+    if (!config.guildId || typeof config.guildId !== 'string') {
+      console.error('DiscordAdapter: guildId is required');
+      return false;
+    }
+
+    // Accept the legacy single channelId alongside channelIds
+    const channelIds: unknown[] = Array.isArray(config.channelIds)
+      ? [...config.channelIds]
+      : config.channelId
+        ? [config.channelId]
+        : [];
+
+    if (channelIds.length === 0 || channelIds.some((id) => typeof id !== 'string' || !id)) {
+      console.error('DiscordAdapter: channelIds must be a non-empty array of channel IDs');
+      return false;
+    }
+
+    if (config.apiBaseUrl) {
+      try {
+        new URL(config.apiBaseUrl);
+      } catch {
+        console.error('DiscordAdapter: apiBaseUrl must be a valid URL');
+        return false;
+      }
+    }
+
+    if (config.startDate && isNaN(new Date(config.startDate).getTime())) {
+      console.error('DiscordAdapter: startDate must be a valid ISO date');
+      return false;
+    }
+
+    this.botConfig = {
+      botToken: config.botToken,
+      guildId: config.guildId,
+      channelIds: channelIds as string[],
+      includeThreads: config.includeThreads !== false,
+      ignoreBots: config.ignoreBots !== false,
+      batchSize: Math.min(config.batchSize || MAX_PAGE_SIZE, 1000),
+      startDate: config.startDate,
+      apiBaseUrl: (config.apiBaseUrl || DISCORD_API_BASE).replace(/\/$/, ''),
+    };
+
+    return true;
+  }
+
+  /**
+   * Initialize Discord adapter, test connection and resolve channel names
+   */
+  async initialize(config: any): Promise<void> {
+    await super.initialize(config);
+
+    const connectionOk = await this.testConnection();
+    if (!connectionOk) {
+      throw new Error('Failed to connect to Discord API. Check bot token.');
+    }
+
+    for (const channelId of this.botConfig.channelIds) {
+      const channel = await this.request<DiscordChannel>(`/channels/${channelId}`);
+      this.channels.set(channel.id, channel);
+    }
+
+    console.log(
+      `DiscordAdapter initialized for guild ${this.botConfig.guildId}: ${this.botConfig.channelIds.length} channels`
+    );
+  }
+
+  /**
+   * Fetch new messages from every configured channel and its threads.
+   * Each channel/thread keeps its own watermark (resourceId = channel ID).
+   */
+  async fetchMessages(_watermark?: StreamWatermark, batchSize?: number): Promise<StreamMessage[]> {
+    this.ensureInitialized();
+
+    const limit = batchSize || this.botConfig.batchSize || MAX_PAGE_SIZE;
+    const sources: DiscordChannel[] = this.botConfig.channelIds.map(
+      (id) => this.channels.get(id) || { id, type: 0 }
+    );
+
+    if (this.botConfig.includeThreads) {
+      sources.push(...(await this.listThreads()));
+    }
+
+    const allMessages: StreamMessage[] = [];
+
+    for (const source of sources) {
+      const { messages, lastFetched } = await this.fetchChannelMessages(source, limit);
+      if (!lastFetched) {
+        continue;
+      }
+
+      if (messages.length > 0) {
+        await this.saveMessages(messages);
+        allMessages.push(...messages);
+      }
+
+      // Past skipped messages too, or a page of bot/system messages would be fetched forever
+      await this.updateResourceWatermark(
+        source.id,
+        new Date(lastFetched.timestamp),
+        lastFetched.id
+      );
+    }
+
+    allMessages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    if (allMessages.length > 0) {
+      const lastMessage = allMessages[allMessages.length - 1];
+      await this.updateWatermark(lastMessage.timestamp, lastMessage.messageId, allMessages.length);
+    }
+
+    console.log(
+      `Fetched ${allMessages.length} messages from ${sources.length} Discord channels/threads`
+    );
+
+    return allMessages;
+  }
+
+  /**
+   * Fetch messages for one channel or thread after its watermark, oldest first.
+   * Also returns the last fetched message, imported or not, to move the watermark to.
+   */
+  private async fetchChannelMessages(
+    source: DiscordChannel,
+    limit: number
+  ): Promise<{ messages: StreamMessage[]; lastFetched?: DiscordMessage }> {
+    const watermark = await this.getResourceWatermark(source.id);
+
+    let after: string | undefined = watermark.lastProcessedId;
+    if (!after && this.botConfig.startDate) {
+      after = DiscordAdapter.snowflakeFromDate(new Date(this.botConfig.startDate));
+    }
+
+    const raw: DiscordMessage[] = [];
+
+    if (after) {
+      // Page forward from the watermark until caught up or the limit is reached
+      while (raw.length < limit) {
+        const pageSize = Math.min(MAX_PAGE_SIZE, limit - raw.length);
+        const page: DiscordMessage[] = await this.request<DiscordMessage[]>(
+          `/channels/${source.id}/messages?limit=${pageSize}&after=${after}`
+        );
+        if (page.length === 0) {
+          break;
+        }
+
+        page.sort((a, b) => DiscordAdapter.compareSnowflakes(a.id, b.id));
+        raw.push(...page);
+        after = page[page.length - 1].id;
+
+        if (page.length < pageSize) {
+          break;
+        }
+      }
+    } else {
+      // No watermark: take the most recent messages, like the Zulip adapter's "newest" anchor
+      const page = await this.request<DiscordMessage[]>(
+        `/channels/${source.id}/messages?limit=${Math.min(MAX_PAGE_SIZE, limit)}`
+      );
+      raw.push(...page.sort((a, b) => DiscordAdapter.compareSnowflakes(a.id, b.id)));
+    }
+
+    return {
+      messages: raw
+        .filter((msg) => this.shouldImport(msg))
+        .map((msg) => this.normalizeMessage(msg, source)),
+      lastFetched: raw[raw.length - 1],
+    };
+  }
+
+  /**
+   * List active and archived public threads whose parent is a configured channel
+   */
+  private async listThreads(): Promise<DiscordChannel[]> {
+    const threads = new Map<string, DiscordChannel>();
+    const parentIds = new Set(this.botConfig.channelIds);
+
+    const active = await this.request<DiscordThreadListResponse>(
+      `/guilds/${this.botConfig.guildId}/threads/active`
+    );
+    for (const thread of active.threads || []) {
+      if (thread.parent_id && parentIds.has(thread.parent_id)) {
+        threads.set(thread.id, thread);
+      }
+    }
+
+    for (const channelId of this.botConfig.channelIds) {
+      try {
+        // Archived threads come newest first; page back by archive timestamp
+        let before: string | undefined;
+        while (true) {
+          const archived: DiscordThreadListResponse = await this.request<DiscordThreadListResponse>(
+            `/channels/${channelId}/threads/archived/public?limit=${MAX_PAGE_SIZE}${before ? `&before=${encodeURIComponent(before)}` : ''}`
+          );
+          const page = archived.threads || [];
+          for (const thread of page) {
+            threads.set(thread.id, thread);
+          }
+
+          const oldest = page[page.length - 1]?.thread_metadata?.archive_timestamp;
+          if (!archived.has_more || !oldest || oldest === before) {
+            break;
+          }
+          before = oldest;
+        }
+      } catch (error) {
+        // Missing READ_MESSAGE_HISTORY on archived threads should not block active ones
+        console.warn(`DiscordAdapter: could not list archived threads for ${channelId}:`, error);
+      }
+    }
+
+    for (const thread of threads.values()) {
+      this.channels.set(thread.id, thread);
+    }
+
+    return Array.from(threads.values());
+  }
+
+  /**
+   * Decide whether a raw Discord message should be imported
+   */
+  private shouldImport(message: DiscordMessage): boolean {
+    if (!CONTENT_MESSAGE_TYPES.has(message.type)) {
+      return false;
+    }
+    if (!message.content || message.content.trim().length === 0) {
+      return false;
+    }
+    if (this.botConfig.ignoreBots && message.author?.bot) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Normalize Discord message to StreamMessage format
+   */
+  private normalizeMessage(message: DiscordMessage, source: DiscordChannel): StreamMessage {
+    const isThread = THREAD_CHANNEL_TYPES.has(source.type);
+    const parent = isThread && source.parent_id ? this.channels.get(source.parent_id) : undefined;
+    const channelName = isThread
+      ? parent?.name || source.parent_id || source.id
+      : source.name || source.id;
+
+    return {
+      messageId: message.id,
+      timestamp: new Date(message.timestamp),
+      author: message.author.global_name || message.author.username,
+      content: message.content,
+      channel: channelName,
+      rawData: message,
+      metadata: {
+        guildId: this.botConfig.guildId,
+        channelId: isThread ? source.parent_id || source.id : source.id,
+        authorId: message.author.id,
+        authorUsername: message.author.username,
+        replyToMessageId: message.message_reference?.message_id,
+        threadId: isThread ? source.id : undefined,
+        threadName: isThread ? source.name : undefined,
+        startedThreadId: message.thread?.id,
+        editedAt: message.edited_timestamp || undefined,
+      },
+    };
+  }
+
+  /**
+   * Perform an authenticated GET against the Discord REST API.
+   * Honors a single 429 retry using the retry_after hint.
+   */
+  private async request<T>(pathAndQuery: string, isRetry = false): Promise<T> {
+    const response = await fetch(`${this.botConfig.apiBaseUrl}${pathAndQuery}`, {
+      method: 'GET',
+      headers: {
+        Authorization: this.getAuthHeader(),
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (response.status === 429 && !isRetry) {
+      const body = await response.json().catch(() => ({}));
+      const retryAfterMs = Math.ceil(((body as any).retry_after ?? 1) * 1000);
+      console.warn(`DiscordAdapter: rate limited, retrying in ${retryAfterMs}ms`);
+      await new Promise((resolve) => setTimeout(resolve, retryAfterMs));
+      return this.request<T>(pathAndQuery, true);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Discord API error (${response.status}): ${errorText}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Get Bot auth header for Discord API
+   */
+  private getAuthHeader(): string {
+    return `Bot ${this.botConfig.botToken}`;
+  }
+
+  /**
+   * Test connection to Discord API
+   */
+  private async testConnection(): Promise<boolean> {
+    try {
+      const me = await this.request<DiscordUser>('/users/@me');
+      console.log(`Discord connection successful. Bot: ${me.username}`);
+      return true;
+    } catch (error) {
+      console.error('Discord connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Convert a date into the smallest snowflake created at or after it
+   */
+  static snowflakeFromDate(date: Date): string {
+    return ((BigInt(date.getTime()) - DISCORD_EPOCH) << 22n).toString();
+  }
+
+  /**
+   * Compare two snowflake IDs numerically
+   */
+  static compareSnowflakes(a: string, b: string): number {
+    const diff = BigInt(a) - BigInt(b);
+    return diff === 0n ? 0 : diff > 0n ? 1 : -1;
+  }
+
+  /**
+   * Cleanup adapter resources
+   */
+  async cleanup(): Promise<void> {
+    this.channels.clear();
+    await super.cleanup();
+  }
+}
@@ -0,0 +1,432 @@
+/**
+ * Discourse Stream Adapter
+ * Pull-based adapter importing Discourse forum topics and posts by watermark
+
+ * Date: 2026-10-19
+ * Reference: /docs/STREAM-CONFIGURATION.md
+ */
+
+import * as fs from 'fs/promises';
+import { PrismaClient } from '@prisma/client';
+import { BaseStreamAdapter } from './base-adapter.js';
+import { ProcessingReport, writeProcessingReport } from './file-inbox-adapter.js';
+import { StreamMessage, StreamWatermark } from '../types.js';
+
+// Discourse returns at most 20 posts per /t/{id}.json page and per posts.json request
+const POSTS_CHUNK_SIZE = 20;
+
+// Accounts Discourse uses for automated posts
+const SYSTEM_USERNAMES = new Set(['system', 'discobot']);
+
+export interface DiscourseConfig {
+  baseUrl: string; // Forum URL (e.g., https://forum.example.com)
+  apiKey?: string; // API key (optional for public forums)
+  apiUsername?: string; // Username the API key acts as (default: system)
+  categoryIds?: number[]; // Restrict import to these categories (default: all latest topics)
+  ignoreSystemPosts?: boolean; // Skip posts by system accounts and small-action posts (default: true)
+  maxTopicPages?: number; // Safety limit on topic list pages per run (default: 10)
+  startDate?: string; // ISO date to start importing from on first run
+  reportDir?: string; // Directory to write a ProcessingReport JSON per run (optional)
+}
+
+export interface DiscourseTopic {
+  id: number;
+  title: string;
+  slug: string;
+  category_id?: number;
+  created_at: string;
+  last_posted_at: string | null;
+  bumped_at?: string;
+  posts_count?: number;
+}
+
+export interface DiscoursePost {
+  id: number;
+  post_number: number;
+  post_type?: number; // 1 = regular, 3 = small action, 4 = whisper
+  username: string;
+  name?: string | null;
+  cooked: string;
+  created_at: string;
+  reply_to_post_number?: number | null;
+  staff?: boolean;
+  admin?: boolean;
+  moderator?: boolean;
+  accepted_answer?: boolean; // discourse-solved plugin
+  topic_id?: number;
+}
+
+interface TopicListResponse {
+  topic_list: { topics: DiscourseTopic[]; more_topics_url?: string };
+}
+
+interface TopicResponse {
+  id: number;
+  title: string;
+  category_id?: number;
+  post_stream: { posts: DiscoursePost[]; stream: number[] };
+}
+
+export class DiscourseAdapter extends BaseStreamAdapter {
+  private discourseConfig!: DiscourseConfig;
+  private categoryNames: Map<number, string> = new Map();
+  private lastReport: ProcessingReport | null = null;
+
+  constructor(streamId: string, db: PrismaClient) {
+    super(streamId, 'discourse', db);
+  }
+
+  /**
+   * Validate Discourse configuration
+   */
+  validateConfig(config: any): boolean {
+    if (!config.baseUrl || typeof config.baseUrl !== 'string') {
+      console.error('DiscourseAdapter: baseUrl is required');
+      return false;
+    }
+
+    try {
+      new URL(config.baseUrl);
+    } catch {
+      console.error('DiscourseAdapter: baseUrl must be a valid URL');
+      return false;
+    }
+
+    if (
+      config.categoryIds !== undefined &&
+      (!Array.isArray(config.categoryIds) ||
+        config.categoryIds.some((id: unknown) => typeof id !== 'number'))
+    ) {
+      console.error('DiscourseAdapter: categoryIds must be an array of numeric category IDs');
+      return false;
+    }
+
+    if (config.startDate && isNaN(new Date(config.startDate).getTime())) {
+      console.error('DiscourseAdapter: startDate must be a valid ISO date');
+      return false;
+    }
+
+    this.discourseConfig = {
+      baseUrl: config.baseUrl.replace(/\/$/, ''),
+      apiKey: config.apiKey,
+      apiUsername: config.apiUsername || 'system',
+      categoryIds: config.categoryIds,
+      ignoreSystemPosts: config.ignoreSystemPosts !== false,
+      maxTopicPages: config.maxTopicPages || 10,
+      startDate: config.startDate,
+      reportDir: config.reportDir,
+    };
+
+    return true;
+  }
+
+  /**
+   * Initialize adapter, test connection and resolve category names
+   */
+  async initialize(config: any): Promise<void> {
+    await super.initialize(config);
+
+    try {
+      const site = await this.request<{
+        categories: Array<{ id: number; name: string; slug: string }>;
+      }>('/site.json');
+      for (const category of site.categories || []) {
+        this.categoryNames.set(category.id, category.slug || category.name);
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to connect to Discourse at ${this.discourseConfig.baseUrl}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (this.discourseConfig.reportDir) {
+      await fs.mkdir(this.discourseConfig.reportDir, { recursive: true });
+    }
+
+    console.log(`DiscourseAdapter initialized for ${this.discourseConfig.baseUrl}`);
+  }
+
+  /**
+   * Fetch posts created since the last import from topics with new activity.
+   * Each category (or the latest list) keeps its own watermark (lastImportedId = newest last_posted_at).
+   */
+  async fetchMessages(_watermark?: StreamWatermark): Promise<StreamMessage[]> {
+    this.ensureInitialized();
+
+    const report: ProcessingReport = {
+      fileName: new URL(this.discourseConfig.baseUrl).host,
+      totalRows: 0,
+      successfulRows: 0,
+      failedRows: 0,
+      errors: [],
+      processedAt: new Date(),
+    };
+
+    const allMessages: StreamMessage[] = [];
+    const sources = this.discourseConfig.categoryIds?.length
+      ? this.discourseConfig.categoryIds.map((id) => `category-${id}`)
+      : ['latest'];
+
+    for (const resourceId of sources) {
+      const messages = await this.importSource(resourceId, report);
+      allMessages.push(...messages);
+    }
+
+    allMessages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    if (allMessages.length > 0) {
+      await this.saveMessages(allMessages);
+      const lastMessage = allMessages[allMessages.length - 1];
+      await this.updateWatermark(lastMessage.timestamp, lastMessage.messageId, allMessages.length);
+    }
+
+    report.successfulRows = allMessages.length;
+    report.failedRows = report.errors.length;
+    this.lastReport = report;
+    if (this.discourseConfig.reportDir) {
+      await writeProcessingReport(this.discourseConfig.reportDir, this.streamId, report);
+    }
+
+    console.log(
+      `Fetched ${allMessages.length} posts from ${this.discourseConfig.baseUrl} (${report.failedRows} failures)`
+    );
+
+    return allMessages;
+  }
+
+  /**
+   * Processing report from the most recent fetch
+   */
+  getLastReport(): ProcessingReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Import new posts from topics in one topic list, starting at that list's watermark
+   */
+  private async importSource(
+    resourceId: string,
+    report: ProcessingReport
+  ): Promise<StreamMessage[]> {
+    const watermark = await this.getResourceWatermark(resourceId);
+    const since =
+      watermark.lastProcessedTime ||
+      (this.discourseConfig.startDate ? new Date(this.discourseConfig.startDate) : undefined);
+
+    const topics = await this.listActiveTopics(resourceId, since);
+    const messages: StreamMessage[] = [];
+    let latestActivity: Date | undefined;
+
+    // Oldest activity first so a failure part-way still leaves a consistent watermark
+    topics.sort((a, b) => this.activityOf(a).getTime() - this.activityOf(b).getTime());
+
+    for (const topic of topics) {
+      try {
+        const posts = await this.fetchTopicPosts(topic.id);
+        for (const post of posts) {
+          if (since && new Date(post.created_at) <= since) continue;
+          if (!this.shouldImport(post)) continue;
+
+          report.totalRows++;
+          try {
+            messages.push(this.normalizePost(post, topic));
+          } catch (error) {
+            report.errors.push({
+              row: post.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+        latestActivity = this.activityOf(topic);
+      } catch (error) {
+        console.error(`DiscourseAdapter: failed to import topic ${topic.id}:`, error);
+        report.errors.push({
+          row: topic.id,
+          error: `Topic ${topic.id}: ${error instanceof Error ? error.message : String(error)}`,
+        });
+        // Stop here so the topic is retried on the next run
+        break;
+      }
+    }
+
+    if (latestActivity && (!since || latestActivity > since)) {
+      await this.updateResourceWatermark(resourceId, latestActivity, latestActivity.toISOString());
+    }
+
+    return messages;
+  }
+
+  /**
+   * Page through a topic list (newest activity first) until topics are older than `since`
+   */
+  private async listActiveTopics(
+    resourceId: string,
+    since: Date | undefined
+  ): Promise<DiscourseTopic[]> {
+    const basePath =
+      resourceId === 'latest' ? '/latest.json' : `/c/${resourceId.replace('category-', '')}.json`;
+    const topics: DiscourseTopic[] = [];
+
+    for (let page = 0; page < this.discourseConfig.maxTopicPages!; page++) {
+      const response = await this.request<TopicListResponse>(
+        `${basePath}?order=activity&page=${page}`
+      );
+      const pageTopics = response.topic_list.topics || [];
+
+      let reachedWatermark = false;
+      for (const topic of pageTopics) {
+        if (since && this.activityOf(topic) <= since) {
+          // Pinned topics are listed first regardless of activity, so keep scanning this page
+          reachedWatermark = true;
+          continue;
+        }
+        topics.push(topic);
+      }
+
+      if (reachedWatermark || !response.topic_list.more_topics_url || pageTopics.length === 0) {
+        break;
+      }
+    }
+
+    return topics;
+  }
+
+  /**
+   * Load every post of a topic; /t/{id}.json only embeds the first chunk of the post stream
+   */
+  private async fetchTopicPosts(topicId: number): Promise<DiscoursePost[]> {
+    const topic = await this.request<TopicResponse>(`/t/${topicId}.json`);
+    const posts = [...topic.post_stream.posts];
+    const loaded = new Set(posts.map((p) => p.id));
+    const remaining = topic.post_stream.stream.filter((id) => !loaded.has(id));
+
+    for (let i = 0; i < remaining.length; i += POSTS_CHUNK_SIZE) {
+      const chunk = remaining.slice(i, i + POSTS_CHUNK_SIZE);
+      const query = chunk.map((id) => `post_ids[]=${id}`).join('&');
+      const response = await this.request<{ post_stream: { posts: DiscoursePost[] } }>(
+        `/t/${topicId}/posts.json?${query}`
+      );
+      posts.push(...response.post_stream.posts);
+    }
+
+    return posts.sort((a, b) => a.post_number - b.post_number);
+  }
+
+  /**
+   * Decide whether a post should be imported
+   */
+  private shouldImport(post: DiscoursePost): boolean {
+    if (this.discourseConfig.ignoreSystemPosts) {
+      if (SYSTEM_USERNAMES.has(post.username) || (post.post_type && post.post_type !== 1)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Normalize a Discourse post to StreamMessage format
+   */
+  private normalizePost(post: DiscoursePost, topic: DiscourseTopic): StreamMessage {
+    const content = DiscourseAdapter.cookedToText(post.cooked);
+    if (!content) {
+      throw new Error(`Post ${post.id} has no text content`);
+    }
+
+    const threadId = `topic-${topic.id}`;
+    const replyToNumber = post.reply_to_post_number || (post.post_number > 1 ? 1 : undefined);
+
+    return {
+      messageId: `${threadId}-post-${post.post_number}`,
+      timestamp: new Date(post.created_at),
+      author: post.name || post.username,
+      // The opening post carries the topic title, which is usually the question being asked
+      content: post.post_number === 1 ? `${topic.title}\n\n${content}` : content,
+      channel:
+        topic.category_id !== undefined
+          ? this.categoryNames.get(topic.category_id) || `category-${topic.category_id}`
+          : undefined,
+      rawData: post,
+      metadata: {
+        source: 'discourse',
+        threadId,
+        threadTitle: topic.title,
+        postId: post.id,
+        postNumber: post.post_number,
+        replyToMessageId: replyToNumber ? `${threadId}-post-${replyToNumber}` : undefined,
+        url: `${this.discourseConfig.baseUrl}/t/${topic.slug}/${topic.id}/${post.post_number}`,
+        username: post.username,
+        isAcceptedAnswer: !!post.accepted_answer,
+        isMaintainer: !!(post.staff || post.admin || post.moderator),
+      },
+    };
+  }
+
+  private activityOf(topic: DiscourseTopic): Date {
+    return new Date(topic.last_posted_at || topic.bumped_at || topic.created_at);
+  }
+
+  /**
+   * Convert Discourse "cooked" HTML to plain text, dropping quoted posts
+   */
+  static cookedToText(html: string): string {
+    return html
+      .replace(/<aside class="quote[\s\S]*?<\/aside>/gi, '')
+      .replace(
+        /<pre[^>]*><code[^>]*>([\s\S]*?)<\/code><\/pre>/gi,
+        (_match, code: string) => `\n\`\`\`\n${code.replace(/\n+$/, '')}\n\`\`\`\n`
+      )
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h\d|blockquote)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * GET a Discourse JSON endpoint.
+   * Honors a single 429 retry using the Retry-After header.
+   */
+  private async request<T>(pathAndQuery: string, isRetry = false): Promise<T> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (this.discourseConfig.apiKey) {
+      headers['Api-Key'] = this.discourseConfig.apiKey;
+      headers['Api-Username'] = this.discourseConfig.apiUsername!;
+    }
+
+    const response = await fetch(`${this.discourseConfig.baseUrl}${pathAndQuery}`, {
+      method: 'GET',
+      headers,
+    });
+
+    if (response.status === 429 && !isRetry) {
+      const retryAfterMs = parseInt(response.headers.get('retry-after') || '1') * 1000;
+      console.warn(
+        `DiscourseAdapter: rate limited on ${pathAndQuery}, retrying in ${retryAfterMs}ms`
+      );
+      await new Promise((resolve) => setTimeout(resolve, retryAfterMs));
+      return this.request<T>(pathAndQuery, true);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Discourse API error (${response.status}): ${errorText}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Cleanup adapter resources
+   */
+  async cleanup(): Promise<void> {
+    this.categoryNames.clear();
+    await super.cleanup();
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * File Inbox Stream Adapter
+ * Shared inbox/processed directory workflow for file-based adapters (CSV, mbox, ...)
+
+ * Date: 2026-10-19
+ * Reference: /docs/specs/multi-stream-scanner-phase-1.md
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BaseStreamAdapter } from './base-adapter.js';
+import { StreamMessage } from '../types.js';
+
+export interface ProcessingReport {
+  fileName: string;
+  totalRows: number;
+  successfulRows: number;
+  failedRows: number;
+  errors: Array<{ row: number; error: string }>;
+  processedAt: Date;
+}
+
+export interface FileProcessingResult {
+  messages: StreamMessage[];
+  report: ProcessingReport;
+}
+
+export abstract class FileInboxAdapter extends BaseStreamAdapter {
+  /**
+   * File extensions picked up from the inbox (e.g. ['.csv'])
+   */
+  protected abstract readonly fileExtensions: string[];
+
+  /**
+   * Inbox and processed directories from the validated config
+   */
+  protected abstract getDirectories(): { inboxDir: string; processedDir: string };
+
+  /**
+   * Parse a single inbox file into messages plus a processing report
+   */
+  protected abstract processFile(filePath: string): Promise<FileProcessingResult>;
+
+  /**
+   * Initialize adapter and ensure directories exist
+   */
+  async initialize(config: any): Promise<void> {
+    await super.initialize(config);
+
+    const { inboxDir, processedDir } = this.getDirectories();
+    await fs.mkdir(inboxDir, { recursive: true });
+    await fs.mkdir(processedDir, { recursive: true });
+
+    console.log(
+      `${this.constructor.name} initialized: inbox=${inboxDir}, processed=${processedDir}`
+    );
+  }
+
+  /**
+   * Process every inbox file: parse, save report, move to processed.
+   * A file that fails to parse stays in the inbox and is retried on the next run.
+   */
+  protected async processInbox(): Promise<StreamMessage[]> {
+    const files = await this.getInboxFiles();
+    const label = this.fileExtensions.join('/');
+
+    if (files.length === 0) {
+      console.log(`No ${label} files found in inbox`);
+      return [];
+    }
+
+    console.log(`Found ${files.length} ${label} files to process`);
+
+    const allMessages: StreamMessage[] = [];
+
+    for (const file of files) {
+      try {
+        const { messages, report } = await this.processFile(file);
+
+        // Save processing report
+        await this.saveProcessingReport(file, report);
+
+        // Move file to processed directory
+        await this.moveToProcessed(file);
+
+        allMessages.push(...messages);
+
+        console.log(
+          `Processed ${file}: ${report.successfulRows}/${report.totalRows} rows successful`
+        );
+      } catch (error) {
+        console.error(`Error processing file ${file}:`, error);
+        // Continue with next file
+      }
+    }
+
+    return allMessages;
+  }
+
+  /**
+   * Get list of matching files in inbox
+   */
+  protected async getInboxFiles(): Promise<string[]> {
+    const { inboxDir } = this.getDirectories();
+    const entries = await fs.readdir(inboxDir, { withFileTypes: true });
+
+    return entries
+      .filter(
+        (entry) =>
+          entry.isFile() &&
+          this.fileExtensions.some((ext) => entry.name.toLowerCase().endsWith(ext))
+      )
+      .map((entry) => path.join(inboxDir, entry.name));
+  }
+
+  /**
+   * Move processed file to processed directory
+   */
+  protected async moveToProcessed(filePath: string): Promise<void> {
+    const fileName = path.basename(filePath);
+    const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
+    const newFileName = `${timestamp}_${fileName}`;
+    const newPath = path.join(this.getDirectories().processedDir, newFileName);
+
+    await fs.rename(filePath, newPath);
+    console.log(`Moved ${fileName} to ${newPath}`);
+  }
+
+  /**
+   * Save processing report as JSON next to the processed file
+   */
+  protected async saveProcessingReport(filePath: string, report: ProcessingReport): Promise<void> {
+    await writeProcessingReport(
+      this.getDirectories().processedDir,
+      path.basename(filePath, path.extname(filePath)),
+      report
+    );
+  }
+}
+
+/**
+ * Write a processing report as `{timestamp}_{name}_report.json` into `dir`
+ */
+export async function writeProcessingReport(
+  dir: string,
+  name: string,
+  report: ProcessingReport
+): Promise<string> {
+  const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
+  const reportPath = path.join(dir, `${timestamp}_${name}_report.json`);
+
+  await fs.writeFile(reportPath, JSON.stringify(report, null, 2));
+  console.log(`Saved processing report to ${reportPath}`);
+  return reportPath;
+}
@@ -0,0 +1,633 @@
+/**
+ * GitHub Discussions Stream Adapter
+ * Pull-based adapter importing GitHub Discussions threads and issue comments,
+ * incrementally by updated_at watermark
+
+ * Date: 2026-10-19
+ * Reference: /docs/STREAM-CONFIGURATION.md
+ */
+
+import { Octokit } from '@octokit/rest';
+import { BaseStreamAdapter } from './base-adapter.js';
+import { StreamMessage, StreamWatermark } from '../types.js';
+import { PrismaClient } from '@prisma/client';
+
+// Author associations treated as maintainers unless overridden in config
+const DEFAULT_MAINTAINER_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+
+// Resource IDs used for per-source watermarks in import_watermarks
+const DISCUSSIONS_RESOURCE = 'discussions';
+const ISSUES_RESOURCE = 'issues';
+
+export interface GitHubDiscussionsConfig {
+  repository: string; // "owner/repo"
+  token: string; // Token with read access to discussions and issues
+  includeDiscussions?: boolean; // Import GitHub Discussions (default: true)
+  includeIssues?: boolean; // Import issues and issue comments (default: true)
+  maintainerAssociations?: string[]; // Author associations tagged as maintainer (default: OWNER, MEMBER, COLLABORATOR)
+  maintainers?: string[]; // Additional logins always tagged as maintainer
+  ignoreBots?: boolean; // Skip posts by bot accounts (default: true)
+  pageSize?: number; // Items per API page (default: 50, max: 100)
+  startDate?: string; // ISO date to start importing from on first run
+  apiBaseUrl?: string; // Override API base URL for GitHub Enterprise
+}
+
+interface GitHubActor {
+  login: string;
+  __typename?: string;
+}
+
+interface DiscussionCommentNode {
+  id: string;
+  databaseId: number;
+  body: string;
+  url: string;
+  createdAt: string;
+  author: GitHubActor | null;
+  authorAssociation: string;
+  isAnswer: boolean;
+  replies?: { nodes: DiscussionCommentNode[] };
+}
+
+interface DiscussionNode {
+  id: string;
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  answerChosenAt: string | null;
+  author: GitHubActor | null;
+  authorAssociation: string;
+  category: { name: string } | null;
+  comments: {
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    nodes: DiscussionCommentNode[];
+  };
+}
+
+interface DiscussionsQueryResult {
+  repository: {
+    discussions: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: DiscussionNode[];
+    };
+  };
+}
+
+interface DiscussionCommentsQueryResult {
+  node: {
+    comments: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: DiscussionCommentNode[];
+    };
+  };
+}
+
+const COMMENT_FIELDS = `
+  id
+  databaseId
+  body
+  url
+  createdAt
+  author { login __typename }
+  authorAssociation
+  isAnswer
+`;
+
+// Replies are limited to the first 100 per comment; GitHub caps nested replies well below that in practice
+const COMMENT_WITH_REPLIES_FIELDS = `
+  ${COMMENT_FIELDS}
+  replies(first: 100) { nodes { ${COMMENT_FIELDS} } }
+`;
+
+const DISCUSSIONS_QUERY = `
+  query($owner: String!, $repo: String!, $first: Int!, $after: String) {
+    repository(owner: $owner, name: $repo) {
+      discussions(first: $first, after: $after, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          id
+          number
+          title
+          body
+          url
+          createdAt
+          updatedAt
+          answerChosenAt
+          author { login __typename }
+          authorAssociation
+          category { name }
+          comments(first: $first) {
+            pageInfo { hasNextPage endCursor }
+            nodes { ${COMMENT_WITH_REPLIES_FIELDS} }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const DISCUSSION_COMMENTS_QUERY = `
+  query($id: ID!, $first: Int!, $after: String) {
+    node(id: $id) {
+      ... on Discussion {
+        comments(first: $first, after: $after) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ${COMMENT_WITH_REPLIES_FIELDS} }
+        }
+      }
+    }
+  }
+`;
+
+export class GitHubDiscussionsAdapter extends BaseStreamAdapter {
+  private githubConfig!: GitHubDiscussionsConfig;
+  private octokit!: Octokit;
+  private owner = '';
+  private repo = '';
+
+  constructor(streamId: string, db: PrismaClient) {
+    super(streamId, 'github-discussions', db);
+  }
+
+  /**
+   * Validate GitHub Discussions configuration
+   */
+  validateConfig(config: any): boolean {
+    if (!config.token || typeof config.token !== 'string') {
+      console.error('GitHubDiscussionsAdapter: token is required');
+      return false;
+    }
+
+    if (
+      !config.repository ||
+      typeof config.repository !== 'string' ||
+      !/^[\w.-]+\/[\w.-]+$/.test(config.repository)
+    ) {
+      console.error('GitHubDiscussionsAdapter: repository must be in "owner/repo" format');
+      return false;
+    }
+
+    if (config.includeDiscussions === false && config.includeIssues === false) {
+      console.error(
+        'GitHubDiscussionsAdapter: at least one of includeDiscussions or includeIssues must be enabled'
+      );
+      return false;
+    }
+
+    if (config.startDate && isNaN(new Date(config.startDate).getTime())) {
+      console.error('GitHubDiscussionsAdapter: startDate must be a valid ISO date');
+      return false;
+    }
+
+    if (config.apiBaseUrl) {
+      try {
+        new URL(config.apiBaseUrl);
+      } catch {
+        console.error('GitHubDiscussionsAdapter: apiBaseUrl must be a valid URL');
+        return false;
+      }
+    }
+
+    this.githubConfig = {
+      repository: config.repository,
+      token: config.token,
+      includeDiscussions: config.includeDiscussions !== false,
+      includeIssues: config.includeIssues !== false,
+      maintainerAssociations: config.maintainerAssociations || DEFAULT_MAINTAINER_ASSOCIATIONS,
+      maintainers: config.maintainers || [],
+      ignoreBots: config.ignoreBots !== false,
+      pageSize: Math.min(config.pageSize || 50, 100),
+      startDate: config.startDate,
+      apiBaseUrl: config.apiBaseUrl?.replace(/\/$/, ''),
+    };
+
+    return true;
+  }
+
+  /**
+   * Initialize adapter and verify repository access
+   */
+  async initialize(config: any): Promise<void> {
+    await super.initialize(config);
+
+    [this.owner, this.repo] = this.githubConfig.repository.split('/');
+    this.octokit = new Octokit({
+      auth: this.githubConfig.token,
+      ...(this.githubConfig.apiBaseUrl && { baseUrl: this.githubConfig.apiBaseUrl }),
+    });
+
+    try {
+      const { data } = await this.octokit.repos.get({ owner: this.owner, repo: this.repo });
+      if (this.githubConfig.includeDiscussions && data.has_discussions === false) {
+        console.warn(
+          `GitHubDiscussionsAdapter: discussions are disabled on ${this.githubConfig.repository}`
+        );
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to access GitHub repository ${this.githubConfig.repository}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    console.log(`GitHubDiscussionsAdapter initialized for ${this.githubConfig.repository}`);
+  }
+
+  /**
+   * Fetch discussion posts and issue comments created since the last import.
+   * Discussions and issues keep separate watermarks (lastImportedId = newest updated_at seen).
+   */
+  async fetchMessages(_watermark?: StreamWatermark): Promise<StreamMessage[]> {
+    this.ensureInitialized();
+
+    const allMessages: StreamMessage[] = [];
+
+    if (this.githubConfig.includeDiscussions) {
+      allMessages.push(...(await this.importSource(DISCUSSIONS_RESOURCE)));
+    }
+
+    if (this.githubConfig.includeIssues) {
+      allMessages.push(...(await this.importSource(ISSUES_RESOURCE)));
+    }
+
+    allMessages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    if (allMessages.length > 0) {
+      const lastMessage = allMessages[allMessages.length - 1];
+      await this.updateWatermark(lastMessage.timestamp, lastMessage.messageId, allMessages.length);
+    }
+
+    console.log(
+      `Fetched ${allMessages.length} messages from GitHub repository ${this.githubConfig.repository}`
+    );
+
+    return allMessages;
+  }
+
+  /**
+   * Import one source (discussions or issues) from its own watermark
+   */
+  private async importSource(resourceId: string): Promise<StreamMessage[]> {
+    const watermark = await this.getResourceWatermark(resourceId);
+    const since =
+      watermark.lastProcessedTime ||
+      (this.githubConfig.startDate ? new Date(this.githubConfig.startDate) : undefined);
+
+    const { messages, latestUpdate } =
+      resourceId === DISCUSSIONS_RESOURCE
+        ? await this.fetchDiscussions(since)
+        : await this.fetchIssues(since);
+
+    if (messages.length > 0) {
+      await this.saveMessages(messages);
+    }
+
+    if (latestUpdate && (!since || latestUpdate > since)) {
+      await this.updateResourceWatermark(resourceId, latestUpdate, latestUpdate.toISOString());
+    }
+
+    return messages;
+  }
+
+  /**
+   * Fetch discussions updated since `since` (newest first) and return their new posts.
+   * Discussions whose answer was chosen after `since` get the tag applied to the
+   * already-imported answer as well.
+   */
+  private async fetchDiscussions(
+    since: Date | undefined
+  ): Promise<{ messages: StreamMessage[]; latestUpdate?: Date }> {
+    const messages: StreamMessage[] = [];
+    let latestUpdate: Date | undefined;
+    let after: string | null = null;
+    let reachedWatermark = false;
+
+    do {
+      const result: DiscussionsQueryResult = await this.octokit.graphql<DiscussionsQueryResult>(
+        DISCUSSIONS_QUERY,
+        { owner: this.owner, repo: this.repo, first: this.githubConfig.pageSize, after }
+      );
+      const page = result.repository.discussions;
+
+      for (const discussion of page.nodes) {
+        const updatedAt = new Date(discussion.updatedAt);
+        if (since && updatedAt < since) {
+          reachedWatermark = true;
+          break;
+        }
+        if (!latestUpdate || updatedAt > latestUpdate) {
+          latestUpdate = updatedAt;
+        }
+
+        messages.push(...(await this.collectDiscussion(discussion, since)));
+      }
+
+      after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (after && !reachedWatermark);
+
+    return { messages, latestUpdate };
+  }
+
+  /**
+   * Normalize a discussion (opening post, comments and replies), keeping posts created after `since`
+   */
+  private async collectDiscussion(
+    discussion: DiscussionNode,
+    since: Date | undefined
+  ): Promise<StreamMessage[]> {
+    const threadId = `discussion-${discussion.number}`;
+    const channel = discussion.category ? `discussions/${discussion.category.name}` : 'discussions';
+    const isNew = (createdAt: string) => !since || new Date(createdAt) > since;
+
+    const comments = [...discussion.comments.nodes];
+    let cursor = discussion.comments.pageInfo.hasNextPage
+      ? discussion.comments.pageInfo.endCursor
+      : null;
+    while (cursor) {
+      const result: DiscussionCommentsQueryResult =
+        await this.octokit.graphql<DiscussionCommentsQueryResult>(DISCUSSION_COMMENTS_QUERY, {
+          id: discussion.id,
+          first: this.githubConfig.pageSize,
+          after: cursor,
+        });
+      comments.push(...result.node.comments.nodes);
+      cursor = result.node.comments.pageInfo.hasNextPage
+        ? result.node.comments.pageInfo.endCursor
+        : null;
+    }
+
+    const base = {
+      source: 'discussion',
+      threadId,
+      threadTitle: discussion.title,
+      category: discussion.category?.name,
+    };
+    const messages: StreamMessage[] = [];
+
+    if (isNew(discussion.createdAt) && this.shouldImport(discussion.author, discussion.body)) {
+      messages.push(
+        this.buildMessage({
+          messageId: threadId,
+          createdAt: discussion.createdAt,
+          author: discussion.author,
+          authorAssociation: discussion.authorAssociation,
+          content: `${discussion.title}\n\n${discussion.body}`,
+          channel,
+          url: discussion.url,
+          rawData: { ...discussion, comments: undefined },
+          metadata: { ...base, isAcceptedAnswer: false },
+        })
+      );
+    }
+
+    for (const comment of comments) {
+      const commentId = `discussion-comment-${comment.databaseId}`;
+
+      if (isNew(comment.createdAt) && this.shouldImport(comment.author, comment.body)) {
+        messages.push(
+          this.buildMessage({
+            messageId: commentId,
+            createdAt: comment.createdAt,
+            author: comment.author,
+            authorAssociation: comment.authorAssociation,
+            content: comment.body,
+            channel,
+            url: comment.url,
+            rawData: { ...comment, replies: undefined },
+            metadata: { ...base, isAcceptedAnswer: comment.isAnswer, replyToMessageId: threadId },
+          })
+        );
+      } else if (
+        comment.isAnswer &&
+        since &&
+        discussion.answerChosenAt &&
+        new Date(discussion.answerChosenAt) > since
+      ) {
+        await this.markAcceptedAnswer(commentId);
+      }
+
+      for (const reply of comment.replies?.nodes || []) {
+        if (isNew(reply.createdAt) && this.shouldImport(reply.author, reply.body)) {
+          messages.push(
+            this.buildMessage({
+              messageId: `discussion-comment-${reply.databaseId}`,
+              createdAt: reply.createdAt,
+              author: reply.author,
+              authorAssociation: reply.authorAssociation,
+              content: reply.body,
+              channel,
+              url: reply.url,
+              rawData: reply,
+              metadata: { ...base, isAcceptedAnswer: false, replyToMessageId: commentId },
+            })
+          );
+        }
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Fetch issues and issue comments updated since `since` and return posts created after it.
+   * Pull requests share the issues API and are skipped, including their comments.
+   */
+  private async fetchIssues(
+    since: Date | undefined
+  ): Promise<{ messages: StreamMessage[]; latestUpdate?: Date }> {
+    const messages: StreamMessage[] = [];
+    const issues = new Map<number, { title: string; isPullRequest: boolean; labels: string[] }>();
+    let latestUpdate: Date | undefined;
+    const isNew = (createdAt: string) => !since || new Date(createdAt) > since;
+    const track = (updatedAt: string) => {
+      const date = new Date(updatedAt);
+      if (!latestUpdate || date > latestUpdate) latestUpdate = date;
+    };
+
+    for (let page = 1; ; page++) {
+      const { data } = await this.octokit.issues.listForRepo({
+        owner: this.owner,
+        repo: this.repo,
+        state: 'all',
+        sort: 'updated',
+        direction: 'asc',
+        per_page: this.githubConfig.pageSize,
+        page,
+        ...(since && { since: since.toISOString() }),
+      });
+
+      for (const issue of data) {
+        track(issue.updated_at);
+        const labels = issue.labels.map((label) =>
+          typeof label === 'string' ? label : label.name || ''
+        );
+        issues.set(issue.number, {
+          title: issue.title,
+          isPullRequest: !!issue.pull_request,
+          labels,
+        });
+
+        if (issue.pull_request || !isNew(issue.created_at)) continue;
+        if (!this.shouldImport(issue.user, issue.body || '')) continue;
+
+        messages.push(
+          this.buildMessage({
+            messageId: `issue-${issue.number}`,
+            createdAt: issue.created_at,
+            author: issue.user,
+            authorAssociation: issue.author_association || 'NONE',
+            content: `${issue.title}\n\n${issue.body || ''}`,
+            channel: 'issues',
+            url: issue.html_url,
+            rawData: issue,
+            metadata: {
+              source: 'issue',
+              threadId: `issue-${issue.number}`,
+              threadTitle: issue.title,
+              labels,
+              issueState: issue.state,
+              isAcceptedAnswer: false,
+            },
+          })
+        );
+      }
+
+      if (data.length < this.githubConfig.pageSize!) break;
+    }
+
+    for (let page = 1; ; page++) {
+      const { data } = await this.octokit.issues.listCommentsForRepo({
+        owner: this.owner,
+        repo: this.repo,
+        sort: 'updated',
+        direction: 'asc',
+        per_page: this.githubConfig.pageSize,
+        page,
+        ...(since && { since: since.toISOString() }),
+      });
+
+      for (const comment of data) {
+        track(comment.updated_at);
+        const issueNumber = parseInt(comment.issue_url.split('/').pop() || '0');
+        const issue = issues.get(issueNumber);
+
+        if (issue?.isPullRequest || !isNew(comment.created_at)) continue;
+        if (!this.shouldImport(comment.user, comment.body || '')) continue;
+
+        messages.push(
+          this.buildMessage({
+            messageId: `issue-comment-${comment.id}`,
+            createdAt: comment.created_at,
+            author: comment.user,
+            authorAssociation: comment.author_association,
+            content: comment.body || '',
+            channel: 'issues',
+            url: comment.html_url,
+            rawData: comment,
+            metadata: {
+              source: 'issue',
+              threadId: `issue-${issueNumber}`,
+              threadTitle: issue?.title,
+              labels: issue?.labels,
+              replyToMessageId: `issue-${issueNumber}`,
+              isAcceptedAnswer: false,
+            },
+          })
+        );
+      }
+
+      if (data.length < this.githubConfig.pageSize!) break;
+    }
+
+    return { messages, latestUpdate };
+  }
+
+  /**
+   * Tag a previously imported discussion comment as the accepted answer
+   */
+  private async markAcceptedAnswer(messageId: string): Promise<void> {
+    const existing = await this.db.unifiedMessage.findUnique({
+      where: { streamId_messageId: { streamId: this.streamId, messageId } },
+    });
+    if (!existing) {
+      return;
+    }
+
+    await this.db.unifiedMessage.update({
+      where: { id: existing.id },
+      data: {
+        metadata: {
+          ...((existing.metadata as Record<string, unknown>) || {}),
+          isAcceptedAnswer: true,
+        },
+      },
+    });
+    console.log(`GitHubDiscussionsAdapter: tagged ${messageId} as accepted answer`);
+  }
+
+  /**
+   * Decide whether a post should be imported
+   */
+  private shouldImport(
+    author: { login: string; type?: string; __typename?: string } | null,
+    body: string
+  ): boolean {
+    if (!body || body.trim().length === 0) {
+      return false;
+    }
+    if (this.githubConfig.ignoreBots && author && this.isBot(author)) {
+      return false;
+    }
+    return true;
+  }
+
+  private isBot(author: { login: string; type?: string; __typename?: string }): boolean {
+    return author.type === 'Bot' || author.__typename === 'Bot' || author.login.endsWith('[bot]');
+  }
+
+  /**
+   * Whether a post counts as a maintainer reply
+   */
+  private isMaintainer(login: string | undefined, authorAssociation: string): boolean {
+    if (login && this.githubConfig.maintainers!.includes(login)) {
+      return true;
+    }
+    return this.githubConfig.maintainerAssociations!.includes(authorAssociation);
+  }
+
+  /**
+   * Build a StreamMessage with the shared author/maintainer metadata
+   */
+  private buildMessage(post: {
+    messageId: string;
+    createdAt: string;
+    author: { login: string } | null;
+    authorAssociation: string;
+    content: string;
+    channel: string;
+    url: string;
+    rawData: any;
+    metadata: Record<string, any>;
+  }): StreamMessage {
+    const login = post.author?.login;
+
+    return {
+      messageId: post.messageId,
+      timestamp: new Date(post.createdAt),
+      author: login || 'ghost', // GitHub's placeholder for deleted accounts
+      content: post.content,
+      channel: post.channel,
+      rawData: post.rawData,
+      metadata: {
+        ...post.metadata,
+        repository: this.githubConfig.repository,
+        url: post.url,
+        authorLogin: login,
+        authorAssociation: post.authorAssociation,
+        isMaintainer: this.isMaintainer(login, post.authorAssociation),
+      },
+    };
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * JSON File Stream Adapter
+ * Processes JSON, NDJSON and ZIP exports (Telegram Desktop, Slack, Matrix, ...) from the
+ * inbox directory using JSONPath-style field mapping
+
+ * Date: 2026-10-19
+ * Reference: /docs/STREAM-CONFIGURATION.md
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { unzipSync } from 'fflate';
+import { PrismaClient } from '@prisma/client';
+import { FileInboxAdapter, FileProcessingResult } from './file-inbox-adapter.js';
+import { getJsonPathValue, parseJsonPath, queryJsonPath } from './json-path.js';
+import { StreamMessage, StreamWatermark } from '../types.js';
+
+const JSON_EXTENSIONS = ['.json'];
+const NDJSON_EXTENSIONS = ['.ndjson', '.jsonl'];
+
+export interface JsonFileConfig {
+  inboxDir: string; // Directory to watch for .json, .ndjson/.jsonl and .zip files
+  processedDir: string; // Directory to move processed files
+  recordsPath?: string; // Path to the message records (default: "$[*]" for JSON, "$" per NDJSON line)
+  fieldMapping: {
+    content: string; // Path to message text (required)
+    messageId?: string; // Path to message ID (auto-generated if missing)
+    timestamp?: string; // Path to timestamp (ISO string, unix seconds or milliseconds)
+    author?: string; // Path to author name
+    channel?: string; // Path to channel name (default: ZIP folder or file name)
+    replyTo?: string; // Path to the ID of the message being replied to
+  };
+  idScope?: 'global' | 'channel'; // Prefix IDs with the channel when IDs repeat across channels (default: global)
+  zipEntryPattern?: string; // Regex selecting ZIP entries to import (default: all JSON/NDJSON entries)
+  skipEmptyContent?: boolean; // Silently skip records without text, e.g. service messages (default: true)
+}
+
+interface JsonSource {
+  name: string; // File name, or "archive.zip/entry.json" for ZIP entries
+  channel?: string; // Channel implied by the ZIP layout
+  text: string;
+  ndjson: boolean;
+}
+
+export class JsonFileAdapter extends FileInboxAdapter {
+  private jsonConfig!: JsonFileConfig;
+  protected readonly fileExtensions = [...JSON_EXTENSIONS, ...NDJSON_EXTENSIONS, '.zip'];
+
+  constructor(streamId: string, db: PrismaClient) {
+    super(streamId, 'json-file', db);
+  }
+
+  /**
+   * Validate JSON adapter configuration
+   */
+  validateConfig(config: any): boolean {
+    if (!config.inboxDir || typeof config.inboxDir !== 'string') {
+      console.error('JsonFileAdapter: inboxDir is required and must be a string');
+      return false;
+    }
+
+    if (!config.processedDir || typeof config.processedDir !== 'string') {
+      console.error('JsonFileAdapter: processedDir is required and must be a string');
+      return false;
+    }
+
+    if (!config.fieldMapping || typeof config.fieldMapping !== 'object') {
+      console.error('JsonFileAdapter: fieldMapping is required and must be an object');
+      return false;
+    }
+
+    if (!config.fieldMapping.content || typeof config.fieldMapping.content !== 'string') {
+      console.error('JsonFileAdapter: fieldMapping.content is required and must be a string');
+      return false;
+    }
+
+    const paths = [config.recordsPath, ...Object.values(config.fieldMapping)].filter(
+      (p) => p !== undefined
+    );
+    for (const expression of paths) {
+      try {
+        parseJsonPath(String(expression));
+      } catch (error) {
+        console.error(`JsonFileAdapter: ${error instanceof Error ? error.message : error}`);
+        return false;
+      }
+    }
+
+    if (config.zipEntryPattern) {
+      try {
+        new RegExp(config.zipEntryPattern);
+      } catch {
+        console.error('JsonFileAdapter: zipEntryPattern must be a valid regular expression');
+        return false;
+      }
+    }
+
+    this.jsonConfig = {
+      ...config,
+      idScope: config.idScope === 'channel' ? 'channel' : 'global',
+      skipEmptyContent: config.skipEmptyContent !== false,
+    } as JsonFileConfig;
+    return true;
+  }
+
+  protected getDirectories(): { inboxDir: string; processedDir: string } {
+    return { inboxDir: this.jsonConfig.inboxDir, processedDir: this.jsonConfig.processedDir };
+  }
+
+  /**
+   * Fetch messages from JSON files in inbox directory
+   */
+  async fetchMessages(watermark?: StreamWatermark): Promise<StreamMessage[]> {
+    this.ensureInitialized();
+
+    const allMessages = await this.processInbox();
+
+    let messagesToProcess = allMessages;
+    if (watermark?.lastProcessedTime) {
+      messagesToProcess = allMessages.filter((msg) => msg.timestamp > watermark.lastProcessedTime!);
+      console.log(
+        `Filtered ${allMessages.length} messages to ${messagesToProcess.length} based on watermark`
+      );
+    }
+
+    if (messagesToProcess.length > 0) {
+      await this.saveMessages(messagesToProcess);
+    }
+
+    return messagesToProcess;
+  }
+
+  /**
+   * Process a single JSON, NDJSON or ZIP file
+   */
+  protected async processFile(filePath: string): Promise<FileProcessingResult> {
+    const fileName = path.basename(filePath);
+    const sources = await this.readSources(filePath);
+
+    const messages: StreamMessage[] = [];
+    const errors: Array<{ row: number; error: string }> = [];
+    let rowNumber = 0;
+
+    for (const source of sources) {
+      let records: Array<{ value: any; ancestors: any[] }>;
+      try {
+        records = this.extractRecords(source);
+      } catch (error) {
+        rowNumber++;
+        errors.push({
+          row: rowNumber,
+          error: `${source.name}: ${error instanceof Error ? error.message : String(error)}`,
+        });
+        continue;
+      }
+
+      for (const record of records) {
+        rowNumber++;
+        try {
+          const message = this.mapRecord(record.value, record.ancestors, rowNumber, source);
+          if (message) {
+            messages.push(message);
+          } else {
+            rowNumber--; // Skipped records do not count as rows
+          }
+        } catch (error) {
+          errors.push({
+            row: rowNumber,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+
+    return {
+      messages,
+      report: {
+        fileName,
+        totalRows: rowNumber,
+        successfulRows: messages.length,
+        failedRows: errors.length,
+        errors,
+        processedAt: new Date(),
+      },
+    };
+  }
+
+  /**
+   * Read a file into one or more JSON sources; ZIP archives yield one source per entry
+   */
+  private async readSources(filePath: string): Promise<JsonSource[]> {
+    const fileName = path.basename(filePath);
+    const extension = path.extname(fileName).toLowerCase();
+
+    if (extension !== '.zip') {
+      const text = await fs.readFile(filePath, 'utf-8');
+      return [{ name: fileName, text, ndjson: NDJSON_EXTENSIONS.includes(extension) }];
+    }
+
+    const archive = unzipSync(new Uint8Array(await fs.readFile(filePath)));
+    const pattern = this.jsonConfig.zipEntryPattern
+      ? new RegExp(this.jsonConfig.zipEntryPattern)
+      : null;
+    const decoder = new TextDecoder('utf-8');
+
+    return Object.keys(archive)
+      .filter((entry) => {
+        const entryExt = path.posix.extname(entry).toLowerCase();
+        if (entry.endsWith('/') || entry.startsWith('__MACOSX/')) return false;
+        if (![...JSON_EXTENSIONS, ...NDJSON_EXTENSIONS].includes(entryExt)) return false;
+        return !pattern || pattern.test(entry);
+      })
+      .sort()
+      .map((entry) => {
+        // Per-channel layouts: "general/2024-01-01.json" or "general.json"
+        const dir = path.posix.dirname(entry);
+        const channel =
+          dir !== '.'
+            ? path.posix.basename(dir)
+            : path.posix.basename(entry, path.posix.extname(entry));
+        return {
+          name: `${fileName}/${entry}`,
+          channel,
+          text: decoder.decode(archive[entry]),
+          ndjson: NDJSON_EXTENSIONS.includes(path.posix.extname(entry).toLowerCase()),
+        };
+      });
+  }
+
+  /**
+   * Parse a source and select its message records
+   */
+  private extractRecords(source: JsonSource): Array<{ value: any; ancestors: any[] }> {
+    if (source.ndjson) {
+      const recordsPath = this.jsonConfig.recordsPath || '$';
+      return source.text
+        .split(/\r?\n/)
+        .filter((line) => line.trim().length > 0)
+        .flatMap((line, index) => {
+          let parsed: any;
+          try {
+            parsed = JSON.parse(line);
+          } catch {
+            throw new Error(`Invalid JSON on line ${index + 1}`);
+          }
+          return queryJsonPath(parsed, recordsPath);
+        });
+    }
+
+    const parsed = JSON.parse(source.text);
+    const recordsPath = this.jsonConfig.recordsPath || (Array.isArray(parsed) ? '$[*]' : '$');
+    // Paths like "$.chats.list[*].messages[*]" flatten nested arrays into one record list
+    return queryJsonPath(parsed, recordsPath).flatMap((match) =>
+      Array.isArray(match.value)
+        ? match.value.map((value) => ({ value, ancestors: match.ancestors }))
+        : [match]
+    );
+  }
+
+  /**
+   * Map a single record onto a StreamMessage; returns null for skipped records
+   */
+  private mapRecord(
+    record: any,
+    ancestors: any[],
+    rowNumber: number,
+    source: JsonSource
+  ): StreamMessage | null {
+    const mapping = this.jsonConfig.fieldMapping;
+    const read = (expression?: string) =>
+      expression ? getJsonPathValue(record, expression, ancestors) : undefined;
+
+    const content = JsonFileAdapter.toText(read(mapping.content));
+    if (!content.trim()) {
+      if (this.jsonConfig.skipEmptyContent) {
+        return null;
+      }
+      throw new Error(`Missing or invalid content field: ${mapping.content}`);
+    }
+
+    let timestamp: Date;
+    const rawTimestamp = read(mapping.timestamp);
+    if (rawTimestamp !== undefined && rawTimestamp !== null && rawTimestamp !== '') {
+      timestamp = JsonFileAdapter.parseTimestamp(rawTimestamp);
+      if (isNaN(timestamp.getTime())) {
+        throw new Error(`Invalid timestamp: ${rawTimestamp}`);
+      }
+    } else {
+      // Default to file processing time
+      timestamp = new Date();
+    }
+
+    const author = JsonFileAdapter.toText(read(mapping.author)) || 'unknown';
+    const channel = JsonFileAdapter.toText(read(mapping.channel)) || source.channel;
+
+    const scope = (id: string) =>
+      this.jsonConfig.idScope === 'channel' && channel ? `${channel}-${id}` : id;
+    const rawId = read(mapping.messageId);
+    const messageId =
+      rawId !== undefined && rawId !== null && rawId !== ''
+        ? scope(String(rawId))
+        : `${source.name}-row-${rowNumber}`;
+    const rawReplyTo = read(mapping.replyTo);
+    const replyTo =
+      rawReplyTo !== undefined && rawReplyTo !== null && rawReplyTo !== ''
+        ? scope(String(rawReplyTo))
+        : undefined;
+
+    return {
+      messageId,
+      timestamp,
+      author,
+      content,
+      channel,
+      rawData: record,
+      metadata: {
+        source: 'json',
+        fileName: source.name,
+        rowNumber,
+        // Slack-style exports set the thread key on the parent too; a self-reference is not a reply
+        replyToMessageId: replyTo !== messageId ? replyTo : undefined,
+      },
+    };
+  }
+
+  /**
+   * Flatten a mapped value to text. Rich-text arrays (e.g. Telegram's
+   * ["Hello ", { type: "bold", text: "world" }]) are concatenated.
+   */
+  static toText(value: any): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (Array.isArray(value)) return value.map((item) => JsonFileAdapter.toText(item)).join('');
+    if (typeof value === 'object' && 'text' in value) return JsonFileAdapter.toText(value.text);
+    return '';
+  }
+
+  /**
+   * Parse ISO strings, unix seconds (incl. Slack "1700000000.000100") or unix milliseconds
+   */
+  static parseTimestamp(value: any): Date {
+    const numeric =
+      typeof value === 'number'
+        ? value
+        : /^\d+(\.\d+)?$/.test(String(value))
+          ? parseFloat(value)
+          : NaN;
+    if (!isNaN(numeric)) {
+      // Values below 1e12 are seconds (1e12 ms is 2001-09-09)
+      return new Date(numeric < 1e12 ? Math.round(numeric * 1000) : numeric);
+    }
+    return new Date(value);
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * JSONPath-style Field Access
+ * Small subset of JSONPath used by file adapters to map export formats onto messages:
+ * `$`, `.key`, `['key']`, `[0]`, `[*]`, `.*` and `..key` (recursive descent),
+ * plus `^` to step up to the object that contains the current record.
+
+ * Date: 2026-10-19
+ * Reference: /docs/STREAM-CONFIGURATION.md
+ */
+
+type PathSegment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'descendant'; key: string }
+  | { type: 'parent' };
+
+export interface JsonPathMatch {
+  value: any;
+  ancestors: any[]; // Enclosing objects, nearest last (arrays are skipped)
+}
+
+const pathCache = new Map<string, PathSegment[]>();
+
+/**
+ * Parse a path expression into segments (cached)
+ */
+export function parseJsonPath(expression: string): PathSegment[] {
+  const cached = pathCache.get(expression);
+  if (cached) return cached;
+
+  const segments: PathSegment[] = [];
+  let rest = expression.trim();
+  if (rest.startsWith('$')) rest = rest.slice(1);
+
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+
+    if ((match = rest.match(/^\^/))) {
+      segments.push({ type: 'parent' });
+    } else if ((match = rest.match(/^\.\.([A-Za-z_$][\w$-]*)/))) {
+      segments.push({ type: 'descendant', key: match[1] });
+    } else if ((match = rest.match(/^\.\*/)) || (match = rest.match(/^\[\*\]/))) {
+      segments.push({ type: 'wildcard' });
+    } else if ((match = rest.match(/^\.?([A-Za-z_$][\w$-]*)/))) {
+      segments.push({ type: 'key', key: match[1] });
+    } else if ((match = rest.match(/^\[(-?\d+)\]/))) {
+      segments.push({ type: 'index', index: parseInt(match[1]) });
+    } else if ((match = rest.match(/^\[(['"])(.*?)\1\]/))) {
+      segments.push({ type: 'key', key: match[2] });
+    } else {
+      throw new Error(`Invalid JSONPath "${expression}" near "${rest}"`);
+    }
+
+    rest = rest.slice(match[0].length);
+  }
+
+  pathCache.set(expression, segments);
+  return segments;
+}
+
+/**
+ * Evaluate a path against a value, returning every match with its enclosing objects.
+ * `ancestors` seeds the parent chain so `^` can reach outside `root`.
+ */
+export function queryJsonPath(
+  root: any,
+  expression: string,
+  ancestors: any[] = []
+): JsonPathMatch[] {
+  let current: JsonPathMatch[] = [{ value: root, ancestors }];
+
+  for (const segment of parseJsonPath(expression)) {
+    const next: JsonPathMatch[] = [];
+
+    for (const { value, ancestors: chain } of current) {
+      const childChain = isPlainObject(value) ? [...chain, value] : chain;
+
+      switch (segment.type) {
+        case 'key':
+          if (isPlainObject(value) && value[segment.key] !== undefined) {
+            next.push({ value: value[segment.key], ancestors: childChain });
+          }
+          break;
+        case 'index':
+          if (Array.isArray(value)) {
+            const index = segment.index < 0 ? value.length + segment.index : segment.index;
+            if (index >= 0 && index < value.length) {
+              next.push({ value: value[index], ancestors: childChain });
+            }
+          }
+          break;
+        case 'wildcard':
+          if (Array.isArray(value)) {
+            for (const item of value) next.push({ value: item, ancestors: childChain });
+          } else if (isPlainObject(value)) {
+            for (const item of Object.values(value))
+              next.push({ value: item, ancestors: childChain });
+          }
+          break;
+        case 'descendant':
+          collectDescendants(value, segment.key, chain, next);
+          break;
+        case 'parent':
+          if (chain.length > 0) {
+            next.push({ value: chain[chain.length - 1], ancestors: chain.slice(0, -1) });
+          }
+          break;
+      }
+    }
+
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Evaluate a path and return the first matching value (or undefined)
+ */
+export function getJsonPathValue(root: any, expression: string, ancestors: any[] = []): any {
+  return queryJsonPath(root, expression, ancestors)[0]?.value;
+}
+
+function collectDescendants(value: any, key: string, chain: any[], out: JsonPathMatch[]): void {
+  if (Array.isArray(value)) {
+    for (const item of value) collectDescendants(item, key, chain, out);
+  } else if (isPlainObject(value)) {
+    const childChain = [...chain, value];
+    if (value[key] !== undefined) {
+      out.push({ value: value[key], ancestors: childChain });
+    }
+    for (const item of Object.values(value)) collectDescendants(item, key, childChain, out);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
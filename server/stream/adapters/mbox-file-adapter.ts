@@ -0,0 +1,456 @@
+/**
+ * Mbox File Stream Adapter
+ * Processes mailing-list archives (mbox) from inbox directory, rebuilding threads
+ * from In-Reply-To/References headers and stripping quoted text
+
+ * Date: 2026-10-19
+ * Reference: /docs/STREAM-CONFIGURATION.md
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { FileInboxAdapter, FileProcessingResult } from './file-inbox-adapter.js';
+import { StreamMessage, StreamWatermark } from '../types.js';
+
+export interface MboxFileConfig {
+  inboxDir: string; // Directory to watch for .mbox files
+  processedDir: string; // Directory to move processed files
+  listName?: string; // Channel name for imported messages (default: List-Id header)
+  stripQuotes?: boolean; // Remove quoted replies and signatures (default: true)
+}
+
+export interface MailMessage {
+  headers: Record<string, string>;
+  body: string; // Decoded plain-text body
+  fromLine?: string; // mbox "From " separator line
+}
+
+interface MimeEntity {
+  headers: Record<string, string>;
+  body: string; // Raw (binary-safe latin1) body
+}
+
+export class MboxFileAdapter extends FileInboxAdapter {
+  private mboxConfig!: MboxFileConfig;
+  protected readonly fileExtensions = ['.mbox', '.mbx'];
+
+  constructor(streamId: string, db: PrismaClient) {
+    super(streamId, 'mbox', db);
+  }
+
+  /**
+   * Validate mbox adapter configuration
+   */
+  validateConfig(config: any): boolean {
+    if (!config.inboxDir || typeof config.inboxDir !== 'string') {
+      console.error('MboxFileAdapter: inboxDir is required and must be a string');
+      return false;
+    }
+
+    if (!config.processedDir || typeof config.processedDir !== 'string') {
+      console.error('MboxFileAdapter: processedDir is required and must be a string');
+      return false;
+    }
+
+    this.mboxConfig = {
+      inboxDir: config.inboxDir,
+      processedDir: config.processedDir,
+      listName: config.listName,
+      stripQuotes: config.stripQuotes !== false,
+    };
+    return true;
+  }
+
+  protected getDirectories(): { inboxDir: string; processedDir: string } {
+    return { inboxDir: this.mboxConfig.inboxDir, processedDir: this.mboxConfig.processedDir };
+  }
+
+  /**
+   * Fetch messages from mbox files in inbox directory
+   */
+  async fetchMessages(watermark?: StreamWatermark): Promise<StreamMessage[]> {
+    this.ensureInitialized();
+
+    const allMessages = await this.processInbox();
+
+    let messagesToProcess = allMessages;
+    if (watermark?.lastProcessedTime) {
+      messagesToProcess = allMessages.filter((msg) => msg.timestamp > watermark.lastProcessedTime!);
+      console.log(
+        `Filtered ${allMessages.length} messages to ${messagesToProcess.length} based on watermark`
+      );
+    }
+
+    if (messagesToProcess.length > 0) {
+      await this.saveMessages(messagesToProcess);
+    }
+
+    return messagesToProcess;
+  }
+
+  /**
+   * Process a single mbox file
+   */
+  protected async processFile(filePath: string): Promise<FileProcessingResult> {
+    const fileName = path.basename(filePath);
+    // latin1 keeps every byte intact; text is decoded per part using its declared charset
+    const fileContent = await fs.readFile(filePath, 'latin1');
+    const mails = MboxFileAdapter.parseMbox(fileContent);
+
+    const messages: StreamMessage[] = [];
+    const errors: Array<{ row: number; error: string }> = [];
+
+    for (let i = 0; i < mails.length; i++) {
+      const rowNumber = i + 1;
+      try {
+        messages.push(this.parseMail(mails[i], rowNumber, fileName));
+      } catch (error) {
+        errors.push({
+          row: rowNumber,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    await this.resolveThreads(messages);
+
+    return {
+      messages,
+      report: {
+        fileName,
+        totalRows: mails.length,
+        successfulRows: messages.length,
+        failedRows: errors.length,
+        errors,
+        processedAt: new Date(),
+      },
+    };
+  }
+
+  /**
+   * Convert a parsed mail into a StreamMessage
+   */
+  private parseMail(mail: MailMessage, rowNumber: number, fileName: string): StreamMessage {
+    const { headers } = mail;
+
+    const dateValue = headers['date'] || mail.fromLine?.replace(/^From \S+\s+/, '');
+    const timestamp = dateValue ? new Date(dateValue) : new Date(NaN);
+    if (isNaN(timestamp.getTime())) {
+      throw new Error(`Invalid or missing Date header: ${headers['date'] || '(none)'}`);
+    }
+
+    const subject = headers['subject'] || '';
+    const messageIdHeader = MboxFileAdapter.parseMessageIds(headers['message-id'])[0];
+    const inReplyTo = MboxFileAdapter.parseMessageIds(headers['in-reply-to'])[0];
+    const references = MboxFileAdapter.parseMessageIds(headers['references']);
+    const replyTo = inReplyTo || references[references.length - 1];
+
+    let body = mail.body;
+    if (this.mboxConfig.stripQuotes) {
+      body = MboxFileAdapter.stripQuotedText(body);
+    }
+    if (!body.trim()) {
+      throw new Error('Message has no content after stripping quoted text');
+    }
+
+    const { name, address } = MboxFileAdapter.parseAddress(headers['from'] || '');
+    const listId = headers['list-id']?.match(/^\s*"?([^"<]*?)"?\s*</)?.[1];
+
+    return {
+      messageId: messageIdHeader || `${fileName}-msg-${rowNumber}`,
+      timestamp,
+      author: name || address || 'unknown',
+      // Thread starters carry the subject, which is usually the question being asked
+      content: replyTo || !subject ? body : `${subject}\n\n${body}`,
+      channel: this.mboxConfig.listName || listId || undefined,
+      rawData: { headers, body: mail.body },
+      metadata: {
+        source: 'mbox',
+        fileName,
+        rowNumber,
+        subject,
+        authorEmail: address,
+        inReplyTo,
+        references,
+        replyToMessageId: replyTo,
+        threadId: references[0],
+      },
+    };
+  }
+
+  /**
+   * Fill in metadata.threadId for messages without a References chain by following
+   * In-Reply-To through this file and, failing that, previously imported messages.
+   */
+  private async resolveThreads(messages: StreamMessage[]): Promise<void> {
+    const byId = new Map(messages.map((m) => [m.messageId, m]));
+
+    const findRoot = async (message: StreamMessage, seen: Set<string>): Promise<string> => {
+      if (message.metadata!.threadId) return message.metadata!.threadId;
+
+      const parentId: string | undefined = message.metadata!.replyToMessageId;
+      if (!parentId || seen.has(parentId)) return message.messageId;
+      seen.add(message.messageId);
+
+      const parent = byId.get(parentId);
+      if (parent) return findRoot(parent, seen);
+
+      const stored = await this.db.unifiedMessage.findUnique({
+        where: { streamId_messageId: { streamId: this.streamId, messageId: parentId } },
+        select: { metadata: true },
+      });
+      return (stored?.metadata as Record<string, any> | null)?.threadId || parentId;
+    };
+
+    for (const message of messages) {
+      message.metadata!.threadId = await findRoot(message, new Set());
+    }
+  }
+
+  /**
+   * Split an mbox file into messages.
+   * A message starts at a "From " line at the start of the file or after a blank line;
+   * mboxrd-escaped ">From " lines in bodies are unescaped.
+   */
+  static parseMbox(content: string): MailMessage[] {
+    const lines = content.replace(/\r\n/g, '\n').split('\n');
+    const chunks: Array<{ fromLine: string; lines: string[] }> = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (line.startsWith('From ') && (i === 0 || lines[i - 1] === '')) {
+        chunks.push({ fromLine: line, lines: [] });
+      } else if (chunks.length > 0) {
+        chunks[chunks.length - 1].lines.push(line.replace(/^>(>*From )/, '$1'));
+      }
+    }
+
+    return chunks.map((chunk) => {
+      const entity = MboxFileAdapter.parseEntity(chunk.lines.join('\n').replace(/\n+$/, ''));
+      const headers: Record<string, string> = {};
+      for (const [key, value] of Object.entries(entity.headers)) {
+        headers[key] = MboxFileAdapter.decodeHeader(value);
+      }
+      return { headers, body: MboxFileAdapter.extractText(entity), fromLine: chunk.fromLine };
+    });
+  }
+
+  /**
+   * Split raw text into (unfolded, lowercased) headers and body
+   */
+  private static parseEntity(raw: string): MimeEntity {
+    const separator = raw.indexOf('\n\n');
+    const headerBlock = separator === -1 ? raw : raw.slice(0, separator);
+    const body = separator === -1 ? '' : raw.slice(separator + 2);
+
+    const headers: Record<string, string> = {};
+    let current: string | null = null;
+    for (const line of headerBlock.split('\n')) {
+      if (/^[ \t]/.test(line) && current) {
+        headers[current] += ' ' + line.trim();
+        continue;
+      }
+      const colon = line.indexOf(':');
+      if (colon <= 0) continue;
+      current = line.slice(0, colon).trim().toLowerCase();
+      // Keep the first occurrence; later duplicates (e.g. Received) are not needed
+      if (headers[current] === undefined) {
+        headers[current] = line.slice(colon + 1).trim();
+      } else {
+        current = null;
+      }
+    }
+
+    return { headers, body };
+  }
+
+  /**
+   * Extract the plain-text body of a MIME entity (first text/plain part, else text/html)
+   */
+  private static extractText(entity: MimeEntity): string {
+    const contentType = entity.headers['content-type'] || 'text/plain';
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+    if (mimeType.startsWith('multipart/')) {
+      const boundary = MboxFileAdapter.headerParam(contentType, 'boundary');
+      if (!boundary) return '';
+
+      const parts = entity.body
+        .split(
+          new RegExp(`^--${boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:--)?[ \\t]*$`, 'm')
+        )
+        .slice(1, -1)
+        .map((part) => MboxFileAdapter.parseEntity(part.replace(/^\n/, '')));
+
+      const typeOf = (part: MimeEntity) =>
+        (part.headers['content-type'] || 'text/plain').trim().toLowerCase();
+      const preferred =
+        parts.find((p) => typeOf(p).startsWith('text/plain')) ||
+        parts.find((p) => typeOf(p).startsWith('multipart/')) ||
+        parts.find((p) => typeOf(p).startsWith('text/html'));
+      return preferred ? MboxFileAdapter.extractText(preferred) : '';
+    }
+
+    if (!mimeType.startsWith('text/')) {
+      return '';
+    }
+
+    const text = MboxFileAdapter.decodeBody(
+      entity.body,
+      entity.headers['content-transfer-encoding'],
+      MboxFileAdapter.headerParam(contentType, 'charset')
+    );
+    return mimeType === 'text/html' ? MboxFileAdapter.htmlToText(text) : text;
+  }
+
+  /**
+   * Decode a body by transfer encoding and charset
+   */
+  private static decodeBody(body: string, encoding = '7bit', charset = 'utf-8'): string {
+    let bytes: Buffer;
+    switch (encoding.trim().toLowerCase()) {
+      case 'base64':
+        bytes = Buffer.from(body.replace(/\s+/g, ''), 'base64');
+        break;
+      case 'quoted-printable':
+        bytes = MboxFileAdapter.decodeQuotedPrintable(body);
+        break;
+      default:
+        bytes = Buffer.from(body, 'latin1');
+    }
+    return MboxFileAdapter.decodeCharset(bytes, charset);
+  }
+
+  private static decodeQuotedPrintable(text: string): Buffer {
+    const unfolded = text.replace(/=\r?\n/g, '');
+    const bytes: number[] = [];
+    for (let i = 0; i < unfolded.length; i++) {
+      const hex = unfolded.slice(i + 1, i + 3);
+      if (unfolded[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+        bytes.push(parseInt(hex, 16));
+        i += 2;
+      } else {
+        bytes.push(unfolded.charCodeAt(i) & 0xff);
+      }
+    }
+    return Buffer.from(bytes);
+  }
+
+  private static decodeCharset(bytes: Buffer, charset: string): string {
+    try {
+      return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+    } catch {
+      return bytes.toString('utf8');
+    }
+  }
+
+  /**
+   * Decode a raw header value: UTF-8 bytes plus RFC 2047 encoded-words
+   */
+  private static decodeHeader(value: string): string {
+    const utf8 = Buffer.from(value, 'latin1').toString('utf8');
+    return utf8
+      .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+      .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset, encoding, text) => {
+        const bytes =
+          encoding.toUpperCase() === 'B'
+            ? Buffer.from(text, 'base64')
+            : MboxFileAdapter.decodeQuotedPrintable(text.replace(/_/g, ' '));
+        return MboxFileAdapter.decodeCharset(bytes, charset);
+      });
+  }
+
+  private static headerParam(header: string, name: string): string | undefined {
+    const match = header.match(new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+    return match ? (match[1] ?? match[2]) : undefined;
+  }
+
+  private static htmlToText(html: string): string {
+    return html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h\d)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  /**
+   * Extract message IDs ("<id@host>") from Message-ID / In-Reply-To / References
+   */
+  static parseMessageIds(value: string | undefined): string[] {
+    if (!value) return [];
+    const bracketed = value.match(/<[^<>\s]+>/g);
+    if (bracketed) return bracketed.map((id) => id.slice(1, -1));
+    const bare = value.trim();
+    return bare && !/\s/.test(bare) ? [bare] : [];
+  }
+
+  /**
+   * Parse a From header into display name and address
+   */
+  static parseAddress(value: string): { name?: string; address?: string } {
+    const angle = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+    if (angle) {
+      const name = angle[1].replace(/^"(.*)"$/, '$1').trim();
+      return { name: name || undefined, address: angle[2].trim() };
+    }
+    const comment = value.match(/^\s*(\S+@\S+)\s*\((.*)\)\s*$/);
+    if (comment) {
+      return { name: comment[2].trim() || undefined, address: comment[1] };
+    }
+    const address = value.trim().replace(/\s+at\s+/, '@'); // Pipermail obfuscates as "user at host"
+    return { address: address || undefined };
+  }
+
+  /**
+   * Remove quoted replies, reply attributions, forwarded originals and signatures
+   */
+  static stripQuotedText(text: string): string {
+    const output: string[] = [];
+
+    for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+      // Everything below a signature separator or an Outlook/Mailman divider is not new content
+      if (
+        line === '-- ' ||
+        line === '--' ||
+        /^-{2,}\s*Original Message\s*-{2,}\s*$/i.test(line) ||
+        /^_{10,}\s*$/.test(line)
+      ) {
+        break;
+      }
+
+      if (/^\s*>/.test(line)) {
+        MboxFileAdapter.dropAttribution(output);
+        continue;
+      }
+
+      output.push(line);
+    }
+
+    return output
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Remove an "On <date>, <name> wrote:" line (possibly wrapped over two lines) before a quote
+   */
+  private static dropAttribution(output: string[]): void {
+    let last = output.length - 1;
+    while (last >= 0 && output[last].trim() === '') last--;
+    if (last < 0 || !/wrote:\s*$/i.test(output[last])) return;
+
+    let start = last;
+    if (!/^\s*On\s/i.test(output[last]) && last > 0 && /^\s*On\s/i.test(output[last - 1])) {
+      start = last - 1;
+    }
+    output.splice(start);
+  }
+}
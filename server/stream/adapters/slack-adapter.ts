@@ -0,0 +1,450 @@
+/**
+ * Slack Stream Adapter
+ * Pull-based polling adapter for Slack channels with thread-aware import
+
+ * Date: 2026-10-19
+ * Reference: /docs/STREAM-CONFIGURATION.md
+ */
+
+import { BaseStreamAdapter } from './base-adapter.js';
+import { StreamMessage, StreamWatermark } from '../types.js';
+import { PrismaClient } from '@prisma/client';
+
+const SLACK_API_BASE = 'https://slack.com/api';
+
+// Message subtypes that carry user-authored content; everything else (joins, topic changes, ...) is skipped
+const CONTENT_SUBTYPES = new Set([undefined, 'thread_broadcast', 'file_share', 'me_message']);
+
+export interface SlackBotConfig {
+  botToken: string; // Bot token (xoxb-...) with channels:history and users:read scopes
+  channelIds: string[]; // Channel IDs to monitor (e.g., C0123456789)
+  includeThreads?: boolean; // Import thread replies via conversations.replies (default: true)
+  threadLookbackHours?: number; // How far back to re-check threads for new replies (default: 72)
+  ignoreBots?: boolean; // Skip messages posted by bots (default: true)
+  pageSize?: number; // Messages per API page (default: 200)
+  startDate?: string; // ISO date to start fetching from (e.g., "2024-09-01")
+  apiBaseUrl?: string; // Override API base URL (default: https://slack.com/api)
+}
+
+export interface SlackMessage {
+  type: string;
+  subtype?: string;
+  ts: string;
+  user?: string;
+  bot_id?: string;
+  text: string;
+  thread_ts?: string;
+  reply_count?: number;
+  latest_reply?: string;
+  parent_user_id?: string;
+  edited?: { user: string; ts: string };
+}
+
+interface SlackResponse {
+  ok: boolean;
+  error?: string;
+  has_more?: boolean;
+  response_metadata?: { next_cursor?: string };
+}
+
+interface SlackHistoryResponse extends SlackResponse {
+  messages: SlackMessage[];
+}
+
+export class SlackAdapter extends BaseStreamAdapter {
+  private botConfig!: SlackBotConfig;
+  private channelNames: Map<string, string> = new Map();
+  private userNames: Map<string, string> = new Map();
+
+  constructor(streamId: string, db: PrismaClient) {
+    super(streamId, 'slack', db);
+  }
+
+  /**
+   * Validate Slack bot configuration
+   */
+  validateConfig(config: any): boolean {
+    if (!config.botToken || typeof config.botToken !== 'string') {
+      console.error('SlackAdapter: botToken is required');
+      return false;
+    }
+
+    if (
+      !Array.isArray(config.channelIds) ||
+      config.channelIds.length === 0 ||
+      config.channelIds.some((id: unknown) => typeof id !== 'string' || !id)
+    ) {
+      console.error('SlackAdapter: channelIds must be a non-empty array of channel IDs');
+      return false;
+    }
+
+    if (config.apiBaseUrl) {
+      try {
+        new URL(config.apiBaseUrl);
+      } catch {
+        console.error('SlackAdapter: apiBaseUrl must be a valid URL');
+        return false;
+      }
+    }
+
+    if (config.startDate && isNaN(new Date(config.startDate).getTime())) {
+      console.error('SlackAdapter: startDate must be a valid ISO date');
+      return false;
+    }
+
+    this.botConfig = {
+      botToken: config.botToken,
+      channelIds: config.channelIds,
+      includeThreads: config.includeThreads !== false,
+      threadLookbackHours: config.threadLookbackHours ?? 72,
+      ignoreBots: config.ignoreBots !== false,
+      pageSize: Math.min(config.pageSize || 200, 999),
+      startDate: config.startDate,
+      apiBaseUrl: (config.apiBaseUrl || SLACK_API_BASE).replace(/\/$/, ''),
+    };
+
+    return true;
+  }
+
+  /**
+   * Initialize Slack adapter, test connection and resolve channel names
+   */
+  async initialize(config: any): Promise<void> {
+    await super.initialize(config);
+
+    const connectionOk = await this.testConnection();
+    if (!connectionOk) {
+      throw new Error('Failed to connect to Slack API. Check bot token.');
+    }
+
+    for (const channelId of this.botConfig.channelIds) {
+      try {
+        const info = await this.call<SlackResponse & { channel: { id: string; name: string } }>(
+          'conversations.info',
+          { channel: channelId }
+        );
+        this.channelNames.set(channelId, info.channel.name);
+      } catch (error) {
+        console.warn(`SlackAdapter: could not resolve name for channel ${channelId}:`, error);
+      }
+    }
+
+    console.log(`SlackAdapter initialized for ${this.botConfig.channelIds.length} channels`);
+  }
+
+  /**
+   * Fetch new messages and thread replies from every configured channel.
+   * Each channel keeps its own watermark (resourceId = channel ID, lastImportedId = newest ts).
+   */
+  async fetchMessages(_watermark?: StreamWatermark): Promise<StreamMessage[]> {
+    this.ensureInitialized();
+
+    const allMessages: StreamMessage[] = [];
+
+    for (const channelId of this.botConfig.channelIds) {
+      const messages = await this.fetchChannelMessages(channelId);
+      if (messages.length === 0) {
+        continue;
+      }
+
+      await this.saveMessages(messages);
+
+      const last = messages[messages.length - 1];
+      await this.updateResourceWatermark(channelId, last.timestamp, last.metadata!.ts);
+
+      allMessages.push(...messages);
+    }
+
+    allMessages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    if (allMessages.length > 0) {
+      const lastMessage = allMessages[allMessages.length - 1];
+      await this.updateWatermark(lastMessage.timestamp, lastMessage.messageId, allMessages.length);
+    }
+
+    console.log(
+      `Fetched ${allMessages.length} messages from ${this.botConfig.channelIds.length} Slack channels`
+    );
+
+    return allMessages;
+  }
+
+  /**
+   * Fetch top-level messages after the channel watermark plus any new thread replies.
+   * Threads started before the watermark are re-checked within threadLookbackHours,
+   * since Slack does not surface late replies in conversations.history.
+   */
+  private async fetchChannelMessages(channelId: string): Promise<StreamMessage[]> {
+    const watermark = await this.getResourceWatermark(channelId);
+    const lastTs = watermark.lastProcessedId;
+
+    let oldest: string | undefined;
+    if (lastTs) {
+      const lookbackSeconds = (this.botConfig.threadLookbackHours || 0) * 3600;
+      const lookbackTs = Math.max(0, Math.floor(parseFloat(lastTs)) - lookbackSeconds);
+      oldest = this.botConfig.includeThreads ? `${lookbackTs}.000000` : lastTs;
+    } else if (this.botConfig.startDate) {
+      oldest = SlackAdapter.tsFromDate(new Date(this.botConfig.startDate));
+    }
+
+    // Without a watermark or startDate only the newest page is imported
+    const history = await this.fetchHistory(channelId, oldest, !oldest);
+
+    const collected = new Map<string, SlackMessage>();
+
+    for (const message of history) {
+      const isReply = !!message.thread_ts && message.thread_ts !== message.ts;
+      if (!isReply && (!lastTs || SlackAdapter.compareTs(message.ts, lastTs) > 0)) {
+        collected.set(message.ts, message);
+      }
+
+      const hasNewReplies =
+        this.botConfig.includeThreads &&
+        (message.reply_count || 0) > 0 &&
+        (!lastTs ||
+          !message.latest_reply ||
+          SlackAdapter.compareTs(message.latest_reply, lastTs) > 0);
+
+      if (hasNewReplies) {
+        const replies = await this.fetchReplies(channelId, message.ts, lastTs);
+        for (const reply of replies) {
+          collected.set(reply.ts, reply);
+        }
+      }
+    }
+
+    const ordered = Array.from(collected.values()).sort((a, b) =>
+      SlackAdapter.compareTs(a.ts, b.ts)
+    );
+    const result: StreamMessage[] = [];
+
+    for (const message of ordered) {
+      if (!this.shouldImport(message)) {
+        continue;
+      }
+      result.push(await this.normalizeMessage(message, channelId));
+    }
+
+    return result;
+  }
+
+  /**
+   * Page through conversations.history (newest first) down to `oldest`
+   */
+  private async fetchHistory(
+    channelId: string,
+    oldest: string | undefined,
+    firstPageOnly: boolean
+  ): Promise<SlackMessage[]> {
+    const messages: SlackMessage[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const params: Record<string, string> = {
+        channel: channelId,
+        limit: String(this.botConfig.pageSize),
+      };
+      if (oldest) params.oldest = oldest;
+      if (cursor) params.cursor = cursor;
+
+      const page = await this.call<SlackHistoryResponse>('conversations.history', params);
+      messages.push(...(page.messages || []));
+      cursor = page.has_more ? page.response_metadata?.next_cursor || undefined : undefined;
+    } while (cursor && !firstPageOnly);
+
+    return messages;
+  }
+
+  /**
+   * Page through conversations.replies for one thread, returning replies newer than `after`
+   */
+  private async fetchReplies(
+    channelId: string,
+    threadTs: string,
+    after: string | undefined
+  ): Promise<SlackMessage[]> {
+    const replies: SlackMessage[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const params: Record<string, string> = {
+        channel: channelId,
+        ts: threadTs,
+        limit: String(this.botConfig.pageSize),
+      };
+      if (after) params.oldest = after;
+      if (cursor) params.cursor = cursor;
+
+      const page = await this.call<SlackHistoryResponse>('conversations.replies', params);
+      for (const message of page.messages || []) {
+        // The parent is always returned first; it is handled by the history scan
+        if (message.ts === threadTs) continue;
+        if (after && SlackAdapter.compareTs(message.ts, after) <= 0) continue;
+        replies.push(message);
+      }
+      cursor = page.has_more ? page.response_metadata?.next_cursor || undefined : undefined;
+    } while (cursor);
+
+    return replies;
+  }
+
+  /**
+   * Decide whether a raw Slack message should be imported
+   */
+  private shouldImport(message: SlackMessage): boolean {
+    if (!CONTENT_SUBTYPES.has(message.subtype)) {
+      return false;
+    }
+    if (!message.text || message.text.trim().length === 0) {
+      return false;
+    }
+    if (this.botConfig.ignoreBots && (message.bot_id || message.subtype === 'bot_message')) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Normalize Slack message to StreamMessage format
+   */
+  private async normalizeMessage(message: SlackMessage, channelId: string): Promise<StreamMessage> {
+    const isReply = !!message.thread_ts && message.thread_ts !== message.ts;
+
+    return {
+      messageId: `${channelId}-${message.ts}`, // ts is only unique per channel
+      timestamp: SlackAdapter.dateFromTs(message.ts),
+      author: message.user ? await this.resolveUserName(message.user) : 'Unknown',
+      content: message.text,
+      channel: this.channelNames.get(channelId) || channelId,
+      rawData: message,
+      metadata: {
+        channelId,
+        ts: message.ts,
+        threadTs: message.thread_ts,
+        isThreadReply: isReply,
+        replyToMessageId: isReply ? `${channelId}-${message.thread_ts}` : undefined,
+        replyCount: message.reply_count,
+        userId: message.user,
+        subtype: message.subtype,
+      },
+    };
+  }
+
+  /**
+   * Resolve a Slack user ID to a display name (cached per adapter)
+   */
+  private async resolveUserName(userId: string): Promise<string> {
+    const cached = this.userNames.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    let name = userId;
+    try {
+      const info = await this.call<
+        SlackResponse & {
+          user: { name: string; real_name?: string; profile?: { display_name?: string } };
+        }
+      >('users.info', { user: userId });
+      name = info.user.profile?.display_name || info.user.real_name || info.user.name || userId;
+    } catch (error) {
+      console.warn(`SlackAdapter: could not resolve user ${userId}:`, error);
+    }
+
+    this.userNames.set(userId, name);
+    return name;
+  }
+
+  /**
+   * Call a Slack Web API method.
+   * Honors a single 429 retry using the Retry-After header.
+   */
+  private async call<T extends SlackResponse>(
+    method: string,
+    params: Record<string, string>,
+    isRetry = false
+  ): Promise<T> {
+    const query = new URLSearchParams(params);
+    const response = await fetch(`${this.botConfig.apiBaseUrl}/${method}?${query}`, {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${this.botConfig.botToken}`,
+      },
+    });
+
+    if (response.status === 429 && !isRetry) {
+      const retryAfterMs = parseInt(response.headers.get('retry-after') || '1') * 1000;
+      console.warn(`SlackAdapter: rate limited on ${method}, retrying in ${retryAfterMs}ms`);
+      await new Promise((resolve) => setTimeout(resolve, retryAfterMs));
+      return this.call<T>(method, params, true);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Slack API error (${response.status}): ${errorText}`);
+    }
+
+    const data = (await response.json()) as T;
+    if (!data.ok) {
+      throw new Error(`Slack API error: ${method} ${data.error}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Test connection to Slack API
+   */
+  private async testConnection(): Promise<boolean> {
+    try {
+      const auth = await this.call<SlackResponse & { user?: string; team?: string }>(
+        'auth.test',
+        {}
+      );
+      console.log(`Slack connection successful. Bot: ${auth.user} (${auth.team})`);
+      return true;
+    } catch (error) {
+      console.error('Slack connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Convert a Slack ts ("1700000000.000100") to a Date
+   */
+  static dateFromTs(ts: string): Date {
+    const [seconds, micros = '0'] = ts.split('.');
+    return new Date(parseInt(seconds) * 1000 + Math.floor(parseInt(micros.padEnd(6, '0')) / 1000));
+  }
+
+  /**
+   * Convert a Date to a Slack ts
+   */
+  static tsFromDate(date: Date): string {
+    const ms = date.getTime();
+    return `${Math.floor(ms / 1000)}.${String((ms % 1000) * 1000).padStart(6, '0')}`;
+  }
+
+  /**
+   * Compare two Slack ts values without floating point rounding
+   */
+  static compareTs(a: string, b: string): number {
+    const [aSec, aFrac = ''] = a.split('.');
+    const [bSec, bFrac = ''] = b.split('.');
+    const secDiff = parseInt(aSec) - parseInt(bSec);
+    if (secDiff !== 0) {
+      return secDiff > 0 ? 1 : -1;
+    }
+    const fracDiff = parseInt(aFrac.padEnd(6, '0')) - parseInt(bFrac.padEnd(6, '0'));
+    return fracDiff === 0 ? 0 : fracDiff > 0 ? 1 : -1;
+  }
+
+  /**
+   * Cleanup adapter resources
+   */
+  async cleanup(): Promise<void> {
+    this.channelNames.clear();
+    this.userNames.clear();
+    await super.cleanup();
+  }
+}
@@ -233,6 +233,7 @@ export class TelegramBotAdapter extends BaseStreamAdapter {
   private normalizeMessage(message: Message.TextMessage, update: Update): StreamMessage {
     const chatType = message.chat.type; // 'private', 'group', 'supergroup', 'channel'
     const chatTitle = 'title' in message.chat ? message.chat.title : 'Direct Message';
+    const messageThreadId = 'message_thread_id' in message ? message.message_thread_id : undefined;
 
     const author = message.from
       ? `${message.from.first_name}${message.from.last_name ? ' ' + message.from.last_name : ''}` +
@@ -252,8 +253,12 @@ export class TelegramBotAdapter extends BaseStreamAdapter {
         userId: message.from?.id.toString(),
         username: message.from?.username,
         updateId: update.update_id,
-        messageThreadId: 'message_thread_id' in message ? message.message_thread_id : undefined,
-        replyToMessageId: message.reply_to_message?.message_id,
+        messageThreadId,
+        // Full messageIds so replies and forum topics / reply threads link within the stream
+        replyToMessageId: message.reply_to_message
+          ? `${message.chat.id}-${message.reply_to_message.message_id}`
+          : undefined,
+        threadId: messageThreadId ? `${message.chat.id}-${messageThreadId}` : undefined,
       },
     };
   }
@@ -237,6 +237,8 @@ export class ZulipBotAdapter extends BaseStreamAdapter {
       rawData: message,
       metadata: {
         topic: message.subject,
+        // Topics are only unique within a channel
+        threadId: message.type === 'stream' ? `${channelName}/${message.subject}` : undefined,
         senderEmail: message.sender_email,
         senderId: message.sender_id.toString(),
         messageType: message.type,
@@ -3,6 +3,7 @@
  * Generates structured documentation index from vector store for LLM context
 
  * Date: 2025-10-30
+ * Updated: 2026-10-19 - Cache key covers all documentation sources
  * Reference: /docs/specs/multi-stream-scanner-phase-1.md
  */
 
@@ -99,15 +100,20 @@ export class DocumentationIndexGenerator {
 
   /**
    * Get the current git commit hash for documentation
+   * With several documentation sources, a hash of all their commits, so syncing any
+   * repository yields a new cache key.
    */
   private async getCurrentCommitHash(): Promise<string | null> {
     try {
-      const syncState = await prisma.gitSyncState.findFirst({
-        where: {
-          gitUrl: process.env.DOCS_GIT_URL || '',
-        },
+      const syncStates = await prisma.gitSyncState.findMany({
+        where: { lastCommitHash: { not: null } },
+        orderBy: { sourceId: 'asc' },
       });
-      return syncState?.lastCommitHash || null;
+      if (syncStates.length <= 1) {
+        return syncStates[0]?.lastCommitHash || null;
+      }
+      const commits = syncStates.map((state) => `${state.sourceId}:${state.lastCommitHash}`);
+      return crypto.createHash('sha1').update(commits.join('\n')).digest('hex');
     } catch (error) {
       console.error('Failed to get current commit hash:', error);
       return null;
@@ -3,6 +3,8 @@
  * Centralized prompt definitions with variable placeholders
 
  * Date: 2025-11-10
+ * Updated: 2026-10-19 - Widget follow-up question rewriting
+ * Updated: 2026-10-19 - Grounded widget answers and claim check
  */
 
 export const PROMPT_TEMPLATES = {
@@ -248,6 +250,41 @@ Content:
     system: `You are a helpful AI assistant for {{projectName}} documentation. Provide clear, accurate, and helpful answers based on the documentation provided. If the documentation doesn't contain the answer, be honest about it.`,
   },
 
+  // Widget follow-ups ("and on Windows?") rewritten into standalone questions for retrieval
+  followUpRewrite: {
+    system: `You rewrite follow-up questions from a {{projectName}} documentation chat into standalone questions for documentation search.`,
+    user: `Conversation so far:
+{{history}}
+
+Follow-up question: {{question}}
+
+Rewrite the follow-up question as one standalone question that includes whatever it depends on from the conversation (product, platform, feature, error message). If it is already standalone, return it unchanged. Reply with the question only.`,
+  },
+
+  // Widget answers from the numbered documentation sections, with [n] citations
+  groundedAnswer: {
+    user: `Documentation sections:
+{{context}}
+
+---
+
+Question: {{question}}
+
+Answer using only the documentation sections above. After each statement, cite the sections it comes from by number, e.g. [1] or [1][3]. Do not add facts the sections do not state. If the sections do not answer the question, say so instead of guessing.`,
+  },
+
+  // Post-check of a widget answer against the sections it was generated from
+  groundingCheck: {
+    system: `You verify answers of the {{projectName}} documentation assistant against the documentation sections they were generated from. A claim is supported only if the sections state it or it follows directly from them.`,
+    user: `Documentation sections:
+{{context}}
+
+Answer to verify:
+{{answer}}
+
+List each claim of the answer that the documentation sections do not support, quoted from the answer. Ignore greetings, citations and statements that the documentation does not cover something. Respond with JSON: {"unsupportedClaims": ["..."]}; use an empty list if everything is supported.`,
+  },
+
   // NOTE: fileConsolidation prompts have been moved to config/defaults/prompts/file-consolidation.md
   // The FileConsolidationService now uses PromptRegistry to load externalized prompts.
   // See: server/stream/services/file-consolidation-service.ts
@@ -5,11 +5,13 @@
 
  * Date: 2025-10-31
  * Updated: 2025-11-14 - Multi-instance support
+ * Updated: 2026-10-19 - Hybrid documentation search
+ * Updated: 2026-10-19 - Instance embedding provider
  * Reference: /docs/specs/multi-stream-scanner-phase-1.md
  */
 
 import { PrismaClient } from '@prisma/client';
-import { geminiEmbedder } from '../embeddings/gemini-embedder.js';
+import { getInstanceEmbeddingProvider } from '../embeddings/instance-embeddings.js';
 import { PgVectorStore } from '../vector-store.js';
 
 export interface SimilarMessage {
@@ -36,7 +38,7 @@ export class MessageVectorSearch {
    */
   async generateEmbedding(content: string): Promise<number[]> {
     try {
-      const embedding = await geminiEmbedder.embedText(content);
+      const embedding = await getInstanceEmbeddingProvider(this.instanceId).embedText(content);
       return embedding;
     } catch (error) {
       console.error('Error generating message embedding:', error);
@@ -206,14 +208,17 @@ export class MessageVectorSearch {
   }
 
   /**
-   * Search for similar documentation pages using RAG
-   * This searches the document_pages table, not unified_messages
+   * Search for relevant documentation sections using RAG
+   * Hybrid retrieval: vector similarity plus full-text matches of the query words and keywords,
+   * merged with reciprocal-rank fusion (see PgVectorStore.searchHybrid)
    * @param queryText - The text to search for (will be embedded)
    * @param limit - Maximum number of documentation results to return
+   * @param keywords - Exact terms to match (error strings, CLI flags, config keys)
    */
   async searchSimilarDocs(
     queryText: string,
-    limit: number = 5
+    limit: number = 5,
+    keywords: string[] = []
   ): Promise<
     Array<{
       id: number;
@@ -221,16 +226,23 @@ export class MessageVectorSearch {
       file_path: string;
       content: string;
       distance: number;
+      heading_path?: string;
+      start_line?: number;
+      end_line?: number;
+      lexical_rank?: number;
     }>
   > {
     try {
-      console.log(`Searching for top ${limit} similar documentation pages...`);
+      console.log(`Searching for top ${limit} relevant documentation sections...`);
 
       // Generate embedding for the query text
       const queryEmbedding = await this.generateEmbedding(queryText);
 
       // Search documentation using vector store
-      const results = await this.vectorStore.searchSimilar(queryEmbedding, limit);
+      const results = await this.vectorStore.searchHybrid(queryEmbedding, queryText, {
+        topK: limit,
+        keywords,
+      });
 
       // Transform results to expected format
       return results.map((doc) => ({
@@ -239,6 +251,12 @@ export class MessageVectorSearch {
         file_path: doc.filePath,
         content: doc.content,
         distance: doc.similarity, // vectorStore returns similarity (0-1), higher is better
+        ...(doc.chunkId !== undefined && {
+          heading_path: doc.headingPath,
+          start_line: doc.startLine,
+          end_line: doc.endLine,
+        }),
+        ...(doc.lexicalRank !== undefined && { lexical_rank: doc.lexicalRank }),
       }));
     } catch (error) {
       console.error('Error searching similar documentation:', error);
@@ -0,0 +1,89 @@
+/**
+ * PR Status Poller
+ * Periodically refreshes submitted changeset PRs of every instance (merged/closed state and reviews).
+ * Webhooks give faster updates; polling catches hosts without webhooks and missed deliveries.
+
+ * Date: 2026-10-19
+ */
+
+import cron, { ScheduledTask } from 'node-cron';
+import { InstanceConfigLoader } from '../config/instance-loader.js';
+import { getInstanceDb } from '../db/instance-db.js';
+import { PRStatusService, type PRStatusUpdate } from './services/pr-status-service.js';
+import { createLogger, getErrorMessage } from '../utils/logger.js';
+
+const logger = createLogger('PRStatusPoller');
+
+export interface PRStatusPollerConfig {
+  enabled: boolean;
+  cronSchedule: string; // Default: every 15 minutes
+}
+
+const defaultConfig: PRStatusPollerConfig = {
+  enabled: process.env.PR_STATUS_POLL_ENABLED === 'true',
+  cronSchedule: process.env.PR_STATUS_POLL_SCHEDULE || '*/15 * * * *',
+};
+
+let scheduledTask: ScheduledTask | null = null;
+let pollRunning = false; // Mutex to prevent overlapping runs
+
+/**
+ * Refresh submitted PRs of all instances
+ */
+export async function pollPRStatuses(): Promise<PRStatusUpdate[]> {
+  if (pollRunning) {
+    logger.warn('PR status poll already running, skipping');
+    return [];
+  }
+
+  pollRunning = true;
+  const updates: PRStatusUpdate[] = [];
+  try {
+    const instances = await InstanceConfigLoader.getAvailableInstancesAsync();
+    for (const instanceId of instances) {
+      try {
+        if (!InstanceConfigLoader.has(instanceId)) {
+          await InstanceConfigLoader.loadAsync(instanceId);
+        }
+        const service = new PRStatusService(getInstanceDb(instanceId), instanceId);
+        updates.push(...(await service.pollSubmittedBatches()));
+      } catch (error) {
+        logger.error(`[${instanceId}] PR status poll failed: ${getErrorMessage(error)}`);
+      }
+    }
+
+    const changed = updates.filter((update) => update.status !== update.previousStatus);
+    logger.info(`PR status poll: ${updates.length} checked, ${changed.length} changed`);
+    return updates;
+  } finally {
+    pollRunning = false;
+  }
+}
+
+export function startPRStatusPoller(config: PRStatusPollerConfig = defaultConfig) {
+  if (!config.enabled) {
+    logger.info('PR status poller is disabled. Set PR_STATUS_POLL_ENABLED=true to enable.');
+    return;
+  }
+
+  if (!cron.validate(config.cronSchedule)) {
+    logger.error(`Invalid PR status poll schedule: ${config.cronSchedule}`);
+    return;
+  }
+
+  scheduledTask = cron.schedule(config.cronSchedule, () => {
+    pollPRStatuses().catch((error) => {
+      logger.error('Unhandled error in PR status poll:', error);
+    });
+  });
+
+  logger.info(`PR status poller started: ${config.cronSchedule}`);
+}
+
+export function stopPRStatusPoller() {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+    logger.info('PR status poller stopped');
+  }
+}
@@ -11,12 +11,17 @@
 
  * Date: 2025-10-31
  * Updated: 2025-11-14 - Multi-instance support
+ * Updated: 2026-10-19 - LLM handler follows LLM_PROVIDER instead of always Gemini
+ * Updated: 2026-10-19 - Store the model that actually generated each proposal (fallbacks)
+ * Updated: 2026-10-19 - Per-instance LLM budget (pause or cheaper fallback model when exceeded)
+ * Updated: 2026-10-19 - Resume failed pipeline runs from their checkpoint; re-run single threads
  */
 
 import { PrismaClient, Prisma } from '@prisma/client';
 import { MessageVectorSearch } from '../message-vector-search.js';
 import { InstanceConfigLoader } from '../../config/instance-loader.js';
-import { createLogger } from '../../utils/logger.js';
+import { getDocSources, resolveDocSource } from '../../config/doc-sources.js';
+import { createLogger, getErrorMessage } from '../../utils/logger.js';
 import { postProcessProposal } from '../../pipeline/utils/ProposalPostProcessor.js';
 
 // Pipeline integration imports
@@ -25,15 +30,23 @@ import {
   clearPipelineConfigCache,
 } from '../../pipeline/config/PipelineConfigLoader.js';
 import { loadDomainConfig } from '../../pipeline/config/DomainConfigLoader.js';
-import { PipelineOrchestrator } from '../../pipeline/core/PipelineOrchestrator.js';
-import { createPipelineContext } from '../../pipeline/core/PipelineContext.js';
+import {
+  PipelineOrchestrator,
+  PipelineResumeError,
+} from '../../pipeline/core/PipelineOrchestrator.js';
+import { createPipelineContext, checkpointMatches } from '../../pipeline/core/PipelineContext.js';
 import { createPromptRegistry, PromptRegistry } from '../../pipeline/prompts/PromptRegistry.js';
-import { createGeminiHandler, GeminiHandler } from '../../pipeline/handlers/GeminiHandler.js';
+import { createLLMHandler } from '../../pipeline/handlers/LLMHandlerFactory.js';
+import { LLMUsageService } from '../../llm/llm-usage.js';
 import type {
+  ILLMHandler,
+  LLMFallbackTarget,
   PipelineConfig,
   Proposal as PipelineProposal,
   IDomainConfig,
   ConversationThread,
+  PipelineCheckpoint,
+  PipelineContext,
   UnifiedMessage as PipelineUnifiedMessage,
 } from '../../pipeline/core/interfaces.js';
 import { parseRuleset, hasRules, type ParsedRuleset } from '../../pipeline/types/ruleset.js';
@@ -62,6 +75,7 @@ interface ProposalGeneration {
   reasoning: string;
   sourceMessages?: number[];
   warnings?: string[];
+  modelUsed?: string;
 }
 
 /**
@@ -110,9 +124,6 @@ interface BatchProcessorConfig {
   classificationModel: string;
   proposalModel: string;
   ragTopK: number; // Number of docs to retrieve for RAG
-  conversationTimeWindowMinutes: number; // Time window for grouping messages into conversations
-  maxConversationSize: number; // Maximum messages per conversation
-  minConversationGapMinutes: number; // Minimum gap to start new conversation
 }
 
 const DEFAULT_CONFIG: BatchProcessorConfig = {
@@ -122,9 +133,6 @@ const DEFAULT_CONFIG: BatchProcessorConfig = {
   classificationModel: process.env.LLM_CLASSIFICATION_MODEL || 'gemini-2.0-flash-exp',
   proposalModel: process.env.LLM_PROPOSAL_MODEL || 'gemini-1.5-pro',
   ragTopK: 5,
-  conversationTimeWindowMinutes: 15,
-  maxConversationSize: 20,
-  minConversationGapMinutes: 5,
 };
 
 // ========== Batch Message Processor ==========
@@ -139,7 +147,7 @@ export class BatchMessageProcessor {
   // Pipeline integration
   private pipelineConfig: PipelineConfig | null = null;
   private promptRegistry: PromptRegistry | null = null;
-  private llmHandler: GeminiHandler | null = null;
+  private llmHandler: ILLMHandler | null = null;
   private pipelineInitialized: boolean = false;
 
   // Quality system integration
@@ -178,7 +186,7 @@ export class BatchMessageProcessor {
       logger.debug(`Loaded ${this.promptRegistry.list().length} prompt templates`);
 
       // Initialize LLM handler
-      this.llmHandler = createGeminiHandler();
+      this.llmHandler = createLLMHandler();
 
       this.pipelineInitialized = true;
     } catch (error) {
@@ -246,6 +254,30 @@ export class BatchMessageProcessor {
     }
   }
 
+  /**
+   * Get the docs commits the vector store was last synced to (the RAG snapshot), as a lookup
+   * of the commit of the repository a page belongs to.
+   * Recorded on proposals so PR generation can rebase them onto the current docs.
+   */
+  private async getDocsCommitHashes(): Promise<(page: string) => string | null> {
+    try {
+      const sources = getDocSources(InstanceConfigLoader.get(this.instanceId).documentation);
+      const syncStates = await this.db.gitSyncState.findMany({
+        where: { OR: sources.map((source) => ({ sourceId: source.id, gitUrl: source.gitUrl })) },
+      });
+      return (page) => {
+        const { source } = resolveDocSource(sources, page);
+        const syncState = syncStates.find(
+          (state) => state.sourceId === source.id && state.gitUrl === source.gitUrl
+        );
+        return syncState?.lastCommitHash || null;
+      };
+    } catch (error) {
+      logger.warn(`[${this.instanceId}] Failed to get docs commit hash:`, error);
+      return () => null;
+    }
+  }
+
   /**
    * Run enrichment and ruleset review on proposals
    * Returns enriched proposals with review results
@@ -659,14 +691,15 @@ export class BatchMessageProcessor {
   }
 
   /**
-   * Run the FULL pipeline (FILTER, CLASSIFY, ENRICH, GENERATE, VALIDATE, CONDENSE)
+   * Run the FULL pipeline (FILTER, THREAD, CLASSIFY, ENRICH, GENERATE, VALIDATE, CONDENSE)
    * Returns threads, proposals, and RAG results extracted from pipeline context
    */
   private async runFullPipeline(
     messages: any[],
     contextMessages: any[],
     batchId: string,
-    streamId: string
+    streamId: string,
+    llmOverride?: LLMFallbackTarget
   ): Promise<{
     threads: ConversationThread[];
     proposals: Map<string, PipelineProposal[]>;
@@ -692,6 +725,75 @@ export class BatchMessageProcessor {
       enabledSteps: this.pipelineConfig.steps.filter((s) => s.enabled).map((s) => s.stepId),
     });
 
+    const context = await this.createContext(messages, contextMessages, batchId, streamId);
+
+    // A failed run of the same messages continues from its last completed step
+    const resumeRunId = await this.findResumableRun(batchId, context.messages);
+    if (resumeRunId !== undefined) {
+      logger.info(`Resuming failed pipeline run ${resumeRunId} for batch ${batchId}`);
+    }
+
+    try {
+      // Create orchestrator with FULL pipeline config (all enabled steps)
+      const orchestrator = new PipelineOrchestrator(
+        this.pipelineConfig,
+        this.llmHandler,
+        undefined,
+        llmOverride && { llmOverride }
+      );
+      const result = await orchestrator.execute(
+        context,
+        resumeRunId !== undefined ? { resumeRunId } : undefined
+      );
+
+      if (!result.success) {
+        logger.warn(`Full pipeline had errors`, {
+          errors: result.errors.map((e) => e.message),
+          messagesProcessed: result.messagesProcessed,
+          threadsCreated: result.threadsCreated,
+          proposalsGenerated: result.proposalsGenerated,
+        });
+      }
+
+      logger.info(`Full pipeline complete`, {
+        success: result.success,
+        messagesProcessed: result.messagesProcessed,
+        threadsCreated: result.threadsCreated,
+        proposalsGenerated: result.proposalsGenerated,
+        llmCalls: result.metrics.llmCalls,
+        llmTokensUsed: result.metrics.llmTokensUsed,
+        totalDurationMs: result.metrics.totalDurationMs,
+      });
+
+      return {
+        threads: context.threads,
+        proposals: context.proposals,
+        ragResults: context.ragResults,
+        messagesProcessed: result.messagesProcessed,
+        success: result.success || result.proposalsGenerated > 0,
+      };
+    } catch (error) {
+      logger.error('Full pipeline failed:', error);
+      return {
+        threads: [],
+        proposals: new Map(),
+        ragResults: new Map(),
+        messagesProcessed: 0,
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Build the pipeline context for a batch: domain config, messages in pipeline format
+   * and the RAG service
+   */
+  private async createContext(
+    messages: any[],
+    contextMessages: any[],
+    batchId: string,
+    streamId: string
+  ): Promise<PipelineContext> {
     // Load domain config for this instance
     let domainConfig: IDomainConfig;
     try {
@@ -718,105 +820,164 @@ export class BatchMessageProcessor {
     }
 
     // Convert DB messages to pipeline UnifiedMessage format
-    const pipelineMessages: PipelineUnifiedMessage[] = messages.map((msg) => ({
-      id: msg.id,
-      messageId: msg.messageId,
-      streamId: msg.streamId,
-      timestamp: msg.timestamp,
-      author: msg.author,
-      authorId: msg.authorId || undefined,
-      content: msg.content,
-      conversationId: msg.metadata?.topic || undefined, // Use Zulip topic as conversationId
-      replyToId: msg.metadata?.replyToMessageId
-        ? `${msg.metadata.chatId}-${msg.metadata.replyToMessageId}`
-        : undefined,
-      processingStatus: msg.processingStatus,
-    }));
-
-    const pipelineContextMessages: PipelineUnifiedMessage[] = contextMessages.map((msg) => ({
-      id: msg.id,
-      messageId: msg.messageId,
-      streamId: msg.streamId,
-      timestamp: msg.timestamp,
-      author: msg.author,
-      authorId: msg.authorId || undefined,
-      content: msg.content,
-      conversationId: msg.metadata?.topic || undefined,
-      replyToId: msg.metadata?.replyToMessageId
-        ? `${msg.metadata.chatId}-${msg.metadata.replyToMessageId}`
-        : undefined,
-      processingStatus: msg.processingStatus,
-    }));
+    const pipelineMessages: PipelineUnifiedMessage[] = messages.map((msg) =>
+      this.toPipelineMessage(msg)
+    );
+    const pipelineContextMessages: PipelineUnifiedMessage[] = contextMessages.map((msg) =>
+      this.toPipelineMessage(msg)
+    );
 
     // Create RAG service adapter
     const ragServiceAdapter = {
-      searchSimilarDocs: async (query: string, topK: number) => {
-        const results = await this.messageVectorSearch.searchSimilarDocs(query, topK);
+      searchSimilarDocs: async (query: string, topK: number, keywords?: string[]) => {
+        const results = await this.messageVectorSearch.searchSimilarDocs(query, topK, keywords);
         return results.map((r) => ({
           id: r.id,
           filePath: r.file_path,
           title: r.title,
           content: r.content,
           similarity: r.distance,
+          headingPath: r.heading_path,
+          startLine: r.start_line,
+          endLine: r.end_line,
+          lexicalRank: r.lexical_rank,
         }));
       },
     };
 
-    // Create full pipeline context
-    const context = createPipelineContext({
+    return createPipelineContext({
       instanceId: this.instanceId,
       batchId,
       streamId,
       messages: pipelineMessages,
       contextMessages: pipelineContextMessages,
       domainConfig,
-      prompts: this.promptRegistry,
-      llmHandler: this.llmHandler,
+      prompts: this.promptRegistry!,
+      llmHandler: this.llmHandler!,
       ragService: ragServiceAdapter,
       db: this.db,
     });
+  }
 
+  /**
+   * Latest failed run of this batch whose checkpoint covers the same messages
+   */
+  private async findResumableRun(
+    batchId: string,
+    messages: PipelineUnifiedMessage[]
+  ): Promise<number | undefined> {
     try {
-      // Create orchestrator with FULL pipeline config (all enabled steps)
-      const orchestrator = new PipelineOrchestrator(this.pipelineConfig, this.llmHandler);
-      const result = await orchestrator.execute(context);
-
-      if (!result.success) {
-        logger.warn(`Full pipeline had errors`, {
-          errors: result.errors.map((e) => e.message),
-          messagesProcessed: result.messagesProcessed,
-          threadsCreated: result.threadsCreated,
-          proposalsGenerated: result.proposalsGenerated,
-        });
+      const run = await this.db.pipelineRunLog.findFirst({
+        where: {
+          instanceId: this.instanceId,
+          batchId,
+          pipelineId: this.pipelineConfig!.pipelineId,
+          status: 'failed',
+          checkpoint: { not: Prisma.DbNull },
+        },
+        orderBy: { id: 'desc' },
+        select: { id: true, checkpoint: true },
+      });
+      if (run && checkpointMatches(run.checkpoint as unknown as PipelineCheckpoint, messages)) {
+        return run.id;
       }
+    } catch (error) {
+      logger.warn('Failed to look up a resumable pipeline run:', error);
+    }
+    return undefined;
+  }
 
-      logger.info(`Full pipeline complete`, {
-        success: result.success,
-        messagesProcessed: result.messagesProcessed,
-        threadsCreated: result.threadsCreated,
-        proposalsGenerated: result.proposalsGenerated,
-        llmCalls: result.metrics.llmCalls,
-        llmTokensUsed: result.metrics.llmTokensUsed,
-        totalDurationMs: result.metrics.totalDurationMs,
-      });
+  /**
+   * Re-run one thread of an earlier pipeline run, reusing the run's classification and
+   * RAG results for the rest of the batch, and replace the thread's pending proposals.
+   * A failed re-run keeps the existing proposals.
+   */
+  async rerunThread(
+    runLogId: number,
+    threadId: string
+  ): Promise<{ success: boolean; proposalCount: number }> {
+    await this.initializePipeline();
+    if (!this.pipelineConfig || !this.promptRegistry || !this.llmHandler) {
+      throw new Error('Pipeline not initialized, cannot re-run thread');
+    }
 
-      return {
-        threads: context.threads,
-        proposals: context.proposals,
-        ragResults: context.ragResults,
-        messagesProcessed: result.messagesProcessed,
-        success: result.success || result.proposalsGenerated > 0,
-      };
-    } catch (error) {
-      logger.error('Full pipeline failed:', error);
-      return {
-        threads: [],
-        proposals: new Map(),
-        ragResults: new Map(),
-        messagesProcessed: 0,
-        success: false,
-      };
+    const run = await this.db.pipelineRunLog.findUnique({
+      where: { id: runLogId },
+      select: { batchId: true, checkpoint: true },
+    });
+    const checkpoint = run?.checkpoint as unknown as PipelineCheckpoint | null | undefined;
+    if (!run || !checkpoint) {
+      throw new PipelineResumeError(`Pipeline run ${runLogId} has no checkpoint`);
+    }
+
+    // Thread messageIds index into the run's messages, so keep the checkpoint's order
+    const found = await this.db.unifiedMessage.findMany({
+      where: { id: { in: checkpoint.messageIds } },
+    });
+    const messagesById = new Map(found.map((msg) => [msg.id, msg]));
+    const messages = checkpoint.messageIds.map((id) => messagesById.get(id));
+    if (messages.some((msg) => !msg)) {
+      throw new PipelineResumeError(`Messages of pipeline run ${runLogId} no longer exist`);
+    }
+
+    const first = messages[0]!;
+    const contextStart = new Date(
+      first.timestamp.getTime() - this.config.contextWindowHours * 60 * 60 * 1000
+    );
+    const contextMessages = await this.fetchContextMessages(
+      contextStart,
+      first.timestamp,
+      first.streamId
+    );
+    const context = await this.createContext(
+      messages,
+      contextMessages,
+      run.batchId,
+      first.streamId
+    );
+
+    // An admin re-run is not paused by the budget, but uses its fallback model once exceeded
+    const budget = await this.checkLLMBudget();
+    const orchestrator = new PipelineOrchestrator(
+      this.pipelineConfig,
+      this.llmHandler,
+      undefined,
+      budget.llmOverride && { llmOverride: budget.llmOverride }
+    );
+    const result = await orchestrator.execute(context, { resumeRunId: runLogId, threadId });
+    if (!result.success) {
+      logger.warn(`Re-run of thread ${threadId} failed, keeping its pending proposals`, {
+        errors: result.errors.map((error) => error.message),
+      });
+      return { success: false, proposalCount: 0 };
     }
+
+    // Delete and store together, so a storage failure also keeps the existing proposals
+    const thread = context.threads.find((t) => t.id === threadId)!;
+    const proposalCount = await this.db.$transaction(async (tx) => {
+      await tx.docProposal.deleteMany({
+        where: { conversationId: threadId, status: 'pending' },
+      });
+      const stored = await this.storePipelineResults(
+        [thread],
+        context.proposals,
+        context.ragResults,
+        messages,
+        run.batchId,
+        tx
+      );
+      if (stored.processedMessageIds.size === 0) {
+        throw new Error(`Failed to store the re-run results of thread ${threadId}`);
+      }
+      return stored.proposalCount;
+    });
+
+    logger.info(`Re-ran thread ${threadId} of pipeline run ${runLogId}`, {
+      success: result.success,
+      proposalCount,
+    });
+
+    return { success: result.success, proposalCount };
   }
 
   /**
@@ -828,13 +989,15 @@ export class BatchMessageProcessor {
     proposals: Map<string, PipelineProposal[]>,
     ragResults: Map<string, any[]>,
     messages: any[],
-    batchId: string
+    batchId: string,
+    db: Prisma.TransactionClient = this.db
   ): Promise<{ processedMessageIds: Set<number>; proposalCount: number }> {
     const processedMessageIds = new Set<number>();
     let proposalCount = 0;
 
     // Load tenant ruleset for enrichment and review
     const ruleset = await this.loadTenantRuleset();
+    const docsCommitHash = await this.getDocsCommitHashes();
 
     // Separate threads into valuable and no-value
     const valuableThreads = threads.filter((t) => t.category !== 'no-doc-value');
@@ -856,7 +1019,7 @@ export class BatchMessageProcessor {
           continue;
         }
 
-        await this.db.messageClassification.upsert({
+        await db.messageClassification.upsert({
           where: { messageId: message.id },
           update: {
             batchId,
@@ -900,7 +1063,7 @@ export class BatchMessageProcessor {
           contentPreview: doc.content ? doc.content.substring(0, 1000) + '...' : '',
         }));
 
-        await this.db.conversationRagContext.upsert({
+        await db.conversationRagContext.upsert({
           where: { conversationId: thread.id },
           create: {
             conversationId: thread.id,
@@ -954,6 +1117,7 @@ export class BatchMessageProcessor {
           reasoning: p.reasoning,
           sourceMessages: p.sourceMessages,
           warnings: p.warnings,
+          modelUsed: p.modelUsed,
         }));
 
         // Run enrichment and ruleset review
@@ -985,7 +1149,7 @@ export class BatchMessageProcessor {
             ...(proposal.reviewResult?.qualityFlags || []),
           ];
 
-          const createdProposal = await this.db.docProposal.create({
+          const createdProposal = await db.docProposal.create({
             data: {
               conversationId: thread.id,
               batchId,
@@ -993,11 +1157,12 @@ export class BatchMessageProcessor {
               updateType: proposal.updateType,
               section: proposal.section || null,
               location: proposal.location ?? Prisma.DbNull,
+              baseCommitHash: docsCommitHash(proposal.page),
               suggestedText: postProcessed.text || textToProcess || null,
               rawSuggestedText: proposal.suggestedText || null,
               reasoning: proposal.reasoning || null,
               sourceMessages: proposal.sourceMessages ?? Prisma.DbNull,
-              modelUsed: this.config.proposalModel,
+              modelUsed: proposal.modelUsed || this.config.proposalModel,
               warnings: qualityWarnings.length > 0 ? qualityWarnings : Prisma.DbNull,
               enrichment: proposal.enrichment
                 ? (proposal.enrichment as unknown as Prisma.InputJsonValue)
@@ -1008,7 +1173,7 @@ export class BatchMessageProcessor {
           // Create ProposalReviewLog if ruleset was applied
           if (proposal.reviewResult && this.rulesetUpdatedAt) {
             try {
-              await this.db.proposalReviewLog.create({
+              await db.proposalReviewLog.create({
                 data: {
                   proposalId: createdProposal.id,
                   rulesetVersion: this.rulesetUpdatedAt,
@@ -1056,7 +1221,7 @@ export class BatchMessageProcessor {
         const truncatedSummary =
           thread.summary.length > 200 ? thread.summary.substring(0, 197) + '...' : thread.summary;
 
-        await this.db.conversationRagContext.create({
+        await db.conversationRagContext.create({
           data: {
             conversationId: thread.id,
             batchId,
@@ -1115,6 +1280,7 @@ export class BatchMessageProcessor {
     try {
       let totalMessagesProcessedAcrossAllBatches = 0;
       let batchNumber = 0;
+      let budgetPaused = false;
 
       // Build where clause with optional stream filter
       // By default, exclude test stream ('pipeline-test') from production runs
@@ -1243,13 +1409,21 @@ export class BatchMessageProcessor {
               break;
             }
 
+            // 4. Check the LLM budget before spending more on this instance
+            const budget = await this.checkLLMBudget();
+            if (budget.paused) {
+              budgetPaused = true;
+              break;
+            }
+
             // 5. Run the FULL pipeline (FILTER → CLASSIFY → ENRICH → GENERATE → VALIDATE → CONDENSE)
             // This replaces the old classifyBatch + processConversation flow
             const pipelineResult = await this.runFullPipeline(
               messages,
               contextMessages,
               batchId,
-              streamId
+              streamId,
+              budget.llmOverride
             );
 
             if (!pipelineResult.success && pipelineResult.threads.length === 0) {
@@ -1316,7 +1490,11 @@ export class BatchMessageProcessor {
           }
 
           // Update stream watermark only if ALL messages in this batch succeeded
-          if (!anyMessagesFailed) {
+          if (budgetPaused) {
+            logger.warn(
+              `Stream ${streamId}: LLM budget exceeded, pausing batch processing after ${totalMessagesProcessed} messages. Watermark NOT updated - remaining messages will be processed once the budget allows.`
+            );
+          } else if (!anyMessagesFailed) {
             await this.updateProcessingWatermark(streamId, batchEnd);
             logger.info(
               `Stream ${streamId} batch complete: ${totalMessagesProcessed} messages, ${totalConversationsProcessed} conversations, ${totalProposalsGenerated} proposals. Watermark updated to ${batchEnd.toISOString()}`
@@ -1329,8 +1507,15 @@ export class BatchMessageProcessor {
 
           // Accumulate totals across all batches
           totalMessagesProcessedAcrossAllBatches += totalMessagesProcessed;
+
+          if (budgetPaused) {
+            break;
+          }
         }
 
+        if (budgetPaused) {
+          break;
+        }
         logger.info(`Stream ${streamId} processing complete`);
       }
 
@@ -1345,6 +1530,40 @@ export class BatchMessageProcessor {
     }
   }
 
+  /**
+   * Check the instance's LLM budget (llm.budget) before a pipeline run
+   * When a daily or monthly budget is used up, processing pauses, or with
+   * onExceeded 'fallback' continues with the configured cheaper model.
+   */
+  private async checkLLMBudget(): Promise<{ paused: boolean; llmOverride?: LLMFallbackTarget }> {
+    try {
+      const budget = InstanceConfigLoader.get(this.instanceId).llm?.budget;
+      if (!budget || (budget.dailyUSD === undefined && budget.monthlyUSD === undefined)) {
+        return { paused: false };
+      }
+
+      const status = await new LLMUsageService(this.db, this.instanceId).getBudgetStatus(budget);
+      if (!status.exceeded) {
+        return { paused: false };
+      }
+
+      if (budget.onExceeded === 'fallback' && budget.fallback) {
+        logger.warn(
+          `[${this.instanceId}] ${status.exceeded} LLM budget exceeded, using fallback model ${budget.fallback.model}`,
+          status
+        );
+        return { paused: false, llmOverride: budget.fallback };
+      }
+
+      logger.warn(`[${this.instanceId}] ${status.exceeded} LLM budget exceeded`, status);
+      return { paused: true };
+    } catch (error) {
+      // Spend could not be checked; don't hold up processing
+      logger.warn(`[${this.instanceId}] Failed to check LLM budget:`, getErrorMessage(error));
+      return { paused: false };
+    }
+  }
+
   /**
    * Get current processing watermark for a specific stream
    */
@@ -1434,6 +1653,41 @@ export class BatchMessageProcessor {
     });
   }
 
+  /**
+   * Convert a DB message to the pipeline format, resolving reply links and the
+   * adapter's conversation key from metadata
+   */
+  private toPipelineMessage(msg: any): PipelineUnifiedMessage {
+    const metadata = msg.metadata || {};
+
+    // Telegram messages imported before full IDs were stored carry the bare message_id
+    let replyToId: string | undefined;
+    if (typeof metadata.replyToMessageId === 'number' && metadata.chatId) {
+      replyToId = `${metadata.chatId}-${metadata.replyToMessageId}`;
+    } else if (metadata.replyToMessageId) {
+      replyToId = String(metadata.replyToMessageId);
+    }
+
+    // Zulip messages imported before threadId was stored only carry the topic
+    const conversationId =
+      metadata.threadId || (metadata.topic ? `${msg.channel}/${metadata.topic}` : undefined);
+
+    return {
+      id: msg.id,
+      messageId: msg.messageId,
+      streamId: msg.streamId,
+      timestamp: msg.timestamp,
+      author: msg.author,
+      authorId: msg.authorId || undefined,
+      content: msg.content,
+      channel: msg.channel || undefined,
+      conversationId,
+      replyToId,
+      processingStatus: msg.processingStatus,
+      metadata: msg.metadata || undefined,
+    };
+  }
+
   /**
    * Estimate token count for RAG docs
    */
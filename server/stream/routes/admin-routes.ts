@@ -13,7 +13,8 @@ import { z } from 'zod';
 import { BatchMessageProcessor } from '../processors/batch-message-processor.js';
 import { instanceMiddleware } from '../../middleware/instance.js';
 import { getInstanceDb } from '../../db/instance-db.js';
-import { createLogger } from '../../utils/logger.js';
+import { createLogger, getErrorMessage } from '../../utils/logger.js';
+import { getDocSources } from '../../config/doc-sources.js';
 import multer from 'multer';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -675,6 +676,12 @@ export function registerAdminStreamRoutes(app: Express, adminAuth: any) {
           targetRepo: batch.targetRepo,
           sourceRepo: batch.sourceRepo,
           baseBranch: batch.baseBranch,
+          gitHost: batch.gitHost,
+          gitHostUrl: batch.gitHostUrl,
+          reviewState: batch.reviewState,
+          mergedAt: batch.mergedAt,
+          closedAt: batch.closedAt,
+          statusCheckedAt: batch.statusCheckedAt,
           submittedAt: batch.submittedAt,
           submittedBy: batch.submittedBy,
           createdAt: batch.createdAt,
@@ -741,7 +748,17 @@ export function registerAdminStreamRoutes(app: Express, adminAuth: any) {
 
       const schema = z.object({
         streamId: z.string().min(1),
-        adapterType: z.enum(['telegram-bot', 'csv', 'zulipchat']),
+        adapterType: z.enum([
+          'telegram-bot',
+          'csv',
+          'zulipchat',
+          'discord',
+          'slack',
+          'github-discussions',
+          'mbox',
+          'discourse',
+          'json-file',
+        ]),
         config: z.record(z.any()),
         enabled: z.boolean().optional().default(true),
       });
@@ -1616,11 +1633,18 @@ export function registerAdminStreamRoutes(app: Express, adminAuth: any) {
       const { ChangesetBatchService } = await import('../services/changeset-batch-service.js');
       const batchService = new ChangesetBatchService(db);
 
-      const batch = await batchService.createDraftBatch(proposalIds);
+      // With several documentation repositories, one batch per repository
+      const documentation = req.instance?.config?.documentation;
+      const docSources = documentation ? getDocSources(documentation) : [];
+      const batches =
+        docSources.length > 1
+          ? await batchService.createDraftBatches(proposalIds, docSources)
+          : [await batchService.createDraftBatch(proposalIds)];
 
       res.status(201).json({
         message: 'Draft batch created successfully',
-        batch,
+        batch: batches[0],
+        batches,
       });
     } catch (error: any) {
       logger.error('Error creating draft batch:', error);
@@ -1662,13 +1686,28 @@ export function registerAdminStreamRoutes(app: Express, adminAuth: any) {
         })
         .parse(req.body);
 
-      // Get gitToken from instance config if available
-      const gitToken = req.instance?.config?.documentation?.gitToken;
+      // Get gitToken and repository host from instance config if available
+      const documentation = req.instance?.config?.documentation;
+      const gitToken = documentation?.gitToken;
+
+      const { parseRepositoryUrl } = await import('../services/repository-host-factory.js');
+      const location = documentation?.gitUrl
+        ? parseRepositoryUrl(documentation.gitUrl, documentation.gitHost)
+        : null;
 
       const { ChangesetBatchService } = await import('../services/changeset-batch-service.js');
-      const batchService = new ChangesetBatchService(db);
+      const batchService = new ChangesetBatchService(
+        db,
+        req.instance?.id || (req as any).adminInstance
+      );
 
-      const result = await batchService.generatePR(batchId, { ...options, gitToken });
+      const result = await batchService.generatePR(batchId, {
+        ...options,
+        gitToken,
+        gitHost: location?.host ?? documentation?.gitHost,
+        gitHostUrl: location?.baseUrl,
+        ...(documentation && { docSources: getDocSources(documentation) }),
+      });
 
       res.status(200).json({
         message: 'Pull request created successfully',
@@ -1679,7 +1718,11 @@ export function registerAdminStreamRoutes(app: Express, adminAuth: any) {
       });
     } catch (error: any) {
       logger.error('Error generating PR:', error);
-      res.status(500).json({ error: error.message || 'Failed to generate pull request' });
+      res.status(500).json({
+        error: error.message || 'Failed to generate pull request',
+        // Per-proposal failures (including conflict diffs) when nothing could be applied
+        ...(Array.isArray(error.failedProposals) && { failedProposals: error.failedProposals }),
+      });
     }
   };
 
@@ -1692,6 +1735,114 @@ export function registerAdminStreamRoutes(app: Express, adminAuth: any) {
     generatePRHandler
   );
 
+  /**
+   * POST /api/admin/stream/batches/:id/refresh-status
+   * Fetch PR state and reviews from the repository host now
+   *
+   * Registered twice:
+   * 1. /api/admin/stream/batches/:id/refresh-status (non-instance)
+   * 2. /:instance/api/admin/stream/batches/:id/refresh-status (instance-specific)
+   */
+  const refreshBatchStatusHandler = async (req: Request, res: Response) => {
+    try {
+      const db = getDb(req);
+      const instanceId = req.instance?.id || (req as any).adminInstance;
+      if (!instanceId) {
+        return res.status(400).json({ error: 'No instance associated with request' });
+      }
+
+      const batch = await db.changesetBatch.findUnique({ where: { id: parseInt(req.params.id) } });
+      if (!batch) {
+        return res.status(404).json({ error: 'Batch not found' });
+      }
+      if (!batch.prNumber) {
+        return res.status(400).json({ error: 'Batch has no pull request' });
+      }
+
+      const { PRStatusService } = await import('../services/pr-status-service.js');
+      const update = await new PRStatusService(db, instanceId).refreshBatch(batch);
+
+      res.json({ update });
+    } catch (error: any) {
+      logger.error('Error refreshing PR status:', error);
+      res.status(500).json({ error: error.message || 'Failed to refresh PR status' });
+    }
+  };
+
+  app.post('/api/admin/stream/batches/:id/refresh-status', adminAuth, refreshBatchStatusHandler);
+  app.post(
+    '/:instance/api/admin/stream/batches/:id/refresh-status',
+    instanceMiddleware,
+    adminAuth,
+    refreshBatchStatusHandler
+  );
+
+  /**
+   * POST /:instance/api/admin/stream/pr-webhook
+   * Pull request webhook for GitHub, GitLab, Gitea and Bitbucket
+   * Authenticated by the webhook secret (documentation.webhookSecret, or that of an additional
+   * documentation source), not admin auth. Responds once the batch is found; the PR status
+   * refresh (and the re-sync after a merge) runs in the background, well past webhook timeouts.
+   */
+  app.post(
+    '/:instance/api/admin/stream/pr-webhook',
+    instanceMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const instance = req.instance!;
+        const secrets = [
+          ...new Set(
+            getDocSources(instance.config.documentation)
+              .map((source) => source.webhookSecret)
+              .filter((secret): secret is string => !!secret)
+          ),
+        ];
+        if (secrets.length === 0) {
+          return res.status(404).json({ error: 'PR webhook not configured' });
+        }
+
+        const { detectWebhookHost, verifyWebhookSignature, parsePullRequestWebhook } =
+          await import('../services/pr-webhook.js');
+
+        const host = detectWebhookHost(req.headers);
+        const rawBody = (req as any).rawBody ?? JSON.stringify(req.body);
+        if (
+          !host ||
+          !secrets.some((secret) => verifyWebhookSignature(host, req.headers, rawBody, secret))
+        ) {
+          return res.status(401).json({ error: 'Invalid webhook signature' });
+        }
+
+        const event = parsePullRequestWebhook(host, req.headers, req.body);
+        if (!event) {
+          return res.status(202).json({ ignored: true });
+        }
+
+        const { PRStatusService } = await import('../services/pr-status-service.js');
+        const statusService = new PRStatusService(instance.db, instance.id);
+        const batch = await statusService.findBatchByPullRequest(
+          event.host,
+          event.repo,
+          event.prNumber
+        );
+        if (!batch) {
+          return res.status(202).json({ ignored: true });
+        }
+
+        res.status(202).json({ batchId: batch.id, queued: true });
+
+        statusService.refreshBatch(batch).catch((error) => {
+          logger.error(
+            `PR webhook: failed to refresh batch ${batch.batchId}: ${getErrorMessage(error)}`
+          );
+        });
+      } catch (error) {
+        logger.error('PR webhook error:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
   // Note: GET /api/admin/stream/batches is handled by batchesHandler at line 613
 
   /**
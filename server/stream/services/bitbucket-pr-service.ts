@@ -0,0 +1,151 @@
+/**
+ * BitbucketPRService
+ *
+ * Bitbucket Cloud backend for changesets: pushes with a repository or workspace access
+ * token and opens draft pull requests through the REST API (2.0).
+ *
+
+ * @created 2026-10-19
+ */
+
+import { getErrorMessage } from '../../utils/logger.js';
+import {
+  GitRepositoryHost,
+  type PRCreateOptions,
+  type PRResponse,
+  type PRReview,
+  type PRStatus,
+} from './repository-host.js';
+
+const BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0';
+
+interface BitbucketPullRequest {
+  id: number;
+  state: 'OPEN' | 'MERGED' | 'DECLINED' | 'SUPERSEDED';
+  draft?: boolean;
+  updated_on: string;
+  links: { html: { href: string } };
+  participants?: Array<{
+    user: { display_name: string };
+    state: 'approved' | 'changes_requested' | null;
+    participated_on: string | null;
+  }>;
+}
+
+interface BitbucketComment {
+  id: number;
+  content: { raw: string };
+  user: { display_name: string };
+  created_on: string;
+  deleted: boolean;
+  inline?: { path: string };
+  links: { html?: { href: string } };
+}
+
+export class BitbucketPRService extends GitRepositoryHost {
+  readonly hostType = 'bitbucket' as const;
+
+  protected remoteUrl(repo: string, authenticated: boolean): string {
+    // Access tokens authenticate git over HTTPS with the fixed "x-token-auth" user
+    const credentials = authenticated ? `x-token-auth:${this.config.token}@` : '';
+    return `https://${credentials}bitbucket.org/${repo}.git`;
+  }
+
+  /**
+   * Create a pull request from the pushed branch into the base branch
+   */
+  async createPullRequest(options: PRCreateOptions): Promise<PRResponse> {
+    try {
+      const pr = await this.api<BitbucketPullRequest>('pullrequests', {
+        method: 'POST',
+        body: JSON.stringify({
+          title: options.title,
+          description: options.body,
+          source: { branch: { name: options.branchName } },
+          destination: { branch: { name: this.config.baseBranch } },
+          draft: options.draft ?? true,
+          close_source_branch: true,
+        }),
+      });
+
+      return {
+        url: pr.links.html.href,
+        number: pr.id,
+        branchName: options.branchName,
+      };
+    } catch (error) {
+      throw new Error(`Failed to create pull request: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Fetch the current state of a pull request
+   */
+  async getPullRequestStatus(number: number): Promise<PRStatus> {
+    try {
+      const pr = await this.api<BitbucketPullRequest>(`pullrequests/${number}`, {
+        method: 'GET',
+      });
+      // Bitbucket has no merged/closed timestamps; updated_on is when the state last changed
+      const finishedAt = pr.state === 'OPEN' ? undefined : new Date(pr.updated_on);
+
+      return {
+        state: pr.state === 'MERGED' ? 'merged' : pr.state === 'OPEN' ? 'open' : 'closed',
+        draft: pr.draft ?? false,
+        url: pr.links.html.href,
+        mergedAt: pr.state === 'MERGED' ? finishedAt : undefined,
+        closedAt: finishedAt,
+      };
+    } catch (error) {
+      throw new Error(`Failed to fetch pull request status: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Fetch comments and participant decisions (approve / request changes) of a pull request
+   */
+  async getPullRequestReviews(number: number): Promise<PRReview[]> {
+    try {
+      const [pr, comments] = await Promise.all([
+        this.api<BitbucketPullRequest>(`pullrequests/${number}`, { method: 'GET' }),
+        this.api<{ values: BitbucketComment[] }>(`pullrequests/${number}/comments?pagelen=100`, {
+          method: 'GET',
+        }),
+      ]);
+
+      const reviews: PRReview[] = [];
+      for (const participant of pr.participants || []) {
+        if (!participant.state) continue;
+        reviews.push({
+          externalId: `${participant.state}-${participant.user.display_name}`,
+          author: participant.user.display_name,
+          state: participant.state,
+          body: '',
+          submittedAt: new Date(participant.participated_on || pr.updated_on),
+        });
+      }
+      for (const comment of comments.values) {
+        if (comment.deleted) continue;
+        reviews.push({
+          externalId: `comment-${comment.id}`,
+          author: comment.user.display_name,
+          state: 'commented',
+          body: comment.content.raw,
+          path: comment.inline?.path,
+          url: comment.links.html?.href,
+          submittedAt: new Date(comment.created_on),
+        });
+      }
+      return reviews;
+    } catch (error) {
+      throw new Error(`Failed to fetch pull request reviews: ${getErrorMessage(error)}`);
+    }
+  }
+
+  private api<T>(endpoint: string, init: RequestInit): Promise<T> {
+    return this.requestJson<T>(
+      `${BITBUCKET_API_URL}/repositories/${this.config.targetRepo}/${endpoint}`,
+      { ...init, headers: { Authorization: `Bearer ${this.config.token}` } }
+    );
+  }
+}
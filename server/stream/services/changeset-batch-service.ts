@@ -6,17 +6,32 @@
  * 2. Clone target repository
  * 3. Apply file modifications
  * 4. Track failures
- * 5. Create PR on GitHub
+ * 5. Create PR (or merge request) on the repository host
  * 6. Update batch status and proposal records
  *
+ * Pages of additional documentation sources (documentation.sources) are routed to their
+ * source's repository, one batch per repository.
+ *
 
  * @created 2025-11-06
+ * @updated 2026-10-19 - LLM consolidation usage recorded for the batch's instance
  */
 
 import { PrismaClient, DocProposal, ChangesetBatch } from '@prisma/client';
-import { FileModificationService } from './file-modification-service';
-import { GitHubPRService } from './github-pr-service';
+import {
+  FileModificationService,
+  ProposalApplyError,
+  type ProposalFailureType,
+} from './file-modification-service';
+import type { RepositoryHost, RepositoryHostType } from './repository-host.js';
+import { createRepositoryHost, parseRepositoryUrl } from './repository-host-factory';
+import {
+  resolveDocSource,
+  PRIMARY_DOC_SOURCE_ID,
+  type DocSource,
+} from '../../config/doc-sources.js';
 import { fileConsolidationService } from './file-consolidation-service';
+import { formatConflicts, mergeThreeWay } from './three-way-merge';
 
 interface CreateBatchOptions {
   proposalIds: number[];
@@ -27,6 +42,16 @@ interface CreateBatchOptions {
   prBody: string;
   submittedBy: string;
   gitToken?: string;
+  gitHost?: RepositoryHostType; // Default: github
+  gitHostUrl?: string; // Web URL of self-hosted instances
+  docSources?: DocSource[]; // Instance documentation sources; pages of additional sources go to their repository
+}
+
+interface FailedProposal {
+  proposalId: number;
+  error: string;
+  errorType: string;
+  diff?: string; // Conflicting hunks when errorType is "conflict"
 }
 
 interface BatchResult {
@@ -36,25 +61,70 @@ interface BatchResult {
     number: number;
   };
   appliedProposals: number[];
-  failedProposals: Array<{
-    proposalId: number;
-    error: string;
-    errorType: string;
-  }>;
+  failedProposals: FailedProposal[];
+}
+
+/**
+ * PR generation failed; carries the per-proposal failures recorded so far
+ */
+export class PRGenerationError extends Error {
+  constructor(
+    message: string,
+    readonly failedProposals: FailedProposal[]
+  ) {
+    super(message);
+    this.name = 'PRGenerationError';
+  }
 }
 
 export class ChangesetBatchService {
   private prisma: PrismaClient;
+  private instanceId: string; // LLM consolidation calls are recorded for this instance
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, instanceId: string = 'default') {
     this.prisma = prisma;
+    this.instanceId = instanceId;
   }
 
   /**
    * Create a draft changeset batch from approved proposals
    */
   async createDraftBatch(proposalIds: number[]): Promise<ChangesetBatch> {
-    // Fetch proposals
+    const proposals = await this.findApprovedProposals(proposalIds);
+    return this.createBatch(proposals, null);
+  }
+
+  /**
+   * Create one draft batch per documentation repository the approved proposals' pages belong to
+   */
+  async createDraftBatches(
+    proposalIds: number[],
+    docSources: DocSource[]
+  ): Promise<ChangesetBatch[]> {
+    const proposals = await this.findApprovedProposals(proposalIds);
+
+    const bySource = new Map<string, DocProposal[]>();
+    for (const proposal of proposals) {
+      const { source } = resolveDocSource(docSources, proposal.page);
+      if (!bySource.has(source.id)) {
+        bySource.set(source.id, []);
+      }
+      bySource.get(source.id)!.push(proposal);
+    }
+
+    const batches: ChangesetBatch[] = [];
+    for (const [sourceId, sourceProposals] of bySource) {
+      batches.push(
+        await this.createBatch(
+          sourceProposals,
+          sourceId === PRIMARY_DOC_SOURCE_ID ? null : sourceId
+        )
+      );
+    }
+    return batches;
+  }
+
+  private async findApprovedProposals(proposalIds: number[]): Promise<DocProposal[]> {
     const proposals = await this.prisma.docProposal.findMany({
       where: {
         id: { in: proposalIds },
@@ -65,12 +135,18 @@ export class ChangesetBatchService {
     if (proposals.length === 0) {
       throw new Error('No approved proposals found');
     }
+    return proposals;
+  }
 
+  private async createBatch(
+    proposals: DocProposal[],
+    docSourceId: string | null
+  ): Promise<ChangesetBatch> {
     // Group by file to get affected files list
     const affectedFiles = [...new Set(proposals.map((p) => p.page))];
 
-    // Generate batch ID (timestamp-based)
-    const batchId = `batch-${Date.now()}`;
+    // Generate batch ID (timestamp-based; suffixed per source when created together)
+    const batchId = docSourceId ? `batch-${Date.now()}-${docSourceId}` : `batch-${Date.now()}`;
 
     // Create batch record
     const batch = await this.prisma.changesetBatch.create({
@@ -81,6 +157,7 @@ export class ChangesetBatchService {
         affectedFiles,
         prTitle: null,
         prBody: null,
+        ...(docSourceId && { docSourceId }),
       },
     });
 
@@ -99,7 +176,7 @@ export class ChangesetBatchService {
   /**
    * Generate PR from a draft batch
    */
-  async generatePR(batchId: number, options: CreateBatchOptions): Promise<BatchResult> {
+  async generatePR(batchId: number, requestOptions: CreateBatchOptions): Promise<BatchResult> {
     // Fetch batch with proposals
     const batch = await this.prisma.changesetBatch.findUnique({
       where: { id: batchId },
@@ -120,20 +197,23 @@ export class ChangesetBatchService {
     }
 
     const proposals = batch.batchProposals.map((bp) => bp.proposal);
+    const { options, docSourceId, repoPathOf } = this.resolveTarget(proposals, requestOptions);
 
-    // Initialize GitHub PR service using instance gitToken
+    // Initialize the repository host using instance gitToken
     if (!options.gitToken) {
       throw new Error('No gitToken configured. Set gitToken in the instance configuration.');
     }
 
-    const githubConfig = {
+    const gitHost = options.gitHost || 'github';
+    const hostConfig = {
       token: options.gitToken,
       targetRepo: options.targetRepo,
       sourceRepo: options.sourceRepo,
       baseBranch: options.baseBranch || 'main',
+      ...(options.gitHostUrl && { baseUrl: options.gitHostUrl }),
     };
 
-    const githubService = new GitHubPRService(githubConfig);
+    const repositoryHost = createRepositoryHost(gitHost, hostConfig);
 
     // Generate branch name
     const projectShortName = process.env.PROJECT_SHORT_NAME || 'docpythia';
@@ -141,15 +221,11 @@ export class ChangesetBatchService {
 
     let repoPath: string | null = null;
     const appliedProposals: number[] = [];
-    const failedProposals: Array<{
-      proposalId: number;
-      error: string;
-      errorType: string;
-    }> = [];
+    const failedProposals: FailedProposal[] = [];
 
     try {
       // Clone repository
-      repoPath = await githubService.cloneRepository(batch.batchId);
+      repoPath = await repositoryHost.cloneRepository(batch.batchId);
 
       // Initialize file modification service
       const fileService = new FileModificationService(repoPath);
@@ -163,7 +239,8 @@ export class ChangesetBatchService {
           // Read the original file content
           const fs = await import('fs/promises');
           const path = await import('path');
-          const fullPath = path.join(repoPath, filePath);
+          const repoFilePath = repoPathOf(filePath);
+          const fullPath = path.join(repoPath, repoFilePath);
 
           console.log(`\n📄 Processing file: ${filePath}`);
           console.log(`   Full path: ${fullPath}`);
@@ -180,29 +257,12 @@ export class ChangesetBatchService {
 
           const originalContent = await fs.readFile(fullPath, 'utf-8');
 
-          let modifiedContent: string;
-
-          // Decide whether to use LLM consolidation or mechanical application
-          if (fileConsolidationService.shouldConsolidate(fileProposals, originalContent)) {
-            console.log(
-              `\n🤖 Using LLM consolidation for ${filePath} (${fileProposals.length} proposals)`
-            );
-
-            // Use LLM to consolidate changes
-            const result = await fileConsolidationService.consolidateFile(
-              filePath,
-              originalContent,
-              fileProposals
-            );
-            modifiedContent = result.consolidatedContent;
-          } else {
-            console.log(
-              `\n⚙️  Using mechanical application for ${filePath} (${fileProposals.length} proposals)`
-            );
-
-            // Use traditional mechanical application
-            modifiedContent = await fileService.applyProposalsToFile(filePath, fileProposals);
-          }
+          const modifiedContent = await this.applyFileProposals(
+            repoFilePath,
+            originalContent,
+            fileProposals,
+            { repoPath, repositoryHost, fileService, baseBranch: hostConfig.baseBranch }
+          );
 
           // Write the modified content back to the file
           await fs.writeFile(fullPath, modifiedContent, 'utf-8');
@@ -233,6 +293,7 @@ export class ChangesetBatchService {
                 proposalId: proposal.id,
                 failureType: errorType,
                 errorMessage: error.message || 'Unknown error',
+                diff: error instanceof ProposalApplyError ? error.diff : undefined,
                 filePath,
               },
             });
@@ -251,6 +312,7 @@ export class ChangesetBatchService {
               proposalId: proposal.id,
               error: error.message,
               errorType,
+              ...(error instanceof ProposalApplyError && error.diff && { diff: error.diff }),
             });
           }
         }
@@ -269,17 +331,17 @@ export class ChangesetBatchService {
       }
 
       // Create branch
-      await githubService.createBranch(repoPath, branchName);
+      await repositoryHost.createBranch(repoPath, branchName);
 
       // Commit changes
       const commitMessage = this.generateCommitMessage(batch, appliedProposals.length);
-      await githubService.commitChanges(repoPath, commitMessage);
+      await repositoryHost.commitChanges(repoPath, commitMessage);
 
       // Push branch
-      await githubService.pushBranch(repoPath, branchName);
+      await repositoryHost.pushBranch(repoPath, branchName);
 
       // Create PR
-      const pr = await githubService.createPullRequest({
+      const pr = await repositoryHost.createPullRequest({
         title: options.prTitle,
         body: this.generatePRBody(options.prBody, appliedProposals.length, failedProposals.length),
         branchName,
@@ -299,6 +361,9 @@ export class ChangesetBatchService {
           targetRepo: options.targetRepo,
           sourceRepo: options.sourceRepo,
           baseBranch: options.baseBranch || 'main',
+          gitHost,
+          gitHostUrl: options.gitHostUrl ?? null,
+          docSourceId,
           submittedAt: new Date(),
           submittedBy: options.submittedBy,
         },
@@ -306,7 +371,7 @@ export class ChangesetBatchService {
 
       // Cleanup
       if (repoPath) {
-        await githubService.cleanup(repoPath);
+        await repositoryHost.cleanup(repoPath);
       }
 
       return {
@@ -318,10 +383,10 @@ export class ChangesetBatchService {
     } catch (error: any) {
       // Cleanup on error
       if (repoPath) {
-        await githubService.cleanup(repoPath);
+        await repositoryHost.cleanup(repoPath);
       }
 
-      throw new Error(`PR generation failed: ${error.message}`);
+      throw new PRGenerationError(`PR generation failed: ${error.message}`, failedProposals);
     }
   }
 
@@ -339,6 +404,9 @@ export class ChangesetBatchService {
         failures: {
           include: { proposal: true },
         },
+        reviews: {
+          orderBy: { submittedAt: 'asc' },
+        },
       },
     });
   }
@@ -383,6 +451,61 @@ export class ChangesetBatchService {
 
   // Helper methods
 
+  /**
+   * Repository settings and file paths for the batch's documentation source
+   * Batches of the primary repository use the requested settings; batches of an additional
+   * source go to that source's repository, with its path prefix stripped from page paths.
+   */
+  private resolveTarget(
+    proposals: DocProposal[],
+    options: CreateBatchOptions
+  ): {
+    options: CreateBatchOptions;
+    docSourceId: string | null;
+    repoPathOf: (page: string) => string;
+  } {
+    const sources = options.docSources;
+    if (!sources?.length || proposals.length === 0) {
+      return { options, docSourceId: null, repoPathOf: (page) => page };
+    }
+
+    const sourceIds = [
+      ...new Set(proposals.map((p) => resolveDocSource(sources, p.page).source.id)),
+    ];
+    if (sourceIds.length > 1) {
+      throw new Error(
+        `Batch contains pages of several documentation repositories (${sourceIds.join(', ')}); create one batch per repository`
+      );
+    }
+
+    const { source } = resolveDocSource(sources, proposals[0].page);
+    const repoPathOf = (page: string) => resolveDocSource(sources, page).repoPath;
+    if (source.id === PRIMARY_DOC_SOURCE_ID) {
+      return { options, docSourceId: null, repoPathOf };
+    }
+
+    const location = parseRepositoryUrl(source.gitUrl, source.gitHost);
+    if (!location) {
+      throw new Error(
+        `Cannot parse git URL of documentation source "${source.id}": ${source.gitUrl}`
+      );
+    }
+
+    return {
+      options: {
+        ...options,
+        targetRepo: source.prTargetRepo || location.repo,
+        sourceRepo: location.repo,
+        baseBranch: source.prBaseBranch || source.branch,
+        gitToken: source.gitToken || options.gitToken,
+        gitHost: location.host,
+        gitHostUrl: location.baseUrl,
+      },
+      docSourceId: source.id,
+      repoPathOf,
+    };
+  }
+
   private groupProposalsByFile(proposals: DocProposal[]): Record<string, DocProposal[]> {
     const grouped: Record<string, DocProposal[]> = {};
 
@@ -397,7 +520,124 @@ export class ChangesetBatchService {
     return grouped;
   }
 
-  private classifyError(error: any): string {
+  /**
+   * Apply a file's proposals to its current content.
+   * Proposals generated against an older docs commit are applied to the file as of that
+   * commit and rebased with a three-way merge, so shifted line numbers and sections
+   * still land in the right place. Overlapping upstream edits fail as "conflict".
+   */
+  private async applyFileProposals(
+    filePath: string,
+    currentContent: string,
+    proposals: DocProposal[],
+    workspace: {
+      repoPath: string;
+      repositoryHost: RepositoryHost;
+      fileService: FileModificationService;
+      baseBranch: string;
+    }
+  ): Promise<string> {
+    const { repoPath, repositoryHost, fileService, baseBranch } = workspace;
+
+    const headCommit = proposals.some((p) => p.baseCommitHash)
+      ? await repositoryHost.getHeadCommit(repoPath)
+      : null;
+
+    // Group by base commit; proposals on the current commit (or without one) apply directly
+    const current: DocProposal[] = [];
+    const byBase = new Map<string, { content: string; proposals: DocProposal[] }>();
+    for (const proposal of proposals) {
+      const base = proposal.baseCommitHash;
+      if (!base || base === headCommit) {
+        current.push(proposal);
+        continue;
+      }
+
+      if (!byBase.has(base)) {
+        const baseContent = await repositoryHost.readFileAtCommit(repoPath, base, filePath);
+        if (baseContent === null) {
+          console.warn(
+            `   ⚠️  Base commit ${base.substring(0, 8)} unavailable for ${filePath}, applying to current content`
+          );
+          current.push(proposal);
+          continue;
+        }
+        byBase.set(base, { content: baseContent, proposals: [] });
+      }
+      byBase.get(base)!.proposals.push(proposal);
+    }
+
+    let content = currentContent;
+    if (current.length > 0) {
+      content = await this.applyToContent(filePath, content, current, fileService, true);
+    }
+
+    for (const [base, group] of byBase) {
+      console.log(
+        `   🔀 Rebasing ${group.proposals.length} proposals from ${base.substring(0, 8)} onto ${baseBranch}`
+      );
+      const proposed = await this.applyToContent(
+        filePath,
+        group.content,
+        group.proposals,
+        fileService,
+        false
+      );
+
+      const merge = mergeThreeWay(group.content, proposed, content);
+      if (merge.conflicts.length > 0) {
+        throw new ProposalApplyError(
+          `Merge conflict in ${filePath}: ${merge.conflicts.length} region(s) changed on ${baseBranch} since ${base.substring(0, 8)}`,
+          'conflict',
+          formatConflicts(merge.conflicts, {
+            ours: 'proposal',
+            base: base.substring(0, 8),
+            theirs: baseBranch,
+          })
+        );
+      }
+      content = merge.content;
+    }
+
+    return content;
+  }
+
+  /**
+   * Apply proposals to content using LLM consolidation or mechanical application
+   * @param onDisk - Content is the file in the clone (mechanical application reads it from disk)
+   */
+  private async applyToContent(
+    filePath: string,
+    content: string,
+    proposals: DocProposal[],
+    fileService: FileModificationService,
+    onDisk: boolean
+  ): Promise<string> {
+    // Decide whether to use LLM consolidation or mechanical application
+    if (fileConsolidationService.shouldConsolidate(proposals, content)) {
+      console.log(`\n🤖 Using LLM consolidation for ${filePath} (${proposals.length} proposals)`);
+
+      // Use LLM to consolidate changes
+      const result = await fileConsolidationService.consolidateFile(filePath, content, proposals, {
+        db: this.prisma,
+        instanceId: this.instanceId,
+      });
+      return result.consolidatedContent;
+    }
+
+    console.log(
+      `\n⚙️  Using mechanical application for ${filePath} (${proposals.length} proposals)`
+    );
+
+    // Use traditional mechanical application
+    return onDisk
+      ? fileService.applyProposalsToFile(filePath, proposals)
+      : fileService.applyProposalsToContent(content, proposals);
+  }
+
+  private classifyError(error: any): ProposalFailureType {
+    if (error instanceof ProposalApplyError) return error.failureType;
+
     const message = error.message?.toLowerCase() || '';
 
     if (message.includes('file not found')) return 'file_not_found';
@@ -7,10 +7,13 @@
 
  * @created 2025-11-11
  * @updated 2025-12-30 - Refactored to use PromptRegistry for externalized prompts
+ * @updated 2026-10-19 - Consolidation calls are recorded in the instance's LLM usage
  */
 
-import { DocProposal } from '@prisma/client';
-import { llmService } from '../llm/llm-service.js';
+import { DocProposal, PrismaClient } from '@prisma/client';
+import { getLLMHandler } from '../../pipeline/handlers/LLMHandlerFactory.js';
+import { MeteredLLMHandler } from '../../pipeline/handlers/MeteredLLMHandler.js';
+import { createLLMUsageRecorder } from '../../llm/llm-usage.js';
 import { getConfig } from '../../config/loader.js';
 import { createPromptRegistry, PromptRegistry } from '../../pipeline/prompts/PromptRegistry.js';
 import { createLogger } from '../../utils/logger.js';
@@ -32,6 +35,14 @@ const FileConsolidationResponseSchema = z.object({
   consolidatedContent: z.string().describe('The complete, consolidated file content'),
 });
 
+/**
+ * Instance whose LLM usage the consolidation calls are recorded for
+ */
+export interface ConsolidationUsageTarget {
+  db: PrismaClient;
+  instanceId: string;
+}
+
 interface ConsolidationResult {
   consolidatedContent: string;
   tokensUsed?: number;
@@ -69,12 +80,14 @@ export class FileConsolidationService {
    * @param filePath - The file being modified
    * @param originalContent - The original file content
    * @param proposals - Array of proposals to apply to this file
+   * @param usage - Instance to record the LLM call's usage for
    * @returns The consolidated file content
    */
   async consolidateFile(
     filePath: string,
     originalContent: string,
-    proposals: DocProposal[]
+    proposals: DocProposal[],
+    usage: ConsolidationUsageTarget
   ): Promise<ConsolidationResult> {
     if (proposals.length === 0) {
       return { consolidatedContent: originalContent };
@@ -127,7 +140,11 @@ ${text}
 
     try {
       // Call LLM to consolidate changes
-      const { data, response } = await llmService.requestJSON(
+      const llm = new MeteredLLMHandler(
+        getLLMHandler('gemini'),
+        createLLMUsageRecorder(usage.db, usage.instanceId)
+      );
+      const { data, response } = await llm.requestJSON(
         {
           model: CONSOLIDATION_MODEL,
           systemPrompt,
@@ -135,7 +152,8 @@ ${text}
           temperature: 0.3, // Lower temperature for consistent output
           maxTokens: 8000, // Allow longer output for complete files
         },
-        FileConsolidationResponseSchema
+        FileConsolidationResponseSchema,
+        { instanceId: usage.instanceId, purpose: 'file-consolidation' }
       );
 
       console.log('\n' + '='.repeat(80));
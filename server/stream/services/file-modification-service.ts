@@ -3,6 +3,7 @@
  *
  * Responsible for applying DocProposal changes to actual documentation files.
  * Handles INSERT, UPDATE, and DELETE operations with section-based and line-based strategies.
+ * Sections are addressed by heading path (e.g. "Setup > Linux") over a parsed heading tree.
  *
 
  * @created 2025-11-06
@@ -11,6 +12,12 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { DocProposal } from '@prisma/client';
+import {
+  describeSection,
+  parseMarkdownSections,
+  resolveSection,
+  type MarkdownSection,
+} from './markdown-sections.js';
 
 interface ProposalLocation {
   lineStart?: number;
@@ -21,7 +28,32 @@ interface ProposalLocation {
 interface ApplyResult {
   success: boolean;
   error?: string;
-  errorType?: 'file_not_found' | 'section_not_found' | 'parse_error' | 'git_error';
+  errorType?: ProposalFailureType;
+}
+
+/**
+ * Failure types recorded on ProposalFailure.failureType
+ */
+export type ProposalFailureType =
+  | 'file_not_found'
+  | 'section_not_found'
+  | 'section_ambiguous'
+  | 'conflict'
+  | 'parse_error'
+  | 'git_error';
+
+/**
+ * Error raised when a proposal cannot be applied, carrying its failure type
+ */
+export class ProposalApplyError extends Error {
+  constructor(
+    message: string,
+    readonly failureType: ProposalFailureType,
+    readonly diff?: string // Conflicting hunks for failureType "conflict"
+  ) {
+    super(message);
+    this.name = 'ProposalApplyError';
+  }
 }
 
 export class FileModificationService {
@@ -42,10 +74,18 @@ export class FileModificationService {
     try {
       await fs.access(fullPath);
     } catch {
-      throw new Error(`File not found: ${filePath}`);
+      throw new ProposalApplyError(`File not found: ${filePath}`, 'file_not_found');
     }
 
     const content = await fs.readFile(fullPath, 'utf-8');
+    return this.applyProposalsToContent(content, proposals);
+  }
+
+  /**
+   * Apply multiple proposals to file content (e.g. a file as of an older commit)
+   * Sorts proposals bottom-to-top to avoid offset issues
+   */
+  async applyProposalsToContent(content: string, proposals: DocProposal[]): Promise<string> {
     const lines = content.split('\n');
 
     // Sort proposals by location (apply from bottom to top to avoid offset issues)
@@ -99,15 +139,10 @@ export class FileModificationService {
       return [...lines.slice(0, insertIndex), ...newLines, ...lines.slice(insertIndex)];
     }
 
-    // Strategy 2: Insert under section
+    // Strategy 2: Insert at the end of the section (before the next sibling heading)
     if (section) {
-      const sectionIndex = this.findSectionIndex(lines, section);
-      if (sectionIndex !== -1) {
-        const insertIndex = this.findSectionEnd(lines, sectionIndex);
-        return [...lines.slice(0, insertIndex), ...newLines, ...lines.slice(insertIndex)];
-      }
-      // Section not found - throw error
-      throw new Error(`Section not found: ${section}`);
+      const target = this.findSection(lines, section);
+      return [...lines.slice(0, target.end), ...newLines, ...lines.slice(target.end)];
     }
 
     // Strategy 3: Append to end
@@ -139,13 +174,9 @@ export class FileModificationService {
 
     // Strategy 2: Replace section content
     if (section) {
-      const sectionIndex = this.findSectionIndex(lines, section);
-      if (sectionIndex !== -1) {
-        const sectionEnd = this.findSectionEnd(lines, sectionIndex);
-        // Keep the section header, replace content
-        return [...lines.slice(0, sectionIndex + 1), ...newLines, ...lines.slice(sectionEnd)];
-      }
-      throw new Error(`Section not found: ${section}`);
+      const target = this.findSection(lines, section);
+      // Keep the section heading (both lines for setext headings), replace content
+      return [...lines.slice(0, target.contentStart), ...newLines, ...lines.slice(target.end)];
     }
 
     throw new Error('UPDATE requires either location or section');
@@ -169,70 +200,31 @@ export class FileModificationService {
 
     // Strategy 2: Delete entire section
     if (section) {
-      const sectionIndex = this.findSectionIndex(lines, section);
-      if (sectionIndex !== -1) {
-        const sectionEnd = this.findSectionEnd(lines, sectionIndex);
-        return [...lines.slice(0, sectionIndex), ...lines.slice(sectionEnd)];
-      }
-      throw new Error(`Section not found: ${section}`);
+      const target = this.findSection(lines, section);
+      return [...lines.slice(0, target.headingStart), ...lines.slice(target.end)];
     }
 
     throw new Error('DELETE requires either location or section');
   }
 
   /**
-   * Find the index of a section header in the lines array
-   * Looks for markdown headers (# Header, ## Header, etc.)
+   * Find a section by heading path ("Setup > Linux" or just "Linux").
+   * The file is re-parsed for every proposal since earlier proposals shift lines.
    */
-  private findSectionIndex(lines: string[], sectionName: string): number {
-    const normalized = sectionName.toLowerCase().trim();
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-
-      // Check for markdown headers (# Header, ## Header, ### Header, etc.)
-      const headerMatch = line.match(/^#+\s+(.+)$/);
-      if (headerMatch) {
-        const headerText = headerMatch[1].toLowerCase().trim();
-        if (headerText === normalized || headerText.includes(normalized)) {
-          return i;
-        }
-      }
+  private findSection(lines: string[], sectionPath: string): MarkdownSection {
+    const resolution = resolveSection(parseMarkdownSections(lines), sectionPath);
+
+    switch (resolution.status) {
+      case 'found':
+        return resolution.section;
+      case 'ambiguous':
+        throw new ProposalApplyError(
+          `Ambiguous section "${sectionPath}": matches ${resolution.candidates.map(describeSection).join(', ')}`,
+          'section_ambiguous'
+        );
+      case 'not_found':
+        throw new ProposalApplyError(`Section not found: ${sectionPath}`, 'section_not_found');
     }
-
-    return -1;
-  }
-
-  /**
-   * Find the end of a section (start of next section or end of file)
-   * Looks for the next header at the same or higher level
-   */
-  private findSectionEnd(lines: string[], sectionStartIndex: number): number {
-    const startLine = lines[sectionStartIndex];
-    const headerMatch = startLine.match(/^(#+)\s+/);
-
-    if (!headerMatch) {
-      // Not a header, return next line
-      return sectionStartIndex + 1;
-    }
-
-    const headerLevel = headerMatch[1].length;
-
-    // Find next header at same or higher level
-    for (let i = sectionStartIndex + 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      const nextHeaderMatch = line.match(/^(#+)\s+/);
-
-      if (nextHeaderMatch) {
-        const nextLevel = nextHeaderMatch[1].length;
-        if (nextLevel <= headerLevel) {
-          return i; // Start of next section
-        }
-      }
-    }
-
-    // No next section found, return end of file
-    return lines.length;
   }
 
   /**
@@ -289,7 +281,9 @@ export class FileModificationService {
       // Classify error type
       let errorType: ApplyResult['errorType'] = 'parse_error';
 
-      if (error.message?.includes('Section not found')) {
+      if (error instanceof ProposalApplyError) {
+        errorType = error.failureType;
+      } else if (error.message?.includes('Section not found')) {
         errorType = 'section_not_found';
       } else if (error.message?.includes('File not found')) {
         errorType = 'file_not_found';
@@ -0,0 +1,138 @@
+/**
+ * GiteaPRService
+ *
+ * Gitea (and Forgejo) backend for changesets: pushes over HTTPS with an access token and
+ * opens pull requests through the REST API (v1). Self-hosted only, so baseUrl is required.
+ *
+
+ * @created 2026-10-19
+ */
+
+import { getErrorMessage } from '../../utils/logger.js';
+import {
+  GitRepositoryHost,
+  type PRCreateOptions,
+  type PRResponse,
+  type PRReview,
+  type PRStatus,
+  type RepositoryHostConfig,
+} from './repository-host.js';
+
+interface GiteaPullRequest {
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+  merged: boolean;
+  draft?: boolean; // Gitea 1.22+
+  title: string;
+  merged_at: string | null;
+  closed_at: string | null;
+}
+
+interface GiteaReview {
+  id: number;
+  state: 'APPROVED' | 'REQUEST_CHANGES' | 'COMMENT' | 'PENDING' | 'REQUEST_REVIEW';
+  body: string;
+  user: { login: string } | null;
+  html_url: string;
+  submitted_at: string;
+  dismissed?: boolean;
+}
+
+export class GiteaPRService extends GitRepositoryHost {
+  readonly hostType = 'gitea' as const;
+
+  constructor(config: RepositoryHostConfig, workDir?: string) {
+    if (!config.baseUrl) {
+      throw new Error('Gitea requires baseUrl (e.g. https://gitea.example.com)');
+    }
+    super(config, workDir);
+  }
+
+  protected remoteUrl(repo: string, authenticated: boolean): string {
+    // Gitea accepts an access token as the username with an empty password
+    const credentials = authenticated ? `${this.config.token}@` : '';
+    return `https://${credentials}${this.webHost('')}/${repo}.git`;
+  }
+
+  /**
+   * Create a pull request from the pushed branch into the base branch
+   */
+  async createPullRequest(options: PRCreateOptions): Promise<PRResponse> {
+    try {
+      const pr = await this.api<GiteaPullRequest>('pulls', {
+        method: 'POST',
+        body: JSON.stringify({
+          head: options.branchName,
+          base: this.config.baseBranch,
+          // Gitea treats "WIP:" titles as work in progress (drafts)
+          title: (options.draft ?? true) ? `WIP: ${options.title}` : options.title,
+          body: options.body,
+        }),
+      });
+
+      return {
+        url: pr.html_url,
+        number: pr.number,
+        branchName: options.branchName,
+      };
+    } catch (error) {
+      throw new Error(`Failed to create pull request: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Fetch the current state of a pull request
+   */
+  async getPullRequestStatus(number: number): Promise<PRStatus> {
+    try {
+      const pr = await this.api<GiteaPullRequest>(`pulls/${number}`, { method: 'GET' });
+
+      return {
+        state: pr.merged ? 'merged' : pr.state === 'closed' ? 'closed' : 'open',
+        draft: pr.draft ?? /^\s*(WIP:|\[WIP\])/i.test(pr.title),
+        url: pr.html_url,
+        mergedAt: pr.merged_at ? new Date(pr.merged_at) : undefined,
+        closedAt: pr.closed_at ? new Date(pr.closed_at) : undefined,
+      };
+    } catch (error) {
+      throw new Error(`Failed to fetch pull request status: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Fetch submitted reviews of a pull request
+   */
+  async getPullRequestReviews(number: number): Promise<PRReview[]> {
+    try {
+      const reviews = await this.api<GiteaReview[]>(`pulls/${number}/reviews?limit=50`, {
+        method: 'GET',
+      });
+
+      return reviews
+        .filter((review) => review.state !== 'PENDING' && review.state !== 'REQUEST_REVIEW')
+        .map((review) => ({
+          externalId: `review-${review.id}`,
+          author: review.user?.login || 'unknown',
+          state:
+            review.dismissed || review.state === 'COMMENT'
+              ? 'commented'
+              : review.state === 'APPROVED'
+                ? 'approved'
+                : 'changes_requested',
+          body: review.body,
+          url: review.html_url,
+          submittedAt: new Date(review.submitted_at),
+        }));
+    } catch (error) {
+      throw new Error(`Failed to fetch pull request reviews: ${getErrorMessage(error)}`);
+    }
+  }
+
+  private api<T>(endpoint: string, init: RequestInit): Promise<T> {
+    return this.requestJson<T>(
+      `https://${this.webHost('')}/api/v1/repos/${this.config.targetRepo}/${endpoint}`,
+      { ...init, headers: { Authorization: `token ${this.config.token}` } }
+    );
+  }
+}
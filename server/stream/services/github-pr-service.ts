@@ -12,136 +12,35 @@
  * @created 2025-11-06
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import fs from 'fs/promises';
-import path from 'path';
 import { Octokit } from '@octokit/rest';
-import { getConfig } from '../../config/loader';
 import { getErrorMessage } from '../../utils/logger.js';
-
-const execAsync = promisify(exec);
-
-interface GitHubConfig {
-  token: string;
-  targetRepo: string; // e.g., "username/fork-repo"
-  sourceRepo: string; // e.g., "org-name/documentation-repo"
-  baseBranch: string; // e.g., "main"
-}
-
-interface PRCreateOptions {
-  title: string;
-  body: string;
-  branchName: string;
-  draft?: boolean;
-}
-
-interface PRResponse {
-  url: string;
-  number: number;
-  branchName: string;
-}
-
-export class GitHubPRService {
-  private config: GitHubConfig;
+import {
+  GitRepositoryHost,
+  type PRCreateOptions,
+  type PRResponse,
+  type PRReview,
+  type PRStatus,
+  type RepositoryHostConfig,
+} from './repository-host.js';
+
+type GitHubConfig = RepositoryHostConfig;
+
+export class GitHubPRService extends GitRepositoryHost {
+  readonly hostType = 'github' as const;
   private octokit: Octokit;
-  private workDir: string;
 
   constructor(config: GitHubConfig, workDir: string = '/tmp/pr-workspaces') {
-    this.config = config;
-    this.workDir = workDir;
-    this.octokit = new Octokit({ auth: config.token });
-  }
-
-  /**
-   * Clone the target repository (fork) to a temporary directory
-   * Returns the path to the cloned repository
-   */
-  async cloneRepository(batchId: string): Promise<string> {
-    const repoPath = path.join(this.workDir, `batch-${batchId}`);
-
-    // Remove existing directory if it exists
-    try {
-      await fs.rm(repoPath, { recursive: true, force: true });
-    } catch {
-      // Directory doesn't exist, ignore
-    }
-
-    // Ensure work directory exists
-    await fs.mkdir(this.workDir, { recursive: true });
-
-    // Clone the target repository (fork)
-    const repoUrl = `https://github.com/${this.config.targetRepo}.git`;
-
-    try {
-      await execAsync(`git clone ${repoUrl} ${repoPath}`, {
-        env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
-      });
-
-      // Checkout the base branch
-      await execAsync(`git checkout ${this.config.baseBranch}`, { cwd: repoPath });
-
-      // Configure git user (required for commits)
-      const config = getConfig();
-      const botName = `${config.project.name} Bot`;
-      const botEmail = `bot@${config.project.domain || config.project.shortName.toLowerCase()}.com`;
-      await execAsync(`git config user.name "${botName}"`, { cwd: repoPath });
-      await execAsync(`git config user.email "${botEmail}"`, { cwd: repoPath });
-
-      return repoPath;
-    } catch (error) {
-      throw new Error(`Failed to clone repository: ${getErrorMessage(error)}`);
-    }
-  }
-
-  /**
-   * Create a new branch for the changeset
-   */
-  async createBranch(repoPath: string, branchName: string): Promise<void> {
-    try {
-      await execAsync(`git checkout -b ${branchName}`, { cwd: repoPath });
-    } catch (error) {
-      throw new Error(`Failed to create branch: ${getErrorMessage(error)}`);
-    }
-  }
-
-  /**
-   * Commit all changes in the repository
-   */
-  async commitChanges(repoPath: string, message: string): Promise<void> {
-    try {
-      // Stage all changes
-      await execAsync('git add .', { cwd: repoPath });
-
-      // Check if there are changes to commit
-      const { stdout: status } = await execAsync('git status --porcelain', { cwd: repoPath });
-
-      if (!status.trim()) {
-        console.log('No changes to commit');
-        return;
-      }
-
-      // Commit changes
-      await execAsync(`git commit -m "${message.replace(/"/g, '\\"')}"`, { cwd: repoPath });
-    } catch (error) {
-      throw new Error(`Failed to commit changes: ${getErrorMessage(error)}`);
-    }
+    super(config, workDir);
+    this.octokit = new Octokit({
+      auth: config.token,
+      // GitHub Enterprise Server serves its REST API under /api/v3
+      ...(config.baseUrl && { baseUrl: `${config.baseUrl.replace(/\/+$/, '')}/api/v3` }),
+    });
   }
 
-  /**
-   * Push branch to remote repository
-   */
-  async pushBranch(repoPath: string, branchName: string): Promise<void> {
-    try {
-      // Set up authentication using token
-      const remoteUrl = `https://${this.config.token}@github.com/${this.config.targetRepo}.git`;
-      await execAsync(`git remote set-url origin ${remoteUrl}`, { cwd: repoPath });
-
-      // Push branch
-      await execAsync(`git push -u origin ${branchName}`, { cwd: repoPath });
-    } catch (error) {
-      throw new Error(`Failed to push branch: ${getErrorMessage(error)}`);
-    }
+  protected remoteUrl(repo: string, authenticated: boolean): string {
+    const credentials = authenticated ? `${this.config.token}@` : '';
+    return `https://${credentials}${this.webHost('github.com')}/${repo}.git`;
   }
 
   /**
@@ -172,51 +71,69 @@ export class GitHubPRService {
   }
 
   /**
-   * Complete workflow: clone, modify, commit, push, create PR
-   * This is a high-level method that orchestrates the entire process
+   * Fetch the current state of a pull request
    */
-  async createPRFromChanges(
-    batchId: string,
-    branchName: string,
-    commitMessage: string,
-    prOptions: PRCreateOptions
-  ): Promise<{ repoPath: string; pr: PRResponse }> {
-    // Clone repository
-    const repoPath = await this.cloneRepository(batchId);
-
-    // Create branch
-    await this.createBranch(repoPath, branchName);
-
-    // Changes should be applied by FileModificationService before this point
-    // This method assumes changes are already written to disk
-
-    // Commit changes
-    await this.commitChanges(repoPath, commitMessage);
-
-    // Push branch
-    await this.pushBranch(repoPath, branchName);
-
-    // Create PR
-    const pr = await this.createPullRequest(prOptions);
+  async getPullRequestStatus(number: number): Promise<PRStatus> {
+    try {
+      const [owner, repo] = this.config.targetRepo.split('/');
+      const { data: pr } = await this.octokit.pulls.get({ owner, repo, pull_number: number });
 
-    return { repoPath, pr };
+      return {
+        state: pr.merged_at ? 'merged' : pr.state === 'closed' ? 'closed' : 'open',
+        draft: pr.draft ?? false,
+        url: pr.html_url,
+        mergedAt: pr.merged_at ? new Date(pr.merged_at) : undefined,
+        closedAt: pr.closed_at ? new Date(pr.closed_at) : undefined,
+      };
+    } catch (error) {
+      throw new Error(`Failed to fetch pull request status: ${getErrorMessage(error)}`);
+    }
   }
 
   /**
-   * Cleanup: remove temporary repository directory
+   * Fetch reviews and inline review comments of a pull request
    */
-  async cleanup(repoPath: string): Promise<void> {
+  async getPullRequestReviews(number: number): Promise<PRReview[]> {
     try {
-      await fs.rm(repoPath, { recursive: true, force: true });
+      const [owner, repo] = this.config.targetRepo.split('/');
+      const params = { owner, repo, pull_number: number, per_page: 100 };
+      const [{ data: reviews }, { data: comments }] = await Promise.all([
+        this.octokit.pulls.listReviews(params),
+        this.octokit.pulls.listReviewComments(params),
+      ]);
+
+      const result: PRReview[] = [];
+      for (const review of reviews) {
+        // Pending reviews are unsubmitted drafts
+        if (review.state === 'PENDING' || !review.submitted_at) continue;
+        result.push({
+          externalId: `review-${review.id}`,
+          author: review.user?.login || 'unknown',
+          state:
+            review.state === 'APPROVED'
+              ? 'approved'
+              : review.state === 'CHANGES_REQUESTED'
+                ? 'changes_requested'
+                : 'commented',
+          body: review.body || '',
+          url: review.html_url,
+          submittedAt: new Date(review.submitted_at),
+        });
+      }
+      for (const comment of comments) {
+        result.push({
+          externalId: `comment-${comment.id}`,
+          author: comment.user?.login || 'unknown',
+          state: 'commented',
+          body: comment.body,
+          path: comment.path,
+          url: comment.html_url,
+          submittedAt: new Date(comment.created_at),
+        });
+      }
+      return result;
     } catch (error) {
-      console.warn(`Failed to cleanup repository at ${repoPath}:`, error);
+      throw new Error(`Failed to fetch pull request reviews: ${getErrorMessage(error)}`);
     }
   }
-
-  /**
-   * Get the current configuration
-   */
-  getConfig(): GitHubConfig {
-    return { ...this.config };
-  }
 }
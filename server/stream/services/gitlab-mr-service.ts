@@ -0,0 +1,149 @@
+/**
+ * GitLabMRService
+ *
+ * GitLab (gitlab.com or self-hosted) backend for changesets: pushes over HTTPS with an
+ * access token and opens draft merge requests through the REST API (v4).
+ *
+
+ * @created 2026-10-19
+ */
+
+import { getErrorMessage } from '../../utils/logger.js';
+import {
+  GitRepositoryHost,
+  type PRCreateOptions,
+  type PRResponse,
+  type PRReview,
+  type PRStatus,
+} from './repository-host.js';
+
+interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  state: 'opened' | 'closed' | 'merged' | 'locked';
+  draft?: boolean;
+  work_in_progress?: boolean; // Pre-14.0 name of draft
+  merged_at: string | null;
+  closed_at: string | null;
+}
+
+interface GitLabNote {
+  id: number;
+  body: string;
+  system: boolean;
+  author: { username: string };
+  created_at: string;
+  position?: { new_path?: string };
+}
+
+interface GitLabApprovals {
+  updated_at: string;
+  approved_by: Array<{ user: { username: string } }>;
+}
+
+export class GitLabMRService extends GitRepositoryHost {
+  readonly hostType = 'gitlab' as const;
+
+  protected remoteUrl(repo: string, authenticated: boolean): string {
+    const credentials = authenticated ? `oauth2:${this.config.token}@` : '';
+    return `https://${credentials}${this.webHost('gitlab.com')}/${repo}.git`;
+  }
+
+  /**
+   * Create a merge request from the pushed branch into the base branch
+   */
+  async createPullRequest(options: PRCreateOptions): Promise<PRResponse> {
+    try {
+      const mr = await this.api<GitLabMergeRequest>('merge_requests', {
+        method: 'POST',
+        body: JSON.stringify({
+          source_branch: options.branchName,
+          target_branch: this.config.baseBranch,
+          // The "Draft:" prefix marks drafts on every GitLab version
+          title: (options.draft ?? true) ? `Draft: ${options.title}` : options.title,
+          description: options.body,
+          remove_source_branch: true,
+        }),
+      });
+
+      return {
+        url: mr.web_url,
+        number: mr.iid,
+        branchName: options.branchName,
+      };
+    } catch (error) {
+      throw new Error(`Failed to create merge request: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Fetch the current state of a merge request
+   */
+  async getPullRequestStatus(number: number): Promise<PRStatus> {
+    try {
+      const mr = await this.api<GitLabMergeRequest>(`merge_requests/${number}`, { method: 'GET' });
+
+      return {
+        state: mr.state === 'merged' ? 'merged' : mr.state === 'opened' ? 'open' : 'closed',
+        draft: mr.draft ?? mr.work_in_progress ?? false,
+        url: mr.web_url,
+        mergedAt: mr.merged_at ? new Date(mr.merged_at) : undefined,
+        closedAt: mr.closed_at ? new Date(mr.closed_at) : undefined,
+      };
+    } catch (error) {
+      throw new Error(`Failed to fetch merge request status: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Fetch discussion notes and approvals of a merge request
+   * GitLab records "requested changes" as a system note.
+   */
+  async getPullRequestReviews(number: number): Promise<PRReview[]> {
+    try {
+      const [notes, approvals] = await Promise.all([
+        this.api<GitLabNote[]>(`merge_requests/${number}/notes?sort=asc&per_page=100`, {
+          method: 'GET',
+        }),
+        this.api<GitLabApprovals>(`merge_requests/${number}/approvals`, { method: 'GET' }),
+      ]);
+
+      const reviews: PRReview[] = [];
+      for (const note of notes) {
+        const requestedChanges = note.system && note.body.trim() === 'requested changes';
+        if (note.system && !requestedChanges) continue;
+        reviews.push({
+          externalId: `note-${note.id}`,
+          author: note.author.username,
+          state: requestedChanges ? 'changes_requested' : 'commented',
+          body: requestedChanges ? '' : note.body,
+          path: note.position?.new_path,
+          submittedAt: new Date(note.created_at),
+        });
+      }
+      for (const { user } of approvals.approved_by) {
+        reviews.push({
+          externalId: `approval-${user.username}`,
+          author: user.username,
+          state: 'approved',
+          body: '',
+          submittedAt: new Date(approvals.updated_at),
+        });
+      }
+      return reviews;
+    } catch (error) {
+      throw new Error(`Failed to fetch merge request reviews: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Call a project-scoped endpoint; projects are addressed by URL-encoded path
+   */
+  private api<T>(endpoint: string, init: RequestInit): Promise<T> {
+    const project = encodeURIComponent(this.config.targetRepo);
+    return this.requestJson<T>(
+      `https://${this.webHost('gitlab.com')}/api/v4/projects/${project}/${endpoint}`,
+      { ...init, headers: { 'PRIVATE-TOKEN': this.config.token } }
+    );
+  }
+}
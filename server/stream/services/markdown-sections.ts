@@ -0,0 +1,217 @@
+/**
+ * Markdown Sections
+ *
+ * Parses markdown/MDX into a flat list of heading sections and resolves heading paths
+ * such as `Setup > Linux`. Understands ATX and setext headings and skips lines that
+ * only look like headings: fenced code, front matter, HTML and MDX comments.
+ *
+
+ * @created 2026-10-19
+ */
+
+export interface MarkdownSection {
+  title: string; // Heading text as written (without # markers or {#id} anchors)
+  level: number; // 1-6
+  path: string[]; // Titles from the top-level ancestor down to this section
+  headingStart: number; // First line of the heading
+  contentStart: number; // First line after the heading (setext headings span two or more lines)
+  end: number; // Exclusive: next heading of the same or higher level, or end of file
+}
+
+export type SectionResolution =
+  | { status: 'found'; section: MarkdownSection }
+  | { status: 'not_found' }
+  | { status: 'ambiguous'; candidates: MarkdownSection[] };
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+// Lines that cannot be (part of) a setext heading's text
+const NON_PARAGRAPH = /^ {0,3}(?:[>|<]|[-*+][ \t]|\d+[.)][ \t]|import\s|export\s|\{)/;
+
+/**
+ * Parse markdown lines into heading sections (document order)
+ */
+export function parseMarkdownSections(lines: string[]): MarkdownSection[] {
+  const headings: Array<{ title: string; level: number; start: number; contentStart: number }> = [];
+
+  let i = 0;
+
+  // Front matter (YAML --- or TOML +++) at the very top
+  const frontMatter = lines[0]?.trim();
+  if (frontMatter === '---' || frontMatter === '+++') {
+    const close = lines.findIndex((line, idx) => idx > 0 && line.trim() === frontMatter);
+    if (close !== -1) i = close + 1;
+  }
+
+  let paragraphStart = -1;
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code block: skip to the closing fence (or end of file)
+    const fence = line.match(FENCE_OPEN);
+    if (fence) {
+      const marker = fence[1][0];
+      const close = new RegExp(`^ {0,3}${marker === '`' ? '`' : '~'}{${fence[1].length},}[ \\t]*$`);
+      while (i + 1 < lines.length && !close.test(lines[i + 1])) i++;
+      i++;
+      paragraphStart = -1;
+      continue;
+    }
+
+    // Multi-line HTML (<!-- -->) and MDX ({/* */}) comments
+    const comment = commentCloser(line);
+    if (comment) {
+      while (i < lines.length && !lines[i].includes(comment)) i++;
+      paragraphStart = -1;
+      continue;
+    }
+
+    const atx = line.match(ATX_HEADING);
+    if (atx) {
+      const title = (atx[2] || '').replace(/(^|[ \t]+)#+$/, '').trim();
+      headings.push({ title, level: atx[1].length, start: i, contentStart: i + 1 });
+      paragraphStart = -1;
+      continue;
+    }
+
+    const underline = line.match(SETEXT_UNDERLINE);
+    if (underline && paragraphStart !== -1) {
+      const title = lines
+        .slice(paragraphStart, i)
+        .map((l) => l.trim())
+        .join(' ');
+      headings.push({
+        title,
+        level: underline[1][0] === '=' ? 1 : 2,
+        start: paragraphStart,
+        contentStart: i + 1,
+      });
+      paragraphStart = -1;
+      continue;
+    }
+
+    if (line.trim() === '' || NON_PARAGRAPH.test(line) || /^( {4}|\t)/.test(line)) {
+      paragraphStart = -1;
+    } else if (paragraphStart === -1) {
+      paragraphStart = i;
+    }
+  }
+
+  const sections: MarkdownSection[] = [];
+  const stack: MarkdownSection[] = [];
+
+  headings.forEach((heading, idx) => {
+    let end = lines.length;
+    for (let next = idx + 1; next < headings.length; next++) {
+      if (headings[next].level <= heading.level) {
+        end = headings[next].start;
+        break;
+      }
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop();
+
+    const title = heading.title.replace(/\s*\{#[^}]*\}$/, '');
+    const section: MarkdownSection = {
+      title,
+      level: heading.level,
+      path: [...stack.map((s) => s.title), title],
+      headingStart: heading.start,
+      contentStart: heading.contentStart,
+      end,
+    };
+    sections.push(section);
+    stack.push(section);
+  });
+
+  return sections;
+}
+
+/**
+ * Split a heading path ("Setup > Linux") into segments
+ */
+export function parseSectionPath(sectionPath: string): string[] {
+  return sectionPath
+    .split('>')
+    .map((segment) => segment.replace(/^\s*#+\s*/, '').trim())
+    .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Resolve a heading path to exactly one section.
+ * Segments must match the section and, in order, some of its ancestors. Exact
+ * (case-insensitive) title matches win; substring matches are only a fallback.
+ */
+export function resolveSection(
+  sections: MarkdownSection[],
+  sectionPath: string
+): SectionResolution {
+  const segments = parseSectionPath(sectionPath).map(normalizeTitle);
+  if (segments.length === 0) {
+    return { status: 'not_found' };
+  }
+
+  const exact = sections.filter((s) => matchesPath(s, segments, (title, seg) => title === seg));
+  const candidates =
+    exact.length > 0
+      ? exact
+      : sections.filter((s) => matchesPath(s, segments, (title, seg) => title.includes(seg)));
+
+  if (candidates.length === 0) {
+    return { status: 'not_found' };
+  }
+  if (candidates.length > 1) {
+    return { status: 'ambiguous', candidates };
+  }
+  return { status: 'found', section: candidates[0] };
+}
+
+/**
+ * Human-readable section reference for error messages
+ */
+export function describeSection(section: MarkdownSection): string {
+  return `"${section.path.join(' > ')}" (line ${section.headingStart + 1})`;
+}
+
+function matchesPath(
+  section: MarkdownSection,
+  segments: string[],
+  matches: (title: string, segment: string) => boolean
+): boolean {
+  const titles = section.path.map(normalizeTitle);
+  if (!matches(titles[titles.length - 1], segments[segments.length - 1])) {
+    return false;
+  }
+
+  // Remaining segments must appear among the ancestors in the same order
+  let ancestor = titles.length - 2;
+  for (let seg = segments.length - 2; seg >= 0; seg--) {
+    while (ancestor >= 0 && !matches(titles[ancestor], segments[seg])) ancestor--;
+    if (ancestor < 0) return false;
+    ancestor--;
+  }
+  return true;
+}
+
+function normalizeTitle(title: string): string {
+  return title
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // Links and images keep their text
+    .replace(/<[^>]+>/g, '') // Inline HTML / JSX
+    .replace(/[*_`~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Closing marker for a comment opened but not closed on this line
+ */
+function commentCloser(line: string): string | null {
+  const html = line.indexOf('<!--');
+  if (html !== -1 && !line.includes('-->', html + 4)) return '-->';
+  const mdx = line.indexOf('{/*');
+  if (mdx !== -1 && !line.includes('*/}', mdx + 3)) return '*/}';
+  return null;
+}
@@ -0,0 +1,200 @@
+/**
+ * PRStatusService
+ *
+ * Tracks the lifecycle of submitted changeset PRs on their repository host:
+ * - Moves batches to merged/closed (and back to submitted when a PR is reopened)
+ * - Records reviews and review comments, and the overall review decision
+ * - Re-syncs the instance's documentation in the background once a PR is merged
+ *
+ * Used by the PR status poller and the PR webhook endpoint.
+ *
+
+ * @created 2026-10-19
+ * @updated 2026-10-19 - Run the re-sync after a merge in the background
+ * @updated 2026-10-19 - Re-sync as a sync job, so it shares the job lock and is tracked
+ * @updated 2026-10-19 - Keep merges that land during a running sync pending until it finishes
+ */
+
+import { PrismaClient, ChangesetBatch, BatchStatus } from '@prisma/client';
+import { InstanceConfigLoader } from '../../config/instance-loader.js';
+import { getDocSource, getDocSources } from '../../config/doc-sources.js';
+import { DocSyncJobService } from '../../doc-sync-jobs.js';
+import { createLogger, getErrorMessage } from '../../utils/logger.js';
+import type { PRReview, RepositoryHostType } from './repository-host.js';
+import { createRepositoryHost } from './repository-host-factory';
+
+const logger = createLogger('PRStatusService');
+
+export interface PRStatusUpdate {
+  batchId: number;
+  previousStatus: BatchStatus;
+  status: BatchStatus;
+  reviewState: string | null;
+  newReviews: number;
+  resyncQueued: boolean; // A sync job was started after the merge, or waits for the running one
+}
+
+export class PRStatusService {
+  private prisma: PrismaClient;
+  private instanceId: string;
+
+  constructor(prisma: PrismaClient, instanceId: string) {
+    this.prisma = prisma;
+    this.instanceId = instanceId;
+  }
+
+  /**
+   * Refresh all submitted batches with an open PR
+   */
+  async pollSubmittedBatches(): Promise<PRStatusUpdate[]> {
+    const batches = await this.prisma.changesetBatch.findMany({
+      where: { status: 'submitted', prNumber: { not: null } },
+    });
+
+    const updates: PRStatusUpdate[] = [];
+    for (const batch of batches) {
+      try {
+        updates.push(await this.refreshBatch(batch));
+      } catch (error) {
+        logger.error(
+          `[${this.instanceId}] Failed to refresh PR status for batch ${batch.batchId}: ${getErrorMessage(error)}`
+        );
+      }
+    }
+    return updates;
+  }
+
+  /**
+   * Find the batch a host pull request belongs to (for webhooks)
+   */
+  async findBatchByPullRequest(
+    host: RepositoryHostType,
+    repo: string,
+    prNumber: number
+  ): Promise<ChangesetBatch | null> {
+    return this.prisma.changesetBatch.findFirst({
+      where: {
+        gitHost: host,
+        prNumber,
+        targetRepo: { equals: repo, mode: 'insensitive' },
+      },
+    });
+  }
+
+  /**
+   * Fetch PR state and reviews from the host and store them on the batch
+   */
+  async refreshBatch(batch: ChangesetBatch): Promise<PRStatusUpdate> {
+    if (!batch.prNumber || !batch.targetRepo) {
+      throw new Error(`Batch ${batch.batchId} has no pull request`);
+    }
+
+    // Token of the documentation source the batch was created for
+    const documentation = InstanceConfigLoader.get(this.instanceId).documentation;
+    const token =
+      getDocSource(getDocSources(documentation), batch.docSourceId)?.gitToken ??
+      documentation.gitToken;
+    if (!token) {
+      throw new Error('Git token not configured for this instance');
+    }
+
+    const host = createRepositoryHost(batch.gitHost as RepositoryHostType, {
+      token,
+      targetRepo: batch.targetRepo,
+      sourceRepo: batch.sourceRepo || batch.targetRepo,
+      baseBranch: batch.baseBranch || 'main',
+      ...(batch.gitHostUrl && { baseUrl: batch.gitHostUrl }),
+    });
+
+    const [prStatus, reviews] = await Promise.all([
+      host.getPullRequestStatus(batch.prNumber),
+      host.getPullRequestReviews(batch.prNumber),
+    ]);
+
+    const status: BatchStatus =
+      prStatus.state === 'merged' ? 'merged' : prStatus.state === 'closed' ? 'closed' : 'submitted';
+    const reviewState = summarizeReviews(reviews);
+    const newlyMerged = status === 'merged' && batch.status !== 'merged';
+
+    const { count: newReviews } = await this.prisma.changesetReview.createMany({
+      data: reviews.map((review) => ({
+        batchId: batch.id,
+        externalId: review.externalId,
+        author: review.author,
+        state: review.state,
+        body: review.body,
+        filePath: review.path ?? null,
+        url: review.url ?? null,
+        submittedAt: review.submittedAt,
+      })),
+      skipDuplicates: true,
+    });
+
+    await this.prisma.changesetBatch.update({
+      where: { id: batch.id },
+      data: {
+        status,
+        prUrl: prStatus.url,
+        mergedAt: prStatus.mergedAt ?? null,
+        closedAt: prStatus.closedAt ?? null,
+        reviewState,
+        statusCheckedAt: new Date(),
+        ...(newlyMerged && { resyncPending: true }),
+      },
+    });
+
+    if (status !== batch.status) {
+      logger.info(
+        `[${this.instanceId}] Batch ${batch.batchId} PR #${batch.prNumber}: ${batch.status} -> ${status}`
+      );
+    }
+
+    // Pull the merged content into the RAG index as a background sync job. The job lock keeps
+    // it from running alongside an admin sync of the same repository; the pending flag set
+    // above starts it once that sync finishes.
+    let resyncQueued = false;
+    if (newlyMerged) {
+      try {
+        const started = await new DocSyncJobService(this.prisma, this.instanceId).startJob();
+        resyncQueued = true;
+        if (!started) {
+          logger.info(
+            `[${this.instanceId}] A sync job is already running; batch ${batch.batchId} is re-synced when it finishes`
+          );
+        }
+      } catch (error) {
+        logger.error(
+          `[${this.instanceId}] Documentation re-sync after merging batch ${batch.batchId} failed to start: ${getErrorMessage(error)}`
+        );
+      }
+    }
+
+    return {
+      batchId: batch.id,
+      previousStatus: batch.status,
+      status,
+      reviewState,
+      newReviews,
+      resyncQueued,
+    };
+  }
+}
+
+/**
+ * Overall review decision from each reviewer's latest approval or change request
+ */
+export function summarizeReviews(reviews: PRReview[]): 'approved' | 'changes_requested' | null {
+  const decisions = new Map<string, PRReview>();
+  for (const review of reviews) {
+    if (review.state === 'commented') continue;
+    const previous = decisions.get(review.author);
+    if (!previous || previous.submittedAt <= review.submittedAt) {
+      decisions.set(review.author, review);
+    }
+  }
+
+  const states = Array.from(decisions.values(), (review) => review.state);
+  if (states.includes('changes_requested')) return 'changes_requested';
+  if (states.includes('approved')) return 'approved';
+  return null;
+}
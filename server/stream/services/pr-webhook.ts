@@ -0,0 +1,108 @@
+/**
+ * PR Webhooks
+ *
+ * Verifies and identifies pull request webhooks from GitHub, GitLab, Gitea and Bitbucket.
+ * Payloads are only used to find the affected PR; its state is then fetched from the
+ * host API by PRStatusService.
+ *
+
+ * @created 2026-10-19
+ */
+
+import crypto from 'crypto';
+import type { RepositoryHostType } from './repository-host.js';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+export interface PullRequestWebhookEvent {
+  host: RepositoryHostType;
+  repo: string;
+  prNumber: number;
+}
+
+/**
+ * Detect which host sent a webhook from its event header
+ * Gitea also sends GitHub-style headers, so it is checked first.
+ */
+export function detectWebhookHost(headers: Headers): RepositoryHostType | null {
+  if (headers['x-gitea-event'] || headers['x-forgejo-event']) return 'gitea';
+  if (headers['x-gitlab-event']) return 'gitlab';
+  if (headers['x-github-event']) return 'github';
+  if (headers['x-event-key']) return 'bitbucket';
+  return null;
+}
+
+/**
+ * Verify the webhook secret: HMAC-SHA256 signature of the raw body, or GitLab's plain token
+ */
+export function verifyWebhookSignature(
+  host: RepositoryHostType,
+  headers: Headers,
+  rawBody: Buffer | string,
+  secret: string
+): boolean {
+  if (host === 'gitlab') {
+    return safeEqual(header(headers, 'x-gitlab-token'), secret);
+  }
+
+  const signature =
+    host === 'github'
+      ? header(headers, 'x-hub-signature-256')
+      : host === 'gitea'
+        ? header(headers, 'x-gitea-signature') || header(headers, 'x-forgejo-signature')
+        : header(headers, 'x-hub-signature');
+  const digest = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+
+  // Gitea sends the bare hex digest; GitHub and Bitbucket prefix it with "sha256="
+  return safeEqual(signature.replace(/^sha256=/, ''), digest);
+}
+
+/**
+ * Extract the pull request from a webhook payload
+ * Returns null for events that do not concern a pull request (pushes, pings, issue notes, ...).
+ */
+export function parsePullRequestWebhook(
+  host: RepositoryHostType,
+  headers: Headers,
+  body: any
+): PullRequestWebhookEvent | null {
+  let repo: unknown;
+  let prNumber: unknown;
+
+  switch (host) {
+    case 'github':
+    case 'gitea':
+      // pull_request, pull_request_review, pull_request_review_comment, ...
+      repo = body?.repository?.full_name;
+      prNumber = body?.pull_request?.number;
+      break;
+    case 'gitlab':
+      repo = body?.project?.path_with_namespace;
+      prNumber =
+        body?.object_kind === 'merge_request'
+          ? body?.object_attributes?.iid
+          : body?.merge_request?.iid; // Note Hook on a merge request
+      break;
+    case 'bitbucket':
+      if (!header(headers, 'x-event-key').startsWith('pullrequest:')) return null;
+      repo = body?.repository?.full_name;
+      prNumber = body?.pullrequest?.id;
+      break;
+  }
+
+  if (typeof repo !== 'string' || typeof prNumber !== 'number') {
+    return null;
+  }
+  return { host, repo, prNumber };
+}
+
+function header(headers: Headers, name: string): string {
+  const value = headers[name];
+  return (Array.isArray(value) ? value[0] : value) || '';
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
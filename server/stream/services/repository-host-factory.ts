@@ -0,0 +1,93 @@
+/**
+ * Repository Host Factory
+ *
+ * Detects the host of a docs repository URL and creates the matching RepositoryHost.
+ *
+
+ * @created 2026-10-19
+ */
+
+import { GitHubPRService } from './github-pr-service';
+import { GitLabMRService } from './gitlab-mr-service';
+import { GiteaPRService } from './gitea-pr-service';
+import { BitbucketPRService } from './bitbucket-pr-service';
+import type {
+  RepositoryHost,
+  RepositoryHostConfig,
+  RepositoryHostType,
+} from './repository-host.js';
+
+export interface RepositoryLocation {
+  host: RepositoryHostType;
+  repo: string; // "owner/repo", or "group/subgroup/repo" on GitLab
+  baseUrl?: string; // Set for self-hosted instances only
+}
+
+const PUBLIC_HOSTS: Record<string, RepositoryHostType> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+};
+
+/**
+ * Parse a repository URL (HTTPS, SSH or "owner/repo")
+ * Self-hosted instances are detected by hostname ("gitlab.*", "gitea.*", ...) unless
+ * `hostOverride` names the host explicitly.
+ */
+export function parseRepositoryUrl(
+  gitUrl: string,
+  hostOverride?: RepositoryHostType
+): RepositoryLocation | null {
+  const url = gitUrl.trim();
+
+  // Already in owner/repo format
+  if (/^[\w-]+(\/[\w.-]+)+$/.test(url)) {
+    return { host: hostOverride || 'github', repo: url.replace(/\.git$/, '') };
+  }
+
+  // HTTPS (https://host/owner/repo.git) or SSH (git@host:owner/repo.git, ssh://git@host/owner/repo)
+  const match =
+    url.match(/^https?:\/\/(?:[^@/]+@)?([^/]+)\/(.+?)(?:\.git)?\/?$/) ||
+    url.match(/^(?:ssh:\/\/)?[^@]+@([^:/]+)(?::\d+)?[:/](.+?)(?:\.git)?\/?$/);
+  if (!match || !match[2].includes('/')) {
+    return null;
+  }
+
+  const [, hostname, repo] = match;
+  const publicHost = PUBLIC_HOSTS[hostname.toLowerCase()];
+  const host = hostOverride || publicHost || guessSelfHosted(hostname);
+
+  return publicHost ? { host, repo } : { host, repo, baseUrl: `https://${hostname}` };
+}
+
+/**
+ * Create the repository host implementation for a host type
+ */
+export function createRepositoryHost(
+  host: RepositoryHostType,
+  config: RepositoryHostConfig,
+  workDir?: string
+): RepositoryHost {
+  switch (host) {
+    case 'github':
+      return new GitHubPRService(config, workDir);
+    case 'gitlab':
+      return new GitLabMRService(config, workDir);
+    case 'gitea':
+      return new GiteaPRService(config, workDir);
+    case 'bitbucket':
+      return new BitbucketPRService(config, workDir);
+    default:
+      throw new Error(`Unsupported repository host: ${host}`);
+  }
+}
+
+function guessSelfHosted(hostname: string): RepositoryHostType {
+  const name = hostname.toLowerCase();
+  if (name.includes('gitlab')) return 'gitlab';
+  if (name.includes('gitea') || name.includes('forgejo') || name === 'codeberg.org') {
+    return 'gitea';
+  }
+  // GitHub Enterprise Server
+  return 'github';
+}
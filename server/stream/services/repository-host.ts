@@ -0,0 +1,319 @@
+/**
+ * Repository Host
+ *
+ * Common interface for the git hosts changesets are submitted to (GitHub, GitLab, Gitea,
+ * Bitbucket). Git operations run on a local clone through the git CLI and are shared;
+ * hosts differ in remote URLs and in their pull/merge request APIs.
+ *
+
+ * @created 2026-10-19
+ */
+
+import { exec, execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import path from 'path';
+import { getConfig } from '../../config/loader';
+import { getErrorMessage } from '../../utils/logger.js';
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+export const REPOSITORY_HOST_TYPES = ['github', 'gitlab', 'gitea', 'bitbucket'] as const;
+export type RepositoryHostType = (typeof REPOSITORY_HOST_TYPES)[number];
+
+export interface RepositoryHostConfig {
+  token: string;
+  targetRepo: string; // e.g., "username/fork-repo" or "group/subgroup/repo" on GitLab
+  sourceRepo: string; // e.g., "org-name/documentation-repo"
+  baseBranch: string; // e.g., "main"
+  baseUrl?: string; // Web URL of self-hosted instances, e.g. "https://git.example.com"
+}
+
+export interface PRCreateOptions {
+  title: string;
+  body: string;
+  branchName: string;
+  draft?: boolean;
+}
+
+export interface PRResponse {
+  url: string;
+  number: number; // PR number, GitLab MR iid, or Bitbucket PR id
+  branchName: string;
+}
+
+export interface PRStatus {
+  state: 'open' | 'merged' | 'closed';
+  draft: boolean;
+  url: string;
+  mergedAt?: Date;
+  closedAt?: Date;
+}
+
+export interface PRReview {
+  externalId: string; // Unique per pull request, e.g. "review-123" or "comment-456"
+  author: string;
+  state: 'approved' | 'changes_requested' | 'commented';
+  body: string;
+  path?: string; // File of inline comments
+  url?: string;
+  submittedAt: Date;
+}
+
+/**
+ * Operations ChangesetBatchService and PRStatusService need from a repository host
+ */
+export interface RepositoryHost {
+  readonly hostType: RepositoryHostType;
+  cloneRepository(batchId: string): Promise<string>;
+  getHeadCommit(repoPath: string): Promise<string>;
+  readFileAtCommit(repoPath: string, commitHash: string, filePath: string): Promise<string | null>;
+  createBranch(repoPath: string, branchName: string): Promise<void>;
+  commitChanges(repoPath: string, message: string): Promise<void>;
+  pushBranch(repoPath: string, branchName: string): Promise<void>;
+  createPullRequest(options: PRCreateOptions): Promise<PRResponse>;
+  getPullRequestStatus(number: number): Promise<PRStatus>;
+  getPullRequestReviews(number: number): Promise<PRReview[]>;
+  cleanup(repoPath: string): Promise<void>;
+}
+
+/**
+ * Git CLI operations shared by all hosts
+ */
+export abstract class GitRepositoryHost implements RepositoryHost {
+  abstract readonly hostType: RepositoryHostType;
+  protected config: RepositoryHostConfig;
+  protected workDir: string;
+
+  constructor(config: RepositoryHostConfig, workDir: string = '/tmp/pr-workspaces') {
+    this.config = config;
+    this.workDir = workDir;
+  }
+
+  /**
+   * HTTPS remote URL for a repository, with credentials embedded when `authenticated`
+   */
+  protected abstract remoteUrl(repo: string, authenticated: boolean): string;
+
+  abstract createPullRequest(options: PRCreateOptions): Promise<PRResponse>;
+
+  abstract getPullRequestStatus(number: number): Promise<PRStatus>;
+
+  abstract getPullRequestReviews(number: number): Promise<PRReview[]>;
+
+  /**
+   * Clone the target repository (fork) to a temporary directory
+   * Returns the path to the cloned repository
+   */
+  async cloneRepository(batchId: string): Promise<string> {
+    const repoPath = path.join(this.workDir, `batch-${batchId}`);
+
+    // Remove existing directory if it exists
+    try {
+      await fs.rm(repoPath, { recursive: true, force: true });
+    } catch {
+      // Directory doesn't exist, ignore
+    }
+
+    // Ensure work directory exists
+    await fs.mkdir(this.workDir, { recursive: true });
+
+    // Clone the target repository (fork)
+    const repoUrl = this.remoteUrl(this.config.targetRepo, false);
+
+    try {
+      await execAsync(`git clone ${repoUrl} ${repoPath}`, {
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      });
+
+      // Checkout the base branch
+      await execAsync(`git checkout ${this.config.baseBranch}`, { cwd: repoPath });
+
+      // Configure git user (required for commits)
+      const config = getConfig();
+      const botName = `${config.project.name} Bot`;
+      const botEmail = `bot@${config.project.domain || config.project.shortName.toLowerCase()}.com`;
+      await execAsync(`git config user.name "${botName}"`, { cwd: repoPath });
+      await execAsync(`git config user.email "${botEmail}"`, { cwd: repoPath });
+
+      return repoPath;
+    } catch (error) {
+      throw new Error(`Failed to clone repository: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Get the commit currently checked out in the cloned repository
+   */
+  async getHeadCommit(repoPath: string): Promise<string> {
+    const { stdout } = await execAsync('git rev-parse HEAD', { cwd: repoPath });
+    return stdout.trim();
+  }
+
+  /**
+   * Read a file as it was at a given commit
+   * Fetches the commit from the source repository if the fork does not have it.
+   * Returns null if the commit or the file is unavailable.
+   */
+  async readFileAtCommit(
+    repoPath: string,
+    commitHash: string,
+    filePath: string
+  ): Promise<string | null> {
+    if (!/^[0-9a-f]{7,40}$/i.test(commitHash)) {
+      return null;
+    }
+
+    const show = async () => {
+      const { stdout } = await execFileAsync('git', ['show', `${commitHash}:${filePath}`], {
+        cwd: repoPath,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+      return stdout;
+    };
+
+    try {
+      return await show();
+    } catch {
+      // Commit may only exist upstream; fall through and fetch it
+    }
+
+    try {
+      await execFileAsync(
+        'git',
+        ['fetch', '--quiet', this.remoteUrl(this.config.sourceRepo, false), commitHash],
+        { cwd: repoPath, env: { ...process.env, GIT_TERMINAL_PROMPT: '0' } }
+      );
+      return await show();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create a new branch for the changeset
+   */
+  async createBranch(repoPath: string, branchName: string): Promise<void> {
+    try {
+      await execAsync(`git checkout -b ${branchName}`, { cwd: repoPath });
+    } catch (error) {
+      throw new Error(`Failed to create branch: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Commit all changes in the repository
+   */
+  async commitChanges(repoPath: string, message: string): Promise<void> {
+    try {
+      // Stage all changes
+      await execAsync('git add .', { cwd: repoPath });
+
+      // Check if there are changes to commit
+      const { stdout: status } = await execAsync('git status --porcelain', { cwd: repoPath });
+
+      if (!status.trim()) {
+        console.log('No changes to commit');
+        return;
+      }
+
+      // Commit changes
+      await execAsync(`git commit -m "${message.replace(/"/g, '\\"')}"`, { cwd: repoPath });
+    } catch (error) {
+      throw new Error(`Failed to commit changes: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Push branch to remote repository
+   */
+  async pushBranch(repoPath: string, branchName: string): Promise<void> {
+    try {
+      // Set up authentication using token
+      const remoteUrl = this.remoteUrl(this.config.targetRepo, true);
+      await execAsync(`git remote set-url origin ${remoteUrl}`, { cwd: repoPath });
+
+      // Push branch
+      await execAsync(`git push -u origin ${branchName}`, { cwd: repoPath });
+    } catch (error) {
+      throw new Error(`Failed to push branch: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Complete workflow: clone, modify, commit, push, create PR
+   * This is a high-level method that orchestrates the entire process
+   */
+  async createPRFromChanges(
+    batchId: string,
+    branchName: string,
+    commitMessage: string,
+    prOptions: PRCreateOptions
+  ): Promise<{ repoPath: string; pr: PRResponse }> {
+    // Clone repository
+    const repoPath = await this.cloneRepository(batchId);
+
+    // Create branch
+    await this.createBranch(repoPath, branchName);
+
+    // Changes should be applied by FileModificationService before this point
+    // This method assumes changes are already written to disk
+
+    // Commit changes
+    await this.commitChanges(repoPath, commitMessage);
+
+    // Push branch
+    await this.pushBranch(repoPath, branchName);
+
+    // Create PR
+    const pr = await this.createPullRequest(prOptions);
+
+    return { repoPath, pr };
+  }
+
+  /**
+   * Cleanup: remove temporary repository directory
+   */
+  async cleanup(repoPath: string): Promise<void> {
+    try {
+      await fs.rm(repoPath, { recursive: true, force: true });
+    } catch (error) {
+      console.warn(`Failed to cleanup repository at ${repoPath}:`, error);
+    }
+  }
+
+  /**
+   * Get the current configuration
+   */
+  getConfig(): RepositoryHostConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Web URL without protocol or trailing slash (may include a path prefix),
+   * defaulting to the public service
+   */
+  protected webHost(defaultHost: string): string {
+    return this.config.baseUrl
+      ? this.config.baseUrl.replace(/^https?:\/\//, '').replace(/\/+$/, '')
+      : defaultHost;
+  }
+
+  /**
+   * Call a JSON REST API, throwing with the response body on HTTP errors
+   */
+  protected async requestJson<T>(url: string, init: RequestInit): Promise<T> {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`${response.status} ${response.statusText}${text ? `: ${text}` : ''}`);
+    }
+
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Three-Way Merge
+ *
+ * Line-based diff3 merge used to rebase proposal edits made against an older docs commit
+ * onto the current file. Changes to different regions merge cleanly; overlapping changes
+ * are reported as conflicts instead of being applied to the wrong lines.
+ *
+
+ * @created 2026-10-19
+ */
+
+import { diffArrays } from 'diff';
+
+export interface MergeConflict {
+  baseStart: number; // 0-based line in the base file where the conflicting region starts
+  base: string[];
+  ours: string[];
+  theirs: string[];
+}
+
+export interface MergeResult {
+  content: string; // Merged content; conflicting regions keep "theirs"
+  conflicts: MergeConflict[];
+}
+
+export interface MergeLabels {
+  ours: string;
+  base: string;
+  theirs: string;
+}
+
+/**
+ * Merge two descendants of a common base.
+ * @param base - Content both sides started from
+ * @param ours - Base with the proposal edits applied
+ * @param theirs - Current content of the file
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeResult {
+  const baseLines = base.split('\n');
+  const oursLines = ours.split('\n');
+  const theirsLines = theirs.split('\n');
+
+  const inOurs = matchLines(baseLines, oursLines);
+  const inTheirs = matchLines(baseLines, theirsLines);
+
+  const merged: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let i = 0;
+  let o = 0;
+  let t = 0;
+
+  while (i < baseLines.length || o < oursLines.length || t < theirsLines.length) {
+    // Stable line: unchanged on both sides
+    if (i < baseLines.length && inOurs[i] === o && inTheirs[i] === t) {
+      merged.push(baseLines[i]);
+      i++;
+      o++;
+      t++;
+      continue;
+    }
+
+    // Unstable chunk runs up to the next base line that both sides kept
+    let next = i;
+    while (next < baseLines.length && (inOurs[next] === -1 || inTheirs[next] === -1)) next++;
+    const oEnd = next < baseLines.length ? inOurs[next] : oursLines.length;
+    const tEnd = next < baseLines.length ? inTheirs[next] : theirsLines.length;
+
+    const baseChunk = baseLines.slice(i, next);
+    const oursChunk = oursLines.slice(o, oEnd);
+    const theirsChunk = theirsLines.slice(t, tEnd);
+
+    if (sameLines(oursChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+      merged.push(...theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk)) {
+      merged.push(...oursChunk);
+    } else {
+      conflicts.push({ baseStart: i, base: baseChunk, ours: oursChunk, theirs: theirsChunk });
+      merged.push(...theirsChunk);
+    }
+
+    i = next;
+    o = oEnd;
+    t = tEnd;
+  }
+
+  return { content: merged.join('\n'), conflicts };
+}
+
+/**
+ * Render conflicts as diff3-style hunks for review
+ */
+export function formatConflicts(conflicts: MergeConflict[], labels: MergeLabels): string {
+  return conflicts
+    .map((conflict) =>
+      [
+        `@@ base line ${conflict.baseStart + 1} @@`,
+        `<<<<<<< ${labels.ours}`,
+        ...conflict.ours,
+        `||||||| ${labels.base}`,
+        ...conflict.base,
+        '=======',
+        ...conflict.theirs,
+        `>>>>>>> ${labels.theirs}`,
+      ].join('\n')
+    )
+    .join('\n\n');
+}
+
+/**
+ * For each base line, the index of the matching line in `other` (-1 if changed or removed)
+ */
+function matchLines(base: string[], other: string[]): Int32Array {
+  const matches = new Int32Array(base.length).fill(-1);
+  let b = 0;
+  let o = 0;
+
+  for (const change of diffArrays(base, other)) {
+    const count = change.value.length;
+    if (change.added) {
+      o += count;
+    } else if (change.removed) {
+      b += count;
+    } else {
+      for (let k = 0; k < count; k++) matches[b + k] = o + k;
+      b += count;
+      o += count;
+    }
+  }
+
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, idx) => line === b[idx]);
+}
@@ -12,6 +12,12 @@ import type { StreamAdapter } from './types.js';
 import { CsvFileAdapter } from './adapters/csv-file-adapter.js';
 import { TelegramBotAdapter } from './adapters/telegram-bot-adapter.js';
 import { ZulipBotAdapter } from './adapters/zulip-bot-adapter.js';
+import { DiscordAdapter } from './adapters/discord-adapter.js';
+import { SlackAdapter } from './adapters/slack-adapter.js';
+import { GitHubDiscussionsAdapter } from './adapters/github-discussions-adapter.js';
+import { MboxFileAdapter } from './adapters/mbox-file-adapter.js';
+import { DiscourseAdapter } from './adapters/discourse-adapter.js';
+import { JsonFileAdapter } from './adapters/json-file-adapter.js';
 import { InstanceConfigLoader } from '../config/instance-loader.js';
 import { getInstanceDb } from '../db/instance-db.js';
 import { createLogger } from '../utils/logger.js';
@@ -306,6 +312,54 @@ export class StreamManager {
         }
         break;
       }
+
+      case 'slack': {
+        const slackTokenKey = `${instanceUpper}_SLACK_BOT_TOKEN`;
+        if (process.env[slackTokenKey]) {
+          config.botToken = process.env[slackTokenKey];
+          logger.debug(`Using Slack bot token from ${slackTokenKey} (env)`);
+        } else if (process.env.SLACK_BOT_TOKEN && !config.botToken) {
+          config.botToken = process.env.SLACK_BOT_TOKEN;
+          logger.debug(`Using Slack bot token from SLACK_BOT_TOKEN (env)`);
+        } else if (config.botToken) {
+          logger.debug(`Using Slack bot token from database config`);
+        } else {
+          logger.warn(`No Slack bot token found for instance ${instanceId}`);
+        }
+        break;
+      }
+
+      case 'github-discussions': {
+        const githubTokenKey = `${instanceUpper}_GITHUB_TOKEN`;
+        if (process.env[githubTokenKey]) {
+          config.token = process.env[githubTokenKey];
+          logger.debug(`Using GitHub token from ${githubTokenKey} (env)`);
+        } else if (process.env.GITHUB_TOKEN && !config.token) {
+          config.token = process.env.GITHUB_TOKEN;
+          logger.debug(`Using GitHub token from GITHUB_TOKEN (env)`);
+        } else if (config.token) {
+          logger.debug(`Using GitHub token from database config`);
+        } else {
+          logger.warn(`No GitHub token found for instance ${instanceId}`);
+        }
+        break;
+      }
+
+      case 'discourse': {
+        // API key is optional: public forums can be read anonymously
+        const discourseKeyKey = `${instanceUpper}_DISCOURSE_API_KEY`;
+        if (process.env[discourseKeyKey]) {
+          config.apiKey = process.env[discourseKeyKey];
+          logger.debug(`Using Discourse API key from ${discourseKeyKey} (env)`);
+        } else if (process.env.DISCOURSE_API_KEY && !config.apiKey) {
+          config.apiKey = process.env.DISCOURSE_API_KEY;
+          logger.debug(`Using Discourse API key from DISCOURSE_API_KEY (env)`);
+        }
+        if (process.env.DISCOURSE_API_USERNAME && !config.apiUsername) {
+          config.apiUsername = process.env.DISCOURSE_API_USERNAME;
+        }
+        break;
+      }
     }
 
     return config;
@@ -331,12 +385,25 @@ export class StreamManager {
       case 'zulipchat':
         return new ZulipBotAdapter(streamId, instanceDb);
 
-      // Add more adapter types here as they're implemented
-      // case 'discord':
-      //   return new DiscordAdapter(streamId, instanceDb);
-      // case 'slack':
-      //   return new SlackAdapter(streamId, instanceDb);
+      case 'discord':
+        return new DiscordAdapter(streamId, instanceDb);
+
+      case 'slack':
+        return new SlackAdapter(streamId, instanceDb);
 
+      case 'github-discussions':
+        return new GitHubDiscussionsAdapter(streamId, instanceDb);
+
+      case 'mbox':
+        return new MboxFileAdapter(streamId, instanceDb);
+
+      case 'discourse':
+        return new DiscourseAdapter(streamId, instanceDb);
+
+      case 'json-file':
+        return new JsonFileAdapter(streamId, instanceDb);
+
+      // Add more adapter types here as they're implemented
       default:
         return null;
     }
@@ -229,6 +229,7 @@ API endpoints may be rate-limited in production. Check response headers for rate
           },
           sessionId: {
             type: 'string',
+            description: 'Session returned by a previous answer; omit to start a new conversation',
           },
         },
         required: ['question'],
@@ -244,14 +245,23 @@ API endpoints may be rate-limited in production. Check response headers for rate
             items: {
               type: 'object',
               properties: {
+                id: {
+                  type: 'integer',
+                  description: 'Citation number, cited as [id] in the answer',
+                },
                 title: {
                   type: 'string',
                 },
+                section: {
+                  type: 'string',
+                  description: 'Heading path of the cited section, e.g. "Setup > Linux"',
+                },
                 filePath: {
                   type: 'string',
                 },
                 url: {
                   type: 'string',
+                  description: "Page link, anchored at the section's heading",
                 },
                 relevance: {
                   type: 'number',
@@ -262,6 +272,30 @@ API endpoints may be rate-limited in production. Check response headers for rate
           usedRAG: {
             type: 'boolean',
           },
+          sessionId: {
+            type: 'string',
+            description: 'Chat session to send with follow-up questions',
+          },
+          answerId: {
+            type: 'integer',
+            description: 'Answer to rate with /widget/feedback',
+          },
+          confidence: {
+            type: 'number',
+            description: 'Similarity of the best matching documentation section',
+          },
+          refused: {
+            type: 'boolean',
+            description:
+              'Declined to answer: no documentation match, or (strict mode) below the confidence threshold',
+          },
+          unsupportedClaims: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Claims the post-check found no support for (absent if not checked)',
+          },
         },
       },
       CacheStats: {
@@ -282,6 +316,83 @@ API endpoints may be rate-limited in production. Check response headers for rate
           },
         },
       },
+      DocSourceSyncState: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: '"default" for the primary repository' },
+          pathPrefix: { type: 'string', description: 'Page path prefix, empty for the primary' },
+          gitUrl: { type: 'string' },
+          branch: { type: 'string' },
+          status: { type: 'string', enum: ['idle', 'syncing', 'success', 'error'] },
+          lastSyncAt: { type: 'string', format: 'date-time', nullable: true },
+          lastCommitHash: { type: 'string', nullable: true },
+          errorMessage: { type: 'string', nullable: true },
+        },
+      },
+      DocSyncJob: {
+        type: 'object',
+        properties: {
+          jobId: { type: 'string' },
+          status: {
+            type: 'string',
+            enum: ['running', 'completed', 'failed', 'cancelled', 'interrupted'],
+          },
+          force: { type: 'boolean' },
+          commits: {
+            type: 'object',
+            nullable: true,
+            description: 'Diff synced per documentation source id',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                fromHash: { type: 'string', nullable: true },
+                toHash: { type: 'string' },
+              },
+            },
+          },
+          totalFiles: { type: 'integer' },
+          processedFiles: { type: 'integer' },
+          currentFile: { type: 'string', nullable: true },
+          summary: {
+            type: 'object',
+            nullable: true,
+            properties: {
+              added: { type: 'integer' },
+              modified: { type: 'integer' },
+              deleted: { type: 'integer' },
+              renamed: { type: 'integer' },
+              failed: { type: 'integer' },
+              filesProcessed: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          failures: {
+            type: 'array',
+            nullable: true,
+            items: {
+              type: 'object',
+              properties: {
+                path: { type: 'string' },
+                error: { type: 'string' },
+              },
+            },
+          },
+          result: {
+            type: 'object',
+            nullable: true,
+            description: 'Set when the job completed',
+            properties: {
+              hadUpdates: { type: 'boolean' },
+              currentHash: { type: 'string' },
+              previousHash: { type: 'string', nullable: true },
+              totalDocuments: { type: 'integer' },
+              duration: { type: 'integer', description: 'Duration in milliseconds' },
+            },
+          },
+          errorMessage: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+          completedAt: { type: 'string', format: 'date-time', nullable: true },
+        },
+      },
     },
   },
 };
@@ -84,14 +84,22 @@
  *                   type: integer
  *                 documentsWithEmbeddings:
  *                   type: integer
+ *                 sources:
+ *                   type: array
+ *                   description: Sync state per documentation repository, when additional sources are configured
+ *                   items:
+ *                     $ref: '#/components/schemas/DocSourceSyncState'
  */
 
 /**
  * @swagger
  * /docs/sync:
  *   post:
- *     summary: Trigger documentation sync
- *     description: Triggers a synchronization of documentation from the Git repository
+ *     summary: Start documentation sync
+ *     description: |
+ *       Starts a background sync job of the Git documentation repository and returns it
+ *       immediately. If the latest job was interrupted (e.g. by a restart), it is resumed
+ *       from its last handled file instead. Poll /docs/sync/jobs/{jobId} for progress.
  *     tags: [Documentation]
  *     security:
  *       - bearerAuth: []
@@ -104,46 +112,116 @@
  *               force:
  *                 type: boolean
  *                 default: false
- *                 description: Force sync even if no changes detected
+ *                 description: Force sync even if no changes detected (starts a new job)
  *     responses:
- *       200:
- *         description: Sync completed
+ *       202:
+ *         description: Sync job started or resumed
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 hadUpdates:
- *                   type: boolean
- *                 currentHash:
- *                   type: string
- *                 previousHash:
- *                   type: string
- *                   nullable: true
- *                 summary:
- *                   type: object
+ *               allOf:
+ *                 - $ref: '#/components/schemas/DocSyncJob'
+ *                 - type: object
  *                   properties:
- *                     added:
- *                       type: integer
- *                     modified:
- *                       type: integer
- *                     deleted:
- *                       type: integer
- *                     filesProcessed:
- *                       type: array
- *                       items:
- *                         type: string
- *                 totalDocuments:
- *                   type: integer
- *                 duration:
- *                   type: integer
- *                   description: Duration in milliseconds
+ *                     resumed:
+ *                       type: boolean
  *       401:
  *         description: Unauthorized
+ *       409:
+ *         description: A sync job is already running (returned as `job`)
  *       500:
- *         description: Sync failed
+ *         description: Sync could not be started
+ */
+
+/**
+ * @swagger
+ * /docs/sync/jobs:
+ *   get:
+ *     summary: List recent sync jobs
+ *     tags: [Documentation]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The 20 most recent jobs, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 jobs:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DocSyncJob'
+ */
+
+/**
+ * @swagger
+ * /docs/sync/jobs/{jobId}:
+ *   get:
+ *     summary: Get sync job progress
+ *     tags: [Documentation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sync job
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DocSyncJob'
+ *       404:
+ *         description: Sync job not found
+ */
+
+/**
+ * @swagger
+ * /docs/sync/jobs/{jobId}/cancel:
+ *   post:
+ *     summary: Cancel a running sync job
+ *     description: The job stops before its next file; files already handled stay embedded.
+ *     tags: [Documentation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Cancellation requested
+ *       409:
+ *         description: Sync job is not running
+ */
+
+/**
+ * @swagger
+ * /docs/sync/jobs/{jobId}/resume:
+ *   post:
+ *     summary: Resume a sync job
+ *     description: Resumes a cancelled, failed or interrupted job from its last handled file.
+ *     tags: [Documentation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Sync job resumed
+ *       409:
+ *         description: Job is completed, unknown, or another job is running
  */
 
 /**
@@ -184,6 +262,15 @@
  *                   type: integer
  *                 documentsWithEmbeddings:
  *                   type: integer
+ *                 activeJobId:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Running sync job, if any
+ *                 sources:
+ *                   type: array
+ *                   description: Sync state per documentation repository, primary repository first
+ *                   items:
+ *                     $ref: '#/components/schemas/DocSourceSyncState'
  */
 
 /**
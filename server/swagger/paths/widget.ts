@@ -3,7 +3,11 @@
  * /widget/ask:
  *   post:
  *     summary: Ask a documentation question
- *     description: Submit a question to the AI-powered documentation assistant
+ *     description: |
+ *       Submit a question to the AI-powered documentation assistant. Answers cite the retrieved
+ *       documentation sections as [n], matching the `id` of the sources. The assistant refuses
+ *       (`refused: true`) when no documentation section matches and, in strict mode, when the
+ *       best match is below the confidence threshold.
  *     tags: [Widget]
  *     requestBody:
  *       required: true
@@ -28,6 +32,83 @@
  *         description: AI service error
  */
 
+/**
+ * @swagger
+ * /widget/ask/stream:
+ *   post:
+ *     summary: Ask a documentation question with a streamed answer
+ *     description: |
+ *       Same as /widget/ask, but the answer is streamed as server-sent events:
+ *       `token` events (`{ text }`) as the answer is generated, then a final `sources` event
+ *       (`{ sources, usedRAG, sessionId, answerId, confidence, refused, unsupportedClaims }`), or an `error` event if generation fails.
+ *       Closing the connection cancels generation.
+ *     tags: [Widget]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WidgetAskRequest'
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: AI service not configured
+ */
+
+/**
+ * @swagger
+ * /widget/feedback:
+ *   post:
+ *     summary: Rate a widget answer
+ *     description: |
+ *       Thumbs up or down on an answer of the session, with an optional comment. Rating again
+ *       replaces the earlier rating. Downvoted answers are ingested into the `widget-feedback`
+ *       stream so the pipeline can propose documentation for the gap; an upvote withdraws the
+ *       answer's report while it is still pending.
+ *     tags: [Widget]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [sessionId, answerId, rating]
+ *             properties:
+ *               sessionId:
+ *                 type: string
+ *                 format: uuid
+ *               answerId:
+ *                 type: integer
+ *               rating:
+ *                 type: string
+ *                 enum: [up, down]
+ *               comment:
+ *                 type: string
+ *                 maxLength: 2000
+ *     responses:
+ *       200:
+ *         description: Feedback stored
+ *       400:
+ *         description: Invalid request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Answer not found in the session
+ */
+
 /**
  * @swagger
  * /config:
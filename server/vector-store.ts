@@ -5,6 +5,9 @@
 
  * Date: 2025-10-29
  * Updated: 2025-11-14 - Multi-instance support
+ * Updated: 2026-10-19 - Section-level chunk embeddings
+ * Updated: 2026-10-19 - Hybrid lexical + vector search with reciprocal-rank fusion
+ * Updated: 2026-10-19 - Embedding dimension checks for re-embedding
  * Reference: /docs/specs/rag-documentation-retrieval.md
  */
 
@@ -19,6 +22,15 @@ export interface DocumentPage {
   content: string;
   gitHash: string;
   gitUrl: string;
+  embedding: number[]; // Whole-page embedding; empty when the page is stored as chunks
+  chunks?: DocumentChunk[];
+}
+
+export interface DocumentChunk {
+  headingPath: string[];
+  content: string;
+  startLine: number; // 1-based, inclusive
+  endLine: number; // 1-based, inclusive
   embedding: number[];
 }
 
@@ -26,17 +38,104 @@ export interface SearchResult {
   pageId: number;
   filePath: string;
   title: string;
-  content: string;
+  content: string; // Chunk content for chunk hits, page content otherwise
   similarity: number;
+  // Set for chunk hits (pages synced before chunking match as a whole)
+  chunkId?: number;
+  headingPath?: string; // "Setup > Linux"
+  startLine?: number;
+  endLine?: number;
+  // Set by searchHybrid (1-based ranks in each retriever, absent when not retrieved by it)
+  score?: number; // Reciprocal-rank fusion score
+  vectorRank?: number;
+  lexicalRank?: number;
+}
+
+export interface HybridSearchOptions {
+  topK?: number; // Default: 3
+  keywords?: string[]; // Exact terms/phrases (error strings, flags, config keys)
+  candidates?: number; // Hits taken from each retriever before fusion. Default: topK * 4
+}
+
+export interface PageSearchResult {
+  pageId: number;
+  filePath: string;
+  title: string;
+  similarity: number; // Best chunk similarity
+  chunks: SearchResult[]; // Hits in this page, best first
 }
 
 export interface VectorStore {
   upsertDocument(doc: DocumentPage): Promise<void>;
   deleteDocument(filePath: string): Promise<void>;
   searchSimilar(queryEmbedding: number[], topK: number): Promise<SearchResult[]>;
+  searchHybrid(
+    queryEmbedding: number[],
+    queryText: string,
+    options?: HybridSearchOptions
+  ): Promise<SearchResult[]>;
   getDocumentByPath(filePath: string): Promise<DocumentPage | null>;
 }
 
+/** Damping constant for reciprocal-rank fusion (Cormack et al.) */
+const RRF_K = 60;
+
+/**
+ * Merge ranked result lists with reciprocal-rank fusion: score = sum of 1 / (RRF_K + rank)
+ * Hits are identified by chunk (or by page for unchunked pages).
+ */
+export function fuseRankings(
+  vectorHits: SearchResult[],
+  lexicalHits: SearchResult[]
+): SearchResult[] {
+  const fused = new Map<string, SearchResult>();
+  const key = (hit: SearchResult) =>
+    hit.chunkId !== undefined ? `chunk:${hit.chunkId}` : `page:${hit.pageId}`;
+
+  const add = (hits: SearchResult[], rankField: 'vectorRank' | 'lexicalRank') => {
+    hits.forEach((hit, idx) => {
+      const existing = fused.get(key(hit)) ?? { ...hit, score: 0 };
+      existing[rankField] = idx + 1;
+      existing.score = (existing.score ?? 0) + 1 / (RRF_K + idx + 1);
+      fused.set(key(hit), existing);
+    });
+  };
+  add(vectorHits, 'vectorRank');
+  add(lexicalHits, 'lexicalRank');
+
+  return Array.from(fused.values()).sort(
+    (a, b) => (b.score ?? 0) - (a.score ?? 0) || b.similarity - a.similarity
+  );
+}
+
+/**
+ * Group chunk-level search results by page, ordered by each page's best hit
+ */
+export function groupResultsByPage(results: SearchResult[]): PageSearchResult[] {
+  const pages = new Map<number, PageSearchResult>();
+
+  for (const result of results) {
+    let page = pages.get(result.pageId);
+    if (!page) {
+      page = {
+        pageId: result.pageId,
+        filePath: result.filePath,
+        title: result.title,
+        similarity: result.similarity,
+        chunks: [],
+      };
+      pages.set(result.pageId, page);
+    }
+    page.chunks.push(result);
+    page.similarity = Math.max(page.similarity, result.similarity);
+  }
+
+  for (const page of pages.values()) {
+    page.chunks.sort((a, b) => b.similarity - a.similarity);
+  }
+  return Array.from(pages.values()).sort((a, b) => b.similarity - a.similarity);
+}
+
 export class PgVectorStore implements VectorStore {
   private pool: PoolType;
   private db: PrismaClient;
@@ -99,53 +198,72 @@ export class PgVectorStore implements VectorStore {
   }
 
   /**
-   * Upsert a document with its embedding
+   * Upsert a document with its embedding, replacing its chunks when given
    */
   async upsertDocument(doc: DocumentPage): Promise<void> {
+    const client = await this.pool.connect();
     try {
       console.log(`[${this.instanceId}] Upserting document: ${doc.filePath}`);
+      await client.query('BEGIN');
+
+      // Chunked pages are searched through their chunks only
+      const pageEmbedding = doc.embedding.length > 0 ? this.vectorToString(doc.embedding) : null;
 
       // First, check if a document with this filePath already exists
       const existing = await this.db.documentPage.findFirst({
         where: { filePath: doc.filePath },
       });
 
+      let pageId: number;
       if (existing) {
         // Update existing document
-        await this.pool.query(
+        const result = await client.query(
           `UPDATE document_pages
            SET title = $1, content = $2, commit_hash = $3, git_url = $4,
                embedding = $5::vector, updated_at = NOW()
-           WHERE file_path = $6`,
-          [
-            doc.title,
-            doc.content,
-            doc.gitHash,
-            doc.gitUrl,
-            this.vectorToString(doc.embedding),
-            doc.filePath,
-          ]
+           WHERE file_path = $6
+           RETURNING id`,
+          [doc.title, doc.content, doc.gitHash, doc.gitUrl, pageEmbedding, doc.filePath]
         );
+        pageId = result.rows[0].id;
         console.log(`[${this.instanceId}] Updated document: ${doc.filePath}`);
       } else {
         // Insert new document
-        await this.pool.query(
+        const result = await client.query(
           `INSERT INTO document_pages (file_path, title, content, commit_hash, git_url, embedding, created_at, updated_at)
-           VALUES ($1, $2, $3, $4, $5, $6::vector, NOW(), NOW())`,
+           VALUES ($1, $2, $3, $4, $5, $6::vector, NOW(), NOW())
+           RETURNING id`,
+          [doc.filePath, doc.title, doc.content, doc.gitHash, doc.gitUrl, pageEmbedding]
+        );
+        pageId = result.rows[0].id;
+        console.log(`[${this.instanceId}] Inserted new document: ${doc.filePath}`);
+      }
+
+      // Replace chunks of the previous version
+      await client.query('DELETE FROM document_chunks WHERE page_id = $1', [pageId]);
+      for (const [index, chunk] of (doc.chunks || []).entries()) {
+        await client.query(
+          `INSERT INTO document_chunks (page_id, chunk_index, heading_path, content, start_line, end_line, embedding, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7::vector, NOW())`,
           [
-            doc.filePath,
-            doc.title,
-            doc.content,
-            doc.gitHash,
-            doc.gitUrl,
-            this.vectorToString(doc.embedding),
+            pageId,
+            index,
+            chunk.headingPath.join(' > '),
+            chunk.content,
+            chunk.startLine,
+            chunk.endLine,
+            this.vectorToString(chunk.embedding),
           ]
         );
-        console.log(`[${this.instanceId}] Inserted new document: ${doc.filePath}`);
       }
+
+      await client.query('COMMIT');
     } catch (error) {
+      await client.query('ROLLBACK');
       console.error(`[${this.instanceId}] Error upserting document ${doc.filePath}:`, error);
       throw error;
+    } finally {
+      client.release();
     }
   }
 
@@ -168,11 +286,46 @@ export class PgVectorStore implements VectorStore {
   }
 
   /**
-   * Search for similar documents using cosine similarity
+   * Move a document and its chunk embeddings to a new path (git rename)
+   * A document already stored under the new path is replaced. When commitHash is given the
+   * moved version is marked as current, so unchanged content is not embedded again.
+   * Returns false if there was no document at the old path.
+   */
+  async renameDocument(oldPath: string, newPath: string, commitHash?: string): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM document_pages WHERE file_path = $1', [newPath]);
+      const result = await client.query(
+        `UPDATE document_pages
+         SET file_path = $2, commit_hash = COALESCE($3, commit_hash), updated_at = NOW()
+         WHERE file_path = $1`,
+        [oldPath, newPath, commitHash ?? null]
+      );
+      await client.query('COMMIT');
+
+      const moved = (result.rowCount ?? 0) > 0;
+      if (moved) {
+        console.log(`[${this.instanceId}] Renamed document: ${oldPath} -> ${newPath}`);
+      }
+      return moved;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(`[${this.instanceId}] Error renaming document ${oldPath}:`, error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Search for similar documentation chunks using cosine similarity
+   * Pages without chunks (synced before chunking) are matched by their page embedding.
+   * Use groupResultsByPage() to group hits back by page.
    */
   async searchSimilar(queryEmbedding: number[], topK: number = 3): Promise<SearchResult[]> {
     try {
-      console.log(`Searching for top ${topK} similar documents...`);
+      console.log(`Searching for top ${topK} similar documentation chunks...`);
 
       const vectorString = this.vectorToString(queryEmbedding);
 
@@ -180,28 +333,36 @@ export class PgVectorStore implements VectorStore {
       // Lower distance = higher similarity
       // We convert to similarity score: 1 - distance
       const result = await this.pool.query(
-        `SELECT
-          id as "pageId",
-          file_path as "filePath",
-          title,
-          content,
-          1 - (embedding <=> $1::vector) as similarity
-         FROM document_pages
-         WHERE embedding IS NOT NULL
-         ORDER BY embedding <=> $1::vector
+        `SELECT * FROM (
+           SELECT
+             c.id as "chunkId",
+             p.id as "pageId",
+             p.file_path as "filePath",
+             p.title,
+             c.content,
+             c.heading_path as "headingPath",
+             c.start_line as "startLine",
+             c.end_line as "endLine",
+             1 - (c.embedding <=> $1::vector) as similarity
+           FROM document_chunks c
+           JOIN document_pages p ON p.id = c.page_id
+           WHERE c.embedding IS NOT NULL
+           UNION ALL
+           SELECT
+             NULL, p.id, p.file_path, p.title, p.content, NULL, NULL, NULL,
+             1 - (p.embedding <=> $1::vector)
+           FROM document_pages p
+           WHERE p.embedding IS NOT NULL
+             AND NOT EXISTS (SELECT 1 FROM document_chunks c WHERE c.page_id = p.id)
+         ) hits
+         ORDER BY similarity DESC
          LIMIT $2`,
         [vectorString, topK]
       );
 
-      const searchResults: SearchResult[] = result.rows.map((row: any) => ({
-        pageId: row.pageId,
-        filePath: row.filePath,
-        title: row.title,
-        content: row.content,
-        similarity: parseFloat(row.similarity),
-      }));
+      const searchResults = result.rows.map((row: any) => this.rowToSearchResult(row));
 
-      console.log(`Found ${searchResults.length} similar documents`);
+      console.log(`Found ${searchResults.length} similar chunks`);
       return searchResults;
     } catch (error) {
       console.error('Error searching similar documents:', error);
@@ -209,6 +370,126 @@ export class PgVectorStore implements VectorStore {
     }
   }
 
+  /**
+   * Full-text search over chunks (and unchunked pages)
+   * Each term is matched as a phrase and terms are OR-ed, ranked by ts_rank_cd.
+   * Similarity to the query embedding is computed for each hit so thresholds still apply.
+   */
+  async searchLexical(
+    queryEmbedding: number[],
+    terms: string[],
+    limit: number
+  ): Promise<SearchResult[]> {
+    const cleanTerms = terms.map((t) => t.trim()).filter(Boolean);
+    if (cleanTerms.length === 0) {
+      return [];
+    }
+
+    try {
+      const result = await this.pool.query(
+        `WITH terms AS (
+           SELECT phraseto_tsquery('english', term) AS q FROM unnest($2::text[]) AS term
+         ),
+         query AS (
+           SELECT string_agg('(' || q::text || ')', ' | ')::tsquery AS q
+           FROM terms
+           WHERE numnode(q) > 0
+         )
+         SELECT * FROM (
+           SELECT
+             c.id as "chunkId",
+             p.id as "pageId",
+             p.file_path as "filePath",
+             p.title,
+             c.content,
+             c.heading_path as "headingPath",
+             c.start_line as "startLine",
+             c.end_line as "endLine",
+             COALESCE(1 - (c.embedding <=> $1::vector), 0) as similarity,
+             ts_rank_cd(c.search_vector, query.q) as rank
+           FROM document_chunks c
+           JOIN document_pages p ON p.id = c.page_id
+           CROSS JOIN query
+           WHERE c.search_vector @@ query.q
+           UNION ALL
+           SELECT
+             NULL, p.id, p.file_path, p.title, p.content, NULL, NULL, NULL,
+             COALESCE(1 - (p.embedding <=> $1::vector), 0),
+             ts_rank_cd(p.search_vector, query.q)
+           FROM document_pages p
+           CROSS JOIN query
+           WHERE p.search_vector @@ query.q
+             AND NOT EXISTS (SELECT 1 FROM document_chunks c WHERE c.page_id = p.id)
+         ) hits
+         ORDER BY rank DESC, similarity DESC
+         LIMIT $3`,
+        [this.vectorToString(queryEmbedding), cleanTerms, limit]
+      );
+
+      return result.rows.map((row: any) => this.rowToSearchResult(row));
+    } catch (error) {
+      console.error('Error searching documents by text:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hybrid search: vector similarity and full-text matches merged with reciprocal-rank fusion
+   * The full-text query uses the words of queryText plus the given keywords, so exact error
+   * strings, CLI flags and config keys are found even when their embedding is not close.
+   */
+  async searchHybrid(
+    queryEmbedding: number[],
+    queryText: string,
+    options: HybridSearchOptions = {}
+  ): Promise<SearchResult[]> {
+    const topK = options.topK ?? 3;
+    const candidates = options.candidates ?? topK * 4;
+    const terms = [...(options.keywords ?? []), ...queryText.split(/\s+/)];
+
+    const [vectorHits, lexicalHits] = await Promise.all([
+      this.searchSimilar(queryEmbedding, candidates),
+      this.searchLexical(queryEmbedding, terms, candidates),
+    ]);
+
+    const fused = fuseRankings(vectorHits, lexicalHits).slice(0, topK);
+    console.log(
+      `Hybrid search: ${vectorHits.length} vector + ${lexicalHits.length} text hits -> ${fused.length} results`
+    );
+    return fused;
+  }
+
+  private rowToSearchResult(row: any): SearchResult {
+    return {
+      pageId: row.pageId,
+      filePath: row.filePath,
+      title: row.title,
+      content: row.content,
+      similarity: parseFloat(row.similarity),
+      ...(row.chunkId !== null && {
+        chunkId: row.chunkId,
+        headingPath: row.headingPath,
+        startLine: row.startLine,
+        endLine: row.endLine,
+      }),
+    };
+  }
+
+  /**
+   * Whether a page version is stored as embedded chunks (for resume logic)
+   */
+  async hasChunks(filePath: string, commitHash: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `SELECT 1
+       FROM document_pages p
+       JOIN document_chunks c ON c.page_id = p.id
+       WHERE p.file_path = $1 AND p.commit_hash = $2
+       LIMIT 1`,
+      [filePath, commitHash]
+    );
+    return result.rows.length > 0;
+  }
+
   /**
    * Get a document by its file path
    */
@@ -287,6 +568,44 @@ export class PgVectorStore implements VectorStore {
     }
   }
 
+  /**
+   * Distinct dimensions of the stored page, chunk and message embeddings
+   */
+  async getEmbeddingDimensions(): Promise<number[]> {
+    const result = await this.pool.query(
+      `SELECT vector_dims(embedding) as dims FROM document_chunks WHERE embedding IS NOT NULL
+       UNION
+       SELECT vector_dims(embedding) FROM document_pages WHERE embedding IS NOT NULL
+       UNION
+       SELECT vector_dims(embedding) FROM unified_messages WHERE embedding IS NOT NULL`
+    );
+    return result.rows.map((row) => Number(row.dims)).sort((a, b) => a - b);
+  }
+
+  /**
+   * Pages with page or chunk embeddings of another dimension (all pages when omitted)
+   */
+  async getPagesToReembed(dimensions?: number): Promise<DocumentPage[]> {
+    const result = await this.pool.query(
+      `SELECT
+        file_path as "filePath",
+        title,
+        content,
+        commit_hash as "gitHash",
+        git_url as "gitUrl"
+       FROM document_pages p
+       WHERE $1::int IS NULL
+          OR vector_dims(p.embedding) <> $1
+          OR EXISTS (
+            SELECT 1 FROM document_chunks c
+            WHERE c.page_id = p.id AND vector_dims(c.embedding) <> $1
+          )
+       ORDER BY p.file_path`,
+      [dimensions ?? null]
+    );
+    return result.rows.map((row) => ({ ...row, embedding: [] }));
+  }
+
   /**
    * Get statistics about the vector store
    */
@@ -295,8 +614,11 @@ export class PgVectorStore implements VectorStore {
       const result = await this.pool.query(
         `SELECT
           COUNT(*) as total,
-          COUNT(embedding) as with_embeddings
-         FROM document_pages`
+          COUNT(*) FILTER (
+            WHERE p.embedding IS NOT NULL
+               OR EXISTS (SELECT 1 FROM document_chunks c WHERE c.page_id = p.id)
+          ) as with_embeddings
+         FROM document_pages p`
       );
 
       return {
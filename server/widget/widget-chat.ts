@@ -0,0 +1,61 @@
+/**
+ * Widget Chat
+ * Multi-turn helpers for the widget: rewriting follow-up questions into standalone
+ * queries for retrieval.
+
+ * Date: 2026-10-19
+ */
+
+import type { ConversationMessage, ILLMProvider } from '../llm/providers/types.js';
+import { PROMPT_TEMPLATES, fillTemplate } from '../stream/llm/prompt-templates.js';
+import { createLogger, getErrorMessage } from '../utils/logger.js';
+
+const logger = createLogger('WidgetChat');
+
+// Longer answers in the history are cut, the rewrite only needs what they were about
+const MAX_HISTORY_CHARS = 500;
+
+/**
+ * Rewrite a follow-up question into a standalone query, using the session history
+ * ("and on Windows?" -> "How do I install the node on Windows?").
+ * Questions without history are returned as is; so is the question if the rewrite fails.
+ */
+export async function rewriteFollowUpQuestion(
+  llm: ILLMProvider,
+  history: ConversationMessage[],
+  question: string,
+  projectName: string
+): Promise<string> {
+  if (history.length === 0) {
+    return question;
+  }
+
+  const formattedHistory = history
+    .map((message) => {
+      const content =
+        message.content.length > MAX_HISTORY_CHARS
+          ? `${message.content.substring(0, MAX_HISTORY_CHARS)}...`
+          : message.content;
+      return `${message.role === 'assistant' ? 'Assistant' : 'User'}: ${content}`;
+    })
+    .join('\n');
+
+  try {
+    const result = await llm.generateText(
+      fillTemplate(PROMPT_TEMPLATES.followUpRewrite.user, {
+        history: formattedHistory,
+        question,
+      }),
+      {
+        systemPrompt: fillTemplate(PROMPT_TEMPLATES.followUpRewrite.system, { projectName }),
+        temperature: 0,
+        maxTokens: 200,
+      }
+    );
+    const rewritten = result.text.trim().replace(/^["']|["']$/g, '');
+    return rewritten || question;
+  } catch (error) {
+    logger.warn(`Failed to rewrite follow-up question: ${getErrorMessage(error)}`);
+    return question;
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Widget Feedback
+ * Thumbs up/down with an optional comment on widget answers. Downvoted answers and questions
+ * the documentation could not answer are ingested as messages of the synthetic
+ * "widget-feedback" stream, so the pipeline can propose documentation for the gap.
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Upvotes withdraw pending gap reports
+ * Updated: 2026-10-19 - Upvotes keep unanswered reports; a changed reason is processed again
+ */
+
+import { Prisma, PrismaClient, type ProcessingStatus, type WidgetFeedback } from '@prisma/client';
+import type { WidgetSource } from './widget-sessions.js';
+
+export const WIDGET_FEEDBACK_STREAM_ID = 'widget-feedback';
+
+// Long answers are cut in the ingested message, the classifier needs the question
+const MAX_ANSWER_CHARS = 1000;
+
+export type WidgetFeedbackRating = 'up' | 'down';
+
+export interface WidgetFeedbackConfig {
+  unansweredSimilarity: number; // Best documentation match below this: the question is a gap
+}
+
+export const defaultWidgetFeedbackConfig: WidgetFeedbackConfig = {
+  unansweredSimilarity: parseFloat(process.env.WIDGET_UNANSWERED_SIMILARITY || '0.5'),
+};
+
+export class WidgetFeedbackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WidgetFeedbackError';
+  }
+}
+
+/**
+ * A widget question the documentation did not answer well
+ */
+export interface DocumentationGap {
+  sessionId: string;
+  answerId: number;
+  question: string;
+  answer: string;
+  sources: WidgetSource[];
+  reason: 'unanswered' | 'downvoted';
+  comment?: string | null;
+}
+
+// Metadata of a gap message; `unanswered` survives a downvote of an unanswered question
+interface GapMetadata {
+  source: 'widget';
+  reason: DocumentationGap['reason'];
+  sessionId: string;
+  unanswered: boolean;
+}
+
+/**
+ * Whether the retrieved documentation is too weak to answer the question
+ */
+export function isUnanswered(
+  retrievedDocs: Array<{ similarity: number }>,
+  config: WidgetFeedbackConfig = defaultWidgetFeedbackConfig
+): boolean {
+  const best = Math.max(...retrievedDocs.map((doc) => doc.similarity), 0);
+  return best < config.unansweredSimilarity;
+}
+
+export class WidgetFeedbackService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Rate an answer of the session. Rating again replaces the earlier rating and comment;
+   * a downvote reports the question as a documentation gap, an upvote withdraws the
+   * answer's gap report if the pipeline has not processed it yet
+   */
+  async submit(input: {
+    sessionId: string;
+    answerId: number;
+    rating: WidgetFeedbackRating;
+    comment?: string;
+  }): Promise<WidgetFeedback> {
+    const answer = await this.prisma.widgetMessage.findFirst({
+      where: { id: input.answerId, sessionId: input.sessionId, role: 'assistant' },
+    });
+    if (!answer) {
+      throw new WidgetFeedbackError(`Answer ${input.answerId} not found in this session`);
+    }
+    const question = await this.prisma.widgetMessage.findFirst({
+      where: { sessionId: input.sessionId, role: 'user', id: { lt: answer.id } },
+      orderBy: { id: 'desc' },
+    });
+
+    const sources = (answer.sources ?? []) as unknown as WidgetSource[];
+    const comment = input.comment?.trim() || null;
+    const feedback = await this.prisma.widgetFeedback.upsert({
+      where: { answerId: answer.id },
+      update: { rating: input.rating, comment },
+      create: {
+        sessionId: input.sessionId,
+        answerId: answer.id,
+        question: question?.content ?? '',
+        answer: answer.content,
+        sources: sources as unknown as Prisma.InputJsonValue,
+        rating: input.rating,
+        comment,
+      },
+    });
+
+    if (input.rating === 'down') {
+      await this.reportGap({
+        sessionId: input.sessionId,
+        answerId: answer.id,
+        question: feedback.question,
+        answer: answer.content,
+        sources,
+        reason: 'downvoted',
+        comment,
+      });
+    } else {
+      await this.withdrawGap({
+        sessionId: input.sessionId,
+        answerId: answer.id,
+        question: feedback.question,
+        answer: answer.content,
+        sources,
+      });
+    }
+    return feedback;
+  }
+
+  /**
+   * Ingest a gap as a pending message of the widget-feedback stream. One message per answer:
+   * a later downvote of an unanswered question updates the same message, and is processed
+   * again if the pipeline already handled the unanswered report
+   */
+  async reportGap(gap: DocumentationGap): Promise<void> {
+    await this.prisma.streamConfig.upsert({
+      where: { streamId: WIDGET_FEEDBACK_STREAM_ID },
+      update: {},
+      create: {
+        streamId: WIDGET_FEEDBACK_STREAM_ID,
+        adapterType: 'widget-feedback',
+        config: { description: 'Widget questions the documentation did not answer' },
+        enabled: true,
+      },
+    });
+
+    const previous = await this.findGap(gap.answerId);
+    const reasonChanged = previous !== null && previous.metadata.reason !== gap.reason;
+    const content = formatGap(gap);
+    const rawData = { ...gap } as unknown as Prisma.InputJsonValue;
+    const gapMetadata: GapMetadata = {
+      source: 'widget',
+      reason: gap.reason,
+      sessionId: gap.sessionId,
+      unanswered: gap.reason === 'unanswered' || previous?.metadata.unanswered === true,
+    };
+    const metadata = { ...gapMetadata } as unknown as Prisma.InputJsonValue;
+
+    await this.prisma.unifiedMessage.upsert({
+      where: {
+        streamId_messageId: {
+          streamId: WIDGET_FEEDBACK_STREAM_ID,
+          messageId: `answer-${gap.answerId}`,
+        },
+      },
+      update: {
+        content,
+        rawData,
+        metadata,
+        ...(reasonChanged && { processingStatus: 'PENDING' }),
+      },
+      create: {
+        streamId: WIDGET_FEEDBACK_STREAM_ID,
+        messageId: `answer-${gap.answerId}`,
+        timestamp: new Date(),
+        author: 'widget-user',
+        channel: 'widget',
+        content,
+        rawData,
+        metadata,
+        processingStatus: 'PENDING',
+      },
+    });
+  }
+
+  /**
+   * Take back the answer's downvote report while it is still pending: a question the
+   * documentation could not answer goes back to its unanswered report, otherwise the message
+   * is removed. Processed reports stay with what the pipeline made of them
+   */
+  private async withdrawGap(gap: Omit<DocumentationGap, 'reason' | 'comment'>): Promise<void> {
+    const reported = await this.findGap(gap.answerId);
+    if (
+      !reported ||
+      reported.metadata.reason !== 'downvoted' ||
+      reported.processingStatus !== 'PENDING'
+    ) {
+      return;
+    }
+
+    if (reported.metadata.unanswered) {
+      await this.reportGap({ ...gap, reason: 'unanswered' });
+      return;
+    }
+    await this.prisma.unifiedMessage.deleteMany({
+      where: {
+        streamId: WIDGET_FEEDBACK_STREAM_ID,
+        messageId: `answer-${gap.answerId}`,
+        processingStatus: 'PENDING',
+      },
+    });
+  }
+
+  private async findGap(
+    answerId: number
+  ): Promise<{ metadata: GapMetadata; processingStatus: ProcessingStatus } | null> {
+    const message = await this.prisma.unifiedMessage.findUnique({
+      where: {
+        streamId_messageId: {
+          streamId: WIDGET_FEEDBACK_STREAM_ID,
+          messageId: `answer-${answerId}`,
+        },
+      },
+      select: { metadata: true, processingStatus: true },
+    });
+    return message
+      ? {
+          metadata: message.metadata as unknown as GapMetadata,
+          processingStatus: message.processingStatus,
+        }
+      : null;
+  }
+}
+
+/**
+ * Message text for the classifier: the question, what the widget answered and why it fell short
+ */
+function formatGap(gap: DocumentationGap): string {
+  const answer =
+    gap.answer.length > MAX_ANSWER_CHARS
+      ? `${gap.answer.substring(0, MAX_ANSWER_CHARS)}...`
+      : gap.answer;
+  const lines = [
+    gap.reason === 'downvoted'
+      ? 'A documentation widget user downvoted the answer to this question:'
+      : 'The documentation had no good match for this documentation widget question:',
+    gap.question,
+    '',
+    `Answer given: ${answer}`,
+  ];
+  if (gap.sources.length > 0) {
+    lines.push(`Pages used: ${gap.sources.map((source) => source.filePath).join(', ')}`);
+  }
+  if (gap.comment) {
+    lines.push(`User comment: ${gap.comment}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,163 @@
+/**
+ * Widget Grounding
+ * Grounded widget answers: retrieved documentation sections numbered for inline [n] citations
+ * that link to the section's heading, a strict mode that refuses to answer when retrieval is
+ * not confident enough, and a post-check for claims the sections do not support.
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - No answers without documentation sections, strict mode or not
+ */
+
+import { z } from 'zod';
+import type { ILLMProvider } from '../llm/providers/types.js';
+import type { SearchResult } from '../vector-store.js';
+import { PROMPT_TEMPLATES, fillTemplate } from '../stream/llm/prompt-templates.js';
+import { createLogger, getErrorMessage } from '../utils/logger.js';
+
+const logger = createLogger('WidgetGrounding');
+
+export interface WidgetGroundingConfig {
+  strictMode: boolean; // Refuse instead of answering when retrieval confidence is too low
+  minConfidence: number; // Best section similarity needed to answer in strict mode
+  checkClaims: boolean; // Post-check answers for claims the sections do not support
+}
+
+export const defaultWidgetGroundingConfig: WidgetGroundingConfig = {
+  strictMode: process.env.WIDGET_STRICT_MODE === 'true',
+  minConfidence: parseFloat(process.env.WIDGET_MIN_CONFIDENCE || '0.5'),
+  checkClaims: process.env.WIDGET_CLAIM_CHECK !== 'false',
+};
+
+/**
+ * A retrieved documentation section, numbered as it is cited in the answer
+ */
+export interface GroundingSection {
+  id: number; // [1] in the prompt and the answer
+  title: string; // Page title
+  filePath: string;
+  headingPath?: string; // "Setup > Linux"; absent for pages matched as a whole
+  content: string;
+  similarity: number;
+}
+
+const groundingCheckSchema = z.object({
+  unsupportedClaims: z.array(z.string()),
+});
+
+/**
+ * Number the search hits by section, in rank order. Chunks of the same section
+ * share one citation number.
+ */
+export function buildGroundingSections(docs: SearchResult[]): GroundingSection[] {
+  const sections = new Map<string, GroundingSection>();
+
+  for (const doc of docs) {
+    const key = `${doc.filePath}#${doc.headingPath ?? ''}`;
+    const section = sections.get(key);
+    if (section) {
+      section.content += `\n\n${doc.content}`;
+      section.similarity = Math.max(section.similarity, doc.similarity);
+      continue;
+    }
+    sections.set(key, {
+      id: sections.size + 1,
+      title: doc.title,
+      filePath: doc.filePath,
+      ...(doc.headingPath && { headingPath: doc.headingPath }),
+      content: doc.content,
+      similarity: doc.similarity,
+    });
+  }
+  return Array.from(sections.values());
+}
+
+/**
+ * Sections as the numbered documentation context of the answer prompt
+ */
+export function formatGroundingContext(sections: GroundingSection[]): string {
+  return sections
+    .map(
+      (section) =>
+        `[${section.id}] ${section.title}${section.headingPath ? ` > ${section.headingPath}` : ''} (${section.filePath})\n${section.content}`
+    )
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Retrieval confidence: the similarity of the best matching section (0 without matches)
+ */
+export function retrievalConfidence(sections: GroundingSection[]): number {
+  return Math.max(...sections.map((section) => section.similarity), 0);
+}
+
+/**
+ * Whether to decline instead of answering: always without any section to cite, and in
+ * strict mode below the confidence threshold
+ */
+export function shouldRefuse(sections: GroundingSection[], config: WidgetGroundingConfig): boolean {
+  if (sections.length === 0) {
+    return true;
+  }
+  return config.strictMode && retrievalConfidence(sections) < config.minConfidence;
+}
+
+export function refusalMessage(projectName: string): string {
+  return `I couldn't find this in the ${projectName} documentation, so I won't guess. Try rephrasing your question or asking about a specific feature.`;
+}
+
+/**
+ * GitHub-style anchor of a heading ("Install on Linux (x64)" -> "install-on-linux-x64")
+ */
+export function headingAnchor(heading: string): string {
+  return heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Anchor of the section's own heading, the last one of its heading path
+ */
+export function sectionAnchor(section: GroundingSection): string | undefined {
+  if (!section.headingPath) {
+    return undefined;
+  }
+  const headings = section.headingPath.split(' > ');
+  return headingAnchor(headings[headings.length - 1]) || undefined;
+}
+
+/**
+ * Ask the LLM which claims of the answer the sections do not support.
+ * Returns undefined when there is nothing to check against or the check fails;
+ * the answer is still delivered either way.
+ */
+export async function findUnsupportedClaims(
+  llm: ILLMProvider,
+  answer: string,
+  sections: GroundingSection[],
+  projectName: string
+): Promise<string[] | undefined> {
+  if (sections.length === 0 || !answer.trim()) {
+    return undefined;
+  }
+
+  try {
+    const result = await llm.generateStructured(
+      fillTemplate(PROMPT_TEMPLATES.groundingCheck.user, {
+        context: formatGroundingContext(sections),
+        answer,
+      }),
+      groundingCheckSchema,
+      {
+        systemPrompt: fillTemplate(PROMPT_TEMPLATES.groundingCheck.system, { projectName }),
+        temperature: 0,
+        maxTokens: 1024,
+      }
+    );
+    return result.unsupportedClaims.map((claim) => claim.trim()).filter(Boolean);
+  } catch (error) {
+    logger.warn(`Failed to check widget answer grounding: ${getErrorMessage(error)}`);
+    return undefined;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Widget Session Cleanup
+ * Periodically deletes expired widget chat sessions and their message history, in the
+ * default database and in every instance's database.
+
+ * Date: 2026-10-19
+ */
+
+import cron, { ScheduledTask } from 'node-cron';
+import { db } from '../db.js';
+import { InstanceConfigLoader } from '../config/instance-loader.js';
+import { getInstanceDb } from '../db/instance-db.js';
+import { WidgetSessionService } from './widget-sessions.js';
+import { createLogger, getErrorMessage } from '../utils/logger.js';
+
+const logger = createLogger('WidgetSessionCleanup');
+
+export interface WidgetSessionCleanupConfig {
+  enabled: boolean;
+  cronSchedule: string; // Default: hourly
+}
+
+const defaultConfig: WidgetSessionCleanupConfig = {
+  enabled: process.env.WIDGET_SESSION_CLEANUP_ENABLED !== 'false',
+  cronSchedule: process.env.WIDGET_SESSION_CLEANUP_SCHEDULE || '0 * * * *',
+};
+
+let scheduledTask: ScheduledTask | null = null;
+
+/**
+ * Delete expired widget sessions of the default widget and all instances
+ */
+export async function cleanupWidgetSessions(now: Date = new Date()): Promise<number> {
+  let deleted = await new WidgetSessionService(db).deleteExpired(now);
+
+  const instances = await InstanceConfigLoader.getAvailableInstancesAsync();
+  for (const instanceId of instances) {
+    try {
+      if (!InstanceConfigLoader.has(instanceId)) {
+        await InstanceConfigLoader.loadAsync(instanceId);
+      }
+      deleted += await new WidgetSessionService(getInstanceDb(instanceId)).deleteExpired(now);
+    } catch (error) {
+      logger.error(`[${instanceId}] Widget session cleanup failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  if (deleted > 0) {
+    logger.info(`Deleted ${deleted} expired widget sessions`);
+  }
+  return deleted;
+}
+
+export function startWidgetSessionCleanup(config: WidgetSessionCleanupConfig = defaultConfig) {
+  if (!config.enabled) {
+    logger.info('Widget session cleanup is disabled');
+    return;
+  }
+
+  if (!cron.validate(config.cronSchedule)) {
+    logger.error(`Invalid widget session cleanup schedule: ${config.cronSchedule}`);
+    return;
+  }
+
+  scheduledTask = cron.schedule(config.cronSchedule, () => {
+    cleanupWidgetSessions().catch((error) => {
+      logger.error('Widget session cleanup failed:', error);
+    });
+  });
+
+  logger.info(`Widget session cleanup started: ${config.cronSchedule}`);
+}
+
+export function stopWidgetSessionCleanup() {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+    logger.info('Widget session cleanup stopped');
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Widget Sessions
+ * Server-side widget chat sessions: message history for follow-up questions,
+ * expiring after a period of inactivity.
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Store answer sources and return the answer id for feedback
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { ConversationMessage } from '../llm/providers/types.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface WidgetSessionConfig {
+  ttlHours: number; // Inactivity after which a session expires
+  historyMessages: number; // Most recent messages sent with a question
+}
+
+export const defaultWidgetSessionConfig: WidgetSessionConfig = {
+  ttlHours: parseInt(process.env.WIDGET_SESSION_TTL_HOURS || '24', 10),
+  historyMessages: parseInt(process.env.WIDGET_HISTORY_MESSAGES || '10', 10),
+};
+
+/**
+ * A documentation page an answer was based on
+ */
+export interface WidgetSource {
+  id: number; // Citation number: [1] in the answer
+  title: string;
+  section?: string; // Heading path of the cited section, e.g. "Setup > Linux"
+  filePath: string;
+  url: string; // Links to the section's heading when the page was matched by section
+  relevance: number;
+}
+
+/**
+ * An active session and its recent history, oldest first
+ */
+export interface WidgetSessionState {
+  sessionId: string;
+  history: ConversationMessage[];
+}
+
+export class WidgetSessionService {
+  private prisma: PrismaClient;
+  private config: WidgetSessionConfig;
+
+  constructor(prisma: PrismaClient, config: WidgetSessionConfig = defaultWidgetSessionConfig) {
+    this.prisma = prisma;
+    this.config = config;
+  }
+
+  /**
+   * Load an active session, or start a new one when the ID is missing, unknown or expired
+   */
+  async getOrCreate(sessionId?: string, now: Date = new Date()): Promise<WidgetSessionState> {
+    if (sessionId && UUID_PATTERN.test(sessionId)) {
+      const session = await this.prisma.widgetSession.findUnique({
+        where: { id: sessionId },
+        include: {
+          messages: { orderBy: { id: 'desc' }, take: this.config.historyMessages },
+        },
+      });
+      if (session && session.expiresAt > now) {
+        return {
+          sessionId: session.id,
+          history: session.messages.reverse().map((message) => ({
+            role: message.role as ConversationMessage['role'],
+            content: message.content,
+          })),
+        };
+      }
+    }
+
+    const session = await this.prisma.widgetSession.create({
+      data: { expiresAt: this.expiresAt(now) },
+    });
+    return { sessionId: session.id, history: [] };
+  }
+
+  /**
+   * Store a question and its answer, and keep the session alive.
+   * Returns the id of the stored answer, which feedback refers to
+   */
+  async appendTurn(
+    sessionId: string,
+    turn: { question: string; standaloneQuery?: string; answer: string; sources?: WidgetSource[] },
+    now: Date = new Date()
+  ): Promise<number> {
+    const session = await this.prisma.widgetSession.update({
+      where: { id: sessionId },
+      data: {
+        expiresAt: this.expiresAt(now),
+        messages: {
+          create: [
+            {
+              role: 'user',
+              content: turn.question,
+              standaloneQuery:
+                turn.standaloneQuery !== turn.question ? turn.standaloneQuery : undefined,
+            },
+            {
+              role: 'assistant',
+              content: turn.answer,
+              sources: turn.sources as unknown as Prisma.InputJsonValue,
+            },
+          ],
+        },
+      },
+      include: { messages: { where: { role: 'assistant' }, orderBy: { id: 'desc' }, take: 1 } },
+    });
+    return session.messages[0].id;
+  }
+
+  /**
+   * Delete expired sessions with their messages
+   */
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    const result = await this.prisma.widgetSession.deleteMany({
+      where: { expiresAt: { lte: now } },
+    });
+    return result.count;
+  }
+
+  private expiresAt(now: Date): Date {
+    return new Date(now.getTime() + this.config.ttlHours * 60 * 60 * 1000);
+  }
+}
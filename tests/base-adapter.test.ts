@@ -40,6 +40,18 @@ class TestAdapter extends BaseStreamAdapter {
     return this.updateWatermark(lastProcessedTime, lastProcessedId, messagesProcessed);
   }
 
+  public async testGetResourceWatermark(resourceId: string): Promise<StreamWatermark> {
+    return this.getResourceWatermark(resourceId);
+  }
+
+  public async testUpdateResourceWatermark(
+    resourceId: string,
+    lastProcessedTime: Date,
+    lastProcessedId: string
+  ): Promise<void> {
+    return this.updateResourceWatermark(resourceId, lastProcessedTime, lastProcessedId);
+  }
+
   public async testSaveMessages(messages: StreamMessage[]): Promise<number[]> {
     return this.saveMessages(messages);
   }
@@ -66,6 +78,7 @@ describe('BaseStreamAdapter', () => {
         findFirst: vi.fn(),
         create: vi.fn(),
         updateMany: vi.fn(),
+        upsert: vi.fn(),
       },
       unifiedMessage: {
         findUnique: vi.fn(),
@@ -205,6 +218,50 @@ describe('BaseStreamAdapter', () => {
     });
   });
 
+  describe('resource watermarks', () => {
+    it('should look up watermark by resourceId', async () => {
+      const lastTime = new Date('2025-12-23T10:00:00Z');
+      mockDb.importWatermark.findFirst.mockResolvedValue({
+        lastImportedTime: lastTime,
+        lastImportedId: 'msg-9',
+      });
+
+      const result = await adapter.testGetResourceWatermark('channel-1');
+
+      expect(mockDb.importWatermark.findFirst).toHaveBeenCalledWith({
+        where: { streamId: 'test-stream', resourceId: 'channel-1' },
+      });
+      expect(result.lastProcessedId).toBe('msg-9');
+      expect(result.lastProcessedTime).toEqual(lastTime);
+    });
+
+    it('should return empty watermark for unknown resource', async () => {
+      mockDb.importWatermark.findFirst.mockResolvedValue(null);
+
+      const result = await adapter.testGetResourceWatermark('channel-2');
+
+      expect(result.lastProcessedId).toBeUndefined();
+      expect(result.lastProcessedTime).toBeUndefined();
+    });
+
+    it('should upsert watermark for resource', async () => {
+      const lastTime = new Date('2025-12-23T10:00:00Z');
+
+      await adapter.testUpdateResourceWatermark('channel-1', lastTime, 'msg-10');
+
+      expect(mockDb.importWatermark.upsert).toHaveBeenCalledWith({
+        where: { streamId_resourceId: { streamId: 'test-stream', resourceId: 'channel-1' } },
+        create: expect.objectContaining({
+          streamId: 'test-stream',
+          streamType: 'test',
+          resourceId: 'channel-1',
+          lastImportedId: 'msg-10',
+        }),
+        update: { lastImportedTime: lastTime, lastImportedId: 'msg-10' },
+      });
+    });
+  });
+
   describe('saveMessages', () => {
     const testMessage: StreamMessage = {
       messageId: 'msg-001',
@@ -4,6 +4,8 @@
  *
 
  * Updated: 2024-12-23 - Rewritten for per-stream watermark architecture
+ * Updated: 2026-10-19 - LLM budget checks
+ * Updated: 2026-10-19 - Resuming failed runs and re-running single threads
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
@@ -75,6 +77,12 @@ const { mockPrismaClient, mockLLMService, mockVectorSearch } = vi.hoisted(() =>
         create: vi.fn(),
         update: vi.fn(),
         findMany: vi.fn(),
+        findFirst: vi.fn(),
+        findUnique: vi.fn(),
+      },
+      llmUsage: {
+        create: vi.fn(),
+        aggregate: vi.fn(),
       },
       $transaction: vi.fn((callback: any) => callback(mockPrismaClient)),
       $executeRaw: vi.fn(),
@@ -125,6 +133,7 @@ vi.mock('../server/config/instance-loader.js', () => ({
 // Mock pipeline components for full pipeline flow
 const mockPipelineOrchestrator = {
   execute: vi.fn(),
+  created: vi.fn(),
 };
 
 vi.mock('../server/pipeline/config/PipelineConfigLoader.js', () => ({
@@ -171,8 +180,8 @@ vi.mock('../server/pipeline/prompts/PromptRegistry.js', () => ({
   PromptRegistry: class MockPromptRegistry {},
 }));
 
-vi.mock('../server/pipeline/handlers/GeminiHandler.js', () => ({
-  createGeminiHandler: vi.fn().mockReturnValue({
+vi.mock('../server/pipeline/handlers/LLMHandlerFactory.js', () => ({
+  createLLMHandler: vi.fn().mockReturnValue({
     name: 'gemini',
     requestJSON: vi.fn().mockResolvedValue({
       data: { threads: [], proposals: [] },
@@ -188,11 +197,13 @@ vi.mock('../server/pipeline/handlers/GeminiHandler.js', () => ({
     }),
     estimateCost: vi.fn().mockReturnValue({ inputTokens: 0, outputTokens: 0, estimatedCostUSD: 0 }),
   }),
-  GeminiHandler: class MockGeminiHandler {},
 }));
 
 vi.mock('../server/pipeline/core/PipelineOrchestrator.js', () => ({
   PipelineOrchestrator: class MockPipelineOrchestrator {
+    constructor(...args: unknown[]) {
+      mockPipelineOrchestrator.created(...args);
+    }
     execute = mockPipelineOrchestrator.execute;
     getConfig = vi.fn().mockReturnValue({});
     registerStep = vi.fn();
@@ -206,6 +217,7 @@ vi.mock('../server/pipeline/core/PipelineOrchestrator.js', () => ({
       cacheMisses: 0,
     });
   },
+  PipelineResumeError: class PipelineResumeError extends Error {},
 }));
 
 vi.mock('../server/vector-store.js', () => {
@@ -220,6 +232,7 @@ vi.mock('../server/vector-store.js', () => {
 
 // Import after mocks are set up
 import { BatchMessageProcessor } from '../server/stream/processors/batch-message-processor.js';
+import { InstanceConfigLoader } from '../server/config/instance-loader.js';
 import { createMockMessage, createMockWatermark } from './mocks/prisma.mock.js';
 import {
   mockBatchClassificationResponse,
@@ -246,6 +259,7 @@ const resetAllMocks = () => {
   mockVectorSearch.searchSimilarMessages.mockReset();
   // Reset Pipeline orchestrator mock
   mockPipelineOrchestrator.execute.mockReset();
+  mockPipelineOrchestrator.created.mockReset();
 };
 
 const setupDefaultMocks = () => {
@@ -677,6 +691,62 @@ describe('BatchMessageProcessor', () => {
       expect(executeCall[0].messages.length).toBe(2);
     });
 
+    it('should pass reply links and conversation keys from metadata to the pipeline', async () => {
+      const messages = [
+        createMockMessage({
+          id: 1,
+          streamId,
+          messageId: 'C1-1700000000.000100',
+          metadata: { threadId: 'C1-1700000000.000100' },
+        }),
+        createMockMessage({
+          id: 2,
+          streamId,
+          messageId: 'C1-1700000060.000200',
+          metadata: { replyToMessageId: 'C1-1700000000.000100' },
+        }),
+        // Legacy Telegram row with a bare reply message_id
+        createMockMessage({
+          id: 3,
+          streamId,
+          messageId: '-100123-42',
+          metadata: { chatId: '-100123', replyToMessageId: 41 },
+        }),
+        // Legacy Zulip row with only a topic
+        createMockMessage({ id: 4, streamId, messageId: '777', metadata: { topic: 'RPC' } }),
+      ];
+
+      mockPrismaClient.unifiedMessage.findMany
+        .mockResolvedValueOnce([{ streamId }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce(messages)
+        .mockResolvedValueOnce([]);
+
+      mockPrismaClient.unifiedMessage.findFirst
+        .mockResolvedValueOnce({ timestamp: watermarkTime })
+        .mockResolvedValueOnce(null);
+
+      mockPrismaClient.unifiedMessage.count.mockResolvedValue(4);
+      mockPrismaClient.messageClassification.upsert.mockResolvedValue({});
+      mockPrismaClient.conversationRagContext.upsert.mockResolvedValue({});
+      mockPrismaClient.conversationRagContext.update.mockResolvedValue({});
+      mockPrismaClient.docProposal.create.mockResolvedValue({});
+      mockPrismaClient.unifiedMessage.updateMany.mockResolvedValue({ count: 4 });
+      mockPrismaClient.processingWatermark.upsert.mockResolvedValue({});
+
+      await processor.processBatch();
+
+      const pipelineMessages = mockPipelineOrchestrator.execute.mock.calls[0][0].messages;
+      expect(pipelineMessages[0]).toMatchObject({
+        conversationId: 'C1-1700000000.000100',
+        channel: 'test-channel',
+      });
+      expect(pipelineMessages[0].replyToId).toBeUndefined();
+      expect(pipelineMessages[1].replyToId).toBe('C1-1700000000.000100');
+      expect(pipelineMessages[2].replyToId).toBe('-100123-41');
+      expect(pipelineMessages[3].conversationId).toBe('test-channel/RPC');
+    });
+
     it('should perform RAG retrieval for valuable messages', async () => {
       const messages = [createMockMessage({ id: 1, streamId })];
 
@@ -831,6 +901,232 @@ describe('BatchMessageProcessor', () => {
     });
   });
 
+  describe('processBatch - LLM Budget', () => {
+    const streamId = 'test-stream';
+    const watermarkTime = new Date('2025-10-30T00:00:00Z');
+    const baseConfig = InstanceConfigLoader.get('test-instance');
+
+    const withBudget = (budget: Record<string, unknown>) =>
+      vi.mocked(InstanceConfigLoader.get).mockReturnValue({
+        ...baseConfig,
+        llm: { budget },
+      } as any);
+
+    beforeEach(() => {
+      const messages = [createMockMessage({ id: 1, streamId })];
+      mockPrismaClient.processingWatermark.findUnique.mockResolvedValue(
+        createMockWatermark({ streamId, watermarkTime })
+      );
+      mockPrismaClient.unifiedMessage.findMany
+        .mockResolvedValueOnce([{ streamId }]) // Distinct streams
+        .mockResolvedValueOnce([]) // Context messages
+        .mockResolvedValueOnce(messages) // Batch messages
+        .mockResolvedValueOnce([]); // Next iteration - empty means done
+      mockPrismaClient.unifiedMessage.findFirst
+        .mockResolvedValueOnce({ timestamp: watermarkTime })
+        .mockResolvedValueOnce(null);
+      mockPrismaClient.unifiedMessage.count.mockResolvedValue(1);
+      mockPrismaClient.unifiedMessage.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaClient.processingWatermark.upsert.mockResolvedValue({});
+    });
+
+    afterEach(() => {
+      vi.mocked(InstanceConfigLoader.get).mockReturnValue(baseConfig);
+    });
+
+    it('should pause without advancing the watermark when the budget is exceeded', async () => {
+      withBudget({ dailyUSD: 5 });
+      mockPrismaClient.llmUsage.aggregate.mockResolvedValue({ _sum: { costUsd: 5.2 } });
+
+      const result = await processor.processBatch();
+
+      expect(result).toBe(0);
+      expect(mockPipelineOrchestrator.execute).not.toHaveBeenCalled();
+      expect(mockPrismaClient.processingWatermark.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should switch to the fallback model when configured', async () => {
+      const fallback = { provider: 'gemini', model: 'gemini-2.5-flash-lite' };
+      withBudget({ monthlyUSD: 100, onExceeded: 'fallback', fallback });
+      mockPrismaClient.llmUsage.aggregate.mockResolvedValue({ _sum: { costUsd: 120 } });
+
+      await processor.processBatch();
+
+      expect(mockPipelineOrchestrator.execute).toHaveBeenCalled();
+      expect(mockPipelineOrchestrator.created.mock.calls[0][3]).toEqual({ llmOverride: fallback });
+    });
+
+    it('should run with the configured models while within budget', async () => {
+      withBudget({ dailyUSD: 5, monthlyUSD: 100 });
+      mockPrismaClient.llmUsage.aggregate.mockResolvedValue({ _sum: { costUsd: 1.5 } });
+
+      await processor.processBatch();
+
+      expect(mockPipelineOrchestrator.execute).toHaveBeenCalled();
+      expect(mockPipelineOrchestrator.created.mock.calls[0][3]).toBeUndefined();
+      expect(mockPrismaClient.processingWatermark.upsert).toHaveBeenCalled();
+    });
+  });
+
+  describe('processBatch - Resuming Failed Runs', () => {
+    const streamId = 'test-stream';
+    const watermarkTime = new Date('2025-10-30T00:00:00Z');
+    const checkpointFor = (messageIds: number[]) => ({
+      stepId: 'batch-classify',
+      messageIds,
+      filteredMessages: [],
+      threads: [],
+      ragResults: {},
+      proposals: {},
+    });
+
+    beforeEach(() => {
+      const messages = [
+        createMockMessage({ id: 1, streamId }),
+        createMockMessage({ id: 2, streamId }),
+      ];
+      mockPrismaClient.processingWatermark.findUnique.mockResolvedValue(
+        createMockWatermark({ streamId, watermarkTime })
+      );
+      mockPrismaClient.unifiedMessage.findMany
+        .mockResolvedValueOnce([{ streamId }]) // Distinct streams
+        .mockResolvedValueOnce([]) // Context messages
+        .mockResolvedValueOnce(messages) // Batch messages
+        .mockResolvedValueOnce([]); // Next iteration - empty means done
+      mockPrismaClient.unifiedMessage.findFirst
+        .mockResolvedValueOnce({ timestamp: watermarkTime })
+        .mockResolvedValueOnce(null);
+      mockPrismaClient.unifiedMessage.count.mockResolvedValue(2);
+      mockPrismaClient.unifiedMessage.updateMany.mockResolvedValue({ count: 2 });
+      mockPrismaClient.processingWatermark.upsert.mockResolvedValue({});
+    });
+
+    it('should resume the failed run of the same messages', async () => {
+      mockPrismaClient.pipelineRunLog.findFirst.mockResolvedValue({
+        id: 41,
+        checkpoint: checkpointFor([1, 2]),
+      });
+
+      await processor.processBatch();
+
+      expect(mockPrismaClient.pipelineRunLog.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ pipelineId: 'test-pipeline', status: 'failed' }),
+        })
+      );
+      expect(mockPipelineOrchestrator.execute).toHaveBeenCalledWith(expect.anything(), {
+        resumeRunId: 41,
+      });
+    });
+
+    it('should start a new run when the failed run covered other messages', async () => {
+      mockPrismaClient.pipelineRunLog.findFirst.mockResolvedValue({
+        id: 41,
+        checkpoint: checkpointFor([1, 3]),
+      });
+
+      await processor.processBatch();
+
+      expect(mockPipelineOrchestrator.execute).toHaveBeenCalledWith(expect.anything(), undefined);
+    });
+  });
+
+  describe('rerunThread', () => {
+    const streamId = 'test-stream';
+    const thread = {
+      id: 'thread-b',
+      category: 'docs-improvement',
+      messageIds: [1],
+      summary: 'Second thread',
+      docValueReason: 'Useful',
+      ragSearchCriteria: { keywords: [], semanticQuery: 'query' },
+    };
+
+    beforeEach(() => {
+      mockPrismaClient.pipelineRunLog.findUnique.mockResolvedValue({
+        batchId: 'test-strea_1',
+        checkpoint: {
+          stepId: 'length-reduce',
+          messageIds: [2, 1],
+          filteredMessages: [],
+          threads: [thread],
+          ragResults: {},
+          proposals: {},
+        },
+      });
+      // Returned in a different order than the run's messages
+      mockPrismaClient.unifiedMessage.findMany
+        .mockResolvedValueOnce([
+          createMockMessage({ id: 1, streamId }),
+          createMockMessage({ id: 2, streamId }),
+        ])
+        .mockResolvedValueOnce([]); // Context messages
+      mockPrismaClient.docProposal.deleteMany.mockResolvedValue({ count: 1 });
+      mockPrismaClient.docProposal.create.mockResolvedValue({ id: 9 });
+      mockPipelineOrchestrator.execute.mockImplementation(async (context: any) => {
+        context.threads = [{ ...thread, id: 'thread-a', messageIds: [0] }, thread];
+        context.proposals = new Map([
+          ['thread-a', [{ updateType: 'UPDATE', page: 'a.md', reasoning: 'kept' }]],
+          ['thread-b', [{ updateType: 'INSERT', page: 'b.md', reasoning: 'new' }]],
+        ]);
+        context.ragResults = new Map();
+        return { success: true, errors: [] };
+      });
+    });
+
+    it('should re-run the thread from the run checkpoint and replace its pending proposals', async () => {
+      const result = await processor.rerunThread(7, 'thread-b');
+
+      const [context, options] = mockPipelineOrchestrator.execute.mock.calls[0];
+      expect(options).toEqual({ resumeRunId: 7, threadId: 'thread-b' });
+      expect(context.messages.map((m: any) => m.id)).toEqual([2, 1]);
+      expect(context.batchId).toBe('test-strea_1');
+      expect(mockPrismaClient.docProposal.deleteMany).toHaveBeenCalledWith({
+        where: { conversationId: 'thread-b', status: 'pending' },
+      });
+      expect(mockPrismaClient.docProposal.create).toHaveBeenCalledTimes(1);
+      expect(mockPrismaClient.docProposal.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ conversationId: 'thread-b', page: 'b.md' }),
+        })
+      );
+      expect(result).toEqual({ success: true, proposalCount: 1 });
+    });
+
+    it('should keep the pending proposals when the re-run fails', async () => {
+      mockPipelineOrchestrator.execute.mockResolvedValue({
+        success: false,
+        errors: [{ stepId: 'proposal-generate', message: 'LLM unavailable' }],
+      });
+
+      const result = await processor.rerunThread(7, 'thread-b');
+
+      expect(result).toEqual({ success: false, proposalCount: 0 });
+      expect(mockPrismaClient.docProposal.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrismaClient.docProposal.create).not.toHaveBeenCalled();
+    });
+
+    it('should replace the proposals in one transaction', async () => {
+      mockPrismaClient.docProposal.create.mockRejectedValue(new Error('connection lost'));
+
+      await expect(processor.rerunThread(7, 'thread-b')).rejects.toThrow(
+        'Failed to store the re-run results of thread thread-b'
+      );
+      expect(mockPrismaClient.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrismaClient.docProposal.deleteMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject runs without a checkpoint', async () => {
+      mockPrismaClient.pipelineRunLog.findUnique.mockResolvedValue({
+        batchId: 'test-strea_1',
+        checkpoint: null,
+      });
+
+      await expect(processor.rerunThread(7, 'thread-b')).rejects.toThrow('has no checkpoint');
+      expect(mockPipelineOrchestrator.execute).not.toHaveBeenCalled();
+    });
+  });
+
   describe('processBatch - Error Handling', () => {
     const streamId = 'test-stream';
     const watermarkTime = new Date('2025-10-30T00:00:00Z');
@@ -14,10 +14,15 @@ const mockGitHubServiceInstance = vi.hoisted(() => ({
   pushBranch: vi.fn(),
   createPullRequest: vi.fn(),
   cleanup: vi.fn(),
+  getHeadCommit: vi.fn(),
+  readFileAtCommit: vi.fn(),
 }));
 
+const mockGitHubServiceConfig = vi.hoisted(() => vi.fn());
+
 const mockFileModServiceInstance = vi.hoisted(() => ({
   applyProposalsToFile: vi.fn(),
+  applyProposalsToContent: vi.fn(),
 }));
 
 const mockFileConsolidation = vi.hoisted(() => ({
@@ -49,19 +54,28 @@ vi.mock('path', () => ({
 // Mock GitHub PR service
 vi.mock('../server/stream/services/github-pr-service.js', () => ({
   GitHubPRService: class MockGitHubPRService {
+    constructor(config: unknown) {
+      mockGitHubServiceConfig(config);
+    }
     cloneRepository = mockGitHubServiceInstance.cloneRepository;
     createBranch = mockGitHubServiceInstance.createBranch;
     commitChanges = mockGitHubServiceInstance.commitChanges;
     pushBranch = mockGitHubServiceInstance.pushBranch;
     createPullRequest = mockGitHubServiceInstance.createPullRequest;
     cleanup = mockGitHubServiceInstance.cleanup;
+    getHeadCommit = mockGitHubServiceInstance.getHeadCommit;
+    readFileAtCommit = mockGitHubServiceInstance.readFileAtCommit;
   },
 }));
 
 // Mock File Modification service
-vi.mock('../server/stream/services/file-modification-service.js', () => ({
+vi.mock('../server/stream/services/file-modification-service.js', async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import('../server/stream/services/file-modification-service.js')
+  >()),
   FileModificationService: class MockFileModificationService {
     applyProposalsToFile = mockFileModServiceInstance.applyProposalsToFile;
+    applyProposalsToContent = mockFileModServiceInstance.applyProposalsToContent;
   },
 }));
 
@@ -76,6 +90,8 @@ const mockFileModService = mockFileModServiceInstance;
 const mockFsPromises = { readFile: mockFsReadFile, writeFile: mockFsWriteFile };
 
 import { ChangesetBatchService } from '../server/stream/services/changeset-batch-service.js';
+import { ProposalApplyError } from '../server/stream/services/file-modification-service.js';
+import { PRGenerationError } from '../server/stream/services/changeset-batch-service.js';
 
 // Mock Prisma client
 const mockPrismaClient = {
@@ -211,7 +227,7 @@ describe('ChangesetBatchService', () => {
   });
 
   describe('getBatch', () => {
-    it('should return batch with proposals and failures', async () => {
+    it('should return batch with proposals, failures and reviews', async () => {
       const mockBatch = {
         id: 1,
         batchId: 'batch-123',
@@ -235,6 +251,9 @@ describe('ChangesetBatchService', () => {
           failures: {
             include: { proposal: true },
           },
+          reviews: {
+            orderBy: { submittedAt: 'asc' },
+          },
         },
       });
     });
@@ -628,7 +647,10 @@ describe('ChangesetBatchService - generatePR workflow', () => {
     mockGitHubService.pushBranch.mockReset();
     mockGitHubService.createPullRequest.mockReset();
     mockGitHubService.cleanup.mockReset();
+    mockGitHubService.getHeadCommit.mockReset();
+    mockGitHubService.readFileAtCommit.mockReset();
     mockFileModService.applyProposalsToFile.mockReset();
+    mockFileModService.applyProposalsToContent.mockReset();
     mockFileConsolidation.shouldConsolidate.mockReset();
     mockFsPromises.readFile.mockReset();
     mockFsPromises.writeFile.mockReset();
@@ -792,16 +814,113 @@ describe('ChangesetBatchService - generatePR workflow', () => {
     expect(mockGitHubService.cleanup).toHaveBeenCalled();
   });
 
+  describe('rebasing proposals from older commits', () => {
+    const baseContent = '# Guide\n\nIntro\n\n## Setup\n\nOld step';
+
+    function mockRebaseBatch(baseCommitHash: string) {
+      mockPrismaClient.changesetBatch.findUnique.mockResolvedValue({
+        id: 1,
+        batchId: 'batch-rebase',
+        status: 'draft',
+        totalProposals: 1,
+        batchProposals: [
+          {
+            id: 1,
+            proposalId: 1,
+            orderIndex: 0,
+            proposal: { id: 1, page: 'docs/guide.md', baseCommitHash },
+          },
+        ],
+      });
+      mockGitHubService.cloneRepository.mockResolvedValue('/tmp/repo-clone');
+      mockGitHubService.getHeadCommit.mockResolvedValue('def5678def5678');
+      mockGitHubService.readFileAtCommit.mockResolvedValue(baseContent);
+      mockFileConsolidation.shouldConsolidate.mockReturnValue(false);
+      mockFileModService.applyProposalsToContent.mockImplementation(async (content: string) =>
+        content.replace('Old step', 'New step')
+      );
+      mockPrismaClient.docProposal.update.mockResolvedValue({});
+      mockPrismaClient.proposalFailure.create.mockResolvedValue({});
+      mockGitHubService.createPullRequest.mockResolvedValue({ url: 'https://pr', number: 7 });
+      mockPrismaClient.changesetBatch.update.mockResolvedValue({});
+    }
+
+    it('should apply proposals to the base version and merge upstream changes', async () => {
+      mockRebaseBatch('abc1234abc1234');
+      mockFsPromises.readFile.mockResolvedValue(
+        '# Guide\n\nIntro rewritten upstream\n\n## Setup\n\nOld step'
+      );
+
+      const result = await service.generatePR(1, createBatchOptions);
+
+      expect(result.appliedProposals).toEqual([1]);
+      expect(mockGitHubService.readFileAtCommit).toHaveBeenCalledWith(
+        '/tmp/repo-clone',
+        'abc1234abc1234',
+        'docs/guide.md'
+      );
+      expect(mockFileModService.applyProposalsToContent).toHaveBeenCalledWith(baseContent, [
+        expect.objectContaining({ id: 1 }),
+      ]);
+      expect(mockFileModService.applyProposalsToFile).not.toHaveBeenCalled();
+      expect(mockFsPromises.writeFile).toHaveBeenCalledWith(
+        '/tmp/repo-clone/docs/guide.md',
+        '# Guide\n\nIntro rewritten upstream\n\n## Setup\n\nNew step',
+        'utf-8'
+      );
+    });
+
+    it('should apply directly when the base commit is the current head', async () => {
+      mockRebaseBatch('def5678def5678');
+      mockFsPromises.readFile.mockResolvedValue(baseContent);
+      mockFileModService.applyProposalsToFile.mockResolvedValue('# Modified');
+
+      await service.generatePR(1, createBatchOptions);
+
+      expect(mockGitHubService.readFileAtCommit).not.toHaveBeenCalled();
+      expect(mockFileModService.applyProposalsToFile).toHaveBeenCalled();
+    });
+
+    it('should record a conflict with a diff when upstream changed the same lines', async () => {
+      mockRebaseBatch('abc1234abc1234');
+      mockFsPromises.readFile.mockResolvedValue('# Guide\n\nIntro\n\n## Setup\n\nUpstream step');
+
+      const error = await service.generatePR(1, createBatchOptions).catch((e) => e);
+
+      expect(error).toBeInstanceOf(PRGenerationError);
+      expect(error.failedProposals).toHaveLength(1);
+      expect(error.failedProposals[0].errorType).toBe('conflict');
+      expect(error.failedProposals[0].diff).toBe(
+        [
+          '@@ base line 7 @@',
+          '<<<<<<< proposal',
+          'New step',
+          '||||||| abc1234a',
+          'Old step',
+          '=======',
+          'Upstream step',
+          '>>>>>>> main',
+        ].join('\n')
+      );
+
+      const failure = mockPrismaClient.proposalFailure.create.mock.calls[0][0].data;
+      expect(failure.failureType).toBe('conflict');
+      expect(failure.diff).toContain('<<<<<<< proposal');
+      expect(mockFsPromises.writeFile).not.toHaveBeenCalled();
+    });
+  });
+
   it('should classify different error types correctly', async () => {
     const mockBatch = {
       id: 1,
       batchId: 'batch-errors',
       status: 'draft',
-      totalProposals: 3,
+      totalProposals: 4,
       batchProposals: [
         { id: 1, proposalId: 1, orderIndex: 0, proposal: { id: 1, page: 'docs/a.md' } },
         { id: 2, proposalId: 2, orderIndex: 1, proposal: { id: 2, page: 'docs/b.md' } },
         { id: 3, proposalId: 3, orderIndex: 2, proposal: { id: 3, page: 'docs/c.md' } },
+        { id: 4, proposalId: 4, orderIndex: 3, proposal: { id: 4, page: 'docs/d.md' } },
       ],
     };
 
@@ -812,7 +931,13 @@ describe('ChangesetBatchService - generatePR workflow', () => {
     mockFsPromises.readFile
       .mockRejectedValueOnce(new Error('section not found in document'))
       .mockRejectedValueOnce(new Error('git command failed'))
-      .mockRejectedValueOnce(new Error('unexpected parse error'));
+      .mockRejectedValueOnce(new Error('unexpected parse error'))
+      .mockRejectedValueOnce(
+        new ProposalApplyError(
+          'Ambiguous section "Git": matches "Setup > Git" (line 3), "Build > Git" (line 9)',
+          'section_ambiguous'
+        )
+      );
 
     mockPrismaClient.proposalFailure.create.mockResolvedValue({});
     mockPrismaClient.docProposal.update.mockResolvedValue({});
@@ -825,6 +950,7 @@ describe('ChangesetBatchService - generatePR workflow', () => {
     expect(failureCalls[0][0].data.failureType).toBe('section_not_found');
     expect(failureCalls[1][0].data.failureType).toBe('git_error');
     expect(failureCalls[2][0].data.failureType).toBe('parse_error');
+    expect(failureCalls[3][0].data.failureType).toBe('section_ambiguous');
   });
 
   it('should cleanup on error during PR workflow', async () => {
@@ -971,4 +1097,129 @@ describe('ChangesetBatchService - generatePR workflow', () => {
     expect(prCall.body).toContain('Failed to apply: 1 proposals');
     expect(prCall.body).toContain('Warning');
   });
+
+  describe('documentation sources', () => {
+    const docSources = [
+      { id: 'default', gitUrl: 'https://github.com/owner/docs', branch: 'main', pathPrefix: '' },
+      {
+        id: 'sdk',
+        gitUrl: 'https://github.com/owner/sdk',
+        branch: 'develop',
+        pathPrefix: 'sdk',
+        gitToken: 'sdk-token',
+      },
+    ];
+
+    const sdkBatch = {
+      id: 2,
+      batchId: 'batch-456-sdk',
+      status: 'draft',
+      totalProposals: 1,
+      docSourceId: 'sdk',
+      batchProposals: [
+        { id: 1, proposalId: 1, orderIndex: 0, proposal: { id: 1, page: 'sdk/guide/install.md' } },
+      ],
+    };
+
+    beforeEach(() => {
+      mockGitHubService.cloneRepository.mockResolvedValue('/tmp/repo-clone');
+      mockFsPromises.readFile.mockResolvedValue('# Install');
+      mockFileConsolidation.shouldConsolidate.mockReturnValue(false);
+      mockFileModService.applyProposalsToFile.mockResolvedValue('# Install (updated)');
+      mockGitHubService.createPullRequest.mockResolvedValue({ url: 'url', number: 7 });
+      mockPrismaClient.docProposal.update.mockResolvedValue({});
+      mockPrismaClient.changesetBatch.update.mockResolvedValue({});
+    });
+
+    it('should open the PR against the repository of the pages source', async () => {
+      mockPrismaClient.changesetBatch.findUnique.mockResolvedValue(sdkBatch);
+
+      await service.generatePR(2, { ...createBatchOptions, docSources });
+
+      expect(mockGitHubServiceConfig).toHaveBeenCalledWith(
+        expect.objectContaining({
+          token: 'sdk-token',
+          targetRepo: 'owner/sdk',
+          sourceRepo: 'owner/sdk',
+          baseBranch: 'develop',
+        })
+      );
+      expect(mockFsPromises.readFile).toHaveBeenCalledWith(
+        '/tmp/repo-clone/guide/install.md',
+        'utf-8'
+      );
+      expect(mockFileModService.applyProposalsToFile).toHaveBeenCalledWith(
+        'guide/install.md',
+        expect.any(Array)
+      );
+      expect(mockPrismaClient.changesetBatch.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ targetRepo: 'owner/sdk', docSourceId: 'sdk' }),
+        })
+      );
+    });
+
+    it('should keep the requested repository for pages of the primary source', async () => {
+      mockPrismaClient.changesetBatch.findUnique.mockResolvedValue({
+        ...sdkBatch,
+        docSourceId: null,
+        batchProposals: [
+          { id: 1, proposalId: 1, orderIndex: 0, proposal: { id: 1, page: 'docs/intro.md' } },
+        ],
+      });
+
+      await service.generatePR(2, { ...createBatchOptions, docSources });
+
+      expect(mockGitHubServiceConfig).toHaveBeenCalledWith(
+        expect.objectContaining({ targetRepo: 'owner/target-repo', token: 'test-github-token' })
+      );
+      expect(mockFsPromises.readFile).toHaveBeenCalledWith(
+        '/tmp/repo-clone/docs/intro.md',
+        'utf-8'
+      );
+    });
+
+    it('should reject a batch that spans several repositories', async () => {
+      mockPrismaClient.changesetBatch.findUnique.mockResolvedValue({
+        ...sdkBatch,
+        batchProposals: [
+          ...sdkBatch.batchProposals,
+          { id: 2, proposalId: 2, orderIndex: 1, proposal: { id: 2, page: 'docs/intro.md' } },
+        ],
+      });
+
+      await expect(service.generatePR(2, { ...createBatchOptions, docSources })).rejects.toThrow(
+        'several documentation repositories (sdk, default)'
+      );
+      expect(mockGitHubService.cloneRepository).not.toHaveBeenCalled();
+    });
+
+    it('should create one draft batch per repository', async () => {
+      mockPrismaClient.docProposal.findMany.mockResolvedValue([
+        { id: 1, page: 'docs/intro.md', status: 'approved' },
+        { id: 2, page: 'sdk/guide/install.md', status: 'approved' },
+        { id: 3, page: 'docs/api.md', status: 'approved' },
+      ]);
+      mockPrismaClient.changesetBatch.create.mockImplementation(async ({ data }: any) => ({
+        id: data.docSourceId ? 2 : 1,
+        ...data,
+      }));
+      mockPrismaClient.batchProposal.createMany.mockResolvedValue({ count: 1 });
+
+      const batches = await service.createDraftBatches([1, 2, 3], docSources);
+
+      expect(batches).toHaveLength(2);
+      expect(batches[0]).toMatchObject({
+        totalProposals: 2,
+        affectedFiles: ['docs/intro.md', 'docs/api.md'],
+      });
+      expect(batches[0]).not.toHaveProperty('docSourceId');
+      expect(batches[1]).toMatchObject({
+        totalProposals: 1,
+        docSourceId: 'sdk',
+        affectedFiles: ['sdk/guide/install.md'],
+      });
+      expect(batches[1].batchId).toMatch(/^batch-\d+-sdk$/);
+    });
+  });
 });
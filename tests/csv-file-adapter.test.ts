@@ -312,6 +312,31 @@ describe('CsvFileAdapter', () => {
       expect(messages[0].messageId).toBe('custom-123');
     });
 
+    it('should store reply links from the replyTo column', async () => {
+      const configWithReplies = {
+        ...validConfig,
+        columnMapping: {
+          ...validConfig.columnMapping,
+          messageId: 'id',
+          replyTo: 'parent',
+        },
+      };
+      const adapterWithReplies = new CsvFileAdapter('test-replies', mockDb);
+      await adapterWithReplies.initialize(configWithReplies);
+
+      vi.mocked(fs.readdir).mockResolvedValue([{ name: 'data.csv', isFile: () => true }] as any);
+      vi.mocked(fs.readFile).mockResolvedValue('');
+      vi.mocked(parse).mockReturnValue([
+        { id: 'q1', parent: '', date: '2025-12-23T10:00:00Z', user: 'alice', message: 'Question' },
+        { id: 'a1', parent: 'q1', date: '2025-12-23T10:05:00Z', user: 'bob', message: 'Answer' },
+      ]);
+
+      const messages = await adapterWithReplies.fetchMessages();
+
+      expect(messages[0].metadata?.replyToMessageId).toBeUndefined();
+      expect(messages[1].metadata?.replyToMessageId).toBe('q1');
+    });
+
     it('should use current time when timestamp missing', async () => {
       const configNoTimestamp = {
         inboxDir: '/tmp/inbox',
@@ -0,0 +1,473 @@
+/**
+ * Unit tests for DiscordAdapter
+ * Uses a fake Discord REST gateway routed through a mocked global fetch
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Watermark past skipped messages, archived thread paging
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { DiscordAdapter, DiscordMessage } from '../server/stream/adapters/discord-adapter';
+
+// Mock Prisma
+const mockDb = {
+  importWatermark: {
+    findFirst: vi.fn(),
+    updateMany: vi.fn(),
+    create: vi.fn(),
+    upsert: vi.fn(),
+  },
+  streamConfig: {
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  unifiedMessage: {
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+  },
+} as any;
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+/**
+ * Minimal in-memory Discord REST gateway.
+ * Channels hold messages; requests are answered the way the real API does
+ * (newest first, `after` exclusive, `limit` respected).
+ */
+class FakeDiscordGateway {
+  channels = new Map<string, { id: string; type: number; name?: string; parent_id?: string }>();
+  messages = new Map<string, DiscordMessage[]>();
+  activeThreads: Array<{ id: string; type: number; name?: string; parent_id?: string }> = [];
+  archivedThreads: any[] = []; // Newest archive first, like the API
+  archivedPageSize = 100;
+  requests: string[] = [];
+  rateLimitNext = false;
+
+  addChannel(id: string, name: string) {
+    this.channels.set(id, { id, type: 0, name });
+    this.messages.set(id, []);
+  }
+
+  addThread(id: string, name: string, parentId: string) {
+    const thread = { id, type: 11, name, parent_id: parentId };
+    this.channels.set(id, thread);
+    this.activeThreads.push(thread);
+    this.messages.set(id, []);
+  }
+
+  addArchivedThread(id: string, name: string, parentId: string, archivedAt: string) {
+    const thread = {
+      id,
+      type: 11,
+      name,
+      parent_id: parentId,
+      thread_metadata: { archived: true, archive_timestamp: archivedAt },
+    };
+    this.channels.set(id, thread);
+    this.archivedThreads.push(thread);
+    this.archivedThreads.sort((a, b) =>
+      b.thread_metadata.archive_timestamp.localeCompare(a.thread_metadata.archive_timestamp)
+    );
+    this.messages.set(id, []);
+  }
+
+  addMessage(channelId: string, id: string, content: string, extra: Partial<DiscordMessage> = {}) {
+    this.messages.get(channelId)!.push({
+      id,
+      channel_id: channelId,
+      author: { id: 'u1', username: 'alice', global_name: 'Alice' },
+      content,
+      timestamp: new Date(1700000000000 + Number(id) * 1000).toISOString(),
+      type: 0,
+      ...extra,
+    });
+  }
+
+  handle = async (input: string): Promise<any> => {
+    const url = new URL(input);
+    const path = url.pathname.replace(/^\/api\/v10/, '');
+    this.requests.push(path + url.search);
+
+    if (this.rateLimitNext) {
+      this.rateLimitNext = false;
+      return { ok: false, status: 429, json: async () => ({ retry_after: 0 }) };
+    }
+
+    if (path === '/users/@me') {
+      return this.ok({ id: 'bot', username: 'docbot', bot: true });
+    }
+
+    let match = path.match(/^\/guilds\/[^/]+\/threads\/active$/);
+    if (match) {
+      return this.ok({ threads: this.activeThreads });
+    }
+
+    match = path.match(/^\/channels\/([^/]+)\/threads\/archived\/public$/);
+    if (match) {
+      const before = url.searchParams.get('before');
+      const older = this.archivedThreads.filter(
+        (t) =>
+          t.parent_id === match![1] && (!before || t.thread_metadata.archive_timestamp < before)
+      );
+      return this.ok({
+        threads: older.slice(0, this.archivedPageSize),
+        has_more: older.length > this.archivedPageSize,
+      });
+    }
+
+    match = path.match(/^\/channels\/([^/]+)\/messages$/);
+    if (match) {
+      const all = [...(this.messages.get(match[1]) || [])];
+      const after = url.searchParams.get('after');
+      const limit = parseInt(url.searchParams.get('limit') || '50');
+      const filtered = after
+        ? all.filter((m) => BigInt(m.id) > BigInt(after)).slice(0, limit)
+        : all.slice(-limit);
+      return this.ok(filtered.reverse());
+    }
+
+    match = path.match(/^\/channels\/([^/]+)$/);
+    if (match && this.channels.has(match[1])) {
+      return this.ok(this.channels.get(match[1]));
+    }
+
+    return { ok: false, status: 404, text: async () => 'Unknown Channel' };
+  };
+
+  private ok(body: any) {
+    return { ok: true, status: 200, json: async () => body };
+  }
+}
+
+const baseConfig = {
+  botToken: 'discord-token',
+  guildId: 'guild-1',
+  channelIds: ['100'],
+};
+
+describe('DiscordAdapter', () => {
+  let adapter: DiscordAdapter;
+  let gateway: FakeDiscordGateway;
+  let watermarks: Map<string, { lastImportedId: string; lastImportedTime: Date }>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new DiscordAdapter('test-discord-stream', mockDb);
+    gateway = new FakeDiscordGateway();
+    gateway.addChannel('100', 'support');
+    (global.fetch as any).mockImplementation(gateway.handle);
+
+    // Resource watermarks are stored in memory so incremental fetches can be observed
+    watermarks = new Map();
+    mockDb.importWatermark.findFirst.mockImplementation(async ({ where }: any) => {
+      return where.resourceId ? watermarks.get(where.resourceId) || null : null;
+    });
+    mockDb.importWatermark.upsert.mockImplementation(async ({ where, update }: any) => {
+      watermarks.set(where.streamId_resourceId.resourceId, update);
+      return {};
+    });
+    mockDb.importWatermark.create.mockResolvedValue({});
+    mockDb.importWatermark.updateMany.mockResolvedValue({ count: 1 });
+    mockDb.streamConfig.findUnique.mockResolvedValue(null);
+    mockDb.streamConfig.create.mockResolvedValue({});
+    mockDb.unifiedMessage.findUnique.mockResolvedValue(null);
+    mockDb.unifiedMessage.findFirst.mockResolvedValue(null);
+    mockDb.unifiedMessage.create.mockResolvedValue({ id: 1 });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Configuration Validation', () => {
+    it('should validate correct configuration', () => {
+      expect(adapter.validateConfig(baseConfig)).toBe(true);
+    });
+
+    it('should reject configuration without botToken', () => {
+      expect(adapter.validateConfig({ ...baseConfig, botToken: undefined })).toBe(false);
+    });
+
+    it('should reject configuration without guildId', () => {
+      expect(adapter.validateConfig({ ...baseConfig, guildId: undefined })).toBe(false);
+    });
+
+    it('should reject configuration without channels', () => {
+      expect(adapter.validateConfig({ ...baseConfig, channelIds: [] })).toBe(false);
+    });
+
+    it('should accept legacy single channelId', () => {
+      const config = { botToken: 'discord-token', guildId: 'guild-1', channelId: '100' };
+      expect(adapter.validateConfig(config)).toBe(true);
+      expect((adapter as any).botConfig.channelIds).toEqual(['100']);
+    });
+
+    it('should reject invalid startDate', () => {
+      expect(adapter.validateConfig({ ...baseConfig, startDate: 'yesterday' })).toBe(false);
+    });
+
+    it('should set default values for optional config', () => {
+      adapter.validateConfig(baseConfig);
+
+      const botConfig = (adapter as any).botConfig;
+      expect(botConfig.includeThreads).toBe(true);
+      expect(botConfig.ignoreBots).toBe(true);
+      expect(botConfig.batchSize).toBe(100);
+      expect(botConfig.apiBaseUrl).toBe('https://discord.com/api/v10');
+    });
+  });
+
+  describe('Adapter Properties', () => {
+    it('should have correct adapter type', () => {
+      expect(adapter.adapterType).toBe('discord');
+    });
+
+    it('should have correct stream ID', () => {
+      expect(adapter.streamId).toBe('test-discord-stream');
+    });
+  });
+
+  describe('Initialization', () => {
+    it('should test connection and resolve channel names', async () => {
+      await adapter.initialize(baseConfig);
+
+      expect(gateway.requests).toContain('/users/@me');
+      expect(gateway.requests).toContain('/channels/100');
+      expect((adapter as any).initialized).toBe(true);
+    });
+
+    it('should fail when the bot token is rejected', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        text: async () => '401: Unauthorized',
+      });
+
+      await expect(adapter.initialize(baseConfig)).rejects.toThrow(
+        'Failed to connect to Discord API'
+      );
+    });
+
+    it('should send Bot authorization header', async () => {
+      await adapter.initialize(baseConfig);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://discord.com/api/v10/users/@me',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bot discord-token' }),
+        })
+      );
+    });
+  });
+
+  describe('fetchMessages', () => {
+    it('should throw error if not initialized', async () => {
+      await expect(adapter.fetchMessages()).rejects.toThrow();
+    });
+
+    it('should import channel messages oldest first', async () => {
+      gateway.addMessage('100', '3', 'third');
+      gateway.addMessage('100', '1', 'first');
+      gateway.addMessage('100', '2', 'second');
+      await adapter.initialize(baseConfig);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.content)).toEqual(['first', 'second', 'third']);
+      expect(messages[0].channel).toBe('support');
+      expect(messages[0].author).toBe('Alice');
+      expect(mockDb.unifiedMessage.create).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep one watermark per channel and fetch incrementally', async () => {
+      gateway.addMessage('100', '1', 'first');
+      await adapter.initialize(baseConfig);
+
+      await adapter.fetchMessages();
+      expect(watermarks.get('100')?.lastImportedId).toBe('1');
+
+      gateway.addMessage('100', '2', 'second');
+      const next = await adapter.fetchMessages();
+
+      expect(next.map((m) => m.messageId)).toEqual(['2']);
+      expect(gateway.requests).toContain('/channels/100/messages?limit=100&after=1');
+      expect(watermarks.get('100')?.lastImportedId).toBe('2');
+    });
+
+    it('should page forward until caught up', async () => {
+      for (let i = 1; i <= 5; i++) {
+        gateway.addMessage('100', String(i), `msg ${i}`);
+      }
+      watermarks.set('100', { lastImportedId: '1', lastImportedTime: new Date() });
+      await adapter.initialize({ ...baseConfig, includeThreads: false });
+
+      const messages = await adapter.fetchMessages(undefined, 3);
+
+      expect(messages.map((m) => m.messageId)).toEqual(['2', '3', '4']);
+    });
+
+    it('should start from startDate when no watermark exists', async () => {
+      await adapter.initialize({ ...baseConfig, startDate: '2024-01-01T00:00:00Z' });
+
+      await adapter.fetchMessages();
+
+      const after = DiscordAdapter.snowflakeFromDate(new Date('2024-01-01T00:00:00Z'));
+      expect(gateway.requests).toContain(`/channels/100/messages?limit=100&after=${after}`);
+    });
+
+    it('should map replies into metadata', async () => {
+      gateway.addMessage('100', '1', 'question');
+      gateway.addMessage('100', '2', 'answer', {
+        type: 19,
+        message_reference: { message_id: '1', channel_id: '100' },
+      });
+      await adapter.initialize(baseConfig);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages[1].metadata?.replyToMessageId).toBe('1');
+      expect(messages[1].metadata?.channelId).toBe('100');
+      expect(messages[1].metadata?.threadId).toBeUndefined();
+    });
+
+    it('should import thread messages with thread metadata and their own watermark', async () => {
+      gateway.addMessage('100', '1', 'starting a thread', {
+        thread: { id: '500', type: 11, name: 'Node sync issue', parent_id: '100' },
+      });
+      gateway.addThread('500', 'Node sync issue', '100');
+      gateway.addMessage('500', '2', 'reply in thread');
+      await adapter.initialize(baseConfig);
+
+      const messages = await adapter.fetchMessages();
+      const threadMessage = messages.find((m) => m.messageId === '2')!;
+
+      expect(messages[0].metadata?.startedThreadId).toBe('500');
+      expect(threadMessage.channel).toBe('support');
+      expect(threadMessage.metadata?.threadId).toBe('500');
+      expect(threadMessage.metadata?.threadName).toBe('Node sync issue');
+      expect(threadMessage.metadata?.channelId).toBe('100');
+      expect(watermarks.get('500')?.lastImportedId).toBe('2');
+    });
+
+    it('should ignore threads of channels that are not configured', async () => {
+      gateway.addChannel('200', 'off-topic');
+      gateway.addThread('600', 'Memes', '200');
+      gateway.addMessage('600', '1', 'unrelated');
+      await adapter.initialize(baseConfig);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(0);
+      expect(gateway.requests.some((r) => r.startsWith('/channels/600/messages'))).toBe(false);
+    });
+
+    it('should skip bot, system and empty messages', async () => {
+      gateway.addMessage('100', '1', 'from a bot', {
+        author: { id: 'b', username: 'bot', bot: true },
+      });
+      gateway.addMessage('100', '2', '', {});
+      gateway.addMessage('100', '3', 'pinned a message', { type: 6 });
+      gateway.addMessage('100', '4', 'real question');
+      await adapter.initialize(baseConfig);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.messageId)).toEqual(['4']);
+    });
+
+    it('should move the watermark past a page of skipped messages', async () => {
+      for (let i = 1; i <= 3; i++) {
+        gateway.addMessage('100', String(i), `bot ${i}`, {
+          author: { id: 'b', username: 'bot', bot: true },
+        });
+      }
+      watermarks.set('100', { lastImportedId: '0', lastImportedTime: new Date() });
+      await adapter.initialize({ ...baseConfig, includeThreads: false });
+
+      const messages = await adapter.fetchMessages(undefined, 3);
+      expect(messages).toHaveLength(0);
+      expect(watermarks.get('100')?.lastImportedId).toBe('3');
+
+      gateway.addMessage('100', '4', 'real question');
+      const next = await adapter.fetchMessages(undefined, 3);
+
+      expect(next.map((m) => m.messageId)).toEqual(['4']);
+      expect(gateway.requests).toContain('/channels/100/messages?limit=3&after=3');
+    });
+
+    it('should page through all archived threads', async () => {
+      gateway.archivedPageSize = 2;
+      gateway.addArchivedThread('501', 'Old', '100', '2024-01-01T00:00:00.000Z');
+      gateway.addArchivedThread('502', 'Older', '100', '2023-06-01T00:00:00.000Z');
+      gateway.addArchivedThread('503', 'Oldest', '100', '2023-01-01T00:00:00.000Z');
+      gateway.addMessage('503', '1', 'answer from long ago');
+      await adapter.initialize(baseConfig);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.metadata?.threadName)).toEqual(['Oldest']);
+      expect(gateway.requests).toContain(
+        `/channels/100/threads/archived/public?limit=100&before=${encodeURIComponent('2023-06-01T00:00:00.000Z')}`
+      );
+    });
+
+    it('should update the stream-level watermark with the newest message', async () => {
+      gateway.addMessage('100', '1', 'first');
+      gateway.addMessage('100', '2', 'second');
+      await adapter.initialize(baseConfig);
+
+      await adapter.fetchMessages();
+
+      expect(mockDb.importWatermark.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { streamId: 'test-discord-stream', resourceId: null },
+          data: expect.objectContaining({ lastImportedId: '2' }),
+        })
+      );
+    });
+
+    it('should retry once after a rate limit response', async () => {
+      gateway.addMessage('100', '1', 'first');
+      await adapter.initialize({ ...baseConfig, includeThreads: false });
+
+      gateway.rateLimitNext = true;
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(1);
+    });
+
+    it('should surface API errors', async () => {
+      await adapter.initialize({ ...baseConfig, includeThreads: false });
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        text: async () => 'Missing Access',
+      });
+
+      await expect(adapter.fetchMessages()).rejects.toThrow('Discord API error (403)');
+    });
+  });
+
+  describe('Snowflake helpers', () => {
+    it('should convert dates to snowflakes', () => {
+      expect(DiscordAdapter.snowflakeFromDate(new Date(1420070400000))).toBe('0');
+      expect(DiscordAdapter.snowflakeFromDate(new Date(1420070400001))).toBe('4194304');
+    });
+
+    it('should compare snowflakes numerically', () => {
+      expect(DiscordAdapter.compareSnowflakes('9', '10')).toBe(-1);
+      expect(DiscordAdapter.compareSnowflakes('10', '9')).toBe(1);
+      expect(DiscordAdapter.compareSnowflakes('10', '10')).toBe(0);
+    });
+  });
+
+  describe('Cleanup', () => {
+    it('should cleanup adapter resources without error', async () => {
+      await adapter.initialize(baseConfig);
+      await expect(adapter.cleanup()).resolves.not.toThrow();
+    });
+  });
+});
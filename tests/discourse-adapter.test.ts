@@ -0,0 +1,395 @@
+/**
+ * Unit tests for DiscourseAdapter
+ * Uses a fake Discourse forum routed through a mocked global fetch
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+
+vi.mock('fs/promises', () => ({
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+}));
+
+import * as fs from 'fs/promises';
+import {
+  DiscourseAdapter,
+  DiscoursePost,
+  DiscourseTopic,
+} from '../server/stream/adapters/discourse-adapter';
+
+// Mock Prisma
+const mockDb = {
+  importWatermark: {
+    findFirst: vi.fn(),
+    updateMany: vi.fn(),
+    create: vi.fn(),
+    upsert: vi.fn(),
+  },
+  streamConfig: {
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  unifiedMessage: {
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+  },
+} as any;
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+/**
+ * Minimal in-memory Discourse forum.
+ * Topic lists are ordered by activity (newest first) with a fixed page size;
+ * /t/{id}.json embeds only the first 20 posts like the real API.
+ */
+class FakeDiscourse {
+  topics: Array<DiscourseTopic & { posts: DiscoursePost[] }> = [];
+  requests: Array<{ path: string; headers: Record<string, string> }> = [];
+  failingTopics = new Set<number>();
+  topicPageSize = 30;
+
+  addTopic(id: number, createdAt: string, categoryId = 5) {
+    const topic = {
+      id,
+      title: `Topic ${id}`,
+      slug: `topic-${id}`,
+      category_id: categoryId,
+      created_at: createdAt,
+      last_posted_at: createdAt,
+      posts: [] as DiscoursePost[],
+    };
+    this.topics.push(topic);
+    this.addPost(id, createdAt, `<p>Question ${id}</p>`);
+    return topic;
+  }
+
+  addPost(topicId: number, createdAt: string, cooked: string, extra: Partial<DiscoursePost> = {}) {
+    const topic = this.topics.find((t) => t.id === topicId)!;
+    const postNumber = topic.posts.length + 1;
+    topic.posts.push({
+      id: topicId * 1000 + postNumber,
+      post_number: postNumber,
+      post_type: 1,
+      username: 'alice',
+      name: 'Alice',
+      cooked,
+      created_at: createdAt,
+      ...extra,
+    });
+    if (!topic.last_posted_at || createdAt > topic.last_posted_at) {
+      topic.last_posted_at = createdAt;
+    }
+  }
+
+  handle = async (input: string, init?: any): Promise<any> => {
+    const url = new URL(input);
+    this.requests.push({ path: url.pathname + url.search, headers: init?.headers || {} });
+
+    if (url.pathname === '/site.json') {
+      return this.ok({ categories: [{ id: 5, name: 'Support', slug: 'support' }] });
+    }
+
+    if (url.pathname === '/latest.json' || /^\/c\/\d+\.json$/.test(url.pathname)) {
+      const categoryId = url.pathname.match(/^\/c\/(\d+)\.json$/)?.[1];
+      const page = parseInt(url.searchParams.get('page') || '0');
+      const ordered = this.topics
+        .filter((t) => !categoryId || t.category_id === parseInt(categoryId))
+        .sort((a, b) => b.last_posted_at!.localeCompare(a.last_posted_at!));
+      const slice = ordered.slice(page * this.topicPageSize, (page + 1) * this.topicPageSize);
+      return this.ok({
+        topic_list: {
+          topics: slice.map(({ posts: _posts, ...t }) => t),
+          more_topics_url:
+            (page + 1) * this.topicPageSize < ordered.length
+              ? `/latest?page=${page + 1}`
+              : undefined,
+        },
+      });
+    }
+
+    let match = url.pathname.match(/^\/t\/(\d+)\.json$/);
+    if (match) {
+      const topic = this.topics.find((t) => t.id === parseInt(match![1]))!;
+      if (this.failingTopics.has(topic.id)) {
+        return { ok: false, status: 500, text: async () => 'Internal Server Error' };
+      }
+      return this.ok({
+        id: topic.id,
+        title: topic.title,
+        post_stream: {
+          posts: topic.posts.slice(0, 20),
+          stream: topic.posts.map((p) => p.id),
+        },
+      });
+    }
+
+    match = url.pathname.match(/^\/t\/(\d+)\/posts\.json$/);
+    if (match) {
+      const topic = this.topics.find((t) => t.id === parseInt(match![1]))!;
+      const ids = url.searchParams.getAll('post_ids[]').map(Number);
+      return this.ok({ post_stream: { posts: topic.posts.filter((p) => ids.includes(p.id)) } });
+    }
+
+    return { ok: false, status: 404, text: async () => 'Not Found' };
+  };
+
+  private ok(body: any) {
+    return { ok: true, status: 200, json: async () => body };
+  }
+}
+
+const baseConfig = {
+  baseUrl: 'https://forum.example.com/',
+};
+
+describe('DiscourseAdapter', () => {
+  let adapter: DiscourseAdapter;
+  let forum: FakeDiscourse;
+  let watermarks: Map<string, { lastImportedId: string; lastImportedTime: Date }>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new DiscourseAdapter('test-discourse', mockDb);
+    forum = new FakeDiscourse();
+    (global.fetch as any).mockImplementation(forum.handle);
+
+    // Resource watermarks are stored in memory so incremental fetches can be observed
+    watermarks = new Map();
+    mockDb.importWatermark.findFirst.mockImplementation(async ({ where }: any) => {
+      return where.resourceId ? watermarks.get(where.resourceId) || null : null;
+    });
+    mockDb.importWatermark.upsert.mockImplementation(async ({ where, update }: any) => {
+      watermarks.set(where.streamId_resourceId.resourceId, update);
+      return {};
+    });
+    mockDb.importWatermark.create.mockResolvedValue({});
+    mockDb.importWatermark.updateMany.mockResolvedValue({ count: 1 });
+    mockDb.streamConfig.findUnique.mockResolvedValue(null);
+    mockDb.streamConfig.create.mockResolvedValue({});
+    mockDb.unifiedMessage.findUnique.mockResolvedValue(null);
+    mockDb.unifiedMessage.findFirst.mockResolvedValue(null);
+    mockDb.unifiedMessage.create.mockResolvedValue({ id: 1 });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Configuration Validation', () => {
+    it('should validate correct configuration', () => {
+      expect(adapter.validateConfig(baseConfig)).toBe(true);
+    });
+
+    it('should reject missing or invalid baseUrl', () => {
+      expect(adapter.validateConfig({})).toBe(false);
+      expect(adapter.validateConfig({ baseUrl: 'forum' })).toBe(false);
+    });
+
+    it('should reject non-numeric categoryIds', () => {
+      expect(adapter.validateConfig({ ...baseConfig, categoryIds: ['support'] })).toBe(false);
+    });
+
+    it('should reject invalid startDate', () => {
+      expect(adapter.validateConfig({ ...baseConfig, startDate: 'soon' })).toBe(false);
+    });
+  });
+
+  describe('Initialization', () => {
+    it('should send API credentials when configured', async () => {
+      await adapter.initialize({ ...baseConfig, apiKey: 'key-1', apiUsername: 'importer' });
+
+      expect(forum.requests[0]).toEqual({
+        path: '/site.json',
+        headers: { Accept: 'application/json', 'Api-Key': 'key-1', 'Api-Username': 'importer' },
+      });
+    });
+
+    it('should fail when the forum is unreachable', async () => {
+      (global.fetch as any).mockResolvedValue({
+        ok: false,
+        status: 403,
+        text: async () => 'Forbidden',
+      });
+
+      await expect(adapter.initialize(baseConfig)).rejects.toThrow(
+        'Failed to connect to Discourse at https://forum.example.com: Discourse API error (403): Forbidden'
+      );
+    });
+  });
+
+  describe('Fetching', () => {
+    beforeEach(async () => {
+      await adapter.initialize(baseConfig);
+    });
+
+    it('should import topics and posts with reply links and tags', async () => {
+      forum.addTopic(1, '2026-01-01T10:00:00Z');
+      forum.addPost(1, '2026-01-01T11:00:00Z', '<p>Try <code>restart</code> &amp; wait</p>', {
+        username: 'bob',
+        name: null,
+        staff: true,
+        accepted_answer: true,
+      });
+      forum.addPost(1, '2026-01-01T12:00:00Z', '<p>Thanks</p>', { reply_to_post_number: 2 });
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.messageId)).toEqual([
+        'topic-1-post-1',
+        'topic-1-post-2',
+        'topic-1-post-3',
+      ]);
+      expect(messages[0]).toMatchObject({
+        content: 'Topic 1\n\nQuestion 1',
+        channel: 'support',
+        author: 'Alice',
+      });
+      expect(messages[1]).toMatchObject({ author: 'bob', content: 'Try restart & wait' });
+      expect(messages[1].metadata).toMatchObject({
+        threadId: 'topic-1',
+        replyToMessageId: 'topic-1-post-1',
+        isAcceptedAnswer: true,
+        isMaintainer: true,
+        url: 'https://forum.example.com/t/topic-1/1/2',
+      });
+      expect(messages[2].metadata).toMatchObject({
+        replyToMessageId: 'topic-1-post-2',
+        isAcceptedAnswer: false,
+        isMaintainer: false,
+      });
+    });
+
+    it('should only import posts created after the watermark', async () => {
+      forum.addTopic(1, '2026-01-01T10:00:00Z');
+      forum.addTopic(2, '2026-01-01T11:00:00Z');
+      await adapter.fetchMessages();
+
+      expect(watermarks.get('latest')!.lastImportedId).toBe('2026-01-01T11:00:00.000Z');
+
+      forum.addPost(1, '2026-01-02T09:00:00Z', '<p>Late reply</p>');
+      forum.requests = [];
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.messageId)).toEqual(['topic-1-post-2']);
+      // Topic 2 had no new activity and is not fetched again
+      expect(forum.requests.some((r) => r.path.startsWith('/t/2.json'))).toBe(false);
+      expect(watermarks.get('latest')!.lastImportedId).toBe('2026-01-02T09:00:00.000Z');
+    });
+
+    it('should load posts beyond the first chunk of the post stream', async () => {
+      forum.addTopic(1, '2026-01-01T10:00:00Z');
+      for (let i = 0; i < 24; i++) {
+        forum.addPost(1, `2026-01-01T11:${String(i).padStart(2, '0')}:00Z`, `<p>Reply ${i}</p>`);
+      }
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(25);
+      expect(forum.requests.filter((r) => r.path.startsWith('/t/1/posts.json'))).toHaveLength(1);
+    });
+
+    it('should page topic lists until reaching the watermark', async () => {
+      forum.topicPageSize = 2;
+      for (let i = 1; i <= 5; i++) {
+        forum.addTopic(i, `2026-01-0${i}T10:00:00Z`);
+      }
+      watermarks.set('latest', {
+        lastImportedId: '2026-01-02T10:00:00.000Z',
+        lastImportedTime: new Date('2026-01-02T10:00:00Z'),
+      });
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.messageId)).toEqual([
+        'topic-3-post-1',
+        'topic-4-post-1',
+        'topic-5-post-1',
+      ]);
+      expect(forum.requests.filter((r) => r.path.startsWith('/latest.json'))).toHaveLength(2);
+    });
+
+    it('should keep separate watermarks per configured category', async () => {
+      adapter = new DiscourseAdapter('test-discourse', mockDb);
+      await adapter.initialize({ ...baseConfig, categoryIds: [5, 6] });
+      forum.addTopic(1, '2026-01-01T10:00:00Z', 5);
+      forum.addTopic(2, '2026-01-03T10:00:00Z', 6);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(2);
+      expect(messages[1].channel).toBe('category-6');
+      expect(watermarks.get('category-5')!.lastImportedId).toBe('2026-01-01T10:00:00.000Z');
+      expect(watermarks.get('category-6')!.lastImportedId).toBe('2026-01-03T10:00:00.000Z');
+    });
+
+    it('should skip system accounts and small-action posts', async () => {
+      forum.addTopic(1, '2026-01-01T10:00:00Z');
+      forum.addPost(1, '2026-01-01T11:00:00Z', '<p>closed</p>', { post_type: 3 });
+      forum.addPost(1, '2026-01-01T12:00:00Z', '<p>Hi!</p>', { username: 'discobot' });
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(1);
+    });
+
+    it('should strip quoted posts from cooked HTML', () => {
+      const cooked =
+        '<aside class="quote no-group" data-post="1"><blockquote><p>Original</p></blockquote></aside>\n<p>My answer</p><pre><code>npm start\n</code></pre>';
+
+      expect(DiscourseAdapter.cookedToText(cooked)).toBe('My answer\n\n```\nnpm start\n```');
+    });
+
+    it('should record failures in the processing report and retry the topic later', async () => {
+      adapter = new DiscourseAdapter('test-discourse', mockDb);
+      await adapter.initialize({ ...baseConfig, reportDir: '/tmp/reports' });
+      forum.addTopic(1, '2026-01-01T10:00:00Z');
+      forum.addTopic(2, '2026-01-02T10:00:00Z');
+      forum.addTopic(3, '2026-01-03T10:00:00Z');
+      forum.addPost(1, '2026-01-01T11:00:00Z', '<p>   </p>');
+      forum.failingTopics.add(2);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.messageId)).toEqual(['topic-1-post-1']);
+      const report = adapter.getLastReport()!;
+      expect(report).toMatchObject({
+        fileName: 'forum.example.com',
+        totalRows: 2,
+        successfulRows: 1,
+        failedRows: 2,
+      });
+      expect(report.errors[0]).toEqual({ row: 1002, error: 'Post 1002 has no text content' });
+      expect(report.errors[1].error).toContain('Topic 2: Discourse API error (500)');
+      // Watermark stops before the failed topic so it is picked up again
+      expect(watermarks.get('latest')!.lastImportedId).toBe('2026-01-01T11:00:00.000Z');
+
+      expect(fs.mkdir).toHaveBeenCalledWith('/tmp/reports', { recursive: true });
+      const [reportPath, reportJson] = vi.mocked(fs.writeFile).mock.calls[0];
+      expect(reportPath).toMatch(/^\/tmp\/reports\/.*_test-discourse_report\.json$/);
+      expect(JSON.parse(reportJson as string).failedRows).toBe(2);
+
+      forum.failingTopics.clear();
+      const retried = await adapter.fetchMessages();
+      expect(retried.map((m) => m.messageId)).toEqual(['topic-2-post-1', 'topic-3-post-1']);
+    });
+
+    it('should retry once when rate limited', async () => {
+      forum.addTopic(1, '2026-01-01T10:00:00Z');
+      (global.fetch as any).mockImplementationOnce(async () => ({
+        ok: false,
+        status: 429,
+        headers: { get: () => '0' },
+      }));
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Documentation Chunker Tests
+ * Tests for heading-aware chunking of documentation pages
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chunkDocument, formatChunkForEmbedding } from '../server/embeddings/doc-chunker.js';
+
+describe('chunkDocument', () => {
+  it('should create one chunk per heading section with its heading path', () => {
+    const content = [
+      '# Guide',
+      'Intro text.',
+      '',
+      '## Setup',
+      'Install it.',
+      '',
+      '### Linux',
+      'Use apt.',
+    ].join('\n');
+
+    const chunks = chunkDocument(content);
+
+    expect(chunks.map((c) => c.headingPath)).toEqual([
+      ['Guide'],
+      ['Guide', 'Setup'],
+      ['Guide', 'Setup', 'Linux'],
+    ]);
+    expect(chunks[2]).toEqual({
+      index: 2,
+      headingPath: ['Guide', 'Setup', 'Linux'],
+      content: '### Linux\nUse apt.',
+      startLine: 7,
+      endLine: 8,
+    });
+  });
+
+  it('should keep text before the first heading and skip front matter', () => {
+    const content = ['---', 'title: Page', '---', 'Welcome.', '', '## Usage', 'Run it.'].join('\n');
+
+    const chunks = chunkDocument(content);
+
+    expect(chunks[0]).toMatchObject({ headingPath: [], content: 'Welcome.', startLine: 4 });
+    expect(chunks[1].headingPath).toEqual(['Usage']);
+  });
+
+  it('should skip sections that only contain a heading', () => {
+    const chunks = chunkDocument('# Title\n\n## Details\nSome text.');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headingPath).toEqual(['Title', 'Details']);
+    expect(chunks[0].index).toBe(0);
+  });
+
+  it('should split long sections at blank lines', () => {
+    const paragraph = 'x'.repeat(60);
+    const content = ['## Long', paragraph, '', paragraph, '', paragraph].join('\n');
+
+    const chunks = chunkDocument(content, { maxChars: 140 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((c) => c.headingPath[0] === 'Long')).toBe(true);
+    expect(chunks.every((c) => c.content.length <= 140)).toBe(true);
+    expect(chunks[1].startLine).toBeGreaterThan(chunks[0].endLine);
+  });
+
+  it('should not split at blank lines inside code fences', () => {
+    const content = ['## Code', '```', 'a', '', 'b', '```', '', 'After.'].join('\n');
+
+    const chunks = chunkDocument(content, { maxChars: 30 });
+
+    expect(chunks[0].content).toContain('```\na\n\nb\n```');
+  });
+
+  it('should chunk plain text without headings', () => {
+    const chunks = chunkDocument('Just some notes.\nMore notes.');
+
+    expect(chunks).toEqual([
+      {
+        index: 0,
+        headingPath: [],
+        content: 'Just some notes.\nMore notes.',
+        startLine: 1,
+        endLine: 2,
+      },
+    ]);
+  });
+});
+
+describe('formatChunkForEmbedding', () => {
+  it('should prefix the page title and heading path', () => {
+    const [chunk] = chunkDocument('## Linux\nUse apt.');
+
+    expect(formatChunkForEmbedding('Install Guide', chunk)).toBe(
+      'Install Guide > Linux\n\n## Linux\nUse apt.'
+    );
+  });
+});
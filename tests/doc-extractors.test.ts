@@ -0,0 +1,164 @@
+/**
+ * Documentation Extractor Tests
+ * Tests for converting reStructuredText, AsciiDoc and notebooks to markdown
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Line count of code blocks at the end of the file
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectDocFormat,
+  extractDocContent,
+  rstToMarkdown,
+  asciidocToMarkdown,
+  notebookToMarkdown,
+} from '../server/embeddings/doc-extractors.js';
+import { chunkDocument } from '../server/embeddings/doc-chunker.js';
+
+describe('detectDocFormat', () => {
+  it('should detect formats by extension', () => {
+    expect(detectDocFormat('docs/guide.MD')).toBe('markdown');
+    expect(detectDocFormat('docs/api.rst')).toBe('rst');
+    expect(detectDocFormat('docs/manual.adoc')).toBe('asciidoc');
+    expect(detectDocFormat('examples/intro.ipynb')).toBe('notebook');
+    expect(detectDocFormat('NOTES.txt')).toBe('text');
+  });
+});
+
+describe('rstToMarkdown', () => {
+  it('should convert section titles by adornment order and keep line numbers', () => {
+    const rst = [
+      '=====',
+      'Guide',
+      '=====',
+      '',
+      'Install',
+      '-------',
+      'Run pip.',
+      '',
+      'Linux',
+      '~~~~~',
+      'Use apt.',
+      '',
+      'Usage',
+      '-----',
+    ].join('\n');
+
+    const md = rstToMarkdown(rst);
+    const lines = md.split('\n');
+
+    expect(lines).toHaveLength(14);
+    expect(lines[1]).toBe('# Guide');
+    expect(lines[4]).toBe('## Install');
+    expect(lines[8]).toBe('### Linux');
+    expect(lines[12]).toBe('## Usage');
+    expect(lines[0]).toBe('');
+    expect(lines[5]).toBe('');
+  });
+
+  it('should fence code directives so comments are not read as headings', () => {
+    const rst = [
+      'Example',
+      '=======',
+      '.. code-block:: python',
+      '',
+      '    # not a heading',
+      '    print(1)',
+      '',
+      'After.',
+    ].join('\n');
+
+    const chunks = chunkDocument(rstToMarkdown(rst));
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headingPath).toEqual(['Example']);
+    expect(chunks[0].content).toContain('```python');
+    expect(chunks[0].endLine).toBe(8);
+  });
+
+  it('should keep one line per source line when a code block ends the file', () => {
+    const rst = ['Example', '=======', '.. code-block:: bash', '', '    make', '    make install'];
+
+    const lines = rstToMarkdown(rst.join('\n')).split('\n');
+
+    expect(lines).toHaveLength(rst.length);
+    expect(lines[2]).toBe('```bash');
+    expect(lines[5]).toBe('    make install');
+    expect(chunkDocument(lines.join('\n'))[0].content).toContain('make install');
+  });
+
+  it('should leave a code block unfenced when text follows it without a blank line', () => {
+    const rst = ['.. code-block:: bash', '', '    make', 'After.', ''];
+
+    expect(rstToMarkdown(rst.join('\n'))).toBe(rst.join('\n'));
+  });
+});
+
+describe('asciidocToMarkdown', () => {
+  it('should convert headings and listing blocks line by line', () => {
+    const adoc = [
+      '= Manual',
+      ':toc:',
+      '',
+      '== Setup',
+      '[source,bash]',
+      '----',
+      '# install',
+      'make install',
+      '----',
+      '',
+      '====',
+      'Example block',
+      '====',
+    ].join('\n');
+
+    const lines = asciidocToMarkdown(adoc).split('\n');
+
+    expect(lines).toHaveLength(13);
+    expect(lines[0]).toBe('# Manual');
+    expect(lines[3]).toBe('## Setup');
+    expect(lines[5]).toBe('```bash');
+    expect(lines[6]).toBe('# install');
+    expect(lines[8]).toBe('```');
+    expect(lines[12]).toBe('');
+    expect(chunkDocument(lines.join('\n')).map((c) => c.headingPath)).toEqual([
+      ['Manual'],
+      ['Manual', 'Setup'],
+    ]);
+  });
+
+  it('should turn comment blocks into HTML comments', () => {
+    const md = asciidocToMarkdown(['////', '== Hidden', '////', '== Shown', 'Text'].join('\n'));
+
+    expect(md.split('\n').slice(0, 3)).toEqual(['<!--', '== Hidden', '-->']);
+    expect(chunkDocument(md).map((c) => c.headingPath)).not.toContainEqual(['Hidden']);
+  });
+});
+
+describe('notebookToMarkdown', () => {
+  it('should keep markdown cells, fence code cells and drop outputs', () => {
+    const notebook = JSON.stringify({
+      metadata: { kernelspec: { language: 'python' } },
+      cells: [
+        { cell_type: 'markdown', source: ['# Intro\n', 'Hello'] },
+        { cell_type: 'code', source: 'print(1)', outputs: [{ text: '1' }] },
+        { cell_type: 'raw', source: 'ignored' },
+        { cell_type: 'code', source: [] },
+      ],
+    });
+
+    expect(notebookToMarkdown(notebook)).toBe('# Intro\nHello\n\n```python\nprint(1)\n```');
+  });
+
+  it('should reject invalid notebooks', () => {
+    expect(() => extractDocContent('broken.ipynb', '{')).toThrow('Invalid notebook');
+  });
+});
+
+describe('extractDocContent', () => {
+  it('should return markdown and unknown formats unchanged apart from line endings', () => {
+    expect(extractDocContent('a.md', '# A\r\ntext')).toBe('# A\ntext');
+    expect(extractDocContent('a.txt', 'plain')).toBe('plain');
+  });
+});
@@ -17,7 +17,7 @@ vi.mock('fs', () => ({
 const { mockPrisma, MockPrismaClient } = vi.hoisted(() => {
   const mockPrisma = {
     gitSyncState: {
-      findFirst: vi.fn(),
+      findMany: vi.fn(),
     },
     docIndexCache: {
       findUnique: vi.fn(),
@@ -74,7 +74,7 @@ describe('DocumentationIndexGenerator', () => {
     vi.mocked(fs.readFileSync).mockReturnValue(workingTestConfig);
 
     // Reset Prisma mocks
-    mockPrisma.gitSyncState.findFirst.mockReset();
+    mockPrisma.gitSyncState.findMany.mockReset();
     mockPrisma.docIndexCache.findUnique.mockReset();
     mockPrisma.docIndexCache.upsert.mockReset();
     mockPrisma.docIndexCache.deleteMany.mockReset();
@@ -156,9 +156,11 @@ describe('DocumentationIndexGenerator', () => {
     ];
 
     it('should generate fresh index when no cache', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({
-        lastCommitHash: 'abc123',
-      });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([
+        {
+          lastCommitHash: 'abc123',
+        },
+      ]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
       mockPrisma.documentPage.findMany.mockResolvedValue(mockDocuments);
       mockPrisma.docIndexCache.upsert.mockResolvedValue({});
@@ -187,9 +189,11 @@ describe('DocumentationIndexGenerator', () => {
         generated_at: new Date('2025-12-20T10:00:00Z'),
       };
 
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({
-        lastCommitHash: 'cached123',
-      });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([
+        {
+          lastCommitHash: 'cached123',
+        },
+      ]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue({
         indexData: cachedIndex,
       });
@@ -201,8 +205,25 @@ describe('DocumentationIndexGenerator', () => {
       expect(mockPrisma.documentPage.findMany).not.toHaveBeenCalled();
     });
 
+    it('should key the cache on the commits of all documentation sources', async () => {
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([
+        { sourceId: 'default', lastCommitHash: 'abc123' },
+        { sourceId: 'sdk', lastCommitHash: 'def456' },
+      ]);
+      mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
+      mockPrisma.documentPage.findMany.mockResolvedValue(mockDocuments);
+      mockPrisma.docIndexCache.upsert.mockResolvedValue({});
+
+      await generator.generateIndex();
+
+      const { commitHash } =
+        mockPrisma.docIndexCache.findUnique.mock.calls[0][0].where.commitHash_configHash;
+      expect(commitHash).toMatch(/^[0-9a-f]{40}$/);
+      expect(commitHash).not.toBe('abc123');
+    });
+
     it('should generate index without commit hash', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue(null);
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([]);
       mockPrisma.documentPage.findMany.mockResolvedValue(mockDocuments);
 
       const index = await generator.generateIndex();
@@ -212,7 +233,7 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should extract sections from markdown content', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({ lastCommitHash: 'test' });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([{ lastCommitHash: 'test' }]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
       mockPrisma.documentPage.findMany.mockResolvedValue(mockDocuments);
       mockPrisma.docIndexCache.upsert.mockResolvedValue({});
@@ -226,7 +247,7 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should filter documents by exclude patterns', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({ lastCommitHash: 'test' });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([{ lastCommitHash: 'test' }]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
       mockPrisma.documentPage.findMany.mockResolvedValue([
         ...mockDocuments,
@@ -249,7 +270,7 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should filter documents by exclude titles', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({ lastCommitHash: 'test' });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([{ lastCommitHash: 'test' }]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
       mockPrisma.documentPage.findMany.mockResolvedValue([
         ...mockDocuments,
@@ -269,7 +290,7 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should categorize pages by directory', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({ lastCommitHash: 'test' });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([{ lastCommitHash: 'test' }]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
       mockPrisma.documentPage.findMany.mockResolvedValue(mockDocuments);
       mockPrisma.docIndexCache.upsert.mockResolvedValue({});
@@ -283,7 +304,7 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should handle root level files', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({ lastCommitHash: 'test' });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([{ lastCommitHash: 'test' }]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
       mockPrisma.documentPage.findMany.mockResolvedValue([
         {
@@ -310,7 +331,7 @@ describe('DocumentationIndexGenerator', () => {
         updatedAt: new Date(),
       }));
 
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({ lastCommitHash: 'test' });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([{ lastCommitHash: 'test' }]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
       mockPrisma.documentPage.findMany.mockResolvedValue(manyDocs);
       mockPrisma.docIndexCache.upsert.mockResolvedValue({});
@@ -322,7 +343,7 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should handle database error getting commit hash', async () => {
-      mockPrisma.gitSyncState.findFirst.mockRejectedValue(new Error('DB error'));
+      mockPrisma.gitSyncState.findMany.mockRejectedValue(new Error('DB error'));
       mockPrisma.documentPage.findMany.mockResolvedValue(mockDocuments);
 
       const index = await generator.generateIndex();
@@ -331,7 +352,7 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should handle database error loading cache', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({ lastCommitHash: 'test' });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([{ lastCommitHash: 'test' }]);
       mockPrisma.docIndexCache.findUnique.mockRejectedValue(new Error('Cache error'));
       mockPrisma.documentPage.findMany.mockResolvedValue(mockDocuments);
       mockPrisma.docIndexCache.upsert.mockResolvedValue({});
@@ -342,7 +363,7 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should handle database error saving cache', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({ lastCommitHash: 'test' });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([{ lastCommitHash: 'test' }]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
       mockPrisma.documentPage.findMany.mockResolvedValue(mockDocuments);
       mockPrisma.docIndexCache.upsert.mockRejectedValue(new Error('Save error'));
@@ -493,9 +514,11 @@ describe('DocumentationIndexGenerator', () => {
 
   describe('invalidateCache', () => {
     it('should delete cache for current commit', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({
-        lastCommitHash: 'invalidate-me',
-      });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([
+        {
+          lastCommitHash: 'invalidate-me',
+        },
+      ]);
       mockPrisma.docIndexCache.deleteMany.mockResolvedValue({ count: 1 });
 
       await generator.invalidateCache();
@@ -508,7 +531,7 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should skip invalidation when no commit hash', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue(null);
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([]);
 
       await generator.invalidateCache();
 
@@ -516,9 +539,11 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should handle delete error gracefully', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({
-        lastCommitHash: 'error-test',
-      });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([
+        {
+          lastCommitHash: 'error-test',
+        },
+      ]);
       mockPrisma.docIndexCache.deleteMany.mockRejectedValue(new Error('Delete failed'));
 
       // Should not throw
@@ -528,9 +553,11 @@ describe('DocumentationIndexGenerator', () => {
 
   describe('getCacheStatus', () => {
     it('should return cached status when cache exists', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({
-        lastCommitHash: 'cached-commit',
-      });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([
+        {
+          lastCommitHash: 'cached-commit',
+        },
+      ]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue({
         generatedAt: new Date('2025-12-23T10:00:00Z'),
       });
@@ -543,7 +570,7 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should return not cached when no commit hash', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue(null);
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([]);
 
       const status = await generator.getCacheStatus();
 
@@ -553,9 +580,11 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should return not cached when cache not found', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({
-        lastCommitHash: 'no-cache',
-      });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([
+        {
+          lastCommitHash: 'no-cache',
+        },
+      ]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
 
       const status = await generator.getCacheStatus();
@@ -565,9 +594,11 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should handle error gracefully', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({
-        lastCommitHash: 'error-test',
-      });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([
+        {
+          lastCommitHash: 'error-test',
+        },
+      ]);
       mockPrisma.docIndexCache.findUnique.mockRejectedValue(new Error('Query failed'));
 
       const status = await generator.getCacheStatus();
@@ -579,7 +610,7 @@ describe('DocumentationIndexGenerator', () => {
 
   describe('generateSummary', () => {
     it('should generate summary from first substantive paragraph', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({ lastCommitHash: 'test' });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([{ lastCommitHash: 'test' }]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
       mockPrisma.documentPage.findMany.mockResolvedValue([
         {
@@ -599,7 +630,7 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should clean markdown formatting from summary', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({ lastCommitHash: 'test' });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([{ lastCommitHash: 'test' }]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
       mockPrisma.documentPage.findMany.mockResolvedValue([
         {
@@ -621,7 +652,7 @@ describe('DocumentationIndexGenerator', () => {
     });
 
     it('should truncate long summaries', async () => {
-      mockPrisma.gitSyncState.findFirst.mockResolvedValue({ lastCommitHash: 'test' });
+      mockPrisma.gitSyncState.findMany.mockResolvedValue([{ lastCommitHash: 'test' }]);
       mockPrisma.docIndexCache.findUnique.mockResolvedValue(null);
       mockPrisma.documentPage.findMany.mockResolvedValue([
         {
@@ -648,14 +679,14 @@ describe('loadProjectContext', () => {
     // Provide working config for loadProjectContext tests
     vi.mocked(fs.existsSync).mockReturnValue(true);
     vi.mocked(fs.readFileSync).mockReturnValue(workingTestConfig);
-    mockPrisma.gitSyncState.findFirst.mockReset();
+    mockPrisma.gitSyncState.findMany.mockReset();
     mockPrisma.docIndexCache.findUnique.mockReset();
     mockPrisma.documentPage.findMany.mockReset();
     mockPrisma.docIndexCache.upsert.mockReset();
   });
 
   it('should load project context with documentation index', async () => {
-    mockPrisma.gitSyncState.findFirst.mockResolvedValue(null);
+    mockPrisma.gitSyncState.findMany.mockResolvedValue([]);
     mockPrisma.documentPage.findMany.mockResolvedValue([]);
 
     const generator = new DocumentationIndexGenerator('test');
@@ -674,7 +705,7 @@ describe('loadProjectContext', () => {
     process.env.TARGET_AUDIENCE = 'Test Audience';
     process.env.STYLE_GUIDE = 'Test Style';
 
-    mockPrisma.gitSyncState.findFirst.mockResolvedValue(null);
+    mockPrisma.gitSyncState.findMany.mockResolvedValue([]);
     mockPrisma.documentPage.findMany.mockResolvedValue([]);
 
     const generator = new DocumentationIndexGenerator('test');
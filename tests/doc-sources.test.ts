@@ -0,0 +1,131 @@
+/**
+ * Documentation Sources Tests
+ * Tests for resolving pages to documentation repositories and source config validation
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getDocSources,
+  getDocSource,
+  resolveDocSource,
+  toPagePath,
+} from '../server/config/doc-sources.js';
+import { DocumentationConfigSchema } from '../server/config/schemas.js';
+
+const documentation = {
+  gitUrl: 'https://github.com/owner/docs',
+  branch: 'main',
+  gitToken: 'primary-token',
+  webhookSecret: 'primary-secret',
+  sources: [
+    { id: 'sdk', gitUrl: 'https://github.com/owner/sdk', pathPrefix: 'sdk' },
+    {
+      id: 'sdk-python',
+      gitUrl: 'https://github.com/owner/sdk-python',
+      branch: 'develop',
+      pathPrefix: '/sdk/python/',
+      gitToken: 'python-token',
+    },
+  ],
+};
+
+describe('getDocSources', () => {
+  it('should list the primary repository first without a path prefix', () => {
+    const [primary] = getDocSources(documentation);
+
+    expect(primary).toMatchObject({
+      id: 'default',
+      gitUrl: 'https://github.com/owner/docs',
+      branch: 'main',
+      pathPrefix: '',
+    });
+  });
+
+  it('should default branch and credentials of additional sources', () => {
+    const [, sdk, python] = getDocSources(documentation);
+
+    expect(sdk).toMatchObject({
+      branch: 'main',
+      gitToken: 'primary-token',
+      webhookSecret: 'primary-secret',
+    });
+    expect(python).toMatchObject({
+      branch: 'develop',
+      pathPrefix: 'sdk/python',
+      gitToken: 'python-token',
+    });
+  });
+
+  it('should return only the primary repository without sources', () => {
+    expect(getDocSources({ gitUrl: 'https://github.com/owner/docs', branch: 'main' })).toHaveLength(
+      1
+    );
+  });
+});
+
+describe('resolveDocSource', () => {
+  const sources = getDocSources(documentation);
+
+  it('should pick the longest matching path prefix', () => {
+    expect(resolveDocSource(sources, 'sdk/python/install.md')).toMatchObject({
+      source: { id: 'sdk-python' },
+      repoPath: 'install.md',
+    });
+    expect(resolveDocSource(sources, 'sdk/guide/install.md')).toMatchObject({
+      source: { id: 'sdk' },
+      repoPath: 'guide/install.md',
+    });
+  });
+
+  it('should fall back to the primary repository', () => {
+    expect(resolveDocSource(sources, 'sdk-guide.md')).toMatchObject({
+      source: { id: 'default' },
+      repoPath: 'sdk-guide.md',
+    });
+  });
+
+  it('should round-trip page paths', () => {
+    const { source, repoPath } = resolveDocSource(sources, 'sdk/python/api/client.md');
+    expect(toPagePath(source, repoPath)).toBe('sdk/python/api/client.md');
+  });
+});
+
+describe('getDocSource', () => {
+  it('should resolve null to the primary repository', () => {
+    const sources = getDocSources(documentation);
+
+    expect(getDocSource(sources, null)?.id).toBe('default');
+    expect(getDocSource(sources, 'sdk')?.gitUrl).toBe('https://github.com/owner/sdk');
+    expect(getDocSource(sources, 'removed')).toBeNull();
+  });
+});
+
+describe('DocumentationConfigSchema sources', () => {
+  it('should reject duplicate ids and path prefixes', () => {
+    const result = DocumentationConfigSchema.safeParse({
+      ...documentation,
+      sources: [
+        { id: 'sdk', gitUrl: 'https://github.com/owner/sdk', pathPrefix: 'sdk' },
+        { id: 'sdk', gitUrl: 'https://github.com/owner/sdk2', pathPrefix: 'sdk/' },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+      'Duplicate source id "sdk"',
+      'Duplicate source path prefix "sdk"',
+    ]);
+  });
+
+  it('should reject the reserved id and an empty path prefix', () => {
+    const result = DocumentationConfigSchema.safeParse({
+      ...documentation,
+      sources: [{ id: 'default', gitUrl: 'https://github.com/owner/sdk', pathPrefix: '/' }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toHaveLength(2);
+  });
+});
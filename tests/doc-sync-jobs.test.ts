@@ -0,0 +1,293 @@
+/**
+ * Documentation Sync Job Tests
+ * Tests for background sync jobs: progress, resume, cancellation and conflicts
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Job lock conflicts, pending re-syncs and head re-check after resuming
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockSyncDocumentation, MockCancelledError } = vi.hoisted(() => {
+  class MockCancelledError extends Error {}
+  return { mockSyncDocumentation: vi.fn(), MockCancelledError };
+});
+
+vi.mock('../server/doc-sync.js', () => ({
+  syncDocumentation: mockSyncDocumentation,
+  DocSyncCancelledError: MockCancelledError,
+}));
+
+import { Prisma } from '@prisma/client';
+import { DocSyncJobService, STALE_JOB_MS } from '../server/doc-sync-jobs.js';
+
+const mockPrisma = {
+  docSyncJob: {
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+  },
+  changesetBatch: {
+    count: vi.fn(),
+    updateMany: vi.fn(),
+  },
+};
+
+function job(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    jobId: 'job-1',
+    status: 'running',
+    force: false,
+    commits: null,
+    totalFiles: 0,
+    processedFiles: 0,
+    currentFile: null,
+    summary: null,
+    failures: null,
+    result: null,
+    errorMessage: null,
+    cancelRequested: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    completedAt: null,
+    ...overrides,
+  } as any;
+}
+
+const syncResult = {
+  success: true,
+  hadUpdates: true,
+  currentHash: 'bbb',
+  previousHash: 'aaa',
+  commits: { default: { fromHash: 'aaa', toHash: 'bbb' } },
+  summary: { added: 1, modified: 0, deleted: 0, filesProcessed: ['a.md'] },
+  failures: [],
+  totalDocuments: 10,
+  duration: 5,
+};
+
+// Let the background run settle
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('DocSyncJobService', () => {
+  let service: DocSyncJobService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new DocSyncJobService(mockPrisma as any, 'projecta');
+    mockPrisma.docSyncJob.findFirst.mockResolvedValue(null);
+    mockPrisma.docSyncJob.create.mockResolvedValue(job());
+    mockPrisma.docSyncJob.update.mockImplementation(async ({ data }: any) => job(data));
+    mockPrisma.changesetBatch.count.mockResolvedValue(0);
+  });
+
+  it('should start a job in the background and record its result', async () => {
+    mockSyncDocumentation.mockImplementation(async (_instance: string, options: any) => {
+      await options.onProgress({
+        commits: { default: { fromHash: 'aaa', toHash: 'bbb' } },
+        totalFiles: 1,
+        processedFiles: 1,
+        currentFile: null,
+        summary: syncResult.summary,
+        failures: [],
+      });
+      return syncResult;
+    });
+
+    const started = await service.startJob();
+    await flush();
+
+    expect(started).toMatchObject({ resumed: false, job: { status: 'running' } });
+    expect(mockSyncDocumentation).toHaveBeenCalledWith(
+      'projecta',
+      expect.objectContaining({ force: false, signal: expect.any(AbortSignal) })
+    );
+    expect(mockPrisma.docSyncJob.update).toHaveBeenCalledWith({
+      where: { jobId: 'job-1' },
+      data: expect.objectContaining({
+        commits: { default: { fromHash: 'aaa', toHash: 'bbb' } },
+        processedFiles: 1,
+      }),
+    });
+    expect(mockPrisma.docSyncJob.update).toHaveBeenLastCalledWith({
+      where: { jobId: 'job-1' },
+      data: expect.objectContaining({
+        status: 'completed',
+        result: expect.objectContaining({ totalDocuments: 10 }),
+      }),
+    });
+    // A fresh sync covers the re-syncs pending for merged batches
+    expect(mockPrisma.changesetBatch.updateMany).toHaveBeenCalledWith({
+      where: { resyncPending: true },
+      data: { resyncPending: false },
+    });
+    expect(mockSyncDocumentation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to start while another job is running', async () => {
+    mockPrisma.docSyncJob.findFirst.mockResolvedValue(job({ jobId: 'other' }));
+
+    expect(await service.startJob()).toBeNull();
+    expect(mockPrisma.docSyncJob.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to start when another process takes the job lock first', async () => {
+    mockPrisma.docSyncJob.create.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: '6.0.0',
+      })
+    );
+
+    expect(await service.startJob()).toBeNull();
+    expect(mockPrisma.changesetBatch.updateMany).not.toHaveBeenCalled();
+    expect(mockSyncDocumentation).not.toHaveBeenCalled();
+  });
+
+  it('should release the lock of stale running jobs before starting', async () => {
+    await service.startJob();
+
+    expect(mockPrisma.docSyncJob.updateMany).toHaveBeenCalledWith({
+      where: {
+        status: 'running',
+        updatedAt: { lt: expect.any(Date) },
+        jobId: { notIn: expect.any(Array) },
+      },
+      data: { status: 'interrupted' },
+    });
+  });
+
+  it('should start the pending re-sync when a merge lands while a sync is running', async () => {
+    let release: () => void = () => {};
+    mockSyncDocumentation.mockImplementationOnce(async () => {
+      await new Promise<void>((resolve) => (release = resolve));
+      return syncResult;
+    });
+    mockSyncDocumentation.mockResolvedValue(syncResult);
+
+    await service.startJob();
+    // The merge finds the job running and leaves its batch flagged
+    mockPrisma.docSyncJob.findFirst.mockResolvedValue(job());
+    expect(await service.startJob()).toBeNull();
+    mockPrisma.changesetBatch.count.mockResolvedValueOnce(1);
+
+    mockPrisma.docSyncJob.findFirst.mockResolvedValue(job({ status: 'completed' }));
+    mockPrisma.docSyncJob.create.mockResolvedValue(job({ jobId: 'job-2' }));
+    release();
+    await flush();
+
+    expect(mockSyncDocumentation).toHaveBeenCalledTimes(2);
+    expect(mockSyncDocumentation.mock.calls[1][1]).not.toHaveProperty('resume');
+    expect(mockPrisma.docSyncJob.create).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.changesetBatch.updateMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave pending re-syncs to the next sync after a cancellation', async () => {
+    mockSyncDocumentation.mockRejectedValue(new MockCancelledError('cancelled'));
+    mockPrisma.changesetBatch.count.mockResolvedValue(1);
+
+    await service.startJob();
+    await flush();
+
+    expect(mockSyncDocumentation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resume an interrupted job and then re-check the source heads', async () => {
+    const stale = job({
+      jobId: 'job-old',
+      commits: { default: { fromHash: 'aaa', toHash: 'bbb' } },
+      processedFiles: 7,
+      summary: { added: 7, modified: 0, deleted: 0, filesProcessed: [] },
+      updatedAt: new Date(Date.now() - STALE_JOB_MS - 1000),
+    });
+    // Latest job while starting (active job check, interrupted job lookup); completed afterwards
+    mockPrisma.docSyncJob.findFirst
+      .mockResolvedValueOnce(stale)
+      .mockResolvedValueOnce(stale)
+      .mockResolvedValue(job({ jobId: 'job-old', status: 'completed' }));
+    mockPrisma.docSyncJob.update.mockImplementation(async ({ where, data }: any) =>
+      where.jobId === 'job-old' ? { ...stale, ...data } : job(data)
+    );
+    mockSyncDocumentation.mockResolvedValue(syncResult);
+
+    const started = await service.startJob();
+
+    expect(started?.resumed).toBe(true);
+    expect(mockPrisma.docSyncJob.create).not.toHaveBeenCalled();
+    expect(mockPrisma.changesetBatch.updateMany).not.toHaveBeenCalled();
+    expect(mockSyncDocumentation).toHaveBeenCalledWith(
+      'projecta',
+      expect.objectContaining({
+        resume: expect.objectContaining({
+          commits: { default: { fromHash: 'aaa', toHash: 'bbb' } },
+          processedFiles: 7,
+        }),
+      })
+    );
+
+    await flush();
+
+    // The pinned commits may be behind the source heads by now: sync again from the last sync
+    expect(mockPrisma.docSyncJob.create).toHaveBeenCalledTimes(1);
+    expect(mockSyncDocumentation).toHaveBeenCalledTimes(2);
+    expect(mockSyncDocumentation.mock.calls[1][1]).not.toHaveProperty('resume');
+  });
+
+  it('should report stale running jobs as interrupted', async () => {
+    mockPrisma.docSyncJob.findUnique.mockResolvedValue(
+      job({ updatedAt: new Date(Date.now() - STALE_JOB_MS - 1000) })
+    );
+
+    expect((await service.getJob('job-1'))?.status).toBe('interrupted');
+  });
+
+  it('should mark cancelled jobs and abort through the signal', async () => {
+    let signal: AbortSignal | undefined;
+    let release: () => void = () => {};
+    mockSyncDocumentation.mockImplementation(async (_instance: string, options: any) => {
+      signal = options.signal;
+      await new Promise<void>((resolve) => (release = resolve));
+      throw new MockCancelledError('cancelled');
+    });
+
+    await service.startJob();
+    mockPrisma.docSyncJob.findUnique.mockResolvedValue(job());
+    await service.cancelJob('job-1');
+
+    expect(signal?.aborted).toBe(true);
+    expect(mockPrisma.docSyncJob.update).toHaveBeenCalledWith({
+      where: { jobId: 'job-1' },
+      data: { cancelRequested: true },
+    });
+
+    release();
+    await flush();
+
+    expect(mockPrisma.docSyncJob.update).toHaveBeenLastCalledWith({
+      where: { jobId: 'job-1' },
+      data: expect.objectContaining({ status: 'cancelled', errorMessage: null }),
+    });
+  });
+
+  it('should record sync errors as failed jobs', async () => {
+    mockSyncDocumentation.mockRejectedValue(new Error('clone failed'));
+
+    await service.startJob();
+    await flush();
+
+    expect(mockPrisma.docSyncJob.update).toHaveBeenLastCalledWith({
+      where: { jobId: 'job-1' },
+      data: expect.objectContaining({ status: 'failed', errorMessage: 'clone failed' }),
+    });
+  });
+
+  it('should not resume completed jobs', async () => {
+    mockPrisma.docSyncJob.findUnique.mockResolvedValue(job({ status: 'completed' }));
+
+    expect(await service.resumeJob('job-1')).toBeNull();
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Documentation Sync Tests
+ * Tests for per-file progress, resume and cancellation of documentation sync
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockFetcher, mockSdkFetcher, mockStore, mockGetConfig, mockEmbedder } = vi.hoisted(() => ({
+  mockFetcher: {
+    updateSyncStatus: vi.fn(),
+    updateCommitHash: vi.fn(),
+    checkForUpdates: vi.fn(),
+    fetchChangedFiles: vi.fn(),
+  },
+  mockSdkFetcher: {
+    updateSyncStatus: vi.fn(),
+    updateCommitHash: vi.fn(),
+    checkForUpdates: vi.fn(),
+    fetchChangedFiles: vi.fn(),
+  },
+  mockGetConfig: vi.fn(),
+  mockStore: {
+    deleteDocument: vi.fn(),
+    hasChunks: vi.fn(),
+    upsertDocument: vi.fn(),
+    renameDocument: vi.fn(),
+    getStats: vi.fn(),
+    getEmbeddingDimensions: vi.fn(),
+  },
+  mockEmbedder: { name: 'gemini', dimensions: 768, embedText: vi.fn(async () => [0.1]) },
+}));
+
+vi.mock('../server/git-fetcher.js', () => ({
+  GitFetcher: vi.fn(function (_instanceId: string, _db: unknown, source: { id: string }) {
+    return source.id === 'sdk' ? mockSdkFetcher : mockFetcher;
+  }),
+}));
+
+vi.mock('../server/vector-store.js', () => ({
+  PgVectorStore: vi.fn(function () {
+    return mockStore;
+  }),
+}));
+
+vi.mock('../server/db/instance-db.js', () => ({
+  getInstanceDb: vi.fn(() => ({ docProposal: { updateMany: vi.fn(async () => ({ count: 0 })) } })),
+}));
+
+vi.mock('../server/config/instance-loader.js', () => ({
+  InstanceConfigLoader: {
+    get: mockGetConfig,
+    has: vi.fn(() => true),
+  },
+}));
+
+vi.mock('../server/stream/doc-index-generator.js', () => ({
+  docIndexGenerator: { invalidateCache: vi.fn() },
+}));
+
+vi.mock('../server/llm/providers/index.js', () => ({
+  getDefaultEmbeddingProvider: vi.fn(() => mockEmbedder),
+  createEmbeddingProvider: vi.fn(),
+}));
+
+vi.mock('../server/embeddings/gemini-embedder.js', () => ({
+  GeminiEmbedder: {
+    extractTitle: vi.fn(() => 'Title'),
+    prepareText: vi.fn((text: string) => text),
+  },
+}));
+
+import { syncDocumentation, DocSyncCancelledError } from '../server/doc-sync.js';
+
+const file = (path: string, changeType = 'modified') => ({
+  path,
+  content: `# ${path}\nText`,
+  lastModified: new Date(),
+  commitHash: 'bbb',
+  changeType,
+});
+
+describe('syncDocumentation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetConfig.mockReturnValue({
+      documentation: { gitUrl: 'https://github.com/o/docs', branch: 'main' },
+    });
+    mockFetcher.checkForUpdates.mockResolvedValue({
+      hasUpdates: true,
+      currentHash: 'ccc',
+      storedHash: 'aaa',
+      changedFiles: [],
+    });
+    mockFetcher.fetchChangedFiles.mockResolvedValue([
+      file('a.md'),
+      file('b.md', 'deleted'),
+      file('c.md', 'added'),
+    ]);
+    mockStore.hasChunks.mockResolvedValue(false);
+    mockStore.getStats.mockResolvedValue({ totalDocuments: 3, documentsWithEmbeddings: 3 });
+    mockStore.getEmbeddingDimensions.mockResolvedValue([768]);
+  });
+
+  it('should report progress per file with deletions first', async () => {
+    const progress: Array<[number, string | null]> = [];
+
+    const result = await syncDocumentation('projecta', {
+      onProgress: (p) => {
+        progress.push([p.processedFiles, p.currentFile]);
+      },
+    });
+
+    expect(progress).toEqual([
+      [0, null],
+      [1, null],
+      [2, null],
+      [3, null],
+    ]);
+    expect(mockStore.deleteDocument).toHaveBeenCalledWith('b.md');
+    expect(result.summary).toMatchObject({ added: 1, modified: 1, deleted: 1 });
+    expect(mockFetcher.updateCommitHash).toHaveBeenCalledWith('ccc');
+  });
+
+  it('should resume the pinned diff after the files already handled', async () => {
+    const result = await syncDocumentation('projecta', {
+      resume: {
+        commits: { default: { fromHash: 'aaa', toHash: 'bbb' } },
+        processedFiles: 2,
+        summary: { added: 0, modified: 1, deleted: 1, filesProcessed: ['b.md', 'a.md'] },
+      },
+    });
+
+    expect(mockFetcher.fetchChangedFiles).toHaveBeenCalledWith('aaa', 'bbb');
+    expect(mockStore.upsertDocument).toHaveBeenCalledTimes(1);
+    expect(mockStore.upsertDocument).toHaveBeenCalledWith(
+      expect.objectContaining({ filePath: 'c.md' })
+    );
+    expect(result.summary).toMatchObject({ added: 1, modified: 1, deleted: 1 });
+    expect(result.currentHash).toBe('bbb');
+    expect(mockFetcher.updateCommitHash).toHaveBeenCalledWith('bbb');
+  });
+
+  it('should collect failures without stopping the sync', async () => {
+    mockStore.upsertDocument.mockRejectedValueOnce(new Error('embedding quota exceeded'));
+
+    const result = await syncDocumentation('projecta');
+
+    expect(result.failures).toEqual([{ path: 'a.md', error: 'embedding quota exceeded' }]);
+    expect(result.summary.added).toBe(1);
+  });
+
+  it('should refuse to embed when stored vectors have another dimension', async () => {
+    mockStore.getEmbeddingDimensions.mockResolvedValue([1536]);
+
+    await expect(syncDocumentation('projecta')).rejects.toThrow(
+      'Run "npm run embeddings:reembed -- projecta" first'
+    );
+
+    expect(mockEmbedder.embedText).not.toHaveBeenCalled();
+    expect(mockFetcher.updateCommitHash).not.toHaveBeenCalled();
+    expect(mockFetcher.updateSyncStatus).toHaveBeenLastCalledWith(
+      'error',
+      expect.stringContaining('1536-dimensional embeddings')
+    );
+  });
+
+  it('should stop between files when cancelled and keep the commit hash', async () => {
+    const controller = new AbortController();
+
+    await expect(
+      syncDocumentation('projecta', {
+        signal: controller.signal,
+        onProgress: (p) => {
+          if (p.processedFiles === 1) controller.abort();
+        },
+      })
+    ).rejects.toBeInstanceOf(DocSyncCancelledError);
+
+    expect(mockStore.upsertDocument).not.toHaveBeenCalled();
+    expect(mockFetcher.updateCommitHash).not.toHaveBeenCalled();
+    expect(mockFetcher.updateSyncStatus).toHaveBeenLastCalledWith('idle', 'Sync cancelled');
+  });
+
+  it('should sync additional sources under their path prefix', async () => {
+    mockGetConfig.mockReturnValue({
+      documentation: {
+        gitUrl: 'https://github.com/o/docs',
+        branch: 'main',
+        sources: [{ id: 'sdk', gitUrl: 'https://github.com/o/sdk', pathPrefix: 'sdk' }],
+      },
+    });
+    mockFetcher.fetchChangedFiles.mockResolvedValue([file('a.md')]);
+    mockSdkFetcher.checkForUpdates.mockResolvedValue({
+      hasUpdates: true,
+      currentHash: 'sdk2',
+      storedHash: 'sdk1',
+      changedFiles: [],
+    });
+    mockSdkFetcher.fetchChangedFiles.mockResolvedValue([
+      { ...file('guide/install.md', 'renamed'), previousPath: 'install.md', similarity: 80 },
+    ]);
+    mockStore.renameDocument.mockResolvedValue(true);
+
+    const result = await syncDocumentation('projecta');
+
+    expect(mockSdkFetcher.fetchChangedFiles).toHaveBeenCalledWith('sdk1', 'sdk2');
+    expect(mockStore.renameDocument).toHaveBeenCalledWith(
+      'sdk/install.md',
+      'sdk/guide/install.md',
+      undefined
+    );
+    expect(mockStore.upsertDocument).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filePath: 'sdk/guide/install.md',
+        gitUrl: 'https://github.com/o/sdk',
+      })
+    );
+    expect(mockStore.upsertDocument).toHaveBeenCalledWith(
+      expect.objectContaining({ filePath: 'a.md', gitUrl: 'https://github.com/o/docs' })
+    );
+    expect(result.commits).toEqual({
+      default: { fromHash: 'aaa', toHash: 'ccc' },
+      sdk: { fromHash: 'sdk1', toHash: 'sdk2' },
+    });
+    expect(mockFetcher.updateCommitHash).toHaveBeenCalledWith('ccc');
+    expect(mockSdkFetcher.updateCommitHash).toHaveBeenCalledWith('sdk2');
+  });
+});
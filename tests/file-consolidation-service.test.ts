@@ -3,19 +3,25 @@
  * Tests for LLM-based file consolidation of documentation proposals
 
  * Date: 2025-12-23
+ * Updated: 2026-10-19 - Consolidation calls recorded in the instance's LLM usage
  */
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { FileConsolidationService } from '../server/stream/services/file-consolidation-service.js';
 import { DocProposal } from '@prisma/client';
 
-// Mock the llmService
-vi.mock('../server/stream/llm/llm-service.js', () => ({
-  llmService: {
+const { mockHandler } = vi.hoisted(() => ({
+  mockHandler: {
+    name: 'gemini',
     requestJSON: vi.fn(),
   },
 }));
 
+// Mock the pipeline's LLM handler
+vi.mock('../server/pipeline/handlers/LLMHandlerFactory.js', () => ({
+  getLLMHandler: vi.fn(() => mockHandler),
+}));
+
 // Mock the config loader
 vi.mock('../server/config/loader.js', () => ({
   getConfig: vi.fn(() => ({
@@ -40,8 +46,6 @@ vi.mock('../server/pipeline/prompts/PromptRegistry.js', () => ({
   PromptRegistry: vi.fn(),
 }));
 
-import { llmService } from '../server/stream/llm/llm-service.js';
-
 // Helper to create mock proposals
 function createMockProposal(overrides: Partial<DocProposal> = {}): DocProposal {
   return {
@@ -68,6 +72,8 @@ function createMockProposal(overrides: Partial<DocProposal> = {}): DocProposal {
 describe('FileConsolidationService', () => {
   let service: FileConsolidationService;
   let consoleSpy: any;
+  const db = { llmUsage: { create: vi.fn() } };
+  const usage = { db: db as any, instanceId: 'projecta' };
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -86,16 +92,16 @@ describe('FileConsolidationService', () => {
 
   describe('consolidateFile', () => {
     it('should return original content if no proposals', async () => {
-      const result = await service.consolidateFile('docs/test.md', '# Original Content', []);
+      const result = await service.consolidateFile('docs/test.md', '# Original Content', [], usage);
 
       expect(result.consolidatedContent).toBe('# Original Content');
-      expect(llmService.requestJSON).not.toHaveBeenCalled();
+      expect(mockHandler.requestJSON).not.toHaveBeenCalled();
     });
 
     it('should call LLM service with correct parameters', async () => {
-      vi.mocked(llmService.requestJSON).mockResolvedValue({
+      mockHandler.requestJSON.mockResolvedValue({
         data: { consolidatedContent: '# Consolidated Content' },
-        response: { content: '', modelUsed: 'test', tokensUsed: 100 },
+        response: { text: '', model: 'test', tokensUsed: 100 },
       });
 
       const proposals = [
@@ -106,9 +112,9 @@ describe('FileConsolidationService', () => {
         }),
       ];
 
-      await service.consolidateFile('docs/test.md', '# Original', proposals);
+      await service.consolidateFile('docs/test.md', '# Original', proposals, usage);
 
-      expect(llmService.requestJSON).toHaveBeenCalledWith(
+      expect(mockHandler.requestJSON).toHaveBeenCalledWith(
         expect.objectContaining({
           model: expect.any(String),
           systemPrompt: expect.any(String),
@@ -116,27 +122,56 @@ describe('FileConsolidationService', () => {
           temperature: 0.3,
           maxTokens: 8000,
         }),
-        expect.any(Object)
+        expect.any(Object),
+        { instanceId: 'projecta', purpose: 'file-consolidation' }
       );
     });
 
     it('should return consolidated content from LLM', async () => {
-      vi.mocked(llmService.requestJSON).mockResolvedValue({
+      mockHandler.requestJSON.mockResolvedValue({
         data: { consolidatedContent: '# New Content\n\nUpdated documentation.' },
-        response: { content: '', modelUsed: 'test', tokensUsed: 150 },
+        response: { text: '', model: 'test', tokensUsed: 150 },
       });
 
       const proposals = [createMockProposal()];
-      const result = await service.consolidateFile('docs/test.md', '# Original', proposals);
+      const result = await service.consolidateFile('docs/test.md', '# Original', proposals, usage);
 
       expect(result.consolidatedContent).toBe('# New Content\n\nUpdated documentation.');
       expect(result.tokensUsed).toBe(150);
     });
 
+    it('should record the LLM usage for the instance', async () => {
+      mockHandler.requestJSON.mockResolvedValue({
+        data: { consolidatedContent: '# Result' },
+        response: {
+          text: '',
+          model: 'gemini-2.5-flash',
+          provider: 'gemini',
+          inputTokens: 2000,
+          outputTokens: 1000,
+          costUSD: 0.00045,
+        },
+      });
+
+      await service.consolidateFile('docs/test.md', '# Original', [createMockProposal()], usage);
+
+      expect(db.llmUsage.create).toHaveBeenCalledWith({
+        data: {
+          instanceId: 'projecta',
+          purpose: 'file-consolidation',
+          provider: 'gemini',
+          model: 'gemini-2.5-flash',
+          inputTokens: 2000,
+          outputTokens: 1000,
+          costUsd: 0.00045,
+        },
+      });
+    });
+
     it('should format multiple proposals correctly', async () => {
-      vi.mocked(llmService.requestJSON).mockResolvedValue({
+      mockHandler.requestJSON.mockResolvedValue({
         data: { consolidatedContent: '# Multi-change content' },
-        response: { content: '', modelUsed: 'test', tokensUsed: 200 },
+        response: { text: '', model: 'test', tokensUsed: 200 },
       });
 
       const proposals = [
@@ -163,16 +198,16 @@ describe('FileConsolidationService', () => {
         }),
       ];
 
-      await service.consolidateFile('docs/guide.md', '# Original Guide', proposals);
+      await service.consolidateFile('docs/guide.md', '# Original Guide', proposals, usage);
 
-      const call = vi.mocked(llmService.requestJSON).mock.calls[0];
+      const call = mockHandler.requestJSON.mock.calls[0];
       expect(call[0].userPrompt).toContain('Test Project');
     });
 
     it('should use editedText over suggestedText when available', async () => {
-      vi.mocked(llmService.requestJSON).mockResolvedValue({
+      mockHandler.requestJSON.mockResolvedValue({
         data: { consolidatedContent: '# Result' },
-        response: { content: '', modelUsed: 'test', tokensUsed: 100 },
+        response: { text: '', model: 'test', tokensUsed: 100 },
       });
 
       const proposals = [
@@ -182,26 +217,26 @@ describe('FileConsolidationService', () => {
         }),
       ];
 
-      await service.consolidateFile('docs/test.md', '# Original', proposals);
+      await service.consolidateFile('docs/test.md', '# Original', proposals, usage);
 
-      const call = vi.mocked(llmService.requestJSON).mock.calls[0];
+      const call = mockHandler.requestJSON.mock.calls[0];
       expect(call[0].userPrompt).toBeDefined();
     });
 
     it('should handle LLM errors gracefully', async () => {
-      vi.mocked(llmService.requestJSON).mockRejectedValue(new Error('LLM service unavailable'));
+      mockHandler.requestJSON.mockRejectedValue(new Error('LLM service unavailable'));
 
       const proposals = [createMockProposal()];
 
       await expect(
-        service.consolidateFile('docs/test.md', '# Original', proposals)
+        service.consolidateFile('docs/test.md', '# Original', proposals, usage)
       ).rejects.toThrow('Failed to consolidate file docs/test.md: LLM service unavailable');
     });
 
     it('should handle proposals with missing sections', async () => {
-      vi.mocked(llmService.requestJSON).mockResolvedValue({
+      mockHandler.requestJSON.mockResolvedValue({
         data: { consolidatedContent: '# Result' },
-        response: { content: '', modelUsed: 'test', tokensUsed: 100 },
+        response: { text: '', model: 'test', tokensUsed: 100 },
       });
 
       const proposals = [
@@ -212,20 +247,20 @@ describe('FileConsolidationService', () => {
         }),
       ];
 
-      await service.consolidateFile('docs/test.md', '# Original', proposals);
+      await service.consolidateFile('docs/test.md', '# Original', proposals, usage);
 
       // Should complete without error, using defaults
-      expect(llmService.requestJSON).toHaveBeenCalled();
+      expect(mockHandler.requestJSON).toHaveBeenCalled();
     });
 
     it('should log consolidation progress', async () => {
-      vi.mocked(llmService.requestJSON).mockResolvedValue({
+      mockHandler.requestJSON.mockResolvedValue({
         data: { consolidatedContent: '# Result' },
-        response: { content: '', modelUsed: 'test', tokensUsed: 100 },
+        response: { text: '', model: 'test', tokensUsed: 100 },
       });
 
       const proposals = [createMockProposal({ updateType: 'UPDATE' })];
-      await service.consolidateFile('docs/test.md', '# Original content here', proposals);
+      await service.consolidateFile('docs/test.md', '# Original content here', proposals, usage);
 
       expect(consoleSpy.log).toHaveBeenCalledWith(expect.stringContaining('CONSOLIDATING FILE'));
       expect(consoleSpy.log).toHaveBeenCalledWith(
@@ -234,12 +269,12 @@ describe('FileConsolidationService', () => {
     });
 
     it('should log errors on failure', async () => {
-      vi.mocked(llmService.requestJSON).mockRejectedValue(new Error('API error'));
+      mockHandler.requestJSON.mockRejectedValue(new Error('API error'));
 
       const proposals = [createMockProposal()];
 
       await expect(
-        service.consolidateFile('docs/test.md', '# Original', proposals)
+        service.consolidateFile('docs/test.md', '# Original', proposals, usage)
       ).rejects.toThrow();
 
       expect(consoleSpy.error).toHaveBeenCalledWith(
@@ -489,6 +489,122 @@ describe('FileModificationService', () => {
     });
   });
 
+  describe('Markdown structure', () => {
+    function mockFile(content: string) {
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.readFile).mockResolvedValue(content);
+    }
+
+    it('should ignore headings inside fenced code blocks', async () => {
+      mockFile(
+        '## Config\n\n```bash\n# Install deps\nnpm ci\n```\n\n## Install deps\n\nRun the installer'
+      );
+
+      const proposal = createMockProposal({
+        updateType: 'UPDATE',
+        suggestedText: 'Use pnpm',
+        section: 'Install deps',
+      });
+
+      const result = await service.applyProposalsToFile('test.md', [proposal]);
+
+      expect(result).toBe(
+        '## Config\n\n```bash\n# Install deps\nnpm ci\n```\n\n## Install deps\nUse pnpm'
+      );
+    });
+
+    it('should not end sections at headings inside fences', async () => {
+      mockFile('## Usage\n\n~~~\n## not a heading\n~~~\n\n## Next\n\nNext content');
+
+      const proposal = createMockProposal({
+        updateType: 'DELETE',
+        section: 'Usage',
+      });
+
+      const result = await service.applyProposalsToFile('test.md', [proposal]);
+
+      expect(result).toBe('## Next\n\nNext content');
+    });
+
+    it('should handle setext headings', async () => {
+      mockFile('Guide\n=====\n\nIntro\n\nSetup\n-----\n\nOld steps\n\nFAQ\n---\n\nAnswers');
+
+      const proposal = createMockProposal({
+        updateType: 'UPDATE',
+        suggestedText: 'New steps',
+        section: 'Setup',
+      });
+
+      const result = await service.applyProposalsToFile('test.md', [proposal]);
+
+      expect(result).toBe('Guide\n=====\n\nIntro\n\nSetup\n-----\nNew steps\nFAQ\n---\n\nAnswers');
+    });
+
+    it('should skip front matter and MDX comments', async () => {
+      mockFile(
+        "---\ntitle: Intro\n---\nimport Tabs from '@theme/Tabs';\n\n{/*\n# Draft\n*/}\n\n# Draft {#draft}\n\nText"
+      );
+
+      const proposal = createMockProposal({
+        updateType: 'INSERT',
+        suggestedText: 'More text',
+        section: 'Draft',
+      });
+
+      const result = await service.applyProposalsToFile('test.md', [proposal]);
+
+      expect(result.split('\n').slice(-3)).toEqual(['', 'Text', 'More text']);
+    });
+
+    it('should resolve heading paths', async () => {
+      mockFile(
+        '# Setup\n\n## Linux\n\nsetup linux\n\n# Build\n\n## Linux\n\nbuild linux\n\n## macOS\n\nbuild mac'
+      );
+
+      const proposal = createMockProposal({
+        updateType: 'UPDATE',
+        suggestedText: 'make build',
+        section: 'Build > Linux',
+      });
+
+      const result = await service.applyProposalsToFile('test.md', [proposal]);
+
+      expect(result).toContain('setup linux');
+      expect(result).not.toContain('build linux');
+      expect(result).toContain('## Linux\nmake build\n## macOS');
+    });
+
+    it('should prefer exact title matches over partial matches', async () => {
+      mockFile('## Installation Guide\n\nGuide\n\n## Installation\n\nSteps');
+
+      const proposal = createMockProposal({
+        updateType: 'UPDATE',
+        suggestedText: 'New steps',
+        section: 'installation',
+      });
+
+      const result = await service.applyProposalsToFile('test.md', [proposal]);
+
+      expect(result).toBe('## Installation Guide\n\nGuide\n\n## Installation\nNew steps');
+    });
+
+    it('should reject ambiguous sections instead of picking the first', async () => {
+      mockFile('# Setup\n\n## Linux\n\nA\n\n# Build\n\n## Linux\n\nB');
+
+      const proposal = createMockProposal({
+        updateType: 'UPDATE',
+        suggestedText: 'C',
+        section: 'Linux',
+      });
+
+      await expect(service.applyProposalsToFile('test.md', [proposal])).rejects.toMatchObject({
+        failureType: 'section_ambiguous',
+        message:
+          'Ambiguous section "Linux": matches "Setup > Linux" (line 3), "Build > Linux" (line 9)',
+      });
+    });
+  });
+
   describe('applyProposalWithResult', () => {
     it('should return success on successful apply', async () => {
       const content = 'Line 0\nLine 1';
@@ -536,6 +652,22 @@ describe('FileModificationService', () => {
       expect(result.errorType).toBe('section_not_found');
     });
 
+    it('should return section_ambiguous error', async () => {
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.readFile).mockResolvedValue('# A\n\n## FAQ\n\n# B\n\n## FAQ');
+
+      const proposal = createMockProposal({
+        updateType: 'DELETE',
+        section: 'FAQ',
+      });
+
+      const result = await service.applyProposalWithResult(proposal);
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('section_ambiguous');
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
     it('should return parse_error for other errors', async () => {
       const content = 'Content';
       vi.mocked(fs.access).mockResolvedValue(undefined);
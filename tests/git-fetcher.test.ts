@@ -0,0 +1,55 @@
+/**
+ * GitFetcher Tests
+ * Tests for documentation file patterns and rename/copy diff parsing
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isDocFile, parseNameStatus } from '../server/git-fetcher.js';
+import { DEFAULT_DOC_INCLUDE_PATTERNS } from '../server/embeddings/doc-extractors.js';
+
+describe('isDocFile', () => {
+  const defaults = { include: DEFAULT_DOC_INCLUDE_PATTERNS, exclude: [] };
+
+  it('should include all supported formats by default, including top-level files', () => {
+    expect(isDocFile('README.md', defaults)).toBe(true);
+    expect(isDocFile('docs/api/index.rst', defaults)).toBe(true);
+    expect(isDocFile('manual/setup.adoc', defaults)).toBe(true);
+    expect(isDocFile('examples/intro.ipynb', defaults)).toBe(true);
+    expect(isDocFile('src/index.ts', defaults)).toBe(false);
+  });
+
+  it('should apply exclude patterns before include patterns', () => {
+    const patterns = {
+      include: ['docs/**/*.{md,rst}'],
+      exclude: ['**/_build/**', 'docs/drafts/*'],
+    };
+
+    expect(isDocFile('docs/guide.md', patterns)).toBe(true);
+    expect(isDocFile('docs/ref/api.rst', patterns)).toBe(true);
+    expect(isDocFile('docs/ref/api.adoc', patterns)).toBe(false);
+    expect(isDocFile('docs/_build/html/index.md', patterns)).toBe(false);
+    expect(isDocFile('docs/drafts/wip.md', patterns)).toBe(false);
+    expect(isDocFile('README.md', patterns)).toBe(false);
+  });
+});
+
+describe('parseNameStatus', () => {
+  it('should parse renames and copies with their similarity score', () => {
+    const diff = [
+      'M\tdocs/a.md',
+      'R100\tdocs/old name.md\tdocs/new name.md',
+      'C075\tdocs/base.md\tdocs/copy.md',
+      'D\tdocs/gone.md',
+      '',
+    ].join('\n');
+
+    expect(parseNameStatus(diff)).toEqual([
+      { status: 'M', score: undefined, path: 'docs/a.md' },
+      { status: 'R', score: 100, previousPath: 'docs/old name.md', path: 'docs/new name.md' },
+      { status: 'C', score: 75, previousPath: 'docs/base.md', path: 'docs/copy.md' },
+      { status: 'D', score: undefined, path: 'docs/gone.md' },
+    ]);
+  });
+});
@@ -0,0 +1,538 @@
+/**
+ * Unit tests for GitHubDiscussionsAdapter
+ * Uses an in-memory fake repository behind a mocked Octokit
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+
+const { fakeRepo, MockOctokit } = vi.hoisted(() => {
+  /**
+   * Minimal in-memory GitHub repository.
+   * Answers REST and GraphQL calls the way the real API does
+   * (`since` inclusive on updated_at, discussions ordered by updatedAt desc).
+   */
+  const fakeRepo = {
+    discussions: [] as any[],
+    issues: [] as any[],
+    issueComments: [] as any[],
+    repoError: null as Error | null,
+    graphqlCalls: [] as Array<Record<string, any>>,
+  };
+
+  const bySince = (items: any[], since?: string) =>
+    since ? items.filter((item) => new Date(item.updated_at) >= new Date(since)) : items;
+  const sortAsc = (items: any[]) =>
+    [...items].sort((a, b) => a.updated_at.localeCompare(b.updated_at));
+  const pageOf = (items: any[], page: number, perPage: number) =>
+    items.slice((page - 1) * perPage, page * perPage);
+
+  class MockOctokit {
+    static lastOptions: any;
+
+    constructor(opts: any) {
+      MockOctokit.lastOptions = opts;
+    }
+
+    repos = {
+      get: async () => {
+        if (fakeRepo.repoError) throw fakeRepo.repoError;
+        return { data: { has_discussions: true } };
+      },
+    };
+
+    issues = {
+      listForRepo: async (params: any) => ({
+        data: pageOf(sortAsc(bySince(fakeRepo.issues, params.since)), params.page, params.per_page),
+      }),
+      listCommentsForRepo: async (params: any) => ({
+        data: pageOf(
+          sortAsc(bySince(fakeRepo.issueComments, params.since)),
+          params.page,
+          params.per_page
+        ),
+      }),
+    };
+
+    graphql = async (query: string, variables: Record<string, any>) => {
+      fakeRepo.graphqlCalls.push(variables);
+      const first = variables.first;
+
+      if (query.includes('node(id:')) {
+        const discussion = fakeRepo.discussions.find((d) => d.id === variables.id);
+        const start = parseInt(variables.after);
+        const nodes = discussion.allComments.slice(start, start + first);
+        return {
+          node: {
+            comments: {
+              pageInfo: {
+                hasNextPage: start + first < discussion.allComments.length,
+                endCursor: String(start + first),
+              },
+              nodes,
+            },
+          },
+        };
+      }
+
+      const ordered = [...fakeRepo.discussions].sort((a, b) =>
+        b.updatedAt.localeCompare(a.updatedAt)
+      );
+      const start = variables.after ? parseInt(variables.after) : 0;
+      const nodes = ordered.slice(start, start + first).map(({ allComments, ...d }) => ({
+        ...d,
+        comments: {
+          pageInfo: { hasNextPage: allComments.length > first, endCursor: String(first) },
+          nodes: allComments.slice(0, first),
+        },
+      }));
+
+      return {
+        repository: {
+          discussions: {
+            pageInfo: {
+              hasNextPage: start + first < ordered.length,
+              endCursor: String(start + first),
+            },
+            nodes,
+          },
+        },
+      };
+    };
+  }
+
+  return { fakeRepo, MockOctokit };
+});
+
+vi.mock('@octokit/rest', () => ({
+  Octokit: MockOctokit,
+}));
+
+import { GitHubDiscussionsAdapter } from '../server/stream/adapters/github-discussions-adapter';
+
+// Mock Prisma
+const mockDb = {
+  importWatermark: {
+    findFirst: vi.fn(),
+    updateMany: vi.fn(),
+    create: vi.fn(),
+    upsert: vi.fn(),
+  },
+  streamConfig: {
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  unifiedMessage: {
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+} as any;
+
+function discussionComment(id: number, createdAt: string, extra: Record<string, any> = {}) {
+  return {
+    id: `DC_${id}`,
+    databaseId: id,
+    body: `comment ${id}`,
+    url: `https://github.com/acme/widgets/discussions/1#discussioncomment-${id}`,
+    createdAt,
+    author: { login: 'bob', __typename: 'User' },
+    authorAssociation: 'NONE',
+    isAnswer: false,
+    replies: { nodes: [] },
+    ...extra,
+  };
+}
+
+function addDiscussion(number: number, createdAt: string, comments: any[], extra: any = {}) {
+  const updatedAt = [createdAt, ...comments.map((c) => c.createdAt)].sort().pop();
+  fakeRepo.discussions.push({
+    id: `D_${number}`,
+    number,
+    title: `Discussion ${number}`,
+    body: `How do I do thing ${number}?`,
+    url: `https://github.com/acme/widgets/discussions/${number}`,
+    createdAt,
+    updatedAt,
+    answerChosenAt: null,
+    author: { login: 'alice', __typename: 'User' },
+    authorAssociation: 'NONE',
+    category: { name: 'Q&A' },
+    allComments: comments,
+    ...extra,
+  });
+}
+
+function addIssue(number: number, createdAt: string, extra: Record<string, any> = {}) {
+  fakeRepo.issues.push({
+    number,
+    title: `Issue ${number}`,
+    body: `Issue body ${number}`,
+    html_url: `https://github.com/acme/widgets/issues/${number}`,
+    state: 'open',
+    created_at: createdAt,
+    updated_at: createdAt,
+    user: { login: 'carol', type: 'User' },
+    author_association: 'NONE',
+    labels: [{ name: 'bug' }],
+    ...extra,
+  });
+}
+
+function addIssueComment(id: number, issueNumber: number, createdAt: string, extra: any = {}) {
+  fakeRepo.issueComments.push({
+    id,
+    issue_url: `https://api.github.com/repos/acme/widgets/issues/${issueNumber}`,
+    html_url: `https://github.com/acme/widgets/issues/${issueNumber}#issuecomment-${id}`,
+    body: `issue comment ${id}`,
+    created_at: createdAt,
+    updated_at: createdAt,
+    user: { login: 'dave', type: 'User' },
+    author_association: 'NONE',
+    ...extra,
+  });
+  const issue = fakeRepo.issues.find((i) => i.number === issueNumber);
+  if (issue && issue.updated_at < createdAt) issue.updated_at = createdAt;
+}
+
+const baseConfig = {
+  repository: 'acme/widgets',
+  token: 'ghp_test',
+};
+
+describe('GitHubDiscussionsAdapter', () => {
+  let adapter: GitHubDiscussionsAdapter;
+  let watermarks: Map<string, { lastImportedId: string; lastImportedTime: Date }>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fakeRepo.discussions = [];
+    fakeRepo.issues = [];
+    fakeRepo.issueComments = [];
+    fakeRepo.repoError = null;
+    fakeRepo.graphqlCalls = [];
+    adapter = new GitHubDiscussionsAdapter('test-github-stream', mockDb);
+
+    // Resource watermarks are stored in memory so incremental fetches can be observed
+    watermarks = new Map();
+    mockDb.importWatermark.findFirst.mockImplementation(async ({ where }: any) => {
+      return where.resourceId ? watermarks.get(where.resourceId) || null : null;
+    });
+    mockDb.importWatermark.upsert.mockImplementation(async ({ where, update }: any) => {
+      watermarks.set(where.streamId_resourceId.resourceId, update);
+      return {};
+    });
+    mockDb.importWatermark.create.mockResolvedValue({});
+    mockDb.importWatermark.updateMany.mockResolvedValue({ count: 1 });
+    mockDb.streamConfig.findUnique.mockResolvedValue(null);
+    mockDb.streamConfig.create.mockResolvedValue({});
+    mockDb.unifiedMessage.findUnique.mockResolvedValue(null);
+    mockDb.unifiedMessage.findFirst.mockResolvedValue(null);
+    mockDb.unifiedMessage.create.mockResolvedValue({ id: 1 });
+    mockDb.unifiedMessage.update.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Configuration Validation', () => {
+    it('should validate correct configuration', () => {
+      expect(adapter.validateConfig(baseConfig)).toBe(true);
+    });
+
+    it('should reject configuration without token', () => {
+      expect(adapter.validateConfig({ ...baseConfig, token: undefined })).toBe(false);
+    });
+
+    it('should reject repository not in owner/repo format', () => {
+      expect(adapter.validateConfig({ ...baseConfig, repository: 'widgets' })).toBe(false);
+      expect(adapter.validateConfig({ ...baseConfig, repository: 'a/b/c' })).toBe(false);
+    });
+
+    it('should reject configuration with both sources disabled', () => {
+      expect(
+        adapter.validateConfig({ ...baseConfig, includeDiscussions: false, includeIssues: false })
+      ).toBe(false);
+    });
+
+    it('should reject invalid startDate and apiBaseUrl', () => {
+      expect(adapter.validateConfig({ ...baseConfig, startDate: 'yesterday' })).toBe(false);
+      expect(adapter.validateConfig({ ...baseConfig, apiBaseUrl: 'not a url' })).toBe(false);
+    });
+  });
+
+  describe('Initialization', () => {
+    it('should pass token and enterprise base URL to Octokit', async () => {
+      await adapter.initialize({ ...baseConfig, apiBaseUrl: 'https://ghe.example.com/api/v3/' });
+
+      expect(MockOctokit.lastOptions).toEqual({
+        auth: 'ghp_test',
+        baseUrl: 'https://ghe.example.com/api/v3',
+      });
+    });
+
+    it('should fail when the repository is not accessible', async () => {
+      fakeRepo.repoError = new Error('Not Found');
+
+      await expect(adapter.initialize(baseConfig)).rejects.toThrow(
+        'Failed to access GitHub repository acme/widgets: Not Found'
+      );
+    });
+  });
+
+  describe('Discussions', () => {
+    beforeEach(async () => {
+      await adapter.initialize({ ...baseConfig, includeIssues: false });
+    });
+
+    it('should import opening post, comments and replies with thread links', async () => {
+      addDiscussion(1, '2026-01-01T10:00:00Z', [
+        discussionComment(11, '2026-01-01T11:00:00Z', {
+          replies: { nodes: [discussionComment(12, '2026-01-01T12:00:00Z')] },
+        }),
+      ]);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.messageId)).toEqual([
+        'discussion-1',
+        'discussion-comment-11',
+        'discussion-comment-12',
+      ]);
+      expect(messages[0].content).toBe('Discussion 1\n\nHow do I do thing 1?');
+      expect(messages[0].channel).toBe('discussions/Q&A');
+      expect(messages[1].metadata).toMatchObject({
+        source: 'discussion',
+        threadId: 'discussion-1',
+        replyToMessageId: 'discussion-1',
+      });
+      expect(messages[2].metadata!.replyToMessageId).toBe('discussion-comment-11');
+    });
+
+    it('should tag accepted answers and maintainer replies', async () => {
+      addDiscussion(1, '2026-01-01T10:00:00Z', [
+        discussionComment(11, '2026-01-01T11:00:00Z', {
+          isAnswer: true,
+          authorAssociation: 'MEMBER',
+          author: { login: 'maintainer', __typename: 'User' },
+        }),
+        discussionComment(13, '2026-01-01T13:00:00Z'),
+      ]);
+
+      const messages = await adapter.fetchMessages();
+      const answer = messages.find((m) => m.messageId === 'discussion-comment-11')!;
+      const other = messages.find((m) => m.messageId === 'discussion-comment-13')!;
+
+      expect(answer.metadata).toMatchObject({
+        isAcceptedAnswer: true,
+        isMaintainer: true,
+        authorAssociation: 'MEMBER',
+      });
+      expect(other.metadata).toMatchObject({ isAcceptedAnswer: false, isMaintainer: false });
+    });
+
+    it('should honour configured maintainer logins and associations', async () => {
+      adapter = new GitHubDiscussionsAdapter('test-github-stream', mockDb);
+      await adapter.initialize({
+        ...baseConfig,
+        includeIssues: false,
+        maintainers: ['bob'],
+        maintainerAssociations: ['OWNER'],
+      });
+      addDiscussion(1, '2026-01-01T10:00:00Z', [discussionComment(11, '2026-01-01T11:00:00Z')], {
+        authorAssociation: 'MEMBER',
+      });
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages[0].metadata!.isMaintainer).toBe(false); // MEMBER not in configured list
+      expect(messages[1].metadata!.isMaintainer).toBe(true); // bob listed explicitly
+    });
+
+    it('should only import new posts on subsequent fetches', async () => {
+      addDiscussion(1, '2026-01-01T10:00:00Z', [discussionComment(11, '2026-01-01T11:00:00Z')]);
+      await adapter.fetchMessages();
+
+      expect(watermarks.get('discussions')!.lastImportedId).toBe('2026-01-01T11:00:00.000Z');
+
+      fakeRepo.discussions[0].allComments.push(discussionComment(14, '2026-01-02T09:00:00Z'));
+      fakeRepo.discussions[0].updatedAt = '2026-01-02T09:00:00Z';
+      addDiscussion(2, '2026-01-02T10:00:00Z', []);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.messageId)).toEqual(['discussion-comment-14', 'discussion-2']);
+      expect(watermarks.get('discussions')!.lastImportedId).toBe('2026-01-02T10:00:00.000Z');
+    });
+
+    it('should stop paging once discussions are older than the watermark', async () => {
+      adapter = new GitHubDiscussionsAdapter('test-github-stream', mockDb);
+      await adapter.initialize({ ...baseConfig, includeIssues: false, pageSize: 1 });
+      watermarks.set('discussions', {
+        lastImportedId: '2026-01-05T00:00:00.000Z',
+        lastImportedTime: new Date('2026-01-05T00:00:00Z'),
+      });
+      addDiscussion(1, '2026-01-01T10:00:00Z', []);
+      addDiscussion(2, '2026-01-02T10:00:00Z', []);
+      addDiscussion(3, '2026-01-06T10:00:00Z', []);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.messageId)).toEqual(['discussion-3']);
+      expect(fakeRepo.graphqlCalls).toHaveLength(2);
+    });
+
+    it('should page through discussions with many comments', async () => {
+      adapter = new GitHubDiscussionsAdapter('test-github-stream', mockDb);
+      await adapter.initialize({ ...baseConfig, includeIssues: false, pageSize: 2 });
+      addDiscussion(1, '2026-01-01T10:00:00Z', [
+        discussionComment(11, '2026-01-01T11:00:00Z'),
+        discussionComment(12, '2026-01-01T12:00:00Z'),
+        discussionComment(13, '2026-01-01T13:00:00Z'),
+        discussionComment(14, '2026-01-01T14:00:00Z'),
+        discussionComment(15, '2026-01-01T15:00:00Z'),
+      ]);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(6);
+      expect(fakeRepo.graphqlCalls.filter((call) => call.id === 'D_1')).toHaveLength(2);
+    });
+
+    it('should tag an already imported comment when its answer is chosen later', async () => {
+      addDiscussion(1, '2026-01-01T10:00:00Z', [discussionComment(11, '2026-01-01T11:00:00Z')]);
+      await adapter.fetchMessages();
+
+      fakeRepo.discussions[0].allComments[0].isAnswer = true;
+      fakeRepo.discussions[0].answerChosenAt = '2026-01-03T08:00:00Z';
+      fakeRepo.discussions[0].updatedAt = '2026-01-03T08:00:00Z';
+      mockDb.unifiedMessage.findUnique.mockResolvedValue({
+        id: 42,
+        metadata: { threadId: 'discussion-1', isAcceptedAnswer: false },
+      });
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(0);
+      expect(mockDb.unifiedMessage.update).toHaveBeenCalledWith({
+        where: { id: 42 },
+        data: { metadata: { threadId: 'discussion-1', isAcceptedAnswer: true } },
+      });
+    });
+
+    it('should skip bot authors and empty posts', async () => {
+      addDiscussion(1, '2026-01-01T10:00:00Z', [
+        discussionComment(11, '2026-01-01T11:00:00Z', {
+          author: { login: 'github-actions', __typename: 'Bot' },
+        }),
+        discussionComment(12, '2026-01-01T12:00:00Z', {
+          author: { login: 'renovate[bot]', __typename: 'User' },
+        }),
+        discussionComment(13, '2026-01-01T13:00:00Z', { body: '   ' }),
+      ]);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.messageId)).toEqual(['discussion-1']);
+    });
+
+    it('should attribute posts from deleted accounts to ghost', async () => {
+      addDiscussion(1, '2026-01-01T10:00:00Z', [], { author: null });
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages[0].author).toBe('ghost');
+    });
+  });
+
+  describe('Issues', () => {
+    beforeEach(async () => {
+      await adapter.initialize({ ...baseConfig, includeDiscussions: false });
+    });
+
+    it('should import issues and their comments', async () => {
+      addIssue(5, '2026-01-01T10:00:00Z');
+      addIssueComment(501, 5, '2026-01-01T11:00:00Z', { author_association: 'OWNER' });
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.messageId)).toEqual(['issue-5', 'issue-comment-501']);
+      expect(messages[0].content).toBe('Issue 5\n\nIssue body 5');
+      expect(messages[0].metadata).toMatchObject({
+        source: 'issue',
+        labels: ['bug'],
+        issueState: 'open',
+        isMaintainer: false,
+      });
+      expect(messages[1].metadata).toMatchObject({
+        threadId: 'issue-5',
+        threadTitle: 'Issue 5',
+        replyToMessageId: 'issue-5',
+        isMaintainer: true,
+      });
+      expect(fakeRepo.graphqlCalls).toHaveLength(0);
+    });
+
+    it('should skip pull requests and their comments', async () => {
+      addIssue(6, '2026-01-01T10:00:00Z', { pull_request: { url: 'https://example.com/pr/6' } });
+      addIssueComment(601, 6, '2026-01-01T11:00:00Z');
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(0);
+    });
+
+    it('should import only comments created after the watermark', async () => {
+      addIssue(5, '2026-01-01T10:00:00Z');
+      addIssueComment(501, 5, '2026-01-01T11:00:00Z');
+      await adapter.fetchMessages();
+
+      expect(watermarks.get('issues')!.lastImportedTime).toEqual(new Date('2026-01-01T11:00:00Z'));
+
+      // Edited comment: updated but not new
+      fakeRepo.issueComments[0].updated_at = '2026-01-02T08:00:00Z';
+      addIssueComment(502, 5, '2026-01-02T09:00:00Z');
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.messageId)).toEqual(['issue-comment-502']);
+      expect(watermarks.get('issues')!.lastImportedTime).toEqual(new Date('2026-01-02T09:00:00Z'));
+    });
+
+    it('should use startDate on the first import', async () => {
+      adapter = new GitHubDiscussionsAdapter('test-github-stream', mockDb);
+      await adapter.initialize({
+        ...baseConfig,
+        includeDiscussions: false,
+        startDate: '2026-01-02',
+      });
+      addIssue(5, '2026-01-01T10:00:00Z');
+      addIssue(7, '2026-01-03T10:00:00Z');
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.messageId)).toEqual(['issue-7']);
+    });
+  });
+
+  it('should update the stream watermark to the newest message across sources', async () => {
+    await adapter.initialize(baseConfig);
+    addDiscussion(1, '2026-01-01T10:00:00Z', []);
+    addIssue(5, '2026-01-02T10:00:00Z');
+
+    const messages = await adapter.fetchMessages();
+
+    expect(messages.map((m) => m.messageId)).toEqual(['discussion-1', 'issue-5']);
+    expect(mockDb.importWatermark.updateMany).toHaveBeenLastCalledWith({
+      where: { streamId: 'test-github-stream', resourceId: null },
+      data: {
+        lastImportedTime: new Date('2026-01-02T10:00:00Z'),
+        lastImportedId: 'issue-5',
+      },
+    });
+  });
+});
@@ -192,6 +192,46 @@ describe('GitHubPRService', () => {
     });
   });
 
+  describe('readFileAtCommit', () => {
+    it('should read the file from the commit in the clone', async () => {
+      mockExecAsync.mockResolvedValue({ stdout: '# Old content', stderr: '' });
+
+      const content = await service.readFileAtCommit('/path/to/repo', 'abc1234', 'docs/a b.md');
+
+      expect(content).toBe('# Old content');
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        'git',
+        ['show', 'abc1234:docs/a b.md'],
+        expect.objectContaining({ cwd: '/path/to/repo' })
+      );
+    });
+
+    it('should fetch the commit from the source repository when missing', async () => {
+      mockExecAsync
+        .mockRejectedValueOnce(new Error('bad object'))
+        .mockResolvedValueOnce({ stdout: '', stderr: '' })
+        .mockResolvedValueOnce({ stdout: '# Upstream content', stderr: '' });
+
+      const content = await service.readFileAtCommit('/path/to/repo', 'abc1234', 'docs/a.md');
+
+      expect(content).toBe('# Upstream content');
+      expect(mockExecAsync).toHaveBeenNthCalledWith(
+        2,
+        'git',
+        ['fetch', '--quiet', 'https://github.com/source/repo.git', 'abc1234'],
+        expect.objectContaining({ cwd: '/path/to/repo' })
+      );
+    });
+
+    it('should return null when the commit is unavailable or invalid', async () => {
+      mockExecAsync.mockRejectedValue(new Error('not found'));
+
+      expect(await service.readFileAtCommit('/path/to/repo', 'abc1234', 'docs/a.md')).toBeNull();
+      expect(await service.readFileAtCommit('/path/to/repo', 'HEAD; rm -rf /', 'a.md')).toBeNull();
+      expect(mockExecAsync).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('commitChanges', () => {
     it('should stage and commit changes', async () => {
       mockExecAsync
@@ -0,0 +1,91 @@
+/**
+ * Instance Embeddings Tests
+ * Tests for resolving an instance's embedding provider and the stored-dimension check
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockConfigs, mockDefaultProvider } = vi.hoisted(() => ({
+  mockConfigs: new Map<string, { embeddings?: Record<string, unknown> }>(),
+  mockDefaultProvider: { name: 'gemini', dimensions: 768, embedText: vi.fn() },
+}));
+
+vi.mock('../server/config/instance-loader.js', () => ({
+  InstanceConfigLoader: {
+    has: (instanceId: string) => mockConfigs.has(instanceId),
+    get: (instanceId: string) => mockConfigs.get(instanceId),
+  },
+}));
+
+vi.mock('../server/llm/providers/index.js', () => ({
+  getDefaultEmbeddingProvider: vi.fn(() => mockDefaultProvider),
+  createEmbeddingProvider: vi.fn((config: { dimensions?: number }) => ({
+    name: 'ollama',
+    dimensions: config.dimensions ?? 768,
+    embedText: vi.fn(),
+  })),
+}));
+
+import {
+  getInstanceEmbeddingProvider,
+  resetInstanceEmbeddingProviders,
+  assertEmbeddingDimensions,
+  EmbeddingDimensionMismatchError,
+} from '../server/embeddings/instance-embeddings.js';
+import { createEmbeddingProvider } from '../server/llm/providers/index.js';
+import type { PgVectorStore } from '../server/vector-store.js';
+
+describe('getInstanceEmbeddingProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConfigs.clear();
+    resetInstanceEmbeddingProviders();
+  });
+
+  it('should use the default provider without an embeddings config', () => {
+    mockConfigs.set('projecta', {});
+
+    expect(getInstanceEmbeddingProvider('projecta')).toBe(mockDefaultProvider);
+    expect(getInstanceEmbeddingProvider('unloaded')).toBe(mockDefaultProvider);
+    expect(createEmbeddingProvider).not.toHaveBeenCalled();
+  });
+
+  it('should create and cache a provider from the instance config', () => {
+    mockConfigs.set('projectb', {
+      embeddings: { provider: 'ollama', model: 'mxbai-embed-large', dimensions: 1024 },
+    });
+
+    const provider = getInstanceEmbeddingProvider('projectb');
+
+    expect(provider.dimensions).toBe(1024);
+    expect(getInstanceEmbeddingProvider('projectb')).toBe(provider);
+    expect(createEmbeddingProvider).toHaveBeenCalledTimes(1);
+    expect(createEmbeddingProvider).toHaveBeenCalledWith({
+      provider: 'ollama',
+      embeddingModel: 'mxbai-embed-large',
+      dimensions: 1024,
+    });
+  });
+});
+
+describe('assertEmbeddingDimensions', () => {
+  const store = (dimensions: number[]) =>
+    ({ getEmbeddingDimensions: vi.fn(async () => dimensions) }) as unknown as PgVectorStore;
+
+  it('should accept an empty store or matching vectors', async () => {
+    await expect(
+      assertEmbeddingDimensions('projecta', store([]), mockDefaultProvider as never)
+    ).resolves.toBeUndefined();
+    await expect(
+      assertEmbeddingDimensions('projecta', store([768]), mockDefaultProvider as never)
+    ).resolves.toBeUndefined();
+  });
+
+  it('should reject vectors of another dimension', async () => {
+    await expect(
+      assertEmbeddingDimensions('projecta', store([384, 768]), mockDefaultProvider as never)
+    ).rejects.toThrow(EmbeddingDimensionMismatchError);
+  });
+});
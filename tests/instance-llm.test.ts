@@ -0,0 +1,88 @@
+/**
+ * Instance LLM Tests
+ * Tests for resolving the LLM provider and model pricing of an instance
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockConfigs, mockDefaultProvider } = vi.hoisted(() => ({
+  mockConfigs: new Map<string, { llm?: Record<string, unknown> }>(),
+  mockDefaultProvider: { name: 'gemini', generateText: vi.fn() },
+}));
+
+vi.mock('../server/config/instance-loader.js', () => ({
+  InstanceConfigLoader: {
+    has: (instanceId: string) => mockConfigs.has(instanceId),
+    get: (instanceId: string) => mockConfigs.get(instanceId),
+  },
+}));
+
+vi.mock('../server/llm/providers/index.js', () => ({
+  getDefaultLLMProvider: vi.fn(() => mockDefaultProvider),
+  createLLMProvider: vi.fn((config: { provider?: string }) => ({
+    name: config.provider ?? 'gemini',
+    generateText: vi.fn(),
+  })),
+}));
+
+import {
+  getInstanceLLMProvider,
+  getInstanceModelCatalog,
+  resetInstanceLLMProviders,
+} from '../server/llm/instance-llm.js';
+import { createLLMProvider } from '../server/llm/providers/index.js';
+import { calculateCost } from '../server/pipeline/handlers/ProviderHandler.js';
+
+describe('getInstanceLLMProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConfigs.clear();
+    resetInstanceLLMProviders();
+  });
+
+  it('should use the default provider without a provider config', () => {
+    mockConfigs.set('projecta', { llm: { budget: { dailyUSD: 5 } } });
+
+    expect(getInstanceLLMProvider('projecta')).toBe(mockDefaultProvider);
+    expect(getInstanceLLMProvider('unloaded')).toBe(mockDefaultProvider);
+    expect(createLLMProvider).not.toHaveBeenCalled();
+  });
+
+  it('should create and cache a provider from the instance config', () => {
+    mockConfigs.set('projectb', {
+      llm: { provider: 'openai', model: 'qwen2.5-7b', baseUrl: 'http://vllm:8000/v1' },
+    });
+
+    const provider = getInstanceLLMProvider('projectb');
+
+    expect(provider.name).toBe('openai');
+    expect(getInstanceLLMProvider('projectb')).toBe(provider);
+    expect(createLLMProvider).toHaveBeenCalledTimes(1);
+    expect(createLLMProvider).toHaveBeenCalledWith({
+      provider: 'openai',
+      defaultModel: 'qwen2.5-7b',
+      baseUrl: 'http://vllm:8000/v1',
+    });
+  });
+});
+
+describe('getInstanceModelCatalog', () => {
+  beforeEach(() => {
+    mockConfigs.clear();
+  });
+
+  it('should price the models of the instance provider', () => {
+    mockConfigs.set('projecta', { llm: { provider: 'anthropic' } });
+    mockConfigs.set('projectb', {
+      llm: { provider: 'openai', model: 'qwen2.5-7b', baseUrl: 'http://vllm:8000/v1' },
+    });
+
+    expect(
+      calculateCost(getInstanceModelCatalog('projecta'), 'claude-unknown', 1000, 1000)
+    ).toBeCloseTo(0.018);
+    // Unknown models on a self-hosted server cost nothing
+    expect(calculateCost(getInstanceModelCatalog('projectb'), 'qwen2.5-7b', 1000, 1000)).toBe(0);
+  });
+});
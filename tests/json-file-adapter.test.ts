@@ -0,0 +1,305 @@
+/**
+ * JSON File Adapter Tests
+ * Tests for JsonFileAdapter stream adapter and JSONPath field access
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { JsonFileAdapter } from '../server/stream/adapters/json-file-adapter';
+import { getJsonPathValue, queryJsonPath } from '../server/stream/adapters/json-path';
+
+// Mock fs/promises
+vi.mock('fs/promises', () => ({
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  readdir: vi.fn(),
+  readFile: vi.fn(),
+  rename: vi.fn().mockResolvedValue(undefined),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+}));
+
+import * as fs from 'fs/promises';
+
+const telegramExport = {
+  chats: {
+    list: [
+      {
+        name: 'Support',
+        id: 100,
+        messages: [
+          {
+            id: 1,
+            type: 'message',
+            date_unixtime: '1700000000',
+            from: 'alice',
+            text: 'How do I reset my node?',
+          },
+          {
+            id: 2,
+            type: 'message',
+            date_unixtime: '1700000060',
+            from: 'bob',
+            reply_to_message_id: 1,
+            text: ['Run ', { type: 'code', text: 'node reset' }, ' then restart'],
+          },
+          { id: 3, type: 'service', date_unixtime: '1700000120', action: 'pin', text: '' },
+        ],
+      },
+      {
+        name: 'Random',
+        id: 200,
+        messages: [
+          { id: 1, type: 'message', date_unixtime: '1700000200', from: 'carol', text: 'hi' },
+        ],
+      },
+    ],
+  },
+};
+
+const telegramConfig = {
+  inboxDir: '/tmp/inbox',
+  processedDir: '/tmp/processed',
+  recordsPath: '$.chats.list[*].messages[*]',
+  fieldMapping: {
+    messageId: 'id',
+    timestamp: 'date_unixtime',
+    author: 'from',
+    content: 'text',
+    channel: '^.name',
+    replyTo: 'reply_to_message_id',
+  },
+  idScope: 'channel',
+};
+
+function slackZip(): Buffer {
+  const general = [
+    { ts: '1700000000.000100', user_name: 'alice', text: 'Is v2 released?' },
+    {
+      ts: '1700000100.000200',
+      thread_ts: '1700000000.000100',
+      user_name: 'bob',
+      text: 'Yes, last week',
+    },
+  ];
+  const dev = [{ ts: '1700000000.000100', user_name: 'dave', text: 'Build is green' }];
+
+  return Buffer.from(
+    zipSync({
+      'users.json': strToU8('[{"id":"U1","name":"alice"}]'),
+      'general/2023-11-14.json': strToU8(JSON.stringify(general)),
+      'dev/2023-11-14.json': strToU8(JSON.stringify(dev)),
+    })
+  );
+}
+
+describe('JsonFileAdapter', () => {
+  let adapter: JsonFileAdapter;
+  let mockDb: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockDb = {
+      streamConfig: {
+        findUnique: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockResolvedValue({ id: 1 }),
+        update: vi.fn().mockResolvedValue({ id: 1 }),
+      },
+      importWatermark: {
+        findFirst: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockResolvedValue({}),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      },
+      unifiedMessage: {
+        findUnique: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockResolvedValue({ id: 1 }),
+      },
+    };
+
+    adapter = new JsonFileAdapter('test-json', mockDb);
+  });
+
+  describe('validateConfig', () => {
+    it('should accept valid configuration', () => {
+      expect(adapter.adapterType).toBe('json-file');
+      expect(adapter.validateConfig(telegramConfig)).toBe(true);
+    });
+
+    it('should reject config without content mapping', () => {
+      const config = { ...telegramConfig, fieldMapping: { messageId: 'id' } };
+      expect(adapter.validateConfig(config)).toBe(false);
+    });
+
+    it('should reject invalid paths', () => {
+      expect(adapter.validateConfig({ ...telegramConfig, recordsPath: '$.chats[?(@.id)]' })).toBe(
+        false
+      );
+    });
+
+    it('should reject invalid zipEntryPattern', () => {
+      expect(adapter.validateConfig({ ...telegramConfig, zipEntryPattern: '([' })).toBe(false);
+    });
+  });
+
+  describe('fetchMessages', () => {
+    it('should import nested Telegram Desktop exports', async () => {
+      await adapter.initialize(telegramConfig);
+      vi.mocked(fs.readdir).mockResolvedValue([
+        { name: 'result.json', isFile: () => true },
+        { name: 'notes.txt', isFile: () => true },
+      ] as any);
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(telegramExport));
+
+      const messages = await adapter.fetchMessages();
+
+      expect(fs.readFile).toHaveBeenCalledTimes(1);
+      expect(messages).toHaveLength(3);
+      expect(messages[0]).toMatchObject({
+        messageId: 'Support-1',
+        author: 'alice',
+        channel: 'Support',
+        content: 'How do I reset my node?',
+        timestamp: new Date(1700000000 * 1000),
+      });
+      expect(messages[1].content).toBe('Run node reset then restart');
+      expect(messages[1].metadata?.replyToMessageId).toBe('Support-1');
+      expect(messages[2]).toMatchObject({ messageId: 'Random-1', channel: 'Random' });
+      expect(mockDb.unifiedMessage.create).toHaveBeenCalledTimes(3);
+    });
+
+    it('should import NDJSON exports line by line', async () => {
+      await adapter.initialize({
+        inboxDir: '/tmp/inbox',
+        processedDir: '/tmp/processed',
+        fieldMapping: {
+          messageId: 'event_id',
+          timestamp: 'origin_server_ts',
+          author: 'sender',
+          content: 'content.body',
+          channel: 'room_id',
+          replyTo: "content['m.relates_to']['m.in_reply_to'].event_id",
+        },
+      });
+      vi.mocked(fs.readdir).mockResolvedValue([{ name: 'room.ndjson', isFile: () => true }] as any);
+      vi.mocked(fs.readFile).mockResolvedValue(
+        [
+          '{"event_id":"$a","origin_server_ts":1700000000000,"sender":"@alice:hs","room_id":"!r","content":{"body":"Question"}}',
+          '',
+          '{"event_id":"$b","origin_server_ts":1700000005000,"sender":"@bob:hs","room_id":"!r","content":{"body":"Answer","m.relates_to":{"m.in_reply_to":{"event_id":"$a"}}}}',
+        ].join('\n')
+      );
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(2);
+      expect(messages[0].timestamp).toEqual(new Date(1700000000000));
+      expect(messages[1]).toMatchObject({ messageId: '$b', author: '@bob:hs', channel: '!r' });
+      expect(messages[1].metadata?.replyToMessageId).toBe('$a');
+    });
+
+    it('should import per-channel files from ZIP archives', async () => {
+      await adapter.initialize({
+        inboxDir: '/tmp/inbox',
+        processedDir: '/tmp/processed',
+        zipEntryPattern: '^[^/]+/.+\\.json$',
+        idScope: 'channel',
+        fieldMapping: {
+          messageId: 'ts',
+          timestamp: 'ts',
+          author: 'user_name',
+          content: 'text',
+          replyTo: 'thread_ts',
+        },
+      });
+      vi.mocked(fs.readdir).mockResolvedValue([{ name: 'slack.zip', isFile: () => true }] as any);
+      vi.mocked(fs.readFile).mockResolvedValue(slackZip());
+
+      const messages = await adapter.fetchMessages();
+
+      expect(fs.readFile).toHaveBeenCalledWith('/tmp/inbox/slack.zip');
+      expect(messages.map((m) => m.messageId)).toEqual([
+        'dev-1700000000.000100',
+        'general-1700000000.000100',
+        'general-1700000100.000200',
+      ]);
+      expect(messages[1].metadata?.replyToMessageId).toBeUndefined();
+      expect(messages[2].metadata?.replyToMessageId).toBe('general-1700000000.000100');
+      expect(messages[2].metadata?.fileName).toBe('slack.zip/general/2023-11-14.json');
+      expect(messages[2].timestamp).toEqual(new Date(1700000100000));
+    });
+
+    it('should report invalid records and keep processing', async () => {
+      await adapter.initialize({
+        inboxDir: '/tmp/inbox',
+        processedDir: '/tmp/processed',
+        fieldMapping: { content: 'text', timestamp: 'date' },
+      });
+      vi.mocked(fs.readdir).mockResolvedValue([{ name: 'data.json', isFile: () => true }] as any);
+      vi.mocked(fs.readFile).mockResolvedValue(
+        JSON.stringify([
+          { text: 'ok', date: '2024-01-01T00:00:00Z' },
+          { text: 'bad', date: 'yesterday' },
+          { text: '' },
+        ])
+      );
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].messageId).toBe('data.json-row-1');
+
+      const report = JSON.parse(vi.mocked(fs.writeFile).mock.calls[0][1] as string);
+      expect(report).toMatchObject({ totalRows: 2, successfulRows: 1, failedRows: 1 });
+      expect(report.errors[0]).toEqual({ row: 2, error: 'Invalid timestamp: yesterday' });
+      expect(fs.rename).toHaveBeenCalledWith(
+        '/tmp/inbox/data.json',
+        expect.stringContaining('/tmp/processed/')
+      );
+    });
+
+    it('should filter messages by watermark', async () => {
+      await adapter.initialize(telegramConfig);
+      vi.mocked(fs.readdir).mockResolvedValue([{ name: 'result.json', isFile: () => true }] as any);
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(telegramExport));
+
+      const messages = await adapter.fetchMessages({
+        lastProcessedTime: new Date(1700000030 * 1000),
+      });
+
+      expect(messages.map((m) => m.messageId)).toEqual(['Support-2', 'Random-1']);
+    });
+  });
+});
+
+describe('JSONPath field access', () => {
+  const doc = {
+    team: { name: 'core' },
+    channels: [
+      { name: 'general', messages: [{ text: 'a' }, { text: 'b' }] },
+      { name: 'dev', messages: [{ text: 'c' }] },
+    ],
+  };
+
+  it('should resolve keys, indexes and bracket notation', () => {
+    expect(getJsonPathValue(doc, '$.team.name')).toBe('core');
+    expect(getJsonPathValue(doc, "$['channels'][1].name")).toBe('dev');
+    expect(getJsonPathValue(doc, '$.channels[-1].messages[0].text')).toBe('c');
+    expect(getJsonPathValue(doc, '$.missing.name')).toBeUndefined();
+  });
+
+  it('should expand wildcards and recursive descent', () => {
+    expect(queryJsonPath(doc, '$.channels[*].messages[*].text').map((m) => m.value)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+    expect(queryJsonPath(doc, '$..text').map((m) => m.value)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should step up to enclosing objects with ^', () => {
+    const [, , third] = queryJsonPath(doc, '$.channels[*].messages[*]');
+    expect(getJsonPathValue(third.value, '^.name', third.ancestors)).toBe('dev');
+    expect(getJsonPathValue(third.value, '^^.team.name', third.ancestors)).toBe('core');
+  });
+});
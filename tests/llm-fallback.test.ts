@@ -0,0 +1,290 @@
+/**
+ * LLM Fallback Chain Tests
+ * Tests for per-model circuit breakers, the fallback handler and
+ * fallback chains configured on pipeline steps
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+
+vi.mock('../server/utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+  getErrorMessage: (error: unknown) => (error instanceof Error ? error.message : String(error)),
+}));
+
+import {
+  CircuitBreaker,
+  getCircuitBreaker,
+  resetCircuitBreakers,
+} from '../server/pipeline/handlers/CircuitBreaker.js';
+import {
+  FallbackLLMHandler,
+  AllLLMCandidatesFailedError,
+} from '../server/pipeline/handlers/FallbackLLMHandler.js';
+import { PipelineOrchestrator } from '../server/pipeline/core/PipelineOrchestrator.js';
+import type {
+  ILLMHandler,
+  LLMRequest,
+  PipelineConfig,
+  PipelineContext,
+} from '../server/pipeline/core/interfaces.js';
+import type { StepFactory } from '../server/pipeline/core/StepFactory.js';
+
+const schema = z.object({ ok: z.boolean() });
+const context = { instanceId: 'test-instance', batchId: 'batch-1', purpose: 'proposal' };
+const request: LLMRequest = { model: 'gemini-2.5-pro', systemPrompt: 'sys', userPrompt: 'user' };
+
+function createHandler(name: string, failWith?: Error) {
+  return {
+    name,
+    requestJSON: vi.fn(async (req: LLMRequest) => {
+      if (failWith) throw failWith;
+      return { data: { ok: true }, response: { text: '{"ok":true}', model: req.model } };
+    }),
+    requestText: vi.fn(async (req: LLMRequest) => {
+      if (failWith) throw failWith;
+      return { text: 'text', model: req.model };
+    }),
+    getModelInfo: vi.fn(),
+    estimateCost: vi.fn(),
+  } as unknown as ILLMHandler & { requestJSON: ReturnType<typeof vi.fn> };
+}
+
+describe('CircuitBreaker', () => {
+  it('should open after consecutive failures and half-open after the cooldown', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(
+      'gemini||pro',
+      { failureThreshold: 2, cooldownMs: 1000 },
+      () => now
+    );
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+
+    now = 1000;
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.canRequest()).toBe(true);
+    // Only one trial request at a time
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('should reopen on a failed trial and close on a successful one', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker('key', { failureThreshold: 1, cooldownMs: 1000 }, () => now);
+
+    breaker.recordFailure();
+    now = 1500;
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+
+    now = 2500;
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should reset the failure count on success', () => {
+    const breaker = new CircuitBreaker('key', { failureThreshold: 2, cooldownMs: 1000 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('closed');
+  });
+});
+
+describe('FallbackLLMHandler', () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  it('should use the first candidate with the request model when healthy', async () => {
+    const primary = createHandler('gemini');
+    const backup = createHandler('anthropic');
+    const handler = new FallbackLLMHandler([
+      { handler: primary },
+      { handler: backup, model: 'claude-sonnet-4-20250514' },
+    ]);
+
+    const { response } = await handler.requestJSON(request, schema, context);
+
+    expect(response.model).toBe('gemini-2.5-pro');
+    expect(backup.requestJSON).not.toHaveBeenCalled();
+    expect(handler.getRouting()).toEqual({
+      models: [{ provider: 'gemini', model: 'gemini-2.5-pro', calls: 1 }],
+      fallbacks: [],
+    });
+  });
+
+  it('should fall back to the next candidate when a model fails', async () => {
+    const primary = createHandler('gemini', new Error('503 Service Unavailable'));
+    const backup = createHandler('anthropic');
+    const handler = new FallbackLLMHandler([
+      { handler: primary },
+      { handler: backup, model: 'claude-sonnet-4-20250514' },
+    ]);
+
+    const { response } = await handler.requestJSON(request, schema, context);
+
+    expect(response.model).toBe('claude-sonnet-4-20250514');
+    expect(backup.requestJSON).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'claude-sonnet-4-20250514', userPrompt: 'user' }),
+      schema,
+      context
+    );
+    expect(handler.getRouting()).toEqual({
+      models: [{ provider: 'anthropic', model: 'claude-sonnet-4-20250514', calls: 1 }],
+      fallbacks: [
+        {
+          provider: 'gemini',
+          model: 'gemini-2.5-pro',
+          reason: '503 Service Unavailable',
+          count: 1,
+        },
+      ],
+    });
+  });
+
+  it('should skip a model whose circuit is open', async () => {
+    const primary = createHandler('gemini', new Error('429 Too Many Requests'));
+    const backup = createHandler('gemini');
+    const handler = new FallbackLLMHandler(
+      [{ handler: primary }, { handler: backup, model: 'gemini-2.5-flash' }],
+      { failureThreshold: 2, cooldownMs: 60000 }
+    );
+
+    for (let i = 0; i < 4; i++) {
+      await handler.requestText(request, context);
+    }
+
+    // Two failures open the circuit; later calls go straight to the fallback
+    expect(primary.requestText).toHaveBeenCalledTimes(2);
+    expect(backup.requestText).toHaveBeenCalledTimes(4);
+    expect(getCircuitBreaker('gemini||gemini-2.5-pro').state).toBe('open');
+    expect(handler.getRouting().fallbacks).toEqual([
+      { provider: 'gemini', model: 'gemini-2.5-pro', reason: '429 Too Many Requests', count: 2 },
+      { provider: 'gemini', model: 'gemini-2.5-pro', reason: 'circuit open', count: 2 },
+    ]);
+  });
+
+  it('should share circuit state between handlers', async () => {
+    const failing = createHandler('gemini', new Error('503'));
+    await new FallbackLLMHandler([{ handler: failing }, { handler: createHandler('ollama') }], {
+      failureThreshold: 1,
+      cooldownMs: 60000,
+    }).requestText(request, context);
+
+    const next = createHandler('gemini');
+    await new FallbackLLMHandler([
+      { handler: next },
+      { handler: createHandler('ollama') },
+    ]).requestText(request, context);
+
+    expect(next.requestText).not.toHaveBeenCalled();
+  });
+
+  it('should throw when every candidate fails or is unavailable', async () => {
+    const handler = new FallbackLLMHandler([
+      { handler: createHandler('gemini', new Error('503')) },
+      { handler: createHandler('openai', new Error('401 Unauthorized')), model: 'gpt-4o' },
+    ]);
+
+    await expect(handler.requestJSON(request, schema, context)).rejects.toThrow(
+      AllLLMCandidatesFailedError
+    );
+    await expect(handler.requestJSON(request, schema, context)).rejects.toThrow(
+      'gemini/gemini-2.5-pro (503); openai/gpt-4o (401 Unauthorized)'
+    );
+  });
+});
+
+describe('PipelineOrchestrator fallback chains', () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  it('should route step calls through the fallback chain and log the models used', async () => {
+    const defaultHandler = createHandler('gemini', new Error('503 Service Unavailable'));
+    const anthropic = createHandler('anthropic');
+    const resolveLLMHandler = vi.fn().mockReturnValue(anthropic);
+    const stepFactory = {
+      hasStepType: vi.fn().mockReturnValue(true),
+      create: vi.fn((stepConfig, llmHandler: ILLMHandler) => ({
+        stepId: stepConfig.stepId,
+        stepType: stepConfig.stepType,
+        execute: vi.fn(async (ctx: PipelineContext) => {
+          await llmHandler.requestJSON(request, schema, context);
+          return ctx;
+        }),
+      })),
+    } as unknown as StepFactory;
+    const db = {
+      pipelineRunLog: {
+        create: vi.fn().mockResolvedValue({ id: 7 }),
+        update: vi.fn().mockResolvedValue({}),
+      },
+    };
+    const config = {
+      instanceId: 'test-instance',
+      pipelineId: 'test-pipeline',
+      steps: [
+        {
+          stepId: 'proposal-generate',
+          stepType: 'generate',
+          enabled: true,
+          config: {
+            model: 'gemini-2.5-pro',
+            fallback: [{ provider: 'anthropic', model: 'claude-sonnet-4-20250514' }],
+          },
+        },
+      ],
+      errorHandling: { stopOnError: true, retryAttempts: 0, retryDelayMs: 0 },
+      performance: { maxConcurrentSteps: 1, timeoutMs: 1000, enableCaching: false },
+    } as unknown as PipelineConfig;
+    const orchestrator = new PipelineOrchestrator(config, defaultHandler, stepFactory, {
+      resolveLLMHandler,
+    });
+
+    const result = await orchestrator.execute({
+      instanceId: 'test-instance',
+      batchId: 'batch-1',
+      messages: [{ id: 1 }],
+      filteredMessages: [{ id: 1 }],
+      threads: [{ id: 't1', category: 'docs' }],
+      proposals: new Map(),
+      ragResults: new Map(),
+      stepPromptLogs: new Map(),
+      metrics: { stepDurations: new Map() },
+      errors: [],
+      db,
+    } as unknown as PipelineContext);
+
+    expect(result.success).toBe(true);
+    expect(resolveLLMHandler).toHaveBeenCalledWith('anthropic', { baseUrl: undefined });
+    const finalUpdate = db.pipelineRunLog.update.mock.calls.at(-1)![0];
+    expect(finalUpdate.data.steps[0].llmRouting).toEqual({
+      models: [{ provider: 'anthropic', model: 'claude-sonnet-4-20250514', calls: 1 }],
+      fallbacks: [
+        {
+          provider: 'gemini',
+          model: 'gemini-2.5-pro',
+          reason: '503 Service Unavailable',
+          count: 1,
+        },
+      ],
+    });
+  });
+});
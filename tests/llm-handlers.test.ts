@@ -0,0 +1,326 @@
+/**
+ * Pipeline LLM Handler Tests
+ * Tests for the OpenAI, Anthropic and Ollama handlers, model catalog lookups,
+ * the handler factory and per-step provider selection in the orchestrator
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+
+vi.mock('../server/utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+  getErrorMessage: (error: unknown) => (error instanceof Error ? error.message : String(error)),
+}));
+
+vi.mock('../server/llm/llm-cache.js', () => ({
+  llmCache: { get: vi.fn().mockReturnValue(null), set: vi.fn() },
+}));
+
+vi.mock('@google/generative-ai', () => ({
+  GoogleGenerativeAI: class {
+    getGenerativeModel = vi.fn();
+  },
+}));
+
+const mockChatCompletionsCreate = vi.fn();
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: mockChatCompletionsCreate } };
+  },
+}));
+
+import { lookupModel } from '../server/pipeline/handlers/ProviderHandler.js';
+import { GeminiHandler } from '../server/pipeline/handlers/GeminiHandler.js';
+import { OpenAIHandler } from '../server/pipeline/handlers/OpenAIHandler.js';
+import { AnthropicHandler } from '../server/pipeline/handlers/AnthropicHandler.js';
+import { OllamaHandler } from '../server/pipeline/handlers/OllamaHandler.js';
+import {
+  createLLMHandler,
+  getLLMHandler,
+  resetLLMHandlers,
+} from '../server/pipeline/handlers/LLMHandlerFactory.js';
+import { PipelineOrchestrator } from '../server/pipeline/core/PipelineOrchestrator.js';
+import type {
+  ILLMHandler,
+  PipelineConfig,
+  PipelineContext,
+} from '../server/pipeline/core/interfaces.js';
+import type { StepFactory } from '../server/pipeline/core/StepFactory.js';
+
+const context = { purpose: 'test', instanceId: 'test-instance' };
+
+describe('lookupModel', () => {
+  const entries = { 'gpt-4o': 'large', 'gpt-4o-mini': 'small' };
+
+  it('should prefer an exact match, then the longest prefix', () => {
+    expect(lookupModel(entries, 'gpt-4o')).toBe('large');
+    expect(lookupModel(entries, 'gpt-4o-mini-2024-07-18')).toBe('small');
+    expect(lookupModel(entries, 'gpt-4o-2024-08-06')).toBe('large');
+    expect(lookupModel(entries, 'llama3')).toBeUndefined();
+  });
+});
+
+describe('OpenAIHandler', () => {
+  beforeEach(() => {
+    mockChatCompletionsCreate.mockReset();
+  });
+
+  it('should return validated JSON from chat completions', async () => {
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: '{"category": "docs"}' } }],
+    });
+    const handler = new OpenAIHandler('key', 'gpt-4o-mini');
+
+    const { data, response } = await handler.requestJSON(
+      { systemPrompt: 'Classify', userPrompt: 'Message' },
+      z.object({ category: z.string() }),
+      context
+    );
+
+    expect(data).toEqual({ category: 'docs' });
+    expect(response).toMatchObject({ text: '{"category":"docs"}', model: 'gpt-4o-mini' });
+    expect(mockChatCompletionsCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ response_format: { type: 'json_object' } })
+    );
+  });
+
+  it('should price dated model variants by their family', () => {
+    const handler = new OpenAIHandler('key');
+
+    const estimate = handler.estimateCost({
+      model: 'gpt-4o-mini-2024-07-18',
+      systemPrompt: '',
+      userPrompt: 'x'.repeat(3996),
+      maxTokens: 1000,
+    });
+
+    expect(estimate).toMatchObject({ inputTokens: 1000, outputTokens: 1000 });
+    expect(estimate.estimatedCostUSD).toBeCloseTo(0.00015 + 0.0006);
+    expect(handler.getModelInfo('gpt-4.1-nano').maxInputTokens).toBe(1047576);
+  });
+
+  it('should treat unknown models on a self-hosted server as free', () => {
+    const handler = new OpenAIHandler(undefined, 'qwen2.5-7b-instruct', 'http://vllm:8000/v1');
+
+    expect(handler.estimateCost({ systemPrompt: 'a', userPrompt: 'b' }).estimatedCostUSD).toBe(0);
+    expect(handler.getModelInfo('qwen2.5-7b-instruct').provider).toBe('openai');
+  });
+});
+
+describe('AnthropicHandler and OllamaHandler', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should return validated JSON from Anthropic', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ content: [{ type: 'text', text: '{"valuable": true}' }] }),
+    });
+    const handler = new AnthropicHandler('key');
+
+    const { data } = await handler.requestJSON(
+      { systemPrompt: 'Classify', userPrompt: 'Message', model: 'claude-3-5-haiku-latest' },
+      z.object({ valuable: z.boolean() }),
+      context
+    );
+
+    expect(data).toEqual({ valuable: true });
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).model).toBe('claude-3-5-haiku-latest');
+  });
+
+  it('should reject Anthropic output that does not match the schema', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ content: [{ type: 'text', text: '{"valuable": "yes"}' }] }),
+    });
+    const handler = new AnthropicHandler('key');
+
+    await expect(
+      handler.requestJSON(
+        { systemPrompt: 'Classify', userPrompt: 'Message' },
+        z.object({ valuable: z.boolean() }),
+        context
+      )
+    ).rejects.toThrow('Response did not match expected schema');
+  });
+
+  it('should know Anthropic model limits and pricing', () => {
+    const handler = new AnthropicHandler('key');
+
+    expect(handler.getModelInfo('claude-sonnet-4-20250514')).toMatchObject({
+      provider: 'anthropic',
+      maxInputTokens: 200000,
+      maxOutputTokens: 64000,
+    });
+    const estimate = handler.estimateCost({
+      model: 'claude-3-opus-20240229',
+      systemPrompt: '',
+      userPrompt: 'x'.repeat(3996),
+      maxTokens: 1000,
+    });
+    expect(estimate.estimatedCostUSD).toBeCloseTo(0.015 + 0.075);
+  });
+
+  it('should return text from Ollama at no cost', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ message: { content: 'Summary' }, prompt_eval_count: 9, eval_count: 3 }),
+    });
+    const handler = new OllamaHandler('http://ollama:11434', 'qwen2.5');
+
+    const response = await handler.requestText(
+      { systemPrompt: 'Summarize', userPrompt: 'Text' },
+      context
+    );
+
+    expect(response).toMatchObject({ text: 'Summary', tokensUsed: 12, model: 'qwen2.5' });
+    expect(mockFetch.mock.calls[0][0]).toBe('http://ollama:11434/api/chat');
+    expect(handler.estimateCost({ systemPrompt: 'a', userPrompt: 'b' }).estimatedCostUSD).toBe(0);
+  });
+});
+
+describe('GeminiHandler', () => {
+  it('should keep its pricing and model info', () => {
+    const handler = new GeminiHandler('key');
+
+    expect(handler.name).toBe('gemini');
+    expect(handler.getModelInfo('gemini-2.5-pro').maxInputTokens).toBe(2097152);
+    expect(handler.getModelInfo('unknown-model').maxInputTokens).toBe(128000);
+    const estimate = handler.estimateCost({
+      model: 'gemini-2.5-pro',
+      systemPrompt: '',
+      userPrompt: 'x'.repeat(3996),
+      maxTokens: 1000,
+    });
+    expect(estimate.estimatedCostUSD).toBeCloseTo(0.00125 + 0.005);
+  });
+});
+
+describe('LLM handler factory', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_MODEL;
+    resetLLMHandlers();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should follow LLM_PROVIDER by default', () => {
+    process.env.LLM_PROVIDER = 'ollama';
+
+    expect(createLLMHandler()).toBeInstanceOf(OllamaHandler);
+  });
+
+  it('should create the requested provider', () => {
+    process.env.GEMINI_API_KEY = 'gemini-key';
+    process.env.ANTHROPIC_API_KEY = 'anthropic-key';
+
+    expect(createLLMHandler('gemini')).toBeInstanceOf(GeminiHandler);
+    expect(createLLMHandler('anthropic')).toBeInstanceOf(AnthropicHandler);
+    expect(createLLMHandler('openai', { baseUrl: 'http://vllm:8000/v1' })).toBeInstanceOf(
+      OpenAIHandler
+    );
+  });
+
+  it('should require API keys for hosted providers', () => {
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.GOOGLE_AI_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.OPENAI_API_BASE;
+    delete process.env.ANTHROPIC_API_KEY;
+
+    expect(() => createLLMHandler('gemini')).toThrow('GEMINI_API_KEY');
+    expect(() => createLLMHandler('openai')).toThrow('OPENAI_API_KEY');
+    expect(() => createLLMHandler('anthropic')).toThrow('ANTHROPIC_API_KEY');
+  });
+
+  it('should share handlers per provider and base URL', () => {
+    const local = getLLMHandler('ollama');
+
+    expect(getLLMHandler('ollama')).toBe(local);
+    expect(getLLMHandler('ollama', { baseUrl: 'http://gpu-box:11434' })).not.toBe(local);
+    resetLLMHandlers();
+    expect(getLLMHandler('ollama')).not.toBe(local);
+  });
+});
+
+describe('PipelineOrchestrator per-step providers', () => {
+  function createConfig(steps: PipelineConfig['steps']): PipelineConfig {
+    return {
+      instanceId: 'test-instance',
+      pipelineId: 'test-pipeline',
+      steps,
+      errorHandling: { stopOnError: false, retryAttempts: 0, retryDelayMs: 0 },
+      performance: { maxConcurrentSteps: 1, timeoutMs: 1000, enableCaching: false },
+    } as PipelineConfig;
+  }
+
+  it('should give steps with a provider their own handler', async () => {
+    const defaultHandler = { name: 'gemini' } as ILLMHandler;
+    const localHandler = { name: 'ollama' } as ILLMHandler;
+    const resolveLLMHandler = vi.fn().mockReturnValue(localHandler);
+    const stepFactory = {
+      hasStepType: vi.fn().mockReturnValue(true),
+      create: vi.fn((stepConfig) => ({
+        stepId: stepConfig.stepId,
+        stepType: stepConfig.stepType,
+        execute: vi.fn(async (ctx: PipelineContext) => ctx),
+      })),
+    } as unknown as StepFactory;
+    const orchestrator = new PipelineOrchestrator(
+      createConfig([
+        {
+          stepId: 'batch-classify',
+          stepType: 'classify',
+          enabled: true,
+          config: { provider: 'ollama', baseUrl: 'http://ollama:11434', model: 'qwen2.5' },
+        },
+        { stepId: 'proposal-generate', stepType: 'generate', enabled: true, config: {} },
+      ] as PipelineConfig['steps']),
+      defaultHandler,
+      stepFactory,
+      { enableRunLogging: false, resolveLLMHandler }
+    );
+
+    await orchestrator.execute({
+      instanceId: 'test-instance',
+      batchId: 'batch-1',
+      messages: [],
+      filteredMessages: [],
+      threads: [],
+      proposals: new Map(),
+      ragResults: new Map(),
+      stepPromptLogs: new Map(),
+      metrics: { stepDurations: new Map() },
+      errors: [],
+    } as unknown as PipelineContext);
+
+    expect(resolveLLMHandler).toHaveBeenCalledTimes(1);
+    expect(resolveLLMHandler).toHaveBeenCalledWith('ollama', { baseUrl: 'http://ollama:11434' });
+    // Steps get their handler wrapped for usage accounting
+    expect(vi.mocked(stepFactory.create).mock.calls.map(([, handler]) => handler.name)).toEqual([
+      localHandler.name,
+      defaultHandler.name,
+    ]);
+  });
+});
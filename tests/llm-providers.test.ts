@@ -1,6 +1,8 @@
 /**
  * LLM Provider Unit Tests
  * Tests for LLM provider factory, types, and Gemini implementation
+ * plus the OpenAI, Ollama and local (ONNX) embedding providers
+ * and the OpenAI-compatible, Anthropic and Ollama LLM providers
 
  */
 
@@ -42,6 +44,44 @@ vi.mock('@google/generative-ai', () => ({
   GoogleGenerativeAI: MockGoogleGenerativeAI,
 }));
 
+// Mock OpenAI SDK
+const mockEmbeddingsCreate = vi.fn();
+const mockChatCompletionsCreate = vi.fn();
+const mockOpenAIConstructor = vi.fn();
+
+class MockOpenAI {
+  constructor(options: unknown) {
+    mockOpenAIConstructor(options);
+  }
+  embeddings = { create: mockEmbeddingsCreate };
+  chat = { completions: { create: mockChatCompletionsCreate } };
+}
+
+vi.mock('openai', () => ({
+  default: MockOpenAI,
+}));
+
+// Mock transformers.js (local ONNX embeddings)
+const mockExtractor = vi.fn();
+const mockPipeline = vi.fn();
+const mockTransformersEnv = { localModelPath: '/models/', allowRemoteModels: true };
+
+vi.mock('@huggingface/transformers', () => ({
+  env: mockTransformersEnv,
+  pipeline: mockPipeline,
+}));
+
+// Streamed response body, delivered in the given chunks
+function streamBody(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
 describe('LLM Provider Types', () => {
   const originalEnv = process.env;
 
@@ -137,6 +177,19 @@ describe('LLM Provider Types', () => {
       expect(config.defaultModel).toBe('custom-model');
     });
 
+    it('should only apply LLM_MODEL to the LLM_PROVIDER provider', async () => {
+      process.env.LLM_PROVIDER = 'gemini';
+      process.env.LLM_MODEL = 'gemini-2.5-pro';
+      process.env.ANTHROPIC_API_BASE = 'http://proxy:8080';
+
+      const { getProviderConfigFromEnv } = await import('../server/llm/providers/types.js');
+      const config = getProviderConfigFromEnv('anthropic');
+
+      expect(config.provider).toBe('anthropic');
+      expect(config.defaultModel).toBe('claude-3-sonnet-20240229');
+      expect(config.baseUrl).toBe('http://proxy:8080');
+    });
+
     it('should throw for unknown provider', async () => {
       process.env.LLM_PROVIDER = 'unknown-provider';
 
@@ -183,30 +236,38 @@ describe('LLM Provider Factory', () => {
       expect(() => createLLMProvider({ provider: 'gemini' })).toThrow('Gemini API key is required');
     });
 
-    it('should throw for OpenAI (not implemented)', async () => {
+    it('should create OpenAI provider', async () => {
       const { createLLMProvider } = await import('../server/llm/providers/index.js');
 
-      expect(() => createLLMProvider({ provider: 'openai', apiKey: 'key' })).toThrow(
-        'OpenAI provider not yet implemented'
-      );
+      expect(createLLMProvider({ provider: 'openai', apiKey: 'key' }).name).toBe('openai');
     });
 
-    it('should throw for Anthropic (not implemented)', async () => {
+    it('should create OpenAI-compatible provider without a key when a base URL is set', async () => {
+      delete process.env.OPENAI_API_KEY;
       const { createLLMProvider } = await import('../server/llm/providers/index.js');
 
-      expect(() => createLLMProvider({ provider: 'anthropic', apiKey: 'key' })).toThrow(
-        'Anthropic provider not yet implemented'
+      expect(createLLMProvider({ provider: 'openai', baseUrl: 'http://vllm:8000/v1' }).name).toBe(
+        'openai'
       );
+      expect(() => createLLMProvider({ provider: 'openai' })).toThrow('OpenAI API key is required');
     });
 
-    it('should throw for Ollama (not implemented)', async () => {
+    it('should create Anthropic provider and require its key', async () => {
+      delete process.env.ANTHROPIC_API_KEY;
       const { createLLMProvider } = await import('../server/llm/providers/index.js');
 
-      expect(() => createLLMProvider({ provider: 'ollama' })).toThrow(
-        'Ollama provider not yet implemented'
+      expect(createLLMProvider({ provider: 'anthropic', apiKey: 'key' }).name).toBe('anthropic');
+      expect(() => createLLMProvider({ provider: 'anthropic' })).toThrow(
+        'Anthropic API key is required'
       );
     });
 
+    it('should create Ollama provider without a key', async () => {
+      const { createLLMProvider } = await import('../server/llm/providers/index.js');
+
+      expect(createLLMProvider({ provider: 'ollama' }).name).toBe('ollama');
+    });
+
     it('should throw for unknown provider', async () => {
       const { createLLMProvider } = await import('../server/llm/providers/index.js');
 
@@ -241,11 +302,25 @@ describe('LLM Provider Factory', () => {
       );
     });
 
-    it('should throw for OpenAI embedding (not implemented)', async () => {
+    it('should create OpenAI embedding provider with configured dimensions', async () => {
+      const { createEmbeddingProvider } = await import('../server/llm/providers/index.js');
+
+      const provider = createEmbeddingProvider({
+        provider: 'openai',
+        apiKey: 'key',
+        dimensions: 1536,
+      });
+
+      expect(provider.name).toBe('openai');
+      expect(provider.dimensions).toBe(1536);
+    });
+
+    it('should throw when OpenAI API key is missing', async () => {
+      delete process.env.OPENAI_API_KEY;
       const { createEmbeddingProvider } = await import('../server/llm/providers/index.js');
 
-      expect(() => createEmbeddingProvider({ provider: 'openai', apiKey: 'key' })).toThrow(
-        'OpenAI embedding provider not yet implemented'
+      expect(() => createEmbeddingProvider({ provider: 'openai' })).toThrow(
+        'OpenAI API key is required'
       );
     });
 
@@ -257,12 +332,43 @@ describe('LLM Provider Factory', () => {
       );
     });
 
-    it('should throw for Ollama embedding (not implemented)', async () => {
+    it('should create Ollama and local embedding providers without an API key', async () => {
       const { createEmbeddingProvider } = await import('../server/llm/providers/index.js');
 
-      expect(() => createEmbeddingProvider({ provider: 'ollama' })).toThrow(
-        'Ollama embedding provider not yet implemented'
-      );
+      expect(createEmbeddingProvider({ provider: 'ollama' }).name).toBe('ollama');
+      expect(createEmbeddingProvider({ provider: 'local', dimensions: 384 })).toMatchObject({
+        name: 'local',
+        dimensions: 384,
+      });
+    });
+
+    it('should select the provider and dimensions from EMBEDDING_* variables', async () => {
+      process.env.LLM_PROVIDER = 'anthropic';
+      process.env.EMBEDDING_PROVIDER = 'ollama';
+      process.env.EMBEDDING_DIMENSIONS = '1024';
+
+      const { createEmbeddingProvider, getEmbeddingConfigFromEnv } =
+        await import('../server/llm/providers/index.js');
+
+      expect(getEmbeddingConfigFromEnv()).toMatchObject({
+        provider: 'ollama',
+        baseUrl: 'http://localhost:11434',
+        embeddingModel: 'nomic-embed-text',
+        dimensions: 1024,
+      });
+      expect(createEmbeddingProvider()).toMatchObject({ name: 'ollama', dimensions: 1024 });
+    });
+
+    it('should use the defaults of an explicitly selected provider', async () => {
+      process.env.EMBEDDING_PROVIDER = 'gemini';
+
+      const { getEmbeddingConfigFromEnv } = await import('../server/llm/providers/index.js');
+
+      expect(getEmbeddingConfigFromEnv('local')).toMatchObject({
+        provider: 'local',
+        embeddingModel: 'Xenova/bge-base-en-v1.5',
+        dimensions: 768,
+      });
     });
 
     it('should throw for unknown provider', async () => {
@@ -291,12 +397,18 @@ describe('LLM Provider Factory', () => {
       expect(isProviderAvailable('gemini')).toBe(true);
     });
 
-    it('should return false for unimplemented providers', async () => {
+    it('should return true for the OpenAI, Anthropic and Ollama providers', async () => {
       const { isProviderAvailable } = await import('../server/llm/providers/index.js');
 
-      expect(isProviderAvailable('openai')).toBe(false);
-      expect(isProviderAvailable('anthropic')).toBe(false);
-      expect(isProviderAvailable('ollama')).toBe(false);
+      expect(isProviderAvailable('openai')).toBe(true);
+      expect(isProviderAvailable('anthropic')).toBe(true);
+      expect(isProviderAvailable('ollama')).toBe(true);
+    });
+
+    it('should return false for unknown providers', async () => {
+      const { isProviderAvailable } = await import('../server/llm/providers/index.js');
+
+      expect(isProviderAvailable('mistral' as any)).toBe(false);
     });
   });
 
@@ -507,6 +619,52 @@ describe('GeminiLLMProvider', () => {
     });
   });
 
+  describe('streamWithHistory', () => {
+    it('should stream chunks and resolve with the full result', async () => {
+      const mockGenerateContentStream = vi.fn().mockResolvedValue({
+        stream: (async function* () {
+          yield { text: () => 'Hello ' };
+          yield { text: () => 'world' };
+        })(),
+        response: Promise.resolve({
+          usageMetadata: { totalTokenCount: 30, promptTokenCount: 20, candidatesTokenCount: 10 },
+          candidates: [{ finishReason: 'STOP' }],
+        }),
+      });
+      mockGetGenerativeModel.mockReturnValue({ generateContentStream: mockGenerateContentStream });
+      const onToken = vi.fn();
+      const signal = new AbortController().signal;
+
+      const { GeminiLLMProvider } = await import('../server/llm/providers/gemini-provider.js');
+      const provider = new GeminiLLMProvider('test-key');
+
+      const result = await provider.streamWithHistory(
+        'Follow up',
+        [{ role: 'user', content: 'Hello' }],
+        { onToken, signal }
+      );
+
+      expect(onToken.mock.calls.map(([text]) => text)).toEqual(['Hello ', 'world']);
+      expect(result).toEqual({
+        text: 'Hello world',
+        tokensUsed: 30,
+        inputTokens: 20,
+        outputTokens: 10,
+        finishReason: 'STOP',
+        model: 'gemini-2.5-flash',
+      });
+      expect(mockGenerateContentStream).toHaveBeenCalledWith(
+        {
+          contents: [
+            { role: 'user', parts: [{ text: 'Hello' }] },
+            { role: 'user', parts: [{ text: 'Follow up' }] },
+          ],
+        },
+        { signal }
+      );
+    });
+  });
+
   describe('generateStructured', () => {
     it('should generate and validate structured output', async () => {
       const schema = z.object({
@@ -771,3 +929,540 @@ describe('GeminiEmbeddingProvider', () => {
     }, 30000);
   });
 });
+
+describe('OpenAIEmbeddingProvider', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+  });
+
+  it('should request shortened vectors from text-embedding-3 models', async () => {
+    mockEmbeddingsCreate.mockResolvedValue({
+      data: [
+        { index: 1, embedding: [0.3, 0.4] },
+        { index: 0, embedding: [0.1, 0.2] },
+      ],
+    });
+
+    const { OpenAIEmbeddingProvider } = await import('../server/llm/providers/openai-provider.js');
+    const provider = new OpenAIEmbeddingProvider(
+      'key',
+      'text-embedding-3-small',
+      2,
+      'http://localhost:8000/v1'
+    );
+
+    const result = await provider.embedBatch(['first', 'second']);
+
+    expect(result).toEqual([
+      [0.1, 0.2],
+      [0.3, 0.4],
+    ]);
+    expect(mockOpenAIConstructor).toHaveBeenCalledWith(
+      expect.objectContaining({ apiKey: 'key', baseURL: 'http://localhost:8000/v1' })
+    );
+    expect(mockEmbeddingsCreate).toHaveBeenCalledWith({
+      model: 'text-embedding-3-small',
+      input: ['first', 'second'],
+      encoding_format: 'float',
+      dimensions: 2,
+    });
+  });
+
+  it('should not send dimensions to other models and reject mismatched vectors', async () => {
+    mockEmbeddingsCreate.mockResolvedValue({ data: [{ index: 0, embedding: [0.1, 0.2, 0.3] }] });
+
+    const { OpenAIEmbeddingProvider } = await import('../server/llm/providers/openai-provider.js');
+    const provider = new OpenAIEmbeddingProvider('key', 'bge-small', 2);
+
+    await expect(provider.embedText('text')).rejects.toThrow(
+      'Embedding model bge-small returned 3 dimensions, expected 2'
+    );
+    expect(mockEmbeddingsCreate.mock.calls[0][0]).not.toHaveProperty('dimensions');
+  });
+
+  it('should throw on empty text', async () => {
+    const { OpenAIEmbeddingProvider } = await import('../server/llm/providers/openai-provider.js');
+    const provider = new OpenAIEmbeddingProvider('key');
+
+    await expect(provider.embedText(' ')).rejects.toThrow('Cannot embed empty text');
+  });
+});
+
+describe('OpenAILLMProvider', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+  });
+
+  it('should send the system prompt and history as chat messages', async () => {
+    mockChatCompletionsCreate.mockResolvedValue({
+      model: 'gpt-4o-mini',
+      choices: [{ message: { content: 'Hello' }, finish_reason: 'stop' }],
+      usage: { total_tokens: 42 },
+    });
+
+    const { OpenAILLMProvider } = await import('../server/llm/providers/openai-provider.js');
+    const provider = new OpenAILLMProvider('key', 'gpt-4o-mini');
+
+    const result = await provider.generateWithHistory(
+      'Follow-up',
+      [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hey' },
+      ],
+      { systemPrompt: 'Be brief', temperature: 0.5 }
+    );
+
+    expect(result).toEqual({
+      text: 'Hello',
+      tokensUsed: 42,
+      finishReason: 'stop',
+      model: 'gpt-4o-mini',
+    });
+    expect(mockChatCompletionsCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'gpt-4o-mini',
+        temperature: 0.5,
+        messages: [
+          { role: 'system', content: 'Be brief' },
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hey' },
+          { role: 'user', content: 'Follow-up' },
+        ],
+      })
+    );
+  });
+
+  it('should request JSON mode and validate structured output', async () => {
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: '```json\n{"answer": 42}\n```' } }],
+    });
+
+    const { OpenAILLMProvider } = await import('../server/llm/providers/openai-provider.js');
+    const provider = new OpenAILLMProvider(undefined, 'qwen2.5', 'http://vllm:8000/v1');
+
+    const result = await provider.generateStructured('Answer', z.object({ answer: z.number() }));
+
+    expect(result).toEqual({ answer: 42 });
+    expect(mockOpenAIConstructor).toHaveBeenCalledWith(
+      expect.objectContaining({ baseURL: 'http://vllm:8000/v1' })
+    );
+    expect(mockChatCompletionsCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ response_format: { type: 'json_object' } })
+    );
+  });
+
+  it('should report the token usage of structured output', async () => {
+    mockChatCompletionsCreate.mockResolvedValue({
+      model: 'gpt-4o-mini',
+      choices: [{ message: { content: '{"answer": 42}' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 30, completion_tokens: 12, total_tokens: 42 },
+    });
+    const onResult = vi.fn();
+
+    const { OpenAILLMProvider } = await import('../server/llm/providers/openai-provider.js');
+    const provider = new OpenAILLMProvider('key', 'gpt-4o-mini');
+
+    await provider.generateStructured('Answer', z.object({ answer: z.number() }), { onResult });
+
+    expect(onResult).toHaveBeenCalledWith(
+      expect.objectContaining({ tokensUsed: 42, inputTokens: 30, outputTokens: 12 })
+    );
+  });
+
+  it('should reject output that does not match the schema', async () => {
+    mockChatCompletionsCreate.mockResolvedValue({
+      choices: [{ message: { content: '{"answer": "many"}' } }],
+    });
+
+    const { OpenAILLMProvider } = await import('../server/llm/providers/openai-provider.js');
+    const provider = new OpenAILLMProvider('key');
+
+    await expect(
+      provider.generateStructured('Answer', z.object({ answer: z.number() }))
+    ).rejects.toThrow('Response did not match expected schema');
+  });
+
+  it('should stream deltas and take the usage from the final chunk', async () => {
+    mockChatCompletionsCreate.mockResolvedValue(
+      (async function* () {
+        yield { model: 'gpt-4o-mini', choices: [{ delta: { content: 'Hel' } }] };
+        yield {
+          model: 'gpt-4o-mini',
+          choices: [{ delta: { content: 'lo' }, finish_reason: 'stop' }],
+        };
+        yield {
+          model: 'gpt-4o-mini',
+          choices: [],
+          usage: { prompt_tokens: 30, completion_tokens: 12, total_tokens: 42 },
+        };
+      })()
+    );
+    const onToken = vi.fn();
+
+    const { OpenAILLMProvider } = await import('../server/llm/providers/openai-provider.js');
+    const provider = new OpenAILLMProvider('key', 'gpt-4o-mini');
+
+    const result = await provider.streamWithHistory('Hi', [], {
+      onToken,
+      systemPrompt: 'Be brief',
+    });
+
+    expect(onToken.mock.calls.map(([text]) => text)).toEqual(['Hel', 'lo']);
+    expect(result).toEqual({
+      text: 'Hello',
+      tokensUsed: 42,
+      inputTokens: 30,
+      outputTokens: 12,
+      finishReason: 'stop',
+      model: 'gpt-4o-mini',
+    });
+    expect(mockChatCompletionsCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ stream: true, stream_options: { include_usage: true } }),
+      { signal: undefined }
+    );
+  });
+
+  it('should wrap API errors', async () => {
+    mockChatCompletionsCreate.mockRejectedValue(new Error('Rate limited'));
+
+    const { OpenAILLMProvider } = await import('../server/llm/providers/openai-provider.js');
+    const provider = new OpenAILLMProvider('key');
+
+    await expect(provider.generateText('Hi')).rejects.toThrow(
+      'OpenAI generation failed: Rate limited'
+    );
+  });
+});
+
+describe('AnthropicLLMProvider', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.resetModules();
+    mockFetch.mockReset();
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should require an API key', async () => {
+    const { AnthropicLLMProvider } = await import('../server/llm/providers/anthropic-provider.js');
+
+    expect(() => new AnthropicLLMProvider('')).toThrow('Anthropic API key is required');
+  });
+
+  it('should send the system prompt separately from the messages', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        model: 'claude-3-5-haiku-latest',
+        content: [{ type: 'text', text: 'Hello' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 5 },
+      }),
+    });
+
+    const { AnthropicLLMProvider } = await import('../server/llm/providers/anthropic-provider.js');
+    const provider = new AnthropicLLMProvider('key', 'claude-3-5-haiku-latest');
+
+    const result = await provider.generateText('Hi', { systemPrompt: 'Be brief' });
+
+    expect(result).toEqual({
+      text: 'Hello',
+      tokensUsed: 15,
+      inputTokens: 10,
+      outputTokens: 5,
+      finishReason: 'end_turn',
+      model: 'claude-3-5-haiku-latest',
+    });
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers).toMatchObject({ 'x-api-key': 'key', 'anthropic-version': '2023-06-01' });
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'claude-3-5-haiku-latest',
+      max_tokens: 4096,
+      system: 'Be brief',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+  });
+
+  it('should validate structured output', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ content: [{ type: 'text', text: '{"answer": 42}' }] }),
+    });
+
+    const { AnthropicLLMProvider } = await import('../server/llm/providers/anthropic-provider.js');
+    const provider = new AnthropicLLMProvider('key');
+
+    await expect(
+      provider.generateStructured('Answer', z.object({ answer: z.number() }))
+    ).resolves.toEqual({ answer: 42 });
+  });
+
+  it('should stream text deltas from the server-sent events', async () => {
+    const events = [
+      {
+        type: 'message_start',
+        message: { model: 'claude-3-5-haiku-latest', usage: { input_tokens: 10 } },
+      },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'lo' } },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 5 } },
+      { type: 'message_stop' },
+    ];
+    const sse = events
+      .map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+      .join('');
+    // Split mid-event to exercise the line buffering
+    mockFetch.mockResolvedValue({
+      ok: true,
+      body: streamBody([sse.slice(0, 150), sse.slice(150)]),
+    });
+    const onToken = vi.fn();
+
+    const { AnthropicLLMProvider } = await import('../server/llm/providers/anthropic-provider.js');
+    const provider = new AnthropicLLMProvider('key');
+
+    const result = await provider.streamWithHistory('Hi', [], { onToken });
+
+    expect(onToken.mock.calls.map(([text]) => text)).toEqual(['Hel', 'lo']);
+    expect(result).toEqual({
+      text: 'Hello',
+      tokensUsed: 15,
+      inputTokens: 10,
+      outputTokens: 5,
+      finishReason: 'end_turn',
+      model: 'claude-3-5-haiku-latest',
+    });
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true);
+  });
+
+  it('should throw on a failed request', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 529,
+      text: async () => 'overloaded',
+    });
+
+    const { AnthropicLLMProvider } = await import('../server/llm/providers/anthropic-provider.js');
+    const provider = new AnthropicLLMProvider('key');
+
+    await expect(provider.generateText('Hi')).rejects.toThrow(
+      'Anthropic generation failed: request failed (529): overloaded'
+    );
+  });
+});
+
+describe('OllamaLLMProvider', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.resetModules();
+    mockFetch.mockReset();
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should request JSON format for structured output', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        model: 'qwen2.5',
+        message: { content: '{"answer": 42}' },
+        prompt_eval_count: 20,
+        eval_count: 8,
+      }),
+    });
+
+    const { OllamaLLMProvider } = await import('../server/llm/providers/ollama-provider.js');
+    const provider = new OllamaLLMProvider('http://ollama:11434/', 'qwen2.5');
+
+    const result = await provider.generateStructured('Answer', z.object({ answer: z.number() }));
+
+    expect(result).toEqual({ answer: 42 });
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('http://ollama:11434/api/chat');
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'qwen2.5',
+      stream: false,
+      format: 'json',
+      options: { temperature: 0.1, num_predict: 4096 },
+    });
+  });
+
+  it('should report token usage from the eval counts', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        message: { content: 'Hello' },
+        done_reason: 'stop',
+        prompt_eval_count: 20,
+        eval_count: 8,
+      }),
+    });
+
+    const { OllamaLLMProvider } = await import('../server/llm/providers/ollama-provider.js');
+    const provider = new OllamaLLMProvider();
+
+    const result = await provider.generateText('Hi');
+
+    expect(result).toEqual({
+      text: 'Hello',
+      tokensUsed: 28,
+      inputTokens: 20,
+      outputTokens: 8,
+      finishReason: 'stop',
+      model: 'llama3',
+    });
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).not.toHaveProperty('format');
+  });
+
+  it('should stream newline-delimited chunks', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      body: streamBody([
+        '{"message":{"content":"Hel"},"done":false}\n{"message":{"con',
+        'tent":"lo"},"done":false}\n',
+        '{"model":"llama3","message":{"content":""},"done":true,"done_reason":"stop","prompt_eval_count":20,"eval_count":8}\n',
+      ]),
+    });
+    const onToken = vi.fn();
+    const controller = new AbortController();
+
+    const { OllamaLLMProvider } = await import('../server/llm/providers/ollama-provider.js');
+    const provider = new OllamaLLMProvider();
+
+    const result = await provider.streamWithHistory('Hi', [], {
+      onToken,
+      signal: controller.signal,
+    });
+
+    expect(onToken.mock.calls.map(([text]) => text)).toEqual(['Hel', 'lo']);
+    expect(result).toEqual({
+      text: 'Hello',
+      tokensUsed: 28,
+      inputTokens: 20,
+      outputTokens: 8,
+      finishReason: 'stop',
+      model: 'llama3',
+    });
+    const init = mockFetch.mock.calls[0][1];
+    expect(JSON.parse(init.body).stream).toBe(true);
+    expect(init.signal).toBe(controller.signal);
+  });
+});
+
+describe('OllamaEmbeddingProvider', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.resetModules();
+    mockFetch.mockReset();
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should embed a batch in one request', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        embeddings: [
+          [0.1, 0.2],
+          [0.3, 0.4],
+        ],
+      }),
+    });
+
+    const { OllamaEmbeddingProvider } = await import('../server/llm/providers/ollama-provider.js');
+    const provider = new OllamaEmbeddingProvider('http://ollama:11434/', 'nomic-embed-text', 2);
+
+    const result = await provider.embedBatch(['a', 'b']);
+
+    expect(result).toEqual([
+      [0.1, 0.2],
+      [0.3, 0.4],
+    ]);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://ollama:11434/api/embed',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ model: 'nomic-embed-text', input: ['a', 'b'] }),
+      })
+    );
+  });
+
+  it('should throw on a failed request', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 404,
+      text: async () => 'model "missing" not found',
+    });
+
+    const { OllamaEmbeddingProvider } = await import('../server/llm/providers/ollama-provider.js');
+    const provider = new OllamaEmbeddingProvider(undefined, 'missing');
+
+    await expect(provider.embedText('text')).rejects.toThrow(
+      'Ollama embedding request failed (404): model "missing" not found'
+    );
+  });
+});
+
+describe('LocalEmbeddingProvider', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    mockPipeline.mockResolvedValue(mockExtractor);
+  });
+
+  it('should load the model once and mean-pool normalized embeddings', async () => {
+    mockExtractor.mockResolvedValue({ tolist: () => [[0.6, 0.8]] });
+
+    const { LocalEmbeddingProvider } = await import('../server/llm/providers/local-provider.js');
+    const provider = new LocalEmbeddingProvider('Xenova/all-MiniLM-L6-v2', 2);
+
+    expect(await provider.embedText('first')).toEqual([0.6, 0.8]);
+    expect(await provider.embedText('second')).toEqual([0.6, 0.8]);
+
+    expect(mockPipeline).toHaveBeenCalledTimes(1);
+    expect(mockPipeline).toHaveBeenCalledWith('feature-extraction', 'Xenova/all-MiniLM-L6-v2', {
+      dtype: 'fp32',
+    });
+    expect(mockExtractor).toHaveBeenCalledWith(['second'], { pooling: 'mean', normalize: true });
+  });
+
+  it('should only read models from the model directory when one is set', async () => {
+    mockExtractor.mockResolvedValue({ tolist: () => [[1]] });
+
+    const { LocalEmbeddingProvider } = await import('../server/llm/providers/local-provider.js');
+    const provider = new LocalEmbeddingProvider('bge', 1, '/opt/models');
+    await provider.embedText('text');
+
+    expect(mockTransformersEnv).toMatchObject({
+      localModelPath: '/opt/models',
+      allowRemoteModels: false,
+    });
+  });
+
+  it('should reject vectors of another dimension', async () => {
+    mockExtractor.mockResolvedValue({ tolist: () => [new Array(384).fill(0)] });
+
+    const { LocalEmbeddingProvider } = await import('../server/llm/providers/local-provider.js');
+    const provider = new LocalEmbeddingProvider('Xenova/all-MiniLM-L6-v2', 768);
+
+    await expect(provider.embedText('text')).rejects.toThrow(
+      'returned 384 dimensions, expected 768'
+    );
+  });
+});
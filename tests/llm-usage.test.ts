@@ -0,0 +1,438 @@
+/**
+ * LLM Usage Accounting Tests
+ * Tests for token and cost reporting by LLM handlers, the usage service
+ * (budgets, spend reports) and per-step usage recording by the orchestrator
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Usage of calls billed before they failed
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+
+vi.mock('../server/utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+  getErrorMessage: (error: unknown) => (error instanceof Error ? error.message : String(error)),
+}));
+
+import {
+  ProviderHandler,
+  BilledLLMCallError,
+  type ModelCatalog,
+} from '../server/pipeline/handlers/ProviderHandler.js';
+import { MeteredLLMProvider } from '../server/pipeline/handlers/MeteredLLMProvider.js';
+import { resetCircuitBreakers } from '../server/pipeline/handlers/CircuitBreaker.js';
+import { PipelineOrchestrator } from '../server/pipeline/core/PipelineOrchestrator.js';
+import { LLMUsageService } from '../server/llm/llm-usage.js';
+import type { ILLMProvider } from '../server/llm/providers/types.js';
+import type {
+  ILLMHandler,
+  LLMRequest,
+  PipelineConfig,
+  PipelineContext,
+} from '../server/pipeline/core/interfaces.js';
+import type { StepFactory } from '../server/pipeline/core/StepFactory.js';
+
+const schema = z.object({ ok: z.boolean() });
+const context = { instanceId: 'test-instance', batchId: 'batch-1', purpose: 'classification' };
+const request: LLMRequest = { model: 'test-model', systemPrompt: 'sys', userPrompt: 'user' };
+
+const catalog: ModelCatalog = {
+  pricing: { 'test-model': { input: 0.001, output: 0.002 } },
+  info: {},
+  defaultPricing: { input: 0.01, output: 0.03 },
+  defaultInfo: {
+    provider: 'openai',
+    model: 'unknown',
+    maxTokens: 4096,
+    supportsFunctionCalling: false,
+    supportsStreaming: false,
+  },
+};
+
+class TestHandler extends ProviderHandler {
+  readonly name = 'openai' as const;
+}
+
+describe('ProviderHandler usage', () => {
+  it('should report tokens and cost of structured requests', async () => {
+    const provider = {
+      generateStructured: vi.fn(async (_prompt, _schema, options) => {
+        options.onResult({
+          text: '{"ok":true}',
+          tokensUsed: 3000,
+          inputTokens: 2000,
+          outputTokens: 1000,
+        });
+        return { ok: true };
+      }),
+    } as unknown as ILLMProvider;
+    const handler = new TestHandler(provider, 'test-model', catalog);
+
+    const { data, response } = await handler.requestJSON(request, schema, context);
+
+    expect(data).toEqual({ ok: true });
+    expect(response).toMatchObject({
+      tokensUsed: 3000,
+      inputTokens: 2000,
+      outputTokens: 1000,
+      model: 'test-model',
+      provider: 'openai',
+    });
+    // 2K input at $0.001 + 1K output at $0.002
+    expect(response.costUSD).toBeCloseTo(0.004);
+  });
+
+  it('should count a total-only usage report as output tokens', async () => {
+    const provider = {
+      generateText: vi.fn().mockResolvedValue({ text: 'hi', tokensUsed: 1000, model: 'other' }),
+    } as unknown as ILLMProvider;
+    const handler = new TestHandler(provider, 'test-model', catalog);
+
+    const response = await handler.requestText(request, context);
+
+    expect(response.model).toBe('other');
+    expect(response.outputTokens).toBe(1000);
+    // Unknown model: default pricing
+    expect(response.costUSD).toBeCloseTo(0.03);
+  });
+
+  it('should leave cost unset when the provider reports no usage', async () => {
+    const provider = {
+      generateText: vi.fn().mockResolvedValue({ text: 'cached', model: 'test-model' }),
+    } as unknown as ILLMProvider;
+    const handler = new TestHandler(provider, 'test-model', catalog);
+
+    const response = await handler.requestText(request, context);
+
+    expect(response.costUSD).toBeUndefined();
+  });
+
+  it('should carry the usage of a response that did not match the schema', async () => {
+    const provider = {
+      generateStructured: vi.fn(async (_prompt, _schema, options) => {
+        options.onResult({ text: '{"ok":"yes"}', inputTokens: 2000, outputTokens: 1000 });
+        throw new Error('Response did not match expected schema');
+      }),
+    } as unknown as ILLMProvider;
+    const handler = new TestHandler(provider, 'test-model', catalog);
+
+    const error = await handler.requestJSON(request, schema, context).catch((e) => e);
+
+    expect(error).toBeInstanceOf(BilledLLMCallError);
+    expect(error.message).toBe('Response did not match expected schema');
+    expect(error.response).toMatchObject({ inputTokens: 2000, outputTokens: 1000 });
+    expect(error.response.costUSD).toBeCloseTo(0.004);
+  });
+
+  it('should rethrow failures without a response as they are', async () => {
+    const failure = new Error('503 Service Unavailable');
+    const provider = {
+      generateStructured: vi.fn().mockRejectedValue(failure),
+    } as unknown as ILLMProvider;
+    const handler = new TestHandler(provider, 'test-model', catalog);
+
+    await expect(handler.requestJSON(request, schema, context)).rejects.toBe(failure);
+  });
+});
+
+describe('MeteredLLMProvider', () => {
+  it('should report structured calls whose response failed validation', async () => {
+    const onUsage = vi.fn();
+    const inner = {
+      name: 'openai',
+      generateStructured: vi.fn(async (_prompt, _schema, options) => {
+        options.onResult({ text: 'not json', inputTokens: 2000, outputTokens: 1000 });
+        throw new Error('Unexpected token');
+      }),
+    } as unknown as ILLMProvider;
+    const provider = new MeteredLLMProvider(inner, catalog, context, onUsage);
+
+    await expect(
+      provider.generateStructured('prompt', schema, { model: 'test-model' })
+    ).rejects.toThrow('Unexpected token');
+    expect(onUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ inputTokens: 2000, outputTokens: 1000, text: 'not json' }),
+      context
+    );
+  });
+});
+
+describe('LLMUsageService', () => {
+  const now = new Date('2026-10-19T15:30:00Z');
+  let prisma: {
+    llmUsage: { create: ReturnType<typeof vi.fn>; aggregate: ReturnType<typeof vi.fn> };
+    $queryRaw: ReturnType<typeof vi.fn>;
+  };
+  let service: LLMUsageService;
+
+  beforeEach(() => {
+    prisma = {
+      llmUsage: { create: vi.fn(), aggregate: vi.fn() },
+      $queryRaw: vi.fn(),
+    };
+    service = new LLMUsageService(prisma as any, 'test-instance');
+  });
+
+  it('should record calls for the instance', async () => {
+    await service.record({
+      batchId: 'batch-1',
+      stepId: 'classify',
+      purpose: 'classification',
+      provider: 'gemini',
+      model: 'gemini-2.5-flash',
+      inputTokens: 100,
+      outputTokens: 50,
+      costUsd: 0.0001,
+    });
+
+    expect(prisma.llmUsage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ instanceId: 'test-instance', stepId: 'classify' }),
+    });
+  });
+
+  it('should check spend since the start of the UTC day and month', async () => {
+    prisma.llmUsage.aggregate
+      .mockResolvedValueOnce({ _sum: { costUsd: 2 } })
+      .mockResolvedValueOnce({ _sum: { costUsd: 40 } });
+
+    const status = await service.getBudgetStatus({ dailyUSD: 5, monthlyUSD: 30 }, now);
+
+    expect(status).toEqual({ dailySpendUSD: 2, monthlySpendUSD: 40, exceeded: 'monthly' });
+    expect(prisma.llmUsage.aggregate.mock.calls[0][0].where.createdAt.gte).toEqual(
+      new Date('2026-10-19T00:00:00Z')
+    );
+    expect(prisma.llmUsage.aggregate.mock.calls[1][0].where.createdAt.gte).toEqual(
+      new Date('2026-10-01T00:00:00Z')
+    );
+  });
+
+  it('should report the daily budget first and treat no usage as zero spend', async () => {
+    prisma.llmUsage.aggregate.mockResolvedValue({ _sum: { costUsd: null } });
+    expect((await service.getBudgetStatus({ dailyUSD: 5 }, now)).exceeded).toBeNull();
+
+    prisma.llmUsage.aggregate.mockResolvedValue({ _sum: { costUsd: 50 } });
+    expect((await service.getBudgetStatus({ dailyUSD: 5, monthlyUSD: 30 }, now)).exceeded).toBe(
+      'daily'
+    );
+  });
+
+  it('should total spend by day, step and model', async () => {
+    prisma.$queryRaw.mockResolvedValue([
+      {
+        day: new Date('2026-10-18T00:00:00Z'),
+        step_id: 'classify',
+        provider: 'gemini',
+        model: 'gemini-2.5-flash',
+        calls: 4,
+        input_tokens: 4000,
+        output_tokens: 400,
+        cost_usd: 0.5,
+      },
+      {
+        day: new Date('2026-10-19T00:00:00Z'),
+        step_id: 'classify',
+        provider: 'gemini',
+        model: 'gemini-2.5-flash',
+        calls: 2,
+        input_tokens: 2000,
+        output_tokens: 200,
+        cost_usd: 0.25,
+      },
+      {
+        day: new Date('2026-10-19T00:00:00Z'),
+        step_id: 'proposal-generate',
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-20250514',
+        calls: 1,
+        input_tokens: 1000,
+        output_tokens: 500,
+        cost_usd: 1,
+      },
+    ]);
+
+    const report = await service.getSpendReport(7, now);
+
+    expect(report.since).toBe('2026-10-13T00:00:00.000Z');
+    expect(report.totalCostUsd).toBeCloseTo(1.75);
+    expect(report.byDay.map((day) => [day.key, day.costUsd])).toEqual([
+      ['2026-10-18', 0.5],
+      ['2026-10-19', 1.25],
+    ]);
+    expect(report.byStep.find((step) => step.key === 'classify')).toMatchObject({
+      calls: 6,
+      inputTokens: 6000,
+      costUsd: 0.75,
+    });
+    expect(report.byModel.map((model) => model.key)).toEqual([
+      'gemini/gemini-2.5-flash',
+      'anthropic/claude-sonnet-4-20250514',
+    ]);
+  });
+});
+
+describe('PipelineOrchestrator usage accounting', () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  function createHandler(name: string) {
+    return {
+      name,
+      requestJSON: vi.fn(async (req: LLMRequest) => ({
+        data: { ok: true },
+        response: {
+          text: '{"ok":true}',
+          model: req.model,
+          provider: name,
+          inputTokens: 1000,
+          outputTokens: 200,
+          costUSD: 0.01,
+        },
+      })),
+      requestText: vi.fn(),
+      getModelInfo: vi.fn(),
+      estimateCost: vi.fn(),
+    } as unknown as ILLMHandler & { requestJSON: ReturnType<typeof vi.fn> };
+  }
+
+  function runPipeline(
+    llmHandler: ILLMHandler,
+    options: Record<string, unknown> = {},
+    generateConfig: Record<string, unknown> = { model: 'pro' }
+  ) {
+    const stepFactory = {
+      hasStepType: vi.fn().mockReturnValue(true),
+      create: vi.fn((stepConfig, handler: ILLMHandler) => ({
+        stepId: stepConfig.stepId,
+        stepType: stepConfig.stepType,
+        execute: vi.fn(async (ctx: PipelineContext) => {
+          await handler.requestJSON({ ...request, model: stepConfig.config.model }, schema, {
+            ...context,
+            purpose: stepConfig.stepId,
+          });
+          return ctx;
+        }),
+      })),
+    } as unknown as StepFactory;
+    const db = {
+      pipelineRunLog: {
+        create: vi.fn().mockResolvedValue({ id: 7 }),
+        update: vi.fn().mockResolvedValue({}),
+      },
+      llmUsage: { create: vi.fn().mockResolvedValue({}) },
+    };
+    const config = {
+      instanceId: 'test-instance',
+      pipelineId: 'test-pipeline',
+      steps: [
+        { stepId: 'classify', stepType: 'classify', enabled: true, config: { model: 'flash' } },
+        { stepId: 'generate', stepType: 'generate', enabled: true, config: generateConfig },
+      ],
+      errorHandling: { stopOnError: true, retryAttempts: 0, retryDelayMs: 0 },
+      performance: { maxConcurrentSteps: 1, timeoutMs: 1000, enableCaching: false },
+    } as unknown as PipelineConfig;
+    const ctx = {
+      instanceId: 'test-instance',
+      batchId: 'batch-1',
+      messages: [{ id: 1 }],
+      filteredMessages: [{ id: 1 }],
+      threads: [{ id: 't1', category: 'docs' }],
+      proposals: new Map(),
+      ragResults: new Map(),
+      stepPromptLogs: new Map(),
+      metrics: { stepDurations: new Map(), llmCalls: 0, llmTokensUsed: 0, llmCostUSD: 0 },
+      errors: [],
+      db,
+    } as unknown as PipelineContext;
+
+    const orchestrator = new PipelineOrchestrator(config, llmHandler, stepFactory, options);
+    return { db, result: orchestrator.execute(ctx) };
+  }
+
+  it('should record each call with its step and add the cost to the run', async () => {
+    const { db, result } = runPipeline(createHandler('gemini'));
+
+    expect((await result).metrics.llmCostUSD).toBeCloseTo(0.02);
+    expect(db.llmUsage.create).toHaveBeenCalledTimes(2);
+    expect(db.llmUsage.create.mock.calls[1][0].data).toEqual({
+      instanceId: 'test-instance',
+      batchId: 'batch-1',
+      stepId: 'generate',
+      purpose: 'generate',
+      provider: 'gemini',
+      model: 'pro',
+      inputTokens: 1000,
+      outputTokens: 200,
+      costUsd: 0.01,
+    });
+    expect(db.pipelineRunLog.update.mock.calls.at(-1)![0].data.llmCostUsd).toBeCloseTo(0.02);
+  });
+
+  it('should keep running when usage cannot be recorded', async () => {
+    const { db, result } = runPipeline(createHandler('gemini'));
+    db.llmUsage.create.mockRejectedValue(new Error('relation "llm_usage" does not exist'));
+
+    expect((await result).success).toBe(true);
+  });
+
+  it('should record calls a fallback candidate was billed for before failing', async () => {
+    const handler = createHandler('gemini');
+    const respond = handler.requestJSON.getMockImplementation()!;
+    handler.requestJSON.mockImplementation(async (req: LLMRequest) => {
+      if (req.model === 'pro') {
+        throw new BilledLLMCallError(new Error('Response did not match expected schema'), {
+          text: '{}',
+          model: 'pro',
+          provider: 'gemini',
+          inputTokens: 1000,
+          outputTokens: 50,
+          costUSD: 0.005,
+        });
+      }
+      return respond(req);
+    });
+
+    const { db, result } = runPipeline(
+      handler,
+      {},
+      { model: 'pro', fallback: [{ model: 'lite' }] }
+    );
+
+    expect((await result).success).toBe(true);
+    expect(db.llmUsage.create.mock.calls.map((call) => call[0].data.model)).toEqual([
+      'flash',
+      'pro',
+      'lite',
+    ]);
+    expect((await result).metrics.llmCostUSD).toBeCloseTo(0.025);
+  });
+
+  it('should serve every step with the override model', async () => {
+    const defaultHandler = createHandler('gemini');
+    const cheap = createHandler('ollama');
+    const resolveLLMHandler = vi.fn().mockReturnValue(cheap);
+
+    const { db, result } = runPipeline(defaultHandler, {
+      resolveLLMHandler,
+      llmOverride: { provider: 'ollama', model: 'llama3' },
+    });
+    await result;
+
+    expect(defaultHandler.requestJSON).not.toHaveBeenCalled();
+    expect(cheap.requestJSON).toHaveBeenCalledTimes(2);
+    expect(db.llmUsage.create.mock.calls.map((call) => call[0].data.model)).toEqual([
+      'llama3',
+      'llama3',
+    ]);
+    const finalUpdate = db.pipelineRunLog.update.mock.calls.at(-1)![0];
+    expect(finalUpdate.data.steps[0].llmRouting.models).toEqual([
+      { provider: 'ollama', model: 'llama3', calls: 1 },
+    ]);
+  });
+});
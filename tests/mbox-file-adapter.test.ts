@@ -0,0 +1,366 @@
+/**
+ * Mbox File Adapter Tests
+ * Tests for MboxFileAdapter parsing, threading and inbox workflow
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MboxFileAdapter } from '../server/stream/adapters/mbox-file-adapter';
+
+// Mock fs/promises
+vi.mock('fs/promises', () => ({
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  readdir: vi.fn(),
+  readFile: vi.fn(),
+  rename: vi.fn().mockResolvedValue(undefined),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+}));
+
+import * as fs from 'fs/promises';
+
+function mail(headers: Record<string, string>, body: string, from = 'alice@example.com'): string {
+  const headerLines = Object.entries(headers)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n');
+  return `From ${from} Mon Jan  1 10:00:00 2024\n${headerLines}\n\n${body}\n`;
+}
+
+const question = mail(
+  {
+    From: 'Alice Example <alice@example.com>',
+    Subject: 'How do I configure TLS?',
+    Date: 'Mon, 1 Jan 2024 10:00:00 +0000',
+    'Message-ID': '<q1@example.com>',
+    'List-Id': 'Users list <users.lists.example.com>',
+  },
+  'I cannot find the TLS option.'
+);
+
+const answer = mail(
+  {
+    From: '"Bob Maintainer" <bob@example.com>',
+    Subject: 'Re: How do I configure TLS?',
+    Date: 'Mon, 1 Jan 2024 11:00:00 +0000',
+    'Message-ID': '<a1@example.com>',
+    'In-Reply-To': '<q1@example.com>',
+    References: '<q1@example.com>',
+  },
+  [
+    'Set tls.enabled in the config file.',
+    '',
+    'On Mon, 1 Jan 2024 at 10:00, Alice Example <alice@example.com> wrote:',
+    '> I cannot find the TLS option.',
+    '',
+    '-- ',
+    'Bob',
+  ].join('\n')
+);
+
+const followUp = mail(
+  {
+    From: 'alice@example.com (Alice Example)',
+    Subject: 'Re: How do I configure TLS?',
+    Date: 'Mon, 1 Jan 2024 12:00:00 +0000',
+    'Message-ID': '<f1@example.com>',
+    'In-Reply-To': '<a1@example.com>',
+  },
+  'Thanks, that worked!\n\n> Set tls.enabled in the config file.'
+);
+
+describe('MboxFileAdapter', () => {
+  let adapter: MboxFileAdapter;
+  let mockDb: any;
+
+  const validConfig = {
+    inboxDir: '/tmp/inbox',
+    processedDir: '/tmp/processed',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockDb = {
+      streamConfig: {
+        findUnique: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockResolvedValue({ id: 1 }),
+        update: vi.fn().mockResolvedValue({ id: 1 }),
+      },
+      importWatermark: {
+        findFirst: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockResolvedValue({}),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      },
+      unifiedMessage: {
+        findUnique: vi.fn().mockResolvedValue(null),
+        findFirst: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockResolvedValue({ id: 1 }),
+      },
+    };
+
+    adapter = new MboxFileAdapter('test-mbox', mockDb);
+  });
+
+  describe('validateConfig', () => {
+    it('should accept valid configuration', () => {
+      expect(adapter.validateConfig(validConfig)).toBe(true);
+    });
+
+    it('should reject config without inboxDir or processedDir', () => {
+      expect(adapter.validateConfig({ processedDir: '/tmp/out' })).toBe(false);
+      expect(adapter.validateConfig({ inboxDir: '/tmp/in' })).toBe(false);
+    });
+  });
+
+  describe('fetchMessages', () => {
+    beforeEach(async () => {
+      await adapter.initialize(validConfig);
+      vi.mocked(fs.readdir).mockResolvedValue([
+        { name: 'users-2024-01.mbox', isFile: () => true },
+        { name: 'notes.txt', isFile: () => true },
+      ] as any);
+    });
+
+    it('should create inbox and processed directories on initialize', () => {
+      expect(fs.mkdir).toHaveBeenCalledWith('/tmp/inbox', { recursive: true });
+      expect(fs.mkdir).toHaveBeenCalledWith('/tmp/processed', { recursive: true });
+    });
+
+    it('should import messages and rebuild the thread', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(`${question}\n${answer}\n${followUp}` as any);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(fs.readFile).toHaveBeenCalledTimes(1);
+      expect(messages.map((m) => m.messageId)).toEqual([
+        'q1@example.com',
+        'a1@example.com',
+        'f1@example.com',
+      ]);
+      expect(messages[0]).toMatchObject({
+        author: 'Alice Example',
+        content: 'How do I configure TLS?\n\nI cannot find the TLS option.',
+        channel: 'Users list',
+      });
+      expect(messages[1].author).toBe('Bob Maintainer');
+      expect(messages[1].metadata).toMatchObject({
+        replyToMessageId: 'q1@example.com',
+        threadId: 'q1@example.com',
+        authorEmail: 'bob@example.com',
+      });
+      // No References header: the thread is found by following In-Reply-To
+      expect(messages[2].metadata).toMatchObject({
+        replyToMessageId: 'a1@example.com',
+        threadId: 'q1@example.com',
+      });
+      expect(messages[2].author).toBe('Alice Example');
+    });
+
+    it('should strip quoted text, attributions and signatures', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(`${question}\n${answer}\n${followUp}` as any);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages[1].content).toBe('Set tls.enabled in the config file.');
+      expect(messages[2].content).toBe('Thanks, that worked!');
+    });
+
+    it('should keep quoted text when stripQuotes is disabled', async () => {
+      adapter = new MboxFileAdapter('test-mbox', mockDb);
+      await adapter.initialize({ ...validConfig, stripQuotes: false });
+      vi.mocked(fs.readFile).mockResolvedValue(followUp as any);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages[0].content).toContain('> Set tls.enabled');
+    });
+
+    it('should resolve thread roots from previously imported messages', async () => {
+      mockDb.unifiedMessage.findUnique.mockImplementation(async ({ where }: any) => {
+        if (where.streamId_messageId?.messageId === 'a1@example.com') {
+          return { id: 7, metadata: { threadId: 'q1@example.com' } };
+        }
+        return null;
+      });
+      vi.mocked(fs.readFile).mockResolvedValue(followUp as any);
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages[0].metadata!.threadId).toBe('q1@example.com');
+    });
+
+    it('should move the file and write a processing report with failures', async () => {
+      const undated = mail({ Subject: 'No date', 'Message-ID': '<x@example.com>' }, 'Body');
+      const quoteOnly = mail(
+        {
+          Date: 'Tue, 2 Jan 2024 09:00:00 +0000',
+          'Message-ID': '<y@example.com>',
+          'In-Reply-To': '<q1@example.com>',
+        },
+        '> just a quote'
+      );
+      vi.mocked(fs.readFile).mockResolvedValue(
+        `${question}\n${undated.replace(/^From \S+ .*$/m, 'From nobody')}\n${quoteOnly}` as any
+      );
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(1);
+      expect(fs.rename).toHaveBeenCalledWith(
+        '/tmp/inbox/users-2024-01.mbox',
+        expect.stringMatching(/^\/tmp\/processed\/.*_users-2024-01\.mbox$/)
+      );
+
+      const [reportPath, reportJson] = vi.mocked(fs.writeFile).mock.calls[0];
+      expect(reportPath).toMatch(/users-2024-01_report\.json$/);
+      const report = JSON.parse(reportJson as string);
+      expect(report).toMatchObject({
+        fileName: 'users-2024-01.mbox',
+        totalRows: 3,
+        successfulRows: 1,
+        failedRows: 2,
+      });
+      expect(report.errors[0]).toEqual({
+        row: 2,
+        error: 'Invalid or missing Date header: (none)',
+      });
+      expect(report.errors[1].error).toBe('Message has no content after stripping quoted text');
+    });
+
+    it('should filter messages older than the watermark', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(`${question}\n${answer}` as any);
+
+      const messages = await adapter.fetchMessages({
+        lastProcessedTime: new Date('2024-01-01T10:30:00Z'),
+        totalProcessed: 0,
+      });
+
+      expect(messages.map((m) => m.messageId)).toEqual(['a1@example.com']);
+    });
+  });
+
+  describe('parseMbox', () => {
+    it('should split only on From lines that follow a blank line and unescape >From', () => {
+      const content = mail(
+        { Subject: 'One', Date: 'Mon, 1 Jan 2024 10:00:00 +0000' },
+        'Line\nFrom here it continues\n>From the archive'
+      );
+
+      const mails = MboxFileAdapter.parseMbox(content);
+
+      expect(mails).toHaveLength(1);
+      expect(mails[0].body).toBe('Line\nFrom here it continues\nFrom the archive');
+    });
+
+    it('should unfold headers and decode encoded words', () => {
+      const content = [
+        'From a@example.com Mon Jan  1 10:00:00 2024',
+        'Subject: =?UTF-8?B?Q2Fmw6k=?= =?UTF-8?Q?_au_lait?=',
+        'References: <r1@example.com>',
+        '  <r2@example.com>',
+        '',
+        'Body',
+      ].join('\r\n');
+
+      const [parsed] = MboxFileAdapter.parseMbox(content);
+
+      expect(parsed.headers['subject']).toBe('Café au lait');
+      expect(MboxFileAdapter.parseMessageIds(parsed.headers['references'])).toEqual([
+        'r1@example.com',
+        'r2@example.com',
+      ]);
+    });
+
+    it('should pick the text/plain part of multipart messages and decode it', () => {
+      const content = [
+        'From a@example.com Mon Jan  1 10:00:00 2024',
+        'Content-Type: multipart/alternative; boundary="b1"',
+        '',
+        'preamble',
+        '--b1',
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        '<p>HTML version</p>',
+        '--b1',
+        'Content-Type: text/plain; charset=iso-8859-1',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Gr=FC=DFe, this line is =',
+        'soft-wrapped',
+        '--b1--',
+        '',
+      ].join('\n');
+
+      const [parsed] = MboxFileAdapter.parseMbox(content);
+
+      expect(parsed.body.trim()).toBe('Grüße, this line is soft-wrapped');
+    });
+
+    it('should fall back to HTML when no plain-text part exists', () => {
+      const html = Buffer.from('<p>Hello &amp; welcome</p><p>Second</p>').toString('base64');
+      const content = [
+        'From a@example.com Mon Jan  1 10:00:00 2024',
+        'Content-Type: text/html; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        html,
+      ].join('\n');
+
+      const [parsed] = MboxFileAdapter.parseMbox(content);
+
+      expect(parsed.body.trim()).toBe('Hello & welcome\nSecond');
+    });
+  });
+
+  describe('stripQuotedText', () => {
+    it('should remove attribution lines wrapped over two lines', () => {
+      const text = [
+        'Yes, that is expected.',
+        '',
+        'On Mon, Jan 1, 2024 at 10:00 AM Alice Example <',
+        'alice@example.com> wrote:',
+        '> Is this expected?',
+      ].join('\n');
+
+      expect(MboxFileAdapter.stripQuotedText(text)).toBe('Yes, that is expected.');
+    });
+
+    it('should keep inline replies between quote blocks', () => {
+      const text = [
+        '> First question?',
+        'First answer.',
+        '> Second question?',
+        'Second answer.',
+      ].join('\n');
+
+      expect(MboxFileAdapter.stripQuotedText(text)).toBe('First answer.\nSecond answer.');
+    });
+
+    it('should cut forwarded originals and mailing list footers', () => {
+      expect(
+        MboxFileAdapter.stripQuotedText('Top post\n-----Original Message-----\nFrom: someone')
+      ).toBe('Top post');
+      expect(
+        MboxFileAdapter.stripQuotedText(
+          'Reply\n_______________________________________________\nusers mailing list'
+        )
+      ).toBe('Reply');
+    });
+  });
+
+  describe('parseAddress', () => {
+    it('should parse the common From formats', () => {
+      expect(MboxFileAdapter.parseAddress('"Doe, Jane" <jane@example.com>')).toEqual({
+        name: 'Doe, Jane',
+        address: 'jane@example.com',
+      });
+      expect(MboxFileAdapter.parseAddress('jane@example.com (Jane Doe)')).toEqual({
+        name: 'Jane Doe',
+        address: 'jane@example.com',
+      });
+      expect(MboxFileAdapter.parseAddress('jane at example.com')).toEqual({
+        address: 'jane@example.com',
+      });
+    });
+  });
+});
@@ -8,22 +8,20 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 // Use vi.hoisted to define mocks before vi.mock is hoisted
-const { mockEmbedText, mockSearchSimilar, MockPgVectorStore } = vi.hoisted(() => {
+const { mockEmbedText, mockSearchHybrid, MockPgVectorStore } = vi.hoisted(() => {
   const mockEmbedText = vi.fn();
-  const mockSearchSimilar = vi.fn();
+  const mockSearchHybrid = vi.fn();
 
   class MockPgVectorStore {
     constructor(_instanceId: string, _db: any) {}
-    searchSimilar = mockSearchSimilar;
+    searchHybrid = mockSearchHybrid;
   }
 
-  return { mockEmbedText, mockSearchSimilar, MockPgVectorStore };
+  return { mockEmbedText, mockSearchHybrid, MockPgVectorStore };
 });
 
-vi.mock('../server/embeddings/gemini-embedder.js', () => ({
-  geminiEmbedder: {
-    embedText: mockEmbedText,
-  },
+vi.mock('../server/embeddings/instance-embeddings.js', () => ({
+  getInstanceEmbeddingProvider: vi.fn(() => ({ embedText: mockEmbedText })),
 }));
 
 vi.mock('../server/vector-store.js', () => ({
@@ -31,6 +29,7 @@ vi.mock('../server/vector-store.js', () => ({
 }));
 
 import { MessageVectorSearch } from '../server/stream/message-vector-search';
+import { getInstanceEmbeddingProvider } from '../server/embeddings/instance-embeddings.js';
 
 describe('MessageVectorSearch', () => {
   let search: MessageVectorSearch;
@@ -39,7 +38,7 @@ describe('MessageVectorSearch', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockEmbedText.mockReset();
-    mockSearchSimilar.mockReset();
+    mockSearchHybrid.mockReset();
 
     mockDb = {
       $executeRaw: vi.fn(),
@@ -65,6 +64,7 @@ describe('MessageVectorSearch', () => {
 
       expect(result).toEqual(mockEmbedding);
       expect(mockEmbedText).toHaveBeenCalledWith('Test content');
+      expect(getInstanceEmbeddingProvider).toHaveBeenCalledWith('test-instance');
     });
 
     it('should throw error when embedding generation fails', async () => {
@@ -279,7 +279,7 @@ describe('MessageVectorSearch', () => {
     it('should search similar documentation pages', async () => {
       const mockEmbedding = new Array(768).fill(0.5);
       mockEmbedText.mockResolvedValue(mockEmbedding);
-      mockSearchSimilar.mockResolvedValue([
+      mockSearchHybrid.mockResolvedValue([
         {
           pageId: 1,
           title: 'Getting Started',
@@ -299,7 +299,10 @@ describe('MessageVectorSearch', () => {
       const result = await search.searchSimilarDocs('how to get started', 5);
 
       expect(mockEmbedText).toHaveBeenCalledWith('how to get started');
-      expect(mockSearchSimilar).toHaveBeenCalledWith(mockEmbedding, 5);
+      expect(mockSearchHybrid).toHaveBeenCalledWith(mockEmbedding, 'how to get started', {
+        topK: 5,
+        keywords: [],
+      });
       expect(result).toHaveLength(2);
       expect(result[0]).toEqual({
         id: 1,
@@ -312,16 +315,48 @@ describe('MessageVectorSearch', () => {
 
     it('should use default limit of 5', async () => {
       mockEmbedText.mockResolvedValue([0.1]);
-      mockSearchSimilar.mockResolvedValue([]);
+      mockSearchHybrid.mockResolvedValue([]);
 
       await search.searchSimilarDocs('test query');
 
-      expect(mockSearchSimilar).toHaveBeenCalledWith([0.1], 5);
+      expect(mockSearchHybrid).toHaveBeenCalledWith([0.1], 'test query', {
+        topK: 5,
+        keywords: [],
+      });
+    });
+
+    it('should pass keywords and report text-match ranks', async () => {
+      mockEmbedText.mockResolvedValue([0.1]);
+      mockSearchHybrid.mockResolvedValue([
+        {
+          pageId: 3,
+          chunkId: 9,
+          title: 'Config',
+          filePath: 'docs/config.md',
+          content: '## max_connections',
+          headingPath: 'Config > max_connections',
+          startLine: 10,
+          endLine: 14,
+          similarity: 0.61,
+          lexicalRank: 1,
+        },
+      ]);
+
+      const result = await search.searchSimilarDocs('connection limit', 3, ['max_connections']);
+
+      expect(mockSearchHybrid).toHaveBeenCalledWith([0.1], 'connection limit', {
+        topK: 3,
+        keywords: ['max_connections'],
+      });
+      expect(result[0]).toMatchObject({
+        heading_path: 'Config > max_connections',
+        lexical_rank: 1,
+      });
     });
 
     it('should throw error when search fails', async () => {
       mockEmbedText.mockResolvedValue([0.1]);
-      mockSearchSimilar.mockRejectedValue(new Error('Search failed'));
+      mockSearchHybrid.mockRejectedValue(new Error('Search failed'));
 
       await expect(search.searchSimilarDocs('test')).rejects.toThrow('Search failed');
     });
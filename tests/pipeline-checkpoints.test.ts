@@ -0,0 +1,343 @@
+/**
+ * Pipeline Checkpoint Tests
+ * Tests for step checkpoints in the run log, resuming failed runs
+ * and re-running a single thread
+ *
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - No checkpoint past a failed step when the pipeline continues
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../server/utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+  getErrorMessage: (error: unknown) => (error instanceof Error ? error.message : String(error)),
+}));
+
+import {
+  PipelineOrchestrator,
+  PipelineResumeError,
+} from '../server/pipeline/core/PipelineOrchestrator.js';
+import {
+  createCheckpoint,
+  restoreCheckpoint,
+  checkpointMatches,
+} from '../server/pipeline/core/PipelineContext.js';
+import type {
+  ILLMHandler,
+  PipelineCheckpoint,
+  PipelineConfig,
+  PipelineContext,
+} from '../server/pipeline/core/interfaces.js';
+import type { StepFactory } from '../server/pipeline/core/StepFactory.js';
+
+const llmHandler = { name: 'gemini' } as unknown as ILLMHandler;
+
+const config = {
+  instanceId: 'test-instance',
+  pipelineId: 'test-pipeline',
+  steps: [
+    { stepId: 'keyword-filter', stepType: 'filter', enabled: true, config: {} },
+    { stepId: 'batch-classify', stepType: 'classify', enabled: true, config: {} },
+    { stepId: 'rag-enrich', stepType: 'enrich', enabled: true, config: {} },
+    { stepId: 'proposal-generate', stepType: 'generate', enabled: true, config: {} },
+  ],
+  errorHandling: { stopOnError: true, retryAttempts: 0, retryDelayMs: 0 },
+  performance: { maxConcurrentSteps: 1, timeoutMs: 1000, enableCaching: false },
+} as unknown as PipelineConfig;
+
+const thread = (id: string, messageIds: number[]) => ({
+  id,
+  category: 'docs',
+  messageIds,
+  summary: `Summary of ${id}`,
+  docValueReason: 'useful',
+  ragSearchCriteria: { keywords: [], semanticQuery: id },
+});
+
+function createMessages() {
+  return [
+    { id: 10, messageId: 'm10', content: 'first' },
+    { id: 11, messageId: 'm11', content: 'second' },
+  ];
+}
+
+function createContext(db: unknown): PipelineContext {
+  const messages = createMessages();
+  return {
+    instanceId: 'test-instance',
+    batchId: 'batch-1',
+    messages,
+    contextMessages: [],
+    filteredMessages: [...messages],
+    threads: [],
+    proposals: new Map(),
+    ragResults: new Map(),
+    stepPromptLogs: new Map(),
+    metrics: { stepDurations: new Map(), llmCostUSD: 0 },
+    errors: [],
+    db,
+  } as unknown as PipelineContext;
+}
+
+function createDb(runs: Record<number, { pipelineId: string; checkpoint: unknown }> = {}) {
+  return {
+    pipelineRunLog: {
+      create: vi.fn().mockResolvedValue({ id: 8 }),
+      update: vi.fn().mockResolvedValue({}),
+      findUnique: vi.fn(async ({ where }: { where: { id: number } }) => runs[where.id] ?? null),
+    },
+    llmUsage: { create: vi.fn() },
+  };
+}
+
+describe('Pipeline checkpoints', () => {
+  let executed: string[];
+  let failGenerate: boolean;
+  let stepFactory: StepFactory;
+
+  beforeEach(() => {
+    executed = [];
+    failGenerate = false;
+    stepFactory = {
+      hasStepType: vi.fn().mockReturnValue(true),
+      create: vi.fn((stepConfig) => ({
+        stepId: stepConfig.stepId,
+        stepType: stepConfig.stepType,
+        execute: vi.fn(async (ctx: PipelineContext) => {
+          executed.push(stepConfig.stepId);
+          switch (stepConfig.stepType) {
+            case 'filter':
+              ctx.filteredMessages = ctx.messages;
+              break;
+            case 'classify':
+              ctx.filteredMessages.forEach((m) => (m.conversationId = `conv-${m.id}`));
+              ctx.threads = [thread('t1', [0]), thread('t2', [1])];
+              break;
+            case 'enrich':
+              for (const t of ctx.threads) {
+                ctx.ragResults.set(t.id, [
+                  { id: 1, filePath: 'docs/a.md', title: 'A', content: 'a', similarity: 0.9 },
+                ]);
+              }
+              break;
+            case 'generate':
+              if (failGenerate) throw new Error('503 Service Unavailable');
+              for (const t of ctx.threads) {
+                ctx.proposals.set(t.id, [
+                  { updateType: 'UPDATE', page: `${t.id}.md`, reasoning: 'new' },
+                ]);
+              }
+              break;
+          }
+          return ctx;
+        }),
+      })),
+    } as unknown as StepFactory;
+  });
+
+  it('should save a checkpoint after each step and keep the last one when a step fails', async () => {
+    failGenerate = true;
+    const db = createDb();
+    const orchestrator = new PipelineOrchestrator(config, llmHandler, stepFactory);
+
+    const result = await orchestrator.execute(createContext(db));
+
+    expect(result.success).toBe(false);
+    const updates = db.pipelineRunLog.update.mock.calls.map((call) => call[0].data);
+    expect(updates[0].checkpoint.stepId).toBe('keyword-filter');
+    const final = updates.at(-1)!;
+    expect(final.status).toBe('failed');
+    expect(final.checkpoint).toEqual({
+      stepId: 'rag-enrich',
+      messageIds: [10, 11],
+      filteredMessages: [
+        { id: 10, conversationId: 'conv-10' },
+        { id: 11, conversationId: 'conv-11' },
+      ],
+      threads: [thread('t1', [0]), thread('t2', [1])],
+      ragResults: {
+        t1: [{ id: 1, filePath: 'docs/a.md', title: 'A', content: 'a', similarity: 0.9 }],
+        t2: [{ id: 1, filePath: 'docs/a.md', title: 'A', content: 'a', similarity: 0.9 }],
+      },
+      proposals: {},
+    });
+  });
+
+  it('should not move the checkpoint past a failed step when the pipeline continues', async () => {
+    failGenerate = true;
+    const db = createDb();
+    const continuing = {
+      ...config,
+      steps: [
+        ...config.steps,
+        { stepId: 'proposal-validate', stepType: 'validate', enabled: true, config: {} },
+        { stepId: 'proposal-condense', stepType: 'condense', enabled: true, config: {} },
+      ],
+      errorHandling: { ...config.errorHandling, stopOnError: false },
+    } as PipelineConfig;
+
+    const result = await new PipelineOrchestrator(continuing, llmHandler, stepFactory).execute(
+      createContext(db)
+    );
+
+    expect(result.success).toBe(false);
+    const final = db.pipelineRunLog.update.mock.calls.at(-1)![0].data;
+    expect(final.steps.map((s: { stepName: string; status: string }) => s.status)).toEqual([
+      'completed',
+      'completed',
+      'completed',
+      'failed',
+      'skipped',
+      'skipped',
+    ]);
+    expect(final.checkpoint.stepId).toBe('rag-enrich');
+  });
+
+  it('should resume a failed run after its last completed step', async () => {
+    failGenerate = true;
+    const db = createDb();
+    await new PipelineOrchestrator(config, llmHandler, stepFactory).execute(createContext(db));
+    const checkpoint = db.pipelineRunLog.update.mock.calls.at(-1)![0].data.checkpoint;
+
+    failGenerate = false;
+    executed = [];
+    const resumeDb = createDb({ 7: { pipelineId: 'test-pipeline', checkpoint } });
+    const context = createContext(resumeDb);
+    const result = await new PipelineOrchestrator(config, llmHandler, stepFactory).execute(
+      context,
+      { resumeRunId: 7 }
+    );
+
+    expect(result.success).toBe(true);
+    expect(executed).toEqual(['proposal-generate']);
+    expect(context.filteredMessages.map((m) => m.conversationId)).toEqual(['conv-10', 'conv-11']);
+    expect([...context.proposals.keys()]).toEqual(['t1', 't2']);
+    expect(resumeDb.pipelineRunLog.create.mock.calls[0][0].data.resumedFromRunId).toBe(7);
+    const final = resumeDb.pipelineRunLog.update.mock.calls.at(-1)![0].data;
+    expect(final.status).toBe('completed');
+    expect(final.checkpoint.stepId).toBe('proposal-generate');
+    expect(final.steps.map((s: { stepName: string; status: string }) => s.status)).toEqual([
+      'skipped',
+      'skipped',
+      'skipped',
+      'completed',
+    ]);
+  });
+
+  it('should refuse to resume a checkpoint of other messages', async () => {
+    const checkpoint: PipelineCheckpoint = {
+      stepId: 'batch-classify',
+      messageIds: [10, 12],
+      filteredMessages: [],
+      threads: [],
+      ragResults: {},
+      proposals: {},
+    };
+    const db = createDb({ 7: { pipelineId: 'test-pipeline', checkpoint } });
+
+    await expect(
+      new PipelineOrchestrator(config, llmHandler, stepFactory).execute(createContext(db), {
+        resumeRunId: 7,
+      })
+    ).rejects.toThrow(PipelineResumeError);
+    expect(db.pipelineRunLog.create).not.toHaveBeenCalled();
+    expect(executed).toEqual([]);
+  });
+
+  it('should re-run one thread and keep the rest of the batch', async () => {
+    const checkpoint: PipelineCheckpoint = {
+      stepId: 'proposal-generate',
+      messageIds: [10, 11],
+      filteredMessages: [
+        { id: 10, conversationId: 'conv-10' },
+        { id: 11, conversationId: 'conv-11' },
+      ],
+      threads: [thread('t1', [0]), thread('t2', [1])],
+      ragResults: { t1: [], t2: [] },
+      proposals: {
+        t1: [{ updateType: 'UPDATE', page: 'old-t1.md', reasoning: 'old' }],
+        t2: [{ updateType: 'UPDATE', page: 'old-t2.md', reasoning: 'old' }],
+      },
+    };
+    const db = createDb({ 7: { pipelineId: 'test-pipeline', checkpoint } });
+    const context = createContext(db);
+
+    const result = await new PipelineOrchestrator(config, llmHandler, stepFactory).execute(
+      context,
+      { resumeRunId: 7, threadId: 't2' }
+    );
+
+    expect(result.success).toBe(true);
+    expect(executed).toEqual(['rag-enrich', 'proposal-generate']);
+    expect(context.threads.map((t) => t.id)).toEqual(['t1', 't2']);
+    expect(context.proposals.get('t1')![0].page).toBe('old-t1.md');
+    expect(context.proposals.get('t2')![0].page).toBe('t2.md');
+    expect(context.ragResults.get('t2')).toHaveLength(1);
+    const final = db.pipelineRunLog.update.mock.calls.at(-1)![0].data;
+    expect(final.checkpoint.stepId).toBe('proposal-generate');
+    expect(final.checkpoint.proposals.t2[0].page).toBe('t2.md');
+  });
+
+  it('should keep the checkpoint of the batch when a thread re-run fails', async () => {
+    failGenerate = true;
+    const checkpoint: PipelineCheckpoint = {
+      stepId: 'proposal-generate',
+      messageIds: [10, 11],
+      filteredMessages: [],
+      threads: [thread('t1', [0]), thread('t2', [1])],
+      ragResults: { t1: [], t2: [] },
+      proposals: { t2: [{ updateType: 'UPDATE', page: 'old-t2.md', reasoning: 'old' }] },
+    };
+    const db = createDb({ 7: { pipelineId: 'test-pipeline', checkpoint } });
+
+    const result = await new PipelineOrchestrator(config, llmHandler, stepFactory).execute(
+      createContext(db),
+      { resumeRunId: 7, threadId: 't2' }
+    );
+
+    expect(result.success).toBe(false);
+    const final = db.pipelineRunLog.update.mock.calls.at(-1)![0].data;
+    expect(final.checkpoint).toEqual(checkpoint);
+  });
+
+  it('should reject a thread that is not in the checkpoint', async () => {
+    const checkpoint = createCheckpoint('batch-classify', createContext(null));
+    const db = createDb({ 7: { pipelineId: 'test-pipeline', checkpoint } });
+
+    await expect(
+      new PipelineOrchestrator(config, llmHandler, stepFactory).execute(createContext(db), {
+        resumeRunId: 7,
+        threadId: 'missing',
+      })
+    ).rejects.toThrow('Thread missing not found in pipeline run 7');
+  });
+});
+
+describe('createCheckpoint / restoreCheckpoint', () => {
+  it('should round-trip the intermediate state through JSON', () => {
+    const context = createContext(null);
+    context.filteredMessages = [context.messages[1]];
+    context.messages[1].conversationId = 'conv-11';
+    context.threads = [thread('t1', [1])];
+    context.proposals.set('t1', [{ updateType: 'INSERT', page: 'a.md', reasoning: 'r' }]);
+
+    const checkpoint = JSON.parse(JSON.stringify(createCheckpoint('proposal-generate', context)));
+    const restored = createContext(null);
+    restoreCheckpoint(checkpoint, restored);
+
+    expect(checkpointMatches(checkpoint, restored.messages)).toBe(true);
+    expect(restored.filteredMessages).toEqual([
+      { id: 11, messageId: 'm11', content: 'second', conversationId: 'conv-11' },
+    ]);
+    expect(restored.threads).toEqual(context.threads);
+    expect(restored.proposals.get('t1')).toEqual(context.proposals.get('t1'));
+    expect(restored.ragResults.size).toBe(0);
+  });
+});
@@ -390,6 +390,80 @@ describe('PipelineConfigLoader', () => {
       const result = validatePipelineConfig(config);
       expect(result.valid).toBe(false);
     });
+
+    it('should validate per-step LLM provider settings', () => {
+      const withStepConfig = (stepConfig: Record<string, unknown>) => ({
+        instanceId: 'test',
+        pipelineId: 'test-v1',
+        steps: [
+          {
+            stepId: 'batch-classify',
+            stepType: StepType.CLASSIFY,
+            enabled: true,
+            config: stepConfig,
+          },
+        ],
+        errorHandling: {
+          stopOnError: false,
+          retryAttempts: 3,
+          retryDelayMs: 5000,
+        },
+        performance: {
+          maxConcurrentSteps: 1,
+          timeoutMs: 300000,
+          enableCaching: true,
+        },
+      });
+
+      expect(
+        validatePipelineConfig(
+          withStepConfig({ provider: 'openai', baseUrl: 'http://vllm:8000/v1', model: 'qwen2.5' })
+        ).valid
+      ).toBe(true);
+      expect(validatePipelineConfig(withStepConfig({ provider: 'mistral' })).valid).toBe(false);
+      expect(validatePipelineConfig(withStepConfig({ baseUrl: 'not a url' })).valid).toBe(false);
+    });
+
+    it('should validate fallback chains and circuit breaker settings', () => {
+      const config = {
+        instanceId: 'test',
+        pipelineId: 'test-v1',
+        steps: [
+          {
+            stepId: 'proposal-generate',
+            stepType: StepType.GENERATE,
+            enabled: true,
+            config: {
+              model: 'gemini-2.5-pro',
+              fallback: [
+                { model: 'gemini-2.5-flash' },
+                { provider: 'ollama', model: 'qwen2.5:14b', baseUrl: 'http://ollama:11434' },
+              ],
+            },
+          },
+        ],
+        errorHandling: {
+          stopOnError: false,
+          retryAttempts: 3,
+          retryDelayMs: 5000,
+          circuitBreaker: { failureThreshold: 3, cooldownMs: 60000 },
+        },
+        performance: {
+          maxConcurrentSteps: 1,
+          timeoutMs: 300000,
+          enableCaching: true,
+        },
+      };
+
+      expect(validatePipelineConfig(config).valid).toBe(true);
+
+      config.steps[0].config.fallback = [{ provider: 'ollama' } as any];
+      expect(validatePipelineConfig(config).valid).toBe(false);
+
+      config.steps[0].config.fallback = [];
+      config.errorHandling.circuitBreaker.failureThreshold = 0;
+      expect(validatePipelineConfig(config).valid).toBe(false);
+    });
   });
 
   describe('getDefaultPipelineConfig', () => {
@@ -245,8 +245,9 @@ describe('Pipeline E2E Tests', () => {
       const config = await loadPipelineConfig(CONFIG_BASE_PATH, 'default');
 
       expect(config).toBeDefined();
-      expect(config.steps.length).toBe(8); // filter, classify, enrich, generate, context-enrich, ruleset-review, validate, condense
+      expect(config.steps.length).toBe(9); // filter, thread, classify, enrich, generate, context-enrich, ruleset-review, validate, condense
       expect(config.steps.map((s) => s.stepType)).toContain(StepType.FILTER);
+      expect(config.steps.map((s) => s.stepType)).toContain(StepType.THREAD);
       expect(config.steps.map((s) => s.stepType)).toContain(StepType.CLASSIFY);
       expect(config.steps.map((s) => s.stepType)).toContain(StepType.ENRICH);
       expect(config.steps.map((s) => s.stepType)).toContain(StepType.GENERATE);
@@ -455,7 +456,7 @@ describe('Pipeline E2E Tests', () => {
 
       // Check metrics (totalDurationMs may be 0 in fast test runs)
       expect(result.metrics.totalDurationMs).toBeGreaterThanOrEqual(0);
-      expect(result.metrics.stepDurations.size).toBe(8); // All 8 pipeline steps
+      expect(result.metrics.stepDurations.size).toBe(9); // All 9 pipeline steps
       expect(result.metrics.llmCalls).toBeGreaterThan(0);
       expect(result.metrics.llmTokensUsed).toBeGreaterThan(0);
 
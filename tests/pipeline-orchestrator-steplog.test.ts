@@ -34,6 +34,7 @@ vi.mock('../server/pipeline/core/PipelineContext.js', () => ({
     proposalsGenerated: 0,
   }),
   serializeMetrics: vi.fn().mockReturnValue({}),
+  createCheckpoint: vi.fn((stepId: string) => ({ stepId })),
 }));
 
 // Mock StepFactory
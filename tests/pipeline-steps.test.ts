@@ -10,6 +10,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import { KeywordFilterStep } from '../server/pipeline/steps/filter/KeywordFilterStep.js';
 import { BatchClassifyStep } from '../server/pipeline/steps/classify/BatchClassifyStep.js';
+import { ConversationThreadingStep } from '../server/pipeline/steps/thread/ConversationThreadingStep.js';
 import { RagEnrichStep } from '../server/pipeline/steps/enrich/RagEnrichStep.js';
 import {
   StepType,
@@ -423,6 +424,193 @@ describe('BatchClassifyStep', () => {
         })
       );
     });
+
+    it('should tag accepted answers and maintainer replies in the prompt', async () => {
+      const llmHandler = createMockLLMHandler();
+      const prompts = createMockPromptRegistry();
+
+      const step = new BatchClassifyStep(
+        {
+          stepId: 'test-classify',
+          stepType: StepType.CLASSIFY,
+          enabled: true,
+          config: {
+            promptId: 'thread-classification',
+          },
+        },
+        llmHandler
+      );
+
+      const messages = [
+        createMockMessage(1, 'How do I rotate keys?', 'asker'),
+        {
+          ...createMockMessage(2, 'Use the rotate command', 'maintainer'),
+          metadata: { isAcceptedAnswer: true, isMaintainer: true },
+        },
+        {
+          ...createMockMessage(3, 'Thanks!', 'asker'),
+          metadata: { isAcceptedAnswer: false, isMaintainer: false },
+        },
+      ];
+
+      await step.execute(createMockContext(messages, { prompts }));
+
+      const variables = vi.mocked(prompts.render).mock.calls[0][1];
+      const lines = (variables.messagesToAnalyze as string).split('\n\n');
+      expect(lines[0]).toMatch(/asker: How do I rotate keys\?$/);
+      expect(lines[1]).toContain(
+        'maintainer [accepted answer, maintainer]: Use the rotate command'
+      );
+      expect(lines[2]).toMatch(/asker: Thanks!$/);
+    });
+
+    it('should render reply links as indices and label shared conversations', async () => {
+      const prompts = createMockPromptRegistry();
+      const step = new BatchClassifyStep(
+        {
+          stepId: 'test-classify',
+          stepType: StepType.CLASSIFY,
+          enabled: true,
+          config: {},
+        },
+        createMockLLMHandler()
+      );
+
+      const messages: UnifiedMessage[] = [
+        { ...createMockMessage(1, 'Question', 'asker'), conversationId: 'reply-msg-1' },
+        { ...createMockMessage(2, 'Unrelated', 'other'), conversationId: 'time-msg-2' },
+        {
+          ...createMockMessage(3, 'Answer', 'helper'),
+          conversationId: 'reply-msg-1',
+          replyToId: 'msg-1',
+        },
+        {
+          ...createMockMessage(4, 'Late answer', 'helper'),
+          conversationId: 'reply-msg-0',
+          replyToId: 'msg-0',
+        },
+      ];
+      const contextMessages = [
+        { ...createMockMessage(0, 'Yesterday', 'asker'), conversationId: 'reply-msg-0' },
+      ];
+
+      await step.execute(createMockContext(messages, { prompts, contextMessages }));
+
+      const variables = vi.mocked(prompts.render).mock.calls[0][1];
+      const lines = (variables.messagesToAnalyze as string).split('\n\n');
+      expect(lines[0]).toMatch(/\] \{c2\} asker: Question$/);
+      expect(lines[1]).toMatch(/\] other: Unrelated$/);
+      expect(lines[2]).toMatch(/\{c2\} helper \(reply to \[0\]\): Answer$/);
+      expect(lines[3]).toMatch(/\{c1\} helper \(reply to earlier message\): Late answer$/);
+      expect(variables.contextText).toMatch(/\{c1\} asker: Yesterday$/);
+    });
+  });
+});
+
+describe('ConversationThreadingStep', () => {
+  const minutes = (n: number) => new Date(Date.UTC(2026, 0, 1, 12, n));
+
+  function message(
+    id: number,
+    minute: number,
+    extra: Partial<UnifiedMessage> = {}
+  ): UnifiedMessage {
+    return {
+      ...createMockMessage(id, `message ${id}`),
+      timestamp: minutes(minute),
+      channel: 'general',
+      ...extra,
+    };
+  }
+
+  function createStep(config: Record<string, unknown> = {}) {
+    return new ConversationThreadingStep({
+      stepId: 'test-thread',
+      stepType: StepType.THREAD,
+      enabled: true,
+      config,
+    });
+  }
+
+  it('should keep interleaved reply trees apart', async () => {
+    const messages = [
+      message(1, 0),
+      message(2, 1),
+      message(3, 2, { replyToId: 'msg-1' }),
+      message(4, 3, { replyToId: 'msg-2' }),
+      message(5, 4, { replyToId: 'msg-3' }),
+    ];
+
+    const context = await createStep().execute(createMockContext(messages));
+
+    const ids = context.filteredMessages.map((m) => m.conversationId);
+    expect(ids).toEqual([
+      'reply-msg-1',
+      'reply-msg-2',
+      'reply-msg-1',
+      'reply-msg-2',
+      'reply-msg-1',
+    ]);
+  });
+
+  it('should group by adapter conversation key and link to context messages', async () => {
+    const contextMessages = [message(0, -30, { conversationId: 'general/RPC' })];
+    const messages = [
+      message(1, 0, { conversationId: 'general/RPC' }),
+      message(2, 1, { replyToId: 'msg-0' }),
+      message(3, 2, { replyToId: 'msg-missing' }),
+      message(4, 3, { replyToId: 'msg-missing' }),
+    ];
+
+    const context = await createStep().execute(createMockContext(messages, { contextMessages }));
+
+    expect(context.filteredMessages.map((m) => m.conversationId)).toEqual([
+      'general/RPC',
+      'general/RPC',
+      'reply-msg-missing',
+      'reply-msg-missing',
+    ]);
+    expect(contextMessages[0].conversationId).toBe('general/RPC');
+  });
+
+  it('should fall back to time gaps, window and size for unlinked messages', async () => {
+    const messages = [
+      message(1, 0),
+      message(2, 2),
+      message(3, 10), // gap >= 5 minutes
+      message(4, 11, { channel: 'random' }), // other channel
+      message(5, 12),
+      message(6, 14),
+      message(7, 16), // would exceed max size of 3
+      message(8, 20, { replyToId: 'msg-7' }), // linked, not time-grouped
+    ];
+
+    const context = await createStep({ maxConversationSize: 3 }).execute(
+      createMockContext(messages)
+    );
+
+    expect(context.filteredMessages.map((m) => m.conversationId)).toEqual([
+      'time-msg-1',
+      'time-msg-1',
+      'time-msg-3',
+      'time-msg-4',
+      'time-msg-3',
+      'time-msg-3',
+      'reply-msg-7',
+      'reply-msg-7',
+    ]);
+  });
+
+  it('should reject non-positive settings', () => {
+    const step = createStep();
+    expect(
+      step.validateConfig({
+        stepId: 'test-thread',
+        stepType: StepType.THREAD,
+        enabled: true,
+        config: { minConversationGapMinutes: 0 },
+      })
+    ).toBe(false);
   });
 });
 
@@ -486,7 +674,9 @@ describe('RagEnrichStep', () => {
 
       expect(result.ragResults.size).toBe(1);
       expect(result.ragResults.get('thread-1')).toHaveLength(1);
-      expect(ragService.searchSimilarDocs).toHaveBeenCalledWith('validator not working', 10);
+      expect(ragService.searchSimilarDocs).toHaveBeenCalledWith('validator not working', 10, [
+        'validator',
+      ]);
     });
 
     it('should filter results by similarity threshold', async () => {
@@ -527,5 +717,52 @@ describe('RagEnrichStep', () => {
       expect(result.ragResults.get('thread-1')).toHaveLength(1);
       expect(result.ragResults.get('thread-1')![0].similarity).toBe(0.9);
     });
+
+    it('should keep top full-text matches below the similarity threshold', async () => {
+      const ragService: IRagService = {
+        searchSimilarDocs: vi.fn().mockResolvedValue([
+          {
+            id: 1,
+            filePath: 'errors.md',
+            title: 'E',
+            content: 'E',
+            similarity: 0.6,
+            lexicalRank: 1,
+          },
+          { id: 2, filePath: 'a.md', title: 'A', content: 'A', similarity: 0.9 },
+          { id: 3, filePath: 'b.md', title: 'B', content: 'B', similarity: 0.5, lexicalRank: 9 },
+        ]),
+      };
+
+      const step = new RagEnrichStep({
+        stepId: 'test-enrich',
+        stepType: StepType.ENRICH,
+        enabled: true,
+        config: {
+          topK: 2,
+          minSimilarity: 0.7,
+        },
+      });
+
+      const context = createMockContext([], { ragService });
+      context.threads = [
+        {
+          id: 'thread-1',
+          category: 'troubleshooting',
+          messageIds: [0],
+          summary: 'Error',
+          docValueReason: 'Test',
+          ragSearchCriteria: {
+            keywords: ['ECONNRESET'],
+            semanticQuery: 'connection dropped',
+          },
+        },
+      ];
+
+      const result = await step.execute(context);
+
+      // Fused retrieval order is preserved
+      expect(result.ragResults.get('thread-1')!.map((d) => d.id)).toEqual([1, 2]);
+    });
   });
 });
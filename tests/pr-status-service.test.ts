@@ -0,0 +1,305 @@
+/**
+ * PRStatusService and PR Webhook Unit Tests
+ * Tests for syncing changeset PR state and reviews, and for webhook verification
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Background re-sync after a merge
+ * Updated: 2026-10-19 - Re-sync through the sync job service
+ * Updated: 2026-10-19 - Pending re-sync when a merge lands during a running sync
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockHost, mockCreateRepositoryHost, mockStartJob, mockSyncJobInstances } = vi.hoisted(
+  () => {
+    const mockHost = {
+      getPullRequestStatus: vi.fn(),
+      getPullRequestReviews: vi.fn(),
+    };
+    return {
+      mockHost,
+      mockCreateRepositoryHost: vi.fn(() => mockHost),
+      mockStartJob: vi.fn(),
+      mockSyncJobInstances: [] as string[],
+    };
+  }
+);
+
+vi.mock('../server/stream/services/repository-host-factory.js', () => ({
+  createRepositoryHost: mockCreateRepositoryHost,
+}));
+
+vi.mock('../server/doc-sync-jobs.js', () => ({
+  DocSyncJobService: class {
+    startJob = mockStartJob;
+    constructor(_prisma: unknown, instanceId: string) {
+      mockSyncJobInstances.push(instanceId);
+    }
+  },
+}));
+
+vi.mock('../server/config/instance-loader.js', () => ({
+  InstanceConfigLoader: {
+    get: vi.fn(() => ({ documentation: { gitToken: 'token' } })),
+  },
+}));
+
+import { PRStatusService, summarizeReviews } from '../server/stream/services/pr-status-service.js';
+import {
+  detectWebhookHost,
+  verifyWebhookSignature,
+  parsePullRequestWebhook,
+} from '../server/stream/services/pr-webhook.js';
+
+const mockPrisma = {
+  changesetBatch: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    update: vi.fn(),
+  },
+  changesetReview: {
+    createMany: vi.fn(),
+  },
+};
+
+const submittedBatch = {
+  id: 1,
+  batchId: 'batch-1',
+  status: 'submitted',
+  prNumber: 42,
+  prUrl: 'https://gitlab.example.com/docs/site/-/merge_requests/42',
+  targetRepo: 'docs/site',
+  sourceRepo: 'docs/site',
+  baseBranch: 'main',
+  gitHost: 'gitlab',
+  gitHostUrl: 'https://gitlab.example.com',
+};
+
+function review(author: string, state: string, submittedAt: string, id = `${author}-${state}`) {
+  return { externalId: id, author, state, body: '', submittedAt: new Date(submittedAt) } as any;
+}
+
+describe('PRStatusService', () => {
+  let service: PRStatusService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new PRStatusService(mockPrisma as any, 'projecta');
+    mockPrisma.changesetReview.createMany.mockResolvedValue({ count: 0 });
+    mockHost.getPullRequestReviews.mockResolvedValue([]);
+    mockSyncJobInstances.length = 0;
+    mockStartJob.mockResolvedValue({ job: { jobId: 'job-1' }, resumed: false });
+  });
+
+  it('should create the host recorded on the batch', async () => {
+    mockHost.getPullRequestStatus.mockResolvedValue({ state: 'open', draft: true, url: 'u' });
+
+    await service.refreshBatch(submittedBatch as any);
+
+    expect(mockCreateRepositoryHost).toHaveBeenCalledWith('gitlab', {
+      token: 'token',
+      targetRepo: 'docs/site',
+      sourceRepo: 'docs/site',
+      baseBranch: 'main',
+      baseUrl: 'https://gitlab.example.com',
+    });
+    expect(mockHost.getPullRequestStatus).toHaveBeenCalledWith(42);
+  });
+
+  it('should mark merged batches and re-sync documentation', async () => {
+    const mergedAt = new Date('2026-10-19T10:00:00Z');
+    mockHost.getPullRequestStatus.mockResolvedValue({
+      state: 'merged',
+      draft: false,
+      url: 'u',
+      mergedAt,
+      closedAt: mergedAt,
+    });
+
+    const update = await service.refreshBatch(submittedBatch as any);
+
+    expect(update).toMatchObject({
+      previousStatus: 'submitted',
+      status: 'merged',
+      resyncQueued: true,
+    });
+    expect(mockPrisma.changesetBatch.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({
+        status: 'merged',
+        mergedAt,
+        closedAt: mergedAt,
+        resyncPending: true,
+      }),
+    });
+    expect(mockStartJob).toHaveBeenCalledTimes(1);
+    expect(mockSyncJobInstances).toEqual(['projecta']);
+  });
+
+  it('should not re-sync batches that were already merged', async () => {
+    mockHost.getPullRequestStatus.mockResolvedValue({ state: 'merged', draft: false, url: 'u' });
+
+    await service.refreshBatch({ ...submittedBatch, status: 'merged' } as any);
+
+    expect(mockStartJob).not.toHaveBeenCalled();
+    expect(mockPrisma.changesetBatch.update.mock.calls[0][0].data).not.toHaveProperty(
+      'resyncPending'
+    );
+  });
+
+  it('should keep the re-sync pending when a merge lands while a sync is running', async () => {
+    mockHost.getPullRequestStatus.mockResolvedValue({ state: 'merged', draft: false, url: 'u' });
+    mockStartJob.mockResolvedValueOnce(null);
+
+    const update = await service.refreshBatch(submittedBatch as any);
+
+    expect(update).toMatchObject({ status: 'merged', resyncQueued: true });
+    expect(mockPrisma.changesetBatch.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({ status: 'merged', resyncPending: true }),
+    });
+  });
+
+  it('should keep the merged status when the sync job cannot start', async () => {
+    mockHost.getPullRequestStatus.mockResolvedValue({ state: 'merged', draft: false, url: 'u' });
+    mockStartJob.mockRejectedValueOnce(new Error('connection lost'));
+
+    const update = await service.refreshBatch(submittedBatch as any);
+
+    expect(update).toMatchObject({ status: 'merged', resyncQueued: false });
+  });
+
+  it('should store reviews and the review decision', async () => {
+    mockHost.getPullRequestStatus.mockResolvedValue({ state: 'open', draft: false, url: 'u' });
+    mockHost.getPullRequestReviews.mockResolvedValue([
+      { ...review('alice', 'changes_requested', '2026-10-19T09:00:00Z'), path: 'docs/a.md' },
+    ]);
+    mockPrisma.changesetReview.createMany.mockResolvedValue({ count: 1 });
+
+    const update = await service.refreshBatch(submittedBatch as any);
+
+    expect(update).toMatchObject({ status: 'submitted', newReviews: 1 });
+    expect(mockPrisma.changesetReview.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ batchId: 1, author: 'alice', filePath: 'docs/a.md' })],
+      skipDuplicates: true,
+    });
+    expect(mockPrisma.changesetBatch.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({ reviewState: 'changes_requested' }),
+    });
+  });
+
+  it('should continue polling when one batch fails', async () => {
+    mockPrisma.changesetBatch.findMany.mockResolvedValue([
+      submittedBatch,
+      { ...submittedBatch, id: 2, prNumber: 43 },
+    ]);
+    mockHost.getPullRequestStatus
+      .mockRejectedValueOnce(new Error('404 Not Found'))
+      .mockResolvedValueOnce({ state: 'closed', draft: false, url: 'u' });
+
+    const updates = await service.pollSubmittedBatches();
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ batchId: 2, status: 'closed' });
+  });
+});
+
+describe('summarizeReviews', () => {
+  it('should use the latest decision of each reviewer', () => {
+    expect(
+      summarizeReviews([
+        review('alice', 'changes_requested', '2026-10-19T09:00:00Z'),
+        review('alice', 'approved', '2026-10-19T10:00:00Z'),
+        review('bob', 'commented', '2026-10-19T11:00:00Z'),
+      ])
+    ).toBe('approved');
+  });
+
+  it('should report requested changes over approvals', () => {
+    expect(
+      summarizeReviews([
+        review('alice', 'approved', '2026-10-19T09:00:00Z'),
+        review('bob', 'changes_requested', '2026-10-19T08:00:00Z'),
+      ])
+    ).toBe('changes_requested');
+    expect(summarizeReviews([review('bob', 'commented', '2026-10-19T08:00:00Z')])).toBeNull();
+  });
+});
+
+describe('PR webhooks', () => {
+  const secret = 's3cret';
+  const sign = (body: string) => crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+  it('should detect the sending host', () => {
+    expect(detectWebhookHost({ 'x-github-event': 'pull_request' })).toBe('github');
+    expect(
+      detectWebhookHost({ 'x-github-event': 'pull_request', 'x-gitea-event': 'pull_request' })
+    ).toBe('gitea');
+    expect(detectWebhookHost({ 'x-gitlab-event': 'Merge Request Hook' })).toBe('gitlab');
+    expect(detectWebhookHost({ 'x-event-key': 'pullrequest:fulfilled' })).toBe('bitbucket');
+    expect(detectWebhookHost({})).toBeNull();
+  });
+
+  it('should verify HMAC signatures and GitLab tokens', () => {
+    const body = '{"action":"closed"}';
+
+    expect(
+      verifyWebhookSignature(
+        'github',
+        { 'x-hub-signature-256': `sha256=${sign(body)}` },
+        body,
+        secret
+      )
+    ).toBe(true);
+    expect(verifyWebhookSignature('gitea', { 'x-gitea-signature': sign(body) }, body, secret)).toBe(
+      true
+    );
+    expect(verifyWebhookSignature('gitlab', { 'x-gitlab-token': secret }, body, secret)).toBe(true);
+    expect(
+      verifyWebhookSignature(
+        'github',
+        { 'x-hub-signature-256': `sha256=${sign('{}')}` },
+        body,
+        secret
+      )
+    ).toBe(false);
+    expect(verifyWebhookSignature('bitbucket', {}, body, secret)).toBe(false);
+  });
+
+  it('should extract the pull request of each host', () => {
+    expect(
+      parsePullRequestWebhook(
+        'github',
+        {},
+        { pull_request: { number: 5 }, repository: { full_name: 'o/r' } }
+      )
+    ).toEqual({ host: 'github', repo: 'o/r', prNumber: 5 });
+    expect(
+      parsePullRequestWebhook(
+        'gitlab',
+        {},
+        {
+          object_kind: 'note',
+          merge_request: { iid: 7 },
+          project: { path_with_namespace: 'g/s/r' },
+        }
+      )
+    ).toEqual({ host: 'gitlab', repo: 'g/s/r', prNumber: 7 });
+    expect(
+      parsePullRequestWebhook(
+        'bitbucket',
+        { 'x-event-key': 'pullrequest:fulfilled' },
+        { pullrequest: { id: 9 }, repository: { full_name: 'team/docs' } }
+      )
+    ).toEqual({ host: 'bitbucket', repo: 'team/docs', prNumber: 9 });
+  });
+
+  it('should ignore events without a pull request', () => {
+    expect(parsePullRequestWebhook('github', {}, { zen: 'ping' })).toBeNull();
+    expect(
+      parsePullRequestWebhook('bitbucket', { 'x-event-key': 'repo:push' }, { repository: {} })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Re-embedding Tests
+ * Tests for recomputing an instance's documentation and message embeddings
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockStore, mockMessageSearch, mockProvider } = vi.hoisted(() => ({
+  mockStore: {
+    getPagesToReembed: vi.fn(),
+    upsertDocument: vi.fn(),
+    cleanup: vi.fn(),
+  },
+  mockMessageSearch: {
+    generateEmbedding: vi.fn(async () => [0.5, 0.5]),
+    storeEmbedding: vi.fn(),
+  },
+  mockProvider: { name: 'local', dimensions: 2, embedText: vi.fn(async () => [0.1, 0.2]) },
+}));
+
+vi.mock('../server/vector-store.js', () => ({
+  PgVectorStore: vi.fn(function () {
+    return mockStore;
+  }),
+}));
+
+vi.mock('../server/stream/message-vector-search.js', () => ({
+  MessageVectorSearch: vi.fn(function () {
+    return mockMessageSearch;
+  }),
+}));
+
+vi.mock('../server/config/instance-loader.js', () => ({
+  InstanceConfigLoader: { has: () => false },
+}));
+
+vi.mock('../server/llm/providers/index.js', () => ({
+  getDefaultEmbeddingProvider: () => mockProvider,
+  createEmbeddingProvider: vi.fn(),
+}));
+
+import { reembedInstance } from '../server/embeddings/reembed.js';
+
+const page = {
+  filePath: 'guide.md',
+  title: 'Guide',
+  content: '# Guide\n\nIntro\n\n## Install\n\nSteps',
+  gitHash: 'abc',
+  gitUrl: 'https://github.com/o/docs',
+  embedding: [],
+};
+
+describe('reembedInstance', () => {
+  let mockDb: { $queryRaw: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStore.getPagesToReembed.mockResolvedValue([page]);
+    mockDb = { $queryRaw: vi.fn(async () => [{ id: 7, content: 'How do I install?' }]) };
+  });
+
+  it('should re-embed pages as chunks and messages with the instance provider', async () => {
+    const result = await reembedInstance('projecta', mockDb as never);
+
+    expect(mockStore.getPagesToReembed).toHaveBeenCalledWith(2);
+    expect(mockStore.upsertDocument).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filePath: 'guide.md',
+        gitHash: 'abc',
+        embedding: [],
+        chunks: [
+          expect.objectContaining({ headingPath: ['Guide'], embedding: [0.1, 0.2] }),
+          expect.objectContaining({ headingPath: ['Guide', 'Install'], embedding: [0.1, 0.2] }),
+        ],
+      })
+    );
+    expect(mockMessageSearch.storeEmbedding).toHaveBeenCalledWith(7, [0.5, 0.5]);
+    expect(result).toEqual({ dimensions: 2, pages: 1, messages: 1, failed: 0 });
+    expect(mockStore.cleanup).toHaveBeenCalled();
+  });
+
+  it('should select every page with the all option', async () => {
+    await reembedInstance('projecta', mockDb as never, { all: true });
+
+    expect(mockStore.getPagesToReembed).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should count failures and continue', async () => {
+    mockStore.upsertDocument.mockRejectedValueOnce(new Error('connection lost'));
+    const progress: string[] = [];
+
+    const result = await reembedInstance('projecta', mockDb as never, {
+      onProgress: (message) => progress.push(message),
+    });
+
+    expect(result).toMatchObject({ pages: 0, messages: 1, failed: 1 });
+    expect(progress).toContain('Failed to re-embed page guide.md: connection lost');
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Unit tests for SlackAdapter
+ * Runs against a local stub of the Slack Web API served over HTTP
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { SlackAdapter, SlackMessage } from '../server/stream/adapters/slack-adapter';
+
+// Mock Prisma
+const mockDb = {
+  importWatermark: {
+    findFirst: vi.fn(),
+    updateMany: vi.fn(),
+    create: vi.fn(),
+    upsert: vi.fn(),
+  },
+  streamConfig: {
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  unifiedMessage: {
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+  },
+} as any;
+
+/**
+ * Stub Slack Web API state.
+ * history holds top-level messages per channel; threads holds replies per parent ts.
+ */
+const stub = {
+  token: 'xoxb-test',
+  history: new Map<string, SlackMessage[]>(),
+  threads: new Map<string, SlackMessage[]>(),
+  requests: [] as Array<{ method: string; params: URLSearchParams }>,
+  pageSize: 1000,
+  rateLimitNext: false,
+};
+
+function respond(res: http.ServerResponse, status: number, body: any, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+  const url = new URL(req.url!, 'http://localhost');
+  const method = url.pathname.replace(/^\/api\//, '');
+  const params = url.searchParams;
+  stub.requests.push({ method, params });
+
+  if (stub.rateLimitNext) {
+    stub.rateLimitNext = false;
+    return respond(res, 429, { ok: false, error: 'ratelimited' }, { 'Retry-After': '0' });
+  }
+
+  if (req.headers.authorization !== `Bearer ${stub.token}`) {
+    return respond(res, 200, { ok: false, error: 'invalid_auth' });
+  }
+
+  switch (method) {
+    case 'auth.test':
+      return respond(res, 200, { ok: true, user: 'docbot', team: 'Example' });
+
+    case 'conversations.info':
+      return respond(res, 200, {
+        ok: true,
+        channel: { id: params.get('channel'), name: `name-${params.get('channel')}` },
+      });
+
+    case 'users.info':
+      return respond(res, 200, {
+        ok: true,
+        user: { name: 'alice', real_name: 'Alice A', profile: { display_name: 'alice.dev' } },
+      });
+
+    case 'conversations.history': {
+      const oldest = params.get('oldest');
+      const all = [...(stub.history.get(params.get('channel')!) || [])]
+        .filter((m) => !oldest || SlackAdapter.compareTs(m.ts, oldest) > 0)
+        .sort((a, b) => SlackAdapter.compareTs(b.ts, a.ts));
+      const start = parseInt(params.get('cursor') || '0');
+      const page = all.slice(start, start + stub.pageSize);
+      const hasMore = start + stub.pageSize < all.length;
+      return respond(res, 200, {
+        ok: true,
+        messages: page,
+        has_more: hasMore,
+        response_metadata: { next_cursor: hasMore ? String(start + stub.pageSize) : '' },
+      });
+    }
+
+    case 'conversations.replies': {
+      const ts = params.get('ts')!;
+      const parent = (stub.history.get(params.get('channel')!) || []).find((m) => m.ts === ts);
+      const oldest = params.get('oldest');
+      const replies = (stub.threads.get(ts) || []).filter(
+        (m) => !oldest || SlackAdapter.compareTs(m.ts, oldest) > 0
+      );
+      return respond(res, 200, { ok: true, messages: [parent, ...replies], has_more: false });
+    }
+
+    default:
+      return respond(res, 200, { ok: false, error: 'unknown_method' });
+  }
+}
+
+function topLevel(ts: string, text: string, extra: Partial<SlackMessage> = {}): SlackMessage {
+  return { type: 'message', ts, user: 'U1', text, ...extra };
+}
+
+function addThread(channel: string, parentTs: string, replies: Array<[string, string]>) {
+  const parent = stub.history.get(channel)!.find((m) => m.ts === parentTs)!;
+  const messages = replies.map(([ts, text]) => topLevel(ts, text, { thread_ts: parentTs }));
+  parent.thread_ts = parentTs;
+  parent.reply_count = messages.length;
+  parent.latest_reply = messages[messages.length - 1].ts;
+  stub.threads.set(parentTs, messages);
+}
+
+describe('SlackAdapter', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let adapter: SlackAdapter;
+  let watermarks: Map<string, { lastImportedId: string; lastImportedTime: Date }>;
+
+  const config = () => ({
+    botToken: stub.token,
+    channelIds: ['C1'],
+    apiBaseUrl: baseUrl,
+  });
+
+  beforeAll(async () => {
+    server = http.createServer(handle);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stub.history = new Map([['C1', []]]);
+    stub.threads = new Map();
+    stub.requests = [];
+    stub.pageSize = 1000;
+    stub.rateLimitNext = false;
+    adapter = new SlackAdapter('test-slack-stream', mockDb);
+
+    watermarks = new Map();
+    mockDb.importWatermark.findFirst.mockImplementation(async ({ where }: any) => {
+      return where.resourceId ? watermarks.get(where.resourceId) || null : null;
+    });
+    mockDb.importWatermark.upsert.mockImplementation(async ({ where, update }: any) => {
+      watermarks.set(where.streamId_resourceId.resourceId, update);
+      return {};
+    });
+    mockDb.importWatermark.create.mockResolvedValue({});
+    mockDb.importWatermark.updateMany.mockResolvedValue({ count: 1 });
+    mockDb.streamConfig.findUnique.mockResolvedValue(null);
+    mockDb.streamConfig.create.mockResolvedValue({});
+    mockDb.unifiedMessage.findUnique.mockResolvedValue(null);
+    mockDb.unifiedMessage.findFirst.mockResolvedValue(null);
+    mockDb.unifiedMessage.create.mockResolvedValue({ id: 1 });
+  });
+
+  describe('Configuration Validation', () => {
+    it('should validate correct configuration', () => {
+      expect(adapter.validateConfig(config())).toBe(true);
+    });
+
+    it('should reject configuration without botToken', () => {
+      expect(adapter.validateConfig({ ...config(), botToken: '' })).toBe(false);
+    });
+
+    it('should reject configuration without channelIds', () => {
+      expect(adapter.validateConfig({ ...config(), channelIds: [] })).toBe(false);
+    });
+
+    it('should reject invalid apiBaseUrl', () => {
+      expect(adapter.validateConfig({ ...config(), apiBaseUrl: 'not-a-url' })).toBe(false);
+    });
+
+    it('should set default values for optional config', () => {
+      adapter.validateConfig({ botToken: 'xoxb', channelIds: ['C1'] });
+
+      const botConfig = (adapter as any).botConfig;
+      expect(botConfig.includeThreads).toBe(true);
+      expect(botConfig.threadLookbackHours).toBe(72);
+      expect(botConfig.ignoreBots).toBe(true);
+      expect(botConfig.pageSize).toBe(200);
+      expect(botConfig.apiBaseUrl).toBe('https://slack.com/api');
+    });
+  });
+
+  describe('Adapter Properties', () => {
+    it('should have correct adapter type', () => {
+      expect(adapter.adapterType).toBe('slack');
+    });
+  });
+
+  describe('Initialization', () => {
+    it('should authenticate and resolve channel names', async () => {
+      await adapter.initialize(config());
+
+      expect(stub.requests.map((r) => r.method)).toEqual(['auth.test', 'conversations.info']);
+      expect((adapter as any).channelNames.get('C1')).toBe('name-C1');
+    });
+
+    it('should fail with an invalid token', async () => {
+      await expect(adapter.initialize({ ...config(), botToken: 'xoxb-wrong' })).rejects.toThrow(
+        'Failed to connect to Slack API'
+      );
+    });
+  });
+
+  describe('fetchMessages', () => {
+    it('should throw error if not initialized', async () => {
+      await expect(adapter.fetchMessages()).rejects.toThrow();
+    });
+
+    it('should import top-level messages oldest first', async () => {
+      stub.history
+        .get('C1')!
+        .push(topLevel('1700000002.000200', 'second'), topLevel('1700000001.000100', 'first'));
+      await adapter.initialize(config());
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.content)).toEqual(['first', 'second']);
+      expect(messages[0].messageId).toBe('C1-1700000001.000100');
+      expect(messages[0].timestamp).toEqual(new Date(1700000001000));
+      expect(messages[0].author).toBe('alice.dev');
+      expect(messages[0].channel).toBe('name-C1');
+    });
+
+    it('should import thread replies with thread_ts metadata', async () => {
+      stub.history.get('C1')!.push(topLevel('1700000001.000100', 'how do I sync?'));
+      addThread('C1', '1700000001.000100', [
+        ['1700000005.000000', 'use --sync'],
+        ['1700000006.000000', 'thanks'],
+      ]);
+      await adapter.initialize(config());
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.content)).toEqual(['how do I sync?', 'use --sync', 'thanks']);
+      expect(messages[0].metadata?.threadTs).toBe('1700000001.000100');
+      expect(messages[0].metadata?.isThreadReply).toBe(false);
+      expect(messages[0].metadata?.replyCount).toBe(2);
+      expect(messages[1].metadata?.threadTs).toBe('1700000001.000100');
+      expect(messages[1].metadata?.isThreadReply).toBe(true);
+      expect(messages[1].metadata?.replyToMessageId).toBe('C1-1700000001.000100');
+    });
+
+    it('should keep one watermark per channel and fetch incrementally', async () => {
+      stub.history.get('C1')!.push(topLevel('1700000001.000100', 'first'));
+      await adapter.initialize(config());
+
+      await adapter.fetchMessages();
+      expect(watermarks.get('C1')?.lastImportedId).toBe('1700000001.000100');
+
+      stub.history.get('C1')!.push(topLevel('1700000009.000000', 'second'));
+      const next = await adapter.fetchMessages();
+
+      expect(next.map((m) => m.content)).toEqual(['second']);
+      expect(watermarks.get('C1')?.lastImportedId).toBe('1700000009.000000');
+    });
+
+    it('should pick up late replies on threads older than the watermark', async () => {
+      stub.history.get('C1')!.push(topLevel('1700000001.000100', 'question'));
+      addThread('C1', '1700000001.000100', [['1700000002.000000', 'first answer']]);
+      await adapter.initialize(config());
+      await adapter.fetchMessages();
+
+      addThread('C1', '1700000001.000100', [
+        ['1700000002.000000', 'first answer'],
+        ['1700000100.000000', 'late answer'],
+      ]);
+      const next = await adapter.fetchMessages();
+
+      expect(next.map((m) => m.content)).toEqual(['late answer']);
+      const repliesCall = stub.requests.filter((r) => r.method === 'conversations.replies').pop()!;
+      expect(repliesCall.params.get('oldest')).toBe('1700000002.000000');
+    });
+
+    it('should only scan the watermark onward when threads are disabled', async () => {
+      stub.history.get('C1')!.push(topLevel('1700000001.000100', 'first'));
+      await adapter.initialize({ ...config(), includeThreads: false });
+      await adapter.fetchMessages();
+
+      await adapter.fetchMessages();
+
+      const historyCall = stub.requests.filter((r) => r.method === 'conversations.history').pop()!;
+      expect(historyCall.params.get('oldest')).toBe('1700000001.000100');
+      expect(stub.requests.some((r) => r.method === 'conversations.replies')).toBe(false);
+    });
+
+    it('should page through history with cursors', async () => {
+      for (let i = 1; i <= 5; i++) {
+        stub.history.get('C1')!.push(topLevel(`170000000${i}.000000`, `msg ${i}`));
+      }
+      stub.pageSize = 2;
+      await adapter.initialize({ ...config(), startDate: '2023-01-01T00:00:00Z' });
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(5);
+      expect(stub.requests.filter((r) => r.method === 'conversations.history')).toHaveLength(3);
+    });
+
+    it('should skip bot, join and empty messages', async () => {
+      stub.history
+        .get('C1')!
+        .push(
+          topLevel('1700000001.000000', 'deploy finished', { bot_id: 'B1' }),
+          topLevel('1700000002.000000', 'has joined the channel', { subtype: 'channel_join' }),
+          topLevel('1700000003.000000', '   '),
+          topLevel('1700000004.000000', 'real question')
+        );
+      await adapter.initialize(config());
+
+      const messages = await adapter.fetchMessages();
+
+      expect(messages.map((m) => m.content)).toEqual(['real question']);
+    });
+
+    it('should retry once after a rate limit response', async () => {
+      stub.history.get('C1')!.push(topLevel('1700000001.000100', 'first'));
+      await adapter.initialize(config());
+
+      stub.rateLimitNext = true;
+      const messages = await adapter.fetchMessages();
+
+      expect(messages).toHaveLength(1);
+    });
+
+    it('should surface Slack API errors', async () => {
+      await adapter.initialize({ ...config(), channelIds: ['C1'] });
+      stub.token = 'xoxb-rotated';
+
+      try {
+        await expect(adapter.fetchMessages()).rejects.toThrow(
+          'Slack API error: conversations.history invalid_auth'
+        );
+      } finally {
+        stub.token = 'xoxb-test';
+      }
+    });
+  });
+
+  describe('ts helpers', () => {
+    it('should compare ts values without float rounding', () => {
+      expect(SlackAdapter.compareTs('1700000000.000101', '1700000000.000100')).toBe(1);
+      expect(SlackAdapter.compareTs('1700000000.000100', '1700000000.000100')).toBe(0);
+      expect(SlackAdapter.compareTs('1699999999.999999', '1700000000.000000')).toBe(-1);
+    });
+
+    it('should round-trip dates and ts values', () => {
+      const date = new Date('2024-01-01T00:00:00.250Z');
+      expect(SlackAdapter.dateFromTs(SlackAdapter.tsFromDate(date))).toEqual(date);
+    });
+  });
+});
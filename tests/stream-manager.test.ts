@@ -79,6 +79,132 @@ vi.mock('../server/stream/adapters/zulip-bot-adapter.js', () => {
   };
 });
 
+vi.mock('../server/stream/adapters/discord-adapter.js', () => {
+  return {
+    DiscordAdapter: class MockDiscordAdapter {
+      streamId: string;
+      constructor(streamId: string, _db: any) {
+        this.streamId = streamId;
+      }
+      validateConfig = vi.fn().mockReturnValue(true);
+      initialize = vi.fn().mockResolvedValue(undefined);
+      cleanup = vi.fn().mockResolvedValue(undefined);
+      getWatermark = vi.fn().mockResolvedValue({
+        lastProcessedTime: new Date(),
+        totalProcessed: 25,
+        metadata: {},
+      });
+      fetchMessages = vi.fn().mockResolvedValue([]);
+      updateWatermark = vi.fn().mockResolvedValue(undefined);
+    },
+  };
+});
+
+vi.mock('../server/stream/adapters/slack-adapter.js', () => {
+  return {
+    SlackAdapter: class MockSlackAdapter {
+      streamId: string;
+      constructor(streamId: string, _db: any) {
+        this.streamId = streamId;
+      }
+      validateConfig = vi.fn().mockReturnValue(true);
+      initialize = vi.fn().mockResolvedValue(undefined);
+      cleanup = vi.fn().mockResolvedValue(undefined);
+      getWatermark = vi.fn().mockResolvedValue({
+        lastProcessedTime: new Date(),
+        totalProcessed: 30,
+        metadata: {},
+      });
+      fetchMessages = vi.fn().mockResolvedValue([]);
+      updateWatermark = vi.fn().mockResolvedValue(undefined);
+    },
+  };
+});
+
+vi.mock('../server/stream/adapters/github-discussions-adapter.js', () => {
+  return {
+    GitHubDiscussionsAdapter: class MockGitHubDiscussionsAdapter {
+      streamId: string;
+      constructor(streamId: string, _db: any) {
+        this.streamId = streamId;
+      }
+      validateConfig = vi.fn().mockReturnValue(true);
+      initialize = vi.fn().mockResolvedValue(undefined);
+      cleanup = vi.fn().mockResolvedValue(undefined);
+      getWatermark = vi.fn().mockResolvedValue({
+        lastProcessedTime: new Date(),
+        totalProcessed: 0,
+        metadata: {},
+      });
+      fetchMessages = vi.fn().mockResolvedValue([]);
+      updateWatermark = vi.fn().mockResolvedValue(undefined);
+    },
+  };
+});
+
+vi.mock('../server/stream/adapters/mbox-file-adapter.js', () => {
+  return {
+    MboxFileAdapter: class MockMboxFileAdapter {
+      streamId: string;
+      constructor(streamId: string, _db: any) {
+        this.streamId = streamId;
+      }
+      validateConfig = vi.fn().mockReturnValue(true);
+      initialize = vi.fn().mockResolvedValue(undefined);
+      cleanup = vi.fn().mockResolvedValue(undefined);
+      getWatermark = vi.fn().mockResolvedValue({
+        lastProcessedTime: new Date(),
+        totalProcessed: 0,
+        metadata: {},
+      });
+      fetchMessages = vi.fn().mockResolvedValue([]);
+      updateWatermark = vi.fn().mockResolvedValue(undefined);
+    },
+  };
+});
+
+vi.mock('../server/stream/adapters/discourse-adapter.js', () => {
+  return {
+    DiscourseAdapter: class MockDiscourseAdapter {
+      streamId: string;
+      constructor(streamId: string, _db: any) {
+        this.streamId = streamId;
+      }
+      validateConfig = vi.fn().mockReturnValue(true);
+      initialize = vi.fn().mockResolvedValue(undefined);
+      cleanup = vi.fn().mockResolvedValue(undefined);
+      getWatermark = vi.fn().mockResolvedValue({
+        lastProcessedTime: new Date(),
+        totalProcessed: 0,
+        metadata: {},
+      });
+      fetchMessages = vi.fn().mockResolvedValue([]);
+      updateWatermark = vi.fn().mockResolvedValue(undefined);
+    },
+  };
+});
+
+vi.mock('../server/stream/adapters/json-file-adapter.js', () => {
+  return {
+    JsonFileAdapter: class MockJsonFileAdapter {
+      streamId: string;
+      constructor(streamId: string, _db: any) {
+        this.streamId = streamId;
+      }
+      validateConfig = vi.fn().mockReturnValue(true);
+      initialize = vi.fn().mockResolvedValue(undefined);
+      cleanup = vi.fn().mockResolvedValue(undefined);
+      getWatermark = vi.fn().mockResolvedValue({
+        lastProcessedTime: new Date(),
+        totalProcessed: 0,
+        metadata: {},
+      });
+      fetchMessages = vi.fn().mockResolvedValue([]);
+      updateWatermark = vi.fn().mockResolvedValue(undefined);
+    },
+  };
+});
+
 vi.mock('../server/config/instance-loader.js', () => ({
   InstanceConfigLoader: {
     getAvailableInstances: vi.fn().mockReturnValue([]),
@@ -1328,19 +1454,16 @@ describe('StreamManager - Discord env var injection via registerStream', () => {
     const manager = new StreamManager();
     const mockDb = {} as any;
 
-    // Since Discord adapter doesn't exist yet, we test that injectEnvVars is called
-    // by verifying the method doesn't throw when called with discord type
-    // We can access the private method via registerStream's createAdapter call
+    await manager.registerStream(
+      { streamId: 'discord-test', adapterType: 'discord', config: { guildId: 'g1' } },
+      'testinst',
+      mockDb
+    );
 
-    // The injectEnvVars method modifies config in place before adapter creation
-    // Since there's no Discord adapter, it will throw "Unknown adapter type"
-    await expect(
-      manager.registerStream(
-        { streamId: 'discord-test', adapterType: 'discord', config: {} },
-        'testinst',
-        mockDb
-      )
-    ).rejects.toThrow('Unknown adapter type: discord');
+    const adapter = manager.getAdapter('discord-test') as any;
+    expect(adapter.initialize).toHaveBeenCalledWith(
+      expect.objectContaining({ botToken: 'instance-discord-token', guildId: 'g1' })
+    );
   });
 
   it('should inject generic Discord token when instance-specific not found', async () => {
@@ -1349,13 +1472,230 @@ describe('StreamManager - Discord env var injection via registerStream', () => {
     const manager = new StreamManager();
     const mockDb = {} as any;
 
-    // Discord adapter type triggers the discord case in injectEnvVars
-    await expect(
-      manager.registerStream(
-        { streamId: 'discord-generic-test', adapterType: 'discord', config: {} },
-        'other-instance',
-        mockDb
-      )
-    ).rejects.toThrow('Unknown adapter type: discord');
+    await manager.registerStream(
+      { streamId: 'discord-generic-test', adapterType: 'discord', config: {} },
+      'other-instance',
+      mockDb
+    );
+
+    const adapter = manager.getAdapter('discord-generic-test') as any;
+    expect(adapter.initialize).toHaveBeenCalledWith(
+      expect.objectContaining({ botToken: 'generic-discord-token' })
+    );
+  });
+});
+
+describe('StreamManager - Slack env var injection via registerStream', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env = { ...originalEnv };
+    process.env.STREAM_SCHEDULING_ENABLED = 'false';
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should inject instance-specific Slack token', async () => {
+    process.env.TESTINST_SLACK_BOT_TOKEN = 'xoxb-instance';
+    process.env.SLACK_BOT_TOKEN = 'xoxb-generic';
+
+    const manager = new StreamManager();
+
+    await manager.registerStream(
+      { streamId: 'slack-test', adapterType: 'slack', config: { channelIds: ['C1'] } },
+      'testinst',
+      {} as any
+    );
+
+    const adapter = manager.getAdapter('slack-test') as any;
+    expect(adapter.initialize).toHaveBeenCalledWith(
+      expect.objectContaining({ botToken: 'xoxb-instance', channelIds: ['C1'] })
+    );
+  });
+
+  it('should keep configured Slack token over the generic env var', async () => {
+    process.env.SLACK_BOT_TOKEN = 'xoxb-generic';
+
+    const manager = new StreamManager();
+
+    await manager.registerStream(
+      { streamId: 'slack-config-test', adapterType: 'slack', config: { botToken: 'xoxb-config' } },
+      'other-instance',
+      {} as any
+    );
+
+    const adapter = manager.getAdapter('slack-config-test') as any;
+    expect(adapter.initialize).toHaveBeenCalledWith(
+      expect.objectContaining({ botToken: 'xoxb-config' })
+    );
+  });
+});
+
+describe('StreamManager - GitHub Discussions env var injection via registerStream', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env = { ...originalEnv };
+    process.env.STREAM_SCHEDULING_ENABLED = 'false';
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should inject instance-specific GitHub token', async () => {
+    process.env.TESTINST_GITHUB_TOKEN = 'ghp-instance';
+    process.env.GITHUB_TOKEN = 'ghp-generic';
+
+    const manager = new StreamManager();
+
+    await manager.registerStream(
+      {
+        streamId: 'github-test',
+        adapterType: 'github-discussions',
+        config: { repository: 'acme/widgets' },
+      },
+      'testinst',
+      {} as any
+    );
+
+    const adapter = manager.getAdapter('github-test') as any;
+    expect(adapter.initialize).toHaveBeenCalledWith(
+      expect.objectContaining({ token: 'ghp-instance', repository: 'acme/widgets' })
+    );
+  });
+
+  it('should fall back to the generic GitHub token', async () => {
+    delete process.env.OTHERINST_GITHUB_TOKEN;
+    process.env.GITHUB_TOKEN = 'ghp-generic';
+
+    const manager = new StreamManager();
+
+    await manager.registerStream(
+      {
+        streamId: 'github-generic-test',
+        adapterType: 'github-discussions',
+        config: { repository: 'acme/widgets' },
+      },
+      'otherinst',
+      {} as any
+    );
+
+    const adapter = manager.getAdapter('github-generic-test') as any;
+    expect(adapter.initialize).toHaveBeenCalledWith(
+      expect.objectContaining({ token: 'ghp-generic' })
+    );
+  });
+});
+
+describe('StreamManager - mbox and Discourse registration', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env = { ...originalEnv };
+    process.env.STREAM_SCHEDULING_ENABLED = 'false';
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should create an mbox adapter', async () => {
+    const manager = new StreamManager();
+
+    await manager.registerStream(
+      {
+        streamId: 'mbox-test',
+        adapterType: 'mbox',
+        config: { inboxDir: '/tmp/in', processedDir: '/tmp/out' },
+      },
+      'testinst',
+      {} as any
+    );
+
+    const adapter = manager.getAdapter('mbox-test') as any;
+    expect(adapter.initialize).toHaveBeenCalledWith({
+      inboxDir: '/tmp/in',
+      processedDir: '/tmp/out',
+    });
+  });
+
+  it('should inject instance-specific Discourse API key and username', async () => {
+    process.env.TESTINST_DISCOURSE_API_KEY = 'instance-key';
+    process.env.DISCOURSE_API_KEY = 'generic-key';
+    process.env.DISCOURSE_API_USERNAME = 'importer';
+
+    const manager = new StreamManager();
+
+    await manager.registerStream(
+      {
+        streamId: 'discourse-test',
+        adapterType: 'discourse',
+        config: { baseUrl: 'https://forum.example.com' },
+      },
+      'testinst',
+      {} as any
+    );
+
+    const adapter = manager.getAdapter('discourse-test') as any;
+    expect(adapter.initialize).toHaveBeenCalledWith(
+      expect.objectContaining({ apiKey: 'instance-key', apiUsername: 'importer' })
+    );
+  });
+
+  it('should leave the Discourse API key unset for public forums', async () => {
+    delete process.env.DISCOURSE_API_KEY;
+
+    const manager = new StreamManager();
+
+    await manager.registerStream(
+      {
+        streamId: 'discourse-public',
+        adapterType: 'discourse',
+        config: { baseUrl: 'https://forum.example.com' },
+      },
+      'publicinst',
+      {} as any
+    );
+
+    const adapter = manager.getAdapter('discourse-public') as any;
+    expect(adapter.initialize.mock.calls[0][0].apiKey).toBeUndefined();
+  });
+});
+
+describe('StreamManager - JSON file registration', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env = { ...originalEnv };
+    process.env.STREAM_SCHEDULING_ENABLED = 'false';
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should create a json-file adapter with its config untouched', async () => {
+    const manager = new StreamManager();
+    const config = {
+      inboxDir: '/tmp/in',
+      processedDir: '/tmp/out',
+      fieldMapping: { content: 'text' },
+    };
+
+    await manager.registerStream(
+      { streamId: 'json-test', adapterType: 'json-file', config },
+      'testinst',
+      {} as any
+    );
+
+    const adapter = manager.getAdapter('json-test') as any;
+    expect(adapter.initialize).toHaveBeenCalledWith(config);
   });
 });
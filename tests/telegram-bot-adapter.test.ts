@@ -287,7 +287,8 @@ describe('TelegramBotAdapter', () => {
 
       const normalized = (adapter as any).normalizeMessage(mockMessage, mockUpdate);
 
-      expect(normalized.metadata.replyToMessageId).toBe(221);
+      expect(normalized.metadata.replyToMessageId).toBe('-1001234567890-221');
+      expect(normalized.metadata.threadId).toBeUndefined();
     });
   });
 
@@ -0,0 +1,103 @@
+/**
+ * Three-Way Merge Tests
+ * Tests for rebasing proposal edits onto changed documentation files
+
+ * Date: 2026-10-19
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatConflicts, mergeThreeWay } from '../server/stream/services/three-way-merge.js';
+
+const base = ['# Guide', '', 'Intro', '', '## Setup', '', 'Step one', 'Step two', ''].join('\n');
+
+describe('mergeThreeWay', () => {
+  it('should merge edits to different regions', () => {
+    const ours = base.replace('Step two', 'Step two (updated)');
+    const theirs = base.replace('Intro', 'Better intro');
+
+    const result = mergeThreeWay(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toBe(
+      [
+        '# Guide',
+        '',
+        'Better intro',
+        '',
+        '## Setup',
+        '',
+        'Step one',
+        'Step two (updated)',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should keep proposal edits when upstream inserted lines above them', () => {
+    const ours = base.replace('Step one', 'Step one\nStep one and a half');
+    const theirs = base.replace('# Guide\n', '# Guide\n\n> Note: moved from /old\n');
+
+    const result = mergeThreeWay(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toContain('> Note: moved from /old');
+    expect(result.content).toContain('Step one\nStep one and a half\nStep two');
+  });
+
+  it('should accept identical changes on both sides', () => {
+    const changed = base.replace('Step one', 'Step 1');
+
+    const result = mergeThreeWay(base, changed, changed);
+
+    expect(result).toEqual({ content: changed, conflicts: [] });
+  });
+
+  it('should report overlapping changes as conflicts', () => {
+    const ours = base.replace('Step one', 'Run the installer');
+    const theirs = base.replace('Step one', 'Download the binary');
+
+    const result = mergeThreeWay(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([
+      {
+        baseStart: 6,
+        base: ['Step one'],
+        ours: ['Run the installer'],
+        theirs: ['Download the binary'],
+      },
+    ]);
+    expect(result.content).toBe(theirs);
+  });
+
+  it('should report edits to a section deleted upstream as conflicts', () => {
+    const ours = base.replace('Step two', 'Step two, then reboot');
+    const theirs = ['# Guide', '', 'Intro', ''].join('\n');
+
+    const result = mergeThreeWay(base, ours, theirs);
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].theirs).toEqual([]);
+  });
+});
+
+describe('formatConflicts', () => {
+  it('should render diff3-style hunks', () => {
+    const diff = formatConflicts(
+      [{ baseStart: 6, base: ['Step one'], ours: ['Ours'], theirs: ['Theirs'] }],
+      { ours: 'proposal', base: 'abc1234', theirs: 'main' }
+    );
+
+    expect(diff).toBe(
+      [
+        '@@ base line 7 @@',
+        '<<<<<<< proposal',
+        'Ours',
+        '||||||| abc1234',
+        'Step one',
+        '=======',
+        'Theirs',
+        '>>>>>>> main',
+      ].join('\n')
+    );
+  });
+});
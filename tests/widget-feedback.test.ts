@@ -0,0 +1,233 @@
+/**
+ * Widget Feedback Tests
+ * Tests for rating widget answers and reporting documentation gaps
+ * to the widget-feedback stream
+ *
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Upvotes withdraw pending gap reports
+ * Updated: 2026-10-19 - Unanswered reports survive upvotes; a changed reason is processed again
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  WidgetFeedbackService,
+  WidgetFeedbackError,
+  WIDGET_FEEDBACK_STREAM_ID,
+  isUnanswered,
+} from '../server/widget/widget-feedback.js';
+
+const SESSION_ID = '3f2b8c1e-5d4a-4e6f-9a7b-1c2d3e4f5a6b';
+
+const sources = [
+  { title: 'Install', filePath: 'docs/install.md', url: 'https://x/install.md', relevance: 0.7 },
+];
+
+type StoredMessage = { metadata: Record<string, unknown>; processingStatus: string };
+
+function createPrisma() {
+  // Gap messages by message id, so reports, re-ratings and withdrawals see each other
+  const messages = new Map<string, StoredMessage>();
+  return {
+    messages,
+    widgetMessage: {
+      findFirst: vi.fn(async ({ where }: { where: { role: string } }) =>
+        where.role === 'assistant'
+          ? { id: 12, role: 'assistant', content: 'Use the installer.', sources }
+          : { id: 11, role: 'user', content: 'How do I install on ARM?' }
+      ),
+    },
+    widgetFeedback: {
+      upsert: vi.fn(async ({ create }: { create: Record<string, unknown> }) => ({ ...create })),
+    },
+    streamConfig: { upsert: vi.fn() },
+    unifiedMessage: {
+      findUnique: vi.fn(
+        async ({ where }: any) => messages.get(where.streamId_messageId.messageId) ?? null
+      ),
+      upsert: vi.fn(async ({ where, create, update }: any) => {
+        const messageId = where.streamId_messageId.messageId;
+        const existing = messages.get(messageId);
+        messages.set(messageId, existing ? { ...existing, ...update } : { ...create });
+      }),
+      deleteMany: vi.fn(),
+    },
+  };
+}
+
+describe('WidgetFeedbackService', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let service: WidgetFeedbackService;
+
+  beforeEach(() => {
+    prisma = createPrisma();
+    service = new WidgetFeedbackService(prisma as any);
+  });
+
+  it('should store a rating with the question, answer and sources', async () => {
+    await service.submit({ sessionId: SESSION_ID, answerId: 12, rating: 'up' });
+
+    expect(prisma.widgetMessage.findFirst).toHaveBeenCalledWith({
+      where: { id: 12, sessionId: SESSION_ID, role: 'assistant' },
+    });
+    expect(prisma.widgetFeedback.upsert).toHaveBeenCalledWith({
+      where: { answerId: 12 },
+      update: { rating: 'up', comment: null },
+      create: {
+        sessionId: SESSION_ID,
+        answerId: 12,
+        question: 'How do I install on ARM?',
+        answer: 'Use the installer.',
+        sources,
+        rating: 'up',
+        comment: null,
+      },
+    });
+    expect(prisma.unifiedMessage.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should withdraw the pending gap report of an answer upvoted after a downvote', async () => {
+    await service.submit({ sessionId: SESSION_ID, answerId: 12, rating: 'down' });
+    expect(prisma.unifiedMessage.deleteMany).not.toHaveBeenCalled();
+
+    await service.submit({ sessionId: SESSION_ID, answerId: 12, rating: 'up' });
+
+    expect(prisma.unifiedMessage.deleteMany).toHaveBeenCalledWith({
+      where: { streamId: 'widget-feedback', messageId: 'answer-12', processingStatus: 'PENDING' },
+    });
+    expect(prisma.unifiedMessage.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a downvoted answer to the widget-feedback stream', async () => {
+    await service.submit({
+      sessionId: SESSION_ID,
+      answerId: 12,
+      rating: 'down',
+      comment: '  ARM is not covered  ',
+    });
+
+    expect(prisma.widgetFeedback.upsert.mock.calls[0][0].update).toEqual({
+      rating: 'down',
+      comment: 'ARM is not covered',
+    });
+    expect(prisma.streamConfig.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { streamId: WIDGET_FEEDBACK_STREAM_ID },
+        create: expect.objectContaining({ adapterType: 'widget-feedback', enabled: true }),
+      })
+    );
+
+    const message = prisma.unifiedMessage.upsert.mock.calls[0][0];
+    expect(message.where).toEqual({
+      streamId_messageId: { streamId: 'widget-feedback', messageId: 'answer-12' },
+    });
+    expect(message.create).toMatchObject({
+      streamId: 'widget-feedback',
+      messageId: 'answer-12',
+      author: 'widget-user',
+      channel: 'widget',
+      processingStatus: 'PENDING',
+      metadata: { source: 'widget', reason: 'downvoted', sessionId: SESSION_ID, unanswered: false },
+    });
+    expect(message.create.content).toContain('downvoted');
+    expect(message.create.content).toContain('How do I install on ARM?');
+    expect(message.create.content).toContain('Pages used: docs/install.md');
+    expect(message.create.content).toContain('User comment: ARM is not covered');
+    // Re-rating with the same reason updates the message without resetting its processing status
+    expect(message.update).not.toHaveProperty('processingStatus');
+  });
+
+  it('should process a downvote again after its unanswered report was processed', async () => {
+    await service.reportGap({
+      sessionId: SESSION_ID,
+      answerId: 12,
+      question: 'How do I install on ARM?',
+      answer: 'Use the installer.',
+      sources,
+      reason: 'unanswered',
+    });
+    prisma.messages.get('answer-12')!.processingStatus = 'COMPLETED';
+
+    await service.submit({ sessionId: SESSION_ID, answerId: 12, rating: 'down' });
+
+    const message = prisma.unifiedMessage.upsert.mock.calls[1][0];
+    expect(message.update).toMatchObject({
+      processingStatus: 'PENDING',
+      metadata: { reason: 'downvoted', unanswered: true },
+    });
+  });
+
+  it('should keep the unanswered report of an upvoted answer', async () => {
+    await service.reportGap({
+      sessionId: SESSION_ID,
+      answerId: 12,
+      question: 'How do I install on ARM?',
+      answer: 'Use the installer.',
+      sources,
+      reason: 'unanswered',
+    });
+
+    await service.submit({ sessionId: SESSION_ID, answerId: 12, rating: 'up' });
+
+    expect(prisma.unifiedMessage.deleteMany).not.toHaveBeenCalled();
+    expect(prisma.unifiedMessage.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('should turn a withdrawn downvote of an unanswered question back into its report', async () => {
+    await service.reportGap({
+      sessionId: SESSION_ID,
+      answerId: 12,
+      question: 'How do I install on ARM?',
+      answer: 'Use the installer.',
+      sources,
+      reason: 'unanswered',
+    });
+    await service.submit({ sessionId: SESSION_ID, answerId: 12, rating: 'down' });
+
+    await service.submit({ sessionId: SESSION_ID, answerId: 12, rating: 'up' });
+
+    expect(prisma.unifiedMessage.deleteMany).not.toHaveBeenCalled();
+    expect(prisma.messages.get('answer-12')).toMatchObject({
+      processingStatus: 'PENDING',
+      metadata: { reason: 'unanswered', unanswered: true },
+    });
+  });
+
+  it('should reject answers outside the session', async () => {
+    prisma.widgetMessage.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.submit({ sessionId: SESSION_ID, answerId: 99, rating: 'down' })
+    ).rejects.toThrow(WidgetFeedbackError);
+    expect(prisma.widgetFeedback.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should report unanswered questions', async () => {
+    await service.reportGap({
+      sessionId: SESSION_ID,
+      answerId: 14,
+      question: 'Does it run on a toaster?',
+      answer: 'I could not find this in the documentation.',
+      sources: [],
+      reason: 'unanswered',
+    });
+
+    const message = prisma.unifiedMessage.upsert.mock.calls[0][0];
+    expect(message.create.messageId).toBe('answer-14');
+    expect(message.create.content).toContain('no good match');
+    expect(message.create.content).not.toContain('Pages used');
+  });
+});
+
+describe('isUnanswered', () => {
+  const config = { unansweredSimilarity: 0.5 };
+
+  it('should treat no or weak matches as unanswered', () => {
+    expect(isUnanswered([], config)).toBe(true);
+    expect(isUnanswered([{ similarity: 0.3 }, { similarity: 0.45 }], config)).toBe(true);
+  });
+
+  it('should treat a good match as answered', () => {
+    expect(isUnanswered([{ similarity: 0.3 }, { similarity: 0.8 }], config)).toBe(false);
+  });
+});
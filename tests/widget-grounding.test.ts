@@ -0,0 +1,146 @@
+/**
+ * Widget Grounding Tests
+ * Tests for numbering retrieved sections as citations, heading anchors,
+ * strict-mode refusal and the unsupported-claim check
+ *
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Refusal without sections outside strict mode
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../server/utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+  getErrorMessage: (error: unknown) => (error instanceof Error ? error.message : String(error)),
+}));
+
+import {
+  buildGroundingSections,
+  findUnsupportedClaims,
+  formatGroundingContext,
+  headingAnchor,
+  retrievalConfidence,
+  sectionAnchor,
+  shouldRefuse,
+} from '../server/widget/widget-grounding.js';
+import type { SearchResult } from '../server/vector-store.js';
+
+function hit(overrides: Partial<SearchResult>): SearchResult {
+  return {
+    pageId: 1,
+    filePath: 'docs/install.md',
+    title: 'Installation',
+    content: 'Content',
+    similarity: 0.5,
+    ...overrides,
+  };
+}
+
+describe('buildGroundingSections', () => {
+  it('should number sections in rank order and merge chunks of the same section', () => {
+    const sections = buildGroundingSections([
+      hit({ headingPath: 'Setup > Linux', content: 'Download.', similarity: 0.7 }),
+      hit({ filePath: 'docs/faq.md', title: 'FAQ', content: 'Whole page.', similarity: 0.6 }),
+      hit({ headingPath: 'Setup > Linux', content: 'Extract.', similarity: 0.8 }),
+    ]);
+
+    expect(sections).toEqual([
+      {
+        id: 1,
+        title: 'Installation',
+        filePath: 'docs/install.md',
+        headingPath: 'Setup > Linux',
+        content: 'Download.\n\nExtract.',
+        similarity: 0.8,
+      },
+      { id: 2, title: 'FAQ', filePath: 'docs/faq.md', content: 'Whole page.', similarity: 0.6 },
+    ]);
+    expect(formatGroundingContext(sections)).toBe(
+      '[1] Installation > Setup > Linux (docs/install.md)\nDownload.\n\nExtract.\n\n---\n\n[2] FAQ (docs/faq.md)\nWhole page.'
+    );
+  });
+});
+
+describe('headingAnchor', () => {
+  it('should build GitHub-style anchors', () => {
+    expect(headingAnchor('Install on Linux (x64)')).toBe('install-on-linux-x64');
+    expect(headingAnchor('  `node.toml` options ')).toBe('nodetoml-options');
+    expect(headingAnchor('Über die API')).toBe('über-die-api');
+  });
+
+  it('should anchor the section heading, not its ancestors', () => {
+    const [section] = buildGroundingSections([hit({ headingPath: 'Setup > Step 2: Configure' })]);
+    expect(sectionAnchor(section)).toBe('step-2-configure');
+
+    const [page] = buildGroundingSections([hit({})]);
+    expect(sectionAnchor(page)).toBeUndefined();
+  });
+});
+
+describe('shouldRefuse', () => {
+  const sections = buildGroundingSections([hit({ similarity: 0.4 }), hit({ similarity: 0.6 })]);
+
+  it('should refuse in strict mode below the confidence threshold', () => {
+    expect(retrievalConfidence(sections)).toBe(0.6);
+    expect(
+      shouldRefuse(sections, { strictMode: true, minConfidence: 0.7, checkClaims: true })
+    ).toBe(true);
+    expect(shouldRefuse([], { strictMode: true, minConfidence: 0.1, checkClaims: true })).toBe(
+      true
+    );
+  });
+
+  it('should answer above the threshold or without strict mode', () => {
+    expect(
+      shouldRefuse(sections, { strictMode: true, minConfidence: 0.5, checkClaims: true })
+    ).toBe(false);
+    expect(
+      shouldRefuse(sections, { strictMode: false, minConfidence: 0.7, checkClaims: true })
+    ).toBe(false);
+  });
+
+  it('should refuse without sections even without strict mode', () => {
+    expect(shouldRefuse([], { strictMode: false, minConfidence: 0.5, checkClaims: true })).toBe(
+      true
+    );
+  });
+});
+
+describe('findUnsupportedClaims', () => {
+  const sections = buildGroundingSections([hit({ content: 'Windows: use the MSI.' })]);
+
+  it('should return the claims the check reports', async () => {
+    const llm = {
+      generateStructured: vi
+        .fn()
+        .mockResolvedValue({ unsupportedClaims: [' It runs on Windows XP. ', ''] }),
+    };
+
+    const claims = await findUnsupportedClaims(
+      llm as any,
+      'Use the MSI [1]. It runs on Windows XP.',
+      sections,
+      'Acme'
+    );
+
+    expect(claims).toEqual(['It runs on Windows XP.']);
+    const [prompt, , options] = llm.generateStructured.mock.calls[0];
+    expect(prompt).toContain('[1] Installation (docs/install.md)\nWindows: use the MSI.');
+    expect(prompt).toContain('Answer to verify:\nUse the MSI [1]. It runs on Windows XP.');
+    expect(options.systemPrompt).toContain('Acme');
+  });
+
+  it('should skip the check without sections and survive failures', async () => {
+    const llm = { generateStructured: vi.fn().mockRejectedValue(new Error('invalid JSON')) };
+
+    expect(await findUnsupportedClaims(llm as any, 'Anything.', [], 'Acme')).toBeUndefined();
+    expect(llm.generateStructured).not.toHaveBeenCalled();
+    expect(await findUnsupportedClaims(llm as any, 'Anything.', sections, 'Acme')).toBeUndefined();
+  });
+});
@@ -0,0 +1,951 @@
+/**
+ * Widget Session Tests
+ * Tests for persisted widget chat sessions, follow-up question rewriting
+ * and multi-turn answers from the widget ask endpoints
+ *
+
+ * Date: 2026-10-19
+ * Updated: 2026-10-19 - Streaming ask endpoint
+ * Updated: 2026-10-19 - Instance-aware widget routes
+ * Updated: 2026-10-19 - Answer feedback and unanswered question reporting
+ * Updated: 2026-10-19 - Section citations, strict mode and claim check
+ * Updated: 2026-10-19 - Vector store reuse per instance
+ * Updated: 2026-10-19 - LLM usage of widget answers
+ * Updated: 2026-10-19 - No general-knowledge answers without documentation matches
+ * Updated: 2026-10-19 - Widget LLM provider per instance
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+
+vi.mock('../server/utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+  getErrorMessage: (error: unknown) => (error instanceof Error ? error.message : String(error)),
+}));
+
+const SESSION_ID = '3f2b8c1e-5d4a-4e6f-9a7b-1c2d3e4f5a6b';
+
+const {
+  mockPrismaClient,
+  mockInstancePrisma,
+  mockSearchHybrid,
+  mockVectorStoreInstances,
+  mockEmbedText,
+  mockEmbeddingInstances,
+  mockLLM,
+  mockGetInstanceLLMProvider,
+} = vi.hoisted(() => {
+  const mockLLM = {
+    name: 'gemini',
+    generateText: vi.fn(),
+    generateWithHistory: vi.fn(),
+    streamWithHistory: vi.fn(),
+    generateStructured: vi.fn(),
+  };
+  return {
+    mockPrismaClient: {
+      widgetSession: {
+        findUnique: vi.fn(),
+        create: vi.fn(),
+        update: vi.fn(),
+        deleteMany: vi.fn(),
+      },
+      widgetMessage: { findFirst: vi.fn() },
+      widgetFeedback: { upsert: vi.fn() },
+      streamConfig: { upsert: vi.fn() },
+      unifiedMessage: { findUnique: vi.fn(), upsert: vi.fn(), deleteMany: vi.fn() },
+      llmUsage: { create: vi.fn() },
+    },
+    mockInstancePrisma: {
+      widgetSession: {
+        findUnique: vi.fn(),
+        create: vi.fn(),
+        update: vi.fn(),
+        deleteMany: vi.fn(),
+      },
+      llmUsage: { create: vi.fn() },
+    },
+    mockSearchHybrid: vi.fn(),
+    mockVectorStoreInstances: [] as string[],
+    mockEmbedText: vi.fn(),
+    mockEmbeddingInstances: [] as string[],
+    mockLLM,
+    mockGetInstanceLLMProvider: vi.fn((_instanceId: string) => mockLLM),
+  };
+});
+
+vi.mock('../server/db.js', () => ({
+  db: mockPrismaClient,
+}));
+
+vi.mock('../server/config/instance-loader.js', () => ({
+  InstanceConfigLoader: {
+    getAvailableInstancesAsync: vi.fn().mockResolvedValue(['projecta']),
+    has: vi.fn().mockReturnValue(true),
+    loadAsync: vi.fn(),
+  },
+}));
+
+vi.mock('../server/db/instance-db.js', () => ({
+  getInstanceDb: vi.fn(() => mockInstancePrisma),
+}));
+
+vi.mock('../server/vector-store.js', () => ({
+  PgVectorStore: class {
+    searchHybrid = mockSearchHybrid;
+    constructor(instanceId: string) {
+      mockVectorStoreInstances.push(instanceId);
+    }
+  },
+  groupResultsByPage: (docs: Array<{ title: string; filePath: string; similarity: number }>) =>
+    docs,
+}));
+
+vi.mock('../server/embeddings/instance-embeddings.js', () => ({
+  getInstanceEmbeddingProvider: (instanceId: string) => {
+    mockEmbeddingInstances.push(instanceId);
+    return { embedText: mockEmbedText };
+  },
+}));
+
+vi.mock('../server/llm/instance-llm.js', async () => {
+  const { GEMINI_MODEL_CATALOG } = await import('../server/pipeline/handlers/GeminiHandler.js');
+  return {
+    getInstanceLLMProvider: (instanceId: string) => mockGetInstanceLLMProvider(instanceId),
+    getInstanceModelCatalog: () => GEMINI_MODEL_CATALOG,
+  };
+});
+
+import { WidgetSessionService } from '../server/widget/widget-sessions.js';
+import { rewriteFollowUpQuestion } from '../server/widget/widget-chat.js';
+import { cleanupWidgetSessions } from '../server/widget/widget-session-cleanup.js';
+import type { ILLMProvider } from '../server/llm/providers/types.js';
+import widgetRoutes from '../server/routes/widget-routes.js';
+
+const now = new Date('2026-10-19T12:00:00Z');
+const config = { ttlHours: 24, historyMessages: 4 };
+
+describe('WidgetSessionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrismaClient.widgetSession.create.mockResolvedValue({ id: 'new-session' });
+  });
+
+  it('should load the history of an active session, oldest first', async () => {
+    mockPrismaClient.widgetSession.findUnique.mockResolvedValue({
+      id: SESSION_ID,
+      expiresAt: new Date('2026-10-20T00:00:00Z'),
+      messages: [
+        { id: 2, role: 'assistant', content: 'Run the installer.' },
+        { id: 1, role: 'user', content: 'How do I install it?' },
+      ],
+    });
+
+    const service = new WidgetSessionService(mockPrismaClient as any, config);
+    const session = await service.getOrCreate(SESSION_ID, now);
+
+    expect(session).toEqual({
+      sessionId: SESSION_ID,
+      history: [
+        { role: 'user', content: 'How do I install it?' },
+        { role: 'assistant', content: 'Run the installer.' },
+      ],
+    });
+    expect(mockPrismaClient.widgetSession.findUnique.mock.calls[0][0].include.messages.take).toBe(
+      4
+    );
+    expect(mockPrismaClient.widgetSession.create).not.toHaveBeenCalled();
+  });
+
+  it('should start a new session when the session has expired', async () => {
+    mockPrismaClient.widgetSession.findUnique.mockResolvedValue({
+      id: SESSION_ID,
+      expiresAt: new Date('2026-10-19T11:00:00Z'),
+      messages: [{ id: 1, role: 'user', content: 'old' }],
+    });
+
+    const service = new WidgetSessionService(mockPrismaClient as any, config);
+    const session = await service.getOrCreate(SESSION_ID, now);
+
+    expect(session).toEqual({ sessionId: 'new-session', history: [] });
+    expect(mockPrismaClient.widgetSession.create).toHaveBeenCalledWith({
+      data: { expiresAt: new Date('2026-10-20T12:00:00Z') },
+    });
+  });
+
+  it('should not look up session IDs that are not UUIDs', async () => {
+    const service = new WidgetSessionService(mockPrismaClient as any, config);
+    const session = await service.getOrCreate('not-a-uuid', now);
+
+    expect(session.sessionId).toBe('new-session');
+    expect(mockPrismaClient.widgetSession.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should store both messages of a turn, extend the session and return the answer id', async () => {
+    mockPrismaClient.widgetSession.update.mockResolvedValue({ messages: [{ id: 7 }] });
+    const sources = [{ title: 'Install', filePath: 'install.md', url: 'u', relevance: 0.9 }];
+
+    const service = new WidgetSessionService(mockPrismaClient as any, config);
+    const answerId = await service.appendTurn(
+      SESSION_ID,
+      {
+        question: 'And on Windows?',
+        standaloneQuery: 'How do I install it on Windows?',
+        answer: 'Use the MSI.',
+        sources,
+      },
+      now
+    );
+
+    expect(answerId).toBe(7);
+    expect(mockPrismaClient.widgetSession.update).toHaveBeenCalledWith({
+      where: { id: SESSION_ID },
+      data: {
+        expiresAt: new Date('2026-10-20T12:00:00Z'),
+        messages: {
+          create: [
+            {
+              role: 'user',
+              content: 'And on Windows?',
+              standaloneQuery: 'How do I install it on Windows?',
+            },
+            { role: 'assistant', content: 'Use the MSI.', sources },
+          ],
+        },
+      },
+      include: { messages: { where: { role: 'assistant' }, orderBy: { id: 'desc' }, take: 1 } },
+    });
+  });
+
+  it('should delete expired sessions of the default widget and every instance', async () => {
+    mockPrismaClient.widgetSession.deleteMany.mockResolvedValue({ count: 3 });
+    mockInstancePrisma.widgetSession.deleteMany.mockResolvedValue({ count: 2 });
+
+    const deleted = await cleanupWidgetSessions(now);
+
+    expect(deleted).toBe(5);
+    expect(mockPrismaClient.widgetSession.deleteMany).toHaveBeenCalledWith({
+      where: { expiresAt: { lte: now } },
+    });
+    expect(mockInstancePrisma.widgetSession.deleteMany).toHaveBeenCalledWith({
+      where: { expiresAt: { lte: now } },
+    });
+  });
+});
+
+describe('rewriteFollowUpQuestion', () => {
+  const history = [
+    { role: 'user' as const, content: 'How do I install the node?' },
+    { role: 'assistant' as const, content: 'Download the release for your platform.' },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the first question of a session unchanged', async () => {
+    const result = await rewriteFollowUpQuestion(
+      mockLLM as unknown as ILLMProvider,
+      [],
+      'How do I install the node?',
+      'Acme'
+    );
+
+    expect(result).toBe('How do I install the node?');
+    expect(mockLLM.generateText).not.toHaveBeenCalled();
+  });
+
+  it('should rewrite a follow-up with the conversation history', async () => {
+    mockLLM.generateText.mockResolvedValue({ text: '"How do I install the node on Windows?"\n' });
+
+    const result = await rewriteFollowUpQuestion(
+      mockLLM as unknown as ILLMProvider,
+      history,
+      'and on Windows?',
+      'Acme'
+    );
+
+    expect(result).toBe('How do I install the node on Windows?');
+    const [prompt, options] = mockLLM.generateText.mock.calls[0];
+    expect(prompt).toContain('User: How do I install the node?');
+    expect(prompt).toContain('Assistant: Download the release for your platform.');
+    expect(prompt).toContain('and on Windows?');
+    expect(options.systemPrompt).toContain('Acme');
+    expect(options.temperature).toBe(0);
+  });
+
+  it('should fall back to the original question when the rewrite fails', async () => {
+    mockLLM.generateText.mockRejectedValue(new Error('503 Service Unavailable'));
+
+    const result = await rewriteFollowUpQuestion(
+      mockLLM as unknown as ILLMProvider,
+      history,
+      'and on Windows?',
+      'Acme'
+    );
+
+    expect(result).toBe('and on Windows?');
+  });
+});
+
+describe('POST /widget/ask', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = express();
+    app.use(express.json());
+    app.use('/widget', widgetRoutes);
+
+    mockGetInstanceLLMProvider.mockImplementation(() => mockLLM);
+    mockEmbedText.mockResolvedValue([0.1, 0.2]);
+    mockSearchHybrid.mockResolvedValue([
+      {
+        title: 'Installation',
+        filePath: 'docs/install.md',
+        content: 'Windows: use the MSI.',
+        similarity: 0.9,
+      },
+    ]);
+    mockLLM.generateText.mockResolvedValue({ text: 'How do I install the node on Windows?' });
+    mockLLM.generateWithHistory.mockResolvedValue({ text: 'Use the MSI installer.' });
+    mockPrismaClient.widgetSession.update.mockResolvedValue({ messages: [{ id: 42 }] });
+    mockLLM.generateStructured.mockResolvedValue({ unsupportedClaims: [] });
+    mockPrismaClient.llmUsage.create.mockResolvedValue({});
+  });
+
+  it('should start a session on the first question and return its ID', async () => {
+    mockPrismaClient.widgetSession.create.mockResolvedValue({ id: SESSION_ID });
+
+    const response = await request(app)
+      .post('/widget/ask')
+      .send({ question: 'How do I install the node?' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.sessionId).toBe(SESSION_ID);
+    expect(response.body.answer).toBe('Use the MSI installer.');
+    expect(mockLLM.generateText).not.toHaveBeenCalled();
+    expect(mockEmbedText).toHaveBeenCalledWith('How do I install the node?');
+    expect(mockLLM.generateWithHistory.mock.calls[0][1]).toEqual([]);
+  });
+
+  it('should search with the rewritten follow-up and answer with the history', async () => {
+    mockPrismaClient.widgetSession.findUnique.mockResolvedValue({
+      id: SESSION_ID,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      messages: [
+        { id: 2, role: 'assistant', content: 'Download the release for your platform.' },
+        { id: 1, role: 'user', content: 'How do I install the node?' },
+      ],
+    });
+
+    const response = await request(app)
+      .post('/widget/ask')
+      .send({ question: 'and on Windows?', sessionId: SESSION_ID });
+
+    expect(response.status).toBe(200);
+    expect(response.body.sessionId).toBe(SESSION_ID);
+    expect(mockEmbedText).toHaveBeenCalledWith('How do I install the node on Windows?');
+    expect(mockSearchHybrid.mock.calls[0][1]).toBe('How do I install the node on Windows?');
+
+    const [prompt, history] = mockLLM.generateWithHistory.mock.calls[0];
+    expect(prompt).toContain('Question: and on Windows?');
+    expect(history).toEqual([
+      { role: 'user', content: 'How do I install the node?' },
+      { role: 'assistant', content: 'Download the release for your platform.' },
+    ]);
+
+    const stored = mockPrismaClient.widgetSession.update.mock.calls[0][0];
+    expect(stored.data.messages.create).toEqual([
+      {
+        role: 'user',
+        content: 'and on Windows?',
+        standaloneQuery: 'How do I install the node on Windows?',
+      },
+      {
+        role: 'assistant',
+        content: 'Use the MSI installer.',
+        sources: [
+          {
+            id: 1,
+            title: 'Installation',
+            filePath: 'docs/install.md',
+            url: '/blob/main/docs/install.md',
+            relevance: 0.9,
+          },
+        ],
+      },
+    ]);
+    expect(response.body.answerId).toBe(42);
+  });
+
+  it('should record the usage of every LLM call for the instance', async () => {
+    mockPrismaClient.widgetSession.findUnique.mockResolvedValue({
+      id: SESSION_ID,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      messages: [{ id: 1, role: 'user', content: 'How do I install the node?' }],
+    });
+    mockLLM.generateText.mockResolvedValue({
+      text: 'How do I install the node on Windows?',
+      model: 'gemini-2.5-flash',
+      inputTokens: 100,
+      outputTokens: 10,
+    });
+    mockLLM.generateWithHistory.mockResolvedValue({
+      text: 'Use the MSI installer [1].',
+      model: 'gemini-2.5-flash',
+      inputTokens: 1000,
+      outputTokens: 200,
+    });
+    mockLLM.generateStructured.mockImplementation(async (_prompt, _schema, options) => {
+      options.onResult({
+        text: '{}',
+        model: 'gemini-2.5-flash',
+        inputTokens: 800,
+        outputTokens: 20,
+      });
+      return { unsupportedClaims: [] };
+    });
+
+    const response = await request(app)
+      .post('/widget/ask')
+      .send({ question: 'and on Windows?', sessionId: SESSION_ID });
+
+    expect(response.status).toBe(200);
+    const recorded = mockPrismaClient.llmUsage.create.mock.calls.map(([args]) => args.data);
+    expect(recorded.map((entry) => [entry.inputTokens, entry.outputTokens])).toEqual([
+      [100, 10],
+      [1000, 200],
+      [800, 20],
+    ]);
+    expect(recorded[1]).toMatchObject({
+      instanceId: 'default',
+      purpose: 'widget-answer',
+      provider: 'gemini',
+      model: 'gemini-2.5-flash',
+    });
+    expect(recorded[1].costUsd).toBeCloseTo(0.000075 + 0.00006);
+  });
+
+  it('should answer even when recording the LLM usage fails', async () => {
+    mockPrismaClient.llmUsage.create.mockRejectedValue(new Error('connection refused'));
+
+    const response = await request(app)
+      .post('/widget/ask')
+      .send({ question: 'How do I install the node?' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.answer).toBe('Use the MSI installer.');
+  });
+
+  it('should cite matched sections by number and link their headings', async () => {
+    mockPrismaClient.widgetSession.create.mockResolvedValue({ id: SESSION_ID });
+    mockSearchHybrid.mockResolvedValue([
+      {
+        title: 'Installation',
+        filePath: 'docs/install.md',
+        content: 'Download the tarball.',
+        similarity: 0.8,
+        headingPath: 'Setup > Linux (x64)',
+      },
+      {
+        title: 'Installation',
+        filePath: 'docs/install.md',
+        content: 'Windows: use the MSI.',
+        similarity: 0.9,
+        headingPath: 'Setup > Windows',
+      },
+      {
+        title: 'Installation',
+        filePath: 'docs/install.md',
+        content: 'Extract it to /opt.',
+        similarity: 0.7,
+        headingPath: 'Setup > Linux (x64)',
+      },
+    ]);
+    mockLLM.generateWithHistory.mockResolvedValue({ text: 'Download the tarball [1].' });
+
+    const response = await request(app)
+      .post('/widget/ask')
+      .send({ question: 'How do I install on Linux?' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.sources).toEqual([
+      {
+        id: 1,
+        title: 'Installation',
+        section: 'Setup > Linux (x64)',
+        filePath: 'docs/install.md',
+        url: '/blob/main/docs/install.md#linux-x64',
+        relevance: 0.8,
+      },
+      {
+        id: 2,
+        title: 'Installation',
+        section: 'Setup > Windows',
+        filePath: 'docs/install.md',
+        url: '/blob/main/docs/install.md#windows',
+        relevance: 0.9,
+      },
+    ]);
+    expect(response.body.confidence).toBe(0.9);
+    expect(response.body.refused).toBe(false);
+
+    const prompt = mockLLM.generateWithHistory.mock.calls[0][0];
+    expect(prompt).toContain(
+      '[1] Installation > Setup > Linux (x64) (docs/install.md)\nDownload the tarball.\n\nExtract it to /opt.'
+    );
+    expect(prompt).toContain('[2] Installation > Setup > Windows (docs/install.md)');
+    expect(prompt).toContain('Answer using only the documentation sections above');
+  });
+
+  it('should flag claims the post-check cannot find in the sections', async () => {
+    mockPrismaClient.widgetSession.create.mockResolvedValue({ id: SESSION_ID });
+    mockLLM.generateWithHistory.mockResolvedValue({
+      text: 'Use the MSI installer [1]. It also runs on Windows XP.',
+    });
+    mockLLM.generateStructured.mockResolvedValue({
+      unsupportedClaims: ['It also runs on Windows XP.'],
+    });
+
+    const response = await request(app)
+      .post('/widget/ask')
+      .send({ question: 'How do I install the node?' });
+
+    expect(response.body.unsupportedClaims).toEqual(['It also runs on Windows XP.']);
+    const [checkPrompt, , options] = mockLLM.generateStructured.mock.calls[0];
+    expect(checkPrompt).toContain('[1] Installation (docs/install.md)\nWindows: use the MSI.');
+    expect(checkPrompt).toContain('It also runs on Windows XP.');
+    expect(options.temperature).toBe(0);
+  });
+
+  it('should still answer when the claim check fails', async () => {
+    mockPrismaClient.widgetSession.create.mockResolvedValue({ id: SESSION_ID });
+    mockLLM.generateStructured.mockRejectedValue(new Error('invalid JSON'));
+
+    const response = await request(app)
+      .post('/widget/ask')
+      .send({ question: 'How do I install the node?' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.answer).toBe('Use the MSI installer.');
+    expect(response.body).not.toHaveProperty('unsupportedClaims');
+  });
+
+  it('should report a question without a good documentation match', async () => {
+    mockPrismaClient.widgetSession.create.mockResolvedValue({ id: SESSION_ID });
+    mockSearchHybrid.mockResolvedValue([
+      { title: 'Installation', filePath: 'docs/install.md', content: 'MSI', similarity: 0.2 },
+    ]);
+
+    const response = await request(app)
+      .post('/widget/ask')
+      .send({ question: 'Does it run on a toaster?' });
+
+    expect(response.status).toBe(200);
+    const message = mockPrismaClient.unifiedMessage.upsert.mock.calls[0][0];
+    expect(message.create).toMatchObject({
+      streamId: 'widget-feedback',
+      messageId: 'answer-42',
+      processingStatus: 'PENDING',
+      metadata: { reason: 'unanswered', sessionId: SESSION_ID },
+    });
+    expect(message.create.content).toContain('Does it run on a toaster?');
+  });
+
+  it('should not report questions the documentation answers', async () => {
+    mockPrismaClient.widgetSession.create.mockResolvedValue({ id: SESSION_ID });
+
+    await request(app).post('/widget/ask').send({ question: 'How do I install the node?' });
+
+    expect(mockPrismaClient.unifiedMessage.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should still answer when the turn cannot be stored', async () => {
+    mockPrismaClient.widgetSession.create.mockResolvedValue({ id: SESSION_ID });
+    mockPrismaClient.widgetSession.update.mockRejectedValue(new Error('connection lost'));
+
+    const response = await request(app).post('/widget/ask').send({ question: 'Hello?' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.answer).toBe('Use the MSI installer.');
+  });
+
+  it('should return 500 when no LLM provider is configured', async () => {
+    mockGetInstanceLLMProvider.mockImplementation(() => {
+      throw new Error('GEMINI_API_KEY is not set');
+    });
+
+    const response = await request(app).post('/widget/ask').send({ question: 'Hello?' });
+
+    expect(response.status).toBe(500);
+    expect(response.body.error).toContain('AI service not configured');
+    expect(mockPrismaClient.widgetSession.create).not.toHaveBeenCalled();
+  });
+});
+
+// Collect the server-sent events of a streamed response
+function parseEvents(text: string) {
+  return text
+    .split('\n\n')
+    .filter(Boolean)
+    .map((raw) => {
+      const [eventLine, dataLine] = raw.split('\n');
+      return {
+        event: eventLine.replace('event: ', ''),
+        data: JSON.parse(dataLine.replace('data: ', '')),
+      };
+    });
+}
+
+describe('POST /widget/ask/stream', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = express();
+    app.use(express.json());
+    app.use('/widget', widgetRoutes);
+
+    mockGetInstanceLLMProvider.mockImplementation(() => mockLLM);
+    mockEmbedText.mockResolvedValue([0.1, 0.2]);
+    mockSearchHybrid.mockResolvedValue([
+      {
+        title: 'Installation',
+        filePath: 'docs/install.md',
+        content: 'Windows: use the MSI.',
+        similarity: 0.9,
+      },
+    ]);
+    mockPrismaClient.widgetSession.create.mockResolvedValue({ id: SESSION_ID });
+    mockPrismaClient.widgetSession.update.mockResolvedValue({ messages: [{ id: 42 }] });
+    mockLLM.generateStructured.mockResolvedValue({ unsupportedClaims: [] });
+  });
+
+  it('should stream tokens and end with the sources and session', async () => {
+    mockLLM.streamWithHistory.mockImplementation(async (_prompt, _history, options) => {
+      options.onToken('Use the ');
+      options.onToken('MSI installer.');
+      return { text: 'Use the MSI installer.' };
+    });
+
+    const response = await request(app)
+      .post('/widget/ask/stream')
+      .send({ question: 'How do I install the node?' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    expect(parseEvents(response.text)).toEqual([
+      { event: 'token', data: { text: 'Use the ' } },
+      { event: 'token', data: { text: 'MSI installer.' } },
+      {
+        event: 'sources',
+        data: {
+          sources: [
+            {
+              id: 1,
+              title: 'Installation',
+              filePath: 'docs/install.md',
+              url: '/blob/main/docs/install.md',
+              relevance: 0.9,
+            },
+          ],
+          usedRAG: true,
+          sessionId: SESSION_ID,
+          answerId: 42,
+          confidence: 0.9,
+          refused: false,
+          unsupportedClaims: [],
+        },
+      },
+    ]);
+    expect(mockLLM.streamWithHistory.mock.calls[0][2].signal).toBeInstanceOf(AbortSignal);
+    expect(
+      mockPrismaClient.widgetSession.update.mock.calls[0][0].data.messages.create[1]
+    ).toMatchObject({
+      role: 'assistant',
+      content: 'Use the MSI installer.',
+    });
+  });
+
+  it('should end with an error event when generation fails', async () => {
+    mockLLM.streamWithHistory.mockImplementation(async (_prompt, _history, options) => {
+      options.onToken('Use');
+      throw new Error('Gemini generation failed: 503');
+    });
+
+    const response = await request(app).post('/widget/ask/stream').send({ question: 'Hello?' });
+
+    expect(parseEvents(response.text)).toEqual([
+      { event: 'token', data: { text: 'Use' } },
+      {
+        event: 'error',
+        data: { error: 'Failed to process question', details: 'Gemini generation failed: 503' },
+      },
+    ]);
+    expect(mockPrismaClient.widgetSession.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid body before streaming', async () => {
+    const response = await request(app).post('/widget/ask/stream').send({ question: '' });
+
+    expect(response.status).toBe(400);
+    expect(mockLLM.streamWithHistory).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /widget/feedback', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = express();
+    app.use(express.json());
+    app.use('/widget', widgetRoutes);
+
+    mockPrismaClient.widgetMessage.findFirst.mockImplementation(
+      async ({ where }: { where: { role: string } }) =>
+        where.role === 'assistant'
+          ? { id: 42, role: 'assistant', content: 'Use the MSI installer.', sources: [] }
+          : { id: 41, role: 'user', content: 'How do I install the node?' }
+    );
+    mockPrismaClient.widgetFeedback.upsert.mockImplementation(
+      async ({ create }: { create: Record<string, unknown> }) => create
+    );
+  });
+
+  it('should store an upvote', async () => {
+    const response = await request(app)
+      .post('/widget/feedback')
+      .send({ sessionId: SESSION_ID, answerId: 42, rating: 'up' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true });
+    expect(mockPrismaClient.widgetFeedback.upsert.mock.calls[0][0].create).toMatchObject({
+      sessionId: SESSION_ID,
+      answerId: 42,
+      question: 'How do I install the node?',
+      rating: 'up',
+    });
+    expect(mockPrismaClient.unifiedMessage.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should report a downvote with its comment to the pipeline', async () => {
+    const response = await request(app)
+      .post('/widget/feedback')
+      .send({ sessionId: SESSION_ID, answerId: 42, rating: 'down', comment: 'No Linux steps' });
+
+    expect(response.status).toBe(200);
+    const message = mockPrismaClient.unifiedMessage.upsert.mock.calls[0][0];
+    expect(message.create.messageId).toBe('answer-42');
+    expect(message.create.content).toContain('User comment: No Linux steps');
+  });
+
+  it('should reject invalid feedback', async () => {
+    const response = await request(app)
+      .post('/widget/feedback')
+      .send({ sessionId: SESSION_ID, answerId: 42, rating: 'meh' });
+
+    expect(response.status).toBe(400);
+    expect(mockPrismaClient.widgetFeedback.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an answer outside the session', async () => {
+    mockPrismaClient.widgetMessage.findFirst.mockResolvedValue(null);
+
+    const response = await request(app)
+      .post('/widget/feedback')
+      .send({ sessionId: SESSION_ID, answerId: 7, rating: 'down' });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Instance widget routes', () => {
+  let app: Express;
+  let widgetConfig: Record<string, unknown>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVectorStoreInstances.length = 0;
+    mockEmbeddingInstances.length = 0;
+    widgetConfig = {
+      enabled: true,
+      title: 'Acme Helper',
+      welcomeMessage: 'Hi from Acme!',
+      suggestedQuestions: ['How do I deploy Acme?'],
+      position: 'bottom-right',
+      theme: 'dark',
+      allowedOrigins: ['https://acme.example'],
+    };
+    const config = {
+      project: { name: 'Acme' },
+      documentation: {
+        gitUrl: 'https://github.com/acme/docs.git',
+        branch: 'develop',
+        sources: [{ id: 'api', gitUrl: 'https://github.com/acme/api-docs', pathPrefix: 'api' }],
+      },
+      widget: widgetConfig,
+    };
+
+    app = express();
+    app.use(express.json());
+    app.use(
+      '/:instance/widget',
+      (req, _res, next) => {
+        req.instance = { id: 'projecta', config, db: mockInstancePrisma } as any;
+        next();
+      },
+      widgetRoutes
+    );
+
+    mockGetInstanceLLMProvider.mockImplementation(() => mockLLM);
+    mockEmbedText.mockResolvedValue([0.1, 0.2]);
+    mockSearchHybrid.mockResolvedValue([
+      { title: 'Deploy', filePath: 'guides/deploy.md', content: 'Deploy', similarity: 0.9 },
+      { title: 'REST API', filePath: 'api/rest.md', content: 'REST', similarity: 0.8 },
+    ]);
+    mockLLM.generateWithHistory.mockResolvedValue({ text: 'Run acme deploy.' });
+    mockInstancePrisma.widgetSession.create.mockResolvedValue({ id: SESSION_ID });
+    mockInstancePrisma.widgetSession.update.mockResolvedValue({ messages: [{ id: 42 }] });
+  });
+
+  it('should answer from the instance docs and link pages on their source branch', async () => {
+    const response = await request(app)
+      .post('/projecta/widget/ask')
+      .send({ question: 'How do I deploy?' });
+
+    expect(response.status).toBe(200);
+    expect(mockVectorStoreInstances).toContain('projecta');
+    expect(mockEmbeddingInstances).toEqual(['projecta']);
+    expect(mockGetInstanceLLMProvider).toHaveBeenCalledWith('projecta');
+    expect(mockInstancePrisma.widgetSession.create).toHaveBeenCalled();
+    expect(mockPrismaClient.widgetSession.create).not.toHaveBeenCalled();
+    expect(mockLLM.generateWithHistory.mock.calls[0][2].systemPrompt).toContain('Acme');
+    expect(response.body.sources.map((source: { url: string }) => source.url)).toEqual([
+      'https://github.com/acme/docs/blob/develop/guides/deploy.md',
+      'https://github.com/acme/api-docs/blob/main/rest.md',
+    ]);
+  });
+
+  it('should reuse one vector store per instance across requests', async () => {
+    await request(app).get('/projecta/widget/default');
+    await request(app).post('/projecta/widget/ask').send({ question: 'How do I deploy?' });
+    await request(app).post('/projecta/widget/ask').send({ question: 'And roll back?' });
+
+    // Created by the first instance request of this file at most once
+    expect(mockVectorStoreInstances.length).toBeLessThanOrEqual(1);
+  });
+
+  it('should render the instance widget config', async () => {
+    const response = await request(app).get('/projecta/widget/default');
+
+    expect(response.status).toBe(200);
+    expect(response.text).toContain('Acme Helper');
+    expect(response.text).toContain('Hi from Acme!');
+    expect(response.text).toContain('How do I deploy Acme?');
+    expect(response.text).toContain('#1a1a1a'); // dark theme
+    expect(response.headers['content-security-policy']).toBe(
+      "frame-ancestors 'self' https://acme.example"
+    );
+    expect(response.headers['x-frame-options']).toBeUndefined();
+  });
+
+  it('should allow configured origins and reject others', async () => {
+    const allowed = await request(app)
+      .post('/projecta/widget/ask')
+      .set('Origin', 'https://acme.example')
+      .send({ question: 'How do I deploy?' });
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers['access-control-allow-origin']).toBe('https://acme.example');
+
+    const preflight = await request(app)
+      .options('/projecta/widget/ask')
+      .set('Origin', 'https://acme.example');
+    expect(preflight.status).toBe(204);
+
+    const rejected = await request(app)
+      .post('/projecta/widget/ask')
+      .set('Origin', 'https://evil.example')
+      .send({ question: 'How do I deploy?' });
+    expect(rejected.status).toBe(403);
+    expect(mockLLM.generateWithHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse in strict mode when retrieval is not confident enough', async () => {
+    widgetConfig.strictMode = true;
+    widgetConfig.minConfidence = 0.95;
+
+    const response = await request(app)
+      .post('/projecta/widget/ask')
+      .send({ question: 'How do I deploy?' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.refused).toBe(true);
+    expect(response.body.answer).toContain("couldn't find this in the Acme documentation");
+    expect(mockLLM.generateWithHistory).not.toHaveBeenCalled();
+    expect(mockLLM.generateStructured).not.toHaveBeenCalled();
+    expect(
+      mockInstancePrisma.widgetSession.update.mock.calls[0][0].data.messages.create[1].content
+    ).toBe(response.body.answer);
+  });
+
+  it('should stream the refusal in strict mode', async () => {
+    widgetConfig.strictMode = true;
+    mockSearchHybrid.mockResolvedValue([]);
+
+    const response = await request(app)
+      .post('/projecta/widget/ask/stream')
+      .send({ question: 'Does Acme run on a toaster?' });
+
+    const events = parseEvents(response.text);
+    expect(events[0].event).toBe('token');
+    expect(events[0].data.text).toContain("couldn't find this in the Acme documentation");
+    expect(events[1]).toMatchObject({
+      event: 'sources',
+      data: { sources: [], refused: true, confidence: 0 },
+    });
+    expect(mockLLM.streamWithHistory).not.toHaveBeenCalled();
+  });
+
+  it('should decline questions the docs do not cover without strict mode', async () => {
+    mockSearchHybrid.mockResolvedValue([]);
+
+    const response = await request(app)
+      .post('/projecta/widget/ask')
+      .send({ question: 'Does Acme run on a toaster?' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.refused).toBe(true);
+    expect(response.body.answer).toContain("couldn't find this in the Acme documentation");
+    expect(mockLLM.generateWithHistory).not.toHaveBeenCalled();
+  });
+
+  it('should answer in strict mode when retrieval is confident', async () => {
+    widgetConfig.strictMode = true;
+    widgetConfig.minConfidence = 0.85;
+    widgetConfig.checkClaims = false;
+
+    const response = await request(app)
+      .post('/projecta/widget/ask')
+      .send({ question: 'How do I deploy?' });
+
+    expect(response.body.refused).toBe(false);
+    expect(response.body.answer).toBe('Run acme deploy.');
+    expect(mockLLM.generateStructured).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the instance has the widget disabled', async () => {
+    widgetConfig.enabled = false;
+
+    const response = await request(app).get('/projecta/widget/default');
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -156,6 +156,7 @@ describe('ZulipBotAdapter', () => {
       expect(normalized.content).toBe('How do I configure the RPC timeout?');
       expect(normalized.channel).toBe('community-support');
       expect(normalized.metadata.topic).toBe('RPC Configuration');
+      expect(normalized.metadata.threadId).toBe('community-support/RPC Configuration');
       expect(normalized.metadata.senderEmail).toBe('john@example.com');
       expect(normalized.metadata.senderId).toBe('98765');
       expect(normalized.metadata.messageType).toBe('stream');
@@ -184,6 +185,7 @@ describe('ZulipBotAdapter', () => {
       expect(normalized.content).toBe('Hello, can you help me?');
       expect(normalized.channel).toBe('Direct Message');
       expect(normalized.metadata.messageType).toBe('private');
+      expect(normalized.metadata.threadId).toBeUndefined();
     });
 
     it('should include raw Zulip message data', () => {